@@ -0,0 +1,62 @@
+import {describe, it} from "node:test";
+import * as assert from "node:assert/strict";
+import {
+  daysUntil,
+  getNoticeThreshold,
+  toDateString,
+} from "../expiryNotifications";
+
+// 30 June 2025 picked in the app: local midnight in Warsaw (UTC+2)
+const expiry = new Date("2025-06-29T22:00:00Z");
+
+describe("toDateString", () => {
+  it("uses the calendar day in Warsaw", () => {
+    assert.equal(toDateString(expiry), "2025-06-30");
+  });
+
+  it("follows winter time", () => {
+    assert.equal(toDateString(new Date("2025-01-14T23:00:00Z")), "2025-01-15");
+    assert.equal(toDateString(new Date("2025-01-14T22:59:00Z")), "2025-01-14");
+  });
+});
+
+describe("daysUntil", () => {
+  it("counts days to a date picked as local midnight", () => {
+    assert.equal(daysUntil(expiry, new Date("2025-06-23T10:00:00Z")), 7);
+  });
+
+  it("moves to the next day at midnight in Warsaw, not in UTC", () => {
+    assert.equal(daysUntil(expiry, new Date("2025-06-22T21:59:00Z")), 8);
+    assert.equal(daysUntil(expiry, new Date("2025-06-22T22:00:00Z")), 7);
+  });
+
+  it("counts whole days across the change to winter time", () => {
+    const november = new Date("2025-11-03T23:00:00Z");
+
+    assert.equal(daysUntil(november, new Date("2025-10-05T12:00:00Z")), 30);
+  });
+
+  it("is 0 on the expiry day and negative afterwards", () => {
+    assert.equal(daysUntil(expiry, new Date("2025-06-30T20:00:00Z")), 0);
+    assert.equal(daysUntil(expiry, new Date("2025-06-30T22:30:00Z")), -1);
+  });
+});
+
+describe("getNoticeThreshold", () => {
+  it("gives each threshold from its day on", () => {
+    assert.equal(getNoticeThreshold(60), 60);
+    assert.equal(getNoticeThreshold(30), 30);
+    assert.equal(getNoticeThreshold(7), 7);
+  });
+
+  it("keeps the last threshold passed until the next one", () => {
+    assert.equal(getNoticeThreshold(31), 60);
+    assert.equal(getNoticeThreshold(8), 30);
+    assert.equal(getNoticeThreshold(0), 7);
+  });
+
+  it("gives no notice too early or after expiry", () => {
+    assert.equal(getNoticeThreshold(61), null);
+    assert.equal(getNoticeThreshold(-1), null);
+  });
+});
@@ -0,0 +1,150 @@
+import {describe, it} from "node:test";
+import * as assert from "node:assert/strict";
+import {
+  flightDurationMinutes,
+  getBatteryCycleDeltas,
+  getDroneTotalsDeltas,
+} from "../flightTotals";
+
+const flight = {
+  droneId: "drone-123",
+  startTime: "2023-12-01T10:00:00Z",
+  endTime: "2023-12-01T11:00:00Z",
+  isDeleted: false,
+};
+
+describe("flightDurationMinutes", () => {
+  it("handles flights crossing midnight", () => {
+    assert.equal(
+      flightDurationMinutes("2023-12-01T23:30:00Z", "2023-12-02T00:15:00Z"),
+      45
+    );
+  });
+
+  it("reads legacy HH:mm times", () => {
+    assert.equal(flightDurationMinutes("23:30", "00:15"), 45);
+  });
+
+  it("returns 0 for missing or reversed times", () => {
+    assert.equal(flightDurationMinutes(undefined, "2023-12-01T11:00:00Z"), 0);
+    assert.equal(
+      flightDurationMinutes("2023-12-01T11:00:00Z", "2023-12-01T10:00:00Z"),
+      0
+    );
+  });
+});
+
+describe("getDroneTotalsDeltas", () => {
+  it("adds a new flight to its drone", () => {
+    assert.deepEqual(
+      getDroneTotalsDeltas(undefined, flight),
+      new Map([["drone-123", {minutes: 60, flights: 1}]])
+    );
+  });
+
+  it("counts a flight with invalid times without adding minutes", () => {
+    const invalid = {...flight, endTime: "2023-12-01T09:00:00Z"};
+
+    assert.deepEqual(
+      getDroneTotalsDeltas(undefined, invalid),
+      new Map([["drone-123", {minutes: 0, flights: 1}]])
+    );
+  });
+
+  it("applies only the difference when times change", () => {
+    const longer = {...flight, endTime: "2023-12-01T11:30:00Z"};
+
+    assert.deepEqual(
+      getDroneTotalsDeltas(flight, longer),
+      new Map([["drone-123", {minutes: 30, flights: 0}]])
+    );
+  });
+
+  it("moves the flight to the new drone", () => {
+    const moved = {
+      ...flight,
+      droneId: "drone-456",
+      endTime: "2023-12-01T10:30:00Z",
+    };
+
+    assert.deepEqual(
+      getDroneTotalsDeltas(flight, moved),
+      new Map([
+        ["drone-123", {minutes: -60, flights: -1}],
+        ["drone-456", {minutes: 30, flights: 1}],
+      ])
+    );
+  });
+
+  it("ignores edits of unrelated fields", () => {
+    assert.equal(
+      getDroneTotalsDeltas(flight, {...flight, conditions: "Windy"}).size,
+      0
+    );
+  });
+
+  it("takes a soft-deleted flight out and a restored one back", () => {
+    const deleted = {...flight, isDeleted: true};
+
+    assert.deepEqual(
+      getDroneTotalsDeltas(flight, deleted),
+      new Map([["drone-123", {minutes: -60, flights: -1}]])
+    );
+    assert.deepEqual(
+      getDroneTotalsDeltas(deleted, flight),
+      new Map([["drone-123", {minutes: 60, flights: 1}]])
+    );
+  });
+
+  it("ignores edits of a deleted flight", () => {
+    const deleted = {...flight, isDeleted: true};
+
+    assert.equal(
+      getDroneTotalsDeltas(deleted, {...deleted, endTime: "2023-12-01T12:00Z"})
+        .size,
+      0
+    );
+  });
+});
+
+describe("getBatteryCycleDeltas", () => {
+  const withPacks = {...flight, batteryIds: ["battery-1", "battery-2"]};
+
+  it("adds a cycle to each pack used on a new flight", () => {
+    assert.deepEqual(
+      getBatteryCycleDeltas(undefined, withPacks),
+      new Map([["battery-1", 1], ["battery-2", 1]])
+    );
+  });
+
+  it("moves cycles only for swapped packs", () => {
+    const swapped = {...withPacks, batteryIds: ["battery-2", "battery-3"]};
+
+    assert.deepEqual(
+      getBatteryCycleDeltas(withPacks, swapped),
+      new Map([["battery-1", -1], ["battery-3", 1]])
+    );
+  });
+
+  it("counts a pack listed twice once", () => {
+    const twice = {...flight, batteryIds: ["battery-1", "battery-1"]};
+
+    assert.deepEqual(
+      getBatteryCycleDeltas(undefined, twice),
+      new Map([["battery-1", 1]])
+    );
+  });
+
+  it("takes the cycles back on delete and returns them on restore", () => {
+    const deleted = {...withPacks, isDeleted: true};
+
+    assert.deepEqual(
+      getBatteryCycleDeltas(withPacks, deleted),
+      new Map([["battery-1", -1], ["battery-2", -1]])
+    );
+    assert.deepEqual(
+      getBatteryCycleDeltas(deleted, withPacks),
+      new Map([["battery-1", 1], ["battery-2", 1]])
+    );
+  });
+});
@@ -0,0 +1,90 @@
+import {describe, it} from "node:test";
+import * as assert from "node:assert/strict";
+import {getMissionFlightChanges, toMissionFlight} from "../missionFlights";
+
+const flight = {
+  userId: "user-123",
+  userEmail: "pilot@bieszczady.gopr.pl",
+  droneId: "drone-123",
+  droneName: "Mavic 3T",
+  startTime: "2023-12-01T10:00:00Z",
+  endTime: "2023-12-01T11:00:00Z",
+  missionId: "mission-123",
+  notes: "Private notes",
+  location: "Tarnica",
+  isDeleted: false,
+};
+
+const entry = {
+  userId: "user-123",
+  userEmail: "pilot@bieszczady.gopr.pl",
+  droneId: "drone-123",
+  droneName: "Mavic 3T",
+  startTime: "2023-12-01T10:00:00Z",
+  endTime: "2023-12-01T11:00:00Z",
+};
+
+describe("toMissionFlight", () => {
+  it("copies only the timeline fields", () => {
+    assert.deepEqual(toMissionFlight(flight), entry);
+  });
+
+  it("leaves out fields that are not set", () => {
+    const withoutName = toMissionFlight({...flight, droneName: undefined});
+
+    assert.equal("droneName" in withoutName, false);
+  });
+});
+
+describe("getMissionFlightChanges", () => {
+  it("adds a new flight to its mission", () => {
+    assert.deepEqual(
+      getMissionFlightChanges(undefined, flight),
+      new Map([["mission-123", entry]])
+    );
+  });
+
+  it("updates the entry when the flight is edited", () => {
+    const longer = {...flight, endTime: "2023-12-01T11:30:00Z"};
+
+    assert.deepEqual(
+      getMissionFlightChanges(flight, longer),
+      new Map([["mission-123", {...entry, endTime: "2023-12-01T11:30:00Z"}]])
+    );
+  });
+
+  it("moves the flight to the new mission", () => {
+    const moved = {...flight, missionId: "mission-456"};
+
+    assert.deepEqual(
+      getMissionFlightChanges(flight, moved),
+      new Map([["mission-123", null], ["mission-456", entry]])
+    );
+  });
+
+  it("removes a flight unlinked from its mission", () => {
+    assert.deepEqual(
+      getMissionFlightChanges(flight, {...flight, missionId: undefined}),
+      new Map([["mission-123", null]])
+    );
+  });
+
+  it("takes a soft-deleted flight out and a restored one back", () => {
+    const deleted = {...flight, isDeleted: true};
+
+    assert.deepEqual(
+      getMissionFlightChanges(flight, deleted),
+      new Map([["mission-123", null]])
+    );
+    assert.deepEqual(
+      getMissionFlightChanges(deleted, flight),
+      new Map([["mission-123", entry]])
+    );
+  });
+
+  it("ignores flights not linked to a mission", () => {
+    const unlinked = {...flight, missionId: undefined};
+
+    assert.equal(getMissionFlightChanges(undefined, unlinked).size, 0);
+  });
+});
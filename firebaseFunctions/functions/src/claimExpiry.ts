@@ -0,0 +1,221 @@
+import * as admin from "firebase-admin";
+
+// Same lock documents the app uses to keep one active claim per drone
+const LOCK_COLLECTION = "droneClaimLocks";
+
+// Claim limits, configurable in appsettings/droneClaimRules
+export interface DroneClaimRules {
+  maxClaimHours: number;
+  autoReleaseGraceHours: number;
+}
+
+export const DEFAULT_DRONE_CLAIM_RULES: DroneClaimRules = {
+  maxClaimHours: 24,
+  autoReleaseGraceHours: 12,
+};
+
+export type ClaimExpiryOutcome = "flagged" | "released" | "skipped";
+
+export interface ClaimExpiryResult {
+  claimsChecked: number;
+  claimsFlagged: number;
+  claimsReleased: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Read the claim limits, falling back to the defaults for missing values
+ * @param {admin.firestore.Firestore} db Firestore instance
+ * @return {Promise<DroneClaimRules>} Claim limits
+ */
+export async function getDroneClaimRules(
+  db: admin.firestore.Firestore
+): Promise<DroneClaimRules> {
+  const data = (await db.collection("appsettings")
+    .doc("droneClaimRules").get()).data();
+
+  return {
+    maxClaimHours: typeof data?.maxClaimHours === "number" ?
+      data.maxClaimHours :
+      DEFAULT_DRONE_CLAIM_RULES.maxClaimHours,
+    autoReleaseGraceHours: typeof data?.autoReleaseGraceHours === "number" ?
+      data.autoReleaseGraceHours :
+      DEFAULT_DRONE_CLAIM_RULES.autoReleaseGraceHours,
+  };
+}
+
+/**
+ * Whether an active claim needs flagging (past the maximum duration) or
+ * releasing (past the grace period after it was flagged)
+ * @param {admin.firestore.DocumentData} claim Active claim data
+ * @param {Date} now Current time
+ * @param {DroneClaimRules} rules Claim limits
+ * @return {boolean} True when the claim has to be flagged or released
+ */
+export function isClaimDue(
+  claim: admin.firestore.DocumentData,
+  now: Date,
+  rules: DroneClaimRules
+): boolean {
+  if (claim.autoReleaseAt) {
+    return claim.autoReleaseAt.toDate() <= now;
+  }
+  const claimedMs = now.getTime() - claim.startTime.toDate().getTime();
+  return claimedMs >= rules.maxClaimHours * HOUR_MS;
+}
+
+/**
+ * Display name of a drone, matching DroneService.formatDroneName in the app
+ * @param {admin.firestore.Firestore} db Firestore instance
+ * @param {string} droneId Drone ID
+ * @return {Promise<string>} Drone name with inventory code
+ */
+async function getDroneName(
+  db: admin.firestore.Firestore,
+  droneId: string
+): Promise<string> {
+  const drone = (await db.collection("drones").doc(droneId).get()).data();
+  if (!drone) return droneId;
+  return drone.inventoryCode ?
+    `${drone.name} [${drone.inventoryCode}]` :
+    drone.name;
+}
+
+/**
+ * Flag a claim that exceeded the maximum duration and notify its holder, or
+ * release it once the grace period after flagging has passed. The grace
+ * period starts at the notice, so the holder always gets a warning first.
+ * @param {admin.firestore.Firestore} db Firestore instance
+ * @param {admin.firestore.DocumentReference} claimRef Active claim
+ * @param {Date} now Current time
+ * @param {DroneClaimRules} rules Claim limits
+ * @return {Promise<ClaimExpiryOutcome>} What happened
+ */
+export async function expireClaim(
+  db: admin.firestore.Firestore,
+  claimRef: admin.firestore.DocumentReference,
+  now: Date,
+  rules: DroneClaimRules
+): Promise<ClaimExpiryOutcome> {
+  const initial = (await claimRef.get()).data();
+  if (!initial || initial.endTime || !isClaimDue(initial, now, rules)) {
+    return "skipped";
+  }
+
+  const droneId: string = initial.droneId;
+  const droneName = await getDroneName(db, droneId);
+  const lockRef = db.collection(LOCK_COLLECTION).doc(droneId);
+
+  return db.runTransaction(async (transaction) => {
+    const [claimSnap, lockSnap] = await transaction.getAll(claimRef, lockRef);
+    const claim = claimSnap.data();
+    if (!claim || claim.endTime || !isClaimDue(claim, now, rules)) {
+      return "skipped";
+    }
+
+    const notification = {
+      userId: claim.userId,
+      droneId,
+      droneName,
+      claimId: claimRef.id,
+      claimStartTime: claim.startTime,
+      read: false,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    };
+
+    if (!claim.autoReleaseAt) {
+      const autoReleaseAt = admin.firestore.Timestamp.fromMillis(
+        now.getTime() + rules.autoReleaseGraceHours * HOUR_MS
+      );
+      transaction.update(claimRef, {
+        overdueAt: admin.firestore.Timestamp.fromDate(now),
+        autoReleaseAt,
+      });
+      transaction.set(
+        db.collection("notifications").doc(`${claimRef.id}_claimOverdue`),
+        {...notification, type: "claimOverdue", autoReleaseAt}
+      );
+      return "flagged";
+    }
+
+    const endTime = admin.firestore.Timestamp.fromDate(now);
+    const updatedAt = admin.firestore.FieldValue.serverTimestamp();
+    transaction.update(claimRef, {
+      endTime,
+      releaseReason: "autoExpired",
+      updatedAt,
+      updatedBy: "system",
+    });
+
+    // A lock pointing at another claim is left alone; a missing one (claim
+    // made before locks existed) is created free
+    if (!lockSnap.exists || lockSnap.data()?.claimId === claimRef.id) {
+      transaction.set(lockRef, {
+        claimId: null,
+        userId: null,
+        releasedClaimId: claimRef.id,
+        updatedAt,
+        updatedBy: "system",
+      });
+    }
+
+    transaction.create(db.collection("auditLogs").doc(), {
+      entityType: "droneClaim",
+      entityId: claimRef.id,
+      action: "release",
+      userId: "system",
+      details: `Automatically released claim of ${claim.userEmail} ` +
+        `on ${droneName} after exceeding ${rules.maxClaimHours} hours`,
+      previousValues: {endTime: null},
+      newValues: {endTime, releaseReason: "autoExpired"},
+      timestamp: updatedAt,
+      applicationPlatform: "server",
+      applicationVersion: "functions",
+    });
+    transaction.set(
+      db.collection("notifications").doc(`${claimRef.id}_claimAutoReleased`),
+      {...notification, type: "claimAutoReleased"}
+    );
+    return "released";
+  });
+}
+
+/**
+ * Check every active claim against the maximum claim duration
+ * @param {Date} now Current time (injectable for emulator tests)
+ * @return {Promise<ClaimExpiryResult>} Run summary
+ */
+export async function expireOverdueClaims(
+  now: Date = new Date()
+): Promise<ClaimExpiryResult> {
+  const db = admin.firestore();
+  const rules = await getDroneClaimRules(db);
+  const activeSnap = await db.collection("droneClaims")
+    .where("endTime", "==", null)
+    .get();
+
+  let claimsFlagged = 0;
+  let claimsReleased = 0;
+
+  for (const doc of activeSnap.docs) {
+    try {
+      const outcome = await expireClaim(db, doc.ref, now, rules);
+      if (outcome === "flagged") claimsFlagged++;
+      if (outcome === "released") claimsReleased++;
+    } catch (err) {
+      console.error(`Failed to check claim ${doc.id} for expiry`, err);
+    }
+  }
+
+  console.log(
+    `Claim expiry run: ${activeSnap.size} active, ${claimsFlagged} flagged, ` +
+    `${claimsReleased} released`
+  );
+
+  return {
+    claimsChecked: activeSnap.size,
+    claimsFlagged,
+    claimsReleased,
+  };
+}
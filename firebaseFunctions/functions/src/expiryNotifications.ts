@@ -0,0 +1,135 @@
+import * as admin from "firebase-admin";
+
+// User profile fields that carry an expiry date
+export const EXPIRY_FIELDS = [
+  "pilotValidityDate",
+  "operatorValidityDate",
+  "insurance",
+] as const;
+
+export type ExpiryField = typeof EXPIRY_FIELDS[number];
+
+// How many days ahead of an expiry a member is notified
+export const EXPIRY_NOTICE_DAYS = [60, 30, 7];
+
+// Expiry dates are picked in the app as local midnight, so calendar days are
+// counted in the app's time zone rather than in UTC
+export const APP_TIME_ZONE = "Europe/Warsaw";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ExpiryScanResult {
+  usersScanned: number;
+  notificationsCreated: number;
+}
+
+/**
+ * Format a date as YYYY-MM-DD in the app's time zone
+ * @param {Date} date Date to format
+ * @return {string} Formatted date
+ */
+export function toDateString(date: Date): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone: APP_TIME_ZONE,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(date);
+}
+
+/**
+ * Read a stored expiry date (Timestamp or YYYY-MM-DD string)
+ * @param {unknown} value Stored field value
+ * @return {Date | null} Parsed date or null when missing/invalid
+ */
+function toDate(value: unknown): Date | null {
+  if (value instanceof admin.firestore.Timestamp) {
+    return value.toDate();
+  }
+  if (typeof value === "string" && value) {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+  return null;
+}
+
+/**
+ * Whole days between today and the expiry date, compared by calendar day in
+ * the app's time zone
+ * @param {Date} expiry Expiry date
+ * @param {Date} now Current time
+ * @return {number} Days left (negative once expired)
+ */
+export function daysUntil(expiry: Date, now: Date): number {
+  const expiryDay = Date.parse(toDateString(expiry));
+  const today = Date.parse(toDateString(now));
+  return Math.round((expiryDay - today) / DAY_MS);
+}
+
+/**
+ * Pick the notice threshold that applies to the days left, i.e. the smallest
+ * threshold that is still >= daysLeft. A missed daily run is caught up on the
+ * next one without skipping a notice.
+ * @param {number} daysLeft Days until expiry
+ * @return {number | null} Threshold or null when no notice is due
+ */
+export function getNoticeThreshold(daysLeft: number): number | null {
+  if (daysLeft < 0) return null;
+  const due = EXPIRY_NOTICE_DAYS.filter((days) => daysLeft <= days);
+  return due.length > 0 ? Math.min(...due) : null;
+}
+
+/**
+ * Scan all users and write one notification per field, expiry date and
+ * threshold. Document ids are deterministic so repeated runs never duplicate
+ * a notice or reset its read flag.
+ * @param {Date} now Current time (injectable for emulator tests)
+ * @return {Promise<ExpiryScanResult>} Scan summary
+ */
+export async function scanExpiringDocuments(
+  now: Date = new Date()
+): Promise<ExpiryScanResult> {
+  const db = admin.firestore();
+  const usersSnap = await db.collection("users").get();
+  let notificationsCreated = 0;
+
+  for (const userDoc of usersSnap.docs) {
+    const user = userDoc.data();
+
+    for (const field of EXPIRY_FIELDS) {
+      const expiry = toDate(user[field]);
+      if (!expiry) continue;
+
+      const daysLeft = daysUntil(expiry, now);
+      const threshold = getNoticeThreshold(daysLeft);
+      if (threshold === null) continue;
+
+      const expiryDate = toDateString(expiry);
+      const ref = db.collection("notifications")
+        .doc(`${userDoc.id}_${field}_${expiryDate}_${threshold}`);
+
+      const existing = await ref.get();
+      if (existing.exists) continue;
+
+      await ref.set({
+        userId: userDoc.id,
+        type: "documentExpiry",
+        documentType: field,
+        expiryDate,
+        daysBefore: threshold,
+        daysLeft,
+        read: false,
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      notificationsCreated++;
+    }
+  }
+
+  console.log(
+    `Expiry scan: ${usersSnap.size} users, ` +
+    `${notificationsCreated} notifications created`
+  );
+
+  return {usersScanned: usersSnap.size, notificationsCreated};
+}
@@ -0,0 +1,192 @@
+import * as admin from "firebase-admin";
+
+// Marker documents of flight writes already applied to the totals, so a
+// retried trigger doesn't count a flight twice
+const EVENT_COLLECTION = "flightTotalsEvents";
+const EVENT_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface DroneTotalsDelta {
+  minutes: number;
+  flights: number;
+}
+
+/**
+ * Flight duration in whole minutes (ISO datetime or legacy HH:mm).
+ * Mirrors calculateFlightDurationMinutes from the app's flightUtils.
+ * @param {string} startTime Start time
+ * @param {string} endTime End time
+ * @return {number} Minutes, 0 when the times are missing or invalid
+ */
+export function flightDurationMinutes(
+  startTime?: string,
+  endTime?: string
+): number {
+  if (!startTime || !endTime) {
+    return 0;
+  }
+
+  let start: Date;
+  let end: Date;
+
+  if (startTime.includes("T") || startTime.includes("Z")) {
+    start = new Date(startTime);
+    end = new Date(endTime);
+  } else if (/^\d{2}:\d{2}$/.test(startTime)) {
+    start = new Date(`1970-01-01T${startTime}:00`);
+    end = new Date(`1970-01-01T${endTime}:00`);
+    if (end <= start) {
+      end = new Date(end.getTime() + 24 * 60 * 60 * 1000);
+    }
+  } else {
+    return 0;
+  }
+
+  if (isNaN(start.getTime()) || isNaN(end.getTime()) || end <= start) {
+    return 0;
+  }
+
+  return Math.floor((end.getTime() - start.getTime()) / (60 * 1000));
+}
+
+/**
+ * Flight data that counts towards the totals, null for a missing or
+ * soft-deleted flight
+ * @param {admin.firestore.DocumentData | undefined} flight Flight data
+ * @return {admin.firestore.DocumentData | null} Counted flight or null
+ */
+function countedFlight(
+  flight: admin.firestore.DocumentData | undefined
+): admin.firestore.DocumentData | null {
+  return flight && !flight.isDeleted ? flight : null;
+}
+
+/**
+ * Flight time and flight count changes per drone between two versions of a
+ * flight. Creating, editing, soft-deleting and restoring a flight are all a
+ * change from the counted version before to the counted version after.
+ * @param {admin.firestore.DocumentData | undefined} before Flight before
+ * @param {admin.firestore.DocumentData | undefined} after Flight after
+ * @return {Map<string, DroneTotalsDelta>} Non-zero changes by drone ID
+ */
+export function getDroneTotalsDeltas(
+  before: admin.firestore.DocumentData | undefined,
+  after: admin.firestore.DocumentData | undefined
+): Map<string, DroneTotalsDelta> {
+  const deltas = new Map<string, DroneTotalsDelta>();
+  const previous = countedFlight(before);
+  const next = countedFlight(after);
+
+  if (previous?.droneId) {
+    deltas.set(previous.droneId, {
+      minutes: -flightDurationMinutes(previous.startTime, previous.endTime),
+      flights: -1,
+    });
+  }
+
+  if (next?.droneId) {
+    const delta = deltas.get(next.droneId) || {minutes: 0, flights: 0};
+    deltas.set(next.droneId, {
+      minutes: delta.minutes +
+        flightDurationMinutes(next.startTime, next.endTime),
+      flights: delta.flights + 1,
+    });
+  }
+
+  for (const [droneId, delta] of deltas) {
+    if (delta.minutes === 0 && delta.flights === 0) {
+      deltas.delete(droneId);
+    }
+  }
+  return deltas;
+}
+
+/**
+ * Charge cycle changes per battery pack between two versions of a flight:
+ * packs added gain a cycle, packs removed lose one
+ * @param {admin.firestore.DocumentData | undefined} before Flight before
+ * @param {admin.firestore.DocumentData | undefined} after Flight after
+ * @return {Map<string, number>} Non-zero changes by battery ID
+ */
+export function getBatteryCycleDeltas(
+  before: admin.firestore.DocumentData | undefined,
+  after: admin.firestore.DocumentData | undefined
+): Map<string, number> {
+  const deltas = new Map<string, number>();
+  const previousIds: string[] = countedFlight(before)?.batteryIds || [];
+  const nextIds: string[] = countedFlight(after)?.batteryIds || [];
+
+  for (const id of new Set(previousIds)) {
+    deltas.set(id, (deltas.get(id) || 0) - 1);
+  }
+  for (const id of new Set(nextIds)) {
+    deltas.set(id, (deltas.get(id) || 0) + 1);
+  }
+
+  for (const [id, delta] of deltas) {
+    if (delta === 0) {
+      deltas.delete(id);
+    }
+  }
+  return deltas;
+}
+
+/**
+ * Apply one flight write to the drone totals and battery cycle counts, at
+ * most once per event
+ * @param {admin.firestore.Firestore} db Firestore instance
+ * @param {string} eventId ID of the trigger event
+ * @param {admin.firestore.DocumentData | undefined} before Flight before
+ * @param {admin.firestore.DocumentData | undefined} after Flight after
+ * @return {Promise<void>}
+ */
+export async function applyFlightTotals(
+  db: admin.firestore.Firestore,
+  eventId: string,
+  before: admin.firestore.DocumentData | undefined,
+  after: admin.firestore.DocumentData | undefined
+): Promise<void> {
+  const droneDeltas = getDroneTotalsDeltas(before, after);
+  const cycleDeltas = getBatteryCycleDeltas(before, after);
+  if (droneDeltas.size === 0 && cycleDeltas.size === 0) return;
+
+  const eventRef = db.collection(EVENT_COLLECTION).doc(eventId);
+  const droneRefs = [...droneDeltas.keys()]
+    .map((droneId) => db.collection("drones").doc(droneId));
+  const batteryRefs = [...cycleDeltas.keys()]
+    .map((batteryId) => db.collection("batteries").doc(batteryId));
+
+  await db.runTransaction(async (transaction) => {
+    const [eventSnap, ...snaps] =
+      await transaction.getAll(eventRef, ...droneRefs, ...batteryRefs);
+    if (eventSnap.exists) return;
+
+    const droneSnaps = snaps.slice(0, droneRefs.length);
+    const batterySnaps = snaps.slice(droneRefs.length);
+
+    droneSnaps.forEach((droneSnap) => {
+      const delta = droneDeltas.get(droneSnap.id);
+      // A flight can outlive a drone document removed in a cleanup
+      if (!droneSnap.exists || !delta) return;
+      transaction.update(droneSnap.ref, {
+        totalFlightTime: admin.firestore.FieldValue.increment(delta.minutes),
+        totalFlightCount: admin.firestore.FieldValue.increment(delta.flights),
+      });
+    });
+
+    batterySnaps.forEach((batterySnap) => {
+      const delta = cycleDeltas.get(batterySnap.id);
+      if (!batterySnap.exists || !delta) return;
+      transaction.update(batterySnap.ref, {
+        cycleCount: admin.firestore.FieldValue.increment(delta),
+      });
+    });
+
+    transaction.set(eventRef, {
+      processedAt: admin.firestore.FieldValue.serverTimestamp(),
+      // Removed by the TTL policy on this field
+      expireAt: admin.firestore.Timestamp.fromMillis(
+        Date.now() + EVENT_RETENTION_MS
+      ),
+    });
+  });
+}
@@ -15,6 +15,12 @@ import {beforeUserCreated} from "firebase-functions/v2/identity";
 import {onDocumentWritten} from "firebase-functions/v2/firestore";
 import {defineSecret} from "firebase-functions/params";
 import {onRequest} from "firebase-functions/v2/https";
+import {onSchedule} from "firebase-functions/v2/scheduler";
+import {scanExpiringDocuments} from "./expiryNotifications";
+import {startDueReservations} from "./reservations";
+import {expireOverdueClaims} from "./claimExpiry";
+import {applyFlightTotals} from "./flightTotals";
+import {applyMissionFlight} from "./missionFlights";
 
 admin.initializeApp();
 
@@ -67,6 +73,62 @@ export const syncUserRole = onDocumentWritten("users/{userId}",
   },
 );
 
+// Keep drone flight time, flight count and battery pack cycles in step with
+// the flights. Creates, edits, soft deletes and restores all arrive here, so
+// the totals can't be skipped by a client that loses its connection after
+// saving a flight.
+export const updateFlightTotals = onDocumentWritten("flights/{flightId}",
+  async (event) => {
+    await applyFlightTotals(
+      admin.firestore(),
+      event.id,
+      event.data?.before?.data(),
+      event.data?.after?.data(),
+    );
+  },
+);
+
+// Keep the flight timeline stored on each mission in step with its flights,
+// so mission members see the timeline and totals without reading each
+// other's flights.
+export const updateMissionFlights = onDocumentWritten("flights/{flightId}",
+  async (event) => {
+    await applyMissionFlight(
+      admin.firestore(),
+      event.params.flightId,
+      event.data?.before?.data(),
+    );
+  },
+);
+
+// Daily scan for licences, operator registrations and insurance about to
+// expire. In the emulator, invoke it from `npm run shell` with
+// `notifyExpiringDocuments()` against the Firestore emulator.
+export const notifyExpiringDocuments = onSchedule({
+  schedule: "every day 06:00",
+  timeZone: "Europe/Warsaw",
+}, async () => {
+  await scanExpiringDocuments();
+});
+
+// Turn drone reservations into claims once their window starts. A drone
+// still claimed by someone else is retried on every run until the window ends.
+export const startReservations = onSchedule({
+  schedule: "every 5 minutes",
+  timeZone: "Europe/Warsaw",
+}, async () => {
+  await startDueReservations();
+});
+
+// Flag drone claims held longer than appsettings/droneClaimRules allows,
+// notify the holder and release them automatically after the grace period.
+export const expireDroneClaims = onSchedule({
+  schedule: "every 15 minutes",
+  timeZone: "Europe/Warsaw",
+}, async () => {
+  await expireOverdueClaims();
+});
+
 export const runMigrations = onRequest({
   secrets: [MIGRATION_TOKEN],
 }, async (req, res) => {
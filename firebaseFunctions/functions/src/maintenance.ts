@@ -0,0 +1,40 @@
+import * as admin from "firebase-admin";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whether any service interval of a drone has reached one of its limits.
+ * Mirrors getDroneServiceStatus from the app's maintenanceUtils.
+ * @param {admin.firestore.DocumentData} drone Drone document data
+ * @param {Date} now Current time
+ * @return {boolean} True when the drone must not be claimed
+ */
+export function isDroneOverdueForService(
+  drone: admin.firestore.DocumentData,
+  now: Date
+): boolean {
+  const intervals: admin.firestore.DocumentData[] =
+    drone.serviceIntervals || [];
+
+  return intervals.some((interval) => {
+    if (interval.flightHours) {
+      const used = (drone.totalFlightTime || 0) -
+        (interval.lastServiceFlightMinutes || 0);
+      if (used >= interval.flightHours * 60) return true;
+    }
+
+    if (interval.flightCycles) {
+      const used = (drone.totalFlightCount || 0) -
+        (interval.lastServiceFlightCount || 0);
+      if (used >= interval.flightCycles) return true;
+    }
+
+    if (interval.calendarDays && interval.lastServiceAt) {
+      const used = (now.getTime() - interval.lastServiceAt.toDate().getTime()) /
+        DAY_MS;
+      if (used >= interval.calendarDays) return true;
+    }
+
+    return false;
+  });
+}
@@ -0,0 +1,50 @@
+import * as admin from "firebase-admin";
+import {flightDurationMinutes} from "../flightTotals";
+
+// noinspection JSUnusedGlobalSymbols
+export async function run() {
+  const db = admin.firestore();
+
+  console.log("🚀 Recalculating drone totalFlightTime from flights...");
+
+  const totals = new Map<string, number>();
+  const flightsSnap = await db.collection("flights").get();
+
+  flightsSnap.forEach((doc) => {
+    const flight = doc.data();
+    if (!flight.droneId || flight.isDeleted) {
+      return;
+    }
+    const minutes = flightDurationMinutes(flight.startTime, flight.endTime);
+    totals.set(flight.droneId, (totals.get(flight.droneId) || 0) + minutes);
+  });
+
+  const dronesSnap = await db.collection("drones").get();
+  const changed: Record<string, { previous: number; current: number }> = {};
+  const toUpdate = dronesSnap.docs.filter((doc) => {
+    const previous = doc.data().totalFlightTime || 0;
+    const current = totals.get(doc.id) || 0;
+    if (previous === current) {
+      return false;
+    }
+    changed[doc.id] = {previous, current};
+    return true;
+  });
+
+  // Batches are limited to 500 writes
+  const BATCH_SIZE = 500;
+  for (let i = 0; i < toUpdate.length; i += BATCH_SIZE) {
+    const batch = db.batch();
+    toUpdate.slice(i, i + BATCH_SIZE).forEach((doc) => {
+      batch.update(doc.ref, {totalFlightTime: totals.get(doc.id) || 0});
+    });
+    await batch.commit();
+  }
+
+  console.log(`🎉 Updated totalFlightTime for ${Object.keys(changed).length} drones`);
+
+  return {
+    flightsProcessed: flightsSnap.size,
+    dronesUpdated: changed,
+  };
+}
@@ -0,0 +1,30 @@
+import * as admin from "firebase-admin";
+
+// noinspection JSUnusedGlobalSymbols
+export async function run() {
+  const db = admin.firestore();
+
+  // Firestore equality filters skip documents without the field,
+  // so every flight needs an explicit isDeleted flag for list queries
+  console.log("🚀 Backfilling isDeleted on flights...");
+
+  const flightsSnap = await db.collection("flights").get();
+  const toUpdate = flightsSnap.docs.filter((doc) => doc.data().isDeleted === undefined);
+
+  // Batches are limited to 500 writes
+  const BATCH_SIZE = 500;
+  for (let i = 0; i < toUpdate.length; i += BATCH_SIZE) {
+    const batch = db.batch();
+    toUpdate.slice(i, i + BATCH_SIZE).forEach((doc) => {
+      batch.update(doc.ref, {isDeleted: false});
+    });
+    await batch.commit();
+  }
+
+  console.log(`🎉 Backfilled isDeleted on ${toUpdate.length} of ${flightsSnap.size} flights`);
+
+  return {
+    flightsTotal: flightsSnap.size,
+    flightsUpdated: toUpdate.length,
+  };
+}
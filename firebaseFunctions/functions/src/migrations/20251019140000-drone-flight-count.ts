@@ -0,0 +1,48 @@
+import * as admin from "firebase-admin";
+
+// noinspection JSUnusedGlobalSymbols
+export async function run() {
+  const db = admin.firestore();
+
+  console.log("🚀 Counting drone flights for service intervals...");
+
+  const counts = new Map<string, number>();
+  const flightsSnap = await db.collection("flights").get();
+
+  flightsSnap.forEach((doc) => {
+    const flight = doc.data();
+    if (!flight.droneId || flight.isDeleted) {
+      return;
+    }
+    counts.set(flight.droneId, (counts.get(flight.droneId) || 0) + 1);
+  });
+
+  const dronesSnap = await db.collection("drones").get();
+  const changed: Record<string, { previous: number; current: number }> = {};
+  const toUpdate = dronesSnap.docs.filter((doc) => {
+    const previous = doc.data().totalFlightCount || 0;
+    const current = counts.get(doc.id) || 0;
+    if (doc.data().totalFlightCount !== undefined && previous === current) {
+      return false;
+    }
+    changed[doc.id] = {previous, current};
+    return true;
+  });
+
+  // Batches are limited to 500 writes
+  const BATCH_SIZE = 500;
+  for (let i = 0; i < toUpdate.length; i += BATCH_SIZE) {
+    const batch = db.batch();
+    toUpdate.slice(i, i + BATCH_SIZE).forEach((doc) => {
+      batch.update(doc.ref, {totalFlightCount: counts.get(doc.id) || 0});
+    });
+    await batch.commit();
+  }
+
+  console.log(`🎉 Updated totalFlightCount for ${Object.keys(changed).length} drones`);
+
+  return {
+    flightsProcessed: flightsSnap.size,
+    dronesUpdated: changed,
+  };
+}
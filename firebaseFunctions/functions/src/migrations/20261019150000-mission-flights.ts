@@ -0,0 +1,42 @@
+import * as admin from "firebase-admin";
+import {getFlightMissionId, toMissionFlight} from "../missionFlights";
+
+// noinspection JSUnusedGlobalSymbols
+export async function run() {
+  const db = admin.firestore();
+
+  console.log("🚀 Copying mission flights to their missions...");
+
+  const missionFlights = new Map<string, Record<string, Record<string, string>>>();
+  const flightsSnap = await db.collection("flights").get();
+
+  flightsSnap.forEach((doc) => {
+    const missionId = getFlightMissionId(doc.data());
+    if (!missionId) {
+      return;
+    }
+    missionFlights.set(missionId, {
+      ...missionFlights.get(missionId),
+      [doc.id]: toMissionFlight(doc.data()),
+    });
+  });
+
+  const missionsSnap = await db.collection("missions").get();
+
+  // Batches are limited to 500 writes
+  const BATCH_SIZE = 500;
+  for (let i = 0; i < missionsSnap.docs.length; i += BATCH_SIZE) {
+    const batch = db.batch();
+    missionsSnap.docs.slice(i, i + BATCH_SIZE).forEach((doc) => {
+      batch.update(doc.ref, {flights: missionFlights.get(doc.id) || {}});
+    });
+    await batch.commit();
+  }
+
+  console.log(`🎉 Updated flights of ${missionsSnap.size} missions`);
+
+  return {
+    flightsProcessed: flightsSnap.size,
+    missionsUpdated: missionsSnap.size,
+  };
+}
@@ -0,0 +1,102 @@
+import * as admin from "firebase-admin";
+
+// Flight fields copied to the mission for its timeline and totals. Pilots
+// can't read each other's flights, so the mission screen works from these.
+const MISSION_FLIGHT_FIELDS = [
+  "userId",
+  "userEmail",
+  "droneId",
+  "droneName",
+  "startTime",
+  "endTime",
+];
+
+/**
+ * Mission a flight counts towards, null for a missing or soft-deleted
+ * flight or one not linked to a mission
+ * @param {admin.firestore.DocumentData | undefined} flight Flight data
+ * @return {string | null} Mission ID or null
+ */
+export function getFlightMissionId(
+  flight: admin.firestore.DocumentData | undefined
+): string | null {
+  return flight && !flight.isDeleted && typeof flight.missionId === "string" ?
+    flight.missionId : null;
+}
+
+/**
+ * Timeline entry of a flight stored on its mission
+ * @param {admin.firestore.DocumentData} flight Flight data
+ * @return {Record<string, string>} Copied fields that are set
+ */
+export function toMissionFlight(
+  flight: admin.firestore.DocumentData
+): Record<string, string> {
+  const entry: Record<string, string> = {};
+  MISSION_FLIGHT_FIELDS.forEach((field) => {
+    if (typeof flight[field] === "string") {
+      entry[field] = flight[field];
+    }
+  });
+  return entry;
+}
+
+/**
+ * Missions to update after a flight write: the mission the flight now
+ * counts towards gets its entry, a mission it left gets null (removal)
+ * @param {admin.firestore.DocumentData | undefined} before Flight before
+ * @param {admin.firestore.DocumentData | undefined} current Current flight
+ * @return {Map<string, Record<string, string> | null>} Entries by mission ID
+ */
+export function getMissionFlightChanges(
+  before: admin.firestore.DocumentData | undefined,
+  current: admin.firestore.DocumentData | undefined
+): Map<string, Record<string, string> | null> {
+  const changes = new Map<string, Record<string, string> | null>();
+  const previousMissionId = getFlightMissionId(before);
+  const currentMissionId = getFlightMissionId(current);
+
+  if (previousMissionId) {
+    changes.set(previousMissionId, null);
+  }
+  if (current && currentMissionId) {
+    changes.set(currentMissionId, toMissionFlight(current));
+  }
+  return changes;
+}
+
+/**
+ * Copy a flight's timeline entry to its mission and remove it from a
+ * mission it left. The flight is read again in the transaction, so events
+ * delivered late or twice still leave the missions matching the flight.
+ * @param {admin.firestore.Firestore} db Firestore instance
+ * @param {string} flightId ID of the written flight
+ * @param {admin.firestore.DocumentData | undefined} before Flight before
+ * @return {Promise<void>}
+ */
+export async function applyMissionFlight(
+  db: admin.firestore.Firestore,
+  flightId: string,
+  before: admin.firestore.DocumentData | undefined
+): Promise<void> {
+  const flightRef = db.collection("flights").doc(flightId);
+
+  await db.runTransaction(async (transaction) => {
+    const flightSnap = await transaction.get(flightRef);
+    const changes = getMissionFlightChanges(before, flightSnap.data());
+    if (changes.size === 0) return;
+
+    const missionRefs = [...changes.keys()]
+      .map((missionId) => db.collection("missions").doc(missionId));
+    const missionSnaps = await transaction.getAll(...missionRefs);
+
+    missionSnaps.forEach((missionSnap) => {
+      // A flight can point to a mission removed in a cleanup
+      if (!missionSnap.exists) return;
+      const entry = changes.get(missionSnap.id);
+      transaction.update(missionSnap.ref, new admin.firestore.FieldPath(
+        "flights", flightId
+      ), entry || admin.firestore.FieldValue.delete());
+    });
+  });
+}
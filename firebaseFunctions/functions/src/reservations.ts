@@ -0,0 +1,182 @@
+import * as admin from "firebase-admin";
+import {isDroneOverdueForService} from "./maintenance";
+
+// Same lock documents the app uses to keep one active claim per drone
+const LOCK_COLLECTION = "droneClaimLocks";
+
+export type ReservationStartOutcome =
+  "started" | "waiting" | "missed" | "skipped";
+
+export interface ReservationStartResult {
+  reservationsChecked: number;
+  reservationsStarted: number;
+  reservationsMissed: number;
+}
+
+/**
+ * Find the active claim of a drone that has no lock document yet (claimed
+ * before locks were introduced)
+ * @param {admin.firestore.Firestore} db Firestore instance
+ * @param {string} droneId Drone ID
+ * @return {Promise<string | null>} Active claim ID or null
+ */
+async function getUnlockedActiveClaimId(
+  db: admin.firestore.Firestore,
+  droneId: string
+): Promise<string | null> {
+  const lock = await db.collection(LOCK_COLLECTION).doc(droneId).get();
+  if (lock.exists) return null;
+
+  const active = await db.collection("droneClaims")
+    .where("droneId", "==", droneId)
+    .where("endTime", "==", null)
+    .limit(1)
+    .get();
+  return active.empty ? null : active.docs[0].id;
+}
+
+/**
+ * Turn one due reservation into a claim, taking the drone lock in the same
+ * transaction. A drone still claimed by someone else or overdue for service
+ * keeps the reservation waiting until its window ends, then it is marked
+ * missed.
+ * @param {admin.firestore.Firestore} db Firestore instance
+ * @param {admin.firestore.DocumentReference} reservationRef Reservation
+ * @param {Date} now Current time
+ * @return {Promise<ReservationStartOutcome>} What happened
+ */
+export async function startReservation(
+  db: admin.firestore.Firestore,
+  reservationRef: admin.firestore.DocumentReference,
+  now: Date
+): Promise<ReservationStartOutcome> {
+  const initial = (await reservationRef.get()).data();
+  if (!initial || initial.status !== "scheduled") return "skipped";
+
+  const droneId: string = initial.droneId;
+  const unlockedActiveClaimId = await getUnlockedActiveClaimId(db, droneId);
+  const lockRef = db.collection(LOCK_COLLECTION).doc(droneId);
+
+  return db.runTransaction(async (transaction) => {
+    const [reservationSnap, lockSnap] =
+      await transaction.getAll(reservationRef, lockRef);
+    const reservation = reservationSnap.data();
+    if (!reservation || reservation.status !== "scheduled") return "skipped";
+
+    const activeClaimId: string | null = lockSnap.exists ?
+      lockSnap.data()?.claimId ?? null :
+      unlockedActiveClaimId;
+    const windowEnded = reservation.endTime.toDate() <= now;
+    const updatedAt = admin.firestore.FieldValue.serverTimestamp();
+
+    if (activeClaimId) {
+      const claimRef = db.collection("droneClaims").doc(activeClaimId);
+      const claim = (await transaction.get(claimRef)).data();
+
+      // The member already claimed the drone themselves
+      if (claim?.userId === reservation.userId) {
+        transaction.update(reservationRef, {
+          status: "started",
+          claimId: activeClaimId,
+          updatedAt,
+          updatedBy: "system",
+        });
+        return "started";
+      }
+
+      if (!windowEnded) return "waiting";
+    }
+
+    if (windowEnded) {
+      transaction.update(reservationRef, {
+        status: "missed",
+        updatedAt,
+        updatedBy: "system",
+      });
+      return "missed";
+    }
+
+    // A drone overdue for service stays grounded until maintenance is logged
+    const droneSnap =
+      await transaction.get(db.collection("drones").doc(droneId));
+    const drone = droneSnap.data();
+    if (drone && isDroneOverdueForService(drone, now)) return "waiting";
+
+    const claimRef = db.collection("droneClaims").doc();
+    transaction.create(claimRef, {
+      droneId,
+      userId: reservation.userId,
+      userEmail: reservation.userEmail,
+      startTime: admin.firestore.Timestamp.fromDate(now),
+      endTime: null,
+      reservationId: reservationRef.id,
+      createdAt: updatedAt,
+      createdBy: reservation.userId,
+    });
+    transaction.set(lockRef, {
+      claimId: claimRef.id,
+      userId: reservation.userId,
+      releasedClaimId: null,
+      updatedAt,
+      updatedBy: "system",
+    });
+    transaction.update(reservationRef, {
+      status: "started",
+      claimId: claimRef.id,
+      updatedAt,
+      updatedBy: "system",
+    });
+    transaction.create(db.collection("auditLogs").doc(), {
+      entityType: "droneClaim",
+      entityId: claimRef.id,
+      action: "create",
+      userId: "system",
+      details: `Started claim from reservation ${reservationRef.id} ` +
+        `for ${reservation.userEmail}`,
+      newValues: {droneId, userId: reservation.userId},
+      timestamp: updatedAt,
+      applicationPlatform: "server",
+      applicationVersion: "functions",
+    });
+    return "started";
+  });
+}
+
+/**
+ * Start every scheduled reservation whose window has begun
+ * @param {Date} now Current time (injectable for emulator tests)
+ * @return {Promise<ReservationStartResult>} Run summary
+ */
+export async function startDueReservations(
+  now: Date = new Date()
+): Promise<ReservationStartResult> {
+  const db = admin.firestore();
+  const dueSnap = await db.collection("droneReservations")
+    .where("status", "==", "scheduled")
+    .where("startTime", "<=", admin.firestore.Timestamp.fromDate(now))
+    .get();
+
+  let reservationsStarted = 0;
+  let reservationsMissed = 0;
+
+  for (const doc of dueSnap.docs) {
+    try {
+      const outcome = await startReservation(db, doc.ref, now);
+      if (outcome === "started") reservationsStarted++;
+      if (outcome === "missed") reservationsMissed++;
+    } catch (err) {
+      console.error(`Failed to start reservation ${doc.id}`, err);
+    }
+  }
+
+  console.log(
+    `Reservation run: ${dueSnap.size} due, ${reservationsStarted} started, ` +
+    `${reservationsMissed} missed`
+  );
+
+  return {
+    reservationsChecked: dueSnap.size,
+    reservationsStarted,
+    reservationsMissed,
+  };
+}
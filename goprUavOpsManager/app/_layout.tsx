@@ -12,7 +12,9 @@ import { Ionicons } from '@expo/vector-icons';
 import { useTranslation } from 'react-i18next';
 import * as Sentry from '@sentry/react-native';
 import { captureConsoleIntegration } from '@sentry/core';
-import { CrossPlatformAlertProvider } from '@/components/CrossPlatformAlert';
+import { CrossPlatformAlertProvider, useCrossPlatformAlert } from '@/components/CrossPlatformAlert';
+import { useOutbox } from '@/utils/useOutbox';
+import { useNetworkStatus } from '@/utils/useNetworkStatus';
 import { useEffect, Fragment } from 'react';
 import '@/src/i18n';
 
@@ -47,6 +49,21 @@ function RootLayoutNavigation() {
   const { user, loading } = useAuth();
   const { isSyncing } = useSync();
   const { t } = useTranslation('common');
+  const crossPlatformAlert = useCrossPlatformAlert();
+  const { isOffline } = useNetworkStatus();
+  const outbox = useOutbox(user?.uid);
+
+  // Discarding drops a change made offline for good, so it is confirmed first
+  const handleDiscardMutation = (id: string) => {
+    crossPlatformAlert.showAlert({
+      title: t('sync.discardTitle'),
+      message: t('sync.discardMessage'),
+      buttons: [
+        { text: t('common.cancel'), style: 'cancel' },
+        { text: t('sync.discard'), style: 'destructive', onPress: () => outbox.discard(id) },
+      ],
+    });
+  };
 
   // Update Sentry user context when authentication state changes
   useEffect(() => {
@@ -79,7 +96,14 @@ function RootLayoutNavigation() {
   if (user) {
     return (
       <Fragment>
-        <SyncInfoBar visible={isSyncing} />
+        <SyncInfoBar
+          visible={isSyncing}
+          pendingMutations={outbox.mutations}
+          isOffline={isOffline}
+          onSyncNow={outbox.replay}
+          onRetry={outbox.retry}
+          onDiscard={handleDiscardMutation}
+        />
         <Drawer
           drawerContent={CustomDrawerContent}
           screenOptions={{
@@ -127,6 +151,26 @@ function RootLayoutNavigation() {
               ),
             }}
           />
+          <Drawer.Screen
+            name="batteries"
+            options={{
+              title: t('batteries.title'),
+              drawerLabel: t('nav.batteries'),
+              drawerIcon: ({ color, size }) => (
+                <Ionicons name="battery-half-outline" size={size} color={color} />
+              ),
+            }}
+          />
+          <Drawer.Screen
+            name="reservations"
+            options={{
+              title: t('reservations.calendarTitle'),
+              drawerLabel: t('nav.reservations'),
+              drawerIcon: ({ color, size }) => (
+                <Ionicons name="calendar-outline" size={size} color={color} />
+              ),
+            }}
+          />
           <Drawer.Screen
             name="users"
             options={{
@@ -160,6 +204,57 @@ function RootLayoutNavigation() {
               ),
             }}
           />
+          <Drawer.Screen
+            name="missions"
+            options={{
+              title: t('missions.title'),
+              headerShown: false,
+              drawerLabel: t('nav.missions'),
+              drawerIcon: ({ color, size }) => (
+                <Ionicons name="flag-outline" size={size} color={color} />
+              ),
+            }}
+          />
+          <Drawer.Screen
+            name="statistics"
+            options={{
+              title: t('statistics.title'),
+              drawerLabel: t('nav.statistics'),
+              drawerIcon: ({ color, size }) => (
+                <Ionicons name="stats-chart-outline" size={size} color={color} />
+              ),
+            }}
+          />
+          <Drawer.Screen
+            name="geozones"
+            options={{
+              title: t('geozones.title'),
+              drawerLabel: t('nav.geozones'),
+              drawerIcon: ({ color, size }) => (
+                <Ionicons name="warning-outline" size={size} color={color} />
+              ),
+            }}
+          />
+          <Drawer.Screen
+            name="notifications"
+            options={{
+              title: t('notifications.title'),
+              drawerLabel: t('nav.notifications'),
+              drawerIcon: ({ color, size }) => (
+                <Ionicons name="notifications-outline" size={size} color={color} />
+              ),
+            }}
+          />
+          <Drawer.Screen
+            name="settings"
+            options={{
+              title: t('settings.title'),
+              drawerLabel: t('nav.settings'),
+              drawerIcon: ({ color, size }) => (
+                <Ionicons name="settings-outline" size={size} color={color} />
+              ),
+            }}
+          />
           <Drawer.Screen
             name="info-contact"
             options={{
@@ -251,6 +251,13 @@ export default function AuditLogsScreen() {
                   <Picker.Item label={t('filters.entityTypes.flight')} value="flight" />
                   <Picker.Item label={t('filters.entityTypes.procedureChecklist')} value="procedureChecklist" />
                   <Picker.Item label={t('filters.entityTypes.user')} value="user" />
+                  <Picker.Item label={t('filters.entityTypes.mission')} value="mission" />
+                  <Picker.Item label={t('filters.entityTypes.geozone')} value="geozone" />
+                  <Picker.Item label={t('filters.entityTypes.droneReservation')} value="droneReservation" />
+                  <Picker.Item label={t('filters.entityTypes.equipmentCheck')} value="equipmentCheck" />
+                  <Picker.Item label={t('filters.entityTypes.maintenance')} value="maintenance" />
+                  <Picker.Item label={t('filters.entityTypes.battery')} value="battery" />
+                  <Picker.Item label={t('filters.entityTypes.procedureExecution')} value="procedureExecution" />
                 </Picker>
               </View>
             </View>
@@ -380,6 +387,20 @@ export default function AuditLogsScreen() {
         return 'Procedure/Checklist';
       case 'user':
         return 'User';
+      case 'mission':
+        return 'Mission';
+      case 'geozone':
+        return 'Geozone';
+      case 'droneReservation':
+        return 'Drone Reservation';
+      case 'equipmentCheck':
+        return 'Equipment Check';
+      case 'maintenance':
+        return 'Maintenance';
+      case 'battery':
+        return 'Battery';
+      case 'procedureExecution':
+        return 'Procedure Run';
       default:
         return entityType;
     }
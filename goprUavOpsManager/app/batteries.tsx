@@ -0,0 +1,397 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { useFocusEffect } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useAuth } from '@/contexts/AuthContext';
+import { BatteryService } from '@/services/batteryService';
+import { DroneService } from '@/services/droneService';
+import { Battery } from '@/types/Battery';
+import { Drone } from '@/types/Drone';
+import { useCrossPlatformAlert } from '@/components/CrossPlatformAlert';
+import OfflineInfoBar from '@/components/OfflineInfoBar';
+import BatteryFormModal from '@/components/BatteryFormModal';
+import BatteryIssueBadges from '@/components/BatteryIssueBadges';
+import { useNetworkStatus } from '@/utils/useNetworkStatus';
+import { useOfflineButtons } from '@/utils/useOfflineButtons';
+import { useResponsiveLayout } from '@/utils/useResponsiveLayout';
+import { isBatteryDegraded } from '@/utils/batteryUtils';
+
+export default function BatteriesScreen() {
+  const { user } = useAuth();
+  const { t } = useTranslation('common');
+  const crossPlatformAlert = useCrossPlatformAlert();
+  const { isConnected } = useNetworkStatus();
+  const { isButtonDisabled, getDisabledStyle } = useOfflineButtons();
+  const responsive = useResponsiveLayout();
+
+  const [batteries, setBatteries] = useState<Battery[]>([]);
+  const [drones, setDrones] = useState<Drone[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [showRetired, setShowRetired] = useState(false);
+  const [formVisible, setFormVisible] = useState(false);
+  const [editingBattery, setEditingBattery] = useState<Battery | null>(null);
+
+  const canManage = user ? BatteryService.canManageBatteries(user.role) : false;
+
+  const loadBatteries = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const [loadedBatteries, loadedDrones] = await Promise.all([
+        BatteryService.getBatteries(),
+        DroneService.getDrones(user.role),
+      ]);
+      setBatteries(loadedBatteries);
+      setDrones(loadedDrones.filter(drone => !drone.isDeleted));
+    } catch (error) {
+      console.error('Error loading batteries:', error);
+      crossPlatformAlert.showAlert({ title: t('common.error'), message: t('batteries.loadFailed') });
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [user, t, crossPlatformAlert]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadBatteries();
+    }, [loadBatteries])
+  );
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    loadBatteries();
+  };
+
+  const droneNames = useMemo(
+    () => new Map(drones.map(drone => [drone.id, drone.name])),
+    [drones]
+  );
+
+  // Degraded packs first so they are pulled before a mission
+  const visibleBatteries = useMemo(
+    () => batteries
+      .filter(battery => showRetired ? battery.isRetired : !battery.isRetired)
+      .sort((a, b) => Number(isBatteryDegraded(b)) - Number(isBatteryDegraded(a))),
+    [batteries, showRetired]
+  );
+
+  const openForm = (battery: Battery | null) => {
+    setEditingBattery(battery);
+    setFormVisible(true);
+  };
+
+  const handleRetire = (battery: Battery) => {
+    if (!user) return;
+
+    crossPlatformAlert.showAlert({
+      title: t('batteries.retire'),
+      message: t('batteries.retireConfirm', { label: battery.label }),
+      buttons: [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('batteries.retire'),
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await BatteryService.retireBattery(battery.id, user.role, user.uid);
+              await loadBatteries();
+            } catch (error: any) {
+              console.error('Error retiring battery:', error);
+              crossPlatformAlert.showAlert({ title: t('common.error'), message: error.message || t('batteries.retireFailed') });
+            }
+          },
+        },
+      ],
+    });
+  };
+
+  const renderBattery = ({ item }: { item: Battery }) => {
+    const compatibleNames = item.compatibleDroneIds
+      .map(id => droneNames.get(id))
+      .filter(Boolean)
+      .join(', ');
+
+    return (
+      <View style={[styles.card, isBatteryDegraded(item) && !item.isRetired && styles.degradedCard]}>
+        <View style={styles.cardHeader}>
+          <Text style={styles.cardTitle}>{item.label}</Text>
+          {item.model ? <Text style={styles.cardType}>{item.model}</Text> : null}
+        </View>
+        <BatteryIssueBadges battery={item} />
+
+        <Text style={styles.cardText}>
+          {t('batteries.cycles')}: {item.ratedCycles ? `${item.cycleCount} / ${item.ratedCycles}` : item.cycleCount}
+        </Text>
+        {item.serialNumber ? <Text style={styles.cardText}>{t('batteries.serialNumber')}: {item.serialNumber}</Text> : null}
+        {item.internalResistance !== undefined ? (
+          <Text style={styles.cardText}>{t('batteries.internalResistance')}: {item.internalResistance}</Text>
+        ) : null}
+        {item.purchaseDate ? <Text style={styles.cardText}>{t('batteries.purchaseDate')}: {item.purchaseDate}</Text> : null}
+        <Text style={styles.cardText}>
+          {t('batteries.compatibleDrones')}: {compatibleNames || t('batteries.noCompatibleDrones')}
+        </Text>
+        {item.healthNotes ? <Text style={styles.cardMessage}>{item.healthNotes}</Text> : null}
+        {item.retiredAt ? (
+          <Text style={styles.cardMeta}>{t('batteries.retiredOn', { date: item.retiredAt.toLocaleDateString() })}</Text>
+        ) : null}
+
+        {canManage && !item.isRetired ? (
+          <View style={styles.actionsRow}>
+            <TouchableOpacity
+              style={[styles.actionButton, getDisabledStyle()]}
+              onPress={() => openForm(item)}
+              disabled={isButtonDisabled()}
+            >
+              <Ionicons name="create-outline" size={18} color="#0066CC" />
+              <Text style={styles.actionButtonText}>{t('common.edit')}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.actionButton, styles.retireButton, getDisabledStyle()]}
+              onPress={() => handleRetire(item)}
+              disabled={isButtonDisabled()}
+            >
+              <Ionicons name="archive-outline" size={18} color="#d32f2f" />
+              <Text style={[styles.actionButtonText, styles.retireButtonText]}>{t('batteries.retire')}</Text>
+            </TouchableOpacity>
+          </View>
+        ) : null}
+      </View>
+    );
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#0066CC" />
+        <Text style={styles.loadingText}>{t('common.loading')}</Text>
+      </View>
+    );
+  }
+
+  const header = (
+    <View style={styles.headerRow}>
+      <View style={styles.tabs}>
+        <TouchableOpacity
+          style={[styles.tab, !showRetired && styles.tabSelected]}
+          onPress={() => setShowRetired(false)}
+        >
+          <Text style={[styles.tabText, !showRetired && styles.tabTextSelected]}>{t('batteries.inUse')}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.tab, showRetired && styles.tabSelected]}
+          onPress={() => setShowRetired(true)}
+        >
+          <Text style={[styles.tabText, showRetired && styles.tabTextSelected]}>{t('batteries.retiredTab')}</Text>
+        </TouchableOpacity>
+      </View>
+      {canManage ? (
+        <TouchableOpacity
+          style={[styles.addButton, getDisabledStyle()]}
+          onPress={() => openForm(null)}
+          disabled={isButtonDisabled()}
+        >
+          <Ionicons name="add" size={20} color="white" />
+          <Text style={styles.addButtonText}>{t('batteries.addBattery')}</Text>
+        </TouchableOpacity>
+      ) : null}
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <OfflineInfoBar
+        visible={!isConnected}
+        message={t('offline.noConnection')}
+      />
+
+      <FlatList
+        data={visibleBatteries}
+        keyExtractor={(battery) => battery.id}
+        renderItem={renderBattery}
+        ListHeaderComponent={header}
+        ListEmptyComponent={<Text style={styles.emptyText}>{t('batteries.empty')}</Text>}
+        contentContainerStyle={[
+          styles.listContent,
+          responsive.isDesktop && {
+            maxWidth: responsive.maxContentWidth,
+            width: '100%',
+            alignSelf: 'center',
+          }
+        ]}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+      />
+
+      {user ? (
+        <BatteryFormModal
+          visible={formVisible}
+          battery={editingBattery}
+          drones={drones}
+          currentUserId={user.uid}
+          currentUserRole={user.role}
+          onClose={() => setFormVisible(false)}
+          onSaved={loadBatteries}
+        />
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  listContent: {
+    padding: 16,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+  },
+  loadingText: {
+    marginTop: 10,
+    fontSize: 16,
+    color: '#666',
+  },
+  headerRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+    marginBottom: 16,
+  },
+  tabs: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  tab: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: 'white',
+  },
+  tabSelected: {
+    borderColor: '#0066CC',
+    backgroundColor: '#0066CC',
+  },
+  tabText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  tabTextSelected: {
+    color: 'white',
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#0066CC',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  addButtonText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: '600',
+    marginLeft: 4,
+  },
+  card: {
+    backgroundColor: 'white',
+    borderRadius: 8,
+    borderLeftWidth: 4,
+    borderLeftColor: '#4CAF50',
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 1,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  degradedCard: {
+    borderLeftColor: '#d32f2f',
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  cardTitle: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  cardType: {
+    fontSize: 12,
+    color: '#666',
+  },
+  cardText: {
+    fontSize: 14,
+    color: '#333',
+    marginTop: 2,
+  },
+  cardMessage: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 4,
+  },
+  cardMeta: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 6,
+  },
+  actionsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 12,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    marginRight: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#0066CC',
+    backgroundColor: 'white',
+  },
+  actionButtonText: {
+    color: '#0066CC',
+    fontSize: 14,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+  retireButton: {
+    borderColor: '#d32f2f',
+  },
+  retireButtonText: {
+    color: '#d32f2f',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    paddingVertical: 16,
+  },
+});
@@ -16,6 +16,12 @@ export default function DroneIdLayout() {
           title: t('drones.editDrone'),
         }}
       />
+      <Stack.Screen
+        name="maintenance"
+        options={{
+          title: t('maintenance.title'),
+        }}
+      />
     </Stack>
   );
 }
\ No newline at end of file
@@ -24,7 +24,7 @@ export default function EditDroneScreen() {
       const drone = await DroneService.getDrone(droneId, user.role);
       if (drone) {
         // Convert the drone data to form data (exclude the fields not in form)
-        const { id, createdAt, updatedAt, deletedAt, isDeleted, createdBy, updatedBy, ...formData } = drone;
+        const { id, totalFlightTime, totalFlightCount, serviceIntervals, createdAt, updatedAt, deletedAt, isDeleted, createdBy, updatedBy, ...formData } = drone;
         setInitialData(formData as DroneFormData);
       } else {
         crossPlatformAlert.showAlert({ title: t('common.error'), message: t('droneForm.notFound') });
@@ -10,7 +10,7 @@ import {
   Image,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { useLocalSearchParams, useRouter, Stack } from 'expo-router';
+import { useLocalSearchParams, useRouter, Stack, useFocusEffect } from 'expo-router';
 import { useTranslation } from 'react-i18next';
 import { Ionicons } from '@expo/vector-icons';
 import { Drone } from '@/types/Drone';
@@ -21,12 +21,26 @@ import { useCrossPlatformAlert } from '@/components/CrossPlatformAlert';
 import { useOfflineButtons } from '@/utils/useOfflineButtons';
 import ImageGallery from '@/components/ImageGallery';
 import EquipmentChecklistModal from '@/components/EquipmentChecklistModal';
+import EquipmentCheckHistoryModal from '@/components/EquipmentCheckHistoryModal';
+import { EquipmentCheckService } from '@/services/equipmentCheckService';
+import { EquipmentCheck } from '@/types/EquipmentCheck';
+import { getMissingItems } from '@/utils/equipmentCheckUtils';
 import ImageViewer from '@/components/ImageViewer';
 import { DroneCommentsSection } from '@/components/DroneCommentsSection';
 import DroneClaimSection from '@/components/DroneClaimSection';
+import DroneReservationsSection from '@/components/DroneReservationsSection';
 import { DroneClaimService } from '@/services/droneClaimService';
 import { DroneClaim } from '@/types/DroneClaim';
 import { useResponsiveLayout } from '@/utils/useResponsiveLayout';
+import ServiceStatusBadge from '@/components/ServiceStatusBadge';
+import { getDroneServiceStatus } from '@/utils/maintenanceUtils';
+import BatteryIssueBadges from '@/components/BatteryIssueBadges';
+import { BatteryService } from '@/services/batteryService';
+import { Battery } from '@/types/Battery';
+import { getCompatibleBatteries } from '@/utils/batteryUtils';
+import { OfflineDataService } from '@/services/offlineDataService';
+import { ImageCacheService } from '@/utils/imageCache';
+import OfflineInfoBar from '@/components/OfflineInfoBar';
 
 export default function DroneDetailsScreen() {
   const [drone, setDrone] = useState<Drone | null>(null);
@@ -36,9 +50,15 @@ export default function DroneDetailsScreen() {
   const [currentClaim, setCurrentClaim] = useState<DroneClaim | null>(null);
   const [claimOwnerName, setClaimOwnerName] = useState<string>('');
   const [showEquipmentChecklist, setShowEquipmentChecklist] = useState(false);
+  const [showEquipmentHistory, setShowEquipmentHistory] = useState(false);
+  const [latestEquipmentCheck, setLatestEquipmentCheck] = useState<EquipmentCheck | null>(null);
+  const [batteries, setBatteries] = useState<Battery[]>([]);
   const [imageViewerVisible, setImageViewerVisible] = useState(false);
   const [selectedImageIndex, setSelectedImageIndex] = useState(0);
   const [selectedStorageImages, setSelectedStorageImages] = useState<string[]>([]);
+  const [isFromCache, setIsFromCache] = useState(false);
+  // Equipment images resolved to their cached copies so they show at a base without coverage
+  const [cachedImageUris, setCachedImageUris] = useState<Map<string, string>>(new Map());
   // Draft comment content passed from EquipmentChecklistModal
   const [commentDraft, setCommentDraft] = useState<string | null>(null);
   const { id } = useLocalSearchParams<{ id: string }>();
@@ -51,12 +71,35 @@ export default function DroneDetailsScreen() {
   const [commentBoxTargetY, setCommentBoxTargetY] = useState<number>(0);
   const responsive = useResponsiveLayout();
 
+  const loadCachedImages = useCallback(async (droneData: Drone) => {
+    const imageUrls = (droneData.equipmentStorages || []).flatMap(storage =>
+      storage.items.map(item => item.image).filter((image): image is string => !!image)
+    );
+    if (imageUrls.length === 0) return;
+
+    try {
+      await ImageCacheService.initialize();
+
+      const newCachedUris = new Map<string, string>();
+      await Promise.all(imageUrls.map(async url => {
+        try {
+          newCachedUris.set(url, await ImageCacheService.getCachedImage(url, 'equipment'));
+        } catch {
+          newCachedUris.set(url, url);
+        }
+      }));
+      setCachedImageUris(newCachedUris);
+    } catch (error) {
+      console.error('Error loading cached equipment images:', error);
+    }
+  }, []);
+
   useEffect(() => {
     const fetchDrone = async () => {
       if (!id || !user) return;
 
       try {
-        const droneData = await DroneService.getDrone(id, user.role);
+        const { drone: droneData, isFromCache: fromCache } = await OfflineDataService.getDrone(id, user);
         if (!droneData) {
           crossPlatformAlert.showAlert({ 
             title: t('common.error'), 
@@ -68,14 +111,17 @@ export default function DroneDetailsScreen() {
           return;
         }
         setDrone(droneData);
+        setIsFromCache(fromCache);
+        loadCachedImages(droneData);
         
         // Fetch current claim if drone is shareable
         if (droneData.shareable) {
           try {
-            const claim = await DroneClaimService.getActiveClaim(id);
+            const { claim } = await OfflineDataService.getActiveClaim(id, user);
             setCurrentClaim(claim);
             if (claim) {
-              const ownerName = await UserService.getUserDisplayName(claim.userId);
+              // User names are not cached, the claim keeps the holder's email
+              const ownerName = await UserService.getUserDisplayName(claim.userId).catch(() => claim.userEmail);
               setClaimOwnerName(ownerName);
             }
           } catch (error) {
@@ -84,7 +130,10 @@ export default function DroneDetailsScreen() {
           }
         }
         
-        // Fetch user names for audit trail
+        // Fetch user names for audit trail (only available online)
+        if (fromCache) {
+          return;
+        }
         if (droneData.createdBy) {
           const createdName = await UserService.getUserDisplayName(droneData.createdBy);
           setCreatedByName(createdName);
@@ -114,7 +163,7 @@ export default function DroneDetailsScreen() {
     }
 
     fetchDrone();
-  }, [id, user, router, t]);
+  }, [id, user, router, t, loadCachedImages]);
 
   const refreshClaimData = useCallback(async () => {
     if (!id || !drone?.shareable) return;
@@ -133,6 +182,60 @@ export default function DroneDetailsScreen() {
     }
   }, [id, drone?.shareable]);
 
+  // Service intervals change on the maintenance screen, so reload the drone when coming back
+  const hasFocusedRef = useRef(false);
+  useFocusEffect(
+    useCallback(() => {
+      if (!hasFocusedRef.current) {
+        hasFocusedRef.current = true;
+        return;
+      }
+      if (!id || !user) return;
+
+      DroneService.getDrone(id, user.role)
+        .then(droneData => {
+          if (droneData) {
+            setDrone(droneData);
+            setIsFromCache(false);
+          }
+        })
+        .catch(error => {
+          console.error('Error refreshing drone:', error);
+        });
+    }, [id, user])
+  );
+
+  // Cycle counts rise with every flight, so the packs are reloaded on each visit
+  const loadBatteries = useCallback(async () => {
+    if (!id) return;
+
+    try {
+      setBatteries(getCompatibleBatteries(await BatteryService.getBatteries(), id));
+    } catch (error) {
+      console.error('Error fetching batteries:', error);
+    }
+  }, [id]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadBatteries();
+    }, [loadBatteries])
+  );
+
+  const loadLatestEquipmentCheck = useCallback(async () => {
+    if (!id) return;
+
+    try {
+      setLatestEquipmentCheck(await EquipmentCheckService.getLatestCheck(id));
+    } catch (error) {
+      console.error('Error fetching latest equipment check:', error);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    loadLatestEquipmentCheck();
+  }, [loadLatestEquipmentCheck]);
+
   const handleEdit = () => {
     if (!drone || isButtonDisabled()) return;
     router.push(`/drones/${drone.id}/edit`);
@@ -253,6 +356,10 @@ export default function DroneDetailsScreen() {
 
   const canModify = user && (user.role === 'manager' || user.role === 'admin') && !drone.isDeleted;
   const canRestore = user?.role === 'admin' && drone.isDeleted;
+  // Items reported missing in the last check, highlighted in the equipment list
+  const missingEquipment = getMissingItems(latestEquipmentCheck, drone.equipmentStorages || []);
+  const missingItemIds = new Set(missingEquipment.map(item => item.itemId));
+  const serviceStatus = getDroneServiceStatus(drone);
 
   return (
     <>
@@ -263,6 +370,7 @@ export default function DroneDetailsScreen() {
         headerTitleStyle: { fontWeight: 'bold' },
       }} />
       <SafeAreaView style={styles.container}>
+      <OfflineInfoBar visible={isFromCache} />
       <ScrollView 
         ref={scrollViewRef}
         contentContainerStyle={[
@@ -316,21 +424,51 @@ export default function DroneDetailsScreen() {
             currentUserId={user.uid}
             currentUserRole={user.role}
             currentUserEmail={user.email}
+            serviceStatus={serviceStatus}
             disabled={isButtonDisabled()}
             onClaimChanged={refreshClaimData}
           />
         )}
 
+        {/* Drone Reservations Section */}
+        {drone.shareable && !drone.isDeleted && user && (
+          <DroneReservationsSection
+            droneId={drone.id}
+            droneName={DroneService.formatDroneName(drone)}
+            currentUserId={user.uid}
+            currentUserRole={user.role}
+            currentUserEmail={user.email}
+            disabled={isButtonDisabled()}
+          />
+        )}
+
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>{t('droneDetails.operationalInfo')}</Text>
           <Text style={styles.detail}>
             {t('droneDetails.flightTime')}: {DroneService.formatFlightTime(drone.totalFlightTime)}
           </Text>
+          <Text style={styles.detailHint}>{t('droneDetails.flightTimeCalculated')}</Text>
           <Text style={styles.detail}>{t('droneDetails.operatingTime')}: {DroneService.formatOperatingTime(drone.operatingTime)}</Text>
           <Text style={styles.detail}>{t('droneDetails.maxSpeed')}: {drone.maxSpeed} km/h</Text>
           <Text style={styles.detail}>{t('droneDetails.range')}: {DroneService.formatRange(drone.range)}</Text>
         </View>
 
+        <View style={styles.section}>
+          <View style={styles.maintenanceHeader}>
+            <Text style={[styles.sectionTitle, styles.maintenanceTitle]}>{t('maintenance.title')}</Text>
+            <ServiceStatusBadge status={serviceStatus} />
+          </View>
+          <Text style={styles.detail}>
+            {t('maintenance.intervalCount', { intervals: drone.serviceIntervals?.length || 0 })}
+          </Text>
+          <TouchableOpacity
+            style={styles.manualButton}
+            onPress={() => router.push(`/drones/${drone.id}/maintenance`)}
+          >
+            <Text style={styles.manualButtonText}>{t('maintenance.open')}</Text>
+          </TouchableOpacity>
+        </View>
+
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>{t('droneDetails.technicalInfo')}</Text>
           <Text style={styles.detail}>{t('droneDetails.weight')}: {DroneService.formatWeight(drone.weight)}</Text>
@@ -345,6 +483,19 @@ export default function DroneDetailsScreen() {
           <Text style={styles.detail}>{t('droneDetails.batteryType')}: {drone.battery.type}</Text>
           <Text style={styles.detail}>{t('droneDetails.batteryCapacity')}: {drone.battery.capacity} mAh</Text>
           <Text style={styles.detail}>{t('droneDetails.batteryVoltage')}: {drone.battery.voltage} V</Text>
+          {batteries.length > 0 ? (
+            <View style={styles.batteryPacks}>
+              <Text style={styles.detail}>{t('droneDetails.batteryPacks')}:</Text>
+              {batteries.map(battery => (
+                <View key={battery.id} style={styles.batteryPack}>
+                  <Text style={styles.batteryPackText}>
+                    {battery.label} · {t('batteries.cycles')}: {battery.ratedCycles ? `${battery.cycleCount} / ${battery.ratedCycles}` : battery.cycleCount}
+                  </Text>
+                  <BatteryIssueBadges battery={battery} />
+                </View>
+              ))}
+            </View>
+          ) : null}
         </View>
 
         <View style={styles.section}>
@@ -384,13 +535,40 @@ export default function DroneDetailsScreen() {
           <View style={styles.section}>
             <View style={styles.equipmentHeader}>
               <Text style={styles.sectionTitle}>{t('equipmentStorage.storages')}</Text>
-              <TouchableOpacity
-                style={styles.checkEquipmentButton}
-                onPress={() => setShowEquipmentChecklist(true)}
-              >
-                <Text style={styles.checkEquipmentButtonText}>{t('equipment.checkEquipment')}</Text>
-              </TouchableOpacity>
+              <View style={styles.equipmentActions}>
+                <TouchableOpacity
+                  style={styles.equipmentHistoryButton}
+                  onPress={() => setShowEquipmentHistory(true)}
+                >
+                  <Ionicons name="time-outline" size={16} color="#007AFF" />
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.checkEquipmentButton, isButtonDisabled() && getDisabledStyle()]}
+                  onPress={() => setShowEquipmentChecklist(true)}
+                  disabled={isButtonDisabled()}
+                >
+                  <Text style={styles.checkEquipmentButtonText}>{t('equipment.checkEquipment')}</Text>
+                </TouchableOpacity>
+              </View>
             </View>
+
+            {latestEquipmentCheck ? (
+              <View style={[styles.lastCheck, missingEquipment.length > 0 && styles.lastCheckMissing]}>
+                <Text style={styles.lastCheckText}>
+                  {t('equipment.lastCheck', {
+                    date: latestEquipmentCheck.checkedAt.toLocaleString(),
+                    user: latestEquipmentCheck.userEmail
+                  })}
+                </Text>
+                {missingEquipment.length > 0 ? (
+                  <Text style={styles.lastCheckMissingText}>
+                    {t('equipment.lastCheckMissing', {
+                      items: missingEquipment.map(item => item.name).join(', ')
+                    })}
+                  </Text>
+                ) : null}
+              </View>
+            ) : null}
             
             {drone.equipmentStorages.map((storage) => (
               <View key={storage.id} style={styles.storageSection}>
@@ -406,6 +584,7 @@ export default function DroneDetailsScreen() {
                         key={item.id} 
                         style={[
                           styles.equipmentItem,
+                          missingItemIds.has(item.id) && styles.equipmentItemMissing,
                           responsive.isDesktop && {
                             minWidth: `${(100 / responsive.equipmentGridColumns) - 3}%`,
                             maxWidth: `${(100 / responsive.equipmentGridColumns) - 3}%`,
@@ -418,7 +597,7 @@ export default function DroneDetailsScreen() {
                             activeOpacity={0.8}
                           >
                             <Image 
-                              source={{ uri: item.image }} 
+                              source={{ uri: cachedImageUris.get(item.image) || item.image }} 
                               style={[
                                 styles.equipmentImage,
                                 responsive.isDesktop && {
@@ -439,6 +618,9 @@ export default function DroneDetailsScreen() {
                         ]}>
                           {t('equipment.quantity')}: {item.quantity}
                         </Text>
+                        {missingItemIds.has(item.id) ? (
+                          <Text style={styles.equipmentMissingLabel}>{t('equipment.missing')}</Text>
+                        ) : null}
                       </View>
                     ))}
                   </View>
@@ -537,7 +719,12 @@ export default function DroneDetailsScreen() {
     <EquipmentChecklistModal
       visible={showEquipmentChecklist}
       equipmentStorages={drone?.equipmentStorages || []}
+      droneId={id}
+      currentUserId={user?.uid || ''}
+      currentUserEmail={user?.email || ''}
+      claimId={currentClaim && currentClaim.userId === user?.uid ? currentClaim.id : undefined}
       onClose={() => setShowEquipmentChecklist(false)}
+      onSaved={loadLatestEquipmentCheck}
       onReportMissing={(defaultComment) => {
         setShowEquipmentChecklist(false);
         setCommentDraft(defaultComment);
@@ -545,12 +732,19 @@ export default function DroneDetailsScreen() {
       }}
     />
     
+    <EquipmentCheckHistoryModal
+      visible={showEquipmentHistory}
+      droneId={id}
+      onClose={() => setShowEquipmentHistory(false)}
+    />
+
     <ImageViewer
       images={selectedStorageImages.map(uri => ({ uri }))}
       imageIndex={selectedImageIndex}
       visible={imageViewerVisible}
       onRequestClose={() => setImageViewerVisible(false)}
       onImageIndexChange={setSelectedImageIndex}
+      cacheNamespace="equipment"
     />
     </SafeAreaView>
     </>
@@ -644,6 +838,12 @@ const styles = StyleSheet.create({
     marginBottom: 4,
     lineHeight: 24,
   },
+  detailHint: {
+    fontSize: 12,
+    color: '#999',
+    fontStyle: 'italic',
+    marginBottom: 4,
+  },
   manualButton: {
     backgroundColor: '#0066CC',
     paddingHorizontal: 16,
@@ -708,12 +908,74 @@ const styles = StyleSheet.create({
   imageGalleryContainer: {
     marginTop: 0,
   },
+  batteryPacks: {
+    marginTop: 8,
+  },
+  batteryPack: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 4,
+  },
+  batteryPackText: {
+    fontSize: 15,
+    color: '#333',
+  },
+  maintenanceHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  maintenanceTitle: {
+    flex: 1,
+  },
   equipmentHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
     alignItems: 'center',
     marginBottom: 12,
   },
+  equipmentActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  equipmentHistoryButton: {
+    padding: 6,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+  },
+  lastCheck: {
+    backgroundColor: '#E8F5E8',
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 12,
+  },
+  lastCheckMissing: {
+    backgroundColor: '#fff3f3',
+  },
+  lastCheckText: {
+    fontSize: 13,
+    color: '#333',
+  },
+  lastCheckMissingText: {
+    fontSize: 13,
+    color: '#D7263D',
+    fontWeight: '500',
+    marginTop: 4,
+  },
+  equipmentItemMissing: {
+    borderColor: '#D7263D',
+    backgroundColor: '#fff3f3',
+  },
+  equipmentMissingLabel: {
+    fontSize: 12,
+    color: '#D7263D',
+    fontWeight: '600',
+    marginTop: 4,
+  },
   checkEquipmentButton: {
     backgroundColor: '#34C759',
     paddingHorizontal: 12,
@@ -0,0 +1,450 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ActivityIndicator,
+  TouchableOpacity,
+  ScrollView,
+  RefreshControl,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useLocalSearchParams, useRouter, Stack } from 'expo-router';
+import { useTranslation } from 'react-i18next';
+import { Ionicons } from '@expo/vector-icons';
+import { Drone } from '@/types/Drone';
+import { MaintenanceEntry, ServiceIntervalStatus } from '@/types/Maintenance';
+import { useAuth } from '@/contexts/AuthContext';
+import { DroneService } from '@/services/droneService';
+import { MaintenanceService } from '@/services/maintenanceService';
+import { getServiceIntervalStatuses } from '@/utils/maintenanceUtils';
+import { useCrossPlatformAlert } from '@/components/CrossPlatformAlert';
+import { useOfflineButtons } from '@/utils/useOfflineButtons';
+import { useResponsiveLayout } from '@/utils/useResponsiveLayout';
+import ImageGallery from '@/components/ImageGallery';
+import MaintenanceEntryModal from '@/components/MaintenanceEntryModal';
+import ServiceIntervalsModal from '@/components/ServiceIntervalsModal';
+import ServiceStatusBadge from '@/components/ServiceStatusBadge';
+
+export default function DroneMaintenanceScreen() {
+  const [drone, setDrone] = useState<Drone | null>(null);
+  const [entries, setEntries] = useState<MaintenanceEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [showEntryModal, setShowEntryModal] = useState(false);
+  const [showIntervalsModal, setShowIntervalsModal] = useState(false);
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { user } = useAuth();
+  const router = useRouter();
+  const { t } = useTranslation('common');
+  const crossPlatformAlert = useCrossPlatformAlert();
+  const { isButtonDisabled, getDisabledStyle } = useOfflineButtons();
+  const responsive = useResponsiveLayout();
+
+  const loadData = useCallback(async () => {
+    if (!id || !user) return;
+
+    try {
+      const [droneData, maintenance] = await Promise.all([
+        DroneService.getDrone(id, user.role),
+        MaintenanceService.getDroneMaintenance(id),
+      ]);
+      setDrone(droneData);
+      setEntries(maintenance);
+      setLoadFailed(false);
+    } catch (error) {
+      console.error('Error loading maintenance:', error);
+      setLoadFailed(true);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [id, user]);
+
+  useEffect(() => {
+    if (!user) {
+      router.replace('/');
+      return;
+    }
+
+    loadData();
+  }, [user, router, loadData]);
+
+  const handleRefresh = () => {
+    setRefreshing(true);
+    loadData();
+  };
+
+  const handleDeleteEntry = (entry: MaintenanceEntry) => {
+    if (!user || isButtonDisabled()) return;
+
+    crossPlatformAlert.showAlert({
+      title: t('maintenance.deleteConfirmTitle'),
+      message: t('maintenance.deleteConfirmMessage'),
+      buttons: [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('common.delete'),
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await MaintenanceService.deleteMaintenance(entry, user.role, user.uid);
+              await loadData();
+            } catch (error) {
+              console.error('Error deleting maintenance entry:', error);
+              crossPlatformAlert.showAlert({ title: t('common.error'), message: t('maintenance.deleteError') });
+            }
+          },
+        },
+      ]
+    });
+  };
+
+  const canManage = !!user && !!drone && MaintenanceService.canManageMaintenance(user.role) && !drone.isDeleted;
+
+  const renderIntervalStatus = (intervalStatus: ServiceIntervalStatus) => {
+    const { interval, minutesRemaining, cyclesRemaining, daysRemaining } = intervalStatus;
+
+    return (
+      <View key={interval.id} style={styles.intervalItem}>
+        <View style={styles.intervalHeader}>
+          <Text style={styles.intervalName}>{interval.name}</Text>
+          <ServiceStatusBadge status={intervalStatus.status} />
+        </View>
+        <Text style={styles.detailHint}>
+          {t('maintenance.lastService', { date: interval.lastServiceAt.toLocaleDateString() })}
+        </Text>
+        {minutesRemaining !== undefined ? (
+          <Text style={styles.detail}>
+            {minutesRemaining > 0
+              ? t('maintenance.remaining.flightTime', { value: DroneService.formatFlightTime(minutesRemaining) })
+              : t('maintenance.overdueBy.flightTime', { value: DroneService.formatFlightTime(-minutesRemaining) })}
+          </Text>
+        ) : null}
+        {cyclesRemaining !== undefined ? (
+          <Text style={styles.detail}>
+            {cyclesRemaining > 0
+              ? t('maintenance.remaining.cycles', { cycles: cyclesRemaining })
+              : t('maintenance.overdueBy.cycles', { cycles: -cyclesRemaining })}
+          </Text>
+        ) : null}
+        {daysRemaining !== undefined ? (
+          <Text style={styles.detail}>
+            {daysRemaining > 0
+              ? t('maintenance.remaining.days', { days: daysRemaining })
+              : t('maintenance.overdueBy.days', { days: -daysRemaining })}
+          </Text>
+        ) : null}
+      </View>
+    );
+  };
+
+  const renderEntry = (entry: MaintenanceEntry) => (
+    <View key={entry.id} style={styles.entryItem}>
+      <View style={styles.entryHeader}>
+        <Text style={styles.entryType}>{t(`maintenance.types.${entry.type}`)}</Text>
+        <Text style={styles.entryDate}>{entry.performedAt.toLocaleDateString()}</Text>
+      </View>
+      <Text style={styles.entryDescription}>{entry.description}</Text>
+      <Text style={styles.detailHint}>
+        {t('maintenance.atService', {
+          flightTime: DroneService.formatFlightTime(entry.flightMinutesAtService),
+          flights: entry.flightCountAtService
+        })}
+      </Text>
+      {entry.cost !== undefined ? (
+        <Text style={styles.detail}>{t('maintenance.costValue', { cost: entry.cost.toFixed(2) })}</Text>
+      ) : null}
+      <Text style={styles.detailHint}>{entry.userEmail}</Text>
+      {entry.attachments.length > 0 ? (
+        <ImageGallery images={entry.attachments} numColumns={responsive.imageGridColumns} />
+      ) : null}
+      {canManage ? (
+        <TouchableOpacity
+          style={[styles.deleteButton, isButtonDisabled() && getDisabledStyle()]}
+          onPress={() => handleDeleteEntry(entry)}
+          disabled={isButtonDisabled()}
+        >
+          <Ionicons name="trash-outline" size={16} color="#d32f2f" />
+          <Text style={styles.deleteButtonText}>{t('common.delete')}</Text>
+        </TouchableOpacity>
+      ) : null}
+    </View>
+  );
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#0066CC" />
+        <Text style={styles.loadingText}>{t('common.loading')}</Text>
+      </View>
+    );
+  }
+
+  if (!drone || !user) {
+    return (
+      <View style={styles.loadingContainer}>
+        <Text style={styles.loadingText}>
+          {loadFailed ? t('maintenance.loadError') : t('droneDetails.notFound')}
+        </Text>
+      </View>
+    );
+  }
+
+  const intervalStatuses = getServiceIntervalStatuses(drone);
+
+  return (
+    <>
+      <Stack.Screen options={{
+        title: t('maintenance.title'),
+        headerStyle: { backgroundColor: '#0066CC' },
+        headerTintColor: '#fff',
+        headerTitleStyle: { fontWeight: 'bold' },
+      }} />
+      <SafeAreaView style={styles.container}>
+        <ScrollView
+          contentContainerStyle={[
+            styles.scrollContent,
+            responsive.isDesktop && {
+              paddingHorizontal: responsive.spacing.large,
+              alignItems: 'center',
+            }
+          ]}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}
+        >
+          <View style={[
+            responsive.isDesktop && {
+              width: '100%',
+              maxWidth: responsive.maxContentWidth,
+            }
+          ]}>
+            <View style={styles.card}>
+              <Text style={styles.title}>{DroneService.formatDroneName(drone)}</Text>
+              <Text style={styles.detail}>
+                {t('maintenance.flightTotals', {
+                  flightTime: DroneService.formatFlightTime(drone.totalFlightTime),
+                  flights: drone.totalFlightCount || 0
+                })}
+              </Text>
+            </View>
+
+            <View style={styles.card}>
+              <View style={styles.sectionHeader}>
+                <Text style={styles.sectionTitle}>{t('maintenance.intervals.title')}</Text>
+                {canManage ? (
+                  <TouchableOpacity
+                    style={[styles.secondaryButton, isButtonDisabled() && getDisabledStyle()]}
+                    onPress={() => setShowIntervalsModal(true)}
+                    disabled={isButtonDisabled()}
+                  >
+                    <Ionicons name="settings-outline" size={16} color="#0066CC" />
+                    <Text style={styles.secondaryButtonText}>{t('maintenance.intervals.manage')}</Text>
+                  </TouchableOpacity>
+                ) : null}
+              </View>
+              {intervalStatuses.length === 0 ? (
+                <Text style={styles.emptyText}>{t('maintenance.intervals.empty')}</Text>
+              ) : (
+                intervalStatuses.map(renderIntervalStatus)
+              )}
+            </View>
+
+            <View style={styles.card}>
+              <View style={styles.sectionHeader}>
+                <Text style={styles.sectionTitle}>{t('maintenance.log')}</Text>
+                {canManage ? (
+                  <TouchableOpacity
+                    style={[styles.primaryButton, isButtonDisabled() && getDisabledStyle()]}
+                    onPress={() => setShowEntryModal(true)}
+                    disabled={isButtonDisabled()}
+                  >
+                    <Ionicons name="add" size={16} color="#fff" />
+                    <Text style={styles.primaryButtonText}>{t('maintenance.logMaintenance')}</Text>
+                  </TouchableOpacity>
+                ) : null}
+              </View>
+              {entries.length === 0 ? (
+                <Text style={styles.emptyText}>{t('maintenance.empty')}</Text>
+              ) : (
+                entries.map(renderEntry)
+              )}
+            </View>
+          </View>
+        </ScrollView>
+      </SafeAreaView>
+
+      <MaintenanceEntryModal
+        visible={showEntryModal}
+        droneId={drone.id}
+        droneName={DroneService.formatDroneName(drone)}
+        serviceIntervals={drone.serviceIntervals || []}
+        currentUserId={user.uid}
+        currentUserRole={user.role}
+        currentUserEmail={user.email}
+        onClose={() => setShowEntryModal(false)}
+        onSaved={loadData}
+      />
+
+      <ServiceIntervalsModal
+        visible={showIntervalsModal}
+        droneId={drone.id}
+        serviceIntervals={drone.serviceIntervals || []}
+        currentUserId={user.uid}
+        currentUserRole={user.role}
+        onClose={() => setShowIntervalsModal(false)}
+        onSaved={loadData}
+      />
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+  },
+  loadingText: {
+    marginTop: 16,
+    fontSize: 16,
+    color: '#666',
+  },
+  card: {
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 8,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+    gap: 8,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#0066CC',
+    flex: 1,
+  },
+  detail: {
+    fontSize: 14,
+    color: '#333',
+    marginTop: 4,
+  },
+  detailHint: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 4,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666',
+    fontStyle: 'italic',
+  },
+  intervalItem: {
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  intervalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 8,
+  },
+  intervalName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    flex: 1,
+  },
+  entryItem: {
+    backgroundColor: '#f8f9fa',
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#e9ecef',
+  },
+  entryHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  entryType: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  entryDate: {
+    fontSize: 14,
+    color: '#666',
+  },
+  entryDescription: {
+    fontSize: 14,
+    color: '#333',
+    marginTop: 6,
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    backgroundColor: '#0066CC',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 6,
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#0066CC',
+  },
+  secondaryButtonText: {
+    color: '#0066CC',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  deleteButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-end',
+    gap: 4,
+    marginTop: 8,
+  },
+  deleteButtonText: {
+    color: '#d32f2f',
+    fontSize: 14,
+  },
+});
@@ -18,7 +18,10 @@ import { useCrossPlatformAlert } from '@/components/CrossPlatformAlert';
 import { useOfflineButtons } from '@/utils/useOfflineButtons';
 import { useNetworkStatus } from '@/utils/useNetworkStatus';
 import OfflineInfoBar from '@/components/OfflineInfoBar';
+import { OfflineDataService } from '@/services/offlineDataService';
 import { useResponsiveLayout } from '@/utils/useResponsiveLayout';
+import ServiceStatusBadge from '@/components/ServiceStatusBadge';
+import { getDroneServiceStatus } from '@/utils/maintenanceUtils';
 
 export default function DronesListScreen() {
   const [drones, setDrones] = useState<Drone[]>([]);
@@ -36,7 +39,7 @@ export default function DronesListScreen() {
     if (!user) return;
     
     try {
-      const dronesList = await DroneService.getDrones(user.role);
+      const { drones: dronesList } = await OfflineDataService.getDrones(user);
       setDrones(dronesList);
     } catch (error) {
       console.error('Error fetching drones:', error);
@@ -143,6 +146,7 @@ export default function DronesListScreen() {
     <View style={[styles.droneCard, item.isDeleted && styles.deletedCard]}>
       <View style={styles.droneHeader}>
         <Text style={styles.droneName}>{DroneService.formatDroneName(item)}</Text>
+        {!item.isDeleted ? <ServiceStatusBadge status={getDroneServiceStatus(item)} /> : null}
         {item.isDeleted && user?.role === 'admin' ? (
           <View style={styles.deletedBadge}>
             <Text style={styles.deletedBadgeText}>{t('drones.deleted')}</Text>
@@ -393,6 +397,7 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     justifyContent: 'space-between',
     alignItems: 'center',
+    gap: 8,
     marginBottom: 8,
   },
   droneName: {
@@ -3,6 +3,7 @@ import { useLocalSearchParams, useRouter, Stack } from 'expo-router';
 import { useTranslation } from 'react-i18next';
 import { useAuth } from '@/contexts/AuthContext';
 import { FlightService } from '@/services/flightService';
+import { FlightTrackService } from '@/services/flightTrackService';
 import { DroneService } from '@/services/droneService';
 import FlightForm, { FlightFormData } from '@/components/FlightForm';
 import { 
@@ -67,6 +68,9 @@ export default function EditFlightScreen() {
           endTime: endDateTime.time,
           conditions: flight.conditions || '',
           additionalInfo: flight.additionalInfo || '',
+          missionId: flight.missionId || '',
+          batteryIds: flight.batteryIds || [],
+          trackFileName: flight.trackFileName,
         });
       } else {
         crossPlatformAlert.showAlert({ title: t('common.error'), message: t('flightForm.notFound') });
@@ -133,11 +137,16 @@ export default function EditFlightScreen() {
         endTime: endDateTime,
         conditions: formData.conditions,
         additionalInfo: formData.additionalInfo || '',
+        missionId: formData.missionId || '',
+        batteryIds: formData.batteryIds || [],
         // Don't include userId and userEmail in updates - they should remain as the original user's data
         // Only the updatedBy field should track who made the change
       };
 
       await FlightService.updateFlight(id, flightData, user.role, user.uid);
+      if (formData.trackImport) {
+        await FlightTrackService.attachTrack(id, formData.trackImport, user.role, user.uid);
+      }
       // Navigate back immediately after successful update
       router.back();
       // Show success alert without blocking navigation
@@ -11,29 +11,39 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { useLocalSearchParams, useRouter, Stack } from 'expo-router';
 import { useTranslation } from 'react-i18next';
 import { Ionicons } from '@expo/vector-icons';
-import { Flight } from '@/types/Flight';
+import { Flight, FlightTrackPoint } from '@/types/Flight';
 import { Drone } from '@/types/Drone';
+import { Battery } from '@/types/Battery';
 import { useAuth } from '@/contexts/AuthContext';
 import { FlightService } from '@/services/flightService';
 import { DroneService } from '@/services/droneService';
+import { BatteryService } from '@/services/batteryService';
 import { UserService } from '@/services/userService';
+import { FlightTrackService } from '@/services/flightTrackService';
 import { useCrossPlatformAlert } from '@/components/CrossPlatformAlert';
+import { useOfflineButtons } from '@/utils/useOfflineButtons';
 import { calculateFlightDuration } from '@/src/utils/flightUtils';
 import { MapUtils } from '@/utils/mapUtils';
 import { EmbeddedLocationMap } from '@/components/EmbeddedLocationMap';
+import CoordinateFormatsList from '@/components/CoordinateFormatsList';
+import FlightProcedureExecutions from '@/components/FlightProcedureExecutions';
 import { useResponsiveLayout } from '@/utils/useResponsiveLayout';
+import { formatTrackDistance, simplifyTrackForMap } from '@/utils/flightTrackUtils';
 
 export default function FlightDetailsScreen() {
   const { t } = useTranslation('common');
   const [flight, setFlight] = useState<Flight | null>(null);
   const [drone, setDrone] = useState<Drone | null>(null);
+  const [batteries, setBatteries] = useState<Battery[]>([]);
   const [loading, setLoading] = useState(true);
   const [createdByName, setCreatedByName] = useState<string>('');
   const [updatedByName, setUpdatedByName] = useState<string>('');
+  const [trackPoints, setTrackPoints] = useState<FlightTrackPoint[]>([]);
   const { id } = useLocalSearchParams<{ id: string }>();
   const { user } = useAuth();
   const router = useRouter();
   const crossPlatformAlert = useCrossPlatformAlert();
+  const { isButtonDisabled, getDisabledStyle } = useOfflineButtons();
   const responsive = useResponsiveLayout();
 
   useEffect(() => {
@@ -65,6 +75,15 @@ export default function FlightDetailsScreen() {
           }
         }
         
+        if (flightData.batteryIds?.length) {
+          try {
+            const allBatteries = await BatteryService.getBatteries();
+            setBatteries(allBatteries.filter(battery => flightData.batteryIds?.includes(battery.id)));
+          } catch (error) {
+            console.error('Error fetching batteries:', error);
+          }
+        }
+
         // Fetch user names for audit trail
         if (flightData.createdBy) {
           const createdName = await UserService.getUserDisplayName(flightData.createdBy);
@@ -92,6 +111,29 @@ export default function FlightDetailsScreen() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [id, user, router]); // t is stable from react-i18next and doesn't need to be in deps
 
+  // Load the stored track for the map (the flight is still shown if this fails)
+  useEffect(() => {
+    if (!flight?.trackUrl) {
+      setTrackPoints([]);
+      return;
+    }
+
+    let cancelled = false;
+    FlightTrackService.getTrackPoints(flight)
+      .then(points => {
+        if (!cancelled) {
+          setTrackPoints(simplifyTrackForMap(points));
+        }
+      })
+      .catch(error => {
+        console.error('Error loading flight track:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [flight]);
+
   // Authentication check - redirect if not logged in
   useEffect(() => {
     if (!user) {
@@ -121,6 +163,70 @@ export default function FlightDetailsScreen() {
     }
   };
 
+  const handleDelete = () => {
+    if (!flight || !user || isButtonDisabled()) return;
+
+    crossPlatformAlert.showAlert({
+      title: t('flightDetails.deleteConfirmTitle'),
+      message: t('flightDetails.deleteConfirmMessage'),
+      buttons: [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('common.delete'),
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await FlightService.softDeleteFlight(flight.id, user.role, user.uid);
+              crossPlatformAlert.showAlert({
+                title: t('common.success'),
+                message: t('flightDetails.deleteSuccess'),
+                buttons: [
+                  { text: t('common.ok'), onPress: () => router.back() }
+                ]
+              });
+            } catch (error) {
+              console.error('Error deleting flight:', error);
+              crossPlatformAlert.showAlert({ title: t('common.error'), message: t('flightDetails.deleteError') });
+            }
+          },
+        },
+      ]
+    });
+  };
+
+  const handleRestore = () => {
+    if (!flight || !user || isButtonDisabled()) return;
+
+    crossPlatformAlert.showAlert({
+      title: t('flightDetails.restoreConfirmTitle'),
+      message: t('flightDetails.restoreConfirmMessage'),
+      buttons: [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('flightDetails.restoreButton'),
+          onPress: async () => {
+            try {
+              await FlightService.restoreFlight(flight.id, user.role, user.uid);
+              // Refresh the flight data
+              const updatedFlight = await FlightService.getFlight(flight.id, user.role, user.uid);
+              setFlight(updatedFlight);
+
+              if (updatedFlight?.updatedBy) {
+                const updatedName = await UserService.getUserDisplayName(updatedFlight.updatedBy);
+                setUpdatedByName(updatedName);
+              }
+
+              crossPlatformAlert.showAlert({ title: t('common.success'), message: t('flightDetails.restoreSuccess') });
+            } catch (error) {
+              console.error('Error restoring flight:', error);
+              crossPlatformAlert.showAlert({ title: t('common.error'), message: t('flightDetails.restoreError') });
+            }
+          },
+        },
+      ]
+    });
+  };
+
   const handleViewOnMap = async () => {
     if (!flight?.coordinates) {
       crossPlatformAlert.showAlert({
@@ -164,7 +270,9 @@ export default function FlightDetailsScreen() {
     );
   }
 
-  const canEdit = user && (user.role === 'admin' || user.role === 'manager' || flight.userId === user.uid);
+  const canEdit = user && (user.role === 'admin' || user.role === 'manager' || flight.userId === user.uid) && !flight.isDeleted;
+  const canDelete = user && FlightService.canDeleteFlights(user.role) && !flight.isDeleted;
+  const canRestore = user && FlightService.canViewDeletedFlights(user.role) && flight.isDeleted;
   const crossesMidnight = checkIfCrossesMidnight(flight.startTime, flight.endTime);
   
   // Get real drone name with inventory code
@@ -195,12 +303,17 @@ export default function FlightDetailsScreen() {
               maxWidth: responsive.maxContentWidth,
             }
           ]}>
-            <View style={styles.card}>
+            <View style={[styles.card, flight.isDeleted && styles.deletedCard]}>
               <View style={styles.header}>
                 <Text style={[
                   styles.title,
                   { fontSize: responsive.fontSize.title }
                 ]}>{t('flightDetails.title')}</Text>
+                {flight.isDeleted ? (
+                  <View style={styles.deletedBadge}>
+                    <Text style={styles.deletedBadgeText}>{t('flightDetails.deleted')}</Text>
+                  </View>
+                ) : null}
               </View>
 
             <View style={styles.section}>
@@ -222,12 +335,14 @@ export default function FlightDetailsScreen() {
                       <Text style={styles.mapButtonText}>{t('flightDetails.viewOnMap')}</Text>
                     </TouchableOpacity>
                   </View>
+                  <CoordinateFormatsList coordinates={flight.coordinates} />
                   
                   {/* Embedded location map for quick viewing */}
                   <View style={styles.embeddedMapContainer}>
                     <EmbeddedLocationMap 
                       coordinates={flight.coordinates}
-                      height={180}
+                      height={trackPoints.length > 1 ? 260 : 180}
+                      track={trackPoints}
                     />
                   </View>
                 </View>
@@ -244,6 +359,15 @@ export default function FlightDetailsScreen() {
                 {calculateFlightDuration(flight.startTime, flight.endTime, t)}
               </Text>
               <Text style={styles.detail}>{t('flightDetails.conditions')}: {flight.conditions}</Text>
+              {flight.distanceFlown !== undefined ? (
+                <Text style={styles.detail}>{t('flightTrack.distance')}: {formatTrackDistance(flight.distanceFlown)}</Text>
+              ) : null}
+              {flight.maxAltitude !== undefined ? (
+                <Text style={styles.detail}>{t('flightTrack.maxAltitude')}: {flight.maxAltitude} m</Text>
+              ) : null}
+              {flight.trackFileName ? (
+                <Text style={styles.detail}>{t('flightTrack.title')}: {flight.trackFileName}</Text>
+              ) : null}
               
               {flight.additionalInfo ? (
                 <View style={styles.additionalInfoContainer}>
@@ -258,13 +382,35 @@ export default function FlightDetailsScreen() {
               <Text style={styles.detail}>{t('flightDetails.category')}: {flight.flightCategory}</Text>
               <Text style={styles.detail}>{t('flightDetails.operation')}: {flight.operationType}</Text>
               <Text style={styles.detail}>{t('flightDetails.activity')}: {flight.activityType}</Text>
+              {flight.missionId ? (
+                <TouchableOpacity
+                  style={[styles.mapButton, styles.missionButton]}
+                  onPress={() => router.push(`/missions/${flight.missionId}`)}
+                >
+                  <Ionicons name="flag" size={18} color="#007AFF" />
+                  <Text style={styles.mapButtonText}>{t('flightDetails.viewMission')}</Text>
+                </TouchableOpacity>
+              ) : null}
             </View>
 
             <View style={styles.section}>
               <Text style={styles.sectionTitle}>{t('drones.title')}</Text>
               <Text style={styles.detail}>{t('flightDetails.drone')}: {displayDroneName}</Text>
+              {batteries.length > 0 ? (
+                <Text style={styles.detail}>
+                  {t('flightDetails.batteries')}: {batteries.map(battery => battery.label).join(', ')}
+                </Text>
+              ) : null}
             </View>
 
+            {user && (
+              <FlightProcedureExecutions
+                flight={flight}
+                currentUserId={user.uid}
+                currentUserRole={user.role}
+              />
+            )}
+
             <View style={styles.section}>
               <Text style={styles.sectionTitle}>{t('users.title')}</Text>
               <Text style={styles.detail}>{t('flightDetails.pilot')}: {flight.userEmail || t('userDetails.noData')}</Text>
@@ -286,6 +432,11 @@ export default function FlightDetailsScreen() {
                     {updatedByName && ` ${t('flightDetails.updatedBy')} ${updatedByName}`}
                   </Text>
                 ) : null}
+                {flight.deletedAt ? (
+                  <Text style={styles.detail}>
+                    {t('flightDetails.deletedAt')}: {flight.deletedAt.toLocaleDateString()} {flight.deletedAt.toLocaleTimeString()}
+                  </Text>
+                ) : null}
               </View>
             ) : null}
 
@@ -295,6 +446,30 @@ export default function FlightDetailsScreen() {
                   <Text style={styles.editButtonText}>{t('flightDetails.editButton')}</Text>
                 </TouchableOpacity>
               )}
+
+              {canDelete ? (
+                <TouchableOpacity
+                  style={[styles.deleteButton, getDisabledStyle()]}
+                  onPress={handleDelete}
+                  disabled={isButtonDisabled()}
+                >
+                  <Text style={[styles.deleteButtonText, isButtonDisabled() && { color: '#999' }]}>
+                    {t('flightDetails.deleteButton')}
+                  </Text>
+                </TouchableOpacity>
+              ) : null}
+
+              {canRestore ? (
+                <TouchableOpacity
+                  style={[styles.restoreButton, getDisabledStyle()]}
+                  onPress={handleRestore}
+                  disabled={isButtonDisabled()}
+                >
+                  <Text style={[styles.restoreButtonText, isButtonDisabled() && { color: '#999' }]}>
+                    {t('flightDetails.restoreButton')}
+                  </Text>
+                </TouchableOpacity>
+              ) : null}
               
               <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
                 <Text style={styles.backButtonText}>{t('common.back')}</Text>
@@ -346,12 +521,31 @@ const styles = StyleSheet.create({
     shadowRadius: 4,
     elevation: 3,
   },
+  deletedCard: {
+    backgroundColor: '#f8f8f8',
+    borderColor: '#d32f2f',
+    borderWidth: 1,
+  },
   header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
     marginBottom: 20,
     borderBottomWidth: 1,
     borderBottomColor: '#eee',
     paddingBottom: 15,
   },
+  deletedBadge: {
+    backgroundColor: '#d32f2f',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 4,
+  },
+  deletedBadgeText: {
+    color: 'white',
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
   title: {
     fontSize: 24,
     fontWeight: 'bold',
@@ -391,6 +585,32 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  deleteButton: {
+    flex: 1,
+    backgroundColor: '#d32f2f',
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+    borderRadius: 6,
+    alignItems: 'center',
+  },
+  deleteButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  restoreButton: {
+    flex: 1,
+    backgroundColor: '#4CAF50',
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+    borderRadius: 6,
+    alignItems: 'center',
+  },
+  restoreButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
   backButton: {
     flex: 1,
     backgroundColor: '#6c757d',
@@ -428,6 +648,9 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '500',
   },
+  missionButton: {
+    marginTop: 8,
+  },
   embeddedMapContainer: {
     marginTop: 12,
     borderRadius: 8,
@@ -3,6 +3,7 @@ import { useRouter } from 'expo-router';
 import { useTranslation } from 'react-i18next';
 import { useAuth } from '@/contexts/AuthContext';
 import { FlightService } from '@/services/flightService';
+import { FlightTrackService } from '@/services/flightTrackService';
 import { DroneService } from '@/services/droneService';
 import FlightForm, { FlightFormData } from '@/components/FlightForm';
 import { 
@@ -11,6 +12,10 @@ import {
   ActivityType
 } from '@/types/Flight';
 import { useCrossPlatformAlert } from '@/components/CrossPlatformAlert';
+import { formatCurrencyIssue } from '@/components/FlightCurrencyNotice';
+import { UserRole } from '@/types/UserRole';
+import { OfflineOutboxService } from '@/services/offlineOutboxService';
+import { useNetworkStatus } from '@/utils/useNetworkStatus';
 
 export default function CreateFlightScreen() {
   const { user } = useAuth();
@@ -18,6 +23,7 @@ export default function CreateFlightScreen() {
   const { t } = useTranslation('common');
   const [loading, setLoading] = useState(false);
   const crossPlatformAlert = useCrossPlatformAlert();
+  const { isOffline } = useNetworkStatus();
 
   // Authentication check - redirect if not logged in
   useEffect(() => {
@@ -27,46 +33,151 @@ export default function CreateFlightScreen() {
     }
   }, [user, router]);
 
+  // Ask the user to confirm, resolving to true when they choose to continue
+  const confirmAsync = (title: string, message: string, confirmText: string): Promise<boolean> => {
+    return new Promise(resolve => {
+      crossPlatformAlert.showAlert({
+        title,
+        message,
+        buttons: [
+          { text: t('common.cancel'), style: 'cancel', onPress: () => resolve(false) },
+          { text: confirmText, onPress: () => resolve(true) },
+        ],
+        options: { onDismiss: () => resolve(false) },
+      });
+    });
+  };
+
+  // Get drone name for the snapshot
+  const getDroneName = async (formData: FlightFormData): Promise<string> => {
+    if (formData.droneId === 'other') {
+      // Use custom drone name for "other" option
+      return formData.customDroneName || '';
+    }
+
+    // Get drone name from database for regular drones
+    const fetchedDrones = await DroneService.getDrones(user!.role);
+    const selectedDrone = fetchedDrones.find(drone => drone.id === formData.droneId);
+    return selectedDrone ? DroneService.formatDroneName(selectedDrone) : '';
+  };
+
+  const buildFlightData = (formData: FlightFormData, droneName: string) => {
+    // Convert separate date/time fields to datetime strings
+    const startDateTime = `${formData.startDate}T${formData.startTime}:00`;
+    const endDateTime = `${formData.endDate}T${formData.endTime}:00`;
+
+    return {
+      date: formData.startDate, // Derive date from startDate for database indexing
+      location: formData.location,
+      coordinates: formData.coordinates || undefined, // Save coordinates if provided
+      flightCategory: formData.flightCategory as FlightCategory,
+      operationType: formData.operationType as OperationType,
+      activityType: formData.activityType as ActivityType,
+      droneId: formData.droneId,
+      droneName,
+      operator: formData.operator || '',
+      startTime: startDateTime,
+      endTime: endDateTime,
+      conditions: formData.conditions,
+      additionalInfo: formData.additionalInfo || '',
+      missionId: formData.missionId || undefined,
+      batteryIds: formData.batteryIds || [],
+      userId: user!.uid,
+      userEmail: user!.email,
+    };
+  };
+
+  // Without a connection the flight goes to the outbox; currency is checked when it is replayed
+  const queueFlight = async (formData: FlightFormData) => {
+    if (!user) return;
+
+    setLoading(true);
+    try {
+      const droneName = await getDroneName(formData).catch(() => '');
+      await OfflineOutboxService.enqueue(
+        { type: 'createFlight', flightData: buildFlightData(formData, droneName) },
+        user
+      );
+
+      router.back();
+      crossPlatformAlert.showAlert({
+        title: t('common.success'),
+        message: formData.trackImport ? t('flightForm.queuedWithoutTrack') : t('flightForm.queued'),
+      });
+    } catch (error) {
+      console.error('Error queueing flight:', error);
+      crossPlatformAlert.showAlert({ title: t('common.error'), message: t('flightForm.saveError') });
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleSave = async (formData: FlightFormData) => {
     if (!user) return;
 
+    if (isOffline) {
+      await queueFlight(formData);
+      return;
+    }
+
     setLoading(true);
+    let overrideCurrencyErrors = false;
     try {
-      // Get drone name for the snapshot
-      let droneName = '';
-      if (formData.droneId === 'other') {
-        // Use custom drone name for "other" option
-        droneName = formData.customDroneName || '';
-      } else {
-        // Get drone name from database for regular drones
-        const fetchedDrones = await DroneService.getDrones(user.role);
-        const selectedDrone = fetchedDrones.find(drone => drone.id === formData.droneId);
-        droneName = selectedDrone ? DroneService.formatDroneName(selectedDrone) : '';
+      // Pilot currency: errors block the flight (admins may override), warnings need confirmation
+      const currency = await FlightService.checkPilotCurrency(user.uid, {
+        flightCategory: formData.flightCategory as FlightCategory,
+        flightDate: formData.startDate,
+      });
+      const errorMessages = currency.errors.map(issue => `• ${formatCurrencyIssue(t, issue)}`).join('\n');
+      const warningMessages = currency.warnings.map(issue => `• ${formatCurrencyIssue(t, issue)}`).join('\n');
+
+      if (currency.errors.length > 0) {
+        if (user.role !== UserRole.ADMIN) {
+          crossPlatformAlert.showAlert({
+            title: t('flightCurrency.blockedTitle'),
+            message: `${t('flightCurrency.blockedMessage')}\n\n${errorMessages}`,
+          });
+          return;
+        }
+
+        overrideCurrencyErrors = await confirmAsync(
+          t('flightCurrency.overrideTitle'),
+          `${t('flightCurrency.overrideMessage')}\n\n${[errorMessages, warningMessages].filter(Boolean).join('\n')}`,
+          t('flightCurrency.overrideButton')
+        );
+        if (!overrideCurrencyErrors) {
+          return;
+        }
+      } else if (currency.warnings.length > 0) {
+        const proceed = await confirmAsync(
+          t('flightCurrency.warningsTitle'),
+          `${t('flightCurrency.warningsMessage')}\n\n${warningMessages}`,
+          t('flightCurrency.continueButton')
+        );
+        if (!proceed) {
+          return;
+        }
       }
 
-      // Convert separate date/time fields to datetime strings
-      const startDateTime = `${formData.startDate}T${formData.startTime}:00`;
-      const endDateTime = `${formData.endDate}T${formData.endTime}:00`;
+      const flightData = buildFlightData(formData, await getDroneName(formData));
+
+      const flightId = await FlightService.createFlight(flightData, user.uid, user.email, {
+        userRole: user.role,
+        overrideCurrencyErrors,
+      });
+
+      // The track is stored under the flight id, so it is uploaded once the flight exists
+      if (formData.trackImport) {
+        try {
+          await FlightTrackService.attachTrack(flightId, formData.trackImport, user.role, user.uid);
+        } catch (error) {
+          console.error('Error attaching flight track:', error);
+          router.back();
+          crossPlatformAlert.showAlert({ title: t('common.warning'), message: t('flightTrack.uploadError') });
+          return;
+        }
+      }
 
-      const flightData = {
-        date: formData.startDate, // Derive date from startDate for database indexing
-        location: formData.location,
-        coordinates: formData.coordinates || undefined, // Save coordinates if provided
-        flightCategory: formData.flightCategory as FlightCategory,
-        operationType: formData.operationType as OperationType,
-        activityType: formData.activityType as ActivityType,
-        droneId: formData.droneId,
-        droneName,
-        operator: formData.operator || '',
-        startTime: startDateTime,
-        endTime: endDateTime,
-        conditions: formData.conditions,
-        additionalInfo: formData.additionalInfo || '',
-        userId: user.uid,
-        userEmail: user.email,
-      };
-
-      await FlightService.createFlight(flightData, user.uid, user.email);
       // Navigate back immediately after successful creation
       router.back();
       // Show success alert without blocking navigation
@@ -9,6 +9,7 @@ import {
   ActivityIndicator,
   ScrollView,
   TextInput,
+  Switch,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useRouter, useFocusEffect } from 'expo-router';
@@ -18,12 +19,15 @@ import { Ionicons } from '@expo/vector-icons';
 import { useAuth } from '@/contexts/AuthContext';
 import { FlightService } from '@/services/flightService';
 import { DroneService } from '@/services/droneService';
+import { LogbookService } from '@/services/logbookService';
 import { Flight, FlightQuery, PaginatedFlightResponse, AVAILABLE_FLIGHT_CATEGORIES, AVAILABLE_ACTIVITY_TYPES, FlightCategory, ActivityType } from '@/types/Flight';
 import { Drone } from '@/types/Drone';
 import { useCrossPlatformAlert } from '@/components/CrossPlatformAlert';
 import { formatFlightDurationCompact } from '@/src/utils/flightUtils';
 import { useOfflineButtons } from '@/utils/useOfflineButtons';
 import { useNetworkStatus } from '@/utils/useNetworkStatus';
+import { NetworkConnectivity } from '@/utils/networkConnectivity';
+import { OfflineDataService } from '@/services/offlineDataService';
 import OfflineInfoBar from '@/components/OfflineInfoBar';
 import WebCompatibleDatePicker from '@/components/WebCompatibleDatePicker';
 import { useResponsiveLayout } from '@/utils/useResponsiveLayout';
@@ -53,10 +57,12 @@ export default function FlightsListScreen() {
     activityType: undefined,
     userEmail: '',
     droneId: undefined,
+    includeDeleted: false,
   });
 
   // UI states
   const [showFilters, setShowFilters] = useState(false);
+  const [exporting, setExporting] = useState(false);
   const [startDateInput, setStartDateInput] = useState('');
   const [endDateInput, setEndDateInput] = useState('');
 
@@ -68,6 +74,14 @@ export default function FlightsListScreen() {
     }
 
     try {
+      // Offline, the list shows the user's recent flights kept on the device, without filters or pages
+      if (!NetworkConnectivity.getCurrentStatus()) {
+        const { flights: cachedFlights } = await OfflineDataService.getRecentFlights(user);
+        setFlights(cachedFlights);
+        setPaginationData(null);
+        return;
+      }
+
       const queryParams = newFilters || filters;
       // Clean up empty string filters
       const cleanedParams = {
@@ -80,7 +94,10 @@ export default function FlightsListScreen() {
       setPaginationData(response);
     } catch (error) {
       console.error('Error fetching flights:', error);
-      crossPlatformAlert.showAlert({ title: t('common.error'), message: t('flights.errors.fetchFailed') });
+      // Offline the list shows what is cached, the offline bar already explains why it may be incomplete
+      if (NetworkConnectivity.getCurrentStatus()) {
+        crossPlatformAlert.showAlert({ title: t('common.error'), message: t('flights.errors.fetchFailed') });
+      }
     } finally {
       if (showLoadingIndicator) {
         setLoading(false);
@@ -158,6 +175,7 @@ export default function FlightsListScreen() {
       activityType: undefined,
       userEmail: '',
       droneId: undefined,
+      includeDeleted: filters.includeDeleted,
     };
     setFilters(clearedFilters);
     setStartDateInput('');
@@ -165,6 +183,48 @@ export default function FlightsListScreen() {
     fetchFlights(true, clearedFilters);
   };
 
+  const toggleShowDeleted = (value: boolean) => {
+    const newFilters = { ...filters, pageNumber: 1, includeDeleted: value };
+    setFilters(newFilters);
+    fetchFlights(true, newFilters);
+  };
+
+  const exportLogbook = async (format: 'csv' | 'pdf') => {
+    if (!user) return;
+
+    setExporting(true);
+    try {
+      // Export uses the same filters as the list, across all pages
+      const queryParams = {
+        ...filters,
+        userEmail: filters.userEmail?.trim() || undefined,
+      };
+
+      if (format === 'csv') {
+        await LogbookService.exportCsv(user.role, user.uid, queryParams, t);
+      } else {
+        await LogbookService.exportPdf(user.role, user.uid, queryParams, t);
+      }
+    } catch (error) {
+      console.error('Error exporting logbook:', error);
+      crossPlatformAlert.showAlert({ title: t('common.error'), message: t('logbook.exportError') });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleExportLogbook = () => {
+    crossPlatformAlert.showAlert({
+      title: t('logbook.exportTitle'),
+      message: t('logbook.exportMessage'),
+      buttons: [
+        { text: t('common.cancel'), style: 'cancel' },
+        { text: t('logbook.exportCsv'), onPress: () => exportLogbook('csv') },
+        { text: t('logbook.exportPdf'), onPress: () => exportLogbook('pdf') },
+      ],
+    });
+  };
+
   const goToPage = (pageNumber: number) => {
     const newFilters = { ...filters, pageNumber };
     setFilters(newFilters);
@@ -242,10 +302,9 @@ export default function FlightsListScreen() {
     router.push(`/flights/${flightId}`);
   };
 
+  // Flights created offline are saved to the outbox
   const handleAddFlight = () => {
-    if (!isButtonDisabled()) {
-      router.push('/flights/create');
-    }
+    router.push('/flights/create');
   };
 
   const renderFlightItem = ({ item }: { item: Flight }) => {
@@ -260,7 +319,12 @@ export default function FlightsListScreen() {
     const displayDroneName = drone ? DroneService.formatDroneName(drone) : (item.droneName || item.droneId);
 
     return (
-      <View style={styles.flightCard}>
+      <View style={[styles.flightCard, item.isDeleted && styles.deletedCard]}>
+        {item.isDeleted ? (
+          <View style={styles.deletedBadge}>
+            <Text style={styles.deletedBadgeText}>{t('flights.deleted')}</Text>
+          </View>
+        ) : null}
         <View style={styles.flightHeader}>
           <Text style={styles.flightDate}>{item.date}</Text>
           <Text style={styles.flightTime}>
@@ -332,7 +396,7 @@ export default function FlightsListScreen() {
           <Text style={styles.viewButtonText}>{t('common.view')}</Text>
         </TouchableOpacity>
         
-        {canEditFlight(item) ? (
+        {canEditFlight(item) && !item.isDeleted ? (
           <TouchableOpacity
             style={[styles.editButton, getDisabledStyle()]}
             onPress={() => handleEditFlight(item.id)}
@@ -583,23 +647,45 @@ export default function FlightsListScreen() {
             <TouchableOpacity 
               style={[
                 styles.addButton, 
-                getDisabledStyle(),
                 responsive.isDesktop && {
                   paddingHorizontal: 24,
                   paddingVertical: 12,
                 }
               ]} 
               onPress={handleAddFlight}
-              disabled={isButtonDisabled()}
             >
               <Text style={[
                 styles.addButtonText, 
-                isButtonDisabled() && { color: '#999' },
                 { fontSize: responsive.fontSize.body }
               ]}>
                 + {t('flights.add')}
               </Text>
             </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[styles.exportButton, (isButtonDisabled() || exporting) && styles.exportButtonDisabled]}
+              onPress={handleExportLogbook}
+              disabled={isButtonDisabled() || exporting}
+            >
+              {exporting ? (
+                <ActivityIndicator size="small" color="#0066CC" />
+              ) : (
+                <Ionicons name="document-text-outline" size={18} color={isButtonDisabled() ? '#999' : '#0066CC'} />
+              )}
+              <Text style={[styles.exportButtonText, isButtonDisabled() && { color: '#999' }]}>
+                {t('logbook.exportButton')}
+              </Text>
+            </TouchableOpacity>
+
+            {user && FlightService.canViewDeletedFlights(user.role) ? (
+              <View style={styles.switchRow}>
+                <Text style={styles.switchLabel}>{t('flights.showDeleted')}</Text>
+                <Switch
+                  value={!!filters.includeDeleted}
+                  onValueChange={toggleShowDeleted}
+                />
+              </View>
+            ) : null}
           </View>
 
           {renderFilterControls()}
@@ -675,6 +761,26 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: 'bold',
   },
+  exportButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    borderWidth: 1,
+    borderColor: '#0066CC',
+    borderRadius: 8,
+    paddingVertical: 10,
+    paddingHorizontal: 24,
+    marginTop: 12,
+  },
+  exportButtonDisabled: {
+    borderColor: '#ccc',
+  },
+  exportButtonText: {
+    color: '#0066CC',
+    fontSize: 16,
+    fontWeight: '600',
+  },
   listContainer: {
     padding: 16,
   },
@@ -692,6 +798,35 @@ const styles = StyleSheet.create({
     shadowRadius: 3.84,
     elevation: 5,
   },
+  deletedCard: {
+    backgroundColor: '#f8f8f8',
+    borderColor: '#d32f2f',
+    borderWidth: 1,
+  },
+  deletedBadge: {
+    alignSelf: 'flex-start',
+    backgroundColor: '#d32f2f',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 4,
+    marginBottom: 8,
+  },
+  deletedBadgeText: {
+    color: 'white',
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  switchLabel: {
+    fontSize: 14,
+    color: '#333',
+    fontWeight: '500',
+  },
   flightHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -0,0 +1,342 @@
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { useFocusEffect } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import * as DocumentPicker from 'expo-document-picker';
+import { useAuth } from '@/contexts/AuthContext';
+import { GeozoneService } from '@/services/geozoneService';
+import { Geozone, GeozoneDatasetInfo } from '@/types/Geozone';
+import { useCrossPlatformAlert } from '@/components/CrossPlatformAlert';
+import OfflineInfoBar from '@/components/OfflineInfoBar';
+import { useNetworkStatus } from '@/utils/useNetworkStatus';
+import { useOfflineButtons } from '@/utils/useOfflineButtons';
+import { useResponsiveLayout } from '@/utils/useResponsiveLayout';
+import { GEOZONE_RESTRICTION_COLORS, formatGeozoneLimits } from '@/utils/geozoneUtils';
+
+export default function GeozonesScreen() {
+  const { user } = useAuth();
+  const { t } = useTranslation('common');
+  const crossPlatformAlert = useCrossPlatformAlert();
+  const { isConnected } = useNetworkStatus();
+  const { isButtonDisabled, getDisabledStyle } = useOfflineButtons();
+  const responsive = useResponsiveLayout();
+
+  const [zones, setZones] = useState<Geozone[]>([]);
+  const [dataset, setDataset] = useState<GeozoneDatasetInfo | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [importing, setImporting] = useState(false);
+
+  const canManage = user ? GeozoneService.canManageGeozones(user.role) : false;
+
+  const loadZones = useCallback(async () => {
+    try {
+      const [loadedZones, datasetInfo] = await Promise.all([
+        GeozoneService.getGeozones(),
+        GeozoneService.getDatasetInfo(),
+      ]);
+      setZones(loadedZones);
+      setDataset(datasetInfo);
+    } catch (error) {
+      console.error('Error loading geozones:', error);
+      crossPlatformAlert.showAlert({ title: t('common.error'), message: t('geozones.errors.loadFailed') });
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [t, crossPlatformAlert]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadZones();
+    }, [loadZones])
+  );
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    GeozoneService.clearCache();
+    loadZones();
+  };
+
+  const handleImport = async () => {
+    if (!user) return;
+
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: '*/*',
+        copyToCacheDirectory: true,
+        multiple: false,
+      });
+      if (result.canceled || !result.assets?.length) {
+        return;
+      }
+
+      setImporting(true);
+      const asset = result.assets[0];
+      const zoneCount = await GeozoneService.importDataset(asset.uri, asset.name, user.role, user.uid);
+      crossPlatformAlert.showAlert({
+        title: t('common.success'),
+        message: t('geozones.importSuccess', { count: zoneCount }),
+      });
+      await loadZones();
+    } catch (error) {
+      console.error('Error importing geozones:', error);
+      crossPlatformAlert.showAlert({ title: t('common.error'), message: t('geozones.errors.importFailed') });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleRemove = () => {
+    if (!user) return;
+
+    crossPlatformAlert.showAlert({
+      title: t('geozones.removeDataset'),
+      message: t('geozones.removeConfirm'),
+      buttons: [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('common.delete'),
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await GeozoneService.removeDataset(user.role, user.uid);
+              await loadZones();
+            } catch (error) {
+              console.error('Error removing geozones:', error);
+              crossPlatformAlert.showAlert({ title: t('common.error'), message: t('geozones.errors.removeFailed') });
+            }
+          },
+        },
+      ],
+    });
+  };
+
+  const renderZone = ({ item }: { item: Geozone }) => {
+    const color = GEOZONE_RESTRICTION_COLORS[item.restriction];
+    const limits = formatGeozoneLimits(item);
+
+    return (
+      <View style={[styles.card, { borderLeftColor: color }]}>
+        <View style={styles.cardHeader}>
+          <Text style={styles.cardTitle}>{item.name}</Text>
+          <Text style={styles.cardType}>{item.type}</Text>
+        </View>
+        <Text style={[styles.cardRestriction, { color }]}>{t(`geozones.restrictions.${item.restriction}`)}</Text>
+        {limits ? <Text style={styles.cardText}>{t('geozones.limits')}: {limits}</Text> : null}
+        {item.message ? <Text style={styles.cardMessage}>{item.message}</Text> : null}
+        <Text style={styles.cardMeta}>{t(`geozones.sources.${item.source}`)}</Text>
+      </View>
+    );
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#0066CC" />
+        <Text style={styles.loadingText}>{t('common.loading')}</Text>
+      </View>
+    );
+  }
+
+  const header = (
+    <View style={styles.datasetCard}>
+      <Text style={styles.datasetTitle}>{t('geozones.dataset')}</Text>
+      {dataset ? (
+        <>
+          <Text style={styles.cardText}>{dataset.fileName}</Text>
+          <Text style={styles.cardMeta}>
+            {t('geozones.datasetInfo', { count: dataset.zoneCount, date: dataset.importedAt.toLocaleDateString() })}
+          </Text>
+        </>
+      ) : (
+        <Text style={styles.cardText}>{t('geozones.bundledOnly')}</Text>
+      )}
+
+      {canManage ? (
+        <View style={styles.actionsRow}>
+          <TouchableOpacity
+            style={[styles.actionButton, getDisabledStyle()]}
+            onPress={handleImport}
+            disabled={isButtonDisabled() || importing}
+          >
+            {importing ? (
+              <ActivityIndicator size="small" color="#0066CC" />
+            ) : (
+              <Ionicons name="cloud-upload-outline" size={18} color="#0066CC" />
+            )}
+            <Text style={styles.actionButtonText}>{t('geozones.importDataset')}</Text>
+          </TouchableOpacity>
+          {dataset ? (
+            <TouchableOpacity
+              style={[styles.actionButton, styles.removeButton, getDisabledStyle()]}
+              onPress={handleRemove}
+              disabled={isButtonDisabled()}
+            >
+              <Ionicons name="trash-outline" size={18} color="#d32f2f" />
+              <Text style={[styles.actionButtonText, styles.removeButtonText]}>{t('geozones.removeDataset')}</Text>
+            </TouchableOpacity>
+          ) : null}
+        </View>
+      ) : null}
+      {canManage ? <Text style={styles.hint}>{t('geozones.importHint')}</Text> : null}
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <OfflineInfoBar
+        visible={!isConnected}
+        message={t('offline.noConnection')}
+      />
+
+      <FlatList
+        data={zones}
+        keyExtractor={(zone) => `${zone.source}-${zone.id}`}
+        renderItem={renderZone}
+        ListHeaderComponent={header}
+        ListEmptyComponent={<Text style={styles.emptyText}>{t('geozones.empty')}</Text>}
+        contentContainerStyle={[
+          styles.listContent,
+          responsive.isDesktop && {
+            maxWidth: responsive.maxContentWidth,
+            width: '100%',
+            alignSelf: 'center',
+          }
+        ]}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  listContent: {
+    padding: 16,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+  },
+  loadingText: {
+    marginTop: 10,
+    fontSize: 16,
+    color: '#666',
+  },
+  datasetCard: {
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 16,
+  },
+  datasetTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 6,
+  },
+  actionsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 12,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    marginRight: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#0066CC',
+    backgroundColor: 'white',
+  },
+  actionButtonText: {
+    color: '#0066CC',
+    fontSize: 14,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+  removeButton: {
+    borderColor: '#d32f2f',
+  },
+  removeButtonText: {
+    color: '#d32f2f',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 8,
+  },
+  card: {
+    backgroundColor: 'white',
+    borderRadius: 8,
+    borderLeftWidth: 4,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 1,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  cardTitle: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  cardType: {
+    fontSize: 12,
+    color: '#666',
+  },
+  cardRestriction: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+  cardText: {
+    fontSize: 14,
+    color: '#333',
+    marginTop: 2,
+  },
+  cardMessage: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 4,
+  },
+  cardMeta: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 6,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    paddingVertical: 16,
+  },
+});
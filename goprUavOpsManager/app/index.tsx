@@ -1,4 +1,4 @@
-import React, { useEffect } from "react";
+import React, { useCallback, useEffect, useState } from "react";
 import { Text, View, StyleSheet, ActivityIndicator, TouchableOpacity, ScrollView } from "react-native";
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useTranslation } from 'react-i18next';
@@ -6,10 +6,11 @@ import { useAuth } from "@/contexts/AuthContext";
 import LoginScreen from "../screens/LoginScreen";
 import { Footer } from "@/components/Footer";
 import { UserRole } from "@/types/UserRole";
-import { useRouter } from 'expo-router';
+import { useRouter, useFocusEffect } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { useOfflineButtons } from "@/utils/useOfflineButtons";
 import { useResponsiveLayout } from "@/utils/useResponsiveLayout";
+import { NotificationService } from "@/services/notificationService";
 
 export default function Index() {
   const { user, loading } = useAuth();
@@ -18,6 +19,7 @@ export default function Index() {
   const router = useRouter();
   const { isNavigationDisabled, getDisabledStyle } = useOfflineButtons();
   const responsive = useResponsiveLayout();
+  const [unreadNotifications, setUnreadNotifications] = useState(0);
 
   console.log('[Index] Component render - user:', user?.uid, 'loading:', loading);
 
@@ -29,6 +31,14 @@ export default function Index() {
     }
   }, [user, router]);
 
+  // Refresh the notification badge whenever the dashboard is shown
+  useFocusEffect(
+    useCallback(() => {
+      if (!user) return;
+      NotificationService.getUnreadCount(user.uid).then(setUnreadNotifications);
+    }, [user])
+  );
+
   // The AuthContext already handles loading user data on auth state changes
   // No need to manually refresh here, which can cause infinite loops
 
@@ -84,6 +94,31 @@ export default function Index() {
       color: '#9C27B0',
       show: true
     },
+    {
+      key: 'missions',
+      title: t('dashboard.navigation.missions'),
+      icon: 'flag-outline',
+      route: '/missions',
+      color: '#E65100',
+      show: true
+    },
+    {
+      key: 'statistics',
+      title: t('dashboard.navigation.statistics'),
+      icon: 'stats-chart-outline',
+      route: '/statistics',
+      color: '#009688',
+      show: true
+    },
+    {
+      key: 'notifications',
+      title: t('dashboard.navigation.notifications'),
+      icon: 'notifications-outline',
+      route: '/notifications',
+      color: '#3F51B5',
+      badge: unreadNotifications,
+      show: true
+    },
     {
       key: 'users',
       title: t('dashboard.navigation.users'),
@@ -190,6 +225,11 @@ export default function Index() {
                       { fontSize: responsive.fontSize.body, fontWeight: 'bold' }
                     ]}>{button.title}</Text>
                   </View>
+                  {button.badge ? (
+                    <View style={styles.badge}>
+                      <Text style={styles.badgeText}>{button.badge > 99 ? '99+' : button.badge}</Text>
+                    </View>
+                  ) : null}
                 </TouchableOpacity>
               );
             })}
@@ -265,6 +305,23 @@ const styles = StyleSheet.create({
   },
   buttonIcon: {
   },
+  badge: {
+    position: 'absolute',
+    top: 10,
+    right: 10,
+    minWidth: 26,
+    height: 26,
+    borderRadius: 13,
+    paddingHorizontal: 6,
+    backgroundColor: '#d32f2f',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  badgeText: {
+    color: '#FFFFFF',
+    fontSize: 13,
+    fontWeight: 'bold',
+  },
   buttonText: {
     color: '#FFFFFF',
     textAlign: 'center',
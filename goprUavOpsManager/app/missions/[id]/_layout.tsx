@@ -0,0 +1,33 @@
+import { Stack } from 'expo-router';
+import { useTranslation } from 'react-i18next';
+
+export default function MissionDetailLayout() {
+  const { t } = useTranslation('common');
+
+  return (
+    <Stack
+      screenOptions={{
+        headerStyle: {
+          backgroundColor: '#0066CC',
+        },
+        headerTintColor: '#fff',
+        headerTitleStyle: {
+          fontWeight: 'bold',
+        },
+      }}
+    >
+      <Stack.Screen
+        name="index"
+        options={{
+          title: t('missions.details'),
+        }}
+      />
+      <Stack.Screen
+        name="edit"
+        options={{
+          title: t('missions.editMission'),
+        }}
+      />
+    </Stack>
+  );
+}
@@ -0,0 +1,112 @@
+import React, { useEffect, useState } from 'react';
+import { View, ActivityIndicator, StyleSheet } from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { useTranslation } from 'react-i18next';
+import { useAuth } from '@/contexts/AuthContext';
+import { MissionService } from '@/services/missionService';
+import { MissionFormData } from '@/types/Mission';
+import MissionForm from '@/components/MissionForm';
+import { useCrossPlatformAlert } from '@/components/CrossPlatformAlert';
+
+export default function EditMissionScreen() {
+  const [loading, setLoading] = useState(false);
+  const [loadingData, setLoadingData] = useState(true);
+  const [initialData, setInitialData] = useState<MissionFormData | undefined>(undefined);
+
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { user } = useAuth();
+  const router = useRouter();
+  const { t } = useTranslation('common');
+  const crossPlatformAlert = useCrossPlatformAlert();
+
+  useEffect(() => {
+    if (!user) {
+      router.replace('/');
+      return;
+    }
+
+    if (!MissionService.canModifyMissions(user.role)) {
+      crossPlatformAlert.showAlert({
+        title: t('common.accessDenied'),
+        message: t('common.permissionDenied'),
+        buttons: [
+          { text: 'OK', onPress: () => router.back() }
+        ]
+      });
+      return;
+    }
+
+    const loadMission = async () => {
+      if (!id) return;
+
+      try {
+        const mission = await MissionService.getMission(id, user.role);
+        if (!mission) {
+          crossPlatformAlert.showAlert({ title: t('common.error'), message: t('missions.errors.notFound') });
+          router.back();
+          return;
+        }
+
+        setInitialData({
+          incidentNumber: mission.incidentNumber,
+          title: mission.title,
+          searchArea: mission.searchArea,
+          searchAreaCoordinates: mission.searchAreaCoordinates,
+          startTime: mission.startTime,
+          endTime: mission.endTime,
+          outcome: mission.outcome,
+          notes: mission.notes,
+        });
+      } catch (error) {
+        console.error('Error loading mission:', error);
+        crossPlatformAlert.showAlert({ title: t('common.error'), message: t('missions.errors.loadFailed') });
+        router.back();
+      } finally {
+        setLoadingData(false);
+      }
+    };
+
+    loadMission();
+  }, [id, user, router, t, crossPlatformAlert]);
+
+  const handleSave = async (formData: MissionFormData) => {
+    if (!user || !id) return;
+
+    setLoading(true);
+    try {
+      await MissionService.updateMission(id, formData, user.role, user.uid);
+      router.back();
+      crossPlatformAlert.showAlert({ title: t('common.success'), message: t('missions.updateSuccess') });
+    } catch (error) {
+      console.error('Error updating mission:', error);
+      crossPlatformAlert.showAlert({ title: t('common.error'), message: t('missions.errors.updateFailed') });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loadingData) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color="#0066CC" />
+      </View>
+    );
+  }
+
+  return (
+    <MissionForm
+      initialData={initialData}
+      onSave={handleSave}
+      onCancel={() => router.back()}
+      loading={loading}
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
@@ -0,0 +1,454 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ActivityIndicator,
+  TouchableOpacity,
+  ScrollView,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useLocalSearchParams, useRouter, useFocusEffect } from 'expo-router';
+import { useTranslation } from 'react-i18next';
+import { Ionicons } from '@expo/vector-icons';
+import { Mission, MissionFlight, MissionTimelineEvent } from '@/types/Mission';
+import { useAuth } from '@/contexts/AuthContext';
+import { MissionService } from '@/services/missionService';
+import { useCrossPlatformAlert } from '@/components/CrossPlatformAlert';
+import { EmbeddedLocationMap } from '@/components/EmbeddedLocationMap';
+import CoordinateFormatsList from '@/components/CoordinateFormatsList';
+import { useOfflineButtons } from '@/utils/useOfflineButtons';
+import { useResponsiveLayout } from '@/utils/useResponsiveLayout';
+import { MISSION_OUTCOME_COLORS, buildMissionTimeline, summarizeMissionFlights } from '@/utils/missionUtils';
+import { formatLogbookMinutes } from '@/utils/logbookUtils';
+import { formatFlightDurationCompact } from '@/src/utils/flightUtils';
+
+const TIMELINE_ICONS: Record<MissionTimelineEvent['type'], keyof typeof Ionicons.glyphMap> = {
+  missionStart: 'flag',
+  flightStart: 'airplane',
+  flightEnd: 'download-outline',
+  missionEnd: 'checkmark-circle',
+};
+
+export default function MissionDetailsScreen() {
+  const [mission, setMission] = useState<Mission | null>(null);
+  const [loading, setLoading] = useState(true);
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { user } = useAuth();
+  const router = useRouter();
+  const { t } = useTranslation('common');
+  const crossPlatformAlert = useCrossPlatformAlert();
+  const { isButtonDisabled, getDisabledStyle } = useOfflineButtons();
+  const responsive = useResponsiveLayout();
+
+  const fetchMission = useCallback(async () => {
+    if (!id || !user) return;
+
+    try {
+      const missionData = await MissionService.getMission(id, user.role);
+      if (!missionData) {
+        crossPlatformAlert.showAlert({
+          title: t('common.error'),
+          message: t('missions.errors.notFound'),
+          buttons: [
+            { text: t('common.ok'), onPress: () => router.back() }
+          ]
+        });
+        return;
+      }
+      setMission(missionData);
+    } catch (error) {
+      console.error('Error fetching mission:', error);
+      crossPlatformAlert.showAlert({ title: t('common.error'), message: t('missions.errors.loadFailed') });
+    } finally {
+      setLoading(false);
+    }
+  }, [id, user, router, t, crossPlatformAlert]);
+
+  useFocusEffect(
+    useCallback(() => {
+      if (!user) {
+        router.replace('/');
+        return;
+      }
+      fetchMission();
+    }, [fetchMission, user, router])
+  );
+
+  const handleEdit = () => {
+    if (mission && !isButtonDisabled()) {
+      router.push(`/missions/${mission.id}/edit`);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!mission || !user || isButtonDisabled()) return;
+
+    crossPlatformAlert.showAlert({
+      title: t('missions.deleteTitle'),
+      message: t('missions.deleteConfirmation', { title: mission.title }),
+      buttons: [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('common.delete'),
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await MissionService.deleteMission(mission.id, user.role, user.uid);
+              crossPlatformAlert.showAlert({
+                title: t('common.success'),
+                message: t('missions.deleteSuccess'),
+                buttons: [
+                  { text: t('common.ok'), onPress: () => router.back() }
+                ]
+              });
+            } catch (error) {
+              console.error('Error deleting mission:', error);
+              crossPlatformAlert.showAlert({ title: t('common.error'), message: t('missions.errors.deleteFailed') });
+            }
+          },
+        },
+      ]
+    });
+  };
+
+  const handleRestore = async () => {
+    if (!mission || !user || isButtonDisabled()) return;
+
+    try {
+      await MissionService.restoreMission(mission.id, user.role, user.uid);
+      crossPlatformAlert.showAlert({ title: t('common.success'), message: t('missions.restoreSuccess') });
+      fetchMission();
+    } catch (error) {
+      console.error('Error restoring mission:', error);
+      crossPlatformAlert.showAlert({ title: t('common.error'), message: t('missions.errors.restoreFailed') });
+    }
+  };
+
+  // Pilots can only open their own flights; managers and admins can open all of them
+  const canOpenFlight = (flight: MissionFlight) =>
+    !!user && (MissionService.canModifyMissions(user.role) || flight.userId === user.uid);
+
+  const renderTimelineEvent = (event: MissionTimelineEvent, index: number) => (
+    <View key={`${event.type}-${event.flightId || ''}-${index}`} style={styles.timelineRow}>
+      <Ionicons name={TIMELINE_ICONS[event.type]} size={18} color="#0066CC" />
+      <View style={styles.timelineContent}>
+        <Text style={styles.timelineTime}>{new Date(event.time).toLocaleString()}</Text>
+        <Text style={styles.timelineText}>
+          {t(`missions.timelineEvents.${event.type}`)}
+          {event.flightId ? ` - ${event.droneName || ''} (${event.pilot || t('userDetails.noData')})` : ''}
+        </Text>
+      </View>
+    </View>
+  );
+
+  const renderFlight = (flight: MissionFlight) => {
+    const content = (
+      <>
+        <Text style={styles.flightTitle}>{flight.droneName || flight.droneId}</Text>
+        <Text style={styles.detailValue}>{flight.userEmail || t('userDetails.noData')}</Text>
+        <Text style={styles.detailValue}>
+          {new Date(flight.startTime).toLocaleString()} ({formatFlightDurationCompact(flight.startTime, flight.endTime)})
+        </Text>
+      </>
+    );
+
+    return canOpenFlight(flight) ? (
+      <TouchableOpacity key={flight.id} style={styles.flightRow} onPress={() => router.push(`/flights/${flight.id}`)}>
+        {content}
+      </TouchableOpacity>
+    ) : (
+      <View key={flight.id} style={styles.flightRow}>{content}</View>
+    );
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color="#0066CC" />
+      </View>
+    );
+  }
+
+  if (!mission) {
+    return (
+      <View style={styles.centered}>
+        <Text>{t('missions.errors.notFound')}</Text>
+      </View>
+    );
+  }
+
+  const flights = MissionService.getMissionFlights(mission);
+  const summary = summarizeMissionFlights(flights);
+  const timeline = buildMissionTimeline(mission, flights);
+  const canModify = !!user && MissionService.canModifyMissions(user.role);
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={[
+          styles.content,
+          responsive.isDesktop && {
+            maxWidth: responsive.maxContentWidth,
+            width: '100%',
+            alignSelf: 'center',
+          }
+        ]}
+      >
+        <View style={styles.header}>
+          <View style={styles.headerText}>
+            <Text style={styles.incidentNumber}>{mission.incidentNumber}</Text>
+            <Text style={styles.title}>{mission.title}</Text>
+          </View>
+          <View style={[styles.outcomeBadge, { backgroundColor: MISSION_OUTCOME_COLORS[mission.outcome] }]}>
+            <Text style={styles.outcomeBadgeText}>{t(`missions.outcomes.${mission.outcome}`)}</Text>
+          </View>
+        </View>
+
+        {mission.isDeleted ? (
+          <Text style={styles.deletedText}>{t('missions.deleted')}</Text>
+        ) : null}
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>{t('missions.basicInfo')}</Text>
+          <View style={styles.detailRow}>
+            <Text style={styles.detailLabel}>{t('missions.start')}:</Text>
+            <Text style={styles.detailValue}>{new Date(mission.startTime).toLocaleString()}</Text>
+          </View>
+          <View style={styles.detailRow}>
+            <Text style={styles.detailLabel}>{t('missions.end')}:</Text>
+            <Text style={styles.detailValue}>
+              {mission.endTime ? new Date(mission.endTime).toLocaleString() : t('missions.outcomes.ongoing')}
+            </Text>
+          </View>
+          <View style={styles.detailRow}>
+            <Text style={styles.detailLabel}>{t('missions.searchArea')}:</Text>
+            <Text style={styles.detailValue}>{mission.searchArea || t('userDetails.noData')}</Text>
+          </View>
+          {mission.searchAreaCoordinates ? (
+            <View style={styles.mapContainer}>
+              <CoordinateFormatsList coordinates={mission.searchAreaCoordinates} />
+              <EmbeddedLocationMap coordinates={mission.searchAreaCoordinates} height={200} />
+            </View>
+          ) : null}
+          {mission.notes ? (
+            <Text style={styles.notes}>{mission.notes}</Text>
+          ) : null}
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>{t('missions.summary')}</Text>
+          <View style={styles.detailRow}>
+            <Text style={styles.detailLabel}>{t('missions.flightCount')}:</Text>
+            <Text style={styles.detailValue}>{summary.flightCount}</Text>
+          </View>
+          <View style={styles.detailRow}>
+            <Text style={styles.detailLabel}>{t('missions.totalAirTime')}:</Text>
+            <Text style={styles.detailValue}>{formatLogbookMinutes(summary.totalMinutes)}</Text>
+          </View>
+          <View style={styles.detailRow}>
+            <Text style={styles.detailLabel}>{t('missions.pilots')}:</Text>
+            <Text style={styles.detailValue}>{summary.pilots.join(', ') || t('userDetails.noData')}</Text>
+          </View>
+          <View style={styles.detailRow}>
+            <Text style={styles.detailLabel}>{t('missions.drones')}:</Text>
+            <Text style={styles.detailValue}>{summary.droneNames.join(', ') || t('userDetails.noData')}</Text>
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>{t('missions.timeline')}</Text>
+          {timeline.map(renderTimelineEvent)}
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>{t('missions.flights')}</Text>
+          {flights.length === 0 ? (
+            <Text style={styles.detailValue}>{t('missions.noFlights')}</Text>
+          ) : (
+            flights.map(renderFlight)
+          )}
+        </View>
+
+        <View style={styles.actionButtons}>
+          {canModify && !mission.isDeleted ? (
+            <>
+              <TouchableOpacity
+                style={[styles.button, styles.secondaryButton, getDisabledStyle()]}
+                onPress={handleEdit}
+                disabled={isButtonDisabled()}
+              >
+                <Text style={styles.buttonText}>{t('common.edit')}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.button, styles.dangerButton, getDisabledStyle()]}
+                onPress={handleDelete}
+                disabled={isButtonDisabled()}
+              >
+                <Text style={styles.buttonText}>{t('common.delete')}</Text>
+              </TouchableOpacity>
+            </>
+          ) : null}
+          {user && MissionService.canViewDeletedMissions(user.role) && mission.isDeleted ? (
+            <TouchableOpacity
+              style={[styles.button, styles.successButton, getDisabledStyle()]}
+              onPress={handleRestore}
+              disabled={isButtonDisabled()}
+            >
+              <Text style={styles.buttonText}>{t('missions.restore')}</Text>
+            </TouchableOpacity>
+          ) : null}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  headerText: {
+    flex: 1,
+  },
+  incidentNumber: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#0066CC',
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  outcomeBadge: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 4,
+    marginLeft: 12,
+  },
+  outcomeBadgeText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  deletedText: {
+    fontSize: 14,
+    color: '#F44336',
+    fontWeight: 'bold',
+    marginBottom: 16,
+  },
+  section: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 12,
+  },
+  detailRow: {
+    flexDirection: 'row',
+    marginBottom: 8,
+  },
+  detailLabel: {
+    fontSize: 14,
+    color: '#666',
+    fontWeight: '600',
+    width: 150,
+  },
+  detailValue: {
+    fontSize: 14,
+    color: '#333',
+    flex: 1,
+  },
+  mapContainer: {
+    marginTop: 8,
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  notes: {
+    fontSize: 14,
+    color: '#666',
+    lineHeight: 20,
+    marginTop: 12,
+  },
+  timelineRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    marginBottom: 10,
+  },
+  timelineContent: {
+    flex: 1,
+    marginLeft: 10,
+  },
+  timelineTime: {
+    fontSize: 12,
+    color: '#999',
+  },
+  timelineText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  flightRow: {
+    borderTopWidth: 1,
+    borderTopColor: '#eee',
+    paddingVertical: 10,
+  },
+  flightTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#0066CC',
+    marginBottom: 2,
+  },
+  actionButtons: {
+    gap: 12,
+    marginBottom: 20,
+  },
+  button: {
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  secondaryButton: {
+    backgroundColor: '#666',
+  },
+  successButton: {
+    backgroundColor: '#4CAF50',
+  },
+  dangerButton: {
+    backgroundColor: '#F44336',
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,57 @@
+import React, { useEffect, useState } from 'react';
+import { useRouter } from 'expo-router';
+import { useTranslation } from 'react-i18next';
+import { useAuth } from '@/contexts/AuthContext';
+import { MissionService } from '@/services/missionService';
+import { MissionFormData } from '@/types/Mission';
+import MissionForm from '@/components/MissionForm';
+import { useCrossPlatformAlert } from '@/components/CrossPlatformAlert';
+
+export default function CreateMissionScreen() {
+  const [loading, setLoading] = useState(false);
+  const { user } = useAuth();
+  const router = useRouter();
+  const { t } = useTranslation('common');
+  const crossPlatformAlert = useCrossPlatformAlert();
+
+  useEffect(() => {
+    if (!user) {
+      router.replace('/');
+      return;
+    }
+
+    if (!MissionService.canModifyMissions(user.role)) {
+      crossPlatformAlert.showAlert({
+        title: t('common.accessDenied'),
+        message: t('common.permissionDenied'),
+        buttons: [
+          { text: 'OK', onPress: () => router.back() }
+        ]
+      });
+    }
+  }, [user, router, t, crossPlatformAlert]);
+
+  const handleSave = async (formData: MissionFormData) => {
+    if (!user) return;
+
+    setLoading(true);
+    try {
+      const missionId = await MissionService.createMission(formData, user.role, user.uid);
+      router.replace(`/missions/${missionId}`);
+      crossPlatformAlert.showAlert({ title: t('common.success'), message: t('missions.createSuccess') });
+    } catch (error) {
+      console.error('Error creating mission:', error);
+      crossPlatformAlert.showAlert({ title: t('common.error'), message: t('missions.errors.createFailed') });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <MissionForm
+      onSave={handleSave}
+      onCancel={() => router.back()}
+      loading={loading}
+    />
+  );
+}
@@ -0,0 +1,263 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  FlatList,
+  StyleSheet,
+  ActivityIndicator,
+  RefreshControl,
+  TouchableOpacity,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter, useFocusEffect } from 'expo-router';
+import { useTranslation } from 'react-i18next';
+import { Mission } from '@/types/Mission';
+import { useAuth } from '@/contexts/AuthContext';
+import { MissionService } from '@/services/missionService';
+import { useCrossPlatformAlert } from '@/components/CrossPlatformAlert';
+import { useOfflineButtons } from '@/utils/useOfflineButtons';
+import { useNetworkStatus } from '@/utils/useNetworkStatus';
+import OfflineInfoBar from '@/components/OfflineInfoBar';
+import { useResponsiveLayout } from '@/utils/useResponsiveLayout';
+import { MISSION_OUTCOME_COLORS } from '@/utils/missionUtils';
+
+export default function MissionsListScreen() {
+  const [missions, setMissions] = useState<Mission[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const { user } = useAuth();
+  const router = useRouter();
+  const { t } = useTranslation('common');
+  const crossPlatformAlert = useCrossPlatformAlert();
+  const { isButtonDisabled, getDisabledStyle } = useOfflineButtons();
+  const { isConnected } = useNetworkStatus();
+  const responsive = useResponsiveLayout();
+
+  const fetchMissions = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      setMissions(await MissionService.getMissions(user.role));
+    } catch (error) {
+      console.error('Error fetching missions:', error);
+      crossPlatformAlert.showAlert({ title: t('common.error'), message: t('missions.errors.loadFailed') });
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [user, t, crossPlatformAlert]);
+
+  useFocusEffect(
+    useCallback(() => {
+      if (!user) {
+        router.replace('/');
+        return;
+      }
+      fetchMissions();
+    }, [fetchMissions, user, router])
+  );
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    fetchMissions();
+  };
+
+  const handleCreateMission = () => {
+    if (!isButtonDisabled()) {
+      router.push('/missions/create');
+    }
+  };
+
+  const renderMissionItem = ({ item }: { item: Mission }) => (
+    <TouchableOpacity
+      style={[styles.missionCard, item.isDeleted && styles.deletedCard]}
+      onPress={() => router.push(`/missions/${item.id}`)}
+    >
+      <View style={styles.missionHeader}>
+        <Text style={[styles.incidentNumber, { fontSize: responsive.fontSize.small }]}>{item.incidentNumber}</Text>
+        <View style={[styles.outcomeBadge, { backgroundColor: MISSION_OUTCOME_COLORS[item.outcome] }]}>
+          <Text style={styles.outcomeBadgeText}>{t(`missions.outcomes.${item.outcome}`)}</Text>
+        </View>
+      </View>
+      <Text style={[styles.missionTitle, { fontSize: responsive.fontSize.subtitle }]}>{item.title}</Text>
+      {item.searchArea ? (
+        <Text style={[styles.missionDetail, { fontSize: responsive.fontSize.small }]}>
+          {t('missions.searchArea')}: {item.searchArea}
+        </Text>
+      ) : null}
+      <Text style={[styles.missionDetail, { fontSize: responsive.fontSize.small }]}>
+        {t('missions.start')}: {new Date(item.startTime).toLocaleString()}
+      </Text>
+      {item.endTime ? (
+        <Text style={[styles.missionDetail, { fontSize: responsive.fontSize.small }]}>
+          {t('missions.end')}: {new Date(item.endTime).toLocaleString()}
+        </Text>
+      ) : null}
+      {item.isDeleted ? (
+        <Text style={styles.deletedText}>{t('missions.deleted')}</Text>
+      ) : null}
+    </TouchableOpacity>
+  );
+
+  if (loading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color="#0066CC" />
+      </View>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <OfflineInfoBar
+        visible={!isConnected}
+        message={t('offline.noConnection')}
+      />
+
+      <View style={[
+        styles.mainContent,
+        responsive.isDesktop && {
+          maxWidth: responsive.maxContentWidth,
+          width: '100%',
+          alignSelf: 'center',
+        }
+      ]}>
+        <FlatList
+          data={missions}
+          renderItem={renderMissionItem}
+          keyExtractor={(item) => item.id}
+          contentContainerStyle={[
+            styles.listContent,
+            { padding: responsive.spacing.medium }
+          ]}
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
+          }
+          ListEmptyComponent={
+            <View style={styles.emptyContainer}>
+              <Text style={[styles.emptyText, { fontSize: responsive.fontSize.body }]}>
+                {t('missions.noMissions')}
+              </Text>
+            </View>
+          }
+        />
+
+        {user && MissionService.canModifyMissions(user.role) && (
+          <View style={styles.fabContainer}>
+            <TouchableOpacity
+              style={[styles.fab, getDisabledStyle()]}
+              onPress={handleCreateMission}
+              disabled={isButtonDisabled()}
+            >
+              <Text style={[styles.fabText, { fontSize: responsive.fontSize.small }]}>
+                {t('missions.newMission')}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  mainContent: {
+    flex: 1,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  listContent: {
+    padding: 16,
+    paddingBottom: 80,
+  },
+  missionCard: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  deletedCard: {
+    opacity: 0.6,
+    borderWidth: 1,
+    borderColor: '#F44336',
+  },
+  missionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  incidentNumber: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    color: '#0066CC',
+  },
+  outcomeBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 4,
+    marginLeft: 8,
+  },
+  outcomeBadgeText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
+  missionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 8,
+  },
+  missionDetail: {
+    fontSize: 12,
+    color: '#666',
+    marginBottom: 4,
+  },
+  deletedText: {
+    fontSize: 12,
+    color: '#F44336',
+    fontWeight: 'bold',
+    marginTop: 4,
+  },
+  emptyContainer: {
+    padding: 32,
+    alignItems: 'center',
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#999',
+  },
+  fabContainer: {
+    position: 'absolute',
+    bottom: 16,
+    right: 16,
+  },
+  fab: {
+    backgroundColor: '#0066CC',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderRadius: 24,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.3,
+    shadowRadius: 4,
+    elevation: 5,
+  },
+  fabText: {
+    color: '#fff',
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,315 @@
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { useRouter, useFocusEffect } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useAuth } from '@/contexts/AuthContext';
+import { NotificationService } from '@/services/notificationService';
+import { DocumentExpiryNotification, DroneClaimNotification, Notification } from '@/types/Notification';
+import { useCrossPlatformAlert } from '@/components/CrossPlatformAlert';
+import OfflineInfoBar from '@/components/OfflineInfoBar';
+import { useNetworkStatus } from '@/utils/useNetworkStatus';
+import { useResponsiveLayout } from '@/utils/useResponsiveLayout';
+
+export default function NotificationsScreen() {
+  const { user } = useAuth();
+  const { t } = useTranslation('common');
+  const router = useRouter();
+  const crossPlatformAlert = useCrossPlatformAlert();
+  const { isConnected } = useNetworkStatus();
+  const responsive = useResponsiveLayout();
+
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const loadNotifications = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      setNotifications(await NotificationService.getNotifications(user.uid));
+    } catch (error) {
+      console.error('Error loading notifications:', error);
+      crossPlatformAlert.showAlert({ title: t('common.error'), message: t('notifications.errors.loadFailed') });
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [user, t, crossPlatformAlert]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadNotifications();
+    }, [loadNotifications])
+  );
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    loadNotifications();
+  };
+
+  const handlePress = async (notification: Notification) => {
+    if (notification.type !== 'documentExpiry') {
+      router.push(`/drones/${notification.droneId}`);
+    }
+    if (!user || notification.read) return;
+
+    try {
+      await NotificationService.markAsRead(notification, user.uid);
+      setNotifications(prev => prev.map(item => item.id === notification.id ? { ...item, read: true } : item));
+    } catch (error) {
+      console.error('Error marking notification as read:', error);
+      crossPlatformAlert.showAlert({ title: t('common.error'), message: t('notifications.errors.updateFailed') });
+    }
+  };
+
+  const handleMarkAllAsRead = async () => {
+    if (!user) return;
+
+    try {
+      await NotificationService.markAllAsRead(notifications, user.uid);
+      setNotifications(prev => prev.map(item => ({ ...item, read: true })));
+    } catch (error) {
+      console.error('Error marking notifications as read:', error);
+      crossPlatformAlert.showAlert({ title: t('common.error'), message: t('notifications.errors.updateFailed') });
+    }
+  };
+
+  const getDaysLeftText = (notification: DocumentExpiryNotification) => {
+    const daysLeft = NotificationService.getDaysLeft(notification);
+    if (daysLeft < 0) {
+      return t('notifications.expired');
+    }
+    if (daysLeft === 0) {
+      return t('notifications.expiresToday');
+    }
+    return t('notifications.expiresIn', { count: daysLeft });
+  };
+
+  const getUrgencyColor = (notification: DocumentExpiryNotification) => {
+    const daysLeft = NotificationService.getDaysLeft(notification);
+    if (daysLeft <= 7) return '#d32f2f';
+    if (daysLeft <= 30) return '#FF9800';
+    return '#0066CC';
+  };
+
+  const renderClaimNotification = (notification: DroneClaimNotification) => {
+    const isOverdue = notification.type === 'claimOverdue';
+    const color = isOverdue ? '#FF9800' : '#d32f2f';
+
+    return (
+      <TouchableOpacity
+        key={notification.id}
+        style={[styles.card, !notification.read && styles.unreadCard]}
+        onPress={() => handlePress(notification)}
+      >
+        <View style={styles.cardHeader}>
+          <Ionicons name={isOverdue ? 'time-outline' : 'lock-open-outline'} size={22} color={color} />
+          <Text style={styles.cardTitle}>{t(`notifications.claims.${notification.type}`)}</Text>
+          {!notification.read ? <View style={styles.unreadDot} /> : null}
+        </View>
+        <Text style={styles.cardText}>
+          {t('notifications.claims.claimedSince', {
+            droneName: notification.droneName,
+            date: notification.claimStartTime.toLocaleString(),
+          })}
+        </Text>
+        {isOverdue && notification.autoReleaseAt ? (
+          <Text style={[styles.cardText, { color }]}>
+            {t('notifications.claims.autoReleaseAt', { date: notification.autoReleaseAt.toLocaleString() })}
+          </Text>
+        ) : null}
+        <Text style={styles.cardMeta}>{notification.createdAt.toLocaleDateString()}</Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderNotification = (notification: Notification) => notification.type !== 'documentExpiry' ? (
+    renderClaimNotification(notification)
+  ) : (
+    <TouchableOpacity
+      key={notification.id}
+      style={[styles.card, !notification.read && styles.unreadCard]}
+      onPress={() => handlePress(notification)}
+      activeOpacity={notification.read ? 1 : 0.7}
+    >
+      <View style={styles.cardHeader}>
+        <Ionicons name="alert-circle-outline" size={22} color={getUrgencyColor(notification)} />
+        <Text style={styles.cardTitle}>{t(`notifications.documentTypes.${notification.documentType}`)}</Text>
+        {!notification.read ? <View style={styles.unreadDot} /> : null}
+      </View>
+      <Text style={styles.cardText}>
+        {t('notifications.expiryDate')}: {notification.expiryDate}
+      </Text>
+      <Text style={[styles.cardText, { color: getUrgencyColor(notification) }]}>
+        {getDaysLeftText(notification)}
+      </Text>
+      <Text style={styles.cardMeta}>{notification.createdAt.toLocaleDateString()}</Text>
+    </TouchableOpacity>
+  );
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#0066CC" />
+        <Text style={styles.loadingText}>{t('common.loading')}</Text>
+      </View>
+    );
+  }
+
+  const hasUnread = notifications.some(notification => !notification.read);
+
+  return (
+    <View style={styles.container}>
+      <OfflineInfoBar
+        visible={!isConnected}
+        message={t('offline.noConnection')}
+      />
+
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+      >
+        <View style={[
+          styles.contentWrapper,
+          responsive.isDesktop && {
+            maxWidth: responsive.maxContentWidth,
+            width: '100%',
+            alignSelf: 'center',
+          }
+        ]}>
+          <View style={styles.actionsRow}>
+            {user ? (
+              <TouchableOpacity
+                style={styles.actionButton}
+                onPress={() => router.push(`/users/${user.uid}/edit`)}
+              >
+                <Ionicons name="person-outline" size={18} color="#0066CC" />
+                <Text style={styles.actionButtonText}>{t('notifications.updateProfile')}</Text>
+              </TouchableOpacity>
+            ) : null}
+            {hasUnread ? (
+              <TouchableOpacity style={styles.actionButton} onPress={handleMarkAllAsRead}>
+                <Ionicons name="checkmark-done-outline" size={18} color="#0066CC" />
+                <Text style={styles.actionButtonText}>{t('notifications.markAllAsRead')}</Text>
+              </TouchableOpacity>
+            ) : null}
+          </View>
+
+          {notifications.length === 0 ? (
+            <Text style={styles.emptyText}>{t('notifications.empty')}</Text>
+          ) : (
+            notifications.map(renderNotification)
+          )}
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  contentWrapper: {
+    width: '100%',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+  },
+  loadingText: {
+    marginTop: 10,
+    fontSize: 16,
+    color: '#666',
+  },
+  actionsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'flex-end',
+    marginBottom: 12,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    marginLeft: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#0066CC',
+    backgroundColor: 'white',
+  },
+  actionButtonText: {
+    color: '#0066CC',
+    fontSize: 14,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+  card: {
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 1,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  unreadCard: {
+    borderLeftWidth: 4,
+    borderLeftColor: '#0066CC',
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  cardTitle: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginLeft: 8,
+  },
+  unreadDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: '#d32f2f',
+  },
+  cardText: {
+    fontSize: 14,
+    color: '#333',
+    marginTop: 2,
+  },
+  cardMeta: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    paddingVertical: 16,
+  },
+});
@@ -28,6 +28,12 @@ export default function ProcedureIdLayout() {
           title: t('procedures.execute.title'),
         }}
       />
+      <Stack.Screen
+        name="versions"
+        options={{
+          title: t('procedures.versions.title'),
+        }}
+      />
     </Stack>
   );
 }
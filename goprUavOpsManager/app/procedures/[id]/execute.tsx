@@ -1,4 +1,4 @@
-import React, { useEffect, useState, useCallback } from 'react';
+import React, { useEffect, useState, useCallback, useRef } from 'react';
 import {
   View,
   Text,
@@ -18,18 +18,27 @@ import ImageZoom from 'react-native-image-pan-zoom';
 import { Image } from 'expo-image';
 import ImageViewer from '@/components/ImageViewer';
 import SubItemRenderer from '@/components/SubItemRenderer';
+import ExecutionLinkSelector from '@/components/ExecutionLinkSelector';
+import ControlOverrideModal from '@/components/ControlOverrideModal';
 import { ProcedureChecklist, ChecklistItem, ChecklistSubItem } from '@/types/ProcedureChecklist';
+import { ProcedureExecutionSubItemResult } from '@/types/ProcedureExecution';
 import { useAuth } from '@/contexts/AuthContext';
 import { ProcedureChecklistService } from '@/services/procedureChecklistService';
 import { OfflineProcedureChecklistService } from '@/services/offlineProcedureChecklistService';
 import { useCrossPlatformAlert } from '@/components/CrossPlatformAlert';
 import { AuditLogService } from '@/services/auditLogService';
+import { OfflineProcedureExecutionService } from '@/services/offlineProcedureExecutionService';
 import { UserService } from '@/services/userService';
 import { useNetworkStatus } from '@/utils/useNetworkStatus';
 import OfflineInfoBar from '@/components/OfflineInfoBar';
 import { ImageCacheService } from '@/utils/imageCache';
 import { useResponsiveLayout } from '@/utils/useResponsiveLayout';
 import { getAllSubItemIds, propagateSubItemDoneState } from '@/utils/checklistUtils';
+import {
+  buildProcedureExecutionResults,
+  getOutOfRangeResults,
+  ProcedureExecutionResults,
+} from '@/utils/procedureExecutionUtils';
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
 
@@ -39,7 +48,7 @@ export default function ProcedureExecuteScreen() {
   const [currentStep, setCurrentStep] = useState(0);
   const [isFromCache, setIsFromCache] = useState(false);
   const [cachedImageUri, setCachedImageUri] = useState<string>('');
-  const [executionStartTime] = useState<Date>(new Date());
+  const [executionStartTime, setExecutionStartTime] = useState<Date>(new Date());
   const [imageViewerVisible, setImageViewerVisible] = useState(false);
   // Expand-all toggle for sub-items of the current step
   const [allSubItemsExpanded, setAllSubItemsExpanded] = useState(false);
@@ -49,6 +58,17 @@ export default function ProcedureExecuteScreen() {
   const [completedItems, setCompletedItems] = useState<Set<string>>(new Set());
   // Completion tracking: flat set of completed sub-item ids (all nesting levels)
   const [completedSubItems, setCompletedSubItems] = useState<Set<string>>(new Set());
+  // Actual values recorded for control sub-items, by sub-item id
+  const [controlValues, setControlValues] = useState<Record<string, string>>({});
+  // Drone and flight the run is recorded for
+  const [droneId, setDroneId] = useState<string | undefined>(undefined);
+  const [flightId, setFlightId] = useState<string | undefined>(undefined);
+  const [finishing, setFinishing] = useState(false);
+  // Out-of-range control values waiting for an override note before the run can be finished
+  const [outOfRangeResults, setOutOfRangeResults] = useState<ProcedureExecutionSubItemResult[]>([]);
+  // Progress is saved on the device only after the resume/restart choice was made
+  const [progressReady, setProgressReady] = useState(false);
+  const resumeCheckedRef = useRef(false);
   const { id } = useLocalSearchParams<{ id: string }>();
   const { user } = useAuth();
   const { isConnected } = useNetworkStatus();
@@ -104,7 +124,7 @@ export default function ProcedureExecuteScreen() {
   const loadCachedImage = useCallback(async (imageUri: string) => {
     try {
       await ImageCacheService.initialize();
-      const cachedUri = await ImageCacheService.getCachedImage(imageUri);
+      const cachedUri = await ImageCacheService.getCachedImage(imageUri, 'procedures');
       setCachedImageUri(cachedUri);
     } catch (error) {
       console.error('Error loading cached image:', error);
@@ -147,6 +167,81 @@ export default function ProcedureExecuteScreen() {
     }
   }, [user, checklist]);
 
+  // Offer to resume a run of this procedure left unfinished, e.g. when the app was closed
+  useEffect(() => {
+    if (!user || !checklist || resumeCheckedRef.current) return;
+    resumeCheckedRef.current = true;
+
+    OfflineProcedureExecutionService.getProgress(user.uid, checklist.id).then(saved => {
+      if (!saved) {
+        setProgressReady(true);
+        return;
+      }
+
+      crossPlatformAlert.showAlert({
+        title: t('procedures.execution.resumeTitle'),
+        message: t('procedures.execution.resumeMessage', {
+          date: saved.savedAt.toLocaleDateString(),
+          time: saved.savedAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
+        }),
+        buttons: [
+          {
+            text: t('procedures.execution.restart'),
+            style: 'destructive',
+            onPress: async () => {
+              await OfflineProcedureExecutionService.clearProgress(user.uid, checklist.id);
+              setOutOfRangeResults([]);
+              setProgressReady(true);
+            },
+          },
+          {
+            text: t('procedures.execution.resume'),
+            onPress: () => {
+              setCurrentStep(Math.min(saved.currentStep, Math.max(checklist.items.length - 1, 0)));
+              setCompletedItems(new Set(saved.completedItemIds));
+              setCompletedSubItems(new Set(saved.completedSubItemIds));
+              setControlValues(saved.controlValues);
+              setDroneId(saved.droneId);
+              setFlightId(saved.flightId);
+              setExecutionStartTime(saved.startedAt);
+              setProgressReady(true);
+            },
+          },
+        ],
+      });
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user, checklist]); // asked once per screen, t and the alert helper are stable
+
+  // Keep the in-progress run on the device so it survives app restarts
+  useEffect(() => {
+    if (!user || !checklist || !progressReady) return;
+
+    OfflineProcedureExecutionService.saveProgress({
+      procedureId: checklist.id,
+      userId: user.uid,
+      currentStep,
+      completedItemIds: [...completedItems],
+      completedSubItemIds: [...completedSubItems],
+      controlValues,
+      droneId,
+      flightId,
+      startedAt: executionStartTime,
+      savedAt: new Date(),
+    });
+  }, [
+    user,
+    checklist,
+    progressReady,
+    currentStep,
+    completedItems,
+    completedSubItems,
+    controlValues,
+    droneId,
+    flightId,
+    executionStartTime,
+  ]);
+
   // Load cached image when step changes
   useEffect(() => {
     if (checklist && checklist.items[currentStep]?.image) {
@@ -184,34 +279,69 @@ export default function ProcedureExecuteScreen() {
     }
   };
 
-  const handleFinish = async () => {
-    if (!user || !checklist) return;
+  const handleFinish = () => {
+    if (!user || !checklist || finishing) return;
+
+    // Out-of-range control values block finishing until the operator overrides them with a note
+    const results = buildProcedureExecutionResults(checklist, completedItems, completedSubItems, controlValues);
+    const outOfRange = getOutOfRangeResults(results.subItems);
+    if (outOfRange.length > 0) {
+      setOutOfRangeResults(outOfRange);
+      return;
+    }
+
+    finishExecution(results);
+  };
+
+  const handleOverride = (overrideNote: string) => {
+    if (!checklist) return;
+
+    const results = buildProcedureExecutionResults(checklist, completedItems, completedSubItems, controlValues);
+    finishExecution({ ...results, overrideNote });
+  };
+
+  const finishExecution = async (results: ProcedureExecutionResults) => {
+    if (!user || !checklist || finishing) return;
 
     try {
-      const userEmail = await UserService.getUserEmail(user.uid);
-      const executionDuration = Math.floor((new Date().getTime() - executionStartTime.getTime()) / 1000);
-      
-      await AuditLogService.createAuditLog({
-        entityType: 'procedureChecklist',
-        entityId: checklist.id,
-        action: 'execute_finish',
+      setFinishing(true);
+      // Stop saving progress: the run is either uploaded or queued from here on
+      setProgressReady(false);
+      const { queued } = await OfflineProcedureExecutionService.finishExecution({
+        procedure: {
+          id: checklist.id,
+          title: checklist.title,
+          version: checklist.version,
+          updatedAt: checklist.updatedAt,
+        },
         userId: user.uid,
-        userEmail,
-        details: `Completed executing procedure: ${checklist.title} (Duration: ${executionDuration}s)`,
+        userEmail: user.email,
+        links: { droneId, flightId },
+        startedAt: executionStartTime,
+        finishedAt: new Date(),
+        ...results,
       });
+      await OfflineProcedureExecutionService.clearProgress(user.uid, checklist.id);
+      setOutOfRangeResults([]);
 
       crossPlatformAlert.showAlert({
         title: t('common.success'),
-        message: t('procedures.execute.completed'),
+        message: queued ? t('procedures.execution.savedOffline') : t('procedures.execute.completed'),
         buttons: [{ text: 'OK', onPress: () => router.back() }]
       });
     } catch (error) {
-      console.error('Error logging procedure execution finish:', error);
-      // Still navigate back even if logging fails
+      console.error('Error recording procedure execution:', error);
+      // Still navigate back even if saving the run fails
       router.back();
+    } finally {
+      setFinishing(false);
     }
   };
 
+  const handleControlValueChange = useCallback((subItem: ChecklistSubItem, value: string) => {
+    setControlValues(prev => ({ ...prev, [subItem.id]: value }));
+  }, []);
+
 
   /**
    * Toggle done state for a top-level checklist item.
@@ -339,6 +469,17 @@ export default function ProcedureExecuteScreen() {
         </View>
       </View>
 
+      {user && (
+        <ExecutionLinkSelector
+          currentUserId={user.uid}
+          currentUserRole={user.role}
+          droneId={droneId}
+          flightId={flightId}
+          onDroneChange={setDroneId}
+          onFlightChange={setFlightId}
+        />
+      )}
+
       {/* Main content area */}
       <ScrollView 
         style={styles.content}
@@ -457,6 +598,8 @@ export default function ProcedureExecuteScreen() {
                   forceExpanded={allSubItemsExpanded}
                   completedSubItemIds={completedSubItems}
                   onToggleSubItemDone={(subItem) => handleToggleSubItemDone(currentItem, subItem)}
+                  controlValues={controlValues}
+                  onControlValueChange={handleControlValueChange}
                 />
               ))}
             </View>
@@ -543,6 +686,14 @@ export default function ProcedureExecuteScreen() {
         )}
       </View>
 
+      <ControlOverrideModal
+        visible={outOfRangeResults.length > 0}
+        outOfRange={outOfRangeResults}
+        finishing={finishing}
+        onClose={() => setOutOfRangeResults([])}
+        onOverride={handleOverride}
+      />
+
       {/* Image Viewer Modal – shown when imageViewerVisible is true;
            viewerImageUri holds either the main step image or a sub-item image */}
       {imageViewerVisible && viewerImageUri ? (
@@ -554,6 +705,7 @@ export default function ProcedureExecuteScreen() {
             setImageViewerVisible(false);
             setViewerImageUri('');
           }}
+          cacheNamespace="procedures"
         />
       ) : null}
     </SafeAreaView>
@@ -140,7 +140,7 @@ export default function ProcedureDetailsScreen() {
           subItems.map(async (subItem) => {
             if (subItem.image) {
               try {
-                const cachedUri = await ImageCacheService.getCachedImage(subItem.image);
+                const cachedUri = await ImageCacheService.getCachedImage(subItem.image, 'procedures');
                 newCachedUris.set(subItem.image, cachedUri);
               } catch {
                 newCachedUris.set(subItem.image, subItem.image);
@@ -156,7 +156,7 @@ export default function ProcedureDetailsScreen() {
         procedure.items.map(async (item) => {
           if (item.image) {
             try {
-              const cachedUri = await ImageCacheService.getCachedImage(item.image);
+              const cachedUri = await ImageCacheService.getCachedImage(item.image, 'procedures');
               newCachedUris.set(item.image, cachedUri);
             } catch (error) {
               console.error(`Error loading cached image for item ${item.id}:`, error);
@@ -488,6 +488,11 @@ export default function ProcedureDetailsScreen() {
                 <Text style={styles.metadataText}>
                   {checklist.items.length} {checklist.items.length === 1 ? t('procedures.items') : t('procedures.itemsPlural')}
                 </Text>
+                {checklist.version ? (
+                  <Text style={styles.metadataText}>
+                    {t('procedures.versions.versionLabel', { version: checklist.version })}
+                  </Text>
+                ) : null}
                 {checklist.createdAt ? (
                   <Text style={styles.metadataText}>
                     {t('procedures.created')} {checklist.createdAt.toLocaleDateString()} {checklist.createdAt.toLocaleTimeString()}
@@ -529,6 +534,24 @@ export default function ProcedureDetailsScreen() {
                   {t('procedures.execute.button')}
                 </Text>
               </TouchableOpacity>
+
+              {checklist.version ? (
+                <TouchableOpacity
+                  style={[
+                    styles.historyButton,
+                    responsive.isDesktop && {
+                      paddingHorizontal: 24,
+                      paddingVertical: 12,
+                    }
+                  ]}
+                  onPress={() => router.push(`/procedures/${checklist.id}/versions`)}
+                >
+                  <Ionicons name="git-compare-outline" size={20} color="#0066CC" />
+                  <Text style={styles.historyButtonText}>
+                    {t('procedures.versions.button')}
+                  </Text>
+                </TouchableOpacity>
+              ) : null}
             </View>
           )}
 
@@ -612,6 +635,7 @@ export default function ProcedureDetailsScreen() {
         visible={imageViewerVisible}
         onRequestClose={() => setImageViewerVisible(false)}
         onImageIndexChange={setImageIndex}
+        cacheNamespace="procedures"
       />
     </SafeAreaView>
   );
@@ -730,6 +754,21 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     marginLeft: 4,
   },
+  historyButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#0066CC',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 6,
+    marginRight: 8,
+  },
+  historyButtonText: {
+    color: '#0066CC',
+    fontWeight: '600',
+    marginLeft: 4,
+  },
   editButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -0,0 +1,319 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  ActivityIndicator,
+  TouchableOpacity,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useTranslation } from 'react-i18next';
+import { Ionicons } from '@expo/vector-icons';
+import { ProcedureVersion } from '@/types/ProcedureChecklist';
+import { useAuth } from '@/contexts/AuthContext';
+import { ProcedureChecklistService } from '@/services/procedureChecklistService';
+import { useResponsiveLayout } from '@/utils/useResponsiveLayout';
+import { formatChange } from '@/utils/deepDiff';
+import {
+  diffProcedureVersions,
+  countProcedureChanges,
+  ProcedureNodeDiff,
+  ProcedureNodeChangeKind,
+} from '@/utils/procedureVersionDiff';
+
+const KIND_COLORS: Record<ProcedureNodeChangeKind, string> = {
+  added: '#4CAF50',
+  removed: '#F44336',
+  changed: '#FF9800',
+  moved: '#0066CC',
+};
+
+export default function ProcedureVersionsScreen() {
+  const { id, version } = useLocalSearchParams<{ id: string; version?: string }>();
+  const { user } = useAuth();
+  const router = useRouter();
+  const { t } = useTranslation('common');
+  const responsive = useResponsiveLayout();
+  const [versions, setVersions] = useState<ProcedureVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState(false);
+  const [fromVersion, setFromVersion] = useState<number | null>(null);
+  const [toVersion, setToVersion] = useState<number | null>(null);
+
+  // Authentication check - redirect if not logged in
+  useEffect(() => {
+    if (!user) {
+      router.replace('/');
+    }
+  }, [user, router]);
+
+  useEffect(() => {
+    if (!id || !user) return;
+
+    const fetchVersions = async () => {
+      try {
+        const fetchedVersions = await ProcedureChecklistService.getProcedureVersions(id);
+        setVersions(fetchedVersions);
+
+        // Compare the requested (or latest) version with the one before it
+        const requested = Number(version);
+        const target = fetchedVersions.find(v => v.version === requested) || fetchedVersions[0];
+        if (target) {
+          const previous = fetchedVersions.find(v => v.version < target.version);
+          setToVersion(target.version);
+          setFromVersion(previous ? previous.version : target.version);
+        }
+      } catch (fetchError) {
+        console.error('Error fetching procedure versions:', fetchError);
+        setError(true);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchVersions();
+  }, [id, user, version]);
+
+  const from = versions.find(v => v.version === fromVersion);
+  const to = versions.find(v => v.version === toVersion);
+  const diff = useMemo(() => (from && to ? diffProcedureVersions(from, to) : null), [from, to]);
+
+  const renderNode = (node: ProcedureNodeDiff, depth: number) => (
+    <View key={node.id} style={[styles.node, { marginLeft: depth * 16, borderLeftColor: KIND_COLORS[node.kind] }]}>
+      <View style={styles.nodeHeader}>
+        <Text style={[styles.kindBadge, { backgroundColor: KIND_COLORS[node.kind] }]}>
+          {t(`procedures.versions.kinds.${node.kind}`)}
+        </Text>
+        <Text style={styles.nodeTopic}>{node.topic}</Text>
+      </View>
+      {node.changes.map(change => (
+        <Text key={change.path} style={styles.changeText}>{formatChange(change)}</Text>
+      ))}
+      {node.subItems.map(subItem => renderNode(subItem, depth + 1))}
+    </View>
+  );
+
+  const renderVersionChips = (selected: number | null, onSelect: (value: number) => void) => (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chipRow}>
+      {[...versions].reverse().map(v => (
+        <TouchableOpacity
+          key={v.version}
+          style={[styles.chip, selected === v.version && styles.chipActive]}
+          onPress={() => onSelect(v.version)}
+        >
+          <Text style={[styles.chipText, selected === v.version && styles.chipTextActive]}>
+            {t('procedures.versions.versionLabel', { version: v.version })}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </ScrollView>
+  );
+
+  if (loading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color="#0066CC" />
+      </View>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <ScrollView
+        contentContainerStyle={[
+          styles.content,
+          responsive.isDesktop && { alignSelf: 'center', width: '100%', maxWidth: responsive.maxContentWidth }
+        ]}
+      >
+        {error ? (
+          <Text style={styles.emptyText}>{t('procedures.versions.loadError')}</Text>
+        ) : versions.length === 0 ? (
+          <Text style={styles.emptyText}>{t('procedures.versions.empty')}</Text>
+        ) : (
+          <>
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>{t('procedures.versions.history')}</Text>
+              {versions.map(v => (
+                <View key={v.version} style={styles.versionRow}>
+                  <Text style={styles.versionNumber}>
+                    {t('procedures.versions.versionLabel', { version: v.version })}
+                  </Text>
+                  <View style={styles.versionInfo}>
+                    {v.createdAt ? (
+                      <Text style={styles.versionDate}>
+                        {v.createdAt.toLocaleDateString()} {v.createdAt.toLocaleTimeString()}
+                      </Text>
+                    ) : null}
+                    <Text style={styles.versionNote}>{v.changeNote || t('procedures.versions.noChangeNote')}</Text>
+                  </View>
+                </View>
+              ))}
+            </View>
+
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>{t('procedures.versions.compare')}</Text>
+              <Text style={styles.label}>{t('procedures.versions.from')}</Text>
+              {renderVersionChips(fromVersion, setFromVersion)}
+              <Text style={styles.label}>{t('procedures.versions.to')}</Text>
+              {renderVersionChips(toVersion, setToVersion)}
+            </View>
+
+            {diff && (
+              <View style={styles.section}>
+                {countProcedureChanges(diff) === 0 ? (
+                  <View style={styles.noChanges}>
+                    <Ionicons name="checkmark-circle-outline" size={20} color="#4CAF50" />
+                    <Text style={styles.noChangesText}>{t('procedures.versions.noChanges')}</Text>
+                  </View>
+                ) : (
+                  <>
+                    <Text style={styles.summaryText}>
+                      {t('procedures.versions.changeCount', { changes: countProcedureChanges(diff) })}
+                    </Text>
+                    {diff.changes.map(change => (
+                      <Text key={change.path} style={styles.changeText}>{formatChange(change)}</Text>
+                    ))}
+                    {diff.items.map(item => renderNode(item, 0))}
+                  </>
+                )}
+              </View>
+            )}
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    padding: 16,
+  },
+  section: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#0066CC',
+    marginBottom: 10,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 40,
+  },
+  versionRow: {
+    flexDirection: 'row',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  versionNumber: {
+    width: 48,
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  versionInfo: {
+    flex: 1,
+  },
+  versionDate: {
+    fontSize: 13,
+    color: '#666',
+  },
+  versionNote: {
+    fontSize: 14,
+    color: '#333',
+    marginTop: 2,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 6,
+  },
+  chipRow: {
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: '#f8f9fa',
+    marginRight: 8,
+  },
+  chipActive: {
+    borderColor: '#0066CC',
+    backgroundColor: '#0066CC',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#333',
+  },
+  chipTextActive: {
+    color: '#fff',
+  },
+  noChanges: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  noChangesText: {
+    fontSize: 15,
+    color: '#333',
+  },
+  summaryText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  node: {
+    borderLeftWidth: 3,
+    paddingLeft: 10,
+    marginTop: 8,
+  },
+  nodeHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  kindBadge: {
+    color: '#fff',
+    fontSize: 11,
+    fontWeight: 'bold',
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 4,
+    overflow: 'hidden',
+  },
+  nodeTopic: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  changeText: {
+    fontSize: 13,
+    color: '#555',
+    marginTop: 4,
+  },
+});
@@ -0,0 +1,381 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { Picker } from '@react-native-picker/picker';
+import { useAuth } from '@/contexts/AuthContext';
+import { Drone } from '@/types/Drone';
+import { DroneClaim } from '@/types/DroneClaim';
+import { DroneReservation } from '@/types/DroneReservation';
+import { DroneService } from '@/services/droneService';
+import { DroneClaimService } from '@/services/droneClaimService';
+import { DroneReservationService } from '@/services/droneReservationService';
+import { useCrossPlatformAlert } from '@/components/CrossPlatformAlert';
+import OfflineInfoBar from '@/components/OfflineInfoBar';
+import { useNetworkStatus } from '@/utils/useNetworkStatus';
+import { useResponsiveLayout } from '@/utils/useResponsiveLayout';
+import {
+  RESERVATION_STATUS_COLORS,
+  getReservationsForDay,
+  getWeekDays,
+  getWeekStart,
+} from '@/utils/reservationUtils';
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+const formatTime = (date: Date) => date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+export default function ReservationsScreen() {
+  const { user } = useAuth();
+  const { t } = useTranslation('common');
+  const router = useRouter();
+  const { droneId: initialDroneId } = useLocalSearchParams<{ droneId?: string }>();
+  const crossPlatformAlert = useCrossPlatformAlert();
+  const { isConnected } = useNetworkStatus();
+  const responsive = useResponsiveLayout();
+
+  const [weekStart, setWeekStart] = useState(() => getWeekStart(new Date()));
+  const [droneFilter, setDroneFilter] = useState(initialDroneId || '');
+  const [drones, setDrones] = useState<Drone[]>([]);
+  const [reservations, setReservations] = useState<DroneReservation[]>([]);
+  const [activeClaims, setActiveClaims] = useState<DroneClaim[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  useEffect(() => {
+    setDroneFilter(initialDroneId || '');
+  }, [initialDroneId]);
+
+  const loadCalendar = useCallback(async (start: Date, showLoadingIndicator = true) => {
+    if (!user) return;
+
+    if (showLoadingIndicator) {
+      setLoading(true);
+    }
+
+    try {
+      const [fleet, weekReservations, claims] = await Promise.all([
+        DroneService.getDrones(user.role),
+        DroneReservationService.getFleetReservations(start, new Date(start.getTime() + WEEK_MS)),
+        DroneClaimService.getClaims({ active: true }),
+      ]);
+      setDrones(fleet.filter(drone => drone.shareable && !drone.isDeleted));
+      setReservations(weekReservations);
+      setActiveClaims(claims);
+    } catch (error) {
+      console.error('Error loading reservations:', error);
+      crossPlatformAlert.showAlert({ title: t('common.error'), message: t('reservations.errors.loadFailed') });
+    } finally {
+      if (showLoadingIndicator) {
+        setLoading(false);
+      }
+      setRefreshing(false);
+    }
+  }, [user, t, crossPlatformAlert]);
+
+  useEffect(() => {
+    loadCalendar(weekStart);
+  }, [loadCalendar, weekStart]);
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    loadCalendar(weekStart, false);
+  };
+
+  const shiftWeek = (weeks: number) => {
+    setWeekStart(prev => {
+      const next = new Date(prev);
+      next.setDate(next.getDate() + weeks * 7);
+      return next;
+    });
+  };
+
+  const droneNames = useMemo(
+    () => Object.fromEntries(drones.map(drone => [drone.id, DroneService.formatDroneName(drone)])),
+    [drones]
+  );
+
+  const visibleReservations = droneFilter
+    ? reservations.filter(reservation => reservation.droneId === droneFilter)
+    : reservations;
+  const visibleClaims = (droneFilter
+    ? activeClaims.filter(claim => claim.droneId === droneFilter)
+    : activeClaims
+  ).filter(claim => droneNames[claim.droneId]);
+
+  const weekDays = getWeekDays(weekStart);
+  const weekEnd = weekDays[weekDays.length - 1];
+  const today = new Date().toDateString();
+
+  const renderReservation = (reservation: DroneReservation) => (
+    <TouchableOpacity
+      key={reservation.id}
+      style={[styles.reservationRow, { borderLeftColor: RESERVATION_STATUS_COLORS[reservation.status] }]}
+      onPress={() => router.push(`/drones/${reservation.droneId}`)}
+    >
+      <View style={styles.reservationMain}>
+        <Text style={styles.reservationTime}>
+          {formatTime(reservation.startTime)} – {formatTime(reservation.endTime)}
+        </Text>
+        <Text style={styles.reservationDrone}>{droneNames[reservation.droneId] || reservation.droneId}</Text>
+        <Text style={styles.reservationOwner}>
+          {reservation.userEmail}
+          {reservation.purpose ? ` · ${reservation.purpose}` : ''}
+        </Text>
+      </View>
+      <View style={[styles.statusBadge, { backgroundColor: RESERVATION_STATUS_COLORS[reservation.status] }]}>
+        <Text style={styles.statusBadgeText}>{t(`reservations.statuses.${reservation.status}`)}</Text>
+      </View>
+    </TouchableOpacity>
+  );
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#0066CC" />
+        <Text style={styles.loadingText}>{t('common.loading')}</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <OfflineInfoBar
+        visible={!isConnected}
+        message={t('offline.noConnection')}
+      />
+
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+      >
+        <View style={[
+          styles.contentWrapper,
+          responsive.isDesktop && {
+            maxWidth: responsive.maxContentWidth,
+            width: '100%',
+            alignSelf: 'center',
+          }
+        ]}>
+          <View style={styles.card}>
+            <View style={styles.weekNavigation}>
+              <TouchableOpacity style={styles.weekButton} onPress={() => shiftWeek(-1)}>
+                <Ionicons name="chevron-back" size={20} color="#0066CC" />
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => setWeekStart(getWeekStart(new Date()))}>
+                <Text style={styles.weekLabel}>
+                  {weekStart.toLocaleDateString()} – {weekEnd.toLocaleDateString()}
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.weekButton} onPress={() => shiftWeek(1)}>
+                <Ionicons name="chevron-forward" size={20} color="#0066CC" />
+              </TouchableOpacity>
+            </View>
+
+            <Text style={styles.filterLabel}>{t('reservations.drone')}</Text>
+            <View style={styles.pickerContainer}>
+              <Picker
+                selectedValue={droneFilter}
+                style={styles.picker}
+                onValueChange={(value) => setDroneFilter(value)}
+              >
+                <Picker.Item label={t('reservations.allDrones')} value="" />
+                {drones.map(drone => (
+                  <Picker.Item key={drone.id} label={droneNames[drone.id]} value={drone.id} />
+                ))}
+              </Picker>
+            </View>
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.sectionTitle}>{t('reservations.currentlyClaimedTitle')}</Text>
+            {visibleClaims.length === 0 ? (
+              <Text style={styles.emptyText}>{t('reservations.noActiveClaims')}</Text>
+            ) : visibleClaims.map(claim => (
+              <TouchableOpacity
+                key={claim.id}
+                style={styles.claimRow}
+                onPress={() => router.push(`/drones/${claim.droneId}`)}
+              >
+                <Ionicons name="hand-left-outline" size={16} color="#FF9800" />
+                <Text style={styles.claimText}>
+                  {droneNames[claim.droneId]} · {claim.userEmail} · {t('reservations.since', {
+                    time: `${claim.startTime.toLocaleDateString()} ${formatTime(claim.startTime)}`
+                  })}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {weekDays.map(day => {
+            const dayReservations = getReservationsForDay(visibleReservations, day);
+            const isToday = day.toDateString() === today;
+
+            return (
+              <View key={day.toISOString()} style={[styles.card, isToday && styles.todayCard]}>
+                <Text style={[styles.dayTitle, isToday && styles.todayTitle]}>
+                  {day.toLocaleDateString(undefined, { weekday: 'long', day: 'numeric', month: 'long' })}
+                </Text>
+                {dayReservations.length === 0 ? (
+                  <Text style={styles.dayEmpty}>{t('reservations.noReservationsDay')}</Text>
+                ) : dayReservations.map(renderReservation)}
+              </View>
+            );
+          })}
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  contentWrapper: {
+    width: '100%',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+  },
+  loadingText: {
+    marginTop: 10,
+    fontSize: 16,
+    color: '#666',
+  },
+  card: {
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 1,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  todayCard: {
+    borderWidth: 1,
+    borderColor: '#0066CC',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 12,
+  },
+  weekNavigation: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  weekButton: {
+    padding: 8,
+  },
+  weekLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  filterLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  pickerContainer: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    backgroundColor: '#f9f9f9',
+  },
+  picker: {
+    height: 50,
+  },
+  claimRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 6,
+  },
+  claimText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#333',
+  },
+  dayTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  todayTitle: {
+    color: '#0066CC',
+  },
+  dayEmpty: {
+    fontSize: 14,
+    color: '#999',
+  },
+  reservationRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 8,
+    paddingLeft: 10,
+    borderLeftWidth: 4,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  reservationMain: {
+    flex: 1,
+  },
+  reservationTime: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  reservationDrone: {
+    fontSize: 14,
+    color: '#0066CC',
+    marginTop: 2,
+  },
+  reservationOwner: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+  },
+  statusBadgeText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '500',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666',
+  },
+});
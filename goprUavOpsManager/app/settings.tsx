@@ -0,0 +1,294 @@
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { useFocusEffect } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { ImageCacheService } from '@/utils/imageCache';
+import { IMAGE_CACHE_NAMESPACES } from '@/utils/imageCacheUtils';
+import { MapTileCacheService } from '@/utils/mapTileCache';
+import { ImageCacheNamespace, ImageCacheStats } from '@/types/ImageCache';
+import { useCrossPlatformAlert } from '@/components/CrossPlatformAlert';
+import { useResponsiveLayout } from '@/utils/useResponsiveLayout';
+
+const toMegabytes = (bytes: number) => (bytes / (1024 * 1024)).toFixed(1);
+
+const NAMESPACE_ICONS: Record<ImageCacheNamespace, keyof typeof Ionicons.glyphMap> = {
+  procedures: 'clipboard-outline',
+  equipment: 'cube-outline',
+  comments: 'chatbubbles-outline',
+  other: 'images-outline',
+};
+
+export default function SettingsScreen() {
+  const { t } = useTranslation('common');
+  const crossPlatformAlert = useCrossPlatformAlert();
+  const responsive = useResponsiveLayout();
+
+  const [imageStats, setImageStats] = useState<ImageCacheStats | null>(null);
+  const [mapStats, setMapStats] = useState<{ size: number; tileCount: number; areaCount: number } | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [purging, setPurging] = useState<ImageCacheNamespace | 'maps' | null>(null);
+
+  const loadStats = useCallback(async () => {
+    try {
+      const [images, maps] = await Promise.all([
+        ImageCacheService.getCacheStats(),
+        MapTileCacheService.isSupported() ? MapTileCacheService.getCacheStats() : Promise.resolve(null),
+      ]);
+      setImageStats(images);
+      setMapStats(maps);
+    } catch (error) {
+      console.error('Error loading storage usage:', error);
+      crossPlatformAlert.showAlert({ title: t('common.error'), message: t('settings.storage.loadFailed') });
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [t, crossPlatformAlert]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadStats();
+    }, [loadStats])
+  );
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    loadStats();
+  };
+
+  const handlePurgeNamespace = (namespace: ImageCacheNamespace) => {
+    crossPlatformAlert.showAlert({
+      title: t('settings.storage.purge'),
+      message: t('settings.storage.purgeConfirm', { namespace: t(`settings.storage.namespaces.${namespace}`) }),
+      buttons: [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('settings.storage.purge'),
+          style: 'destructive',
+          onPress: async () => {
+            setPurging(namespace);
+            try {
+              const removed = await ImageCacheService.purgeNamespace(namespace);
+              crossPlatformAlert.showAlert({
+                title: t('common.success'),
+                message: t('settings.storage.purged', { count: removed }),
+              });
+            } finally {
+              setPurging(null);
+              loadStats();
+            }
+          },
+        },
+      ],
+    });
+  };
+
+  const handleClearMaps = () => {
+    crossPlatformAlert.showAlert({
+      title: t('settings.storage.clearMaps'),
+      message: t('settings.storage.clearMapsConfirm'),
+      buttons: [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('settings.storage.clearMaps'),
+          style: 'destructive',
+          onPress: async () => {
+            setPurging('maps');
+            try {
+              await MapTileCacheService.clearCache();
+            } finally {
+              setPurging(null);
+              loadStats();
+            }
+          },
+        },
+      ],
+    });
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#0066CC" />
+        <Text style={styles.loadingText}>{t('common.loading')}</Text>
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={[
+        styles.content,
+        responsive.isDesktop && {
+          maxWidth: responsive.maxContentWidth,
+          width: '100%',
+          alignSelf: 'center',
+        }
+      ]}
+      refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+    >
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>{t('settings.storage.images')}</Text>
+        <Text style={styles.hint}>{t('settings.storage.imagesHint')}</Text>
+        <Text style={styles.total}>
+          {t('settings.storage.usage', { size: toMegabytes(imageStats?.size || 0), count: imageStats?.count || 0 })}
+        </Text>
+
+        {imageStats && IMAGE_CACHE_NAMESPACES.map(namespace => {
+          const usage = imageStats.namespaces[namespace];
+          const purgeable = usage.count - usage.pinnedCount;
+
+          return (
+            <View key={namespace} style={styles.row}>
+              <Ionicons name={NAMESPACE_ICONS[namespace]} size={20} color="#666" />
+              <View style={styles.rowText}>
+                <Text style={styles.rowTitle}>{t(`settings.storage.namespaces.${namespace}`)}</Text>
+                <Text style={styles.rowMeta}>
+                  {t('settings.storage.usage', { size: toMegabytes(usage.size), count: usage.count })}
+                </Text>
+                {usage.pinnedCount > 0 ? (
+                  <Text style={styles.rowMeta}>
+                    {t('settings.storage.pinned', { size: toMegabytes(usage.pinnedSize), count: usage.pinnedCount })}
+                  </Text>
+                ) : null}
+              </View>
+              <TouchableOpacity
+                style={[styles.purgeButton, (purgeable === 0 || purging !== null) && styles.disabledButton]}
+                onPress={() => handlePurgeNamespace(namespace)}
+                disabled={purgeable === 0 || purging !== null}
+              >
+                {purging === namespace ? (
+                  <ActivityIndicator size="small" color="#d32f2f" />
+                ) : (
+                  <Text style={styles.purgeButtonText}>{t('settings.storage.purge')}</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          );
+        })}
+      </View>
+
+      {mapStats ? (
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>{t('settings.storage.maps')}</Text>
+          <View style={styles.row}>
+            <Ionicons name="map-outline" size={20} color="#666" />
+            <View style={styles.rowText}>
+              <Text style={styles.rowMeta}>
+                {t('settings.storage.mapsUsage', {
+                  size: toMegabytes(mapStats.size),
+                  tiles: mapStats.tileCount,
+                  areas: mapStats.areaCount,
+                })}
+              </Text>
+            </View>
+            <TouchableOpacity
+              style={[styles.purgeButton, (mapStats.tileCount === 0 || purging !== null) && styles.disabledButton]}
+              onPress={handleClearMaps}
+              disabled={mapStats.tileCount === 0 || purging !== null}
+            >
+              {purging === 'maps' ? (
+                <ActivityIndicator size="small" color="#d32f2f" />
+              ) : (
+                <Text style={styles.purgeButtonText}>{t('settings.storage.clearMaps')}</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      ) : null}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  content: {
+    padding: 16,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+  },
+  loadingText: {
+    marginTop: 10,
+    fontSize: 16,
+    color: '#666',
+  },
+  card: {
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 16,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 4,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#666',
+  },
+  total: {
+    fontSize: 14,
+    color: '#333',
+    marginTop: 8,
+    marginBottom: 4,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#eee',
+  },
+  rowText: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  rowTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  rowMeta: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  purgeButton: {
+    minWidth: 80,
+    alignItems: 'center',
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#d32f2f',
+    backgroundColor: 'white',
+  },
+  purgeButtonText: {
+    color: '#d32f2f',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  disabledButton: {
+    opacity: 0.4,
+  },
+});
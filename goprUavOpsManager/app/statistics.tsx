@@ -0,0 +1,513 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { Ionicons } from '@expo/vector-icons';
+import { useAuth } from '@/contexts/AuthContext';
+import { FlightStatisticsService } from '@/services/flightStatisticsService';
+import { FlightStatistics, FlightStatisticsDimension, FlightStatisticsGroup } from '@/types/Flight';
+import { useCrossPlatformAlert } from '@/components/CrossPlatformAlert';
+import WebCompatibleDatePicker from '@/components/WebCompatibleDatePicker';
+import OfflineInfoBar from '@/components/OfflineInfoBar';
+import { useNetworkStatus } from '@/utils/useNetworkStatus';
+import { useResponsiveLayout } from '@/utils/useResponsiveLayout';
+import { formatLogbookMinutes } from '@/utils/logbookUtils';
+
+const toDateInput = (date: Date): string => date.toLocaleDateString('en-CA'); // local YYYY-MM-DD
+
+// Default range covers the current year, matching the yearly section report
+const getCurrentYearRange = () => {
+  const now = new Date();
+  return {
+    start: `${now.getFullYear()}-01-01`,
+    end: toDateInput(now),
+  };
+};
+
+const getPreviousYearRange = () => {
+  const year = new Date().getFullYear() - 1;
+  return {
+    start: `${year}-01-01`,
+    end: `${year}-12-31`,
+  };
+};
+
+export default function StatisticsScreen() {
+  const { user } = useAuth();
+  const { t } = useTranslation('common');
+  const crossPlatformAlert = useCrossPlatformAlert();
+  const { isConnected } = useNetworkStatus();
+  const responsive = useResponsiveLayout();
+
+  const [statistics, setStatistics] = useState<FlightStatistics | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [startDateInput, setStartDateInput] = useState(getCurrentYearRange().start);
+  const [endDateInput, setEndDateInput] = useState(getCurrentYearRange().end);
+  const [dimension, setDimension] = useState<FlightStatisticsDimension>('operationType');
+  const [expandedGroup, setExpandedGroup] = useState<string | null>(null);
+
+  const canViewAllPilots = !!user && FlightStatisticsService.canViewAllPilots(user.role);
+
+  const dimensions: { key: FlightStatisticsDimension; label: string }[] = [
+    { key: 'operationType', label: t('statistics.dimensions.operationType') },
+    { key: 'activityType', label: t('statistics.dimensions.activityType') },
+    { key: 'drone', label: t('statistics.dimensions.drone') },
+    ...(canViewAllPilots ? [{ key: 'pilot' as FlightStatisticsDimension, label: t('statistics.dimensions.pilot') }] : []),
+  ];
+
+  const loadStatistics = useCallback(async (start: string, end: string, showLoadingIndicator = true) => {
+    if (!user) return;
+
+    if (showLoadingIndicator) {
+      setLoading(true);
+    }
+
+    try {
+      const result = await FlightStatisticsService.getFlightStatistics(user.role, user.uid, {
+        startDate: start ? new Date(start) : undefined,
+        endDate: end ? new Date(end) : undefined,
+      });
+      setStatistics(result);
+    } catch (error) {
+      console.error('Error loading flight statistics:', error);
+      crossPlatformAlert.showAlert({ title: t('common.error'), message: t('statistics.errors.loadFailed') });
+    } finally {
+      if (showLoadingIndicator) {
+        setLoading(false);
+      }
+      setRefreshing(false);
+    }
+  }, [user, t, crossPlatformAlert]);
+
+  useEffect(() => {
+    const range = getCurrentYearRange();
+    loadStatistics(range.start, range.end);
+  }, [loadStatistics]);
+
+  const applyRange = (start: string, end: string) => {
+    setStartDateInput(start);
+    setEndDateInput(end);
+    setExpandedGroup(null);
+    loadStatistics(start, end);
+  };
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    loadStatistics(startDateInput, endDateInput, false);
+  };
+
+  const formatHours = (minutes: number) => `${formatLogbookMinutes(minutes)} h`;
+
+  const formatMonth = (month: string) => {
+    const [year, monthNumber] = month.split('-').map(Number);
+    return new Date(year, monthNumber - 1, 1).toLocaleDateString(undefined, { month: 'short', year: 'numeric' });
+  };
+
+  const renderRangeControls = () => (
+    <View style={styles.card}>
+      <Text style={styles.sectionTitle}>{t('statistics.dateRange')}</Text>
+      <View style={responsive.isDesktop ? styles.rangeRowDesktop : undefined}>
+        <View style={styles.rangeField}>
+          <WebCompatibleDatePicker
+            label={t('filters.startDate')}
+            value={startDateInput}
+            onDateChange={setStartDateInput}
+            placeholder="YYYY-MM-DD"
+          />
+        </View>
+        <View style={styles.rangeField}>
+          <WebCompatibleDatePicker
+            label={t('filters.endDate')}
+            value={endDateInput}
+            onDateChange={setEndDateInput}
+            placeholder="YYYY-MM-DD"
+          />
+        </View>
+      </View>
+
+      <View style={styles.presetRow}>
+        <TouchableOpacity
+          style={styles.presetButton}
+          onPress={() => applyRange(getCurrentYearRange().start, getCurrentYearRange().end)}
+        >
+          <Text style={styles.presetButtonText}>{t('statistics.thisYear')}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.presetButton}
+          onPress={() => applyRange(getPreviousYearRange().start, getPreviousYearRange().end)}
+        >
+          <Text style={styles.presetButtonText}>{t('statistics.lastYear')}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.applyButton}
+          onPress={() => applyRange(startDateInput, endDateInput)}
+        >
+          <Text style={styles.applyButtonText}>{t('filters.applyFilters')}</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  const renderSummary = (stats: FlightStatistics) => (
+    <View style={styles.summaryRow}>
+      <View style={[styles.card, styles.summaryCard]}>
+        <Ionicons name="airplane-outline" size={24} color="#0066CC" />
+        <Text style={styles.summaryValue}>{stats.flightCount}</Text>
+        <Text style={styles.summaryLabel}>{t('statistics.totalFlights')}</Text>
+      </View>
+      <View style={[styles.card, styles.summaryCard]}>
+        <Ionicons name="time-outline" size={24} color="#0066CC" />
+        <Text style={styles.summaryValue}>{formatHours(stats.totalMinutes)}</Text>
+        <Text style={styles.summaryLabel}>{t('statistics.totalFlightTime')}</Text>
+      </View>
+    </View>
+  );
+
+  const renderMonthly = (stats: FlightStatistics) => {
+    const maxMinutes = Math.max(1, ...stats.months.map(month => stats.byMonth[month].totalMinutes));
+
+    return (
+      <View style={styles.card}>
+        <Text style={styles.sectionTitle}>{t('statistics.monthly')}</Text>
+        <View style={[styles.tableRow, styles.tableHeader]}>
+          <Text style={[styles.tableCell, styles.labelCell, styles.tableHeaderText]}>{t('statistics.month')}</Text>
+          <Text style={[styles.tableCell, styles.numberCell, styles.tableHeaderText]}>{t('statistics.flights')}</Text>
+          <Text style={[styles.tableCell, styles.numberCell, styles.tableHeaderText]}>{t('statistics.hours')}</Text>
+        </View>
+        {stats.months.map(month => {
+          const totals = stats.byMonth[month];
+          return (
+            <View key={month} style={styles.tableRow}>
+              <View style={[styles.tableCell, styles.labelCell]}>
+                <Text style={styles.tableText}>{formatMonth(month)}</Text>
+                <View style={styles.barTrack}>
+                  <View style={[styles.bar, { width: `${(totals.totalMinutes / maxMinutes) * 100}%` }]} />
+                </View>
+              </View>
+              <Text style={[styles.tableCell, styles.numberCell, styles.tableText]}>{totals.flightCount}</Text>
+              <Text style={[styles.tableCell, styles.numberCell, styles.tableText]}>{formatHours(totals.totalMinutes)}</Text>
+            </View>
+          );
+        })}
+      </View>
+    );
+  };
+
+  const renderGroup = (stats: FlightStatistics, group: FlightStatisticsGroup) => {
+    const isExpanded = expandedGroup === group.key;
+    const groupMonths = stats.months.filter(month => group.byMonth[month]?.flightCount);
+
+    return (
+      <View key={group.key}>
+        <TouchableOpacity
+          style={styles.tableRow}
+          onPress={() => setExpandedGroup(isExpanded ? null : group.key)}
+          disabled={groupMonths.length === 0}
+        >
+          <View style={[styles.tableCell, styles.labelCell, styles.groupLabel]}>
+            {groupMonths.length > 0 ? (
+              <Ionicons name={isExpanded ? 'chevron-down' : 'chevron-forward'} size={14} color="#666" />
+            ) : null}
+            <Text style={[styles.tableText, group.flightCount === 0 && styles.mutedText]}>{group.label}</Text>
+          </View>
+          <Text style={[styles.tableCell, styles.numberCell, styles.tableText]}>{group.flightCount}</Text>
+          <Text style={[styles.tableCell, styles.numberCell, styles.tableText]}>{formatHours(group.totalMinutes)}</Text>
+        </TouchableOpacity>
+        {isExpanded ? groupMonths.map(month => (
+          <View key={month} style={[styles.tableRow, styles.subRow]}>
+            <Text style={[styles.tableCell, styles.labelCell, styles.subRowText]}>{formatMonth(month)}</Text>
+            <Text style={[styles.tableCell, styles.numberCell, styles.subRowText]}>{group.byMonth[month].flightCount}</Text>
+            <Text style={[styles.tableCell, styles.numberCell, styles.subRowText]}>{formatHours(group.byMonth[month].totalMinutes)}</Text>
+          </View>
+        )) : null}
+      </View>
+    );
+  };
+
+  const renderBreakdown = (stats: FlightStatistics) => {
+    const groups = stats.groups[dimension];
+
+    return (
+      <View style={styles.card}>
+        <Text style={styles.sectionTitle}>{t('statistics.breakdown')}</Text>
+        <View style={styles.dimensionTabs}>
+          {dimensions.map(item => (
+            <TouchableOpacity
+              key={item.key}
+              style={[styles.dimensionTab, dimension === item.key && styles.dimensionTabActive]}
+              onPress={() => {
+                setDimension(item.key);
+                setExpandedGroup(null);
+              }}
+            >
+              <Text style={[styles.dimensionTabText, dimension === item.key && styles.dimensionTabTextActive]}>
+                {item.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <View style={[styles.tableRow, styles.tableHeader]}>
+          <Text style={[styles.tableCell, styles.labelCell, styles.tableHeaderText]}>
+            {dimensions.find(item => item.key === dimension)?.label}
+          </Text>
+          <Text style={[styles.tableCell, styles.numberCell, styles.tableHeaderText]}>{t('statistics.flights')}</Text>
+          <Text style={[styles.tableCell, styles.numberCell, styles.tableHeaderText]}>{t('statistics.hours')}</Text>
+        </View>
+        {groups.length === 0 ? (
+          <Text style={styles.emptyText}>{t('statistics.noFlights')}</Text>
+        ) : (
+          groups.map(group => renderGroup(stats, group))
+        )}
+      </View>
+    );
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#0066CC" />
+        <Text style={styles.loadingText}>{t('common.loading')}</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <OfflineInfoBar
+        visible={!isConnected}
+        message={t('offline.noConnection')}
+      />
+
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+      >
+        <View style={[
+          styles.contentWrapper,
+          responsive.isDesktop && {
+            maxWidth: responsive.maxContentWidth,
+            width: '100%',
+            alignSelf: 'center',
+          }
+        ]}>
+          {!canViewAllPilots ? (
+            <Text style={styles.scopeInfo}>{t('statistics.ownFlightsOnly')}</Text>
+          ) : null}
+
+          {renderRangeControls()}
+
+          {statistics ? (
+            <>
+              {renderSummary(statistics)}
+              {renderMonthly(statistics)}
+              {renderBreakdown(statistics)}
+            </>
+          ) : null}
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  contentWrapper: {
+    width: '100%',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+  },
+  loadingText: {
+    marginTop: 10,
+    fontSize: 16,
+    color: '#666',
+  },
+  scopeInfo: {
+    fontSize: 14,
+    color: '#666',
+    fontStyle: 'italic',
+    marginBottom: 12,
+  },
+  card: {
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 1,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 12,
+  },
+  rangeRowDesktop: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  rangeField: {
+    flex: 1,
+    marginBottom: 12,
+  },
+  presetRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  presetButton: {
+    backgroundColor: '#f0f0f0',
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+  },
+  presetButtonText: {
+    color: '#666',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  applyButton: {
+    flex: 1,
+    backgroundColor: '#007AFF',
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  applyButtonText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  summaryCard: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  summaryValue: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#333',
+    marginTop: 8,
+  },
+  summaryLabel: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 4,
+  },
+  tableHeader: {
+    borderBottomWidth: 1,
+    borderBottomColor: '#ddd',
+  },
+  tableHeaderText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  tableRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  tableCell: {
+    paddingHorizontal: 4,
+  },
+  labelCell: {
+    flex: 2,
+  },
+  numberCell: {
+    flex: 1,
+    textAlign: 'right',
+  },
+  tableText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  mutedText: {
+    color: '#999',
+  },
+  groupLabel: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  subRow: {
+    backgroundColor: '#fafafa',
+    paddingLeft: 18,
+  },
+  subRowText: {
+    fontSize: 13,
+    color: '#666',
+  },
+  barTrack: {
+    height: 6,
+    backgroundColor: '#f0f0f0',
+    borderRadius: 3,
+    marginTop: 4,
+    overflow: 'hidden',
+  },
+  bar: {
+    height: 6,
+    backgroundColor: '#0066CC',
+    borderRadius: 3,
+  },
+  dimensionTabs: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  dimensionTab: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#0066CC',
+  },
+  dimensionTabActive: {
+    backgroundColor: '#0066CC',
+  },
+  dimensionTabText: {
+    fontSize: 14,
+    color: '#0066CC',
+  },
+  dimensionTabTextActive: {
+    color: 'white',
+    fontWeight: '600',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    paddingVertical: 16,
+  },
+});
@@ -18,8 +18,9 @@ import { ProcedureChecklist } from '@/types/ProcedureChecklist';
 import { useAuth } from '@/contexts/AuthContext';
 import { TaskService } from '@/services/taskService';
 import { UserService } from '@/services/userService';
-import { DroneService } from '@/services/droneService';
-import { ProcedureChecklistService } from '@/services/procedureChecklistService';
+import { OfflineProcedureChecklistService } from '@/services/offlineProcedureChecklistService';
+import { OfflineOutboxService } from '@/services/offlineOutboxService';
+import { OfflineDataService } from '@/services/offlineDataService';
 import { useCrossPlatformAlert } from '@/components/CrossPlatformAlert';
 import { useOfflineButtons } from '@/utils/useOfflineButtons';
 import { useResponsiveLayout } from '@/utils/useResponsiveLayout';
@@ -39,14 +40,14 @@ export default function TaskDetailsScreen() {
   const router = useRouter();
   const { t } = useTranslation('common');
   const crossPlatformAlert = useCrossPlatformAlert();
-  const { isButtonDisabled, getDisabledStyle } = useOfflineButtons();
+  const { isOffline, isButtonDisabled, getDisabledStyle } = useOfflineButtons();
   const responsive = useResponsiveLayout();
 
   const fetchTask = useCallback(async () => {
     if (!id || !user) return;
 
     try {
-      const taskData = await TaskService.getTask(id, user.role);
+      const { task: taskData, isFromCache } = await OfflineDataService.getTask(id, user);
       if (!taskData) {
         crossPlatformAlert.showAlert({ 
           title: t('common.error'), 
@@ -61,12 +62,12 @@ export default function TaskDetailsScreen() {
       setNewStatus(taskData.status);
       setStatusUpdateText(taskData.statusUpdateText || '');
       
-      // Fetch user names
-      if (taskData.createdBy) {
+      // Fetch user names (only available online)
+      if (taskData.createdBy && !isFromCache) {
         const createdName = await UserService.getUserDisplayName(taskData.createdBy);
         setCreatedByName(createdName);
       }
-      if (taskData.assignedTo) {
+      if (taskData.assignedTo && !isFromCache) {
         const assignedName = await UserService.getUserDisplayName(taskData.assignedTo);
         setAssignedToName(assignedName);
       }
@@ -74,7 +75,7 @@ export default function TaskDetailsScreen() {
       // Fetch drone data if attached
       if (taskData.droneId) {
         try {
-          const droneData = await DroneService.getDrone(taskData.droneId, user.role);
+          const { drone: droneData } = await OfflineDataService.getDrone(taskData.droneId, user);
           setDrone(droneData);
         } catch (error) {
           console.error('Error fetching drone:', error);
@@ -85,7 +86,10 @@ export default function TaskDetailsScreen() {
       // Fetch procedure data if attached
       if (taskData.procedureId) {
         try {
-          const procedureData = await ProcedureChecklistService.getProcedureChecklist(taskData.procedureId, user.role);
+          const { procedure: procedureData } = await OfflineProcedureChecklistService.getProcedureChecklist(
+            taskData.procedureId,
+            user.role
+          );
           setProcedure(procedureData);
         } catch (error) {
           console.error('Error fetching procedure:', error);
@@ -172,10 +176,29 @@ export default function TaskDetailsScreen() {
   };
 
   const handleUpdateStatus = async () => {
-    if (!task || !user || isButtonDisabled()) return;
+    if (!task || !user) return;
 
     setUpdatingStatus(true);
     try {
+      if (isOffline) {
+        // Replayed when back online, unless the task was changed in the meantime
+        await OfflineOutboxService.enqueue(
+          {
+            type: 'updateTaskStatus',
+            taskId: task.id,
+            taskTitle: task.title,
+            statusUpdate: { status: newStatus, statusUpdateText },
+            baseUpdatedAt: task.updatedAt,
+          },
+          user
+        );
+        crossPlatformAlert.showAlert({
+          title: t('common.success'),
+          message: t('tasks.statusUpdateQueued')
+        });
+        return;
+      }
+
       await TaskService.updateTaskStatus(
         task.id,
         { status: newStatus, statusUpdateText },
@@ -307,7 +330,7 @@ export default function TaskDetailsScreen() {
             <Text style={[
               styles.detailValue,
               { fontSize: responsive.fontSize.small }
-            ]}>{assignedToName || t('tasks.unassigned')}</Text>
+            ]}>{assignedToName || (task.assignedTo ? t('common.unknown') : t('tasks.unassigned'))}</Text>
           </View>
           <View style={styles.detailRow}>
             <Text style={[
@@ -447,9 +470,9 @@ export default function TaskDetailsScreen() {
             />
 
             <TouchableOpacity
-              style={[styles.button, styles.primaryButton, getDisabledStyle()]}
+              style={[styles.button, styles.primaryButton]}
               onPress={handleUpdateStatus}
-              disabled={isButtonDisabled() || updatingStatus}
+              disabled={updatingStatus}
             >
               {updatingStatus ? (
                 <ActivityIndicator color="#fff" />
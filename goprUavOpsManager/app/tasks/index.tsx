@@ -17,13 +17,14 @@ import { ProcedureChecklist } from '@/types/ProcedureChecklist';
 import { UserPublicInfo } from '@/types/User';
 import { useAuth } from '@/contexts/AuthContext';
 import { TaskService } from '@/services/taskService';
-import { DroneService } from '@/services/droneService';
 import { ProcedureChecklistService } from '@/services/procedureChecklistService';
 import { UserService } from '@/services/userService';
 import { useCrossPlatformAlert } from '@/components/CrossPlatformAlert';
 import { useOfflineButtons } from '@/utils/useOfflineButtons';
 import { useNetworkStatus } from '@/utils/useNetworkStatus';
 import OfflineInfoBar from '@/components/OfflineInfoBar';
+import { OfflineDataService } from '@/services/offlineDataService';
+import { NetworkConnectivity } from '@/utils/networkConnectivity';
 import { useResponsiveLayout } from '@/utils/useResponsiveLayout';
 
 export default function TasksListScreen() {
@@ -48,18 +49,24 @@ export default function TasksListScreen() {
     try {
       let tasksList: Task[] = [];
       
-      switch (activeFilter) {
-        case 'unassigned':
-          tasksList = await TaskService.getUnassignedTasks(user.role);
-          break;
-        case 'my_open':
-          tasksList = await TaskService.getUserTasks(user.uid, user.role, false);
-          break;
-        case 'my_finished':
-          tasksList = await TaskService.getUserTasks(user.uid, user.role, true);
-          break;
-        default:
-          tasksList = await TaskService.getTasks(user.role);
+      // Offline, only the user's open tasks kept on the device can be listed
+      if (!NetworkConnectivity.getCurrentStatus()) {
+        const { tasks: cachedTasks } = await OfflineDataService.getAssignedTasks(user);
+        tasksList = activeFilter === 'unassigned' || activeFilter === 'my_finished' ? [] : cachedTasks;
+      } else {
+        switch (activeFilter) {
+          case 'unassigned':
+            tasksList = await TaskService.getUnassignedTasks(user.role);
+            break;
+          case 'my_open':
+            tasksList = await TaskService.getUserTasks(user.uid, user.role, false);
+            break;
+          case 'my_finished':
+            tasksList = await TaskService.getUserTasks(user.uid, user.role, true);
+            break;
+          default:
+            tasksList = await TaskService.getTasks(user.role);
+        }
       }
       
       setTasks(tasksList);
@@ -83,7 +90,7 @@ export default function TasksListScreen() {
       // Fetch drones
       for (const droneId of droneIds) {
         try {
-          const drone = await DroneService.getDrone(droneId, user.role);
+          const { drone } = await OfflineDataService.getDrone(droneId, user);
           if (drone) {
             droneMap.set(droneId, drone);
           }
@@ -0,0 +1,374 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  TextInput,
+  ActivityIndicator,
+  ScrollView,
+  Switch,
+} from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { Ionicons } from '@expo/vector-icons';
+import { UserRole } from '@/types/UserRole';
+import { Battery } from '@/types/Battery';
+import { Drone } from '@/types/Drone';
+import { BatteryService } from '@/services/batteryService';
+import { useCrossPlatformAlert } from './CrossPlatformAlert';
+import WebCompatibleDatePicker from './WebCompatibleDatePicker';
+
+interface BatteryFormModalProps {
+  visible: boolean;
+  battery: Battery | null; // null registers a new pack
+  drones: Drone[];
+  currentUserId: string;
+  currentUserRole: UserRole;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+// Numbers are edited as text so a field can be left empty
+interface BatteryFormState {
+  label: string;
+  serialNumber: string;
+  model: string;
+  compatibleDroneIds: string[];
+  cycleCount: string;
+  ratedCycles: string;
+  purchaseDate: string; // YYYY-MM-DD
+  internalResistance: string;
+  healthNotes: string;
+  markedDegraded: boolean;
+}
+
+function toFormState(battery: Battery | null): BatteryFormState {
+  return {
+    label: battery?.label || '',
+    serialNumber: battery?.serialNumber || '',
+    model: battery?.model || '',
+    compatibleDroneIds: battery?.compatibleDroneIds || [],
+    cycleCount: battery ? battery.cycleCount.toString() : '0',
+    ratedCycles: battery?.ratedCycles?.toString() || '',
+    purchaseDate: battery?.purchaseDate || '',
+    internalResistance: battery?.internalResistance?.toString() || '',
+    healthNotes: battery?.healthNotes || '',
+    markedDegraded: battery?.markedDegraded || false,
+  };
+}
+
+function parseNumber(value: string): number | undefined {
+  return value.trim() ? parseFloat(value.replace(',', '.')) : undefined;
+}
+
+export default function BatteryFormModal({
+  visible,
+  battery,
+  drones,
+  currentUserId,
+  currentUserRole,
+  onClose,
+  onSaved
+}: BatteryFormModalProps) {
+  const { t } = useTranslation('common');
+  const crossPlatformAlert = useCrossPlatformAlert();
+
+  const [formState, setFormState] = useState<BatteryFormState>(() => toFormState(battery));
+  const [saving, setSaving] = useState(false);
+
+  // Reset state when modal opens
+  useEffect(() => {
+    if (visible) {
+      setFormState(toFormState(battery));
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [visible]);
+
+  const updateField = <K extends keyof BatteryFormState>(field: K, value: BatteryFormState[K]) => {
+    setFormState(prev => ({ ...prev, [field]: value }));
+  };
+
+  const toggleDrone = (droneId: string) => {
+    setFormState(prev => ({
+      ...prev,
+      compatibleDroneIds: prev.compatibleDroneIds.includes(droneId)
+        ? prev.compatibleDroneIds.filter(id => id !== droneId)
+        : [...prev.compatibleDroneIds, droneId],
+    }));
+  };
+
+  const handleSave = async () => {
+    const data = {
+      label: formState.label,
+      serialNumber: formState.serialNumber,
+      model: formState.model,
+      compatibleDroneIds: formState.compatibleDroneIds,
+      cycleCount: parseNumber(formState.cycleCount) ?? 0,
+      ratedCycles: parseNumber(formState.ratedCycles),
+      purchaseDate: formState.purchaseDate,
+      internalResistance: parseNumber(formState.internalResistance),
+      healthNotes: formState.healthNotes,
+      markedDegraded: formState.markedDegraded,
+    };
+
+    try {
+      setSaving(true);
+      if (battery) {
+        await BatteryService.updateBattery(battery.id, data, currentUserRole, currentUserId);
+      } else {
+        await BatteryService.createBattery(data, currentUserRole, currentUserId);
+      }
+      onSaved();
+      onClose();
+    } catch (error: any) {
+      crossPlatformAlert.showAlert({
+        title: t('common.error'),
+        message: error.message || t('batteries.saveFailed'),
+        buttons: [{ text: t('common.ok') }]
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.title}>{battery ? t('batteries.editBattery') : t('batteries.addBattery')}</Text>
+          <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+            <Ionicons name="close" size={24} color="#333" />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+          <Text style={styles.label}>{t('batteries.label')} *</Text>
+          <TextInput
+            style={styles.input}
+            value={formState.label}
+            onChangeText={(value) => updateField('label', value)}
+            placeholder={t('batteries.labelPlaceholder')}
+          />
+
+          <View style={styles.row}>
+            <View style={styles.column}>
+              <Text style={styles.label}>{t('batteries.model')}</Text>
+              <TextInput
+                style={styles.input}
+                value={formState.model}
+                onChangeText={(value) => updateField('model', value)}
+              />
+            </View>
+            <View style={styles.column}>
+              <Text style={styles.label}>{t('batteries.serialNumber')}</Text>
+              <TextInput
+                style={styles.input}
+                value={formState.serialNumber}
+                onChangeText={(value) => updateField('serialNumber', value)}
+                autoCapitalize="characters"
+              />
+            </View>
+          </View>
+
+          <Text style={styles.label}>{t('batteries.compatibleDrones')}</Text>
+          <View style={styles.chips}>
+            {drones.map(drone => {
+              const selected = formState.compatibleDroneIds.includes(drone.id);
+              return (
+                <TouchableOpacity
+                  key={drone.id}
+                  style={[styles.chip, selected && styles.chipSelected]}
+                  onPress={() => toggleDrone(drone.id)}
+                >
+                  <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{drone.name}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <View style={styles.row}>
+            <View style={styles.column}>
+              <Text style={styles.label}>{t('batteries.cycleCount')}</Text>
+              <TextInput
+                style={styles.input}
+                value={formState.cycleCount}
+                onChangeText={(value) => updateField('cycleCount', value)}
+                keyboardType="number-pad"
+              />
+            </View>
+            <View style={styles.column}>
+              <Text style={styles.label}>{t('batteries.ratedCycles')}</Text>
+              <TextInput
+                style={styles.input}
+                value={formState.ratedCycles}
+                onChangeText={(value) => updateField('ratedCycles', value)}
+                keyboardType="number-pad"
+              />
+            </View>
+          </View>
+          {battery ? <Text style={styles.hint}>{t('batteries.cycleCountHint')}</Text> : null}
+
+          <WebCompatibleDatePicker
+            label={t('batteries.purchaseDate')}
+            value={formState.purchaseDate}
+            onDateChange={(value) => updateField('purchaseDate', value)}
+          />
+
+          <Text style={styles.label}>{t('batteries.internalResistance')}</Text>
+          <TextInput
+            style={styles.input}
+            value={formState.internalResistance}
+            onChangeText={(value) => updateField('internalResistance', value)}
+            keyboardType="decimal-pad"
+          />
+
+          <Text style={styles.label}>{t('batteries.healthNotes')}</Text>
+          <TextInput
+            style={[styles.input, styles.multilineInput]}
+            value={formState.healthNotes}
+            onChangeText={(value) => updateField('healthNotes', value)}
+            placeholder={t('batteries.healthNotesPlaceholder')}
+            multiline
+          />
+
+          <View style={styles.switchRow}>
+            <View style={styles.switchText}>
+              <Text style={styles.label}>{t('batteries.markedDegraded')}</Text>
+              <Text style={styles.hint}>{t('batteries.markedDegradedHint')}</Text>
+            </View>
+            <Switch
+              value={formState.markedDegraded}
+              onValueChange={(value) => updateField('markedDegraded', value)}
+            />
+          </View>
+
+          <TouchableOpacity
+            style={[styles.saveButton, saving && styles.saveButtonDisabled]}
+            onPress={handleSave}
+            disabled={saving}
+          >
+            {saving ? (
+              <ActivityIndicator size="small" color="#fff" />
+            ) : (
+              <Text style={styles.saveButtonText}>{t('common.save')}</Text>
+            )}
+          </TouchableOpacity>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: '#fff',
+    marginBottom: 16,
+  },
+  multilineInput: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  column: {
+    flex: 1,
+  },
+  hint: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: -8,
+    marginBottom: 16,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: '#f8f9fa',
+  },
+  chipSelected: {
+    borderColor: '#0066CC',
+    backgroundColor: '#0066CC',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  chipTextSelected: {
+    color: '#fff',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  switchText: {
+    flex: 1,
+  },
+  saveButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#0066CC',
+    borderRadius: 8,
+    paddingVertical: 12,
+    marginTop: 16,
+    marginBottom: 32,
+  },
+  saveButtonDisabled: {
+    opacity: 0.5,
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
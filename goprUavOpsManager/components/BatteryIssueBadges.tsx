@@ -0,0 +1,68 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { Ionicons } from '@expo/vector-icons';
+import { Battery, BatteryIssue } from '@/types/Battery';
+import { getBatteryIssues } from '@/utils/batteryUtils';
+
+interface BatteryIssueBadgesProps {
+  battery: Battery;
+}
+
+const ISSUE_COLORS: Record<BatteryIssue, string> = {
+  markedDegraded: '#d32f2f',
+  cycleLimit: '#d32f2f',
+  nearCycleLimit: '#F57C00',
+};
+
+/**
+ * Warning badges for a worn or retired pack; renders nothing for a healthy one
+ */
+export default function BatteryIssueBadges({ battery }: BatteryIssueBadgesProps) {
+  const { t } = useTranslation('common');
+  const issues = getBatteryIssues(battery);
+
+  if (!battery.isRetired && issues.length === 0) {
+    return null;
+  }
+
+  return (
+    <View style={styles.badges}>
+      {battery.isRetired ? (
+        <View style={[styles.badge, styles.retiredBadge]}>
+          <Text style={styles.badgeText}>{t('batteries.retired')}</Text>
+        </View>
+      ) : null}
+      {issues.map(issue => (
+        <View key={issue} style={[styles.badge, { backgroundColor: ISSUE_COLORS[issue] }]}>
+          <Ionicons name="warning-outline" size={12} color="#fff" />
+          <Text style={styles.badgeText}>{t(`batteries.issues.${issue}`)}</Text>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  badges: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 4,
+  },
+  badge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 4,
+  },
+  retiredBadge: {
+    backgroundColor: '#9E9E9E',
+  },
+  badgeText: {
+    color: 'white',
+    fontSize: 10,
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,211 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  TextInput,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { Ionicons } from '@expo/vector-icons';
+import { ProcedureExecutionSubItemResult } from '@/types/ProcedureExecution';
+import { formatControlValue } from '@/utils/controlValueUtils';
+
+interface ControlOverrideModalProps {
+  visible: boolean;
+  outOfRange: ProcedureExecutionSubItemResult[];
+  finishing: boolean;
+  onClose: () => void;
+  onOverride: (note: string) => void;
+}
+
+/**
+ * Shown when a run is finished with out-of-range control values: lists them and
+ * only lets the operator finish after writing down why
+ */
+export default function ControlOverrideModal({
+  visible,
+  outOfRange,
+  finishing,
+  onClose,
+  onOverride,
+}: ControlOverrideModalProps) {
+  const { t } = useTranslation('common');
+  const [note, setNote] = useState('');
+
+  // Reset the note each time the modal opens
+  useEffect(() => {
+    if (visible) {
+      setNote('');
+    }
+  }, [visible]);
+
+  const canOverride = note.trim().length > 0 && !finishing;
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.title}>{t('procedures.execution.outOfRangeTitle')}</Text>
+          <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+            <Ionicons name="close" size={24} color="#333" />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+          <Text style={styles.message}>{t('procedures.execution.outOfRangeMessage')}</Text>
+
+          {outOfRange.map(control => (
+            <View key={control.subItemId} style={styles.controlRow}>
+              <Ionicons name="warning-outline" size={18} color="#F44336" />
+              <View style={styles.controlInfo}>
+                <Text style={styles.controlName}>{control.control || control.topic}</Text>
+                <Text style={styles.controlValue}>
+                  {formatControlValue(control, t('common.yes'), t('common.no'))}
+                  {control.requiredState ? ` (${t('procedures.execution.requiredState')}: ${control.requiredState})` : ''}
+                </Text>
+              </View>
+            </View>
+          ))}
+
+          <Text style={styles.label}>{t('procedures.execution.overrideNote')}</Text>
+          <TextInput
+            style={styles.noteInput}
+            value={note}
+            onChangeText={setNote}
+            placeholder={t('procedures.execution.overrideNotePlaceholder')}
+            multiline
+            numberOfLines={3}
+          />
+
+          <TouchableOpacity
+            style={[styles.overrideButton, !canOverride && styles.overrideButtonDisabled]}
+            onPress={() => onOverride(note.trim())}
+            disabled={!canOverride}
+          >
+            {finishing ? (
+              <ActivityIndicator size="small" color="#fff" />
+            ) : (
+              <>
+                <Ionicons name="checkmark-done" size={20} color="#fff" />
+                <Text style={styles.overrideButtonText}>{t('procedures.execution.finishAnyway')}</Text>
+              </>
+            )}
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.cancelButton} onPress={onClose}>
+            <Text style={styles.cancelButtonText}>{t('procedures.execution.fixValues')}</Text>
+          </TouchableOpacity>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  message: {
+    fontSize: 16,
+    color: '#333',
+    marginBottom: 16,
+  },
+  controlRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 8,
+    padding: 12,
+    marginBottom: 8,
+    borderRadius: 8,
+    backgroundColor: '#fdecea',
+  },
+  controlInfo: {
+    flex: 1,
+  },
+  controlName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  controlValue: {
+    fontSize: 14,
+    color: '#C62828',
+    marginTop: 2,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  noteInput: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    minHeight: 80,
+    textAlignVertical: 'top',
+    backgroundColor: '#f8f9fa',
+  },
+  overrideButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    borderRadius: 8,
+    marginTop: 20,
+    backgroundColor: '#dc3545',
+  },
+  overrideButtonDisabled: {
+    opacity: 0.5,
+  },
+  overrideButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  cancelButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+    marginTop: 8,
+  },
+  cancelButtonText: {
+    color: '#007AFF',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+});
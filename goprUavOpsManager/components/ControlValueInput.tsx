@@ -0,0 +1,165 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { Ionicons } from '@expo/vector-icons';
+import { ChecklistSubItem } from '@/types/ProcedureChecklist';
+import {
+  CONTROL_BOOLEAN_VALUES,
+  formatNumericRange,
+  isControlValueOutOfRange,
+} from '@/utils/controlValueUtils';
+
+interface ControlValueInputProps {
+  item: ChecklistSubItem;
+  value: string;
+  onChange: (value: string) => void;
+}
+
+/**
+ * Input for the actual value of a control sub-item during execution, matching the
+ * control's value type, with a warning when the value is out of range
+ */
+export default function ControlValueInput({ item, value, onChange }: ControlValueInputProps) {
+  const { t } = useTranslation('common');
+  const outOfRange = isControlValueOutOfRange(item, value);
+
+  // Tapping the selected choice again clears it
+  const renderChoice = (choice: string, label: string) => {
+    const selected = value === choice;
+    return (
+      <TouchableOpacity
+        key={choice}
+        style={[styles.choice, selected && styles.choiceSelected, selected && outOfRange && styles.choiceOutOfRange]}
+        onPress={() => onChange(selected ? '' : choice)}
+      >
+        <Text style={[styles.choiceText, selected && styles.choiceTextSelected]}>{label}</Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderInput = () => {
+    switch (item.valueType) {
+      case 'boolean':
+        return (
+          <View style={styles.choiceRow}>
+            {renderChoice(CONTROL_BOOLEAN_VALUES.yes, t('common.yes'))}
+            {renderChoice(CONTROL_BOOLEAN_VALUES.no, t('common.no'))}
+          </View>
+        );
+      case 'enum':
+        return (
+          <View style={styles.choiceRow}>
+            {(item.options || []).map(option => renderChoice(option, option))}
+          </View>
+        );
+      case 'numeric': {
+        const range = formatNumericRange(item);
+        return (
+          <View style={styles.numericRow}>
+            <TextInput
+              style={[styles.input, styles.numericInput, outOfRange && styles.inputOutOfRange]}
+              value={value}
+              onChangeText={onChange}
+              keyboardType="decimal-pad"
+              placeholder={range || t('procedures.execution.actualValuePlaceholder')}
+            />
+            {item.unit ? <Text style={styles.unit}>{item.unit}</Text> : null}
+            {range ? <Text style={styles.range}>{range}</Text> : null}
+          </View>
+        );
+      }
+      default:
+        return (
+          <TextInput
+            style={styles.input}
+            value={value}
+            onChangeText={onChange}
+            placeholder={item.requiredState || t('procedures.execution.actualValuePlaceholder')}
+          />
+        );
+    }
+  };
+
+  return (
+    <View>
+      {renderInput()}
+      {outOfRange ? (
+        <View style={styles.warningRow}>
+          <Ionicons name="warning-outline" size={14} color="#F44336" />
+          <Text style={styles.warningText}>{t('procedures.execution.outOfRange')}</Text>
+        </View>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  input: {
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 14,
+    backgroundColor: '#fff',
+  },
+  inputOutOfRange: {
+    borderColor: '#F44336',
+  },
+  numericRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  numericInput: {
+    flex: 1,
+  },
+  unit: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  range: {
+    fontSize: 12,
+    color: '#666',
+  },
+  choiceRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  choice: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    backgroundColor: '#fff',
+  },
+  choiceSelected: {
+    borderColor: '#0066CC',
+    backgroundColor: '#0066CC',
+  },
+  choiceOutOfRange: {
+    borderColor: '#F44336',
+    backgroundColor: '#F44336',
+  },
+  choiceText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  choiceTextSelected: {
+    color: '#fff',
+  },
+  warningRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 4,
+  },
+  warningText: {
+    fontSize: 12,
+    color: '#F44336',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Platform } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { COORDINATE_FORMATS, CoordinateUtils } from '@/utils/coordinateUtils';
+
+interface CoordinateFormatsListProps {
+  /** Stored coordinates string */
+  coordinates: string;
+  /** Whether the list starts expanded (default: false) */
+  initiallyExpanded?: boolean;
+}
+
+/**
+ * Collapsible list of a position in every supported notation (decimal, DMS, DDM, UTM, MGRS),
+ * so it can be read out to rescue teams in the format they use
+ */
+export default function CoordinateFormatsList({ coordinates, initiallyExpanded = false }: CoordinateFormatsListProps) {
+  const { t } = useTranslation('common');
+  const [expanded, setExpanded] = useState(initiallyExpanded);
+
+  const parsed = CoordinateUtils.parse(coordinates);
+  if (!parsed) {
+    return null;
+  }
+
+  const rows = COORDINATE_FORMATS.map(format => {
+    try {
+      return { format, value: CoordinateUtils.formatAs(parsed, format) };
+    } catch {
+      // UTM/MGRS are not defined near the poles
+      return null;
+    }
+  }).filter((row): row is { format: typeof COORDINATE_FORMATS[number]; value: string } => row !== null);
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity style={styles.toggle} onPress={() => setExpanded(!expanded)}>
+        <Ionicons name={expanded ? 'chevron-up' : 'chevron-down'} size={16} color="#0066CC" />
+        <Text style={styles.toggleText}>{t('location.otherFormats')}</Text>
+      </TouchableOpacity>
+
+      {expanded && rows.map(row => (
+        <View key={row.format} style={styles.row}>
+          <Text style={styles.label}>{t(`location.formats.${row.format}`)}</Text>
+          <Text style={styles.value} selectable>{row.value}</Text>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 8,
+  },
+  toggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 4,
+  },
+  toggleText: {
+    fontSize: 14,
+    color: '#0066CC',
+    marginLeft: 4,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 4,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  label: {
+    width: 110,
+    fontSize: 13,
+    color: '#666',
+  },
+  value: {
+    flex: 1,
+    fontSize: 14,
+    color: '#333',
+    fontFamily: Platform.OS === 'ios' ? 'Courier' : 'monospace',
+  },
+});
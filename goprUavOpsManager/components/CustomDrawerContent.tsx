@@ -9,6 +9,8 @@ import { signOut } from '@/utils/firebaseUtils';
 import { useTranslation } from 'react-i18next';
 import { useOfflineButtons } from '@/utils/useOfflineButtons';
 import { useResponsiveLayout } from '@/utils/useResponsiveLayout';
+import { useOfflineReadiness } from '@/utils/useOfflineReadiness';
+import OfflineReadinessIndicator from './OfflineReadinessIndicator';
 
 export function CustomDrawerContent(props: any) {
   const { user } = useAuth();
@@ -16,6 +18,7 @@ export function CustomDrawerContent(props: any) {
   const { t } = useTranslation('common');
   const { isNavigationDisabled, getDisabledStyle } = useOfflineButtons();
   const responsive = useResponsiveLayout();
+  const offlineReadiness = useOfflineReadiness(user?.uid);
 
   const handleLogout = async () => {
     try {
@@ -79,6 +82,8 @@ export function CustomDrawerContent(props: any) {
               <Text style={styles.roleText}>{t(`user.roles.${user.role}`)}</Text>
             </View>
           </View>
+
+          <OfflineReadinessIndicator statuses={offlineReadiness.statuses} level={offlineReadiness.level} />
         </View>
 
         {/* Navigation Items */}
@@ -103,6 +108,16 @@ export function CustomDrawerContent(props: any) {
             style={[styles.drawerItem, getDisabledStyle(!isNavigationDisabled('/flights'))]}
           />
 
+          <DrawerItem
+            label={t('nav.missions')}
+            onPress={() => handleNavigation('/missions')}
+            icon={({color, size}) => (
+              <Ionicons name="flag-outline" size={size} color={isNavigationDisabled('/missions') ? "#999" : color}/>
+            )}
+            labelStyle={[styles.drawerLabel, isNavigationDisabled('/missions') && { color: '#999' }]}
+            style={[styles.drawerItem, getDisabledStyle(!isNavigationDisabled('/missions'))]}
+          />
+
           <DrawerItem
             label={t('nav.drones')}
             onPress={() => handleNavigation('/drones')}
@@ -113,6 +128,56 @@ export function CustomDrawerContent(props: any) {
             style={[styles.drawerItem, getDisabledStyle(!isNavigationDisabled('/drones'))]}
           />
 
+          <DrawerItem
+            label={t('nav.batteries')}
+            onPress={() => handleNavigation('/batteries')}
+            icon={({color, size}) => (
+              <Ionicons name="battery-half-outline" size={size} color={isNavigationDisabled('/batteries') ? "#999" : color}/>
+            )}
+            labelStyle={[styles.drawerLabel, isNavigationDisabled('/batteries') && { color: '#999' }]}
+            style={[styles.drawerItem, getDisabledStyle(!isNavigationDisabled('/batteries'))]}
+          />
+
+          <DrawerItem
+            label={t('nav.reservations')}
+            onPress={() => handleNavigation('/reservations')}
+            icon={({color, size}) => (
+              <Ionicons name="calendar-outline" size={size} color={isNavigationDisabled('/reservations') ? "#999" : color}/>
+            )}
+            labelStyle={[styles.drawerLabel, isNavigationDisabled('/reservations') && { color: '#999' }]}
+            style={[styles.drawerItem, getDisabledStyle(!isNavigationDisabled('/reservations'))]}
+          />
+
+          <DrawerItem
+            label={t('nav.statistics')}
+            onPress={() => handleNavigation('/statistics')}
+            icon={({color, size}) => (
+              <Ionicons name="stats-chart-outline" size={size} color={isNavigationDisabled('/statistics') ? "#999" : color}/>
+            )}
+            labelStyle={[styles.drawerLabel, isNavigationDisabled('/statistics') && { color: '#999' }]}
+            style={[styles.drawerItem, getDisabledStyle(!isNavigationDisabled('/statistics'))]}
+          />
+
+          <DrawerItem
+            label={t('nav.geozones')}
+            onPress={() => handleNavigation('/geozones')}
+            icon={({color, size}) => (
+              <Ionicons name="warning-outline" size={size} color={isNavigationDisabled('/geozones') ? "#999" : color}/>
+            )}
+            labelStyle={[styles.drawerLabel, isNavigationDisabled('/geozones') && { color: '#999' }]}
+            style={[styles.drawerItem, getDisabledStyle(!isNavigationDisabled('/geozones'))]}
+          />
+
+          <DrawerItem
+            label={t('nav.notifications')}
+            onPress={() => handleNavigation('/notifications')}
+            icon={({color, size}) => (
+              <Ionicons name="notifications-outline" size={size} color={isNavigationDisabled('/notifications') ? "#999" : color}/>
+            )}
+            labelStyle={[styles.drawerLabel, isNavigationDisabled('/notifications') && { color: '#999' }]}
+            style={[styles.drawerItem, getDisabledStyle(!isNavigationDisabled('/notifications'))]}
+          />
+
           <DrawerItem
             label={t('nav.procedures')}
             onPress={() => handleNavigation('/procedures')}
@@ -151,8 +216,18 @@ export function CustomDrawerContent(props: any) {
         </View>
       </DrawerContentScrollView>
 
-      {/* Bottom section: Info & Contact + Sign Out */}
+      {/* Bottom section: Settings, Info & Contact + Sign Out */}
       <View style={styles.bottomSection}>
+        <DrawerItem
+          label={t('nav.settings')}
+          onPress={() => handleNavigation('/settings')}
+          icon={({color, size}) => (
+            <Ionicons name="settings-outline" size={size} color={color}/>
+          )}
+          labelStyle={styles.drawerLabel}
+          style={styles.drawerItem}
+        />
+
         <DrawerItem
           label={t('nav.info')}
           onPress={() => handleNavigation('/info-contact')}
@@ -13,11 +13,13 @@ import { useTranslation } from 'react-i18next';
 import { Ionicons } from '@expo/vector-icons';
 import { DroneClaim } from '@/types/DroneClaim';
 import { UserRole } from '@/types/UserRole';
+import { ServiceStatus } from '@/types/Maintenance';
 import { DroneClaimService } from '@/services/droneClaimService';
 import { UserService } from '@/services/userService';
 import { useCrossPlatformAlert } from './CrossPlatformAlert';
 import { useOfflineButtons } from '@/utils/useOfflineButtons';
 import AdminOverrideModal from './AdminOverrideModal';
+import ServiceStatusBadge from './ServiceStatusBadge';
 
 interface DroneClaimSectionProps {
   droneId: string;
@@ -26,6 +28,7 @@ interface DroneClaimSectionProps {
   currentUserId: string;
   currentUserRole: UserRole;
   currentUserEmail: string;
+  serviceStatus?: ServiceStatus;
   disabled?: boolean;
   onClaimChanged?: () => void;
 }
@@ -37,6 +40,7 @@ export default function DroneClaimSection({
   currentUserId,
   currentUserRole,
   currentUserEmail,
+  serviceStatus = 'ok',
   disabled = false,
   onClaimChanged
 }: DroneClaimSectionProps) {
@@ -199,6 +203,7 @@ export default function DroneClaimSection({
 
   const isDisabled = disabled || isButtonDisabled() || actionLoading;
   const canClaim = isShareable && !activeClaim && currentUserId; // Only show if no active claim and user is logged in
+  const isOverdueForService = serviceStatus === 'overdue';
   const canRelease = activeClaim && (activeClaim.userId === currentUserId || currentUserRole === 'admin' || currentUserRole === 'manager');
   const canOverride = activeClaim && (currentUserRole === 'admin' || currentUserRole === 'manager');
 
@@ -221,6 +226,7 @@ export default function DroneClaimSection({
     <View style={styles.container}>
       <View style={styles.header}>
         <Text style={styles.title}>{t('droneClaims.claimStatus')}</Text>
+        <ServiceStatusBadge status={serviceStatus} />
         <TouchableOpacity
           style={styles.historyButton}
           onPress={showClaimHistory}
@@ -231,6 +237,15 @@ export default function DroneClaimSection({
         </TouchableOpacity>
       </View>
 
+      {serviceStatus !== 'ok' ? (
+        <View style={[styles.overdueRow, styles.serviceRow]}>
+          <Ionicons name="construct-outline" size={16} color={isOverdueForService ? '#d32f2f' : '#FF9800'} />
+          <Text style={[styles.overdueText, isOverdueForService && styles.serviceOverdueText]}>
+            {isOverdueForService ? t('droneClaims.serviceOverdue') : t('droneClaims.serviceDueSoon')}
+          </Text>
+        </View>
+      ) : null}
+
       {activeClaim ? (
         <View style={styles.claimInfo}>
           <View style={styles.statusRow}>
@@ -246,6 +261,17 @@ export default function DroneClaimSection({
               duration: DroneClaimService.formatClaimDuration(activeClaim.startTime)
             })}
           </Text>
+          {activeClaim.autoReleaseAt ? (
+            <View style={styles.overdueRow}>
+              <Ionicons name="warning-outline" size={16} color="#FF9800" />
+              <Text style={styles.overdueText}>
+                {t('droneClaims.overdueWarning', {
+                  date: activeClaim.autoReleaseAt.toLocaleDateString(),
+                  time: activeClaim.autoReleaseAt.toLocaleTimeString()
+                })}
+              </Text>
+            </View>
+          ) : null}
           
           <View style={styles.buttonContainer}>
             {canRelease && (
@@ -288,9 +314,9 @@ export default function DroneClaimSection({
           
           {canClaim && (
             <TouchableOpacity
-              style={[styles.button, styles.claimButton, isDisabled && getDisabledStyle()]}
+              style={[styles.button, styles.claimButton, (isDisabled || isOverdueForService) && getDisabledStyle()]}
               onPress={handleClaimDrone}
-              disabled={isDisabled}
+              disabled={isDisabled || isOverdueForService}
             >
               {actionLoading ? (
                 <ActivityIndicator size="small" color="#fff" />
@@ -418,6 +444,9 @@ function ClaimHistoryItem({ claim }: { claim: DroneClaim }) {
           duration
         })}
       </Text>
+      {claim.releaseReason ? (
+        <Text style={styles.releaseReason}>{t(`droneClaims.releaseReasons.${claim.releaseReason}`)}</Text>
+      ) : null}
     </View>
   );
 }
@@ -441,9 +470,11 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     justifyContent: 'space-between',
     alignItems: 'center',
+    gap: 8,
     marginBottom: 12,
   },
   title: {
+    flex: 1,
     fontSize: 18,
     fontWeight: 'bold',
     color: '#333',
@@ -479,6 +510,22 @@ const styles = StyleSheet.create({
     color: '#666',
     marginLeft: 24,
   },
+  overdueRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  overdueText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#FF9800',
+  },
+  serviceRow: {
+    marginBottom: 12,
+  },
+  serviceOverdueText: {
+    color: '#d32f2f',
+  },
   buttonContainer: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -602,4 +649,10 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#666',
   },
+  releaseReason: {
+    fontSize: 13,
+    color: '#dc3545',
+    fontStyle: 'italic',
+    marginTop: 4,
+  },
 });
@@ -13,6 +13,7 @@ import { useTranslation } from 'react-i18next';
 import { DroneComment, CommentVisibility } from '@/types/DroneComment';
 import { UserRole } from '@/types/UserRole';
 import { DroneCommentService } from '@/services/droneCommentService';
+import { OfflineOutboxService } from '@/services/offlineOutboxService';
 import { useCrossPlatformAlert } from './CrossPlatformAlert';
 import { DroneCommentItem } from './DroneCommentItem';
 import { DroneCommentForm } from './DroneCommentForm';
@@ -127,13 +128,20 @@ export const DroneCommentsSection: React.FC<DroneCommentsSectionProps> = ({
   }, [openAddFormWithDraft, onDraftHandled]);
 
   const handleAddComment = async (content: string, images: string[], visibility: CommentVisibility) => {
-    if (isOffline) {
-      crossPlatformAlert.showAlert({ title: t('common.error'), message: t('comments.messages.offlineError') });
-      return;
-    }
-
     setSubmitting(true);
     try {
+      // Comments written offline are posted from the outbox once back online
+      if (isOffline) {
+        await OfflineOutboxService.enqueue(
+          { type: 'createDroneComment', commentData: { droneId, content, images, visibility } },
+          { uid: userId, email: userEmail, role: userRole }
+        );
+        setShowAddForm(false);
+        setDraftContent('');
+        crossPlatformAlert.showAlert({ title: t('common.success'), message: t('comments.messages.commentQueued') });
+        return;
+      }
+
       await DroneCommentService.createDroneComment(
         {
           droneId,
@@ -227,25 +235,23 @@ export const DroneCommentsSection: React.FC<DroneCommentsSectionProps> = ({
     <View style={styles.container}>
       <View style={styles.header}>
         <Text style={styles.title}>{t('comments.title')}</Text>
-        {!isOffline && (
-          <TouchableOpacity
-            style={styles.addButton}
-            onPress={() => setShowAddForm(!showAddForm)}
-          >
-            <Ionicons 
-              name={showAddForm ? "close" : "add"} 
-              size={20} 
-              color="#4CAF50" 
-            />
-            <Text style={styles.addButtonText}>
-              {showAddForm ? t('comments.cancel') : t('comments.addComment')}
-            </Text>
-          </TouchableOpacity>
-        )}
+        <TouchableOpacity
+          style={styles.addButton}
+          onPress={() => setShowAddForm(!showAddForm)}
+        >
+          <Ionicons 
+            name={showAddForm ? "close" : "add"} 
+            size={20} 
+            color="#4CAF50" 
+          />
+          <Text style={styles.addButtonText}>
+            {showAddForm ? t('comments.cancel') : t('comments.addComment')}
+          </Text>
+        </TouchableOpacity>
       </View>
 
       {/* Add comment form */}
-      {showAddForm && !isOffline && (
+      {showAddForm && (
         <DroneCommentForm
           onSubmit={handleAddComment}
           onCancel={() => { setShowAddForm(false); setDraftContent(''); }}
@@ -324,6 +330,7 @@ export const DroneCommentsSection: React.FC<DroneCommentsSectionProps> = ({
         visible={imageViewerVisible}
         onRequestClose={() => setImageViewerVisible(false)}
         onImageIndexChange={setSelectedImageIndex}
+        cacheNamespace="comments"
       />
     </View>
   );
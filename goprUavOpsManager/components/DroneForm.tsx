@@ -18,7 +18,7 @@ import MultiImagePicker from './MultiImagePicker';
 import EquipmentStorageForm from './EquipmentStorageForm';
 import { useResponsiveLayout } from '@/utils/useResponsiveLayout';
 
-export type DroneFormData = Omit<Drone, 'id' | 'createdAt' | 'updatedAt' | 'deletedAt' | 'isDeleted' | 'createdBy' | 'updatedBy'>;
+export type DroneFormData = Omit<Drone, 'id' | 'totalFlightTime' | 'totalFlightCount' | 'serviceIntervals' | 'createdAt' | 'updatedAt' | 'deletedAt' | 'isDeleted' | 'createdBy' | 'updatedBy'>;
 
 interface DroneFormProps {
   mode: 'create' | 'edit';
@@ -40,7 +40,6 @@ export default function DroneForm({ mode, initialData, onSave, onCancel, loading
     inventoryCode: '',
     location: '',
     registrationNumber: '',
-    totalFlightTime: 0,
     equipmentRegistrationNumber: '',
     yearOfCommissioning: new Date().getFullYear(),
     yearOfManufacture: new Date().getFullYear(),
@@ -279,15 +278,6 @@ export default function DroneForm({ mode, initialData, onSave, onCancel, loading
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>{t('droneForm.flightInfo')}</Text>
             
-            <Text style={styles.label}>{t('droneForm.totalFlightTime')}</Text>
-            <TextInput
-              style={styles.input}
-              value={formData.totalFlightTime.toString()}
-              onChangeText={(value) => updateFormData('totalFlightTime', parseInt(value) || 0)}
-              placeholder="0"
-              keyboardType="numeric"
-            />
-
             <Text style={styles.label}>{t('droneForm.operatingTime')}</Text>
             <TextInput
               style={styles.input}
@@ -0,0 +1,370 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  TextInput,
+  ActivityIndicator,
+  ScrollView,
+} from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { Ionicons } from '@expo/vector-icons';
+import { UserRole } from '@/types/UserRole';
+import { DroneReservationConflicts } from '@/types/DroneReservation';
+import { DroneReservationService } from '@/services/droneReservationService';
+import { toLocalDateAndTime } from '@/utils/flightTrackUtils';
+import { formatReservationWindow } from '@/utils/reservationUtils';
+import { useCrossPlatformAlert } from './CrossPlatformAlert';
+import WebCompatibleDatePicker from './WebCompatibleDatePicker';
+import TimePicker from './TimePicker';
+
+interface DroneReservationModalProps {
+  visible: boolean;
+  droneId: string;
+  droneName: string;
+  currentUserId: string;
+  currentUserRole: UserRole;
+  currentUserEmail: string;
+  onClose: () => void;
+  onReserved: () => void;
+}
+
+// Date and time fields of the window being booked
+interface ReservationFormState {
+  startDate: string; // YYYY-MM-DD
+  startTime: string; // HH:mm
+  endDate: string; // YYYY-MM-DD
+  endTime: string; // HH:mm
+  purpose: string;
+}
+
+// Tomorrow morning is the most common booking, for a training day
+function getDefaultFormState(): ReservationFormState {
+  const start = new Date();
+  start.setDate(start.getDate() + 1);
+  start.setHours(8, 0, 0, 0);
+  const end = new Date(start);
+  end.setHours(12);
+
+  const startParts = toLocalDateAndTime(start.toISOString());
+  const endParts = toLocalDateAndTime(end.toISOString());
+  return {
+    startDate: startParts.date,
+    startTime: startParts.time,
+    endDate: endParts.date,
+    endTime: endParts.time,
+    purpose: '',
+  };
+}
+
+function toDate(date: string, time: string): Date | null {
+  if (!date || !time) return null;
+  const value = new Date(`${date}T${time}:00`);
+  return isNaN(value.getTime()) ? null : value;
+}
+
+export default function DroneReservationModal({
+  visible,
+  droneId,
+  droneName,
+  currentUserId,
+  currentUserRole,
+  currentUserEmail,
+  onClose,
+  onReserved
+}: DroneReservationModalProps) {
+  const { t } = useTranslation('common');
+  const crossPlatformAlert = useCrossPlatformAlert();
+
+  const [formState, setFormState] = useState<ReservationFormState>(getDefaultFormState);
+  const [conflicts, setConflicts] = useState<DroneReservationConflicts | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const startTime = toDate(formState.startDate, formState.startTime);
+  const endTime = toDate(formState.endDate, formState.endTime);
+  const startMs = startTime?.getTime();
+  const endMs = endTime?.getTime();
+
+  // Reset state when modal opens
+  useEffect(() => {
+    if (visible) {
+      setFormState(getDefaultFormState());
+      setConflicts(null);
+    }
+  }, [visible]);
+
+  // Look up overlapping bookings whenever the window changes
+  useEffect(() => {
+    if (!visible || startMs === undefined || endMs === undefined || endMs <= startMs) {
+      setConflicts(null);
+      return;
+    }
+
+    let cancelled = false;
+    setChecking(true);
+    DroneReservationService.getConflicts(droneId, new Date(startMs), new Date(endMs), currentUserId)
+      .then(result => {
+        if (!cancelled) setConflicts(result);
+      })
+      .catch(error => {
+        console.error('Error checking reservation conflicts:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setChecking(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [visible, droneId, currentUserId, startMs, endMs]);
+
+  const updateField = (field: keyof ReservationFormState, value: string) => {
+    setFormState(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleReserve = async () => {
+    if (!startTime || !endTime) {
+      crossPlatformAlert.showAlert({
+        title: t('common.error'),
+        message: t('reservations.validation.windowRequired'),
+        buttons: [{ text: t('common.ok') }]
+      });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await DroneReservationService.createReservation(
+        { droneId, startTime, endTime, purpose: formState.purpose },
+        currentUserId,
+        currentUserRole,
+        currentUserEmail
+      );
+      onReserved();
+      onClose();
+      crossPlatformAlert.showAlert({
+        title: t('common.success'),
+        message: t('reservations.reservedSuccess', { droneName }),
+        buttons: [{ text: t('common.ok') }]
+      });
+    } catch (error: any) {
+      crossPlatformAlert.showAlert({
+        title: t('common.error'),
+        message: error.message || t('reservations.reserveFailed'),
+        buttons: [{ text: t('common.ok') }]
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const hasBlockingConflicts = !!conflicts && conflicts.reservations.length > 0;
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.title}>{t('reservations.reserveDrone')}</Text>
+          <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+            <Ionicons name="close" size={24} color="#333" />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+          <Text style={styles.droneInfo}>
+            {t('reservations.reservingFor')}: <Text style={styles.droneName}>{droneName}</Text>
+          </Text>
+
+          <WebCompatibleDatePicker
+            label={t('reservations.startDate')}
+            value={formState.startDate}
+            onDateChange={(value) => updateField('startDate', value)}
+            required={true}
+          />
+          <TimePicker
+            label={t('reservations.startTime')}
+            value={formState.startTime}
+            onTimeChange={(value) => updateField('startTime', value)}
+            required={true}
+          />
+          <WebCompatibleDatePicker
+            label={t('reservations.endDate')}
+            value={formState.endDate}
+            onDateChange={(value) => updateField('endDate', value)}
+            required={true}
+          />
+          <TimePicker
+            label={t('reservations.endTime')}
+            value={formState.endTime}
+            onTimeChange={(value) => updateField('endTime', value)}
+            required={true}
+          />
+
+          <Text style={styles.label}>{t('reservations.purpose')}</Text>
+          <TextInput
+            style={styles.input}
+            value={formState.purpose}
+            onChangeText={(value) => updateField('purpose', value)}
+            placeholder={t('reservations.purposePlaceholder')}
+          />
+
+          {checking ? (
+            <ActivityIndicator size="small" color="#0066CC" style={styles.checking} />
+          ) : null}
+
+          {hasBlockingConflicts ? (
+            <View style={[styles.notice, styles.conflictNotice]}>
+              <Ionicons name="close-circle-outline" size={18} color="#d32f2f" />
+              <View style={styles.noticeBody}>
+                <Text style={[styles.noticeTitle, styles.conflictText]}>{t('reservations.overlapping')}</Text>
+                {conflicts!.reservations.map(reservation => (
+                  <Text key={reservation.id} style={styles.noticeText}>
+                    {formatReservationWindow(reservation.startTime, reservation.endTime)} · {reservation.userEmail}
+                  </Text>
+                ))}
+              </View>
+            </View>
+          ) : null}
+
+          {conflicts?.activeClaim ? (
+            <View style={[styles.notice, styles.warningNotice]}>
+              <Ionicons name="warning-outline" size={18} color="#F57C00" />
+              <View style={styles.noticeBody}>
+                <Text style={[styles.noticeTitle, styles.warningText]}>
+                  {t('reservations.currentlyClaimed', { owner: conflicts.activeClaim.userEmail })}
+                </Text>
+                <Text style={styles.noticeText}>{t('reservations.currentlyClaimedHint')}</Text>
+              </View>
+            </View>
+          ) : null}
+
+          <TouchableOpacity
+            style={[styles.reserveButton, (saving || hasBlockingConflicts) && styles.reserveButtonDisabled]}
+            onPress={handleReserve}
+            disabled={saving || hasBlockingConflicts}
+          >
+            {saving ? (
+              <ActivityIndicator size="small" color="#fff" />
+            ) : (
+              <>
+                <Ionicons name="calendar-outline" size={20} color="#fff" />
+                <Text style={styles.reserveButtonText}>{t('reservations.reserve')}</Text>
+              </>
+            )}
+          </TouchableOpacity>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  droneInfo: {
+    fontSize: 16,
+    color: '#333',
+    marginBottom: 16,
+  },
+  droneName: {
+    fontWeight: 'bold',
+    color: '#007AFF',
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: '#fff',
+    marginBottom: 16,
+  },
+  checking: {
+    marginBottom: 12,
+  },
+  notice: {
+    flexDirection: 'row',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 12,
+  },
+  conflictNotice: {
+    backgroundColor: '#ffebee',
+  },
+  warningNotice: {
+    backgroundColor: '#fff3e0',
+  },
+  noticeBody: {
+    flex: 1,
+    marginLeft: 8,
+  },
+  noticeTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  conflictText: {
+    color: '#d32f2f',
+  },
+  warningText: {
+    color: '#F57C00',
+  },
+  noticeText: {
+    fontSize: 13,
+    color: '#333',
+  },
+  reserveButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#0066CC',
+    borderRadius: 8,
+    paddingVertical: 12,
+    marginTop: 8,
+    marginBottom: 32,
+  },
+  reserveButtonDisabled: {
+    opacity: 0.5,
+  },
+  reserveButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
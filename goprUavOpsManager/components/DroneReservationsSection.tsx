@@ -0,0 +1,415 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  Modal,
+  TextInput,
+} from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { DroneReservation } from '@/types/DroneReservation';
+import { UserRole } from '@/types/UserRole';
+import { DroneReservationService } from '@/services/droneReservationService';
+import { UserService } from '@/services/userService';
+import { RESERVATION_STATUS_COLORS, formatReservationWindow } from '@/utils/reservationUtils';
+import { useCrossPlatformAlert } from './CrossPlatformAlert';
+import { useOfflineButtons } from '@/utils/useOfflineButtons';
+import DroneReservationModal from './DroneReservationModal';
+
+// How far ahead the drone screen lists bookings; the calendar shows the rest
+const UPCOMING_DAYS = 30;
+
+interface DroneReservationsSectionProps {
+  droneId: string;
+  droneName: string;
+  currentUserId: string;
+  currentUserRole: UserRole;
+  currentUserEmail: string;
+  disabled?: boolean;
+}
+
+export default function DroneReservationsSection({
+  droneId,
+  droneName,
+  currentUserId,
+  currentUserRole,
+  currentUserEmail,
+  disabled = false
+}: DroneReservationsSectionProps) {
+  const { t } = useTranslation('common');
+  const router = useRouter();
+  const { isButtonDisabled, getDisabledStyle } = useOfflineButtons();
+  const crossPlatformAlert = useCrossPlatformAlert();
+
+  const [reservations, setReservations] = useState<DroneReservation[]>([]);
+  const [ownerNames, setOwnerNames] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [showReserve, setShowReserve] = useState(false);
+  const [bumping, setBumping] = useState<DroneReservation | null>(null);
+  const [bumpReason, setBumpReason] = useState('');
+  const [actionLoading, setActionLoading] = useState(false);
+
+  const loadReservations = useCallback(async () => {
+    try {
+      setLoading(true);
+      const from = new Date();
+      const to = new Date(from.getTime() + UPCOMING_DAYS * 24 * 60 * 60 * 1000);
+      const upcoming = (await DroneReservationService.getDroneReservations(droneId, from, to))
+        .filter(reservation => reservation.status === 'scheduled' || reservation.status === 'started');
+      setReservations(upcoming);
+
+      const userIds = [...new Set(upcoming.map(reservation => reservation.userId))];
+      const names = await Promise.all(userIds.map(uid => UserService.getUserDisplayName(uid).catch(() => uid)));
+      setOwnerNames(Object.fromEntries(userIds.map((uid, index) => [uid, names[index]])));
+    } catch (error) {
+      console.error('Error loading reservations:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [droneId]);
+
+  useEffect(() => {
+    loadReservations();
+  }, [loadReservations]);
+
+  const handleCancel = (reservation: DroneReservation) => {
+    crossPlatformAlert.showAlert({
+      title: t('reservations.confirmCancel'),
+      message: t('reservations.confirmCancelMessage', {
+        window: formatReservationWindow(reservation.startTime, reservation.endTime)
+      }),
+      buttons: [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('reservations.cancelReservation'),
+          style: 'destructive',
+          onPress: () => cancelReservation(reservation)
+        }
+      ]
+    });
+  };
+
+  const cancelReservation = async (reservation: DroneReservation, reason?: string) => {
+    try {
+      setActionLoading(true);
+      await DroneReservationService.cancelReservation(
+        reservation.id,
+        currentUserId,
+        currentUserRole,
+        currentUserEmail,
+        reason
+      );
+      setBumping(null);
+      await loadReservations();
+    } catch (error: any) {
+      crossPlatformAlert.showAlert({
+        title: t('common.error'),
+        message: error.message || t('reservations.cancelFailed'),
+        buttons: [{ text: t('common.ok') }]
+      });
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const openBump = (reservation: DroneReservation) => {
+    setBumpReason('');
+    setBumping(reservation);
+  };
+
+  const isDisabled = disabled || isButtonDisabled() || actionLoading;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>{t('reservations.title')}</Text>
+        <TouchableOpacity
+          style={styles.calendarButton}
+          onPress={() => router.push(`/reservations?droneId=${droneId}`)}
+        >
+          <Ionicons name="calendar-outline" size={16} color="#007AFF" />
+          <Text style={styles.calendarButtonText}>{t('reservations.calendar')}</Text>
+        </TouchableOpacity>
+      </View>
+
+      {loading ? (
+        <ActivityIndicator size="small" color="#007AFF" />
+      ) : reservations.length === 0 ? (
+        <Text style={styles.emptyText}>{t('reservations.noUpcoming')}</Text>
+      ) : (
+        reservations.map(reservation => {
+          const isOwn = reservation.userId === currentUserId;
+          const canCancel = DroneReservationService.canCancelReservation(reservation, currentUserId, currentUserRole);
+
+          return (
+            <View key={reservation.id} style={styles.item}>
+              <View style={styles.itemHeader}>
+                <Text style={styles.itemWindow}>
+                  {formatReservationWindow(reservation.startTime, reservation.endTime)}
+                </Text>
+                <View style={[styles.statusBadge, { backgroundColor: RESERVATION_STATUS_COLORS[reservation.status] }]}>
+                  <Text style={styles.statusBadgeText}>{t(`reservations.statuses.${reservation.status}`)}</Text>
+                </View>
+              </View>
+              <Text style={styles.itemOwner}>{ownerNames[reservation.userId] || reservation.userEmail}</Text>
+              {reservation.purpose ? <Text style={styles.itemPurpose}>{reservation.purpose}</Text> : null}
+
+              {canCancel ? (
+                <TouchableOpacity
+                  style={[styles.itemAction, isDisabled && getDisabledStyle()]}
+                  onPress={() => isOwn ? handleCancel(reservation) : openBump(reservation)}
+                  disabled={isDisabled}
+                >
+                  <Ionicons name={isOwn ? 'close-circle-outline' : 'swap-horizontal-outline'} size={16} color="#dc3545" />
+                  <Text style={styles.itemActionText}>
+                    {isOwn ? t('reservations.cancelReservation') : t('reservations.bump')}
+                  </Text>
+                </TouchableOpacity>
+              ) : null}
+            </View>
+          );
+        })
+      )}
+
+      <TouchableOpacity
+        style={[styles.reserveButton, isDisabled && getDisabledStyle()]}
+        onPress={() => setShowReserve(true)}
+        disabled={isDisabled}
+      >
+        <Ionicons name="add-circle-outline" size={16} color="#fff" />
+        <Text style={styles.reserveButtonText}>{t('reservations.reserveDrone')}</Text>
+      </TouchableOpacity>
+
+      <DroneReservationModal
+        visible={showReserve}
+        droneId={droneId}
+        droneName={droneName}
+        currentUserId={currentUserId}
+        currentUserRole={currentUserRole}
+        currentUserEmail={currentUserEmail}
+        onClose={() => setShowReserve(false)}
+        onReserved={loadReservations}
+      />
+
+      {/* Bump Modal */}
+      <Modal
+        visible={!!bumping}
+        animationType="fade"
+        transparent={true}
+        onRequestClose={() => setBumping(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.bumpDialog}>
+            <Text style={styles.bumpTitle}>{t('reservations.bump')}</Text>
+            {bumping ? (
+              <Text style={styles.bumpText}>
+                {t('reservations.bumpMessage', {
+                  owner: ownerNames[bumping.userId] || bumping.userEmail,
+                  window: formatReservationWindow(bumping.startTime, bumping.endTime)
+                })}
+              </Text>
+            ) : null}
+            <TextInput
+              style={styles.bumpInput}
+              value={bumpReason}
+              onChangeText={setBumpReason}
+              placeholder={t('reservations.bumpReasonPlaceholder')}
+              multiline
+            />
+            <View style={styles.bumpButtons}>
+              <TouchableOpacity style={styles.bumpCancelButton} onPress={() => setBumping(null)}>
+                <Text style={styles.bumpCancelText}>{t('common.cancel')}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.bumpConfirmButton}
+                onPress={() => bumping && cancelReservation(bumping, bumpReason)}
+                disabled={actionLoading}
+              >
+                {actionLoading ? (
+                  <ActivityIndicator size="small" color="#fff" />
+                ) : (
+                  <Text style={styles.bumpConfirmText}>{t('reservations.bump')}</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 3.84,
+    elevation: 5,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  calendarButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  calendarButtonText: {
+    color: '#007AFF',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 8,
+  },
+  item: {
+    backgroundColor: '#f8f9fa',
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#e9ecef',
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 8,
+  },
+  itemWindow: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+  },
+  statusBadgeText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '500',
+  },
+  itemOwner: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 4,
+  },
+  itemPurpose: {
+    fontSize: 13,
+    color: '#666',
+    fontStyle: 'italic',
+    marginTop: 2,
+  },
+  itemAction: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    alignSelf: 'flex-start',
+    marginTop: 8,
+  },
+  itemActionText: {
+    color: '#dc3545',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  reserveButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#007AFF',
+    paddingVertical: 10,
+    borderRadius: 6,
+    marginTop: 8,
+  },
+  reserveButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  bumpDialog: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 20,
+    width: '100%',
+    maxWidth: 420,
+  },
+  bumpTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 8,
+  },
+  bumpText: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 12,
+  },
+  bumpInput: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 14,
+    minHeight: 60,
+    textAlignVertical: 'top',
+    marginBottom: 16,
+  },
+  bumpButtons: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+  },
+  bumpCancelButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  bumpCancelText: {
+    color: '#666',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  bumpConfirmButton: {
+    backgroundColor: '#dc3545',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 6,
+  },
+  bumpConfirmText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+});
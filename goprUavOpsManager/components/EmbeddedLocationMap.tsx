@@ -8,6 +8,8 @@
  * - Cross-platform compatibility (Web and Mobile)
  * - Small, embedded map display
  * - Marker at specified coordinates
+ * - Optional flight track drawn as a polyline (map fits the track bounds)
+ * - Downloaded map tiles used while offline (mobile)
  * - Fallback handling for unsupported platforms
  * - Optimized for flight location display
  * 
@@ -16,26 +18,32 @@
  * <EmbeddedLocationMap 
  *   coordinates="49.299200, 19.949600"
  *   height={200}
+ *   track={[{ latitude: 49.2992, longitude: 19.9496 }, ...]}
  * />
  * ```
  */
 
 import React, { useEffect, useState } from 'react';
 import { View, Text, StyleSheet, Platform } from 'react-native';
-import { CoordinateUtils } from '@/utils/coordinateUtils';
+import { CoordinateUtils, Coordinates } from '@/utils/coordinateUtils';
+import { getLeafletTags } from '@/utils/mapTileUtils';
+import { useMapTileResources } from '@/utils/useMapTileResources';
 
 interface EmbeddedLocationMapProps {
   coordinates: string;
   height?: number;
   width?: number;
+  track?: Coordinates[];
 }
 
 export const EmbeddedLocationMap: React.FC<EmbeddedLocationMapProps> = ({
   coordinates,
   height = 200,
   width,
+  track,
 }) => {
   const [WebView, setWebView] = useState<any>(null);
+  const mapResources = useMapTileResources();
   const parsedCoordinates = CoordinateUtils.parse(coordinates);
 
   useEffect(() => {
@@ -60,6 +68,7 @@ export const EmbeddedLocationMap: React.FC<EmbeddedLocationMapProps> = ({
   }
 
   const { latitude, longitude } = parsedCoordinates;
+  const trackLatLngs = JSON.stringify((track || []).map(point => [point.latitude, point.longitude]));
 
   const mapHtml = `
     <!DOCTYPE html>
@@ -68,12 +77,7 @@ export const EmbeddedLocationMap: React.FC<EmbeddedLocationMapProps> = ({
       <meta charset="utf-8" />
       <meta name="viewport" content="width=device-width, initial-scale=1.0">
       <title>Flight Location Map</title>
-      <link rel="stylesheet" href="https://unpkg.com/leaflet@1.9.4/dist/leaflet.css"
-        integrity="sha256-p4NxAoJBhIIN+hmNHrzRCf9tD/miZyoHS5obTRR9BMY="
-        crossorigin=""/>
-      <script src="https://unpkg.com/leaflet@1.9.4/dist/leaflet.js"
-        integrity="sha256-20nQCchB9co0qIjJZRGuk2/Z9VM+kNiyxNV1lvTlZBo="
-        crossorigin=""></script>
+      ${getLeafletTags(mapResources)}
       <style>
         html, body {
           height: 100%;
@@ -100,9 +104,10 @@ export const EmbeddedLocationMap: React.FC<EmbeddedLocationMapProps> = ({
           const map = L.map('map').setView([${latitude}, ${longitude}], 13);
           
           // Add OpenStreetMap tiles
-          L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
-            attribution: '© OpenStreetMap contributors',
+          L.tileLayer('${mapResources.tileUrlTemplate}', {
+            attribution: '${mapResources.attribution}',
             maxZoom: 18,
+            maxNativeZoom: ${mapResources.maxNativeZoom ?? 18},
           }).addTo(map);
           
           // Add marker at flight location
@@ -110,6 +115,13 @@ export const EmbeddedLocationMap: React.FC<EmbeddedLocationMapProps> = ({
             .addTo(map)
             .bindPopup('<b>Flight Location</b><br/>Lat: ${latitude}<br/>Lng: ${longitude}');
           
+          // Draw the flight track and zoom to the area covered
+          const trackLatLngs = ${trackLatLngs};
+          if (trackLatLngs.length > 1) {
+            const trackLine = L.polyline(trackLatLngs, { color: '#d32f2f', weight: 3 }).addTo(map);
+            map.fitBounds(trackLine.getBounds(), { padding: [15, 15] });
+          }
+          
           // Disable map interaction for embedded view
           map.dragging.disable();
           map.touchZoom.disable();
@@ -153,8 +165,11 @@ export const EmbeddedLocationMap: React.FC<EmbeddedLocationMapProps> = ({
     return (
       <View style={[styles.container, { height, width }]}>
         <WebView
-          source={{ html: mapHtml }}
+          source={{ html: mapHtml, baseUrl: mapResources.baseUrl }}
           style={styles.webView}
+          allowFileAccess={!!mapResources.baseUrl}
+          allowFileAccessFromFileURLs={!!mapResources.baseUrl}
+          allowingReadAccessToURL={mapResources.baseUrl}
           scrollEnabled={false}
           bounces={false}
           showsHorizontalScrollIndicator={false}
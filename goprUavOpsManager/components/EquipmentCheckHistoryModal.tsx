@@ -0,0 +1,224 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { EquipmentCheck } from '@/types/EquipmentCheck';
+import { EquipmentCheckService } from '@/services/equipmentCheckService';
+
+interface EquipmentCheckHistoryModalProps {
+  visible: boolean;
+  droneId: string;
+  onClose: () => void;
+}
+
+export default function EquipmentCheckHistoryModal({
+  visible,
+  droneId,
+  onClose,
+}: EquipmentCheckHistoryModalProps) {
+  const { t } = useTranslation('common');
+  const router = useRouter();
+  const [checks, setChecks] = useState<EquipmentCheck[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+
+    let cancelled = false;
+    setLoading(true);
+    EquipmentCheckService.getDroneChecks(droneId)
+      .then(result => {
+        if (!cancelled) setChecks(result);
+      })
+      .catch(error => {
+        console.error('Error loading equipment checks:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [visible, droneId]);
+
+  const openFlight = (flightId: string) => {
+    onClose();
+    router.push(`/flights/${flightId}`);
+  };
+
+  const renderCheck = (check: EquipmentCheck) => {
+    const missingItems = check.items.filter(item => !item.present);
+    const isComplete = missingItems.length === 0;
+
+    return (
+      <View key={check.id} style={styles.checkItem}>
+        <View style={styles.checkHeader}>
+          <Ionicons
+            name={isComplete ? 'checkmark-circle' : 'alert-circle'}
+            size={20}
+            color={isComplete ? '#34C759' : '#D7263D'}
+          />
+          <Text style={styles.checkDate}>{check.checkedAt.toLocaleString()}</Text>
+        </View>
+        <Text style={styles.checkUser}>{check.userEmail}</Text>
+        <Text style={[styles.checkSummary, !isComplete && styles.missingText]}>
+          {isComplete
+            ? t('equipment.history.complete', { total: check.items.length })
+            : t('equipment.history.missingCount', { missing: missingItems.length, total: check.items.length })}
+        </Text>
+        {missingItems.map(item => (
+          <Text key={item.itemId} style={styles.missingItem}>
+            - {item.name}{item.quantity ? ` (x${item.quantity})` : ''} · {item.storageName}
+          </Text>
+        ))}
+        {check.claimId || check.flightId ? (
+          <View style={styles.links}>
+            {check.claimId ? (
+              <View style={styles.linkBadge}>
+                <Ionicons name="hand-left-outline" size={12} color="#666" />
+                <Text style={styles.linkText}>{t('equipment.history.duringClaim')}</Text>
+              </View>
+            ) : null}
+            {check.flightId ? (
+              <TouchableOpacity style={styles.linkBadge} onPress={() => openFlight(check.flightId!)}>
+                <Ionicons name="airplane-outline" size={12} color="#007AFF" />
+                <Text style={[styles.linkText, styles.linkTextActive]}>{t('equipment.history.linkedFlight')}</Text>
+              </TouchableOpacity>
+            ) : null}
+          </View>
+        ) : null}
+      </View>
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.title}>{t('equipment.history.title')}</Text>
+          <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+            <Ionicons name="close" size={24} color="#333" />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.content}>
+          {loading ? (
+            <ActivityIndicator size="large" color="#007AFF" style={styles.loading} />
+          ) : checks.length === 0 ? (
+            <Text style={styles.emptyText}>{t('equipment.history.empty')}</Text>
+          ) : (
+            checks.map(renderCheck)
+          )}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  loading: {
+    marginTop: 32,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 32,
+  },
+  checkItem: {
+    backgroundColor: '#f8f9fa',
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#e9ecef',
+  },
+  checkHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  checkDate: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  checkUser: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 4,
+  },
+  checkSummary: {
+    fontSize: 14,
+    color: '#34C759',
+    marginTop: 4,
+  },
+  missingText: {
+    color: '#D7263D',
+  },
+  missingItem: {
+    fontSize: 13,
+    color: '#333',
+    marginTop: 2,
+    marginLeft: 8,
+  },
+  links: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 8,
+  },
+  linkBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    backgroundColor: '#e9ecef',
+  },
+  linkText: {
+    fontSize: 12,
+    color: '#666',
+  },
+  linkTextActive: {
+    color: '#007AFF',
+  },
+});
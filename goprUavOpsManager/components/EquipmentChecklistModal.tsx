@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -7,16 +7,25 @@ import {
   TouchableOpacity,
   ScrollView,
   Image,
+  ActivityIndicator,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useTranslation } from 'react-i18next';
 import { Ionicons } from '@expo/vector-icons';
 import { EquipmentStorage } from '@/types/Drone';
+import { Flight } from '@/types/Flight';
+import { EquipmentCheckService } from '@/services/equipmentCheckService';
+import { useCrossPlatformAlert } from './CrossPlatformAlert';
 
 interface EquipmentChecklistModalProps {
   visible: boolean;
   equipmentStorages: EquipmentStorage[];
+  droneId: string;
+  currentUserId: string;
+  currentUserEmail: string;
+  claimId?: string; // active claim of the current user, linked to the saved check
   onClose: () => void;
+  onSaved?: () => void;
   // callback wywoływany po wyborze "Zgłoś braki"; argument to domyślny tekst komentarza
   onReportMissing?: (defaultComment: string) => void;
 }
@@ -28,12 +37,36 @@ interface ChecklistState {
 export default function EquipmentChecklistModal({
   visible,
   equipmentStorages,
+  droneId,
+  currentUserId,
+  currentUserEmail,
+  claimId,
   onClose,
+  onSaved,
   onReportMissing,
 }: EquipmentChecklistModalProps) {
   const { t } = useTranslation('common');
+  const crossPlatformAlert = useCrossPlatformAlert();
   const [checkedItems, setCheckedItems] = useState<ChecklistState>({});
   const [currentStorageIndex, setCurrentStorageIndex] = useState(0);
+  const [linkableFlights, setLinkableFlights] = useState<Flight[]>([]);
+  const [flightId, setFlightId] = useState<string | undefined>(undefined);
+  const [saving, setSaving] = useState(false);
+
+  // Offer the user's recent flights with this drone as an optional link
+  useEffect(() => {
+    if (!visible) return;
+
+    let cancelled = false;
+    setFlightId(undefined);
+    EquipmentCheckService.getLinkableFlights(droneId, currentUserId).then(flights => {
+      if (!cancelled) setLinkableFlights(flights);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [visible, droneId, currentUserId]);
 
   // Get all items from all storages for total count
   const allItems = equipmentStorages.flatMap(storage => storage.items);
@@ -70,7 +103,45 @@ export default function EquipmentChecklistModal({
     setCheckedItems({});
   };
 
-  const handleReportMissing = () => {
+  // Save the check; returns false when saving failed and the error was shown
+  const saveCheck = async (): Promise<boolean> => {
+    try {
+      setSaving(true);
+      await EquipmentCheckService.saveCheck(
+        droneId,
+        equipmentStorages,
+        checkedItems,
+        currentUserId,
+        currentUserEmail,
+        { claimId, flightId }
+      );
+      setCheckedItems({});
+      onSaved?.();
+      return true;
+    } catch (error: any) {
+      crossPlatformAlert.showAlert({
+        title: t('common.error'),
+        message: error.message || t('equipment.saveCheckFailed'),
+        buttons: [{ text: t('common.ok') }]
+      });
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveCheck = async () => {
+    if (!(await saveCheck())) return;
+
+    onClose();
+    crossPlatformAlert.showAlert({
+      title: t('common.success'),
+      message: t('equipment.checkSaved'),
+      buttons: [{ text: t('common.ok') }]
+    });
+  };
+
+  const handleReportMissing = async () => {
     // Build list of missing items (those not checked)
     const missing = allItems.filter(item => !checkedItems[item.id]);
 
@@ -82,6 +153,9 @@ export default function EquipmentChecklistModal({
       defaultComment = `${t('equipment.reportMissingIntro')}\n${lines.join('\n')}`;
     }
 
+    // Record the check before handing over to the comment form
+    if (!(await saveCheck())) return;
+
     // Close modal first
     onClose();
 
@@ -220,7 +294,53 @@ export default function EquipmentChecklistModal({
             {t('equipment.checklistNote')}
           </Text>
 
-          <TouchableOpacity style={styles.reportMissingButton} onPress={handleReportMissing}>
+          {linkableFlights.length > 0 && (
+            <View style={styles.flightLink}>
+              <Text style={styles.flightLinkLabel}>{t('equipment.linkFlight')}</Text>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                <TouchableOpacity
+                  style={[styles.flightChip, !flightId && styles.flightChipActive]}
+                  onPress={() => setFlightId(undefined)}
+                >
+                  <Text style={[styles.flightChipText, !flightId && styles.flightChipTextActive]}>
+                    {t('equipment.noFlight')}
+                  </Text>
+                </TouchableOpacity>
+                {linkableFlights.map(flight => (
+                  <TouchableOpacity
+                    key={flight.id}
+                    style={[styles.flightChip, flightId === flight.id && styles.flightChipActive]}
+                    onPress={() => setFlightId(flight.id)}
+                  >
+                    <Text style={[styles.flightChipText, flightId === flight.id && styles.flightChipTextActive]}>
+                      {flight.date} · {flight.location}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </ScrollView>
+            </View>
+          )}
+
+          <TouchableOpacity
+            style={[styles.saveCheckButton, (saving || totalCount === 0) && styles.buttonDisabled]}
+            onPress={handleSaveCheck}
+            disabled={saving || totalCount === 0}
+          >
+            {saving ? (
+              <ActivityIndicator size="small" color="#fff" />
+            ) : (
+              <>
+                <Ionicons name="save-outline" size={18} color="#fff" style={{ marginRight: 6 }} />
+                <Text style={styles.saveCheckText}>{t('equipment.saveCheck')}</Text>
+              </>
+            )}
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[styles.reportMissingButton, (saving || totalCount === 0) && styles.buttonDisabled]}
+            onPress={handleReportMissing}
+            disabled={saving || totalCount === 0}
+          >
             <Ionicons name="alert-circle-outline" size={18} color="#D7263D" style={{ marginRight: 6 }} />
             <Text style={styles.reportMissingText}>{t('equipment.reportMissing')}</Text>
           </TouchableOpacity>
@@ -443,4 +563,49 @@ const styles = StyleSheet.create({
     color: '#D7263D',
     fontWeight: '500',
   },
+  saveCheckButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    backgroundColor: '#34C759',
+    marginTop: 8,
+  },
+  saveCheckText: {
+    fontSize: 14,
+    color: '#fff',
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  flightLink: {
+    marginTop: 8,
+  },
+  flightLinkLabel: {
+    fontSize: 12,
+    color: '#666',
+    marginBottom: 6,
+  },
+  flightChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    marginRight: 8,
+  },
+  flightChipActive: {
+    backgroundColor: '#007AFF',
+  },
+  flightChipText: {
+    fontSize: 13,
+    color: '#007AFF',
+  },
+  flightChipTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
 });
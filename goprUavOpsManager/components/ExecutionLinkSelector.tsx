@@ -0,0 +1,208 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  Platform,
+} from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { Ionicons } from '@expo/vector-icons';
+import { Picker } from '@react-native-picker/picker';
+import { UserRole } from '@/types/UserRole';
+import { Drone } from '@/types/Drone';
+import { Flight } from '@/types/Flight';
+import { DroneService } from '@/services/droneService';
+import { ProcedureExecutionService } from '@/services/procedureExecutionService';
+
+interface ExecutionLinkSelectorProps {
+  currentUserId: string;
+  currentUserRole: UserRole;
+  droneId?: string;
+  flightId?: string;
+  onDroneChange: (droneId: string | undefined) => void;
+  onFlightChange: (flightId: string | undefined) => void;
+}
+
+/**
+ * Collapsible picker for the drone and flight a procedure run is recorded for.
+ * Works offline without options: the run is then stored unlinked.
+ */
+export default function ExecutionLinkSelector({
+  currentUserId,
+  currentUserRole,
+  droneId,
+  flightId,
+  onDroneChange,
+  onFlightChange,
+}: ExecutionLinkSelectorProps) {
+  const { t } = useTranslation('common');
+  const [expanded, setExpanded] = useState(false);
+  const [drones, setDrones] = useState<Drone[]>([]);
+  const [linkableFlights, setLinkableFlights] = useState<Flight[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    DroneService.getDrones(currentUserRole)
+      .then(fetchedDrones => {
+        if (!cancelled) setDrones(fetchedDrones.filter(drone => !drone.isDeleted));
+      })
+      .catch(error => console.error('Error fetching drones for procedure execution:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [currentUserRole]);
+
+  // Offer the user's recent flights with the selected drone as an optional link
+  useEffect(() => {
+    if (!droneId) {
+      setLinkableFlights([]);
+      return;
+    }
+
+    let cancelled = false;
+    ProcedureExecutionService.getLinkableFlights(droneId, currentUserId).then(flights => {
+      if (!cancelled) setLinkableFlights(flights);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [droneId, currentUserId]);
+
+  const selectedDrone = drones.find(drone => drone.id === droneId);
+  const selectedFlight = linkableFlights.find(flight => flight.id === flightId);
+  const summary = [
+    selectedDrone ? DroneService.formatDroneName(selectedDrone) : t('procedures.execution.noDrone'),
+    selectedFlight ? `${selectedFlight.date} · ${selectedFlight.location}` : null,
+  ].filter(Boolean).join(' · ');
+
+  if (drones.length === 0) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity style={styles.summaryRow} onPress={() => setExpanded(!expanded)}>
+        <Ionicons name="link-outline" size={16} color="#0066CC" />
+        <Text style={styles.summaryText} numberOfLines={1}>
+          {t('procedures.execution.recordedFor')}: {summary}
+        </Text>
+        <Ionicons name={expanded ? 'chevron-up' : 'chevron-down'} size={16} color="#666" />
+      </TouchableOpacity>
+
+      {expanded && (
+        <View style={styles.panel}>
+          <Text style={styles.label}>{t('procedures.execution.drone')}</Text>
+          <View style={styles.pickerContainer}>
+            <Picker
+              selectedValue={droneId || ''}
+              onValueChange={(value) => {
+                onDroneChange(value ? String(value) : undefined);
+                onFlightChange(undefined);
+              }}
+              style={styles.picker}
+            >
+              <Picker.Item label={t('procedures.execution.noDrone')} value="" />
+              {drones.map(drone => (
+                <Picker.Item key={drone.id} label={DroneService.formatDroneName(drone)} value={drone.id} />
+              ))}
+            </Picker>
+          </View>
+
+          {linkableFlights.length > 0 && (
+            <>
+              <Text style={styles.label}>{t('procedures.execution.flight')}</Text>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                <TouchableOpacity
+                  style={[styles.flightChip, !flightId && styles.flightChipActive]}
+                  onPress={() => onFlightChange(undefined)}
+                >
+                  <Text style={[styles.flightChipText, !flightId && styles.flightChipTextActive]}>
+                    {t('procedures.execution.noFlight')}
+                  </Text>
+                </TouchableOpacity>
+                {linkableFlights.map(flight => (
+                  <TouchableOpacity
+                    key={flight.id}
+                    style={[styles.flightChip, flightId === flight.id && styles.flightChipActive]}
+                    onPress={() => onFlightChange(flight.id)}
+                  >
+                    <Text style={[styles.flightChipText, flightId === flight.id && styles.flightChipTextActive]}>
+                      {flight.date} · {flight.location}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </ScrollView>
+            </>
+          )}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  summaryText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#333',
+  },
+  panel: {
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 6,
+  },
+  pickerContainer: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 6,
+    backgroundColor: '#fff',
+    marginBottom: 12,
+    ...(Platform.OS === 'android' && {
+      paddingHorizontal: 4,
+    }),
+  },
+  picker: {
+    height: 50,
+  },
+  flightChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: '#f8f9fa',
+    marginRight: 8,
+  },
+  flightChipActive: {
+    borderColor: '#0066CC',
+    backgroundColor: '#0066CC',
+  },
+  flightChipText: {
+    fontSize: 13,
+    color: '#333',
+  },
+  flightChipTextActive: {
+    color: '#fff',
+  },
+});
@@ -0,0 +1,113 @@
+import React from 'react';
+import { View, Text, StyleSheet, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { TFunction } from 'i18next';
+import { FlightCurrencyCheckResult, FlightCurrencyIssue } from '@/types/FlightCurrency';
+
+interface FlightCurrencyNoticeProps {
+  result: FlightCurrencyCheckResult | null;
+  checking?: boolean;
+}
+
+/**
+ * Translate a single pilot currency issue into a user-facing message
+ */
+export function formatCurrencyIssue(t: TFunction, issue: FlightCurrencyIssue): string {
+  return t(`flightCurrency.issues.${issue.code}`, issue.params);
+}
+
+/**
+ * Shows blocking errors and warnings from the pilot currency check in the flight form
+ */
+export default function FlightCurrencyNotice({ result, checking = false }: FlightCurrencyNoticeProps) {
+  const { t } = useTranslation('common');
+
+  if (checking) {
+    return (
+      <View style={styles.checkingRow}>
+        <ActivityIndicator size="small" color="#0066CC" />
+        <Text style={styles.checkingText}>{t('flightCurrency.checking')}</Text>
+      </View>
+    );
+  }
+
+  if (!result || (result.errors.length === 0 && result.warnings.length === 0)) {
+    return null;
+  }
+
+  return (
+    <View>
+      {result.errors.length > 0 ? (
+        <View style={[styles.container, styles.errorContainer]}>
+          <View style={styles.titleRow}>
+            <Ionicons name="close-circle-outline" size={18} color="#d32f2f" />
+            <Text style={[styles.title, styles.errorText]}>{t('flightCurrency.errorsTitle')}</Text>
+          </View>
+          {result.errors.map(issue => (
+            <Text key={issue.code} style={[styles.item, styles.errorText]}>• {formatCurrencyIssue(t, issue)}</Text>
+          ))}
+        </View>
+      ) : null}
+
+      {result.warnings.length > 0 ? (
+        <View style={[styles.container, styles.warningContainer]}>
+          <View style={styles.titleRow}>
+            <Ionicons name="warning-outline" size={18} color="#E65100" />
+            <Text style={[styles.title, styles.warningText]}>{t('flightCurrency.warningsTitle')}</Text>
+          </View>
+          {result.warnings.map(issue => (
+            <Text key={issue.code} style={[styles.item, styles.warningText]}>• {formatCurrencyIssue(t, issue)}</Text>
+          ))}
+        </View>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    borderRadius: 8,
+    borderWidth: 1,
+    padding: 12,
+    marginBottom: 16,
+  },
+  errorContainer: {
+    backgroundColor: '#ffebee',
+    borderColor: '#d32f2f',
+  },
+  warningContainer: {
+    backgroundColor: '#fff3e0',
+    borderColor: '#FF9800',
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+  item: {
+    fontSize: 14,
+    marginTop: 2,
+  },
+  errorText: {
+    color: '#b71c1c',
+  },
+  warningText: {
+    color: '#E65100',
+  },
+  checkingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  checkingText: {
+    fontSize: 14,
+    color: '#666',
+    marginLeft: 8,
+  },
+});
@@ -11,24 +11,38 @@ import {
 import { KeyboardAwareScrollView } from 'react-native-keyboard-aware-scroll-view';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Picker } from '@react-native-picker/picker';
+import { Ionicons } from '@expo/vector-icons';
 import { useTranslation } from 'react-i18next';
 import { useAuth } from '@/contexts/AuthContext';
 import { DroneService } from '@/services/droneService';
+import { FlightService } from '@/services/flightService';
+import { MissionService } from '@/services/missionService';
+import { BatteryService } from '@/services/batteryService';
 import { Drone } from '@/types/Drone';
+import { Battery } from '@/types/Battery';
+import { Mission } from '@/types/Mission';
 import { useCrossPlatformAlert } from './CrossPlatformAlert';
 import WebCompatibleDatePicker from './WebCompatibleDatePicker';
 import { useOfflineButtons } from '@/utils/useOfflineButtons';
 import TimePicker from './TimePicker';
 import LocationSelector from './LocationSelector';
+import FlightCurrencyNotice from './FlightCurrencyNotice';
+import FlightTrackImporter from './FlightTrackImporter';
+import GeozoneWarnings from './GeozoneWarnings';
 import { 
   FlightCategory, 
   OperationType, 
   ActivityType,
   AVAILABLE_FLIGHT_CATEGORIES,
   AVAILABLE_OPERATION_TYPES,
-  AVAILABLE_ACTIVITY_TYPES
+  AVAILABLE_ACTIVITY_TYPES,
+  FlightTrackImport
 } from '@/types/Flight';
+import { FlightCurrencyCheckResult } from '@/types/FlightCurrency';
 import { useResponsiveLayout } from '@/utils/useResponsiveLayout';
+import { useGeozoneCheck } from '@/utils/useGeozoneCheck';
+import { toLocalDateAndTime } from '@/utils/flightTrackUtils';
+import { getCompatibleBatteries, isBatteryDegraded } from '@/utils/batteryUtils';
 
 export interface FlightFormData {
   location: string;
@@ -45,6 +59,10 @@ export interface FlightFormData {
   endTime: string; // HH:mm
   conditions: string;
   additionalInfo?: string; // Additional information about the flight
+  missionId?: string; // Rescue mission the flight was flown for
+  batteryIds?: string[]; // Packs used on the flight
+  trackImport?: FlightTrackImport; // Newly imported track, uploaded after saving
+  trackFileName?: string; // Track already stored on the flight (edit mode)
 }
 
 interface FlightFormProps {
@@ -59,11 +77,15 @@ export default function FlightForm({ mode, initialData, onSave, onCancel, loadin
   const { user } = useAuth();
   const { t } = useTranslation('common');
   const { isButtonDisabled, getDisabledStyle } = useOfflineButtons();
+  // New flights can be saved offline to the outbox, edits need a connection
+  const allowOfflineSave = mode === 'create';
   const crossPlatformAlert = useCrossPlatformAlert();
   const responsive = useResponsiveLayout();
 
   const [dronesLoading, setDronesLoading] = useState(true);
   const [drones, setDrones] = useState<Drone[]>([]);
+  const [missions, setMissions] = useState<Mission[]>([]);
+  const [batteries, setBatteries] = useState<Battery[]>([]);
   const [operatorSelection, setOperatorSelection] = useState<string>(''); // For create mode operator selection
   const [showOtherOperatorInput, setShowOtherOperatorInput] = useState(false); // Show "Other" input field
   const [showCustomDroneInput, setShowCustomDroneInput] = useState(false); // Show custom drone name input
@@ -86,10 +108,14 @@ export default function FlightForm({ mode, initialData, onSave, onCancel, loadin
       endTime: '',
       conditions: '',
       additionalInfo: '',
+      batteryIds: [],
     };
   }, []);
 
   const [formData, setFormData] = useState<FlightFormData>(initialData || defaultFormData);
+  const geozoneCheck = useGeozoneCheck(formData.coordinates);
+  const [currencyCheck, setCurrencyCheck] = useState<FlightCurrencyCheckResult | null>(null);
+  const [currencyChecking, setCurrencyChecking] = useState(false);
 
   const fetchDrones = useCallback(async () => {
     if (!user) return;
@@ -111,6 +137,35 @@ export default function FlightForm({ mode, initialData, onSave, onCancel, loadin
     fetchDrones();
   }, [fetchDrones]);
 
+  // Missions are only needed for rescue flights; load them lazily
+  useEffect(() => {
+    if (!user || formData.activityType !== 'Rescue' || missions.length > 0) return;
+
+    MissionService.getSelectableMissions(user.role)
+      .then(setMissions)
+      .catch(error => console.error('Error fetching missions:', error));
+  }, [user, formData.activityType, missions.length]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    BatteryService.getBatteries()
+      .then(setBatteries)
+      .catch(error => console.error('Error fetching batteries:', error));
+  }, [user]);
+
+  // Packs for the selected drone, plus retired ones already recorded on the flight
+  const selectableBatteries = useMemo(() => {
+    const selectedIds = formData.batteryIds || [];
+    const compatible = getCompatibleBatteries(batteries, formData.droneId);
+    const recorded = batteries.filter(battery => selectedIds.includes(battery.id) && !compatible.includes(battery));
+    return [...compatible, ...recorded];
+  }, [batteries, formData.droneId, formData.batteryIds]);
+
+  const selectedDegradedBatteries = selectableBatteries.filter(
+    battery => (formData.batteryIds || []).includes(battery.id) && isBatteryDegraded(battery)
+  );
+
   useEffect(() => {
     if (initialData) {
       setFormData(initialData);
@@ -123,10 +178,79 @@ export default function FlightForm({ mode, initialData, onSave, onCancel, loadin
     }
   }, [initialData, mode, defaultFormData]);
 
+  // Check pilot currency for new flights whenever the category or flight date changes
+  useEffect(() => {
+    if (mode !== 'create' || !user || !formData.flightCategory || !/^\d{4}-\d{2}-\d{2}$/.test(formData.startDate)) {
+      setCurrencyCheck(null);
+      return;
+    }
+
+    let cancelled = false;
+    setCurrencyChecking(true);
+
+    FlightService.checkPilotCurrency(user.uid, {
+      flightCategory: formData.flightCategory,
+      flightDate: formData.startDate,
+    })
+      .then(result => {
+        if (!cancelled) {
+          setCurrencyCheck(result);
+        }
+      })
+      .catch(error => {
+        console.error('Error checking pilot currency:', error);
+        if (!cancelled) {
+          setCurrencyCheck(null);
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setCurrencyChecking(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [mode, user, formData.flightCategory, formData.startDate]);
+
   const updateFormData = (field: keyof FlightFormData, value: string) => {
     setFormData(prev => ({ ...prev, [field]: value }));
   };
 
+  const toggleBattery = (batteryId: string) => {
+    setFormData(prev => {
+      const batteryIds = prev.batteryIds || [];
+      return {
+        ...prev,
+        batteryIds: batteryIds.includes(batteryId)
+          ? batteryIds.filter(id => id !== batteryId)
+          : [...batteryIds, batteryId],
+      };
+    });
+  };
+
+  // Fill times and takeoff coordinates from an imported track
+  const handleTrackImport = (trackImport: FlightTrackImport) => {
+    const { summary } = trackImport.track;
+    setFormData(prev => {
+      const next: FlightFormData = { ...prev, trackImport, coordinates: summary.takeoffCoordinates };
+      if (summary.startTime && summary.endTime) {
+        const start = toLocalDateAndTime(summary.startTime);
+        const end = toLocalDateAndTime(summary.endTime);
+        next.startDate = start.date;
+        next.startTime = start.time;
+        next.endDate = end.date;
+        next.endTime = end.time;
+      }
+      return next;
+    });
+  };
+
+  const handleTrackRemove = () => {
+    setFormData(prev => ({ ...prev, trackImport: undefined }));
+  };
+
   // Calculate flight duration for display
   const getFlightDuration = (): string => {
     const { startDate, startTime, endDate, endTime } = formData;
@@ -250,7 +374,7 @@ export default function FlightForm({ mode, initialData, onSave, onCancel, loadin
   };
 
   const handleSave = async () => {
-    if (!validateForm() || isButtonDisabled()) return;
+    if (!validateForm() || isButtonDisabled(allowOfflineSave)) return;
 
     try {
       await onSave(formData);
@@ -295,6 +419,14 @@ export default function FlightForm({ mode, initialData, onSave, onCancel, loadin
               { fontSize: responsive.fontSize.subtitle }
             ]}>{t('flightForm.basicInfo')}</Text>
 
+            <FlightTrackImporter
+              trackImport={formData.trackImport}
+              existingFileName={formData.trackFileName}
+              onImport={handleTrackImport}
+              onRemove={handleTrackRemove}
+              disabled={loading}
+            />
+
             {/* Location Selector Component */}
             <LocationSelector
               coordinates={formData.coordinates}
@@ -304,6 +436,7 @@ export default function FlightForm({ mode, initialData, onSave, onCancel, loadin
               disabled={loading}
               required={true}
             />
+            <GeozoneWarnings matches={geozoneCheck.matches} checking={geozoneCheck.checking} />
 
             <Text style={styles.label}>{t('flightForm.category')} *</Text>
             <View style={styles.pickerContainer}>
@@ -323,6 +456,10 @@ export default function FlightForm({ mode, initialData, onSave, onCancel, loadin
               </Picker>
             </View>
 
+            {mode === 'create' ? (
+              <FlightCurrencyNotice result={currencyCheck} checking={currencyChecking} />
+            ) : null}
+
             <Text style={styles.label}>{t('flightForm.operation')} *</Text>
             <View style={styles.pickerContainer}>
               <Picker
@@ -345,7 +482,12 @@ export default function FlightForm({ mode, initialData, onSave, onCancel, loadin
             <View style={styles.pickerContainer}>
               <Picker
                 selectedValue={String(formData.activityType || '')}
-                onValueChange={(value) => updateFormData('activityType', value)}
+                onValueChange={(value) => {
+                  updateFormData('activityType', value);
+                  if (value !== 'Rescue') {
+                    updateFormData('missionId', '');
+                  }
+                }}
                 style={styles.picker}
               >
                 <Picker.Item label={t('flightForm.activityPlaceholder')} value="" />
@@ -359,12 +501,36 @@ export default function FlightForm({ mode, initialData, onSave, onCancel, loadin
               </Picker>
             </View>
 
+            {formData.activityType === 'Rescue' && (
+              <>
+                <Text style={styles.label}>{t('flightForm.mission')}</Text>
+                <View style={styles.pickerContainer}>
+                  <Picker
+                    selectedValue={String(formData.missionId || '')}
+                    onValueChange={(value) => updateFormData('missionId', value)}
+                    style={styles.picker}
+                  >
+                    <Picker.Item label={t('flightForm.missionPlaceholder')} value="" />
+                    {missions.map((mission) => (
+                      <Picker.Item
+                        key={mission.id}
+                        label={`${mission.incidentNumber} - ${mission.title}`}
+                        value={mission.id}
+                      />
+                    ))}
+                  </Picker>
+                </View>
+              </>
+            )}
+
             <Text style={styles.label}>{t('flightForm.drone')} *</Text>
             <View style={styles.pickerContainer}>
               <Picker
                 selectedValue={String(formData.droneId || '')}
                 onValueChange={(value) => {
                   updateFormData('droneId', value);
+                  // Packs belong to a drone type, so a new drone starts without any
+                  setFormData(prev => ({ ...prev, batteryIds: [] }));
                   if (value === 'other') {
                     setShowCustomDroneInput(true);
                     updateFormData('customDroneName', '');
@@ -401,6 +567,42 @@ export default function FlightForm({ mode, initialData, onSave, onCancel, loadin
               </>
             )}
 
+            {selectableBatteries.length > 0 && (
+              <>
+                <Text style={styles.label}>{t('flightForm.batteries')}</Text>
+                <View style={styles.batteryChips}>
+                  {selectableBatteries.map((battery) => {
+                    const selected = (formData.batteryIds || []).includes(battery.id);
+                    const degraded = isBatteryDegraded(battery);
+                    return (
+                      <TouchableOpacity
+                        key={battery.id}
+                        style={[styles.batteryChip, selected && styles.batteryChipSelected]}
+                        onPress={() => toggleBattery(battery.id)}
+                      >
+                        {degraded && (
+                          <Ionicons name="warning" size={14} color={selected ? '#fff' : '#d32f2f'} />
+                        )}
+                        <Text style={[styles.batteryChipText, selected && styles.batteryChipTextSelected]}>
+                          {battery.label} ({battery.cycleCount})
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+                {selectedDegradedBatteries.length > 0 && (
+                  <View style={styles.batteryWarning}>
+                    <Ionicons name="warning-outline" size={18} color="#d32f2f" />
+                    <Text style={styles.batteryWarningText}>
+                      {t(formData.activityType === 'Rescue' ? 'flightForm.degradedBatteriesRescue' : 'flightForm.degradedBatteries', {
+                        labels: selectedDegradedBatteries.map(battery => battery.label).join(', ')
+                      })}
+                    </Text>
+                  </View>
+                )}
+              </>
+            )}
+
             {/* Operator field - different behavior for create vs edit */}
             <Text style={styles.label}>{t('flightForm.operator')} *</Text>
             {mode === 'create' ? (
@@ -521,9 +723,9 @@ export default function FlightForm({ mode, initialData, onSave, onCancel, loadin
             </TouchableOpacity>
 
             <TouchableOpacity
-              style={[styles.submitButton, (loading || isButtonDisabled()) && styles.disabledButton, getDisabledStyle()]}
+              style={[styles.submitButton, (loading || isButtonDisabled(allowOfflineSave)) && styles.disabledButton, getDisabledStyle(allowOfflineSave)]}
               onPress={handleSave}
-              disabled={loading || isButtonDisabled()}
+              disabled={loading || isButtonDisabled(allowOfflineSave)}
             >
               {loading ? (
                 <ActivityIndicator color="#fff" />
@@ -674,4 +876,48 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#0066CC',
   },
+  batteryChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  batteryChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: '#f8f9fa',
+  },
+  batteryChipSelected: {
+    borderColor: '#0066CC',
+    backgroundColor: '#0066CC',
+  },
+  batteryChipText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  batteryChipTextSelected: {
+    color: '#fff',
+  },
+  batteryWarning: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#ffebee',
+    borderWidth: 1,
+    borderColor: '#d32f2f',
+    borderRadius: 6,
+    padding: 12,
+    marginBottom: 16,
+  },
+  batteryWarningText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#d32f2f',
+  },
 });
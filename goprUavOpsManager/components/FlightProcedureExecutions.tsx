@@ -0,0 +1,248 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { Flight } from '@/types/Flight';
+import { ProcedureExecution } from '@/types/ProcedureExecution';
+import { UserRole } from '@/types/UserRole';
+import { ProcedureExecutionService } from '@/services/procedureExecutionService';
+import { useCrossPlatformAlert } from '@/components/CrossPlatformAlert';
+import { useOfflineButtons } from '@/utils/useOfflineButtons';
+import { getControlResults } from '@/utils/procedureExecutionUtils';
+import { formatControlValue } from '@/utils/controlValueUtils';
+
+interface FlightProcedureExecutionsProps {
+  flight: Flight;
+  currentUserId: string;
+  currentUserRole: UserRole;
+}
+
+const formatStartedAt = (date: Date): string =>
+  `${date.toLocaleDateString()} ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+
+/**
+ * Procedure runs recorded for a flight (e.g. the pre-flight checklist), with the
+ * pilot's unlinked runs from before the flight offered for linking
+ */
+export default function FlightProcedureExecutions({
+  flight,
+  currentUserId,
+  currentUserRole,
+}: FlightProcedureExecutionsProps) {
+  const { t } = useTranslation('common');
+  const router = useRouter();
+  const crossPlatformAlert = useCrossPlatformAlert();
+  const { isButtonDisabled, getDisabledStyle } = useOfflineButtons();
+  const [executions, setExecutions] = useState<ProcedureExecution[]>([]);
+  const [linkableExecutions, setLinkableExecutions] = useState<ProcedureExecution[]>([]);
+  const [linkingId, setLinkingId] = useState<string | null>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
+
+  const canLink = !flight.isDeleted
+    && (flight.userId === currentUserId || currentUserRole === 'manager' || currentUserRole === 'admin');
+
+  const loadExecutions = useCallback(async () => {
+    try {
+      setExecutions(await ProcedureExecutionService.getFlightExecutions(flight.id, currentUserRole, currentUserId));
+      setLoadFailed(false);
+    } catch (error) {
+      console.error('Error fetching flight procedure executions:', error);
+      setExecutions([]);
+      setLoadFailed(true);
+    }
+
+    if (canLink) {
+      setLinkableExecutions(await ProcedureExecutionService.getLinkableExecutions(flight));
+    }
+  }, [flight, canLink, currentUserRole, currentUserId]);
+
+  useEffect(() => {
+    loadExecutions();
+  }, [loadExecutions]);
+
+  const handleLink = async (execution: ProcedureExecution) => {
+    if (isButtonDisabled() || linkingId) return;
+
+    try {
+      setLinkingId(execution.id);
+      await ProcedureExecutionService.linkToFlight(execution.id, flight, currentUserRole, currentUserId);
+      await loadExecutions();
+    } catch (error) {
+      console.error('Error linking procedure execution:', error);
+      crossPlatformAlert.showAlert({
+        title: t('common.error'),
+        message: t('procedures.execution.linkFailed'),
+      });
+    } finally {
+      setLinkingId(null);
+    }
+  };
+
+  if (!loadFailed && executions.length === 0 && linkableExecutions.length === 0) {
+    return null;
+  }
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>{t('procedures.execution.title')}</Text>
+
+      {loadFailed ? (
+        <Text style={[styles.executionDetail, styles.incompleteText]}>{t('procedures.execution.loadFailed')}</Text>
+      ) : null}
+
+      {executions.map(execution => {
+        const doneItems = execution.items.filter(item => item.completed).length;
+        const isCompleted = execution.status === 'completed';
+
+        return (
+          <View key={execution.id} style={styles.executionCard}>
+            <View style={styles.executionHeader}>
+              <Ionicons
+                name={isCompleted ? 'checkmark-circle' : 'alert-circle'}
+                size={18}
+                color={isCompleted ? '#4CAF50' : '#FF9800'}
+              />
+              <Text style={styles.executionTitle}>{execution.procedureTitle}</Text>
+              {execution.procedureVersion ? (
+                <TouchableOpacity
+                  onPress={() => router.push(`/procedures/${execution.procedureId}/versions?version=${execution.procedureVersion}`)}
+                >
+                  <Text style={styles.versionLink}>
+                    {t('procedures.versions.versionLabel', { version: execution.procedureVersion })}
+                  </Text>
+                </TouchableOpacity>
+              ) : null}
+            </View>
+            <Text style={styles.executionDetail}>
+              {formatStartedAt(execution.startedAt)} · {execution.userEmail}
+            </Text>
+            <Text style={[styles.executionDetail, !isCompleted && styles.incompleteText]}>
+              {t(`procedures.execution.status.${execution.status}`)} · {t('procedures.execution.itemsDone', { done: doneItems, total: execution.items.length })}
+            </Text>
+
+            {getControlResults(execution.subItems).map(control => (
+              <Text key={control.subItemId} style={[styles.controlText, control.outOfRange && styles.outOfRangeText]}>
+                {control.control || control.topic}: {formatControlValue(control, t('common.yes'), t('common.no'))}
+                {control.requiredState ? ` (${t('procedures.execution.requiredState')}: ${control.requiredState})` : ''}
+                {control.outOfRange ? ` · ${t('procedures.execution.outOfRange')}` : ''}
+              </Text>
+            ))}
+
+            {execution.overrideNote ? (
+              <Text style={[styles.controlText, styles.outOfRangeText]}>
+                {t('procedures.execution.overriddenWith', { note: execution.overrideNote })}
+              </Text>
+            ) : null}
+          </View>
+        );
+      })}
+
+      {linkableExecutions.length > 0 && (
+        <>
+          <Text style={styles.linkableLabel}>{t('procedures.execution.linkable')}</Text>
+          {linkableExecutions.map(execution => (
+            <View key={execution.id} style={styles.linkableRow}>
+              <Text style={styles.linkableText} numberOfLines={1}>
+                {execution.procedureTitle} · {formatStartedAt(execution.startedAt)}
+              </Text>
+              <TouchableOpacity
+                style={[styles.linkButton, getDisabledStyle()]}
+                onPress={() => handleLink(execution)}
+                disabled={isButtonDisabled() || linkingId !== null}
+              >
+                <Ionicons name="link-outline" size={14} color="#007AFF" />
+                <Text style={styles.linkButtonText}>{t('procedures.execution.link')}</Text>
+              </TouchableOpacity>
+            </View>
+          ))}
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    marginBottom: 20,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#007AFF',
+    marginBottom: 10,
+  },
+  executionCard: {
+    backgroundColor: '#f9f9f9',
+    padding: 12,
+    borderRadius: 6,
+    marginBottom: 8,
+  },
+  executionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 4,
+  },
+  executionTitle: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  versionLink: {
+    fontSize: 13,
+    color: '#007AFF',
+    fontWeight: '500',
+  },
+  executionDetail: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 2,
+  },
+  incompleteText: {
+    color: '#FF9800',
+  },
+  controlText: {
+    fontSize: 14,
+    color: '#333',
+    marginTop: 4,
+  },
+  outOfRangeText: {
+    color: '#F44336',
+  },
+  linkableLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginTop: 4,
+    marginBottom: 6,
+  },
+  linkableRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 6,
+  },
+  linkableText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#333',
+  },
+  linkButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    backgroundColor: '#f0f8ff',
+  },
+  linkButtonText: {
+    color: '#007AFF',
+    fontSize: 13,
+    fontWeight: '500',
+  },
+});
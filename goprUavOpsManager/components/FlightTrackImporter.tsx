@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import * as DocumentPicker from 'expo-document-picker';
+import { FlightTrackImport } from '@/types/Flight';
+import { FlightTrackService } from '@/services/flightTrackService';
+import { formatTrackDistance } from '@/utils/flightTrackUtils';
+import { useCrossPlatformAlert } from './CrossPlatformAlert';
+
+interface FlightTrackImporterProps {
+  trackImport?: FlightTrackImport;
+  existingFileName?: string; // track already stored on the flight (edit mode)
+  onImport: (trackImport: FlightTrackImport) => void;
+  onRemove: () => void;
+  disabled?: boolean;
+}
+
+/**
+ * Lets the pilot pick a GPX, KML or DJI CSV track file and shows what was read from it
+ */
+export default function FlightTrackImporter({ trackImport, existingFileName, onImport, onRemove, disabled = false }: FlightTrackImporterProps) {
+  const { t } = useTranslation('common');
+  const crossPlatformAlert = useCrossPlatformAlert();
+  const [importing, setImporting] = useState(false);
+
+  const handlePick = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: '*/*',
+        copyToCacheDirectory: true,
+        multiple: false,
+      });
+      if (result.canceled || !result.assets?.length) {
+        return;
+      }
+
+      setImporting(true);
+      const asset = result.assets[0];
+      onImport(await FlightTrackService.importTrackFile(asset.uri, asset.name));
+    } catch (error) {
+      console.error('Error importing flight track:', error);
+      crossPlatformAlert.showAlert({ title: t('common.error'), message: t('flightTrack.importError') });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const summary = trackImport?.track.summary;
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>{t('flightTrack.title')}</Text>
+      <Text style={styles.hint}>{t('flightTrack.hint')}</Text>
+
+      {summary ? (
+        <View style={styles.summary}>
+          <Text style={styles.fileName}>{trackImport.fileName}</Text>
+          <Text style={styles.summaryText}>{t('flightTrack.points')}: {summary.pointCount}</Text>
+          <Text style={styles.summaryText}>{t('flightTrack.distance')}: {formatTrackDistance(summary.distance)}</Text>
+          {summary.maxAltitude !== undefined ? (
+            <Text style={styles.summaryText}>{t('flightTrack.maxAltitude')}: {summary.maxAltitude} m</Text>
+          ) : null}
+          {!summary.startTime ? (
+            <Text style={styles.warningText}>{t('flightTrack.noTimes')}</Text>
+          ) : null}
+        </View>
+      ) : existingFileName ? (
+        <View style={styles.summary}>
+          <Text style={styles.fileName}>{existingFileName}</Text>
+          <Text style={styles.summaryText}>{t('flightTrack.replaceHint')}</Text>
+        </View>
+      ) : null}
+
+      <View style={styles.buttonRow}>
+        <TouchableOpacity
+          style={[styles.button, (disabled || importing) && styles.disabledButton]}
+          onPress={handlePick}
+          disabled={disabled || importing}
+        >
+          {importing ? (
+            <ActivityIndicator size="small" color="#0066CC" />
+          ) : (
+            <Ionicons name="document-attach-outline" size={18} color="#0066CC" />
+          )}
+          <Text style={styles.buttonText}>
+            {trackImport || existingFileName ? t('flightTrack.replaceButton') : t('flightTrack.importButton')}
+          </Text>
+        </TouchableOpacity>
+
+        {trackImport ? (
+          <TouchableOpacity style={styles.button} onPress={onRemove} disabled={disabled}>
+            <Ionicons name="close-outline" size={18} color="#d32f2f" />
+            <Text style={[styles.buttonText, styles.removeText]}>{t('flightTrack.removeButton')}</Text>
+          </TouchableOpacity>
+        ) : null}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '500',
+    marginBottom: 4,
+    color: '#333',
+  },
+  hint: {
+    fontSize: 13,
+    color: '#666',
+    marginBottom: 8,
+  },
+  summary: {
+    backgroundColor: '#e3f2fd',
+    borderRadius: 6,
+    padding: 10,
+    marginBottom: 8,
+  },
+  fileName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#0066CC',
+    marginBottom: 4,
+  },
+  summaryText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  warningText: {
+    fontSize: 13,
+    color: '#E65100',
+    marginTop: 4,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  button: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    marginRight: 8,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: '#fff',
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    fontSize: 14,
+    color: '#0066CC',
+    marginLeft: 6,
+  },
+  removeText: {
+    color: '#d32f2f',
+  },
+});
@@ -0,0 +1,114 @@
+import React from 'react';
+import { View, Text, StyleSheet, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { GeozoneMatch } from '@/types/Geozone';
+import { GEOZONE_RESTRICTION_COLORS, formatGeozoneLimits } from '@/utils/geozoneUtils';
+
+interface GeozoneWarningsProps {
+  matches: GeozoneMatch[];
+  checking?: boolean;
+  compact?: boolean; // hide zone messages (map selector)
+}
+
+/**
+ * Lists the airspace and no-fly zones at or near a position with their restrictions
+ */
+export default function GeozoneWarnings({ matches, checking = false, compact = false }: GeozoneWarningsProps) {
+  const { t } = useTranslation('common');
+
+  if (checking && matches.length === 0) {
+    return (
+      <View style={styles.checkingRow}>
+        <ActivityIndicator size="small" color="#0066CC" />
+        <Text style={styles.checkingText}>{t('geozones.checking')}</Text>
+      </View>
+    );
+  }
+
+  if (matches.length === 0) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      {matches.map(({ zone, inside, distance }) => {
+        const color = GEOZONE_RESTRICTION_COLORS[zone.restriction];
+        const limits = formatGeozoneLimits(zone);
+
+        return (
+          <View key={`${zone.source}-${zone.id}`} style={[styles.zone, { borderLeftColor: color }]}>
+            <View style={styles.zoneHeader}>
+              <Ionicons name={zone.restriction === 'prohibited' ? 'ban-outline' : 'warning-outline'} size={18} color={color} />
+              <Text style={styles.zoneName}>{zone.name}</Text>
+              <Text style={styles.zoneType}>{zone.type}</Text>
+            </View>
+            <Text style={[styles.restriction, { color }]}>
+              {t(`geozones.restrictions.${zone.restriction}`)}
+            </Text>
+            <Text style={styles.detail}>
+              {inside ? t('geozones.inside') : t('geozones.nearby', { distance })}
+              {limits ? ` · ${limits}` : ''}
+            </Text>
+            {!compact && zone.message ? (
+              <Text style={styles.message}>{zone.message}</Text>
+            ) : null}
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  checkingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  checkingText: {
+    marginLeft: 8,
+    fontSize: 14,
+    color: '#666',
+  },
+  zone: {
+    backgroundColor: '#fff8e1',
+    borderLeftWidth: 4,
+    borderRadius: 6,
+    padding: 10,
+    marginBottom: 8,
+  },
+  zoneHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  zoneName: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+    marginLeft: 6,
+  },
+  zoneType: {
+    fontSize: 12,
+    color: '#666',
+  },
+  restriction: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginTop: 4,
+  },
+  detail: {
+    fontSize: 13,
+    color: '#333',
+    marginTop: 2,
+  },
+  message: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 4,
+  },
+});
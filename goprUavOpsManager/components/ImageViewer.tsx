@@ -12,6 +12,7 @@ import { Image } from 'expo-image';
 import { Ionicons } from '@expo/vector-icons';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { ImageCacheService } from '../utils/imageCache';
+import { ImageCacheNamespace } from '../types/ImageCache';
 import ImageZoom from 'react-native-image-pan-zoom';
 
 interface ImageItem {
@@ -24,6 +25,7 @@ interface ImageViewerProps {
   visible: boolean;
   onRequestClose: () => void;
   onImageIndexChange?: (index: number) => void;
+  cacheNamespace?: ImageCacheNamespace; // Image cache group the shown images are counted in
 }
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
@@ -34,6 +36,7 @@ export default function ImageViewer({
   visible,
   onRequestClose,
   onImageIndexChange,
+  cacheNamespace = 'other',
 }: ImageViewerProps) {
   const [currentIndex, setCurrentIndex] = useState(imageIndex);
   const [cachedImageUris, setCachedImageUris] = useState<string[]>([]);
@@ -68,7 +71,7 @@ export default function ImageViewer({
         const cachedUris = await Promise.all(
           images.map(async (image, index) => {
             try {
-              const cachedUri = await ImageCacheService.getCachedImage(image.uri);
+              const cachedUri = await ImageCacheService.getCachedImage(image.uri, cacheNamespace);
               return cachedUri;
             } catch (error) {
               console.error(`Error loading cached image ${index}:`, error);
@@ -86,7 +89,7 @@ export default function ImageViewer({
     };
 
     loadCachedImages();
-  }, [visible, images]);
+  }, [visible, images, cacheNamespace]);
 
   // Preload adjacent images for better user experience
   useEffect(() => {
@@ -99,14 +102,14 @@ export default function ImageViewer({
         // Preload previous image
         if (currentIndex > 0) {
           preloadPromises.push(
-            ImageCacheService.preloadImage(images[currentIndex - 1].uri)
+            ImageCacheService.preloadImage(images[currentIndex - 1].uri, cacheNamespace)
           );
         }
         
         // Preload next image
         if (currentIndex < images.length - 1) {
           preloadPromises.push(
-            ImageCacheService.preloadImage(images[currentIndex + 1].uri)
+            ImageCacheService.preloadImage(images[currentIndex + 1].uri, cacheNamespace)
           );
         }
         
@@ -117,7 +120,7 @@ export default function ImageViewer({
     };
 
     preloadAdjacentImages();
-  }, [currentIndex, visible, images]);
+  }, [currentIndex, visible, images, cacheNamespace]);
 
   React.useEffect(() => {
     setCurrentIndex(imageIndex);
@@ -8,7 +8,10 @@
  * - Interactive map with tap-to-select functionality
  * - Cross-platform support (Web via iframe, Mobile via WebView)
  * - Real-time coordinate display and validation
+ * - Position search accepting decimal, DMS, DDM, UTM or MGRS input
+ * - Nearby airspace and no-fly zones drawn on the map and listed with their restrictions
  * - Marker placement and movement
+ * - Download of the map around the marker for offline use (mobile)
  * - Default locations for GOPR/Poland region
  * - No API keys required (uses OpenStreetMap)
  * - Full modal interface with confirm/cancel actions
@@ -30,19 +33,32 @@
  * ```
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   View,
   Text,
   StyleSheet,
   Modal,
   TouchableOpacity,
+  TextInput,
+  ScrollView,
   Platform,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useTranslation } from 'react-i18next';
 import { LocationCoordinates } from '@/services/locationService';
 import { CoordinateUtils } from '@/utils/coordinateUtils';
+import { Geozone } from '@/types/Geozone';
+import { FLIGHT_GEOZONE_RADIUS_METERS, GeozoneService } from '@/services/geozoneService';
+import { GEOZONE_RESTRICTION_COLORS, findMatchingGeozones } from '@/utils/geozoneUtils';
+import { getLeafletTags } from '@/utils/mapTileUtils';
+import { MapTileCacheService } from '@/utils/mapTileCache';
+import { useMapTileResources } from '@/utils/useMapTileResources';
+import GeozoneWarnings from './GeozoneWarnings';
+import OfflineMapAreaPanel from './OfflineMapAreaPanel';
+
+// Zones within this distance of the marker are drawn on the map
+const GEOZONE_DISPLAY_RADIUS_METERS = 10000;
 
 interface InteractiveMapSelectorProps {
   /** Whether the modal is visible */
@@ -72,6 +88,11 @@ export default function InteractiveMapSelector({
     initialCoordinates || null
   );
   const [WebView, setWebView] = useState<any>(null);
+  const [positionInput, setPositionInput] = useState('');
+  const [positionError, setPositionError] = useState(false);
+  const [geozones, setGeozones] = useState<Geozone[]>([]);
+  const [offlinePanelVisible, setOfflinePanelVisible] = useState(false);
+  const mapResources = useMapTileResources();
 
   // Try to load WebView component for mobile platforms
   useEffect(() => {
@@ -88,6 +109,15 @@ export default function InteractiveMapSelector({
     loadWebView();
   }, []);
 
+  // Load geozones when the selector opens
+  useEffect(() => {
+    if (visible) {
+      GeozoneService.getGeozones()
+        .then(setGeozones)
+        .catch(error => console.error('InteractiveMapSelector: Error loading geozones:', error));
+    }
+  }, [visible]);
+
   // Update selected coordinates when initial coordinates change
   useEffect(() => {
     if (initialCoordinates) {
@@ -101,6 +131,13 @@ export default function InteractiveMapSelector({
   // Default to Zakopane, Poland (GOPR headquarters area) if no initial coordinates
   const defaultCoords = initialCoordinates || CoordinateUtils.getZakopaneCenter();
 
+  // Zones around the marker: all nearby ones are drawn, the closest are listed
+  const nearbyGeozones = useMemo(
+    () => selectedCoords ? findMatchingGeozones(geozones, selectedCoords, GEOZONE_DISPLAY_RADIUS_METERS) : [],
+    [geozones, selectedCoords]
+  );
+  const geozoneMatches = nearbyGeozones.filter(match => match.distance <= FLIGHT_GEOZONE_RADIUS_METERS);
+
   const handleConfirm = () => {
     if (selectedCoords && CoordinateUtils.isValid(selectedCoords)) {
       onLocationSelect(selectedCoords);
@@ -108,6 +145,18 @@ export default function InteractiveMapSelector({
     }
   };
 
+  // Move the marker to a typed position in any supported notation
+  const handleGoToPosition = () => {
+    const coords = CoordinateUtils.parse(positionInput);
+    if (!coords) {
+      setPositionError(true);
+      return;
+    }
+
+    setPositionError(false);
+    setSelectedCoords(coords);
+  };
+
   // Handle messages from mobile WebView
   const handleMessage = (event: any) => {
     try {
@@ -151,6 +200,12 @@ export default function InteractiveMapSelector({
   // Generate HTML for the interactive map using OpenStreetMap and Leaflet
   const generateMapHtml = () => {
     const coordsForMap = selectedCoords || defaultCoords;
+    // Escape "<" so zone names cannot close the script tag
+    const zonesJson = JSON.stringify(nearbyGeozones.map(({ zone }) => ({
+      name: zone.name,
+      color: GEOZONE_RESTRICTION_COLORS[zone.restriction],
+      polygons: zone.polygons.map(polygon => polygon.map(point => [point.latitude, point.longitude])),
+    }))).replace(/</g, '\\u003c');
     
     return `
     <!DOCTYPE html>
@@ -159,7 +214,7 @@ export default function InteractiveMapSelector({
       <meta charset="utf-8">
       <meta name="viewport" content="width=device-width, initial-scale=1">
       <title>Interactive Map Selector</title>
-      <link rel="stylesheet" href="https://unpkg.com/leaflet@1.9.4/dist/leaflet.css" />
+      ${getLeafletTags(mapResources)}
       <style>
         body { 
           margin: 0; 
@@ -225,17 +280,26 @@ export default function InteractiveMapSelector({
         ${t('map.markerPlaced', 'Marker placed')}
       </div>
 
-      <script src="https://unpkg.com/leaflet@1.9.4/dist/leaflet.js"></script>
       <script>
         // Initialize the map
-        const map = L.map('map').setView([${defaultCoords.latitude}, ${defaultCoords.longitude}], ${zoom});
+        const map = L.map('map').setView([${coordsForMap.latitude}, ${coordsForMap.longitude}], ${zoom});
         
         // Add OpenStreetMap tile layer
-        L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
-          attribution: '© OpenStreetMap contributors',
-          maxZoom: 19
+        L.tileLayer('${mapResources.tileUrlTemplate}', {
+          attribution: '${mapResources.attribution}',
+          maxZoom: 19,
+          maxNativeZoom: ${mapResources.maxNativeZoom ?? 19}
         }).addTo(map);
 
+        // Draw nearby geozones
+        ${zonesJson}.forEach(function(zone) {
+          zone.polygons.forEach(function(polygon) {
+            L.polygon(polygon, { color: zone.color, weight: 2, fillOpacity: 0.15 })
+              .addTo(map)
+              .bindTooltip(zone.name);
+          });
+        });
+
         let marker = null;
         const coordinatesEl = document.getElementById('coordinates');
         const markerInfoEl = document.getElementById('markerInfo');
@@ -343,8 +407,11 @@ export default function InteractiveMapSelector({
       // Mobile implementation using WebView
       return (
         <WebView
-          source={{ html: generateMapHtml() }}
+          source={{ html: generateMapHtml(), baseUrl: mapResources.baseUrl }}
           style={styles.webView}
+          allowFileAccess={!!mapResources.baseUrl}
+          allowFileAccessFromFileURLs={!!mapResources.baseUrl}
+          allowingReadAccessToURL={mapResources.baseUrl}
           onMessage={handleMessage}
           javaScriptEnabled={true}
           domStorageEnabled={true}
@@ -408,6 +475,43 @@ export default function InteractiveMapSelector({
           </TouchableOpacity>
         </View>
 
+        <View style={styles.positionBar}>
+          <TextInput
+            style={[styles.positionInput, positionError && styles.positionInputError]}
+            value={positionInput}
+            onChangeText={(text) => {
+              setPositionInput(text);
+              setPositionError(false);
+            }}
+            onSubmitEditing={handleGoToPosition}
+            placeholder={t('map.positionPlaceholder')}
+            autoCapitalize="characters"
+            autoCorrect={false}
+            returnKeyType="search"
+          />
+          <TouchableOpacity style={styles.positionButton} onPress={handleGoToPosition}>
+            <Ionicons name="locate-outline" size={18} color="#fff" />
+            <Text style={styles.positionButtonText}>{t('map.goToPosition')}</Text>
+          </TouchableOpacity>
+          {MapTileCacheService.isSupported() && (
+            <TouchableOpacity
+              style={[styles.offlineMapButton, offlinePanelVisible && styles.offlineMapButtonActive]}
+              onPress={() => setOfflinePanelVisible(!offlinePanelVisible)}
+            >
+              <Ionicons name="cloud-download-outline" size={18} color={offlinePanelVisible ? '#fff' : '#0066CC'} />
+            </TouchableOpacity>
+          )}
+        </View>
+        {offlinePanelVisible && <OfflineMapAreaPanel center={selectedCoords || defaultCoords} />}
+        {positionError && (
+          <Text style={styles.positionErrorText}>{t('location.unrecognizedFormat')}</Text>
+        )}
+        {geozoneMatches.length > 0 && (
+          <ScrollView style={styles.geozoneList}>
+            <GeozoneWarnings matches={geozoneMatches} compact />
+          </ScrollView>
+        )}
+
         {renderMapContent()}
       </View>
     </Modal>
@@ -468,6 +572,64 @@ const styles = StyleSheet.create({
   disabledText: {
     color: '#666',
   },
+  positionBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    gap: 8,
+    backgroundColor: '#f8f9fa',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e9ecef',
+  },
+  positionInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+    backgroundColor: '#fff',
+  },
+  positionInputError: {
+    borderColor: '#d32f2f',
+  },
+  positionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#0066CC',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 6,
+  },
+  positionButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+    marginLeft: 4,
+  },
+  offlineMapButton: {
+    padding: 7,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#0066CC',
+  },
+  offlineMapButtonActive: {
+    backgroundColor: '#0066CC',
+  },
+  positionErrorText: {
+    fontSize: 12,
+    color: '#d32f2f',
+    paddingHorizontal: 16,
+    paddingVertical: 4,
+    backgroundColor: '#f8f9fa',
+  },
+  geozoneList: {
+    maxHeight: 160,
+    paddingHorizontal: 16,
+    paddingTop: 8,
+    backgroundColor: '#f8f9fa',
+  },
   webView: {
     flex: 1,
   },
@@ -7,7 +7,7 @@
  * 
  * Features:
  * - GPS location button with permission handling
- * - Manual coordinate input with validation
+ * - Manual coordinate input with validation (decimal, DMS, DDM, UTM or MGRS, stored as decimal)
  * - Interactive map selector integration
  * - Automatic reverse geocoding with fallback
  * - Address field that auto-updates from coordinates
@@ -157,6 +157,37 @@ export default function LocationSelector({
     }
   }, [onCoordinatesChange, onLocationChange, autoUpdateLocation]);
 
+  // Convert DMS/DDM/UTM/MGRS input to decimal degrees once editing is done
+  const handleCoordinatesEndEditing = useCallback(() => {
+    const format = CoordinateUtils.detectFormat(coordinates);
+    if (!format || format === 'decimal') {
+      return;
+    }
+
+    const parsedCoords = CoordinateUtils.parse(coordinates);
+    if (parsedCoords) {
+      onCoordinatesChange(CoordinateUtils.format(parsedCoords));
+    }
+  }, [coordinates, onCoordinatesChange]);
+
+  // Hint for the notation recognized while typing
+  const getCoordinatesHint = (): { text: string; isError: boolean } | null => {
+    if (!(coordinates || '').trim()) {
+      return null;
+    }
+
+    const format = CoordinateUtils.detectFormat(coordinates);
+    if (!format) {
+      return { text: t('location.unrecognizedFormat'), isError: true };
+    }
+    if (format === 'decimal') {
+      return null;
+    }
+    return { text: t('location.recognizedFormat', { format: t(`location.formats.${format}`) }), isError: false };
+  };
+
+  const coordinatesHint = getCoordinatesHint();
+
   // Handle map selection
   const handleMapSelection = useCallback(() => {
     if (disabled) return;
@@ -203,7 +234,7 @@ export default function LocationSelector({
 
       {/* Coordinates Field with Map Button */}
       <Text style={styles.label}>{t('flightForm.coordinates', 'Coordinates')}{required ? ' *' : ''}</Text>
-      <View style={styles.coordinatesContainer}>
+      <View style={[styles.coordinatesContainer, coordinatesHint && styles.coordinatesContainerWithHint]}>
         <TextInput
           style={[
             styles.input, 
@@ -212,7 +243,11 @@ export default function LocationSelector({
           ]}
           value={coordinates}
           onChangeText={handleCoordinatesChange}
+          onEndEditing={handleCoordinatesEndEditing}
+          onBlur={handleCoordinatesEndEditing}
           placeholder={coordinatesPlaceholder || t('flightForm.coordinatesPlaceholder', 'Enter coordinates (lat, lng)')}
+          autoCapitalize="characters"
+          autoCorrect={false}
           editable={!disabled}
         />
         {showMapButton && (
@@ -225,6 +260,11 @@ export default function LocationSelector({
           </TouchableOpacity>
         )}
       </View>
+      {coordinatesHint && (
+        <Text style={[styles.coordinatesHint, coordinatesHint.isError && styles.coordinatesHintError]}>
+          {coordinatesHint.text}
+        </Text>
+      )}
 
       {/* Location Field (Auto-updated) */}
       {showLocationField && (
@@ -306,10 +346,21 @@ const styles = StyleSheet.create({
     marginBottom: 16,
     gap: 8,
   },
+  coordinatesContainerWithHint: {
+    marginBottom: 4,
+  },
   coordinatesInput: {
     flex: 1,
     marginBottom: 0,
   },
+  coordinatesHint: {
+    fontSize: 12,
+    color: '#666',
+    marginBottom: 16,
+  },
+  coordinatesHintError: {
+    color: '#d32f2f',
+  },
   mapButton: {
     padding: 12,
     borderRadius: 6,
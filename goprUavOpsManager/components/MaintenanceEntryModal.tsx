@@ -0,0 +1,378 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  TextInput,
+  ActivityIndicator,
+  ScrollView,
+} from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { Ionicons } from '@expo/vector-icons';
+import { UserRole } from '@/types/UserRole';
+import { MaintenanceType, MAINTENANCE_TYPES, ServiceInterval } from '@/types/Maintenance';
+import { MaintenanceService } from '@/services/maintenanceService';
+import { getDefaultResetIntervalIds } from '@/utils/maintenanceUtils';
+import { toLocalDateAndTime } from '@/utils/flightTrackUtils';
+import { useCrossPlatformAlert } from './CrossPlatformAlert';
+import WebCompatibleDatePicker from './WebCompatibleDatePicker';
+import MultiImagePicker from './MultiImagePicker';
+
+interface MaintenanceEntryModalProps {
+  visible: boolean;
+  droneId: string;
+  droneName: string;
+  serviceIntervals: ServiceInterval[];
+  currentUserId: string;
+  currentUserRole: UserRole;
+  currentUserEmail: string;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+interface MaintenanceFormState {
+  type: MaintenanceType;
+  date: string; // YYYY-MM-DD
+  description: string;
+  cost: string;
+  attachments: string[];
+  resetIntervalIds: string[];
+}
+
+function getToday(): string {
+  return toLocalDateAndTime(new Date().toISOString()).date;
+}
+
+// Service logged for today happened just now; earlier days are taken at midday
+function toPerformedAt(date: string): Date | null {
+  if (!date) return null;
+  if (date === getToday()) return new Date();
+
+  const value = new Date(`${date}T12:00:00`);
+  return isNaN(value.getTime()) ? null : value;
+}
+
+export default function MaintenanceEntryModal({
+  visible,
+  droneId,
+  droneName,
+  serviceIntervals,
+  currentUserId,
+  currentUserRole,
+  currentUserEmail,
+  onClose,
+  onSaved
+}: MaintenanceEntryModalProps) {
+  const { t } = useTranslation('common');
+  const crossPlatformAlert = useCrossPlatformAlert();
+
+  const getDefaultFormState = (): MaintenanceFormState => ({
+    type: 'inspection',
+    date: getToday(),
+    description: '',
+    cost: '',
+    attachments: [],
+    resetIntervalIds: getDefaultResetIntervalIds(serviceIntervals, 'inspection'),
+  });
+
+  const [formState, setFormState] = useState<MaintenanceFormState>(getDefaultFormState);
+  const [saving, setSaving] = useState(false);
+
+  // Reset state when modal opens
+  useEffect(() => {
+    if (visible) {
+      setFormState(getDefaultFormState());
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [visible]);
+
+  const selectType = (type: MaintenanceType) => {
+    setFormState(prev => ({
+      ...prev,
+      type,
+      resetIntervalIds: getDefaultResetIntervalIds(serviceIntervals, type),
+    }));
+  };
+
+  const toggleInterval = (intervalId: string) => {
+    setFormState(prev => ({
+      ...prev,
+      resetIntervalIds: prev.resetIntervalIds.includes(intervalId)
+        ? prev.resetIntervalIds.filter(id => id !== intervalId)
+        : [...prev.resetIntervalIds, intervalId],
+    }));
+  };
+
+  const handleSave = async () => {
+    const performedAt = toPerformedAt(formState.date);
+    if (!performedAt) {
+      crossPlatformAlert.showAlert({
+        title: t('common.error'),
+        message: t('maintenance.validation.dateRequired'),
+        buttons: [{ text: t('common.ok') }]
+      });
+      return;
+    }
+
+    if (!formState.description.trim()) {
+      crossPlatformAlert.showAlert({
+        title: t('common.error'),
+        message: t('maintenance.validation.descriptionRequired'),
+        buttons: [{ text: t('common.ok') }]
+      });
+      return;
+    }
+
+    const cost = formState.cost.trim() ? parseFloat(formState.cost.replace(',', '.')) : undefined;
+
+    try {
+      setSaving(true);
+      await MaintenanceService.logMaintenance(
+        droneId,
+        {
+          type: formState.type,
+          description: formState.description,
+          performedAt,
+          cost,
+          attachments: formState.attachments,
+          resetIntervalIds: formState.resetIntervalIds,
+        },
+        currentUserRole,
+        currentUserId,
+        currentUserEmail
+      );
+      onSaved();
+      onClose();
+    } catch (error: any) {
+      crossPlatformAlert.showAlert({
+        title: t('common.error'),
+        message: error.message || t('maintenance.saveFailed'),
+        buttons: [{ text: t('common.ok') }]
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.title}>{t('maintenance.logMaintenance')}</Text>
+          <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+            <Ionicons name="close" size={24} color="#333" />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+          <Text style={styles.droneInfo}>
+            {t('maintenance.loggingFor')}: <Text style={styles.droneName}>{droneName}</Text>
+          </Text>
+
+          <Text style={styles.label}>{t('maintenance.type')}</Text>
+          <View style={styles.chips}>
+            {MAINTENANCE_TYPES.map(type => (
+              <TouchableOpacity
+                key={type}
+                style={[styles.chip, formState.type === type && styles.chipSelected]}
+                onPress={() => selectType(type)}
+              >
+                <Text style={[styles.chipText, formState.type === type && styles.chipTextSelected]}>
+                  {t(`maintenance.types.${type}`)}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <WebCompatibleDatePicker
+            label={t('maintenance.performedAt')}
+            value={formState.date}
+            onDateChange={(value) => setFormState(prev => ({ ...prev, date: value }))}
+            required={true}
+          />
+
+          <Text style={styles.label}>{t('maintenance.description')}</Text>
+          <TextInput
+            style={[styles.input, styles.multilineInput]}
+            value={formState.description}
+            onChangeText={(value) => setFormState(prev => ({ ...prev, description: value }))}
+            placeholder={t('maintenance.descriptionPlaceholder')}
+            multiline
+          />
+
+          <Text style={styles.label}>{t('maintenance.cost')}</Text>
+          <TextInput
+            style={styles.input}
+            value={formState.cost}
+            onChangeText={(value) => setFormState(prev => ({ ...prev, cost: value }))}
+            placeholder="0.00"
+            keyboardType="decimal-pad"
+          />
+
+          <MultiImagePicker
+            images={formState.attachments}
+            onImagesChange={(attachments) => setFormState(prev => ({ ...prev, attachments }))}
+            label={t('maintenance.attachments')}
+            disabled={saving}
+          />
+
+          {serviceIntervals.length > 0 ? (
+            <View style={styles.intervals}>
+              <Text style={styles.label}>{t('maintenance.resetIntervals')}</Text>
+              {serviceIntervals.map(interval => {
+                const selected = formState.resetIntervalIds.includes(interval.id);
+                return (
+                  <TouchableOpacity
+                    key={interval.id}
+                    style={styles.intervalRow}
+                    onPress={() => toggleInterval(interval.id)}
+                  >
+                    <Ionicons
+                      name={selected ? 'checkbox' : 'square-outline'}
+                      size={20}
+                      color={selected ? '#0066CC' : '#999'}
+                    />
+                    <Text style={styles.intervalName}>{interval.name}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          ) : null}
+
+          <TouchableOpacity
+            style={[styles.saveButton, saving && styles.saveButtonDisabled]}
+            onPress={handleSave}
+            disabled={saving}
+          >
+            {saving ? (
+              <ActivityIndicator size="small" color="#fff" />
+            ) : (
+              <>
+                <Ionicons name="construct-outline" size={20} color="#fff" />
+                <Text style={styles.saveButtonText}>{t('maintenance.save')}</Text>
+              </>
+            )}
+          </TouchableOpacity>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  droneInfo: {
+    fontSize: 16,
+    color: '#333',
+    marginBottom: 16,
+  },
+  droneName: {
+    fontWeight: 'bold',
+    color: '#007AFF',
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: '#f8f9fa',
+  },
+  chipSelected: {
+    borderColor: '#0066CC',
+    backgroundColor: '#0066CC',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  chipTextSelected: {
+    color: '#fff',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: '#fff',
+    marginBottom: 16,
+  },
+  multilineInput: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  intervals: {
+    marginTop: 16,
+  },
+  intervalRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 6,
+  },
+  intervalName: {
+    fontSize: 15,
+    color: '#333',
+  },
+  saveButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#0066CC',
+    borderRadius: 8,
+    paddingVertical: 12,
+    marginTop: 16,
+    marginBottom: 32,
+  },
+  saveButtonDisabled: {
+    opacity: 0.5,
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
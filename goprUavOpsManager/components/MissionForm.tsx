@@ -0,0 +1,306 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+} from 'react-native';
+import { KeyboardAwareScrollView } from 'react-native-keyboard-aware-scroll-view';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Picker } from '@react-native-picker/picker';
+import { useTranslation } from 'react-i18next';
+import { AVAILABLE_MISSION_OUTCOMES, MissionFormData } from '@/types/Mission';
+import { useCrossPlatformAlert } from './CrossPlatformAlert';
+import WebCompatibleDatePicker from './WebCompatibleDatePicker';
+import TimePicker from './TimePicker';
+import LocationSelector from './LocationSelector';
+import GeozoneWarnings from './GeozoneWarnings';
+import { useOfflineButtons } from '@/utils/useOfflineButtons';
+import { useResponsiveLayout } from '@/utils/useResponsiveLayout';
+import { useGeozoneCheck } from '@/utils/useGeozoneCheck';
+import { MISSION_GEOZONE_RADIUS_METERS } from '@/services/geozoneService';
+import { toLocalDateAndTime } from '@/utils/flightTrackUtils';
+
+interface MissionFormProps {
+  initialData?: MissionFormData;
+  onSave: (data: MissionFormData) => Promise<void>;
+  onCancel: () => void;
+  loading?: boolean;
+}
+
+// Editable form state, with the start and end datetimes split into date and time fields
+interface MissionFormState {
+  incidentNumber: string;
+  title: string;
+  searchArea: string;
+  searchAreaCoordinates: string;
+  startDate: string; // YYYY-MM-DD
+  startTime: string; // HH:mm
+  endDate: string; // YYYY-MM-DD, empty while the mission is ongoing
+  endTime: string; // HH:mm
+  outcome: MissionFormData['outcome'];
+  notes: string;
+}
+
+function toFormState(data?: MissionFormData): MissionFormState {
+  const start = toLocalDateAndTime(data?.startTime || new Date().toISOString());
+  const end = data?.endTime ? toLocalDateAndTime(data.endTime) : { date: '', time: '' };
+
+  return {
+    incidentNumber: data?.incidentNumber || '',
+    title: data?.title || '',
+    searchArea: data?.searchArea || '',
+    searchAreaCoordinates: data?.searchAreaCoordinates || '',
+    startDate: start.date,
+    startTime: start.time,
+    endDate: end.date,
+    endTime: end.time,
+    outcome: data?.outcome || 'ongoing',
+    notes: data?.notes || '',
+  };
+}
+
+export default function MissionForm({ initialData, onSave, onCancel, loading = false }: MissionFormProps) {
+  const { t } = useTranslation('common');
+  const crossPlatformAlert = useCrossPlatformAlert();
+  const { isButtonDisabled, getDisabledStyle } = useOfflineButtons();
+  const responsive = useResponsiveLayout();
+
+  const [formState, setFormState] = useState<MissionFormState>(() => toFormState(initialData));
+  const geozoneCheck = useGeozoneCheck(formState.searchAreaCoordinates, MISSION_GEOZONE_RADIUS_METERS);
+
+  useEffect(() => {
+    if (initialData) {
+      setFormState(toFormState(initialData));
+    }
+  }, [initialData]);
+
+  const updateField = (field: keyof MissionFormState, value: string) => {
+    setFormState(prev => ({ ...prev, [field]: value }));
+  };
+
+  const showValidationError = (key: string) => {
+    crossPlatformAlert.showAlert({ title: t('missions.validation.title'), message: t(`missions.validation.${key}`) });
+  };
+
+  const handleSave = async () => {
+    if (!formState.incidentNumber.trim()) return showValidationError('incidentNumberRequired');
+    if (!formState.title.trim()) return showValidationError('titleRequired');
+    if (!formState.startDate || !formState.startTime) return showValidationError('startRequired');
+    if ((formState.endDate && !formState.endTime) || (!formState.endDate && formState.endTime)) {
+      return showValidationError('endIncomplete');
+    }
+
+    const startTime = `${formState.startDate}T${formState.startTime}:00`;
+    const endTime = formState.endDate ? `${formState.endDate}T${formState.endTime}:00` : undefined;
+    if (endTime && new Date(endTime).getTime() < new Date(startTime).getTime()) {
+      return showValidationError('endBeforeStart');
+    }
+
+    await onSave({
+      incidentNumber: formState.incidentNumber,
+      title: formState.title,
+      searchArea: formState.searchArea,
+      searchAreaCoordinates: formState.searchAreaCoordinates,
+      startTime,
+      endTime,
+      outcome: formState.outcome,
+      notes: formState.notes,
+    });
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <KeyboardAwareScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        keyboardShouldPersistTaps="handled"
+      >
+        <View style={[
+          styles.form,
+          responsive.isDesktop && {
+            maxWidth: responsive.maxContentWidth,
+            width: '100%',
+            alignSelf: 'center',
+          }
+        ]}>
+          <Text style={styles.label}>{t('missions.incidentNumber')} *</Text>
+          <TextInput
+            style={styles.input}
+            value={formState.incidentNumber}
+            onChangeText={(value) => updateField('incidentNumber', value)}
+            placeholder={t('missions.incidentNumberPlaceholder')}
+            autoCapitalize="characters"
+            autoCorrect={false}
+          />
+
+          <Text style={styles.label}>{t('missions.missionTitle')} *</Text>
+          <TextInput
+            style={styles.input}
+            value={formState.title}
+            onChangeText={(value) => updateField('title', value)}
+            placeholder={t('missions.titlePlaceholder')}
+          />
+
+          <Text style={styles.label}>{t('missions.searchArea')}</Text>
+          <LocationSelector
+            coordinates={formState.searchAreaCoordinates}
+            location={formState.searchArea}
+            onCoordinatesChange={(coords) => updateField('searchAreaCoordinates', coords)}
+            onLocationChange={(location) => updateField('searchArea', location)}
+            locationPlaceholder={t('missions.searchAreaPlaceholder')}
+            disabled={loading}
+          />
+          <GeozoneWarnings matches={geozoneCheck.matches} checking={geozoneCheck.checking} />
+
+          <WebCompatibleDatePicker
+            label={t('missions.startDate')}
+            value={formState.startDate}
+            onDateChange={(value) => updateField('startDate', value)}
+            required={true}
+          />
+
+          <TimePicker
+            label={t('missions.startTime')}
+            value={formState.startTime}
+            onTimeChange={(value) => updateField('startTime', value)}
+            required={true}
+          />
+
+          <WebCompatibleDatePicker
+            label={t('missions.endDate')}
+            value={formState.endDate}
+            onDateChange={(value) => updateField('endDate', value)}
+          />
+
+          <TimePicker
+            label={t('missions.endTime')}
+            value={formState.endTime}
+            onTimeChange={(value) => updateField('endTime', value)}
+          />
+
+          <Text style={styles.label}>{t('missions.outcome')} *</Text>
+          <View style={styles.pickerContainer}>
+            <Picker
+              selectedValue={formState.outcome}
+              onValueChange={(value) => updateField('outcome', value)}
+              style={styles.picker}
+            >
+              {AVAILABLE_MISSION_OUTCOMES.map((outcome) => (
+                <Picker.Item key={outcome} label={t(`missions.outcomes.${outcome}`)} value={outcome} />
+              ))}
+            </Picker>
+          </View>
+
+          <Text style={styles.label}>{t('missions.notes')}</Text>
+          <TextInput
+            style={[styles.input, styles.textArea]}
+            value={formState.notes}
+            onChangeText={(value) => updateField('notes', value)}
+            placeholder={t('missions.notesPlaceholder')}
+            multiline
+            numberOfLines={4}
+            textAlignVertical="top"
+          />
+
+          <View style={styles.buttonContainer}>
+            <TouchableOpacity
+              style={[styles.button, styles.cancelButton]}
+              onPress={onCancel}
+              disabled={loading}
+            >
+              <Text style={styles.cancelButtonText}>{t('common.cancel')}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.button, styles.saveButton, getDisabledStyle()]}
+              onPress={handleSave}
+              disabled={loading || isButtonDisabled()}
+            >
+              {loading ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Text style={styles.saveButtonText}>{t('common.save')}</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </KeyboardAwareScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  form: {
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 16,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+    marginTop: 16,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: '#fff',
+  },
+  textArea: {
+    minHeight: 100,
+  },
+  pickerContainer: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    backgroundColor: '#fff',
+  },
+  picker: {
+    height: 50,
+  },
+  buttonContainer: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 24,
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  cancelButton: {
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#ddd',
+  },
+  cancelButtonText: {
+    color: '#666',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  saveButton: {
+    backgroundColor: '#0066CC',
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,297 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { CoordinateUtils, Coordinates } from '@/utils/coordinateUtils';
+import { MapTileCacheService } from '@/utils/mapTileCache';
+import { MAP_TILE_MAX_ZOOM, isTileSourceDownloadable } from '@/utils/mapTileUtils';
+import { useNetworkStatus } from '@/utils/useNetworkStatus';
+import { MapTileSource, OfflineMapArea } from '@/types/MapTiles';
+import { useCrossPlatformAlert } from './CrossPlatformAlert';
+
+interface OfflineMapAreaPanelProps {
+  /** Center of the area to download */
+  center: Coordinates | null;
+}
+
+const RADIUS_OPTIONS_KM = [2, 5, 10, 20];
+const SOURCES = (['topo', 'osm'] as MapTileSource[]).filter(source => isTileSourceDownloadable(source));
+const MIN_ZOOM = 8;
+
+const toMegabytes = (bytes: number) => (bytes / (1024 * 1024)).toFixed(1);
+
+/**
+ * Downloads the map around a point for use without coverage and lists downloaded areas
+ */
+export default function OfflineMapAreaPanel({ center }: OfflineMapAreaPanelProps) {
+  const { t } = useTranslation('common');
+  const crossPlatformAlert = useCrossPlatformAlert();
+  const { isOffline } = useNetworkStatus();
+  const [radiusKm, setRadiusKm] = useState(5);
+  const [minZoom, setMinZoom] = useState(10);
+  const [maxZoom, setMaxZoom] = useState(15);
+  const [source, setSource] = useState<MapTileSource>(SOURCES[0] || 'topo');
+  const [areas, setAreas] = useState<OfflineMapArea[]>([]);
+  const [cacheSize, setCacheSize] = useState(0);
+  const [progress, setProgress] = useState<{ completed: number; total: number } | null>(null);
+
+  const loadAreas = useCallback(async () => {
+    const [downloadedAreas, stats] = await Promise.all([
+      MapTileCacheService.getAreas(),
+      MapTileCacheService.getCacheStats(),
+    ]);
+    setAreas(downloadedAreas);
+    setCacheSize(stats.size);
+  }, []);
+
+  useEffect(() => {
+    loadAreas();
+  }, [loadAreas]);
+
+  const sourceMaxZoom = MAP_TILE_MAX_ZOOM[source];
+  const effectiveMaxZoom = Math.min(maxZoom, sourceMaxZoom);
+  const limits = MapTileCacheService.getLimits();
+  const estimate = center && CoordinateUtils.isValid(center)
+    ? MapTileCacheService.estimateArea({ center, radiusKm, minZoom, maxZoom: effectiveMaxZoom, source })
+    : null;
+  const tooManyTiles = !!estimate && estimate.tileCount > limits.maxTilesPerArea;
+  const isDownloading = progress !== null;
+  const canDownload = !!center && SOURCES.includes(source) && !tooManyTiles && !isDownloading && !isOffline;
+
+  const handleDownload = async () => {
+    if (!center) {
+      return;
+    }
+
+    setProgress({ completed: 0, total: estimate?.tileCount || 0 });
+    try {
+      await MapTileCacheService.downloadArea(
+        { center, radiusKm, minZoom, maxZoom: effectiveMaxZoom, source },
+        (completed, total) => setProgress({ completed, total })
+      );
+      crossPlatformAlert.showAlert({ title: t('common.success'), message: t('offlineMaps.downloaded') });
+    } catch (error) {
+      console.error('Error downloading map area:', error);
+      crossPlatformAlert.showAlert({
+        title: t('common.error'),
+        message: t('offlineMaps.downloadError', { error: error instanceof Error ? error.message : String(error) }),
+      });
+    } finally {
+      setProgress(null);
+      loadAreas();
+    }
+  };
+
+  const handleDeleteArea = async (id: string) => {
+    try {
+      await MapTileCacheService.deleteArea(id);
+    } catch (error) {
+      console.error('Error deleting map area:', error);
+    }
+    loadAreas();
+  };
+
+  const renderStepper = (label: string, value: number, onChange: (value: number) => void, min: number, max: number) => (
+    <View style={styles.stepper}>
+      <Text style={styles.label}>{label}</Text>
+      <TouchableOpacity onPress={() => onChange(value - 1)} disabled={value <= min || isDownloading}>
+        <Ionicons name="remove-circle-outline" size={22} color={value <= min ? '#ccc' : '#0066CC'} />
+      </TouchableOpacity>
+      <Text style={styles.stepperValue}>{value}</Text>
+      <TouchableOpacity onPress={() => onChange(value + 1)} disabled={value >= max || isDownloading}>
+        <Ionicons name="add-circle-outline" size={22} color={value >= max ? '#ccc' : '#0066CC'} />
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>{t('offlineMaps.title')}</Text>
+
+      {SOURCES.length === 0 ? (
+        <Text style={[styles.estimate, styles.warning]}>{t('offlineMaps.notConfigured')}</Text>
+      ) : (
+        <View style={styles.row}>
+          <Text style={styles.label}>{t('offlineMaps.source')}</Text>
+          {SOURCES.map(option => (
+            <TouchableOpacity
+              key={option}
+              style={[styles.chip, source === option && styles.chipSelected]}
+              onPress={() => setSource(option)}
+              disabled={isDownloading}
+            >
+              <Text style={[styles.chipText, source === option && styles.chipTextSelected]}>
+                {t(`offlineMaps.sources.${option}`)}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      <View style={styles.row}>
+        <Text style={styles.label}>{t('offlineMaps.radius')}</Text>
+        {RADIUS_OPTIONS_KM.map(option => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.chip, radiusKm === option && styles.chipSelected]}
+            onPress={() => setRadiusKm(option)}
+            disabled={isDownloading}
+          >
+            <Text style={[styles.chipText, radiusKm === option && styles.chipTextSelected]}>{option} km</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={styles.row}>
+        {renderStepper(t('offlineMaps.minZoom'), minZoom, setMinZoom, MIN_ZOOM, effectiveMaxZoom)}
+        {renderStepper(t('offlineMaps.maxZoom'), effectiveMaxZoom, setMaxZoom, minZoom, sourceMaxZoom)}
+      </View>
+
+      {estimate && (
+        <Text style={[styles.estimate, tooManyTiles && styles.warning]}>
+          {tooManyTiles
+            ? t('offlineMaps.tooManyTiles', { tiles: estimate.tileCount, max: limits.maxTilesPerArea })
+            : t('offlineMaps.estimate', { tiles: estimate.tileCount, size: toMegabytes(estimate.estimatedSize) })}
+        </Text>
+      )}
+
+      <TouchableOpacity
+        style={[styles.downloadButton, !canDownload && styles.disabledButton]}
+        onPress={handleDownload}
+        disabled={!canDownload}
+      >
+        {isDownloading ? (
+          <>
+            <ActivityIndicator size="small" color="#fff" />
+            <Text style={styles.downloadText}>
+              {t('offlineMaps.downloading', { completed: progress.completed, total: progress.total })}
+            </Text>
+          </>
+        ) : (
+          <>
+            <Ionicons name="download-outline" size={18} color="#fff" />
+            <Text style={styles.downloadText}>{t('offlineMaps.download')}</Text>
+          </>
+        )}
+      </TouchableOpacity>
+
+      <Text style={styles.usage}>
+        {t('offlineMaps.usage', { size: toMegabytes(cacheSize), max: toMegabytes(limits.maxCacheSize) })}
+      </Text>
+      {areas.map(area => (
+        <View key={area.id} style={styles.areaRow}>
+          <Ionicons name="map-outline" size={16} color="#666" />
+          <Text style={styles.areaText}>
+            {t('offlineMaps.area', {
+              source: t(`offlineMaps.sources.${area.source}`),
+              radius: area.radiusKm,
+              minZoom: area.minZoom,
+              maxZoom: area.maxZoom,
+              tiles: area.tileCount,
+              date: new Date(area.downloadedAt).toLocaleDateString(),
+            })}
+          </Text>
+          <TouchableOpacity onPress={() => handleDeleteArea(area.id)} disabled={isDownloading}>
+            <Ionicons name="trash-outline" size={18} color="#d32f2f" />
+          </TouchableOpacity>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    backgroundColor: '#f8f9fa',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e9ecef',
+    gap: 6,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  label: {
+    fontSize: 12,
+    color: '#666',
+    marginRight: 4,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: '#fff',
+  },
+  chipSelected: {
+    backgroundColor: '#0066CC',
+    borderColor: '#0066CC',
+  },
+  chipText: {
+    fontSize: 12,
+    color: '#333',
+  },
+  chipTextSelected: {
+    color: '#fff',
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginRight: 12,
+  },
+  stepperValue: {
+    minWidth: 20,
+    textAlign: 'center',
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  estimate: {
+    fontSize: 12,
+    color: '#666',
+  },
+  warning: {
+    color: '#d32f2f',
+  },
+  downloadButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    backgroundColor: '#0066CC',
+    paddingVertical: 8,
+    borderRadius: 6,
+  },
+  disabledButton: {
+    backgroundColor: '#ccc',
+  },
+  downloadText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  usage: {
+    fontSize: 12,
+    color: '#666',
+  },
+  areaRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  areaText: {
+    flex: 1,
+    fontSize: 12,
+    color: '#333',
+  },
+});
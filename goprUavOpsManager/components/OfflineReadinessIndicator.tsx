@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { OfflineDatasetStatus, OfflineReadinessLevel } from '@/types/OfflineReadiness';
+import { isDatasetStale } from '@/utils/offlineReadinessUtils';
+
+interface OfflineReadinessIndicatorProps {
+  statuses: OfflineDatasetStatus[];
+  level: OfflineReadinessLevel;
+}
+
+const LEVEL_ICONS: Record<OfflineReadinessLevel, keyof typeof Ionicons.glyphMap> = {
+  ready: 'checkmark-circle',
+  stale: 'time-outline',
+  partial: 'alert-circle-outline',
+  none: 'cloud-offline-outline',
+};
+
+const LEVEL_COLORS: Record<OfflineReadinessLevel, string> = {
+  ready: '#4CAF50',
+  stale: '#FF9800',
+  partial: '#FF9800',
+  none: '#999',
+};
+
+/**
+ * Shows whether the data needed at a base without coverage is downloaded on this device,
+ * expanding to the download status of each dataset
+ */
+export default function OfflineReadinessIndicator({ statuses, level }: OfflineReadinessIndicatorProps) {
+  const { t } = useTranslation('common');
+  const [expanded, setExpanded] = useState(false);
+
+  if (statuses.length === 0) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity style={styles.summary} onPress={() => setExpanded(!expanded)}>
+        <Ionicons name={LEVEL_ICONS[level]} size={16} color={LEVEL_COLORS[level]} />
+        <Text style={styles.summaryText}>{t(`offlineReadiness.levels.${level}`)}</Text>
+        <Ionicons name={expanded ? 'chevron-up' : 'chevron-down'} size={14} color="#666" />
+      </TouchableOpacity>
+
+      {expanded && (
+        <View style={styles.datasetList}>
+          {statuses.map(status => (
+            <View key={status.dataset} style={styles.datasetRow}>
+              <Ionicons
+                name={status.lastUpdated ? 'checkmark' : 'close'}
+                size={14}
+                color={!status.lastUpdated ? '#F44336' : isDatasetStale(status) ? '#FF9800' : '#4CAF50'}
+              />
+              <Text style={styles.datasetName}>{t(`offlineReadiness.datasets.${status.dataset}`)}</Text>
+              <Text style={styles.datasetInfo}>
+                {status.lastUpdated
+                  ? t('offlineReadiness.downloaded', {
+                    items: status.itemCount,
+                    date: status.lastUpdated.toLocaleString(),
+                  })
+                  : t('offlineReadiness.notDownloaded')}
+              </Text>
+            </View>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    marginTop: 12,
+    overflow: 'hidden',
+  },
+  summary: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+  },
+  summaryText: {
+    flex: 1,
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#333',
+  },
+  datasetList: {
+    borderTopWidth: 1,
+    borderTopColor: '#eee',
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  datasetRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 3,
+  },
+  datasetName: {
+    fontSize: 12,
+    color: '#333',
+    width: 80,
+  },
+  datasetInfo: {
+    flex: 1,
+    fontSize: 11,
+    color: '#666',
+  },
+});
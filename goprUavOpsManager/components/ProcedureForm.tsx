@@ -536,6 +536,18 @@ export default function ProcedureForm({ mode, initialData, onSave, onCancel, loa
             )}
           </View>
 
+          <View style={styles.section}>
+            <Text style={styles.label}>{t('procedureForm.changeNote')}</Text>
+            <TextInput
+              style={[styles.input, styles.textArea]}
+              value={formData.changeNote || ''}
+              onChangeText={(value) => updateFormData('changeNote', value)}
+              placeholder={mode === 'create' ? t('procedureForm.changeNoteCreatePlaceholder') : t('procedureForm.changeNotePlaceholder')}
+              multiline
+              numberOfLines={2}
+            />
+          </View>
+
           <View style={styles.actionButtons}>
             <TouchableOpacity
               style={styles.cancelButton}
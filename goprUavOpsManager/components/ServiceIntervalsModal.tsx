@@ -0,0 +1,341 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  TextInput,
+  ActivityIndicator,
+  ScrollView,
+} from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { Ionicons } from '@expo/vector-icons';
+import { Picker } from '@react-native-picker/picker';
+import { UserRole } from '@/types/UserRole';
+import { MaintenanceType, MAINTENANCE_TYPES, ServiceInterval } from '@/types/Maintenance';
+import { MaintenanceService } from '@/services/maintenanceService';
+import { useCrossPlatformAlert } from './CrossPlatformAlert';
+
+interface ServiceIntervalsModalProps {
+  visible: boolean;
+  droneId: string;
+  serviceIntervals: ServiceInterval[];
+  currentUserId: string;
+  currentUserRole: UserRole;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+// Limits are edited as text so a field can be left empty
+interface IntervalFormRow {
+  key: string;
+  id?: string;
+  name: string;
+  maintenanceType: MaintenanceType;
+  flightHours: string;
+  flightCycles: string;
+  calendarDays: string;
+}
+
+function toFormRow(interval: ServiceInterval): IntervalFormRow {
+  return {
+    key: interval.id,
+    id: interval.id,
+    name: interval.name,
+    maintenanceType: interval.maintenanceType,
+    flightHours: interval.flightHours?.toString() || '',
+    flightCycles: interval.flightCycles?.toString() || '',
+    calendarDays: interval.calendarDays?.toString() || '',
+  };
+}
+
+function parseLimit(value: string): number | undefined {
+  return value.trim() ? parseFloat(value.replace(',', '.')) : undefined;
+}
+
+export default function ServiceIntervalsModal({
+  visible,
+  droneId,
+  serviceIntervals,
+  currentUserId,
+  currentUserRole,
+  onClose,
+  onSaved
+}: ServiceIntervalsModalProps) {
+  const { t } = useTranslation('common');
+  const crossPlatformAlert = useCrossPlatformAlert();
+
+  const [rows, setRows] = useState<IntervalFormRow[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  // Reset state when modal opens
+  useEffect(() => {
+    if (visible) {
+      setRows(serviceIntervals.map(toFormRow));
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [visible]);
+
+  const updateRow = (key: string, changes: Partial<IntervalFormRow>) => {
+    setRows(prev => prev.map(row => row.key === key ? { ...row, ...changes } : row));
+  };
+
+  const addRow = () => {
+    setRows(prev => [...prev, {
+      key: `new_${Date.now()}`,
+      name: '',
+      maintenanceType: 'inspection',
+      flightHours: '',
+      flightCycles: '',
+      calendarDays: '',
+    }]);
+  };
+
+  const removeRow = (key: string) => {
+    setRows(prev => prev.filter(row => row.key !== key));
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      await MaintenanceService.updateServiceIntervals(
+        droneId,
+        rows.map(row => ({
+          id: row.id,
+          name: row.name,
+          maintenanceType: row.maintenanceType,
+          flightHours: parseLimit(row.flightHours),
+          flightCycles: parseLimit(row.flightCycles),
+          calendarDays: parseLimit(row.calendarDays),
+        })),
+        currentUserRole,
+        currentUserId
+      );
+      onSaved();
+      onClose();
+    } catch (error: any) {
+      crossPlatformAlert.showAlert({
+        title: t('common.error'),
+        message: error.message || t('maintenance.intervals.saveFailed'),
+        buttons: [{ text: t('common.ok') }]
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.title}>{t('maintenance.intervals.title')}</Text>
+          <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+            <Ionicons name="close" size={24} color="#333" />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+          <Text style={styles.hint}>{t('maintenance.intervals.hint')}</Text>
+
+          {rows.map(row => (
+            <View key={row.key} style={styles.intervalCard}>
+              <View style={styles.intervalHeader}>
+                <TextInput
+                  style={[styles.input, styles.nameInput]}
+                  value={row.name}
+                  onChangeText={(value) => updateRow(row.key, { name: value })}
+                  placeholder={t('maintenance.intervals.namePlaceholder')}
+                />
+                <TouchableOpacity style={styles.removeButton} onPress={() => removeRow(row.key)}>
+                  <Ionicons name="trash-outline" size={20} color="#d32f2f" />
+                </TouchableOpacity>
+              </View>
+
+              <Text style={styles.label}>{t('maintenance.intervals.maintenanceType')}</Text>
+              <View style={styles.pickerContainer}>
+                <Picker
+                  selectedValue={row.maintenanceType}
+                  style={styles.picker}
+                  onValueChange={(value) => updateRow(row.key, { maintenanceType: value as MaintenanceType })}
+                >
+                  {MAINTENANCE_TYPES.map(type => (
+                    <Picker.Item key={type} label={t(`maintenance.types.${type}`)} value={type} />
+                  ))}
+                </Picker>
+              </View>
+
+              <View style={styles.limits}>
+                <View style={styles.limit}>
+                  <Text style={styles.label}>{t('maintenance.intervals.flightHours')}</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={row.flightHours}
+                    onChangeText={(value) => updateRow(row.key, { flightHours: value })}
+                    keyboardType="decimal-pad"
+                  />
+                </View>
+                <View style={styles.limit}>
+                  <Text style={styles.label}>{t('maintenance.intervals.flightCycles')}</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={row.flightCycles}
+                    onChangeText={(value) => updateRow(row.key, { flightCycles: value })}
+                    keyboardType="number-pad"
+                  />
+                </View>
+                <View style={styles.limit}>
+                  <Text style={styles.label}>{t('maintenance.intervals.calendarDays')}</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={row.calendarDays}
+                    onChangeText={(value) => updateRow(row.key, { calendarDays: value })}
+                    keyboardType="number-pad"
+                  />
+                </View>
+              </View>
+            </View>
+          ))}
+
+          <TouchableOpacity style={styles.addButton} onPress={addRow}>
+            <Ionicons name="add-circle-outline" size={20} color="#0066CC" />
+            <Text style={styles.addButtonText}>{t('maintenance.intervals.add')}</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[styles.saveButton, saving && styles.saveButtonDisabled]}
+            onPress={handleSave}
+            disabled={saving}
+          >
+            {saving ? (
+              <ActivityIndicator size="small" color="#fff" />
+            ) : (
+              <Text style={styles.saveButtonText}>{t('common.save')}</Text>
+            )}
+          </TouchableOpacity>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  hint: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 16,
+  },
+  intervalCard: {
+    backgroundColor: '#f8f9fa',
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#e9ecef',
+  },
+  intervalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  nameInput: {
+    flex: 1,
+  },
+  removeButton: {
+    padding: 8,
+    marginBottom: 12,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 6,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 16,
+    backgroundColor: '#fff',
+    marginBottom: 12,
+  },
+  pickerContainer: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    backgroundColor: '#fff',
+    marginBottom: 12,
+  },
+  picker: {
+    height: 50,
+  },
+  limits: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  limit: {
+    flex: 1,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 12,
+    borderWidth: 1,
+    borderColor: '#0066CC',
+    borderStyle: 'dashed',
+    borderRadius: 8,
+  },
+  addButtonText: {
+    color: '#0066CC',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  saveButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#0066CC',
+    borderRadius: 8,
+    paddingVertical: 12,
+    marginTop: 16,
+    marginBottom: 32,
+  },
+  saveButtonDisabled: {
+    opacity: 0.5,
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,48 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { Ionicons } from '@expo/vector-icons';
+import { ServiceStatus } from '@/types/Maintenance';
+
+interface ServiceStatusBadgeProps {
+  status: ServiceStatus;
+}
+
+const STATUS_COLORS: Record<Exclude<ServiceStatus, 'ok'>, string> = {
+  dueSoon: '#F57C00',
+  overdue: '#d32f2f',
+};
+
+/**
+ * Warning badge for a drone that is due or overdue for service; renders nothing when in order
+ */
+export default function ServiceStatusBadge({ status }: ServiceStatusBadgeProps) {
+  const { t } = useTranslation('common');
+
+  if (status === 'ok') {
+    return null;
+  }
+
+  return (
+    <View style={[styles.badge, { backgroundColor: STATUS_COLORS[status] }]}>
+      <Ionicons name="construct-outline" size={12} color="#fff" />
+      <Text style={styles.badgeText}>{t(`maintenance.status.${status}`)}</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  badge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 4,
+  },
+  badgeText: {
+    color: 'white',
+    fontSize: 10,
+    fontWeight: 'bold',
+  },
+});
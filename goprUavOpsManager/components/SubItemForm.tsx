@@ -10,8 +10,11 @@ import {
 import { Ionicons } from '@expo/vector-icons';
 import * as ImagePicker from 'expo-image-picker';
 import { useTranslation } from 'react-i18next';
-import { ChecklistSubItemFormData, ChecklistItemType } from '@/types/ProcedureChecklist';
+import { ChecklistSubItemFormData, ChecklistItemType, ControlValueType } from '@/types/ProcedureChecklist';
 import { useCrossPlatformAlert } from '@/components/CrossPlatformAlert';
+import { parseNumericValue } from '@/utils/controlValueUtils';
+
+const VALUE_TYPES: ControlValueType[] = ['text', 'boolean', 'numeric', 'enum'];
 
 interface SubItemFormProps {
   subItem: ChecklistSubItemFormData;
@@ -29,6 +32,10 @@ export default function SubItemForm({
   const { t } = useTranslation('common');
   const crossPlatformAlert = useCrossPlatformAlert();
   const [isCollapsed, setIsCollapsed] = useState(false);
+  // Raw text of the typed value settings, parsed into the form data on every change
+  const [minText, setMinText] = useState(subItem.min !== undefined ? String(subItem.min) : '');
+  const [maxText, setMaxText] = useState(subItem.max !== undefined ? String(subItem.max) : '');
+  const [optionsText, setOptionsText] = useState((subItem.options || []).join('\n'));
 
   const update = (field: keyof ChecklistSubItemFormData, value: any) => {
     onUpdate({ ...subItem, [field]: value });
@@ -38,6 +45,29 @@ export default function SubItemForm({
     update('type', type);
   };
 
+  const updateLimit = (field: 'min' | 'max', text: string) => {
+    (field === 'min' ? setMinText : setMaxText)(text);
+    update(field, parseNumericValue(text));
+  };
+
+  const updateOptions = (text: string) => {
+    setOptionsText(text);
+    const options = text.split('\n').map(option => option.trim()).filter(Boolean);
+    onUpdate({
+      ...subItem,
+      options,
+      acceptedOptions: subItem.acceptedOptions?.filter(option => options.includes(option)),
+    });
+  };
+
+  const toggleAcceptedOption = (option: string) => {
+    const accepted = subItem.acceptedOptions || [];
+    update(
+      'acceptedOptions',
+      accepted.includes(option) ? accepted.filter(o => o !== option) : [...accepted, option]
+    );
+  };
+
   const addChildSubItem = () => {
     const newChild: ChecklistSubItemFormData = {
       id: `sub-${Date.now()}`,
@@ -188,6 +218,117 @@ export default function SubItemForm({
                 multiline
                 numberOfLines={3}
               />
+
+              {/* Value recorded during execution */}
+              <Text style={styles.label}>{t('procedureForm.subItems.valueType')}</Text>
+              <View style={styles.typeRow}>
+                {VALUE_TYPES.map(valueType => {
+                  const isActive = (subItem.valueType || 'text') === valueType;
+                  return (
+                    <TouchableOpacity
+                      key={valueType}
+                      style={[styles.typeButton, isActive && styles.typeButtonActive]}
+                      onPress={() => update('valueType', valueType)}
+                    >
+                      <Text style={[styles.typeButtonText, isActive && styles.typeButtonTextActive]}>
+                        {t(`procedureForm.subItems.valueTypes.${valueType}`)}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+
+              {subItem.valueType === 'boolean' && (
+                <>
+                  <Text style={styles.label}>{t('procedureForm.subItems.expectedValue')}</Text>
+                  <View style={styles.typeRow}>
+                    {[undefined, true, false].map(expected => {
+                      const isActive = subItem.expectedBoolean === expected;
+                      return (
+                        <TouchableOpacity
+                          key={String(expected)}
+                          style={[styles.typeButton, isActive && styles.typeButtonActive]}
+                          onPress={() => update('expectedBoolean', expected)}
+                        >
+                          <Text style={[styles.typeButtonText, isActive && styles.typeButtonTextActive]}>
+                            {expected === undefined
+                              ? t('procedureForm.subItems.expectedAny')
+                              : expected ? t('common.yes') : t('common.no')}
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                </>
+              )}
+
+              {subItem.valueType === 'numeric' && (
+                <View style={styles.limitRow}>
+                  <View style={styles.limitField}>
+                    <Text style={styles.label}>{t('procedureForm.subItems.min')}</Text>
+                    <TextInput
+                      style={styles.input}
+                      value={minText}
+                      onChangeText={(v) => updateLimit('min', v)}
+                      keyboardType="decimal-pad"
+                    />
+                  </View>
+                  <View style={styles.limitField}>
+                    <Text style={styles.label}>{t('procedureForm.subItems.max')}</Text>
+                    <TextInput
+                      style={styles.input}
+                      value={maxText}
+                      onChangeText={(v) => updateLimit('max', v)}
+                      keyboardType="decimal-pad"
+                    />
+                  </View>
+                  <View style={styles.limitField}>
+                    <Text style={styles.label}>{t('procedureForm.subItems.unit')}</Text>
+                    <TextInput
+                      style={styles.input}
+                      value={subItem.unit || ''}
+                      onChangeText={(v) => update('unit', v)}
+                      placeholder={t('procedureForm.subItems.unitPlaceholder')}
+                    />
+                  </View>
+                </View>
+              )}
+
+              {subItem.valueType === 'enum' && (
+                <>
+                  <Text style={styles.label}>{t('procedureForm.subItems.options')}</Text>
+                  <TextInput
+                    style={[styles.input, styles.textArea]}
+                    value={optionsText}
+                    onChangeText={updateOptions}
+                    placeholder={t('procedureForm.subItems.optionsPlaceholder')}
+                    multiline
+                    numberOfLines={3}
+                  />
+                  {(subItem.options || []).length > 0 && (
+                    <>
+                      <Text style={styles.label}>{t('procedureForm.subItems.acceptedOptions')}</Text>
+                      <View style={styles.optionRow}>
+                        {(subItem.options || []).map(option => {
+                          const isAccepted = subItem.acceptedOptions?.includes(option);
+                          return (
+                            <TouchableOpacity
+                              key={option}
+                              style={[styles.typeButton, styles.optionButton, isAccepted && styles.typeButtonActive]}
+                              onPress={() => toggleAcceptedOption(option)}
+                            >
+                              <Text style={[styles.typeButtonText, isAccepted && styles.typeButtonTextActive]}>
+                                {option}
+                              </Text>
+                            </TouchableOpacity>
+                          );
+                        })}
+                      </View>
+                      <Text style={styles.hint}>{t('procedureForm.subItems.acceptedOptionsHint')}</Text>
+                    </>
+                  )}
+                </>
+              )}
             </>
           )}
 
@@ -322,6 +463,28 @@ const styles = StyleSheet.create({
   typeButtonTextActive: {
     color: '#fff',
   },
+  limitRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  limitField: {
+    flex: 1,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 4,
+  },
+  optionButton: {
+    flex: 0,
+    paddingHorizontal: 12,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#666',
+    marginBottom: 4,
+  },
   imageContainer: {
     marginBottom: 4,
   },
@@ -11,6 +11,7 @@ import { Ionicons } from '@expo/vector-icons';
 import { useTranslation } from 'react-i18next';
 import { ChecklistSubItem } from '@/types/ProcedureChecklist';
 import { getAllSubItemIds } from '@/utils/checklistUtils';
+import ControlValueInput from './ControlValueInput';
 
 interface SubItemRendererProps {
   item: ChecklistSubItem;
@@ -30,6 +31,13 @@ interface SubItemRendererProps {
   completedSubItemIds?: Set<string>;
   /** Called when the operator toggles the done state of a sub-item. */
   onToggleSubItemDone?: (item: ChecklistSubItem) => void;
+  /** Values recorded for control sub-items, by sub-item id (execute mode). */
+  controlValues?: Record<string, string>;
+  /**
+   * Called when the operator records the actual value of a control sub-item.
+   * When provided, control sub-items get a value input.
+   */
+  onControlValueChange?: (item: ChecklistSubItem, value: string) => void;
 }
 
 export default function SubItemRenderer({
@@ -40,6 +48,8 @@ export default function SubItemRenderer({
   forceExpanded = false,
   completedSubItemIds,
   onToggleSubItemDone,
+  controlValues,
+  onControlValueChange,
 }: SubItemRendererProps) {
   const { t } = useTranslation('common');
   const [isExpanded, setIsExpanded] = useState(false);
@@ -47,7 +57,8 @@ export default function SubItemRenderer({
 
   const isControlType = item.type === 'control';
   const hasChildren = item.subItems && item.subItems.length > 0;
-  const isExpandable = hasChildren || item.content || item.control || item.image || item.link;
+  const isExpandable = hasChildren || item.content || item.control || item.image || item.link
+    || (isControlType && onControlValueChange);
 
   // Either the user has manually expanded this item OR the parent forced it open
   const effectivelyExpanded = isExpanded || forceExpanded;
@@ -168,6 +179,18 @@ export default function SubItemRenderer({
             </View>
           ) : null}
 
+          {/* Control type: actual value recorded during execution */}
+          {isControlType && onControlValueChange ? (
+            <View style={styles.valueSection}>
+              <Text style={styles.valueLabel}>{t('procedures.execution.actualValue')}</Text>
+              <ControlValueInput
+                item={item}
+                value={controlValues?.[item.id] || ''}
+                onChange={(value) => onControlValueChange(item, value)}
+              />
+            </View>
+          ) : null}
+
           {/* Link */}
           {item.link ? (
             <TouchableOpacity
@@ -191,6 +214,8 @@ export default function SubItemRenderer({
                 forceExpanded={forceExpanded}
                 completedSubItemIds={completedSubItemIds}
                 onToggleSubItemDone={onToggleSubItemDone}
+                controlValues={controlValues}
+                onControlValueChange={onControlValueChange}
               />
             ))}
         </View>
@@ -295,6 +320,17 @@ const styles = StyleSheet.create({
     color: '#1a1a1a',
     lineHeight: 21,
   },
+  valueSection: {
+    marginBottom: 4,
+  },
+  valueLabel: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: '#555',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: 4,
+  },
   linkButton: {
     flexDirection: 'row',
     alignItems: 'center',
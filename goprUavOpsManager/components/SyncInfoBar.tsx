@@ -1,27 +1,135 @@
-import React from 'react';
-import { View, Text, StyleSheet, ActivityIndicator } from 'react-native';
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, ActivityIndicator, TouchableOpacity } from 'react-native';
 import { useTranslation } from 'react-i18next';
+import { Ionicons } from '@expo/vector-icons';
+import { OutboxMutation } from '@/types/OutboxMutation';
 
 interface SyncInfoBarProps {
   visible: boolean;
+  // Writes made offline that wait for upload, listed when the pending bar is expanded
+  pendingMutations?: OutboxMutation[];
+  isOffline?: boolean;
+  onSyncNow?: () => void;
+  onRetry?: (id: string) => void;
+  onDiscard?: (id: string) => void;
 }
 
+const MUTATION_ICONS: Record<OutboxMutation['type'], keyof typeof Ionicons.glyphMap> = {
+  createFlight: 'airplane-outline',
+  createDroneComment: 'chatbubble-outline',
+  updateTaskStatus: 'checkbox-outline',
+};
+
 /**
- * Info bar component that displays when background data sync is in progress
+ * Info bar component that displays when background data sync is in progress,
+ * and lists the changes made offline that are waiting to be uploaded
  */
-export default function SyncInfoBar({ visible }: SyncInfoBarProps) {
+export default function SyncInfoBar({
+  visible,
+  pendingMutations = [],
+  isOffline = false,
+  onSyncNow,
+  onRetry,
+  onDiscard,
+}: SyncInfoBarProps) {
   const { t } = useTranslation('common');
+  const [expanded, setExpanded] = useState(false);
 
-  if (!visible) {
+  if (!visible && pendingMutations.length === 0) {
     return null;
   }
 
+  const conflicts = pendingMutations.filter(mutation => mutation.status !== 'pending').length;
+
+  const describeMutation = (mutation: OutboxMutation): string => {
+    switch (mutation.type) {
+      case 'createFlight':
+        return t('sync.mutations.createFlight', {
+          date: mutation.flightData.date,
+          location: mutation.flightData.location,
+        });
+      case 'createDroneComment':
+        return t('sync.mutations.createDroneComment', { content: mutation.commentData.content });
+      case 'updateTaskStatus':
+        return t('sync.mutations.updateTaskStatus', { task: mutation.taskTitle });
+    }
+  };
+
+  const describeStatus = (mutation: OutboxMutation): string => {
+    if (mutation.status === 'conflict' && mutation.conflictReason) {
+      return t(`sync.conflictReasons.${mutation.conflictReason}`);
+    }
+    if (mutation.status === 'failed') {
+      return t('sync.failed', { error: mutation.lastError || '' });
+    }
+    return mutation.lastError ? t('sync.retrying', { error: mutation.lastError }) : t('sync.waiting');
+  };
+
   return (
-    <View style={styles.container}>
-      <ActivityIndicator size="small" color="#fff" />
-      <Text style={styles.message}>
-        {t('sync.syncingData')}
-      </Text>
+    <View>
+      {visible && (
+        <View style={styles.container}>
+          <ActivityIndicator size="small" color="#fff" />
+          <Text style={styles.message}>
+            {t('sync.syncingData')}
+          </Text>
+        </View>
+      )}
+
+      {pendingMutations.length > 0 && (
+        <View style={[styles.pendingContainer, conflicts > 0 && styles.pendingContainerConflict]}>
+          <TouchableOpacity style={styles.pendingHeader} onPress={() => setExpanded(!expanded)}>
+            <Ionicons name="cloud-upload-outline" size={18} color="#fff" />
+            <Text style={styles.pendingMessage}>
+              {t('sync.pendingChanges', { pending: pendingMutations.length })}
+              {conflicts > 0 ? ` · ${t('sync.needsAttention', { conflicts })}` : ''}
+            </Text>
+            <Ionicons name={expanded ? 'chevron-up' : 'chevron-down'} size={18} color="#fff" />
+          </TouchableOpacity>
+
+          {expanded && (
+            <View style={styles.pendingList}>
+              {pendingMutations.map(mutation => (
+                <View key={mutation.id} style={styles.pendingItem}>
+                  <Ionicons name={MUTATION_ICONS[mutation.type]} size={18} color="#333" />
+                  <View style={styles.pendingItemInfo}>
+                    <Text style={styles.pendingItemTitle} numberOfLines={1}>{describeMutation(mutation)}</Text>
+                    <Text
+                      style={[styles.pendingItemStatus, mutation.status !== 'pending' && styles.pendingItemStatusError]}
+                      numberOfLines={2}
+                    >
+                      {describeStatus(mutation)}
+                    </Text>
+                  </View>
+                  {mutation.status !== 'pending' && onRetry && (
+                    <TouchableOpacity
+                      style={styles.actionButton}
+                      onPress={() => onRetry(mutation.id)}
+                      disabled={isOffline}
+                    >
+                      <Text style={[styles.actionText, isOffline && styles.actionTextDisabled]}>
+                        {mutation.status === 'conflict' ? t('sync.applyAnyway') : t('sync.retry')}
+                      </Text>
+                    </TouchableOpacity>
+                  )}
+                  {onDiscard && (
+                    <TouchableOpacity style={styles.actionButton} onPress={() => onDiscard(mutation.id)}>
+                      <Text style={[styles.actionText, styles.discardText]}>{t('sync.discard')}</Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+              ))}
+
+              {onSyncNow && !isOffline && (
+                <TouchableOpacity style={styles.syncNowButton} onPress={onSyncNow}>
+                  <Ionicons name="sync-outline" size={16} color="#0066CC" />
+                  <Text style={styles.actionText}>{t('sync.syncNow')}</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          )}
+        </View>
+      )}
     </View>
   );
 }
@@ -44,4 +152,78 @@ const styles = StyleSheet.create({
     marginLeft: 8,
     textAlign: 'center',
   },
+  pendingContainer: {
+    backgroundColor: '#FF9800',
+    borderBottomWidth: 1,
+    borderBottomColor: '#F57C00',
+  },
+  pendingContainerConflict: {
+    backgroundColor: '#F44336',
+    borderBottomColor: '#D32F2F',
+  },
+  pendingHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+  },
+  pendingMessage: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '500',
+    textAlign: 'center',
+  },
+  pendingList: {
+    backgroundColor: '#fff',
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+  },
+  pendingItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  pendingItemInfo: {
+    flex: 1,
+  },
+  pendingItemTitle: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#333',
+  },
+  pendingItemStatus: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  pendingItemStatusError: {
+    color: '#D32F2F',
+  },
+  actionButton: {
+    paddingHorizontal: 6,
+    paddingVertical: 4,
+  },
+  actionText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#0066CC',
+  },
+  actionTextDisabled: {
+    color: '#999',
+  },
+  discardText: {
+    color: '#D32F2F',
+  },
+  syncNowButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 10,
+  },
 });
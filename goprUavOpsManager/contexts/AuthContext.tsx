@@ -12,6 +12,9 @@ import {
 } from '@/utils/firebaseUtils';
 import { OfflineProcedureChecklistService } from '@/services/offlineProcedureChecklistService';
 import { OfflineCategoryService } from '@/services/offlineCategoryService';
+import { OfflineProcedureExecutionService } from '@/services/offlineProcedureExecutionService';
+import { OfflineOutboxService } from '@/services/offlineOutboxService';
+import { OfflineDataService } from '@/services/offlineDataService';
 import { useSync } from './SyncContext';
 
 /**
@@ -159,6 +162,19 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
+  // Upload procedure runs finished offline now and whenever the device comes back online
+  const currentUserId = user?.uid;
+  useEffect(() => {
+    if (!currentUserId) return;
+    return OfflineProcedureExecutionService.startAutoUpload(currentUserId);
+  }, [currentUserId]);
+
+  // Replay flights, comments and task updates made offline, now and whenever the device comes back online
+  useEffect(() => {
+    if (!currentUserId) return;
+    return OfflineOutboxService.startAutoReplay(currentUserId);
+  }, [currentUserId]);
+
   useEffect(() => {
     console.log('[AuthContext] Setting up auth state listener');
     
@@ -187,10 +203,11 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
                 console.log('[AuthContext] Starting background data sync');
                 setSyncing(true);
                 
-                // Background sync for procedures and categories
+                // Background sync for procedures, categories and the data needed at a base without coverage
                 await Promise.all([
                   OfflineProcedureChecklistService.preDownloadProcedures(userData.role),
                   OfflineCategoryService.preDownloadCategories(userData.role),
+                  OfflineDataService.preDownloadData(userData),
                 ]);
                 
                 console.log('[AuthContext] ✅ Background data sync completed');
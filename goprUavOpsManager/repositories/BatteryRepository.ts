@@ -0,0 +1,132 @@
+import { Battery, BatteryFormData } from '@/types/Battery';
+import {
+  getCollection,
+  getDocument,
+  getDocumentData,
+  addDocument,
+  updateDocument,
+  createQuery,
+  orderBy,
+  getDocs,
+  getDocsArray,
+  timestampNow
+} from '@/utils/firebaseUtils';
+import { filterUndefinedProperties } from '@/utils/filterUndefinedProperties';
+
+export class BatteryRepository {
+  private static readonly COLLECTION_NAME = 'batteries';
+
+  /**
+   * Convert Firestore data to Battery
+   */
+  private static convertFromFirestore(id: string, data: any): Battery {
+    return {
+      id,
+      label: data.label || '',
+      serialNumber: data.serialNumber,
+      model: data.model,
+      compatibleDroneIds: data.compatibleDroneIds || [],
+      cycleCount: data.cycleCount || 0,
+      ratedCycles: data.ratedCycles,
+      purchaseDate: data.purchaseDate,
+      internalResistance: data.internalResistance,
+      healthNotes: data.healthNotes,
+      markedDegraded: data.markedDegraded || false,
+      isRetired: data.isRetired || false,
+      retiredAt: data.retiredAt?.toDate ? data.retiredAt.toDate() : data.retiredAt ? new Date(data.retiredAt) : undefined,
+      createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : data.createdAt ? new Date(data.createdAt) : undefined,
+      updatedAt: data.updatedAt?.toDate ? data.updatedAt.toDate() : data.updatedAt ? new Date(data.updatedAt) : undefined,
+      createdBy: data.createdBy,
+      updatedBy: data.updatedBy
+    };
+  }
+
+  /**
+   * Get all batteries, retired ones included, by label
+   */
+  static async getBatteries(): Promise<Battery[]> {
+    try {
+      const q = createQuery(getCollection(this.COLLECTION_NAME), orderBy('label', 'asc'));
+
+      const snapshot = await getDocs(q);
+      return getDocsArray(snapshot).map((doc: any) => this.convertFromFirestore(doc.id, doc.data));
+    } catch (error) {
+      console.error('Error fetching batteries:', error);
+      throw new Error('Failed to fetch batteries');
+    }
+  }
+
+  /**
+   * Get a single battery by ID
+   */
+  static async getBattery(id: string): Promise<Battery | null> {
+    try {
+      const batteryDoc = await getDocumentData(getDocument(this.COLLECTION_NAME, id));
+
+      if (!batteryDoc.exists) {
+        return null;
+      }
+
+      return this.convertFromFirestore(id, batteryDoc.data);
+    } catch (error) {
+      console.error('Error fetching battery:', error);
+      throw new Error('Failed to fetch battery');
+    }
+  }
+
+  /**
+   * Create a new battery
+   */
+  static async createBattery(batteryData: BatteryFormData, userId: string): Promise<string> {
+    try {
+      const now = timestampNow();
+      const docRef = await addDocument(getCollection(this.COLLECTION_NAME), filterUndefinedProperties({
+        ...batteryData,
+        isRetired: false,
+        createdAt: now,
+        updatedAt: now,
+        createdBy: userId,
+        updatedBy: userId,
+      }));
+
+      return docRef.id;
+    } catch (error) {
+      console.error('Error creating battery:', error);
+      throw new Error('Failed to create battery');
+    }
+  }
+
+  /**
+   * Update an existing battery
+   */
+  static async updateBattery(id: string, batteryData: Partial<Battery>, userId: string): Promise<void> {
+    try {
+      await updateDocument(getDocument(this.COLLECTION_NAME, id), filterUndefinedProperties({
+        ...batteryData,
+        updatedAt: timestampNow(),
+        updatedBy: userId,
+      }));
+    } catch (error) {
+      console.error('Error updating battery:', error);
+      throw new Error('Failed to update battery');
+    }
+  }
+
+  /**
+   * Retire a battery so it can no longer be picked for flights
+   */
+  static async retireBattery(id: string, userId: string): Promise<void> {
+    try {
+      const now = timestampNow();
+      await updateDocument(getDocument(this.COLLECTION_NAME, id), {
+        isRetired: true,
+        retiredAt: now,
+        updatedAt: now,
+        updatedBy: userId,
+      });
+    } catch (error) {
+      console.error('Error retiring battery:', error);
+      throw new Error('Failed to retire battery');
+    }
+  }
+}
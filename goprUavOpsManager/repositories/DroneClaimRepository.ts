@@ -3,8 +3,9 @@ import {
   getCollection,
   getDocument,
   getDocumentData,
-  addDocument,
-  updateDocument,
+  getNewDocument,
+  runTransaction,
+  TransactionContext,
   createQuery,
   where,
   orderBy,
@@ -17,6 +18,8 @@ import {
 
 export class DroneClaimRepository {
   private static readonly COLLECTION_NAME = 'droneClaims';
+  // One lock document per drone, keyed by drone ID, pointing at the active claim
+  private static readonly LOCK_COLLECTION_NAME = 'droneClaimLocks';
 
   /**
    * Convert Firestore data to DroneClaim
@@ -32,7 +35,11 @@ export class DroneClaimRepository {
       createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : new Date(data.createdAt),
       updatedAt: data.updatedAt?.toDate ? data.updatedAt.toDate() : data.updatedAt ? new Date(data.updatedAt) : undefined,
       createdBy: data.createdBy,
-      updatedBy: data.updatedBy
+      updatedBy: data.updatedBy,
+      reservationId: data.reservationId,
+      overdueAt: data.overdueAt?.toDate ? data.overdueAt.toDate() : undefined,
+      autoReleaseAt: data.autoReleaseAt?.toDate ? data.autoReleaseAt.toDate() : undefined,
+      releaseReason: data.releaseReason
     };
   }
 
@@ -65,20 +72,74 @@ export class DroneClaimRepository {
   }
 
   /**
-   * Create a new drone claim
+   * Build lock document data; releasedClaimId lets the security rules verify a release
    */
-  static async createClaim(claimData: DroneClaimData, userId: string): Promise<string> {
+  private static createLockData(claimId: string | null, claimUserId: string | null, userId: string, releasedClaimId?: string): any {
+    return {
+      claimId,
+      userId: claimUserId,
+      releasedClaimId: releasedClaimId ?? null,
+      updatedAt: timestampNow(),
+      updatedBy: userId
+    };
+  }
+
+  /**
+   * Drones claimed before claim locks were introduced have no lock document yet,
+   * so their active claim has to be found with a query before the transaction starts
+   */
+  private static async getUnlockedActiveClaimId(droneId: string): Promise<string | null> {
+    const lockSnapshot = await getDocumentData(getDocument(this.LOCK_COLLECTION_NAME, droneId));
+    if (lockSnapshot.exists) {
+      return null;
+    }
+
+    const activeClaim = await this.getActiveClaim(droneId);
+    return activeClaim?.id ?? null;
+  }
+
+  /**
+   * Read the ID of the claim currently holding the drone inside a transaction
+   */
+  private static async getLockedClaimId(
+    transaction: TransactionContext,
+    lockDoc: any,
+    unlockedActiveClaimId: string | null
+  ): Promise<{ lockExists: boolean; claimId: string | null }> {
+    const lockSnapshot = await transaction.get(lockDoc);
+    if (lockSnapshot.exists) {
+      return { lockExists: true, claimId: lockSnapshot.data.claimId ?? null };
+    }
+    return { lockExists: false, claimId: unlockedActiveClaimId };
+  }
+
+  /**
+   * Create a claim and take the drone lock atomically.
+   * Returns null when the drone is already claimed.
+   */
+  static async createClaimIfAvailable(claimData: DroneClaimData, userId: string): Promise<string | null> {
     try {
-      const now = timestampNow();
-      const processedData = this.convertToFirestore({
-        ...claimData,
-        createdAt: now.toDate(),
-        createdBy: userId
+      const unlockedActiveClaimId = await this.getUnlockedActiveClaimId(claimData.droneId);
+      const lockDoc = getDocument(this.LOCK_COLLECTION_NAME, claimData.droneId);
+      const claimDoc = getNewDocument(this.COLLECTION_NAME);
+
+      const created = await runTransaction(async (transaction) => {
+        const lock = await this.getLockedClaimId(transaction, lockDoc, unlockedActiveClaimId);
+        if (lock.claimId) {
+          return false;
+        }
+
+        const now = timestampNow();
+        transaction.set(claimDoc, this.convertToFirestore({
+          ...claimData,
+          createdAt: now.toDate(),
+          createdBy: userId
+        }));
+        transaction.set(lockDoc, this.createLockData(claimDoc.id, claimData.userId, userId));
+        return true;
       });
 
-      const claimsCollection = getCollection(this.COLLECTION_NAME);
-      const docRef = await addDocument(claimsCollection, processedData);
-      return docRef.id;
+      return created ? claimDoc.id : null;
     } catch (error) {
       console.error('Error creating drone claim:', error);
       throw new Error('Failed to create drone claim');
@@ -86,22 +147,98 @@ export class DroneClaimRepository {
   }
 
   /**
-   * Update an existing drone claim (for ending claims)
+   * End an active claim and free the drone lock atomically.
+   * Returns false when the claim does not exist or was already ended.
    */
-  static async updateClaim(id: string, updates: Partial<DroneClaim>, userId: string): Promise<void> {
+  static async endClaim(id: string, userId: string): Promise<boolean> {
     try {
-      const now = timestampNow();
-      const processedUpdates = this.convertToFirestore({
-        ...updates,
-        updatedAt: now.toDate(),
-        updatedBy: userId
+      const claimDoc = getDocument(this.COLLECTION_NAME, id);
+
+      return await runTransaction(async (transaction) => {
+        const claimSnapshot = await transaction.get(claimDoc);
+        if (!claimSnapshot.exists || claimSnapshot.data.endTime) {
+          return false;
+        }
+
+        const lockDoc = getDocument(this.LOCK_COLLECTION_NAME, claimSnapshot.data.droneId);
+        const lockSnapshot = await transaction.get(lockDoc);
+
+        const now = timestampNow().toDate();
+        transaction.update(claimDoc, this.convertToFirestore({
+          endTime: now,
+          updatedAt: now,
+          updatedBy: userId
+        }));
+
+        if (!lockSnapshot.exists || lockSnapshot.data.claimId === id) {
+          transaction.set(lockDoc, this.createLockData(null, null, userId, id));
+        }
+        return true;
       });
+    } catch (error) {
+      console.error('Error ending drone claim:', error);
+      throw new Error('Failed to end drone claim');
+    }
+  }
 
-      const claimDoc = getDocument(this.COLLECTION_NAME, id);
-      await updateDocument(claimDoc, processedUpdates);
+  /**
+   * End the active claim of a drone, if any, and optionally hand the drone to a new claim,
+   * all in one transaction
+   */
+  static async overrideClaim(
+    droneId: string,
+    newClaimData: DroneClaimData | null,
+    userId: string
+  ): Promise<{ endedClaim: DroneClaim | null; newClaimId: string | null }> {
+    try {
+      const unlockedActiveClaimId = await this.getUnlockedActiveClaimId(droneId);
+      const lockDoc = getDocument(this.LOCK_COLLECTION_NAME, droneId);
+      const newClaimDoc = newClaimData ? getNewDocument(this.COLLECTION_NAME) : null;
+
+      const endedClaim = await runTransaction(async (transaction) => {
+        const lock = await this.getLockedClaimId(transaction, lockDoc, unlockedActiveClaimId);
+
+        let activeClaim: DroneClaim | null = null;
+        let activeClaimDoc: any = null;
+        if (lock.claimId) {
+          activeClaimDoc = getDocument(this.COLLECTION_NAME, lock.claimId);
+          const claimSnapshot = await transaction.get(activeClaimDoc);
+          if (claimSnapshot.exists && !claimSnapshot.data.endTime) {
+            activeClaim = this.convertFromFirestore(lock.claimId, claimSnapshot.data);
+          }
+        }
+
+        const now = timestampNow().toDate();
+        if (activeClaim) {
+          transaction.update(activeClaimDoc, this.convertToFirestore({
+            endTime: now,
+            releaseReason: 'adminOverride',
+            updatedAt: now,
+            updatedBy: userId
+          }));
+        }
+
+        if (newClaimDoc && newClaimData) {
+          transaction.set(newClaimDoc, this.convertToFirestore({
+            ...newClaimData,
+            createdAt: now,
+            createdBy: userId
+          }));
+        }
+
+        transaction.set(lockDoc, this.createLockData(
+          newClaimDoc?.id ?? null,
+          newClaimData?.userId ?? null,
+          userId,
+          activeClaim?.id
+        ));
+        return activeClaim;
+      });
+
+      return { endedClaim, newClaimId: newClaimDoc?.id ?? null };
     } catch (error) {
-      console.error('Error updating drone claim:', error);
-      throw new Error('Failed to update drone claim');
+      console.error('Error overriding drone claim:', error);
+      throw new Error('Failed to override drone claim');
     }
   }
 
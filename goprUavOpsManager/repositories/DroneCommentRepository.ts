@@ -5,6 +5,7 @@ import {
   getDocument,
   getDocumentData,
   addDocument,
+  setDocument,
   updateDocument,
   createQuery,
   where,
@@ -93,13 +94,13 @@ export class DroneCommentRepository {
   static async getDroneComment(id: string): Promise<DroneComment | null> {
     try {
       const docRef = getDocument(this.COLLECTION_NAME, id);
-      const docData = await getDocumentData(docRef);
+      const commentDoc = await getDocumentData(docRef);
       
-      if (!docData) {
+      if (!commentDoc.exists) {
         return null;
       }
 
-      return this.convertFromFirestore(id, docData);
+      return this.convertFromFirestore(id, commentDoc.data);
     } catch (error) {
       console.error('Error fetching drone comment:', error);
       return null;
@@ -109,7 +110,12 @@ export class DroneCommentRepository {
   /**
    * Create a new drone comment
    */
-  static async createDroneComment(commentData: DroneCommentCreateData, userId: string, userEmail?: string): Promise<string> {
+  static async createDroneComment(
+    commentData: DroneCommentCreateData,
+    userId: string,
+    userEmail?: string,
+    documentId?: string
+  ): Promise<string> {
     try {
       const now = timestampNow();
       const docData = {
@@ -124,6 +130,11 @@ export class DroneCommentRepository {
         createdAt: now,
       };
 
+      if (documentId) {
+        await setDocument(getDocument(this.COLLECTION_NAME, documentId), docData);
+        return documentId;
+      }
+
       const collection = getCollection(this.COLLECTION_NAME);
       const docRef = await addDocument(collection, docData);
       return docRef.id;
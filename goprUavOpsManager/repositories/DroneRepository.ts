@@ -1,4 +1,5 @@
 import { Drone } from '@/types/Drone';
+import { ServiceInterval } from '@/types/Maintenance';
 import { UserRole } from '@/types/UserRole';
 import {
   getCollection,
@@ -13,6 +14,7 @@ import {
   getDocsArray,
   timestampNow
 } from '@/utils/firebaseUtils';
+import { filterUndefinedProperties } from '@/utils/filterUndefinedProperties';
 
 export class DroneRepository {
   private static readonly COLLECTION_NAME = 'drones';
@@ -106,6 +108,25 @@ export class DroneRepository {
     }
   }
 
+  /**
+   * Replace the service intervals of a drone
+   */
+  static async updateServiceIntervals(id: string, serviceIntervals: ServiceInterval[], userId: string): Promise<void> {
+    try {
+      const droneRef = getDocument(this.COLLECTION_NAME, id);
+
+      await updateDocument(droneRef, {
+        // Firestore rejects undefined values inside arrays (limits left empty)
+        serviceIntervals: filterUndefinedProperties(serviceIntervals),
+        updatedAt: timestampNow(),
+        updatedBy: userId,
+      });
+    } catch (error) {
+      console.error('Error updating service intervals:', error);
+      throw new Error('Failed to update service intervals');
+    }
+  }
+
   /**
    * Soft delete a drone
    */
@@ -155,6 +176,10 @@ export class DroneRepository {
       createdAt: data.createdAt?.toDate(),
       updatedAt: data.updatedAt?.toDate(),
       deletedAt: data.deletedAt?.toDate(),
+      serviceIntervals: data.serviceIntervals?.map((interval: any) => ({
+        ...interval,
+        lastServiceAt: interval.lastServiceAt?.toDate ? interval.lastServiceAt.toDate() : new Date(interval.lastServiceAt),
+      })),
     } as Drone;
   }
 }
\ No newline at end of file
@@ -0,0 +1,155 @@
+import { DroneReservation, MAX_RESERVATION_HOURS } from '@/types/DroneReservation';
+import {
+  getCollection,
+  getDocument,
+  getDocumentData,
+  addDocument,
+  updateDocument,
+  createQuery,
+  where,
+  orderBy,
+  getDocs,
+  getDocsArray,
+  timestampNow,
+  Timestamp
+} from '@/utils/firebaseUtils';
+import { filterUndefinedProperties } from '@/utils/filterUndefinedProperties';
+
+export class DroneReservationRepository {
+  private static readonly COLLECTION_NAME = 'droneReservations';
+
+  /**
+   * Convert Firestore data to DroneReservation
+   */
+  private static convertFromFirestore(id: string, data: any): DroneReservation {
+    return {
+      id,
+      droneId: data.droneId,
+      userId: data.userId,
+      userEmail: data.userEmail,
+      startTime: data.startTime?.toDate ? data.startTime.toDate() : new Date(data.startTime),
+      endTime: data.endTime?.toDate ? data.endTime.toDate() : new Date(data.endTime),
+      purpose: data.purpose,
+      status: data.status || 'scheduled',
+      claimId: data.claimId,
+      cancelReason: data.cancelReason,
+      createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : new Date(data.createdAt),
+      updatedAt: data.updatedAt?.toDate ? data.updatedAt.toDate() : data.updatedAt ? new Date(data.updatedAt) : undefined,
+      createdBy: data.createdBy,
+      updatedBy: data.updatedBy
+    };
+  }
+
+  /**
+   * Convert DroneReservation fields to Firestore data
+   */
+  private static convertToFirestore(reservation: Partial<DroneReservation>): any {
+    const data: any = { ...reservation };
+
+    if (data.startTime) {
+      data.startTime = Timestamp.fromDate(data.startTime);
+    }
+    if (data.endTime) {
+      data.endTime = Timestamp.fromDate(data.endTime);
+    }
+    if (data.createdAt) {
+      data.createdAt = Timestamp.fromDate(data.createdAt);
+    }
+    if (data.updatedAt) {
+      data.updatedAt = Timestamp.fromDate(data.updatedAt);
+    }
+
+    delete data.id;
+
+    return filterUndefinedProperties(data);
+  }
+
+  /**
+   * Create a new reservation
+   */
+  static async createReservation(
+    reservation: Omit<DroneReservation, 'id' | 'createdAt' | 'createdBy'>,
+    userId: string
+  ): Promise<string> {
+    try {
+      const processedData = this.convertToFirestore({
+        ...reservation,
+        createdAt: timestampNow().toDate(),
+        createdBy: userId
+      });
+
+      const docRef = await addDocument(getCollection(this.COLLECTION_NAME), processedData);
+      return docRef.id;
+    } catch (error) {
+      console.error('Error creating drone reservation:', error);
+      throw new Error('Failed to create drone reservation');
+    }
+  }
+
+  /**
+   * Update an existing reservation (status changes)
+   */
+  static async updateReservation(id: string, updates: Partial<DroneReservation>, userId: string): Promise<void> {
+    try {
+      const processedUpdates = this.convertToFirestore({
+        ...updates,
+        updatedAt: timestampNow().toDate(),
+        updatedBy: userId
+      });
+
+      await updateDocument(getDocument(this.COLLECTION_NAME, id), processedUpdates);
+    } catch (error) {
+      console.error('Error updating drone reservation:', error);
+      throw new Error('Failed to update drone reservation');
+    }
+  }
+
+  /**
+   * Get a specific reservation by ID
+   */
+  static async getReservation(id: string): Promise<DroneReservation | null> {
+    try {
+      const snapshot = await getDocumentData(getDocument(this.COLLECTION_NAME, id));
+
+      if (!snapshot.exists) {
+        return null;
+      }
+
+      return this.convertFromFirestore(id, snapshot.data);
+    } catch (error) {
+      console.error('Error fetching drone reservation:', error);
+      throw new Error('Failed to fetch drone reservation');
+    }
+  }
+
+  /**
+   * Get reservations overlapping a time range, for one drone or the whole fleet, ordered by start time.
+   * Firestore can only range-filter one field, so the query looks back by the longest possible
+   * reservation and the end time is checked here.
+   */
+  static async getReservationsInRange(from: Date, to: Date, droneId?: string): Promise<DroneReservation[]> {
+    try {
+      const earliestStart = new Date(from.getTime() - MAX_RESERVATION_HOURS * 60 * 60 * 1000);
+      const constraints = [];
+
+      if (droneId) {
+        constraints.push(where('droneId', '==', droneId));
+      }
+      constraints.push(
+        where('startTime', '>=', Timestamp.fromDate(earliestStart)),
+        where('startTime', '<', Timestamp.fromDate(to)),
+        orderBy('startTime', 'asc')
+      );
+
+      const q = createQuery(getCollection(this.COLLECTION_NAME), ...constraints);
+      const snapshot = await getDocs(q);
+
+      return getDocsArray(snapshot)
+        .map((doc: any) => this.convertFromFirestore(doc.id, doc.data))
+        .filter((reservation: DroneReservation) => reservation.endTime > from);
+    } catch (error) {
+      console.error('Error fetching drone reservations:', error);
+      throw new Error('Failed to fetch drone reservations');
+    }
+  }
+}
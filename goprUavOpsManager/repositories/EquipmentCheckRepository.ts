@@ -0,0 +1,77 @@
+import { EquipmentCheck, EquipmentCheckData } from '@/types/EquipmentCheck';
+import {
+  getCollection,
+  addDocument,
+  createQuery,
+  where,
+  orderBy,
+  limit,
+  getDocs,
+  getDocsArray,
+  timestampNow
+} from '@/utils/firebaseUtils';
+import { filterUndefinedProperties } from '@/utils/filterUndefinedProperties';
+
+export class EquipmentCheckRepository {
+  private static readonly COLLECTION_NAME = 'equipmentChecks';
+
+  /**
+   * Convert Firestore data to EquipmentCheck
+   */
+  private static convertFromFirestore(id: string, data: any): EquipmentCheck {
+    const items = Array.isArray(data.items) ? data.items : [];
+
+    return {
+      id,
+      droneId: data.droneId,
+      userId: data.userId,
+      userEmail: data.userEmail,
+      checkedAt: data.checkedAt?.toDate ? data.checkedAt.toDate() : new Date(data.checkedAt),
+      items,
+      missingCount: typeof data.missingCount === 'number'
+        ? data.missingCount
+        : items.filter((item: any) => !item.present).length,
+      claimId: data.claimId,
+      flightId: data.flightId
+    };
+  }
+
+  /**
+   * Save an equipment check
+   */
+  static async createCheck(check: EquipmentCheckData): Promise<string> {
+    try {
+      const docRef = await addDocument(
+        getCollection(this.COLLECTION_NAME),
+        filterUndefinedProperties({
+          ...check,
+          checkedAt: timestampNow()
+        })
+      );
+      return docRef.id;
+    } catch (error) {
+      console.error('Error creating equipment check:', error);
+      throw new Error('Failed to create equipment check');
+    }
+  }
+
+  /**
+   * Get the checks of a drone, newest first
+   */
+  static async getDroneChecks(droneId: string, maxResults: number = 50): Promise<EquipmentCheck[]> {
+    try {
+      const q = createQuery(
+        getCollection(this.COLLECTION_NAME),
+        where('droneId', '==', droneId),
+        orderBy('checkedAt', 'desc'),
+        limit(maxResults)
+      );
+
+      const snapshot = await getDocs(q);
+      return getDocsArray(snapshot).map((doc: any) => this.convertFromFirestore(doc.id, doc.data));
+    } catch (error) {
+      console.error('Error fetching equipment checks:', error);
+      throw new Error('Failed to fetch equipment checks');
+    }
+  }
+}
@@ -5,6 +5,7 @@ import {
   getDocument,
   getDocumentData,
   addDocument,
+  setDocument,
   updateDocument,
   createQuery,
   where,
@@ -32,6 +33,7 @@ export class FlightRepository {
         // Admin and manager can see all flights
         q = createQuery(
           flightsCollection, 
+          where('isDeleted', '==', false),
           orderBy('date', 'desc'),
           orderBy('startTime', 'desc')
         );
@@ -40,6 +42,7 @@ export class FlightRepository {
         q = createQuery(
           flightsCollection,
           where('userId', '==', currentUserId),
+          where('isDeleted', '==', false),
           orderBy('userId', 'asc'),
           orderBy('date', 'desc'),
           orderBy('startTime', 'desc')
@@ -77,18 +80,26 @@ export class FlightRepository {
    */
   static async createFlight(
     flightData: Omit<Flight, 'id' | 'createdAt' | 'updatedAt' | 'createdBy' | 'updatedBy'>, 
-    currentUserId: string
+    currentUserId: string,
+    documentId?: string
   ): Promise<string> {
     try {
       const now = timestampNow();
-      const docRef = await addDocument(getCollection(this.COLLECTION_NAME), {
+      const data = {
         ...flightData,
+        isDeleted: false,
         createdAt: now,
         updatedAt: now,
         createdBy: currentUserId,
         updatedBy: currentUserId,
-      });
+      };
 
+      if (documentId) {
+        await setDocument(getDocument(this.COLLECTION_NAME, documentId), data);
+        return documentId;
+      }
+
+      const docRef = await addDocument(getCollection(this.COLLECTION_NAME), data);
       return docRef.id;
     } catch (error) {
       console.error('Error creating flight:', error);
@@ -117,7 +128,7 @@ export class FlightRepository {
   /**
    * Soft delete a flight
    */
-  static async deleteFlight(id: string, currentUserId: string): Promise<void> {
+  static async softDeleteFlight(id: string, currentUserId: string): Promise<void> {
     try {
       const flightRef = getDocument(this.COLLECTION_NAME, id);
 
@@ -133,6 +144,25 @@ export class FlightRepository {
     }
   }
 
+  /**
+   * Restore a soft-deleted flight
+   */
+  static async restoreFlight(id: string, currentUserId: string): Promise<void> {
+    try {
+      const flightRef = getDocument(this.COLLECTION_NAME, id);
+
+      await updateDocument(flightRef, {
+        isDeleted: false,
+        deletedAt: null,
+        updatedAt: timestampNow(),
+        updatedBy: currentUserId,
+      });
+    } catch (error) {
+      console.error('Error restoring flight:', error);
+      throw new Error('Failed to restore flight');
+    }
+  }
+
   /**
    * Get paginated flights with filtering
    */
@@ -147,37 +177,7 @@ export class FlightRepository {
       const pageNumber = queryParams.pageNumber || 1;
 
       // Build query constraints
-      const constraints = [];
-
-      // Role-based access control
-      if (userRole !== 'admin' && userRole !== 'manager') {
-        constraints.push(where('userId', '==', currentUserId));
-      }
-
-      // Apply filters
-      if (queryParams.startDate) {
-        constraints.push(where('date', '>=', queryParams.startDate.toISOString().split('T')[0]));
-      }
-
-      if (queryParams.endDate) {
-        constraints.push(where('date', '<=', queryParams.endDate.toISOString().split('T')[0]));
-      }
-
-      if (queryParams.flightCategory) {
-        constraints.push(where('flightCategory', '==', queryParams.flightCategory));
-      }
-
-      if (queryParams.activityType) {
-        constraints.push(where('activityType', '==', queryParams.activityType));
-      }
-
-      if (queryParams.userEmail) {
-        constraints.push(where('userEmail', '==', queryParams.userEmail));
-      }
-
-      if (queryParams.droneId) {
-        constraints.push(where('droneId', '==', queryParams.droneId));
-      }
+      const constraints = this.buildFilterConstraints(queryParams, userRole, currentUserId);
 
       // Build query for counting
       const countQuery = createQuery(flightsCollection, ...constraints);
@@ -230,6 +230,141 @@ export class FlightRepository {
     }
   }
 
+  /**
+   * Get all flights matching the filters (no pagination), used for logbook exports
+   */
+  static async getAllFilteredFlights(
+    queryParams: FlightQuery,
+    userRole: UserRole,
+    currentUserId: string
+  ): Promise<Flight[]> {
+    try {
+      const constraints = this.buildFilterConstraints(queryParams, userRole, currentUserId);
+      const q = createQuery(
+        getCollection(this.COLLECTION_NAME),
+        ...constraints,
+        orderBy('date', 'desc'),
+        orderBy('startTime', 'desc')
+      );
+
+      const snapshot = await getDocs(q);
+      return getDocsArray(snapshot).map((doc: any) => this.convertFromFirestore(doc.id, doc.data));
+    } catch (error) {
+      console.error('Error fetching filtered flights:', error);
+      throw new Error('Failed to fetch flights');
+    }
+  }
+
+  /**
+   * Count a pilot's (non-deleted) flights with a date within the given range (YYYY-MM-DD, inclusive)
+   */
+  static async countPilotFlights(userId: string, startDate: string, endDate: string): Promise<number> {
+    try {
+      const q = createQuery(
+        getCollection(this.COLLECTION_NAME),
+        where('userId', '==', userId),
+        where('isDeleted', '==', false),
+        where('date', '>=', startDate),
+        where('date', '<=', endDate)
+      );
+
+      const snapshot = await getCountFromServer(q);
+      return snapshot.data.count;
+    } catch (error) {
+      console.error('Error counting pilot flights:', error);
+      throw new Error('Failed to count pilot flights');
+    }
+  }
+
+  /**
+   * Get a pilot's most recent (non-deleted) flights with a drone
+   */
+  static async getRecentDroneFlights(droneId: string, userId: string, maxResults: number = 5): Promise<Flight[]> {
+    try {
+      const q = createQuery(
+        getCollection(this.COLLECTION_NAME),
+        where('droneId', '==', droneId),
+        where('userId', '==', userId),
+        where('isDeleted', '==', false),
+        orderBy('date', 'desc'),
+        orderBy('startTime', 'desc'),
+        limit(maxResults)
+      );
+
+      const snapshot = await getDocs(q);
+      return getDocsArray(snapshot).map((doc: any) => this.convertFromFirestore(doc.id, doc.data));
+    } catch (error) {
+      console.error('Error fetching recent drone flights:', error);
+      throw new Error('Failed to fetch recent drone flights');
+    }
+  }
+
+  /**
+   * Get a pilot's most recent non-deleted flights, newest first
+   */
+  static async getRecentUserFlights(userId: string, maxResults: number = 50): Promise<Flight[]> {
+    try {
+      const q = createQuery(
+        getCollection(this.COLLECTION_NAME),
+        where('userId', '==', userId),
+        where('isDeleted', '==', false),
+        orderBy('date', 'desc'),
+        orderBy('startTime', 'desc'),
+        limit(maxResults)
+      );
+
+      const snapshot = await getDocs(q);
+      return getDocsArray(snapshot).map((doc: any) => this.convertFromFirestore(doc.id, doc.data));
+    } catch (error) {
+      console.error('Error fetching recent user flights:', error);
+      throw new Error('Failed to fetch recent flights');
+    }
+  }
+
+  /**
+   * Build the role-based access and filter constraints shared by flight list queries
+   */
+  private static buildFilterConstraints(queryParams: FlightQuery, userRole: UserRole, currentUserId: string): any[] {
+    const constraints = [];
+
+    // Role-based access control
+    if (userRole !== 'admin' && userRole !== 'manager') {
+      constraints.push(where('userId', '==', currentUserId));
+    }
+
+    // Soft-deleted flights are only listed for admins who explicitly ask for them
+    if (!(queryParams.includeDeleted && userRole === 'admin')) {
+      constraints.push(where('isDeleted', '==', false));
+    }
+
+    // Apply filters
+    if (queryParams.startDate) {
+      constraints.push(where('date', '>=', queryParams.startDate.toISOString().split('T')[0]));
+    }
+
+    if (queryParams.endDate) {
+      constraints.push(where('date', '<=', queryParams.endDate.toISOString().split('T')[0]));
+    }
+
+    if (queryParams.flightCategory) {
+      constraints.push(where('flightCategory', '==', queryParams.flightCategory));
+    }
+
+    if (queryParams.activityType) {
+      constraints.push(where('activityType', '==', queryParams.activityType));
+    }
+
+    if (queryParams.userEmail) {
+      constraints.push(where('userEmail', '==', queryParams.userEmail));
+    }
+
+    if (queryParams.droneId) {
+      constraints.push(where('droneId', '==', queryParams.droneId));
+    }
+
+    return constraints;
+  }
+
   /**
    * Convert Firestore document data to Flight domain object
    */
@@ -240,6 +375,7 @@ export class FlightRepository {
       // Convert Firestore Timestamps to Dates
       createdAt: data.createdAt?.toDate(),
       updatedAt: data.updatedAt?.toDate(),
+      deletedAt: data.deletedAt?.toDate(),
     } as Flight;
   }
 }
\ No newline at end of file
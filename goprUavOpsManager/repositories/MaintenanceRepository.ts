@@ -0,0 +1,103 @@
+import { MaintenanceEntry } from '@/types/Maintenance';
+import {
+  getCollection,
+  getDocument,
+  addDocument,
+  updateDocument,
+  createQuery,
+  where,
+  orderBy,
+  getDocs,
+  getDocsArray,
+  timestampNow,
+  Timestamp
+} from '@/utils/firebaseUtils';
+import { filterUndefinedProperties } from '@/utils/filterUndefinedProperties';
+
+export class MaintenanceRepository {
+  private static readonly COLLECTION_NAME = 'maintenanceEntries';
+
+  /**
+   * Convert Firestore data to MaintenanceEntry
+   */
+  private static convertFromFirestore(id: string, data: any): MaintenanceEntry {
+    return {
+      id,
+      droneId: data.droneId,
+      type: data.type,
+      description: data.description || '',
+      performedAt: data.performedAt?.toDate ? data.performedAt.toDate() : new Date(data.performedAt),
+      cost: data.cost,
+      attachments: data.attachments || [],
+      flightMinutesAtService: data.flightMinutesAtService || 0,
+      flightCountAtService: data.flightCountAtService || 0,
+      resetIntervalIds: data.resetIntervalIds || [],
+      userId: data.userId,
+      userEmail: data.userEmail,
+      isDeleted: data.isDeleted || false,
+      createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : new Date(data.createdAt),
+      updatedAt: data.updatedAt?.toDate ? data.updatedAt.toDate() : data.updatedAt ? new Date(data.updatedAt) : undefined,
+      createdBy: data.createdBy,
+      updatedBy: data.updatedBy
+    };
+  }
+
+  /**
+   * Create a new maintenance entry
+   */
+  static async createEntry(
+    entry: Omit<MaintenanceEntry, 'id' | 'isDeleted' | 'createdAt' | 'updatedAt' | 'createdBy' | 'updatedBy'>,
+    userId: string
+  ): Promise<string> {
+    try {
+      const docRef = await addDocument(getCollection(this.COLLECTION_NAME), filterUndefinedProperties({
+        ...entry,
+        performedAt: Timestamp.fromDate(entry.performedAt),
+        isDeleted: false,
+        createdAt: timestampNow(),
+        createdBy: userId,
+      }));
+
+      return docRef.id;
+    } catch (error) {
+      console.error('Error creating maintenance entry:', error);
+      throw new Error('Failed to create maintenance entry');
+    }
+  }
+
+  /**
+   * Get the maintenance log of a drone, most recent service first
+   */
+  static async getDroneEntries(droneId: string): Promise<MaintenanceEntry[]> {
+    try {
+      const q = createQuery(
+        getCollection(this.COLLECTION_NAME),
+        where('droneId', '==', droneId),
+        where('isDeleted', '==', false),
+        orderBy('performedAt', 'desc')
+      );
+
+      const snapshot = await getDocs(q);
+      return getDocsArray(snapshot).map((doc: any) => this.convertFromFirestore(doc.id, doc.data));
+    } catch (error) {
+      console.error('Error fetching maintenance entries:', error);
+      throw new Error('Failed to fetch maintenance entries');
+    }
+  }
+
+  /**
+   * Soft delete a maintenance entry
+   */
+  static async softDeleteEntry(id: string, userId: string): Promise<void> {
+    try {
+      await updateDocument(getDocument(this.COLLECTION_NAME, id), {
+        isDeleted: true,
+        updatedAt: timestampNow(),
+        updatedBy: userId,
+      });
+    } catch (error) {
+      console.error('Error deleting maintenance entry:', error);
+      throw new Error('Failed to delete maintenance entry');
+    }
+  }
+}
@@ -0,0 +1,155 @@
+import { Mission } from '@/types/Mission';
+import { UserRole } from '@/types/UserRole';
+import {
+  getCollection,
+  getDocument,
+  getDocumentData,
+  addDocument,
+  updateDocument,
+  createQuery,
+  where,
+  orderBy,
+  getDocs,
+  getDocsArray,
+  timestampNow,
+} from '@/utils/firebaseUtils';
+import { filterUndefinedProperties } from '@/utils/filterUndefinedProperties';
+
+export class MissionRepository {
+  private static readonly COLLECTION_NAME = 'missions';
+
+  /**
+   * Convert Firestore document to Mission object
+   */
+  private static convertFromFirestore(id: string, data: any): Mission {
+    return {
+      id,
+      incidentNumber: data.incidentNumber,
+      title: data.title,
+      searchArea: data.searchArea,
+      searchAreaCoordinates: data.searchAreaCoordinates,
+      startTime: data.startTime,
+      endTime: data.endTime,
+      outcome: data.outcome || 'ongoing',
+      notes: data.notes,
+      flights: Object.entries(data.flights || {}).map(([flightId, flight]: [string, any]) => ({ ...flight, id: flightId })),
+      isDeleted: data.isDeleted || false,
+      deletedAt: data.deletedAt?.toDate ? data.deletedAt.toDate() : data.deletedAt,
+      createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : data.createdAt,
+      updatedAt: data.updatedAt?.toDate ? data.updatedAt.toDate() : data.updatedAt,
+      createdBy: data.createdBy,
+      updatedBy: data.updatedBy,
+    };
+  }
+
+  /**
+   * Get all missions, newest first (admins also see deleted ones)
+   */
+  static async getMissions(userRole: UserRole): Promise<Mission[]> {
+    try {
+      const missionsCollection = getCollection(this.COLLECTION_NAME);
+      const q = userRole === 'admin'
+        ? createQuery(missionsCollection, orderBy('startTime', 'desc'))
+        : createQuery(missionsCollection, where('isDeleted', '==', false), orderBy('startTime', 'desc'));
+
+      const snapshot = await getDocs(q);
+      return getDocsArray(snapshot).map((doc: any) => this.convertFromFirestore(doc.id, doc.data));
+    } catch (error) {
+      console.error('Error fetching missions:', error);
+      throw new Error('Failed to fetch missions');
+    }
+  }
+
+  /**
+   * Get a single mission by ID
+   */
+  static async getMission(id: string): Promise<Mission | null> {
+    try {
+      const missionDoc = await getDocumentData(getDocument(this.COLLECTION_NAME, id));
+
+      if (!missionDoc.exists) {
+        return null;
+      }
+
+      return this.convertFromFirestore(id, missionDoc.data);
+    } catch (error) {
+      console.error('Error fetching mission:', error);
+      throw new Error('Failed to fetch mission');
+    }
+  }
+
+  /**
+   * Create a new mission
+   */
+  static async createMission(
+    missionData: Omit<Mission, 'id' | 'createdAt' | 'updatedAt'>,
+    userId: string
+  ): Promise<string> {
+    try {
+      const now = timestampNow();
+      const docRef = await addDocument(getCollection(this.COLLECTION_NAME), filterUndefinedProperties({
+        ...missionData,
+        isDeleted: false,
+        createdAt: now,
+        updatedAt: now,
+        createdBy: userId,
+        updatedBy: userId,
+      }));
+
+      return docRef.id;
+    } catch (error) {
+      console.error('Error creating mission:', error);
+      throw new Error('Failed to create mission');
+    }
+  }
+
+  /**
+   * Update an existing mission
+   */
+  static async updateMission(id: string, missionData: Partial<Mission>, userId: string): Promise<void> {
+    try {
+      await updateDocument(getDocument(this.COLLECTION_NAME, id), filterUndefinedProperties({
+        ...missionData,
+        updatedAt: timestampNow(),
+        updatedBy: userId,
+      }));
+    } catch (error) {
+      console.error('Error updating mission:', error);
+      throw new Error('Failed to update mission');
+    }
+  }
+
+  /**
+   * Soft delete a mission
+   */
+  static async softDeleteMission(id: string, userId: string): Promise<void> {
+    try {
+      await updateDocument(getDocument(this.COLLECTION_NAME, id), {
+        isDeleted: true,
+        deletedAt: timestampNow(),
+        updatedAt: timestampNow(),
+        updatedBy: userId,
+      });
+    } catch (error) {
+      console.error('Error deleting mission:', error);
+      throw new Error('Failed to delete mission');
+    }
+  }
+
+  /**
+   * Restore a soft-deleted mission
+   */
+  static async restoreMission(id: string, userId: string): Promise<void> {
+    try {
+      await updateDocument(getDocument(this.COLLECTION_NAME, id), {
+        isDeleted: false,
+        deletedAt: null,
+        updatedAt: timestampNow(),
+        updatedBy: userId,
+      });
+    } catch (error) {
+      console.error('Error restoring mission:', error);
+      throw new Error('Failed to restore mission');
+    }
+  }
+}
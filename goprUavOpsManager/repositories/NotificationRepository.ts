@@ -0,0 +1,108 @@
+import { Notification } from '@/types/Notification';
+import { toDateIfTimestamp } from '@/utils/dateUtils';
+import {
+  getCollection,
+  getDocument,
+  updateDocument,
+  createQuery,
+  where,
+  orderBy,
+  limit,
+  getDocs,
+  getDocsArray,
+  getCountFromServer,
+  timestampNow
+} from '@/utils/firebaseUtils';
+
+export class NotificationRepository {
+  private static readonly COLLECTION_NAME = 'notifications';
+
+  /**
+   * Get the most recent notifications of a user
+   */
+  static async getUserNotifications(userId: string, maxResults: number = 50): Promise<Notification[]> {
+    try {
+      const q = createQuery(
+        getCollection(this.COLLECTION_NAME),
+        where('userId', '==', userId),
+        orderBy('createdAt', 'desc'),
+        limit(maxResults)
+      );
+
+      const snapshot = await getDocs(q);
+      return getDocsArray(snapshot).map((doc: any) => this.convertFromFirestore(doc.id, doc.data));
+    } catch (error) {
+      console.error('Error fetching notifications:', error);
+      throw new Error('Failed to fetch notifications');
+    }
+  }
+
+  /**
+   * Count unread notifications of a user
+   */
+  static async getUnreadCount(userId: string): Promise<number> {
+    try {
+      const q = createQuery(
+        getCollection(this.COLLECTION_NAME),
+        where('userId', '==', userId),
+        where('read', '==', false)
+      );
+
+      const snapshot = await getCountFromServer(q);
+      return snapshot.data.count;
+    } catch (error) {
+      console.error('Error counting unread notifications:', error);
+      throw new Error('Failed to count unread notifications');
+    }
+  }
+
+  /**
+   * Mark a single notification as read
+   */
+  static async markAsRead(id: string): Promise<void> {
+    try {
+      const docRef = getDocument(this.COLLECTION_NAME, id);
+      await updateDocument(docRef, {
+        read: true,
+        readAt: timestampNow(),
+      });
+    } catch (error) {
+      console.error('Error marking notification as read:', error);
+      throw new Error('Failed to mark notification as read');
+    }
+  }
+
+  /**
+   * Convert Firestore document to Notification
+   */
+  private static convertFromFirestore(id: string, data: any): Notification {
+    const base = {
+      id,
+      userId: data.userId,
+      read: data.read === true,
+      readAt: toDateIfTimestamp(data.readAt),
+      createdAt: toDateIfTimestamp(data.createdAt) || new Date(),
+    };
+
+    if (data.type === 'claimOverdue' || data.type === 'claimAutoReleased') {
+      return {
+        ...base,
+        type: data.type,
+        droneId: data.droneId,
+        droneName: data.droneName,
+        claimId: data.claimId,
+        claimStartTime: toDateIfTimestamp(data.claimStartTime) || new Date(),
+        autoReleaseAt: toDateIfTimestamp(data.autoReleaseAt),
+      };
+    }
+
+    return {
+      ...base,
+      type: 'documentExpiry',
+      documentType: data.documentType,
+      expiryDate: data.expiryDate,
+      daysBefore: data.daysBefore,
+      daysLeft: data.daysLeft,
+    };
+  }
+}
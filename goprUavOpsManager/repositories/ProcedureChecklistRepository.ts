@@ -1,22 +1,26 @@
-import { ProcedureChecklist } from '@/types/ProcedureChecklist';
+import { ProcedureChecklist, ProcedureTombstone } from '@/types/ProcedureChecklist';
 import { UserRole } from '@/types/UserRole';
 import { DEFAULT_CATEGORY_ID } from '@/types/Category';
+import { ProcedureVersionRepository } from './ProcedureVersionRepository';
 import {
   getCollection,
   getDocument,
   getDocumentData,
-  addDocument,
+  getNewDocument,
   updateDocument,
+  runTransaction,
   createQuery,
   where,
   orderBy,
   getDocs,
   getDocsArray,
   timestampNow,
+  timestampFromDate,
 } from '@/utils/firebaseUtils';
 
 export class ProcedureChecklistRepository {
   private static readonly COLLECTION_NAME = 'procedures_checklists';
+  private static readonly TOMBSTONE_COLLECTION_NAME = 'procedureTombstones';
 
   /**
    * Get all procedures/checklists based on user role
@@ -106,6 +110,61 @@ export class ProcedureChecklistRepository {
     }
   }
 
+  /**
+   * Get procedures/checklists updated after the given time, oldest change first.
+   * Admins also get soft-deleted procedures, which they keep in their list.
+   */
+  static async getProcedureChecklistsChangedSince(since: Date, userRole: UserRole): Promise<ProcedureChecklist[]> {
+    try {
+      const checklistsCollection = getCollection(this.COLLECTION_NAME);
+      const sinceTimestamp = timestampFromDate(since);
+      let q;
+
+      if (userRole === 'admin') {
+        q = createQuery(
+          checklistsCollection,
+          where('updatedAt', '>', sinceTimestamp),
+          orderBy('updatedAt', 'asc')
+        );
+      } else {
+        q = createQuery(
+          checklistsCollection,
+          where('isDeleted', '==', false),
+          where('updatedAt', '>', sinceTimestamp),
+          orderBy('updatedAt', 'asc')
+        );
+      }
+
+      const snapshot = await getDocs(q);
+      return getDocsArray(snapshot).map((doc: any) => this.convertFromFirestore(doc.id, doc.data));
+    } catch (error) {
+      console.error('Error fetching changed procedures/checklists:', error);
+      throw new Error('Failed to fetch changed procedures/checklists');
+    }
+  }
+
+  /**
+   * Get tombstones of procedures/checklists deleted after the given time
+   */
+  static async getProcedureTombstonesSince(since: Date): Promise<ProcedureTombstone[]> {
+    try {
+      const q = createQuery(
+        getCollection(this.TOMBSTONE_COLLECTION_NAME),
+        where('deletedAt', '>', timestampFromDate(since)),
+        orderBy('deletedAt', 'asc')
+      );
+
+      const snapshot = await getDocs(q);
+      return getDocsArray(snapshot).map((doc: any) => ({
+        procedureId: doc.data.procedureId,
+        deletedAt: doc.data.deletedAt?.toDate(),
+      }));
+    } catch (error) {
+      console.error('Error fetching procedure/checklist tombstones:', error);
+      throw new Error('Failed to fetch procedure/checklist tombstones');
+    }
+  }
+
   /**
    * Get a single procedure/checklist by ID
    */
@@ -126,24 +185,43 @@ export class ProcedureChecklistRepository {
   }
 
   /**
-   * Create a new procedure/checklist
+   * Create a new procedure/checklist together with its first version
    */
   static async createProcedureChecklist(
     checklistData: Omit<ProcedureChecklist, 'id' | 'createdAt' | 'updatedAt'>,
-    userId: string
+    userId: string,
+    changeNote?: string
   ): Promise<string> {
     try {
+      const checklistRef = getNewDocument(this.COLLECTION_NAME);
       const now = timestampNow();
-      const docRef = await addDocument(getCollection(this.COLLECTION_NAME), {
-        ...checklistData,
-        isDeleted: false,
-        createdAt: now,
-        updatedAt: now,
-        createdBy: userId,
-        updatedBy: userId,
+
+      await runTransaction(async (transaction) => {
+        transaction.set(checklistRef, {
+          ...checklistData,
+          version: 1,
+          isDeleted: false,
+          createdAt: now,
+          updatedAt: now,
+          createdBy: userId,
+          updatedBy: userId,
+        });
+        transaction.set(
+          ProcedureVersionRepository.getVersionDocument(checklistRef.id, 1),
+          ProcedureVersionRepository.convertToFirestore({
+            procedureId: checklistRef.id,
+            version: 1,
+            title: checklistData.title,
+            description: checklistData.description,
+            items: checklistData.items,
+            categories: checklistData.categories,
+            changeNote,
+            createdBy: userId,
+          })
+        );
       });
 
-      return docRef.id;
+      return checklistRef.id;
     } catch (error) {
       console.error('Error creating procedure/checklist:', error);
       throw new Error('Failed to create procedure/checklist');
@@ -151,20 +229,63 @@ export class ProcedureChecklistRepository {
   }
 
   /**
-   * Update an existing procedure/checklist
+   * Update an existing procedure/checklist and save the result as its next version.
+   * Returns the new version number.
    */
   static async updateProcedureChecklist(
     id: string, 
     checklistData: Partial<ProcedureChecklist>, 
-    userId: string
-  ): Promise<void> {
+    userId: string,
+    changeNote?: string
+  ): Promise<number> {
     try {
       const checklistRef = getDocument(this.COLLECTION_NAME, id);
 
-      await updateDocument(checklistRef, {
-        ...checklistData,
-        updatedAt: timestampNow(),
-        updatedBy: userId,
+      return await runTransaction(async (transaction) => {
+        const checklistSnapshot = await transaction.get(checklistRef);
+        if (!checklistSnapshot.exists) {
+          throw new Error('Procedure/checklist not found');
+        }
+
+        const current = checklistSnapshot.data;
+        // Procedures saved before versioning keep their current content as version 1
+        if (!current.version) {
+          transaction.set(
+            ProcedureVersionRepository.getVersionDocument(id, 1),
+            ProcedureVersionRepository.convertToFirestore({
+              procedureId: id,
+              version: 1,
+              title: current.title,
+              description: current.description,
+              items: current.items || [],
+              categories: current.categories,
+              createdBy: current.updatedBy || current.createdBy,
+            })
+          );
+        }
+
+        const version = (current.version || 1) + 1;
+        const updated = { ...current, ...checklistData };
+        transaction.update(checklistRef, {
+          ...checklistData,
+          version,
+          updatedAt: timestampNow(),
+          updatedBy: userId,
+        });
+        transaction.set(
+          ProcedureVersionRepository.getVersionDocument(id, version),
+          ProcedureVersionRepository.convertToFirestore({
+            procedureId: id,
+            version,
+            title: updated.title,
+            description: updated.description,
+            items: updated.items || [],
+            categories: updated.categories,
+            changeNote,
+            createdBy: userId,
+          })
+        );
+        return version;
       });
     } catch (error) {
       console.error('Error updating procedure/checklist:', error);
@@ -173,17 +294,26 @@ export class ProcedureChecklistRepository {
   }
 
   /**
-   * Soft delete a procedure/checklist
+   * Soft delete a procedure/checklist and leave a tombstone, so offline caches of
+   * users who can no longer read the procedure still learn it was deleted.
+   * A later restore shows up as a newer update and needs no cleanup of the tombstone.
    */
   static async softDeleteProcedureChecklist(id: string, userId: string): Promise<void> {
     try {
       const checklistRef = getDocument(this.COLLECTION_NAME, id);
+      const now = timestampNow();
 
-      await updateDocument(checklistRef, {
-        isDeleted: true,
-        deletedAt: timestampNow(),
-        updatedAt: timestampNow(),
-        updatedBy: userId,
+      await runTransaction(async (transaction) => {
+        transaction.update(checklistRef, {
+          isDeleted: true,
+          deletedAt: now,
+          updatedAt: now,
+          updatedBy: userId,
+        });
+        transaction.set(getDocument(this.TOMBSTONE_COLLECTION_NAME, id), {
+          procedureId: id,
+          deletedAt: now,
+        });
       });
     } catch (error) {
       console.error('Error deleting procedure/checklist:', error);
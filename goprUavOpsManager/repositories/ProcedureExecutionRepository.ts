@@ -0,0 +1,149 @@
+import { ProcedureExecution, ProcedureExecutionData } from '@/types/ProcedureExecution';
+import {
+  getCollection,
+  getDocument,
+  getDocumentData,
+  addDocument,
+  setDocument,
+  updateDocument,
+  createQuery,
+  where,
+  orderBy,
+  limit,
+  getDocs,
+  getDocsArray,
+  timestampNow,
+  Timestamp
+} from '@/utils/firebaseUtils';
+import { filterUndefinedProperties } from '@/utils/filterUndefinedProperties';
+
+export class ProcedureExecutionRepository {
+  private static readonly COLLECTION_NAME = 'procedureExecutions';
+
+  /**
+   * Convert Firestore data to ProcedureExecution
+   */
+  private static convertFromFirestore(id: string, data: any): ProcedureExecution {
+    return {
+      id,
+      procedureId: data.procedureId,
+      procedureTitle: data.procedureTitle || '',
+      procedureVersion: data.procedureVersion,
+      procedureUpdatedAt: data.procedureUpdatedAt?.toDate ? data.procedureUpdatedAt.toDate() : data.procedureUpdatedAt ? new Date(data.procedureUpdatedAt) : undefined,
+      userId: data.userId,
+      userEmail: data.userEmail,
+      droneId: data.droneId,
+      flightId: data.flightId,
+      startedAt: data.startedAt?.toDate ? data.startedAt.toDate() : new Date(data.startedAt),
+      finishedAt: data.finishedAt?.toDate ? data.finishedAt.toDate() : new Date(data.finishedAt),
+      status: data.status || 'incomplete',
+      items: Array.isArray(data.items) ? data.items : [],
+      subItems: Array.isArray(data.subItems) ? data.subItems : [],
+      overrideNote: data.overrideNote,
+      updatedAt: data.updatedAt?.toDate ? data.updatedAt.toDate() : data.updatedAt ? new Date(data.updatedAt) : undefined,
+      updatedBy: data.updatedBy
+    };
+  }
+
+  /**
+   * Save a procedure run, under documentId when given
+   */
+  static async createExecution(execution: ProcedureExecutionData, documentId?: string): Promise<string> {
+    try {
+      const docData = filterUndefinedProperties({
+        ...execution,
+        procedureUpdatedAt: execution.procedureUpdatedAt ? Timestamp.fromDate(execution.procedureUpdatedAt) : undefined,
+        startedAt: Timestamp.fromDate(execution.startedAt),
+        finishedAt: Timestamp.fromDate(execution.finishedAt),
+      });
+
+      if (documentId) {
+        await setDocument(getDocument(this.COLLECTION_NAME, documentId), docData);
+        return documentId;
+      }
+
+      const docRef = await addDocument(getCollection(this.COLLECTION_NAME), docData);
+      return docRef.id;
+    } catch (error) {
+      console.error('Error creating procedure execution:', error);
+      throw new Error('Failed to create procedure execution');
+    }
+  }
+
+  /**
+   * Get a single run by ID
+   */
+  static async getExecution(id: string): Promise<ProcedureExecution | null> {
+    try {
+      const executionDoc = await getDocumentData(getDocument(this.COLLECTION_NAME, id));
+
+      if (!executionDoc.exists) {
+        return null;
+      }
+
+      return this.convertFromFirestore(id, executionDoc.data);
+    } catch (error) {
+      console.error('Error fetching procedure execution:', error);
+      throw new Error('Failed to fetch procedure execution');
+    }
+  }
+
+  /**
+   * Get the runs linked to a flight, in the order they were started
+   * Pass userId to get only that user's runs - users may read only their own
+   */
+  static async getFlightExecutions(flightId: string, userId?: string): Promise<ProcedureExecution[]> {
+    try {
+      const constraints = [where('flightId', '==', flightId)];
+      if (userId) {
+        constraints.push(where('userId', '==', userId));
+      }
+      constraints.push(orderBy('startedAt', 'asc'));
+
+      const q = createQuery(getCollection(this.COLLECTION_NAME), ...constraints);
+
+      const snapshot = await getDocs(q);
+      return getDocsArray(snapshot).map((doc: any) => this.convertFromFirestore(doc.id, doc.data));
+    } catch (error) {
+      console.error('Error fetching flight procedure executions:', error);
+      throw new Error('Failed to fetch flight procedure executions');
+    }
+  }
+
+  /**
+   * Get a user's most recent runs for a drone
+   */
+  static async getRecentDroneExecutions(droneId: string, userId: string, maxResults: number = 10): Promise<ProcedureExecution[]> {
+    try {
+      const q = createQuery(
+        getCollection(this.COLLECTION_NAME),
+        where('droneId', '==', droneId),
+        where('userId', '==', userId),
+        orderBy('startedAt', 'desc'),
+        limit(maxResults)
+      );
+
+      const snapshot = await getDocs(q);
+      return getDocsArray(snapshot).map((doc: any) => this.convertFromFirestore(doc.id, doc.data));
+    } catch (error) {
+      console.error('Error fetching drone procedure executions:', error);
+      throw new Error('Failed to fetch drone procedure executions');
+    }
+  }
+
+  /**
+   * Link a run to a flight
+   */
+  static async setFlight(id: string, flightId: string, userId: string): Promise<void> {
+    try {
+      await updateDocument(getDocument(this.COLLECTION_NAME, id), {
+        flightId,
+        updatedAt: timestampNow(),
+        updatedBy: userId,
+      });
+    } catch (error) {
+      console.error('Error linking procedure execution to flight:', error);
+      throw new Error('Failed to link procedure execution to flight');
+    }
+  }
+}
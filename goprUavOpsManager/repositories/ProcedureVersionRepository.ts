@@ -0,0 +1,97 @@
+import { ProcedureVersion } from '@/types/ProcedureChecklist';
+import {
+  getCollection,
+  getDocument,
+  getDocumentData,
+  createQuery,
+  where,
+  orderBy,
+  getDocs,
+  getDocsArray,
+  timestampNow,
+} from '@/utils/firebaseUtils';
+import { filterUndefinedProperties } from '@/utils/filterUndefinedProperties';
+
+export class ProcedureVersionRepository {
+  private static readonly COLLECTION_NAME = 'procedureVersions';
+
+  /**
+   * Versions use a predictable document ID, so a version number can only be written once
+   */
+  private static getVersionId(procedureId: string, version: number): string {
+    return `${procedureId}_v${version}`;
+  }
+
+  /**
+   * Document reference of a version, for writing it in a procedure transaction
+   */
+  static getVersionDocument(procedureId: string, version: number) {
+    return getDocument(this.COLLECTION_NAME, this.getVersionId(procedureId, version));
+  }
+
+  /**
+   * Convert a procedure snapshot to Firestore data
+   */
+  static convertToFirestore(versionData: Omit<ProcedureVersion, 'id' | 'createdAt'>): any {
+    return filterUndefinedProperties({
+      ...versionData,
+      createdAt: timestampNow(),
+    });
+  }
+
+  /**
+   * Convert Firestore data to ProcedureVersion
+   */
+  private static convertFromFirestore(id: string, data: any): ProcedureVersion {
+    return {
+      id,
+      procedureId: data.procedureId,
+      version: data.version,
+      title: data.title || '',
+      description: data.description,
+      items: Array.isArray(data.items) ? data.items : [],
+      categories: data.categories,
+      changeNote: data.changeNote,
+      createdBy: data.createdBy,
+      createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : data.createdAt ? new Date(data.createdAt) : undefined,
+    };
+  }
+
+  /**
+   * Get all versions of a procedure, newest first
+   */
+  static async getVersions(procedureId: string): Promise<ProcedureVersion[]> {
+    try {
+      const q = createQuery(
+        getCollection(this.COLLECTION_NAME),
+        where('procedureId', '==', procedureId),
+        orderBy('version', 'desc')
+      );
+
+      const snapshot = await getDocs(q);
+      return getDocsArray(snapshot).map((doc: any) => this.convertFromFirestore(doc.id, doc.data));
+    } catch (error) {
+      console.error('Error fetching procedure versions:', error);
+      throw new Error('Failed to fetch procedure versions');
+    }
+  }
+
+  /**
+   * Get a single version of a procedure
+   */
+  static async getVersion(procedureId: string, version: number): Promise<ProcedureVersion | null> {
+    try {
+      const id = this.getVersionId(procedureId, version);
+      const versionDoc = await getDocumentData(getDocument(this.COLLECTION_NAME, id));
+
+      if (!versionDoc.exists) {
+        return null;
+      }
+
+      return this.convertFromFirestore(id, versionDoc.data);
+    } catch (error) {
+      console.error('Error fetching procedure version:', error);
+      throw new Error('Failed to fetch procedure version');
+    }
+  }
+}
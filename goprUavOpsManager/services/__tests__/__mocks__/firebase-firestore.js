@@ -43,6 +43,7 @@ const addDoc = jest.fn();
 const setDoc = jest.fn();
 const updateDoc = jest.fn();
 const deleteDoc = jest.fn();
+const deleteField = () => ({ _methodName: 'deleteField' });
 const collection = jest.fn();
 const doc = jest.fn();
 
@@ -62,6 +63,7 @@ module.exports = {
   setDoc,
   updateDoc,
   deleteDoc,
+  deleteField,
   collection,
   doc,
 };
\ No newline at end of file
@@ -160,4 +160,31 @@ describe('AppSettingsService', () => {
       });
     });
   });
+
+  describe('getFlightCurrencyRules', () => {
+    it('should return defaults when document does not exist', async () => {
+      mockGetDocumentData.mockResolvedValue({ exists: false, data: null });
+
+      const result = await AppSettingsService.getFlightCurrencyRules();
+
+      expect(mockGetDocument).toHaveBeenCalledWith('appsettings', 'flightCurrencyRules');
+      expect(result).toEqual({ recencyMinFlights: 3, recencyPeriodDays: 90 });
+    });
+
+    it('should return configured values and fill in missing ones', async () => {
+      mockGetDocumentData.mockResolvedValue({ exists: true, data: { recencyMinFlights: 5 } });
+
+      const result = await AppSettingsService.getFlightCurrencyRules();
+
+      expect(result).toEqual({ recencyMinFlights: 5, recencyPeriodDays: 90 });
+    });
+
+    it('should return defaults on error', async () => {
+      mockGetDocumentData.mockRejectedValue(new Error('Firestore error'));
+
+      const result = await AppSettingsService.getFlightCurrencyRules();
+
+      expect(result).toEqual({ recencyMinFlights: 3, recencyPeriodDays: 90 });
+    });
+  });
 });
\ No newline at end of file
@@ -0,0 +1,132 @@
+// Mock all external dependencies BEFORE imports
+jest.mock('@/repositories/BatteryRepository', () => ({
+  BatteryRepository: {
+    getBatteries: jest.fn(),
+    getBattery: jest.fn(),
+    createBattery: jest.fn(),
+    updateBattery: jest.fn(),
+    retireBattery: jest.fn(),
+  }
+}));
+
+jest.mock('../auditLogService', () => ({
+  AuditLogService: {
+    createAuditLog: jest.fn().mockResolvedValue('audit-log-id'),
+    createChangeDetails: jest.fn().mockReturnValue('details'),
+  }
+}));
+
+jest.mock('../userService', () => ({
+  UserService: {
+    getUserEmail: jest.fn().mockResolvedValue('test@example.com'),
+  }
+}));
+
+import { BatteryService } from '../batteryService';
+import { BatteryRepository } from '@/repositories/BatteryRepository';
+import { AuditLogService } from '../auditLogService';
+import { Battery, BatteryFormData } from '@/types/Battery';
+import { UserRole } from '@/types/UserRole';
+import { TEST_ACCOUNTS } from './setup';
+
+const mockBatteryRepository = BatteryRepository as jest.Mocked<typeof BatteryRepository>;
+const mockAuditLogService = AuditLogService as jest.Mocked<typeof AuditLogService>;
+
+describe('BatteryService', () => {
+  const formData: BatteryFormData = {
+    label: '  M30-03  ',
+    serialNumber: ' ',
+    model: 'TB30',
+    compatibleDroneIds: ['drone-1', 'drone-1', 'drone-2'],
+    cycleCount: 12,
+    ratedCycles: 400,
+    purchaseDate: '2024-03-01',
+    internalResistance: 18,
+  };
+
+  const battery: Battery = {
+    id: 'battery-1',
+    label: 'M30-03',
+    model: 'TB30',
+    compatibleDroneIds: ['drone-1'],
+    cycleCount: 120,
+    ratedCycles: 400,
+    isRetired: false,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockBatteryRepository.createBattery.mockResolvedValue('battery-1');
+    mockBatteryRepository.getBattery.mockResolvedValue(battery);
+  });
+
+  describe('createBattery', () => {
+    it('stores the cleaned up pack and logs it', async () => {
+      const id = await BatteryService.createBattery(formData, UserRole.MANAGER, TEST_ACCOUNTS.MANAGER.uid);
+
+      expect(id).toBe('battery-1');
+      expect(mockBatteryRepository.createBattery).toHaveBeenCalledWith(expect.objectContaining({
+        label: 'M30-03',
+        serialNumber: undefined,
+        compatibleDroneIds: ['drone-1', 'drone-2'],
+        markedDegraded: false,
+      }), TEST_ACCOUNTS.MANAGER.uid);
+      expect(mockAuditLogService.createAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+        entityType: 'battery',
+        entityId: 'battery-1',
+        action: 'create',
+      }));
+    });
+
+    it('rejects users without manager rights', async () => {
+      await expect(
+        BatteryService.createBattery(formData, UserRole.USER, TEST_ACCOUNTS.USER.uid)
+      ).rejects.toThrow('Insufficient permissions to create battery');
+      expect(mockBatteryRepository.createBattery).not.toHaveBeenCalled();
+    });
+
+    it('requires a label', async () => {
+      await expect(
+        BatteryService.createBattery({ ...formData, label: ' ' }, UserRole.ADMIN, TEST_ACCOUNTS.ADMIN.uid)
+      ).rejects.toThrow('Battery label is required');
+    });
+
+    it('rejects a negative cycle count', async () => {
+      await expect(
+        BatteryService.createBattery({ ...formData, cycleCount: -1 }, UserRole.ADMIN, TEST_ACCOUNTS.ADMIN.uid)
+      ).rejects.toThrow('Battery cycle count cannot be negative');
+    });
+  });
+
+  describe('updateBattery', () => {
+    it('does not edit retired packs', async () => {
+      mockBatteryRepository.getBattery.mockResolvedValue({ ...battery, isRetired: true });
+
+      await expect(
+        BatteryService.updateBattery('battery-1', formData, UserRole.MANAGER, TEST_ACCOUNTS.MANAGER.uid)
+      ).rejects.toThrow('Cannot update a retired battery');
+      expect(mockBatteryRepository.updateBattery).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('retireBattery', () => {
+    it('retires the pack and records the cycles it reached', async () => {
+      await BatteryService.retireBattery('battery-1', UserRole.MANAGER, TEST_ACCOUNTS.MANAGER.uid);
+
+      expect(mockBatteryRepository.retireBattery).toHaveBeenCalledWith('battery-1', TEST_ACCOUNTS.MANAGER.uid);
+      expect(mockAuditLogService.createAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+        entityType: 'battery',
+        action: 'status_change',
+        previousValues: { isRetired: false, cycleCount: 120 },
+      }));
+    });
+
+    it('rejects an already retired pack', async () => {
+      mockBatteryRepository.getBattery.mockResolvedValue({ ...battery, isRetired: true });
+
+      await expect(
+        BatteryService.retireBattery('battery-1', UserRole.ADMIN, TEST_ACCOUNTS.ADMIN.uid)
+      ).rejects.toThrow('Battery is already retired');
+    });
+  });
+});
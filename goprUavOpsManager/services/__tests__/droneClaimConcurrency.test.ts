@@ -0,0 +1,219 @@
+// Mock all external dependencies BEFORE imports
+
+// In-memory Firestore with optimistic transactions: a transaction whose reads
+// changed before commit is retried, like the real SDK does
+jest.mock('@/utils/firebaseUtils', () => {
+  const ref = (collection: string, id: string) => ({ path: `${collection}/${id}`, collection, id });
+  const tick = () => new Promise(resolve => setImmediate(resolve));
+
+  return {
+    getCollection: (collection: string) => ({ collection }),
+    getDocument: ref,
+    getNewDocument: (collection: string) => ref(collection, `${collection}-${++mockDocCounter.value}`),
+    getDocumentData: async (docRef: any) => ({
+      exists: mockStore.has(docRef.path),
+      data: mockStore.get(docRef.path),
+    }),
+    where: (field: string, operator: string, value: any) => ({ field, operator, value }),
+    orderBy: () => null,
+    limit: () => null,
+    createQuery: (collectionRef: any, ...constraints: any[]) => ({
+      collection: collectionRef.collection,
+      constraints: constraints.filter(Boolean),
+    }),
+    getDocs: async (query: any) => ({
+      docs: [...mockStore.entries()]
+        .filter(([path]) => path.startsWith(`${query.collection}/`))
+        .filter(([, data]) => query.constraints.every((constraint: any) =>
+          (data[constraint.field] ?? null) === constraint.value
+        ))
+        .map(([path, data]) => ({ id: path.split('/')[1], data })),
+    }),
+    getDocsArray: (snapshot: any) => snapshot.docs,
+    timestampNow: () => ({ toDate: () => new Date() }),
+    Timestamp: { fromDate: (date: Date) => date },
+    runTransaction: async (updateFunction: any) => {
+      for (;;) {
+        const readVersions = new Map<string, number>();
+        const writes: { path: string; data: any; merge: boolean }[] = [];
+
+        const result = await updateFunction({
+          get: async (docRef: any) => {
+            await tick();
+            readVersions.set(docRef.path, mockVersions.get(docRef.path) ?? 0);
+            return { exists: mockStore.has(docRef.path), data: mockStore.get(docRef.path) };
+          },
+          set: (docRef: any, data: any) => writes.push({ path: docRef.path, data, merge: false }),
+          update: (docRef: any, data: any) => writes.push({ path: docRef.path, data, merge: true }),
+        });
+        await tick();
+
+        const conflict = [...readVersions].some(([path, version]) => (mockVersions.get(path) ?? 0) !== version);
+        if (conflict) {
+          mockRetries.value++;
+          continue;
+        }
+
+        writes.forEach(({ path, data, merge }) => {
+          mockStore.set(path, merge ? { ...mockStore.get(path), ...data } : data);
+          mockVersions.set(path, (mockVersions.get(path) ?? 0) + 1);
+        });
+        return result;
+      }
+    },
+  };
+});
+
+jest.mock('@/repositories/DroneRepository', () => ({
+  DroneRepository: {
+    getDrone: jest.fn(),
+  }
+}));
+
+jest.mock('../droneReservationService', () => ({
+  DroneReservationService: {
+    getReservationBlockingClaim: jest.fn().mockResolvedValue(null),
+  }
+}));
+
+jest.mock('../auditLogService', () => ({
+  AuditLogService: {
+    createAuditLog: jest.fn().mockResolvedValue('audit-log-id'),
+    createChangeDetails: jest.fn().mockReturnValue('details'),
+  }
+}));
+
+jest.mock('../userService', () => ({
+  UserService: {
+    getUserEmail: jest.fn().mockImplementation((uid: string) => Promise.resolve(`${uid}@example.com`)),
+  }
+}));
+
+import { DroneClaimService } from '../droneClaimService';
+import { DroneRepository } from '@/repositories/DroneRepository';
+import { TEST_ACCOUNTS } from './setup';
+
+const mockStore = new Map<string, any>();
+const mockVersions = new Map<string, number>();
+const mockDocCounter = { value: 0 };
+const mockRetries = { value: 0 };
+
+const mockDroneRepository = DroneRepository as jest.Mocked<typeof DroneRepository>;
+
+const activeClaims = () => [...mockStore.entries()]
+  .filter(([path, data]) => path.startsWith('droneClaims/') && !data.endTime)
+  .map(([path, data]) => ({ id: path.split('/')[1], ...data }));
+
+const lock = (droneId: string) => mockStore.get(`droneClaimLocks/${droneId}`);
+
+describe('DroneClaimService concurrency', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockStore.clear();
+    mockVersions.clear();
+    mockDocCounter.value = 0;
+    mockRetries.value = 0;
+    mockDroneRepository.getDrone.mockResolvedValue({ id: 'drone-1', shareable: true, isDeleted: false } as any);
+  });
+
+  it('lets only one of two simultaneous claims win', async () => {
+    const results = await Promise.allSettled([
+      DroneClaimService.claimDrone('drone-1', TEST_ACCOUNTS.USER.uid, TEST_ACCOUNTS.USER.role),
+      DroneClaimService.claimDrone('drone-1', TEST_ACCOUNTS.MANAGER.uid, TEST_ACCOUNTS.MANAGER.role),
+    ]);
+
+    const fulfilled = results.filter(result => result.status === 'fulfilled');
+    const rejected = results.filter(result => result.status === 'rejected') as PromiseRejectedResult[];
+    expect(fulfilled).toHaveLength(1);
+    expect(rejected).toHaveLength(1);
+    expect(rejected[0].reason.message).toBe('Drone is already claimed by another user');
+    expect(mockRetries.value).toBeGreaterThan(0);
+
+    const claims = activeClaims();
+    expect(claims).toHaveLength(1);
+    expect(lock('drone-1').claimId).toBe(claims[0].id);
+  });
+
+  it('lets only one of many simultaneous claims win', async () => {
+    const users = ['pilot-1', 'pilot-2', 'pilot-3', 'pilot-4', 'pilot-5'];
+
+    const results = await Promise.allSettled(users.map(uid =>
+      DroneClaimService.claimDrone('drone-1', uid, TEST_ACCOUNTS.USER.role)
+    ));
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    expect(activeClaims()).toHaveLength(1);
+  });
+
+  it('keeps claims on different drones independent', async () => {
+    await Promise.all([
+      DroneClaimService.claimDrone('drone-1', TEST_ACCOUNTS.USER.uid, TEST_ACCOUNTS.USER.role),
+      DroneClaimService.claimDrone('drone-2', TEST_ACCOUNTS.MANAGER.uid, TEST_ACCOUNTS.MANAGER.role),
+    ]);
+
+    expect(activeClaims()).toHaveLength(2);
+  });
+
+  it('releases a claim only once when released twice at the same time', async () => {
+    const claimId = await DroneClaimService.claimDrone('drone-1', TEST_ACCOUNTS.USER.uid, TEST_ACCOUNTS.USER.role);
+
+    const results = await Promise.allSettled([
+      DroneClaimService.releaseClaim(claimId, TEST_ACCOUNTS.USER.uid, TEST_ACCOUNTS.USER.role),
+      DroneClaimService.releaseClaim(claimId, TEST_ACCOUNTS.ADMIN.uid, TEST_ACCOUNTS.ADMIN.role),
+    ]);
+
+    const rejected = results.filter(result => result.status === 'rejected') as PromiseRejectedResult[];
+    expect(rejected).toHaveLength(1);
+    expect(rejected[0].reason.message).toBe('Claim is already released');
+    expect(lock('drone-1')).toMatchObject({ claimId: null, releasedClaimId: claimId });
+  });
+
+  it('makes a released drone claimable again', async () => {
+    const claimId = await DroneClaimService.claimDrone('drone-1', TEST_ACCOUNTS.USER.uid, TEST_ACCOUNTS.USER.role);
+    await DroneClaimService.releaseClaim(claimId, TEST_ACCOUNTS.USER.uid, TEST_ACCOUNTS.USER.role);
+
+    const newClaimId = await DroneClaimService.claimDrone('drone-1', TEST_ACCOUNTS.MANAGER.uid, TEST_ACCOUNTS.MANAGER.role);
+
+    expect(lock('drone-1').claimId).toBe(newClaimId);
+  });
+
+  it('leaves exactly one active claim when an override races a claim', async () => {
+    await Promise.allSettled([
+      DroneClaimService.claimDrone('drone-1', TEST_ACCOUNTS.USER.uid, TEST_ACCOUNTS.USER.role),
+      DroneClaimService.adminOverrideClaim('drone-1', 'pilot-2', TEST_ACCOUNTS.ADMIN.uid, TEST_ACCOUNTS.ADMIN.role),
+    ]);
+
+    const claims = activeClaims();
+    expect(claims).toHaveLength(1);
+    expect(lock('drone-1')).toMatchObject({ claimId: claims[0].id, userId: claims[0].userId });
+  });
+
+  it('records why a claim was ended by an override', async () => {
+    const claimId = await DroneClaimService.claimDrone('drone-1', TEST_ACCOUNTS.USER.uid, TEST_ACCOUNTS.USER.role);
+    await DroneClaimService.adminOverrideClaim('drone-1', null, TEST_ACCOUNTS.ADMIN.uid, TEST_ACCOUNTS.ADMIN.role);
+
+    expect(mockStore.get(`droneClaims/${claimId}`)).toMatchObject({ releaseReason: 'adminOverride' });
+    expect(activeClaims()).toHaveLength(0);
+  });
+
+  it('treats an active claim without a lock document as holding the drone', async () => {
+    mockStore.set('droneClaims/legacy-claim', {
+      droneId: 'drone-1',
+      userId: 'pilot-1',
+      userEmail: 'pilot-1@example.com',
+      startTime: new Date(),
+      endTime: null,
+      createdAt: new Date(),
+      createdBy: 'pilot-1',
+    });
+
+    await expect(
+      DroneClaimService.claimDrone('drone-1', TEST_ACCOUNTS.USER.uid, TEST_ACCOUNTS.USER.role)
+    ).rejects.toThrow('Drone is already claimed by another user');
+
+    await DroneClaimService.adminOverrideClaim('drone-1', null, TEST_ACCOUNTS.ADMIN.uid, TEST_ACCOUNTS.ADMIN.role);
+
+    expect(activeClaims()).toHaveLength(0);
+    expect(lock('drone-1')).toMatchObject({ claimId: null, releasedClaimId: 'legacy-claim' });
+  });
+});
@@ -3,6 +3,7 @@ import { DroneClaimRepository } from '@/repositories/DroneClaimRepository';
 import { DroneRepository } from '@/repositories/DroneRepository';
 import { AuditLogService } from '../auditLogService';
 import { UserService } from '../userService';
+import { DroneReservationService } from '../droneReservationService';
 import { UserRole } from '@/types/UserRole';
 import { DroneClaim } from '@/types/DroneClaim';
 import { Drone } from '@/types/Drone';
@@ -12,11 +13,13 @@ jest.mock('@/repositories/DroneClaimRepository');
 jest.mock('@/repositories/DroneRepository');
 jest.mock('../auditLogService');
 jest.mock('../userService');
+jest.mock('../droneReservationService');
 
 const mockDroneClaimRepository = DroneClaimRepository as jest.Mocked<typeof DroneClaimRepository>;
 const mockDroneRepository = DroneRepository as jest.Mocked<typeof DroneRepository>;
 const mockAuditLogService = AuditLogService as jest.Mocked<typeof AuditLogService>;
 const mockUserService = UserService as jest.Mocked<typeof UserService>;
+const mockDroneReservationService = DroneReservationService as jest.Mocked<typeof DroneReservationService>;
 
 describe('DroneClaimService', () => {
   const TEST_ACCOUNTS = {
@@ -64,9 +67,9 @@ describe('DroneClaimService', () => {
   describe('claimDrone', () => {
     beforeEach(() => {
       mockDroneRepository.getDrone.mockResolvedValue(mockDrone);
-      mockDroneClaimRepository.getActiveClaim.mockResolvedValue(null);
       mockUserService.getUserEmail.mockResolvedValue(TEST_ACCOUNTS.USER.email);
-      mockDroneClaimRepository.createClaim.mockResolvedValue('claim-123');
+      mockDroneClaimRepository.createClaimIfAvailable.mockResolvedValue('claim-123');
+      mockDroneReservationService.getReservationBlockingClaim.mockResolvedValue(null);
       mockAuditLogService.createAuditLog.mockResolvedValue('audit-123');
     });
 
@@ -80,8 +83,7 @@ describe('DroneClaimService', () => {
 
       expect(claimId).toBe('claim-123');
       expect(mockDroneRepository.getDrone).toHaveBeenCalledWith('drone-123');
-      expect(mockDroneClaimRepository.getActiveClaim).toHaveBeenCalledWith('drone-123');
-      expect(mockDroneClaimRepository.createClaim).toHaveBeenCalledWith(
+      expect(mockDroneClaimRepository.createClaimIfAvailable).toHaveBeenCalledWith(
         expect.objectContaining({
           droneId: 'drone-123',
           userId: TEST_ACCOUNTS.USER.uid,
@@ -108,7 +110,7 @@ describe('DroneClaimService', () => {
     });
 
     it('should reject claim if drone already claimed', async () => {
-      mockDroneClaimRepository.getActiveClaim.mockResolvedValue(mockClaim);
+      mockDroneClaimRepository.createClaimIfAvailable.mockResolvedValue(null);
 
       await expect(
         DroneClaimService.claimDrone(
@@ -117,6 +119,55 @@ describe('DroneClaimService', () => {
           UserRole.USER
         )
       ).rejects.toThrow('Drone is already claimed by another user');
+      expect(mockAuditLogService.createAuditLog).not.toHaveBeenCalled();
+    });
+
+    it('should reject claim while another user\'s reservation is in progress', async () => {
+      mockDroneReservationService.getReservationBlockingClaim.mockResolvedValue({
+        id: 'reservation-123',
+        droneId: 'drone-123',
+        userId: 'other-user-id',
+        userEmail: 'other@test.com',
+        startTime: new Date(Date.now() - 60 * 1000),
+        endTime: new Date(Date.now() + 60 * 60 * 1000),
+        status: 'scheduled',
+        createdAt: new Date(),
+        createdBy: 'other-user-id'
+      });
+
+      await expect(
+        DroneClaimService.claimDrone(
+          'drone-123',
+          TEST_ACCOUNTS.USER.uid,
+          UserRole.USER
+        )
+      ).rejects.toThrow('Drone is reserved by another user for this time');
+      expect(mockDroneReservationService.getReservationBlockingClaim).toHaveBeenCalledWith('drone-123', TEST_ACCOUNTS.USER.uid);
+      expect(mockDroneClaimRepository.createClaimIfAvailable).not.toHaveBeenCalled();
+    });
+
+    it('should reject claim for a drone overdue for service', async () => {
+      mockDroneRepository.getDrone.mockResolvedValue({
+        ...mockDrone,
+        serviceIntervals: [{
+          id: 'interval-1',
+          name: 'Propeller inspection',
+          maintenanceType: 'inspection',
+          flightHours: 1,
+          lastServiceAt: new Date(),
+          lastServiceFlightMinutes: 30,
+          lastServiceFlightCount: 0
+        }]
+      });
+
+      await expect(
+        DroneClaimService.claimDrone(
+          'drone-123',
+          TEST_ACCOUNTS.USER.uid,
+          UserRole.USER
+        )
+      ).rejects.toThrow('Drone is overdue for service');
+      expect(mockDroneClaimRepository.createClaimIfAvailable).not.toHaveBeenCalled();
     });
 
     it('should reject claim for deleted drone', async () => {
@@ -151,7 +202,7 @@ describe('DroneClaimService', () => {
     beforeEach(() => {
       mockDroneClaimRepository.getClaim.mockResolvedValue(mockClaim);
       mockUserService.getUserEmail.mockResolvedValue(TEST_ACCOUNTS.USER.email);
-      mockDroneClaimRepository.updateClaim.mockResolvedValue();
+      mockDroneClaimRepository.endClaim.mockResolvedValue(true);
       mockAuditLogService.createAuditLog.mockResolvedValue('audit-123');
     });
 
@@ -163,11 +214,7 @@ describe('DroneClaimService', () => {
         TEST_ACCOUNTS.USER.email
       );
 
-      expect(mockDroneClaimRepository.updateClaim).toHaveBeenCalledWith(
-        'claim-123',
-        expect.objectContaining({ endTime: expect.any(Date) }),
-        TEST_ACCOUNTS.USER.uid
-      );
+      expect(mockDroneClaimRepository.endClaim).toHaveBeenCalledWith('claim-123', TEST_ACCOUNTS.USER.uid);
       expect(mockAuditLogService.createAuditLog).toHaveBeenCalledWith(
         expect.objectContaining({ action: 'release' })
       );
@@ -181,12 +228,25 @@ describe('DroneClaimService', () => {
         TEST_ACCOUNTS.ADMIN.email
       );
 
-      expect(mockDroneClaimRepository.updateClaim).toHaveBeenCalled();
+      expect(mockDroneClaimRepository.endClaim).toHaveBeenCalledWith('claim-123', TEST_ACCOUNTS.ADMIN.uid);
       expect(mockAuditLogService.createAuditLog).toHaveBeenCalledWith(
         expect.objectContaining({ action: 'admin_override' })
       );
     });
 
+    it('should reject release when the claim was ended concurrently', async () => {
+      mockDroneClaimRepository.endClaim.mockResolvedValue(false);
+
+      await expect(
+        DroneClaimService.releaseClaim(
+          'claim-123',
+          TEST_ACCOUNTS.USER.uid,
+          UserRole.USER
+        )
+      ).rejects.toThrow('Claim is already released');
+      expect(mockAuditLogService.createAuditLog).not.toHaveBeenCalled();
+    });
+
     it('should reject release for non-owner user', async () => {
       await expect(
         DroneClaimService.releaseClaim(
@@ -227,10 +287,11 @@ describe('DroneClaimService', () => {
 
   describe('adminOverrideClaim', () => {
     beforeEach(() => {
-      mockDroneClaimRepository.getActiveClaim.mockResolvedValue(mockClaim);
       mockUserService.getUserEmail.mockResolvedValue(TEST_ACCOUNTS.ADMIN.email);
-      mockDroneClaimRepository.updateClaim.mockResolvedValue();
-      mockDroneClaimRepository.createClaim.mockResolvedValue('new-claim-123');
+      mockDroneClaimRepository.overrideClaim.mockResolvedValue({
+        endedClaim: mockClaim,
+        newClaimId: 'new-claim-123'
+      });
       mockAuditLogService.createAuditLog.mockResolvedValue('audit-123');
     });
 
@@ -244,12 +305,11 @@ describe('DroneClaimService', () => {
       );
 
       expect(newClaimId).toBe('new-claim-123');
-      expect(mockDroneClaimRepository.updateClaim).toHaveBeenCalledWith(
-        'claim-123',
-        expect.objectContaining({ endTime: expect.any(Date) }),
+      expect(mockDroneClaimRepository.overrideClaim).toHaveBeenCalledWith(
+        'drone-123',
+        expect.objectContaining({ userId: 'new-user-123', endTime: null }),
         TEST_ACCOUNTS.ADMIN.uid
       );
-      expect(mockDroneClaimRepository.createClaim).toHaveBeenCalled();
       expect(mockAuditLogService.createAuditLog).toHaveBeenCalledTimes(2);
     });
 
@@ -265,12 +325,11 @@ describe('DroneClaimService', () => {
       );
 
       expect(newClaimId).toBe('new-claim-123');
-      expect(mockDroneClaimRepository.updateClaim).toHaveBeenCalledWith(
-        'claim-123',
-        expect.objectContaining({ endTime: expect.any(Date) }),
+      expect(mockDroneClaimRepository.overrideClaim).toHaveBeenCalledWith(
+        'drone-123',
+        expect.objectContaining({ userId: 'new-user-123', endTime: null }),
         MANAGER_ACCOUNT.uid
       );
-      expect(mockDroneClaimRepository.createClaim).toHaveBeenCalled();
       expect(mockAuditLogService.createAuditLog).toHaveBeenCalledTimes(2);
     });
 
@@ -286,7 +345,10 @@ describe('DroneClaimService', () => {
     });
 
     it('should handle case with no active claim', async () => {
-      mockDroneClaimRepository.getActiveClaim.mockResolvedValue(null);
+      mockDroneClaimRepository.overrideClaim.mockResolvedValue({
+        endedClaim: null,
+        newClaimId: 'new-claim-123'
+      });
 
       const newClaimId = await DroneClaimService.adminOverrideClaim(
         'drone-123',
@@ -296,8 +358,31 @@ describe('DroneClaimService', () => {
       );
 
       expect(newClaimId).toBe('new-claim-123');
-      expect(mockDroneClaimRepository.updateClaim).not.toHaveBeenCalled();
-      expect(mockDroneClaimRepository.createClaim).toHaveBeenCalled();
+      expect(mockAuditLogService.createAuditLog).toHaveBeenCalledTimes(1);
+      expect(mockAuditLogService.createAuditLog).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'admin_override_create' })
+      );
+    });
+
+    it('should only end the current claim when no new user is given', async () => {
+      mockDroneClaimRepository.overrideClaim.mockResolvedValue({
+        endedClaim: mockClaim,
+        newClaimId: null
+      });
+
+      const newClaimId = await DroneClaimService.adminOverrideClaim(
+        'drone-123',
+        null,
+        TEST_ACCOUNTS.ADMIN.uid,
+        UserRole.ADMIN
+      );
+
+      expect(newClaimId).toBeNull();
+      expect(mockDroneClaimRepository.overrideClaim).toHaveBeenCalledWith('drone-123', null, TEST_ACCOUNTS.ADMIN.uid);
+      expect(mockAuditLogService.createAuditLog).toHaveBeenCalledTimes(1);
+      expect(mockAuditLogService.createAuditLog).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'admin_override_end', entityId: 'claim-123' })
+      );
     });
   });
 
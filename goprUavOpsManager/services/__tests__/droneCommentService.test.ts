@@ -138,6 +138,44 @@ describe('DroneCommentService', () => {
         )
       ).rejects.toThrow('User authentication required to create comments');
     });
+
+    it('should save the comment under the idempotency key', async () => {
+      const commentDataNoImages = { ...mockDroneCommentCreateData, images: [] };
+      mockDroneCommentRepository.getDroneComment.mockResolvedValue(null);
+      mockDroneCommentRepository.createDroneComment.mockResolvedValue('offline-key');
+
+      const result = await DroneCommentService.createDroneComment(
+        commentDataNoImages,
+        UserRole.USER,
+        'user-1',
+        'user@example.com',
+        'offline-key'
+      );
+
+      expect(result).toBe('offline-key');
+      expect(mockDroneCommentRepository.createDroneComment).toHaveBeenCalledWith(
+        expect.objectContaining({ content: commentDataNoImages.content }),
+        'user-1',
+        'user@example.com',
+        'offline-key'
+      );
+    });
+
+    it('should not create a comment already saved under the idempotency key', async () => {
+      mockDroneCommentRepository.getDroneComment.mockResolvedValue(mockComment);
+
+      const result = await DroneCommentService.createDroneComment(
+        mockDroneCommentCreateData,
+        UserRole.USER,
+        'user-1',
+        'user@example.com',
+        'offline-key'
+      );
+
+      expect(result).toBe('offline-key');
+      expect(mockImageService.processImages).not.toHaveBeenCalled();
+      expect(mockDroneCommentRepository.createDroneComment).not.toHaveBeenCalled();
+    });
   });
 
   describe('deleteDroneComment', () => {
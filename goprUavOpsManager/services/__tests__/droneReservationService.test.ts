@@ -0,0 +1,231 @@
+// Mock all external dependencies BEFORE imports
+jest.mock('@/repositories/DroneReservationRepository', () => ({
+  DroneReservationRepository: {
+    createReservation: jest.fn(),
+    updateReservation: jest.fn(),
+    getReservation: jest.fn(),
+    getReservationsInRange: jest.fn(),
+  }
+}));
+
+jest.mock('@/repositories/DroneClaimRepository', () => ({
+  DroneClaimRepository: {
+    getActiveClaim: jest.fn(),
+  }
+}));
+
+jest.mock('@/repositories/DroneRepository', () => ({
+  DroneRepository: {
+    getDrone: jest.fn(),
+  }
+}));
+
+jest.mock('../auditLogService', () => ({
+  AuditLogService: {
+    createAuditLog: jest.fn().mockResolvedValue('audit-log-id'),
+    createChangeDetails: jest.fn().mockReturnValue('details'),
+  }
+}));
+
+jest.mock('../userService', () => ({
+  UserService: {
+    getUserEmail: jest.fn().mockResolvedValue('test@example.com'),
+  }
+}));
+
+import { DroneReservationService } from '../droneReservationService';
+import { DroneReservationRepository } from '@/repositories/DroneReservationRepository';
+import { DroneClaimRepository } from '@/repositories/DroneClaimRepository';
+import { DroneRepository } from '@/repositories/DroneRepository';
+import { AuditLogService } from '../auditLogService';
+import { DroneReservation } from '@/types/DroneReservation';
+import { TEST_ACCOUNTS } from './setup';
+
+const mockReservationRepository = DroneReservationRepository as jest.Mocked<typeof DroneReservationRepository>;
+const mockClaimRepository = DroneClaimRepository as jest.Mocked<typeof DroneClaimRepository>;
+const mockDroneRepository = DroneRepository as jest.Mocked<typeof DroneRepository>;
+const mockAuditLogService = AuditLogService as jest.Mocked<typeof AuditLogService>;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('DroneReservationService', () => {
+  const tomorrow = new Date(Date.now() + 24 * HOUR_MS);
+  const inHours = (hours: number) => new Date(tomorrow.getTime() + hours * HOUR_MS);
+
+  const reservation = (overrides: Partial<DroneReservation> = {}): DroneReservation => ({
+    id: 'reservation-1',
+    droneId: 'drone-1',
+    userId: TEST_ACCOUNTS.USER.uid,
+    userEmail: TEST_ACCOUNTS.USER.email,
+    startTime: inHours(0),
+    endTime: inHours(4),
+    status: 'scheduled',
+    createdAt: new Date(),
+    createdBy: TEST_ACCOUNTS.USER.uid,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDroneRepository.getDrone.mockResolvedValue({ id: 'drone-1', shareable: true, isDeleted: false } as any);
+    mockReservationRepository.getReservationsInRange.mockResolvedValue([]);
+    mockReservationRepository.createReservation.mockResolvedValue('reservation-1');
+    mockClaimRepository.getActiveClaim.mockResolvedValue(null);
+  });
+
+  describe('createReservation', () => {
+    it('books a free future window and logs it', async () => {
+      const id = await DroneReservationService.createReservation(
+        { droneId: 'drone-1', startTime: inHours(0), endTime: inHours(3), purpose: '  Winter training  ' },
+        TEST_ACCOUNTS.USER.uid,
+        TEST_ACCOUNTS.USER.role,
+        TEST_ACCOUNTS.USER.email
+      );
+
+      expect(id).toBe('reservation-1');
+      expect(mockReservationRepository.createReservation).toHaveBeenCalledWith(
+        expect.objectContaining({
+          droneId: 'drone-1',
+          userId: TEST_ACCOUNTS.USER.uid,
+          purpose: 'Winter training',
+          status: 'scheduled',
+        }),
+        TEST_ACCOUNTS.USER.uid
+      );
+      expect(mockAuditLogService.createAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+        entityType: 'droneReservation',
+        action: 'create',
+      }));
+    });
+
+    it('rejects windows in the past, reversed or too long', async () => {
+      const book = (startTime: Date, endTime: Date) => DroneReservationService.createReservation(
+        { droneId: 'drone-1', startTime, endTime },
+        TEST_ACCOUNTS.USER.uid,
+        TEST_ACCOUNTS.USER.role
+      );
+
+      await expect(book(new Date(Date.now() - HOUR_MS), new Date(Date.now() + HOUR_MS)))
+        .rejects.toThrow('Reservation must start in the future');
+      await expect(book(inHours(2), inHours(1))).rejects.toThrow('Reservation must end after it starts');
+      await expect(book(inHours(0), inHours(73))).rejects.toThrow('Reservation cannot be longer than 72 hours');
+      expect(mockReservationRepository.createReservation).not.toHaveBeenCalled();
+    });
+
+    it('rejects drones that are not shareable', async () => {
+      mockDroneRepository.getDrone.mockResolvedValue({ id: 'drone-1', shareable: false, isDeleted: false } as any);
+
+      await expect(DroneReservationService.createReservation(
+        { droneId: 'drone-1', startTime: inHours(0), endTime: inHours(1) },
+        TEST_ACCOUNTS.USER.uid,
+        TEST_ACCOUNTS.USER.role
+      )).rejects.toThrow('This drone is not shareable');
+    });
+
+    it('rejects windows overlapping another reservation', async () => {
+      mockReservationRepository.getReservationsInRange.mockResolvedValue([
+        reservation({ userId: 'other-user', startTime: inHours(2), endTime: inHours(5) }),
+      ]);
+
+      await expect(DroneReservationService.createReservation(
+        { droneId: 'drone-1', startTime: inHours(0), endTime: inHours(3) },
+        TEST_ACCOUNTS.USER.uid,
+        TEST_ACCOUNTS.USER.role
+      )).rejects.toThrow('Drone is already reserved for this time');
+    });
+
+    it('ignores cancelled reservations and back-to-back windows', async () => {
+      mockReservationRepository.getReservationsInRange.mockResolvedValue([
+        reservation({ id: 'cancelled', status: 'cancelled', startTime: inHours(0), endTime: inHours(3) }),
+        reservation({ id: 'before', startTime: inHours(-2), endTime: inHours(0) }),
+      ]);
+
+      await expect(DroneReservationService.createReservation(
+        { droneId: 'drone-1', startTime: inHours(0), endTime: inHours(3) },
+        TEST_ACCOUNTS.USER.uid,
+        TEST_ACCOUNTS.USER.role
+      )).resolves.toBe('reservation-1');
+    });
+  });
+
+  describe('getConflicts', () => {
+    it('reports a claim held by someone else but not the user\'s own claim', async () => {
+      mockClaimRepository.getActiveClaim.mockResolvedValue({ id: 'claim-1', userId: 'other-user' } as any);
+
+      const conflicts = await DroneReservationService.getConflicts('drone-1', inHours(0), inHours(1), TEST_ACCOUNTS.USER.uid);
+      expect(conflicts.activeClaim?.id).toBe('claim-1');
+
+      const ownConflicts = await DroneReservationService.getConflicts('drone-1', inHours(0), inHours(1), 'other-user');
+      expect(ownConflicts.activeClaim).toBeNull();
+    });
+  });
+
+  describe('cancelReservation', () => {
+    it('lets the owner cancel a scheduled reservation', async () => {
+      mockReservationRepository.getReservation.mockResolvedValue(reservation());
+
+      await DroneReservationService.cancelReservation('reservation-1', TEST_ACCOUNTS.USER.uid, TEST_ACCOUNTS.USER.role);
+
+      expect(mockReservationRepository.updateReservation).toHaveBeenCalledWith(
+        'reservation-1', { status: 'cancelled', cancelReason: undefined }, TEST_ACCOUNTS.USER.uid
+      );
+      expect(mockAuditLogService.createAuditLog).toHaveBeenCalledWith(expect.objectContaining({ action: 'status_change' }));
+    });
+
+    it('lets managers bump other members with a reason', async () => {
+      mockReservationRepository.getReservation.mockResolvedValue(reservation());
+
+      await DroneReservationService.cancelReservation(
+        'reservation-1', TEST_ACCOUNTS.MANAGER.uid, TEST_ACCOUNTS.MANAGER.role, undefined, 'Needed for a rescue'
+      );
+
+      expect(mockReservationRepository.updateReservation).toHaveBeenCalledWith(
+        'reservation-1', { status: 'bumped', cancelReason: 'Needed for a rescue' }, TEST_ACCOUNTS.MANAGER.uid
+      );
+      expect(mockAuditLogService.createAuditLog).toHaveBeenCalledWith(expect.objectContaining({ action: 'admin_override' }));
+    });
+
+    it('rejects cancelling someone else\'s reservation as a pilot', async () => {
+      mockReservationRepository.getReservation.mockResolvedValue(reservation({ userId: 'other-user' }));
+
+      await expect(
+        DroneReservationService.cancelReservation('reservation-1', TEST_ACCOUNTS.USER.uid, TEST_ACCOUNTS.USER.role)
+      ).rejects.toThrow('You can only cancel your own reservations');
+    });
+
+    it('rejects reservations that already started', async () => {
+      mockReservationRepository.getReservation.mockResolvedValue(reservation({ status: 'started' }));
+
+      await expect(
+        DroneReservationService.cancelReservation('reservation-1', TEST_ACCOUNTS.USER.uid, TEST_ACCOUNTS.USER.role)
+      ).rejects.toThrow('Only scheduled reservations can be cancelled');
+    });
+  });
+
+  describe('getReservationBlockingClaim', () => {
+    it('returns another member\'s scheduled reservation running now', async () => {
+      const running = reservation({
+        userId: 'other-user',
+        startTime: new Date(Date.now() - HOUR_MS),
+        endTime: new Date(Date.now() + HOUR_MS),
+      });
+      mockReservationRepository.getReservationsInRange.mockResolvedValue([running]);
+
+      expect(await DroneReservationService.getReservationBlockingClaim('drone-1', TEST_ACCOUNTS.USER.uid)).toBe(running);
+      expect(await DroneReservationService.getReservationBlockingClaim('drone-1', 'other-user')).toBeNull();
+    });
+
+    it('ignores reservations that already became claims', async () => {
+      mockReservationRepository.getReservationsInRange.mockResolvedValue([
+        reservation({
+          userId: 'other-user',
+          status: 'started',
+          startTime: new Date(Date.now() - HOUR_MS),
+          endTime: new Date(Date.now() + HOUR_MS),
+        }),
+      ]);
+
+      expect(await DroneReservationService.getReservationBlockingClaim('drone-1', TEST_ACCOUNTS.USER.uid)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,113 @@
+// Mock all external dependencies BEFORE imports
+jest.mock('@/repositories/EquipmentCheckRepository', () => ({
+  EquipmentCheckRepository: {
+    createCheck: jest.fn(),
+    getDroneChecks: jest.fn(),
+  }
+}));
+
+jest.mock('@/repositories/FlightRepository', () => ({
+  FlightRepository: {
+    getRecentDroneFlights: jest.fn(),
+  }
+}));
+
+jest.mock('../auditLogService', () => ({
+  AuditLogService: {
+    createAuditLog: jest.fn().mockResolvedValue('audit-log-id'),
+    createChangeDetails: jest.fn().mockReturnValue('details'),
+  }
+}));
+
+jest.mock('../userService', () => ({
+  UserService: {
+    getUserEmail: jest.fn().mockResolvedValue('test@example.com'),
+  }
+}));
+
+import { EquipmentCheckService } from '../equipmentCheckService';
+import { EquipmentCheckRepository } from '@/repositories/EquipmentCheckRepository';
+import { FlightRepository } from '@/repositories/FlightRepository';
+import { AuditLogService } from '../auditLogService';
+import { EquipmentStorage } from '@/types/Drone';
+import { TEST_ACCOUNTS } from './setup';
+
+const mockCheckRepository = EquipmentCheckRepository as jest.Mocked<typeof EquipmentCheckRepository>;
+const mockFlightRepository = FlightRepository as jest.Mocked<typeof FlightRepository>;
+const mockAuditLogService = AuditLogService as jest.Mocked<typeof AuditLogService>;
+
+describe('EquipmentCheckService', () => {
+  const storages: EquipmentStorage[] = [
+    {
+      id: 'case',
+      name: 'Transport case',
+      items: [
+        { id: 'props', name: 'Propellers', quantity: 4 },
+        { id: 'rc', name: 'Remote controller', quantity: 1 },
+      ],
+    },
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockCheckRepository.createCheck.mockResolvedValue('check-1');
+  });
+
+  describe('saveCheck', () => {
+    it('saves per-item results with the missing count and links', async () => {
+      const id = await EquipmentCheckService.saveCheck(
+        'drone-1',
+        storages,
+        { props: true },
+        TEST_ACCOUNTS.USER.uid,
+        TEST_ACCOUNTS.USER.email,
+        { claimId: 'claim-1', flightId: 'flight-1' }
+      );
+
+      expect(id).toBe('check-1');
+      expect(mockCheckRepository.createCheck).toHaveBeenCalledWith({
+        droneId: 'drone-1',
+        userId: TEST_ACCOUNTS.USER.uid,
+        userEmail: TEST_ACCOUNTS.USER.email,
+        items: [
+          expect.objectContaining({ itemId: 'props', present: true }),
+          expect.objectContaining({ itemId: 'rc', present: false }),
+        ],
+        missingCount: 1,
+        claimId: 'claim-1',
+        flightId: 'flight-1',
+      });
+      expect(mockAuditLogService.createAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+        entityType: 'equipmentCheck',
+        entityId: 'check-1',
+        action: 'create',
+      }));
+    });
+
+    it('rejects a drone without equipment', async () => {
+      await expect(
+        EquipmentCheckService.saveCheck('drone-1', [], {}, TEST_ACCOUNTS.USER.uid, TEST_ACCOUNTS.USER.email)
+      ).rejects.toThrow('This drone has no equipment to check');
+      expect(mockCheckRepository.createCheck).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getLatestCheck', () => {
+    it('returns the newest check or null', async () => {
+      mockCheckRepository.getDroneChecks.mockResolvedValueOnce([{ id: 'check-2' } as any]);
+      expect((await EquipmentCheckService.getLatestCheck('drone-1'))?.id).toBe('check-2');
+      expect(mockCheckRepository.getDroneChecks).toHaveBeenCalledWith('drone-1', 1);
+
+      mockCheckRepository.getDroneChecks.mockResolvedValueOnce([]);
+      expect(await EquipmentCheckService.getLatestCheck('drone-1')).toBeNull();
+    });
+  });
+
+  describe('getLinkableFlights', () => {
+    it('offers no flights when loading them fails', async () => {
+      mockFlightRepository.getRecentDroneFlights.mockRejectedValue(new Error('offline'));
+
+      expect(await EquipmentCheckService.getLinkableFlights('drone-1', TEST_ACCOUNTS.USER.uid)).toEqual([]);
+    });
+  });
+});
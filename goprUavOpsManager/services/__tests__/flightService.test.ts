@@ -5,8 +5,16 @@ jest.mock('@/repositories/FlightRepository', () => ({
     getFlight: jest.fn(),
     createFlight: jest.fn(),
     updateFlight: jest.fn(),
-    deleteFlight: jest.fn(),
+    softDeleteFlight: jest.fn(),
+    restoreFlight: jest.fn(),
     getPaginatedFlights: jest.fn(),
+    countPilotFlights: jest.fn(),
+  }
+}));
+
+jest.mock('@/repositories/UserRepository', () => ({
+  UserRepository: {
+    getUser: jest.fn(),
   }
 }));
 
@@ -23,17 +31,38 @@ jest.mock('../userService', () => ({
   }
 }));
 
+jest.mock('../appSettingsService', () => ({
+  AppSettingsService: {
+    getFlightCurrencyRules: jest.fn(),
+  }
+}));
+
 import { FlightService } from '../flightService';
 import { UserRole } from '@/types/UserRole';
 import { TEST_ACCOUNTS, mockFlight } from './setup';
 import { FlightRepository } from '@/repositories/FlightRepository';
 import { AuditLogService } from '../auditLogService';
 import { UserService } from '../userService';
+import { UserRepository } from '@/repositories/UserRepository';
+import { AppSettingsService } from '../appSettingsService';
 
 // Get references to mocked functions
 const mockFlightRepository = FlightRepository as jest.Mocked<typeof FlightRepository>;
 const mockAuditLogService = AuditLogService as jest.Mocked<typeof AuditLogService>;
 const mockUserService = UserService as jest.Mocked<typeof UserService>;
+const mockUserRepository = UserRepository as jest.Mocked<typeof UserRepository>;
+const mockAppSettingsService = AppSettingsService as jest.Mocked<typeof AppSettingsService>;
+
+// Pilot profile that passes every currency check
+const currentPilot: any = {
+  uid: TEST_ACCOUNTS.USER.uid,
+  email: TEST_ACCOUNTS.USER.email,
+  role: UserRole.USER,
+  qualifications: ['A1', 'A2', 'A3'],
+  pilotValidityDate: new Date('2099-12-31'),
+  operatorValidityDate: new Date('2099-12-31'),
+  insurance: new Date('2099-12-31'),
+};
 
 describe('FlightService', () => {
   beforeEach(() => {
@@ -43,6 +72,8 @@ describe('FlightService', () => {
     mockFlightRepository.getFlight.mockResolvedValue(mockFlight);
     mockFlightRepository.getFlights.mockResolvedValue([mockFlight]);
     mockFlightRepository.updateFlight.mockResolvedValue(undefined);
+    mockFlightRepository.softDeleteFlight.mockResolvedValue(undefined);
+    mockFlightRepository.restoreFlight.mockResolvedValue(undefined);
     mockFlightRepository.getPaginatedFlights.mockResolvedValue({
       flights: [mockFlight],
       totalCount: 1,
@@ -54,6 +85,9 @@ describe('FlightService', () => {
     mockAuditLogService.createAuditLog.mockResolvedValue('audit-log-id');
     mockAuditLogService.createChangeDetails.mockReturnValue('Flight created');
     mockUserService.getUserEmail.mockResolvedValue('test@example.com');
+    mockUserRepository.getUser.mockResolvedValue(currentPilot);
+    mockAppSettingsService.getFlightCurrencyRules.mockResolvedValue({ recencyMinFlights: 3, recencyPeriodDays: 90 });
+    mockFlightRepository.countPilotFlights.mockResolvedValue(5);
   });
 
   describe('Permission Logic Tests', () => {
@@ -167,10 +201,45 @@ describe('FlightService', () => {
             userId: TEST_ACCOUNTS.USER.uid,
             userEmail: TEST_ACCOUNTS.USER.email,
           }),
-          TEST_ACCOUNTS.USER.uid
+          TEST_ACCOUNTS.USER.uid,
+          undefined
+        );
+      });
+
+      test('should save the flight under the idempotency key', async () => {
+        mockFlightRepository.getFlight.mockResolvedValue(null);
+        mockFlightRepository.createFlight.mockResolvedValue('offline-key');
+
+        const result = await FlightService.createFlight(
+          { droneId: 'drone-123' } as any,
+          TEST_ACCOUNTS.USER.uid,
+          TEST_ACCOUNTS.USER.email,
+          { idempotencyKey: 'offline-key' }
+        );
+
+        expect(result).toBe('offline-key');
+        expect(mockFlightRepository.getFlight).toHaveBeenCalledWith('offline-key');
+        expect(mockFlightRepository.createFlight).toHaveBeenCalledWith(
+          expect.objectContaining({ droneId: 'drone-123' }),
+          TEST_ACCOUNTS.USER.uid,
+          'offline-key'
         );
       });
 
+      test('should not create a flight already saved under the idempotency key', async () => {
+        mockFlightRepository.getFlight.mockResolvedValue(mockFlight);
+
+        const result = await FlightService.createFlight(
+          { droneId: 'drone-123' } as any,
+          TEST_ACCOUNTS.USER.uid,
+          TEST_ACCOUNTS.USER.email,
+          { idempotencyKey: 'offline-key' }
+        );
+
+        expect(result).toBe('offline-key');
+        expect(mockFlightRepository.createFlight).not.toHaveBeenCalled();
+      });
+
       test('should create audit log for flight creation', async () => {
         const flightData = {
           droneId: 'drone-123',
@@ -246,7 +315,8 @@ describe('FlightService', () => {
         expect.objectContaining({
           userEmail: '',
         }),
-        TEST_ACCOUNTS.USER.uid
+        TEST_ACCOUNTS.USER.uid,
+        undefined
       );
     });
   });
@@ -426,6 +496,250 @@ describe('FlightService', () => {
     });
   });
 
+  describe('Pilot currency checks', () => {
+    const flightData: any = {
+      date: '2024-06-15',
+      flightCategory: 'STS01',
+      droneId: 'drone-123',
+      startTime: '2024-06-15T10:00:00',
+      endTime: '2024-06-15T11:00:00',
+    };
+
+    test('should count pilot flights within the recency window', async () => {
+      await FlightService.checkPilotCurrency(TEST_ACCOUNTS.USER.uid, { flightCategory: 'A1', flightDate: '2024-06-15' });
+
+      expect(mockUserRepository.getUser).toHaveBeenCalledWith(TEST_ACCOUNTS.USER.uid);
+      expect(mockFlightRepository.countPilotFlights).toHaveBeenCalledWith(TEST_ACCOUNTS.USER.uid, '2024-03-17', '2024-06-15');
+    });
+
+    test('should not count flights when the recency rule is disabled', async () => {
+      mockAppSettingsService.getFlightCurrencyRules.mockResolvedValue({ recencyMinFlights: 0, recencyPeriodDays: 90 });
+
+      const result = await FlightService.checkPilotCurrency(TEST_ACCOUNTS.USER.uid, { flightDate: '2024-06-15' });
+
+      expect(mockFlightRepository.countPilotFlights).not.toHaveBeenCalled();
+      expect(result).toEqual({ errors: [], warnings: [] });
+    });
+
+    test('should block flight creation when the pilot lacks the qualification', async () => {
+      await expect(FlightService.createFlight(flightData, TEST_ACCOUNTS.USER.uid, TEST_ACCOUNTS.USER.email, {
+        userRole: UserRole.USER,
+        overrideCurrencyErrors: true,
+      })).rejects.toThrow('Pilot currency requirements not met');
+
+      expect(mockFlightRepository.createFlight).not.toHaveBeenCalled();
+    });
+
+    test('should allow creation with warnings only', async () => {
+      mockFlightRepository.countPilotFlights.mockResolvedValue(0);
+
+      const result = await FlightService.createFlight(
+        { ...flightData, flightCategory: 'A1' },
+        TEST_ACCOUNTS.USER.uid,
+        TEST_ACCOUNTS.USER.email
+      );
+
+      expect(result).toBe('new-flight-id');
+      expect(mockAuditLogService.createAuditLog).toHaveBeenCalledTimes(1);
+    });
+
+    test('should let an admin override blocking errors and audit the override', async () => {
+      const result = await FlightService.createFlight(flightData, TEST_ACCOUNTS.ADMIN.uid, TEST_ACCOUNTS.ADMIN.email, {
+        userRole: UserRole.ADMIN,
+        overrideCurrencyErrors: true,
+      });
+
+      expect(result).toBe('new-flight-id');
+      expect(mockAuditLogService.createAuditLog).toHaveBeenCalledWith(
+        expect.objectContaining({
+          entityType: 'flight',
+          entityId: 'new-flight-id',
+          action: 'admin_override',
+          userId: TEST_ACCOUNTS.ADMIN.uid,
+          details: 'Admin override of pilot currency checks: missingQualification',
+        })
+      );
+    });
+
+    test('should still block an admin who did not confirm the override', async () => {
+      await expect(FlightService.createFlight(flightData, TEST_ACCOUNTS.ADMIN.uid, TEST_ACCOUNTS.ADMIN.email, {
+        userRole: UserRole.ADMIN,
+      })).rejects.toThrow('Pilot currency requirements not met');
+    });
+  });
+
+  describe('softDeleteFlight', () => {
+    const existingFlight = {
+      id: 'flight-1',
+      droneId: 'drone-123',
+      userId: TEST_ACCOUNTS.USER.uid,
+      date: '2023-12-01',
+      location: 'Test Location',
+      flightCategory: 'A1' as const,
+      operationType: 'IR' as const,
+      activityType: 'Individual training' as const,
+      startTime: '2023-12-01T10:00:00Z',
+      endTime: '2023-12-01T11:00:00Z',
+      conditions: 'Good weather',
+      isDeleted: false
+    };
+
+    beforeEach(() => {
+      mockFlightRepository.getFlight.mockResolvedValue(existingFlight);
+    });
+
+    it('should soft delete flight for admin', async () => {
+      await FlightService.softDeleteFlight('flight-1', UserRole.ADMIN, TEST_ACCOUNTS.ADMIN.uid);
+
+      expect(mockFlightRepository.softDeleteFlight).toHaveBeenCalledWith('flight-1', TEST_ACCOUNTS.ADMIN.uid);
+      expect(mockAuditLogService.createAuditLog).toHaveBeenCalledWith(
+        expect.objectContaining({
+          entityType: 'flight',
+          entityId: 'flight-1',
+          action: 'soft_delete',
+          previousValues: existingFlight
+        })
+      );
+    });
+
+    it('should soft delete flight for manager', async () => {
+      await FlightService.softDeleteFlight('flight-1', UserRole.MANAGER, TEST_ACCOUNTS.MANAGER.uid);
+
+      expect(mockFlightRepository.softDeleteFlight).toHaveBeenCalledWith('flight-1', TEST_ACCOUNTS.MANAGER.uid);
+    });
+
+    it('should throw error for user role, even for own flight', async () => {
+      await expect(
+        FlightService.softDeleteFlight('flight-1', UserRole.USER, TEST_ACCOUNTS.USER.uid)
+      ).rejects.toThrow('Insufficient permissions to delete flight');
+
+      expect(mockFlightRepository.softDeleteFlight).not.toHaveBeenCalled();
+    });
+
+    it('should throw error when flight not found', async () => {
+      mockFlightRepository.getFlight.mockResolvedValue(null);
+
+      await expect(
+        FlightService.softDeleteFlight('non-existent', UserRole.ADMIN, TEST_ACCOUNTS.ADMIN.uid)
+      ).rejects.toThrow('Failed to delete flight');
+    });
+
+    it('should not delete an already deleted flight twice', async () => {
+      mockFlightRepository.getFlight.mockResolvedValue({ ...existingFlight, isDeleted: true });
+
+      await expect(
+        FlightService.softDeleteFlight('flight-1', UserRole.ADMIN, TEST_ACCOUNTS.ADMIN.uid)
+      ).rejects.toThrow('Failed to delete flight');
+
+      expect(mockFlightRepository.softDeleteFlight).not.toHaveBeenCalled();
+    });
+
+    it('should handle delete errors gracefully', async () => {
+      mockFlightRepository.softDeleteFlight.mockRejectedValue(new Error('Delete failed'));
+
+      await expect(
+        FlightService.softDeleteFlight('flight-1', UserRole.ADMIN, TEST_ACCOUNTS.ADMIN.uid)
+      ).rejects.toThrow('Failed to delete flight');
+
+    });
+  });
+
+  describe('restoreFlight', () => {
+    const deletedFlight = {
+      id: 'flight-1',
+      droneId: 'drone-123',
+      userId: TEST_ACCOUNTS.USER.uid,
+      date: '2023-12-01',
+      location: 'Test Location',
+      flightCategory: 'A1' as const,
+      operationType: 'IR' as const,
+      activityType: 'Individual training' as const,
+      startTime: '2023-12-01T10:00:00Z',
+      endTime: '2023-12-01T11:00:00Z',
+      conditions: 'Good weather',
+      isDeleted: true,
+      deletedAt: new Date()
+    };
+
+    beforeEach(() => {
+      mockFlightRepository.getFlight.mockResolvedValue(deletedFlight);
+    });
+
+    it('should restore flight for admin', async () => {
+      await FlightService.restoreFlight('flight-1', UserRole.ADMIN, TEST_ACCOUNTS.ADMIN.uid);
+
+      expect(mockFlightRepository.restoreFlight).toHaveBeenCalledWith('flight-1', TEST_ACCOUNTS.ADMIN.uid);
+      expect(mockAuditLogService.createAuditLog).toHaveBeenCalledWith(
+        expect.objectContaining({
+          entityType: 'flight',
+          entityId: 'flight-1',
+          action: 'restore'
+        })
+      );
+    });
+
+    it('should throw error for manager role', async () => {
+      await expect(
+        FlightService.restoreFlight('flight-1', UserRole.MANAGER, TEST_ACCOUNTS.MANAGER.uid)
+      ).rejects.toThrow('Insufficient permissions to restore flight');
+    });
+
+    it('should throw error for user role', async () => {
+      await expect(
+        FlightService.restoreFlight('flight-1', UserRole.USER, TEST_ACCOUNTS.USER.uid)
+      ).rejects.toThrow('Insufficient permissions to restore flight');
+    });
+
+    it('should not restore a flight that is not deleted', async () => {
+      mockFlightRepository.getFlight.mockResolvedValue({ ...deletedFlight, isDeleted: false });
+
+      await expect(
+        FlightService.restoreFlight('flight-1', UserRole.ADMIN, TEST_ACCOUNTS.ADMIN.uid)
+      ).rejects.toThrow('Failed to restore flight');
+
+    });
+  });
+
+  describe('Deleted flight visibility', () => {
+    const deletedFlight = { ...mockFlight, isDeleted: true, startTime: '2023-12-01T10:00:00Z', endTime: '2023-12-01T11:00:00Z' };
+
+    beforeEach(() => {
+      mockFlightRepository.getFlight.mockResolvedValue(deletedFlight);
+    });
+
+    it('should hide deleted flight from its owner', async () => {
+      const result = await FlightService.getFlight('flight-123', UserRole.USER, TEST_ACCOUNTS.USER.uid);
+
+      expect(result).toBeNull();
+    });
+
+    it('should hide deleted flight from manager', async () => {
+      const result = await FlightService.getFlight('flight-123', UserRole.MANAGER, TEST_ACCOUNTS.MANAGER.uid);
+
+      expect(result).toBeNull();
+    });
+
+    it('should show deleted flight to admin', async () => {
+      const result = await FlightService.getFlight('flight-123', UserRole.ADMIN, TEST_ACCOUNTS.ADMIN.uid);
+
+      expect(result?.isDeleted).toBe(true);
+    });
+
+    it('should not allow owner to update a deleted flight', async () => {
+      await expect(
+        FlightService.updateFlight('flight-123', { conditions: 'Changed' }, UserRole.USER, TEST_ACCOUNTS.USER.uid)
+      ).rejects.toThrow('Failed to update flight');
+
+      expect(mockFlightRepository.updateFlight).not.toHaveBeenCalled();
+    });
+
+    it('should let admins edit a deleted flight', async () => {
+      await FlightService.updateFlight('flight-123', { endTime: '2023-12-01T12:00:00Z' }, UserRole.ADMIN, TEST_ACCOUNTS.ADMIN.uid);
+
+      expect(mockFlightRepository.updateFlight).toHaveBeenCalled();
+    });
+  });
+
   describe('getPaginatedFlights', () => {
     const mockPaginatedResponse = {
       flights: [mockFlight],
@@ -0,0 +1,97 @@
+jest.mock('@/repositories/FlightRepository', () => ({
+  FlightRepository: {
+    getAllFilteredFlights: jest.fn(),
+  },
+}));
+
+jest.mock('../droneService', () => ({
+  DroneService: {
+    getDrones: jest.fn(),
+    formatDroneName: jest.fn(),
+  },
+}));
+
+import { FlightStatisticsService } from '../flightStatisticsService';
+import { FlightRepository } from '@/repositories/FlightRepository';
+import { DroneService } from '../droneService';
+import { UserRole } from '@/types/UserRole';
+import { Flight } from '@/types/Flight';
+import { TEST_ACCOUNTS } from './setup';
+
+const mockFlightRepository = FlightRepository as jest.Mocked<typeof FlightRepository>;
+const mockDroneService = DroneService as jest.Mocked<typeof DroneService>;
+
+describe('FlightStatisticsService', () => {
+  const flights: Flight[] = [
+    {
+      id: 'flight-1',
+      userId: TEST_ACCOUNTS.USER.uid,
+      userEmail: TEST_ACCOUNTS.USER.email,
+      date: '2024-01-10',
+      location: 'Test Location',
+      flightCategory: 'A1',
+      operationType: 'IR',
+      activityType: 'Rescue',
+      droneId: 'drone-123',
+      startTime: '2024-01-10T10:00:00.000Z',
+      endTime: '2024-01-10T11:00:00.000Z',
+      conditions: 'Clear',
+    },
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFlightRepository.getAllFilteredFlights.mockResolvedValue(flights);
+    mockDroneService.getDrones.mockResolvedValue([{ id: 'drone-123' } as any]);
+    mockDroneService.formatDroneName.mockReturnValue('Test Drone [TD001]');
+  });
+
+  describe('getFlightStatistics', () => {
+    test('should query flights for the date range with the caller role', async () => {
+      const startDate = new Date('2024-01-01');
+      const endDate = new Date('2024-12-31');
+
+      await FlightStatisticsService.getFlightStatistics(UserRole.USER, TEST_ACCOUNTS.USER.uid, { startDate, endDate });
+
+      expect(mockFlightRepository.getAllFilteredFlights).toHaveBeenCalledWith(
+        { startDate, endDate },
+        UserRole.USER,
+        TEST_ACCOUNTS.USER.uid
+      );
+    });
+
+    test('should aggregate flights with current drone names', async () => {
+      const stats = await FlightStatisticsService.getFlightStatistics(UserRole.MANAGER, TEST_ACCOUNTS.MANAGER.uid);
+
+      expect(stats.flightCount).toBe(1);
+      expect(stats.totalMinutes).toBe(60);
+      expect(stats.groups.drone[0].label).toBe('Test Drone [TD001]');
+      expect(stats.groups.pilot[0].label).toBe(TEST_ACCOUNTS.USER.email);
+    });
+
+    test('should fall back to stored drone ids when drones cannot be loaded', async () => {
+      mockDroneService.getDrones.mockRejectedValue(new Error('Failed to fetch drones'));
+
+      const stats = await FlightStatisticsService.getFlightStatistics(UserRole.ADMIN, TEST_ACCOUNTS.ADMIN.uid);
+
+      expect(stats.groups.drone[0].label).toBe('drone-123');
+    });
+
+    test('should reject an inverted date range', async () => {
+      await expect(FlightStatisticsService.getFlightStatistics(UserRole.ADMIN, TEST_ACCOUNTS.ADMIN.uid, {
+        startDate: new Date('2024-12-31'),
+        endDate: new Date('2024-01-01'),
+      })).rejects.toThrow('Start date must be before end date');
+
+      expect(mockFlightRepository.getAllFilteredFlights).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('canViewAllPilots', () => {
+    test('should allow admins and managers only', () => {
+      expect(FlightStatisticsService.canViewAllPilots(UserRole.ADMIN)).toBe(true);
+      expect(FlightStatisticsService.canViewAllPilots(UserRole.MANAGER)).toBe(true);
+      expect(FlightStatisticsService.canViewAllPilots(UserRole.USER)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,100 @@
+jest.mock('@/utils/firebaseUtils', () => ({
+  getStorageRef: jest.fn((path: string) => ({ path })),
+  uploadFile: jest.fn(),
+  getDownloadURL: jest.fn(),
+}));
+
+jest.mock('../flightService', () => ({
+  FlightService: {
+    updateFlight: jest.fn(),
+  },
+}));
+
+import { FlightTrackService } from '../flightTrackService';
+import { FlightService } from '../flightService';
+import { getStorageRef, uploadFile, getDownloadURL } from '@/utils/firebaseUtils';
+import { FlightTrackImport } from '@/types/Flight';
+import { UserRole } from '@/types/UserRole';
+import { TEST_ACCOUNTS, mockFlight } from './setup';
+
+const mockFlightService = FlightService as jest.Mocked<typeof FlightService>;
+const mockGetStorageRef = getStorageRef as jest.Mock;
+const mockUploadFile = uploadFile as jest.Mock;
+const mockGetDownloadURL = getDownloadURL as jest.Mock;
+
+const GPX = `<gpx><trk><trkseg>
+  <trkpt lat="49.1" lon="22.5"><ele>600</ele><time>2024-05-01T10:00:00Z</time></trkpt>
+  <trkpt lat="49.101" lon="22.5"><ele>640</ele><time>2024-05-01T10:10:00Z</time></trkpt>
+</trkseg></trk></gpx>`;
+
+describe('FlightTrackService', () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockUploadFile.mockResolvedValue(undefined);
+    mockGetDownloadURL.mockResolvedValue('https://storage.example.com/track.gpx');
+    mockFlightService.updateFlight.mockResolvedValue(undefined);
+    global.fetch = jest.fn().mockResolvedValue({ text: () => Promise.resolve(GPX) }) as any;
+  });
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  describe('importTrackFile', () => {
+    test('should read and parse the picked file', async () => {
+      const result = await FlightTrackService.importTrackFile('blob:track', 'flight.gpx');
+
+      expect(result.fileName).toBe('flight.gpx');
+      expect(result.content).toBe(GPX);
+      expect(result.track.format).toBe('gpx');
+      expect(result.track.summary.maxAltitude).toBe(40);
+    });
+  });
+
+  describe('attachTrack', () => {
+    test('should upload the raw file under the flight and store derived values', async () => {
+      const trackImport: FlightTrackImport = await FlightTrackService.importTrackFile('blob:track', 'my flight.gpx');
+
+      await FlightTrackService.attachTrack('flight-123', trackImport, UserRole.USER, TEST_ACCOUNTS.USER.uid);
+
+      expect(mockGetStorageRef).toHaveBeenCalledWith(expect.stringMatching(/^flights\/tracks\/flight-123\/\d+_my_flight\.gpx$/));
+      expect(mockUploadFile).toHaveBeenCalledWith(expect.anything(), expect.any(Blob));
+      expect(mockFlightService.updateFlight).toHaveBeenCalledWith('flight-123', {
+        trackUrl: 'https://storage.example.com/track.gpx',
+        trackFileName: 'my flight.gpx',
+        trackFormat: 'gpx',
+        distanceFlown: trackImport.track.summary.distance,
+        maxAltitude: 40,
+      }, UserRole.USER, TEST_ACCOUNTS.USER.uid);
+    });
+
+    test('should not update the flight when the upload fails', async () => {
+      const trackImport = await FlightTrackService.importTrackFile('blob:track', 'flight.gpx');
+      mockUploadFile.mockRejectedValue(new Error('Upload failed'));
+
+      await expect(FlightTrackService.attachTrack('flight-123', trackImport, UserRole.USER, TEST_ACCOUNTS.USER.uid))
+        .rejects.toThrow('Failed to upload flight track');
+      expect(mockFlightService.updateFlight).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getTrackPoints', () => {
+    test('should return no points for flights without a track', async () => {
+      expect(await FlightTrackService.getTrackPoints(mockFlight)).toEqual([]);
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    test('should download and parse the stored track', async () => {
+      const points = await FlightTrackService.getTrackPoints({
+        ...mockFlight,
+        trackUrl: 'https://storage.example.com/track.gpx',
+        trackFormat: 'gpx',
+      });
+
+      expect(global.fetch).toHaveBeenCalledWith('https://storage.example.com/track.gpx');
+      expect(points).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,231 @@
+// Mock all external dependencies BEFORE imports
+// The services test config maps react-native and async-storage to the same mock
+// module, so this one mock stands in for both
+const mockStorage: Record<string, string> = {};
+jest.mock('react-native', () => ({
+  Platform: { OS: 'ios' },
+  getItem: jest.fn((key: string) => Promise.resolve(mockStorage[key] ?? null)),
+  setItem: jest.fn((key: string, value: string) => {
+    mockStorage[key] = value;
+    return Promise.resolve();
+  }),
+  removeItem: jest.fn((key: string) => {
+    delete mockStorage[key];
+    return Promise.resolve();
+  }),
+}));
+
+jest.mock('expo-file-system', () => ({
+  readAsStringAsync: jest.fn(),
+}));
+
+jest.mock('@/utils/firebaseUtils', () => ({
+  getStorageRef: jest.fn().mockReturnValue('storage-ref'),
+  uploadFile: jest.fn().mockResolvedValue(undefined),
+  getDownloadURL: jest.fn().mockResolvedValue('https://storage.example.com/geozones.json'),
+}));
+
+jest.mock('../appSettingsService', () => ({
+  AppSettingsService: {
+    getGeozoneDataset: jest.fn(),
+    setGeozoneDataset: jest.fn(),
+    clearGeozoneDataset: jest.fn(),
+  }
+}));
+
+jest.mock('../auditLogService', () => ({
+  AuditLogService: {
+    createAuditLog: jest.fn().mockResolvedValue('audit-log-id'),
+  }
+}));
+
+jest.mock('../userService', () => ({
+  UserService: {
+    getUserEmail: jest.fn().mockResolvedValue('test@example.com'),
+  }
+}));
+
+import * as FileSystem from 'expo-file-system';
+import { GeozoneService } from '../geozoneService';
+import { AppSettingsService } from '../appSettingsService';
+import { AuditLogService } from '../auditLogService';
+import { uploadFile } from '@/utils/firebaseUtils';
+import { TEST_ACCOUNTS } from './setup';
+
+const mockAppSettingsService = AppSettingsService as jest.Mocked<typeof AppSettingsService>;
+const mockAuditLogService = AuditLogService as jest.Mocked<typeof AuditLogService>;
+const mockReadAsStringAsync = FileSystem.readAsStringAsync as jest.Mock;
+const mockFetch = jest.fn();
+
+// Restricted area around the Zakopane heliport
+const importedDataset = JSON.stringify({
+  type: 'FeatureCollection',
+  features: [{
+    type: 'Feature',
+    id: 'EPZK-R',
+    properties: { name: 'Zakopane heliport', type: 'R', restriction: 'PROHIBITED' },
+    geometry: {
+      type: 'Polygon',
+      coordinates: [[[19.94, 49.29], [19.96, 49.29], [19.96, 49.31], [19.94, 49.31], [19.94, 49.29]]],
+    },
+  }],
+});
+
+const dataset = {
+  fileName: 'geozones.json',
+  url: 'https://storage.example.com/geozones.json',
+  zoneCount: 1,
+  importedAt: new Date(),
+  importedBy: TEST_ACCOUNTS.ADMIN.uid,
+};
+
+const zakopane = '49.2992, 19.9496';
+const kasprowyWierch = '49°13\'55"N 19°58\'54"E';
+
+describe('GeozoneService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    GeozoneService.clearCache();
+    Object.keys(mockStorage).forEach(key => delete mockStorage[key]);
+    global.fetch = mockFetch;
+    mockAppSettingsService.getGeozoneDataset.mockResolvedValue(null);
+  });
+
+  describe('canManageGeozones', () => {
+    it('allows managers and admins only', () => {
+      expect(GeozoneService.canManageGeozones(TEST_ACCOUNTS.ADMIN.role)).toBe(true);
+      expect(GeozoneService.canManageGeozones(TEST_ACCOUNTS.MANAGER.role)).toBe(true);
+      expect(GeozoneService.canManageGeozones(TEST_ACCOUNTS.USER.role)).toBe(false);
+    });
+  });
+
+  describe('checkLocation', () => {
+    it('uses the bundled zones when nothing was imported', async () => {
+      const matches = await GeozoneService.checkLocation(kasprowyWierch);
+
+      expect(matches.map(match => match.zone.id)).toEqual(['PL-NP-TPN']);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('adds zones from the imported dataset', async () => {
+      mockAppSettingsService.getGeozoneDataset.mockResolvedValue({
+        fileName: 'geozones.json',
+        url: 'https://storage.example.com/geozones.json',
+        zoneCount: 1,
+        importedAt: new Date(),
+        importedBy: TEST_ACCOUNTS.ADMIN.uid,
+      });
+      mockFetch.mockResolvedValue({ ok: true, text: () => Promise.resolve(importedDataset) });
+
+      const matches = await GeozoneService.checkLocation(zakopane);
+
+      expect(matches[0].zone).toMatchObject({ id: 'EPZK-R', restriction: 'prohibited', source: 'imported' });
+      expect(matches[0].inside).toBe(true);
+    });
+
+    it('falls back to the bundled zones when the dataset cannot be loaded', async () => {
+      mockAppSettingsService.getGeozoneDataset.mockResolvedValue({
+        fileName: 'geozones.json',
+        url: 'https://storage.example.com/geozones.json',
+        zoneCount: 1,
+        importedAt: new Date(),
+        importedBy: TEST_ACCOUNTS.ADMIN.uid,
+      });
+      mockFetch.mockRejectedValue(new Error('offline'));
+
+      const matches = await GeozoneService.checkLocation(kasprowyWierch);
+
+      expect(matches.map(match => match.zone.id)).toEqual(['PL-NP-TPN']);
+    });
+
+    it('loads the dataset again on the next check after a failure', async () => {
+      mockAppSettingsService.getGeozoneDataset.mockResolvedValue(dataset);
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 503, text: () => Promise.resolve('Service Unavailable') });
+      mockFetch.mockResolvedValueOnce({ ok: true, text: () => Promise.resolve(importedDataset) });
+
+      expect(await GeozoneService.checkLocation(zakopane)).toEqual([]);
+      const matches = await GeozoneService.checkLocation(zakopane);
+
+      expect(matches.map(match => match.zone.id)).toEqual(['EPZK-R']);
+    });
+
+    it('uses the last loaded dataset when offline', async () => {
+      mockAppSettingsService.getGeozoneDataset.mockResolvedValue(dataset);
+      mockFetch.mockResolvedValueOnce({ ok: true, text: () => Promise.resolve(importedDataset) });
+      await GeozoneService.checkLocation(zakopane);
+
+      GeozoneService.clearCache();
+      mockFetch.mockRejectedValueOnce(new Error('offline'));
+      const matches = await GeozoneService.checkLocation(zakopane);
+
+      expect(matches.map(match => match.zone.id)).toEqual(['EPZK-R']);
+    });
+
+    it('loads the zones once', async () => {
+      await GeozoneService.checkLocation(zakopane);
+      await GeozoneService.checkLocation(kasprowyWierch);
+
+      expect(mockAppSettingsService.getGeozoneDataset).toHaveBeenCalledTimes(1);
+    });
+
+    it('returns no matches for unparseable coordinates', async () => {
+      expect(await GeozoneService.checkLocation('somewhere')).toEqual([]);
+    });
+  });
+
+  describe('importDataset', () => {
+    it('rejects pilots', async () => {
+      await expect(
+        GeozoneService.importDataset('file:///geozones.json', 'geozones.json', TEST_ACCOUNTS.USER.role, TEST_ACCOUNTS.USER.uid)
+      ).rejects.toThrow('Insufficient permissions to import geozones');
+    });
+
+    it('rejects files without zones before uploading', async () => {
+      mockReadAsStringAsync.mockResolvedValue('{"features":[]}');
+
+      await expect(
+        GeozoneService.importDataset('file:///geozones.json', 'geozones.json', TEST_ACCOUNTS.ADMIN.role, TEST_ACCOUNTS.ADMIN.uid)
+      ).rejects.toThrow('Geozone dataset contains no zones');
+      expect(uploadFile).not.toHaveBeenCalled();
+    });
+
+    it('uploads the file, stores the dataset and logs the import', async () => {
+      mockReadAsStringAsync.mockResolvedValue(importedDataset);
+
+      const zoneCount = await GeozoneService.importDataset(
+        'file:///geozones.json', 'ULC geozones.json', TEST_ACCOUNTS.MANAGER.role, TEST_ACCOUNTS.MANAGER.uid
+      );
+
+      expect(zoneCount).toBe(1);
+      expect(uploadFile).toHaveBeenCalledWith('storage-ref', 'file:///geozones.json');
+      expect(mockAppSettingsService.setGeozoneDataset).toHaveBeenCalledWith({
+        fileName: 'ULC geozones.json',
+        url: 'https://storage.example.com/geozones.json',
+        zoneCount: 1,
+        importedBy: TEST_ACCOUNTS.MANAGER.uid,
+      });
+      expect(mockAuditLogService.createAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+        entityType: 'geozone',
+        action: 'create',
+        userId: TEST_ACCOUNTS.MANAGER.uid,
+      }));
+    });
+  });
+
+  describe('removeDataset', () => {
+    it('rejects pilots', async () => {
+      await expect(GeozoneService.removeDataset(TEST_ACCOUNTS.USER.role, TEST_ACCOUNTS.USER.uid))
+        .rejects.toThrow('Insufficient permissions to remove geozones');
+    });
+
+    it('clears the dataset and logs the removal', async () => {
+      await GeozoneService.removeDataset(TEST_ACCOUNTS.ADMIN.role, TEST_ACCOUNTS.ADMIN.uid);
+
+      expect(mockAppSettingsService.clearGeozoneDataset).toHaveBeenCalled();
+      expect(mockAuditLogService.createAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+        entityType: 'geozone',
+        action: 'delete',
+      }));
+    });
+  });
+});
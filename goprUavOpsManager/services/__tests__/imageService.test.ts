@@ -212,5 +212,17 @@ describe('ImageService', () => {
       expect(result).toHaveLength(1);
       expect(result[0]).toBe('https://example.com/uploaded-image.jpg');
     });
+
+    test('should throw on a failed upload when asked to', async () => {
+      jest.spyOn(ImageService, 'uploadImage')
+        .mockResolvedValueOnce('https://example.com/uploaded-image.jpg')
+        .mockRejectedValueOnce(new Error('Upload failed'));
+
+      await expect(
+        ImageService.processImages(['file://image1.jpg', 'file://image2.jpg'], 'drones/images', 'temp_123', {
+          failOnUploadError: true,
+        })
+      ).rejects.toThrow('Upload failed');
+    });
   });
 });
@@ -0,0 +1,187 @@
+// Mock all external dependencies first
+jest.mock('react-native', () => ({
+  Platform: {
+    OS: 'ios',
+  },
+}));
+
+jest.mock('expo-file-system', () => ({
+  writeAsStringAsync: jest.fn(),
+  cacheDirectory: 'file:///cache/',
+}));
+
+jest.mock('expo-print', () => ({
+  printAsync: jest.fn(),
+  printToFileAsync: jest.fn(),
+}));
+
+jest.mock('expo-sharing', () => ({
+  shareAsync: jest.fn(),
+}));
+
+jest.mock('@/repositories/FlightRepository', () => ({
+  FlightRepository: {
+    getAllFilteredFlights: jest.fn(),
+  },
+}));
+
+jest.mock('../droneService', () => ({
+  DroneService: {
+    getDrones: jest.fn(),
+    formatDroneName: jest.fn(),
+  },
+}));
+
+jest.mock('../userService', () => ({
+  UserService: {
+    getUserEmail: jest.fn(),
+  },
+}));
+
+import { LogbookService } from '../logbookService';
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import { FlightRepository } from '@/repositories/FlightRepository';
+import { DroneService } from '../droneService';
+import { UserService } from '../userService';
+import { UserRole } from '@/types/UserRole';
+import { Flight } from '@/types/Flight';
+import { TEST_ACCOUNTS } from './setup';
+
+const mockFlightRepository = FlightRepository as jest.Mocked<typeof FlightRepository>;
+const mockDroneService = DroneService as jest.Mocked<typeof DroneService>;
+const mockUserService = UserService as jest.Mocked<typeof UserService>;
+
+const t = (key: string) => key;
+
+describe('LogbookService', () => {
+  const flights: Flight[] = [
+    {
+      id: 'flight-2',
+      userId: TEST_ACCOUNTS.USER.uid,
+      userEmail: TEST_ACCOUNTS.USER.email,
+      date: '2024-01-02',
+      location: 'Test Location',
+      flightCategory: 'A1',
+      operationType: 'IR',
+      activityType: 'Rescue',
+      droneId: 'drone-123',
+      startTime: '2024-01-02T10:00:00.000Z',
+      endTime: '2024-01-02T11:15:00.000Z',
+      conditions: 'Clear',
+    },
+    {
+      id: 'flight-1',
+      userId: TEST_ACCOUNTS.USER.uid,
+      userEmail: TEST_ACCOUNTS.USER.email,
+      date: '2024-01-01',
+      location: 'Test Location',
+      flightCategory: 'A2',
+      operationType: 'WIDE',
+      activityType: 'Individual training',
+      droneId: 'drone-123',
+      startTime: '2024-01-01T10:00:00.000Z',
+      endTime: '2024-01-01T10:20:00.000Z',
+      conditions: 'Clear',
+    },
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (Platform.OS as any) = 'ios';
+
+    mockFlightRepository.getAllFilteredFlights.mockResolvedValue(flights);
+    mockDroneService.getDrones.mockResolvedValue([{ id: 'drone-123' } as any]);
+    mockDroneService.formatDroneName.mockReturnValue('Test Drone [TD001]');
+    mockUserService.getUserEmail.mockResolvedValue(TEST_ACCOUNTS.USER.email);
+  });
+
+  describe('getLogbookEntries', () => {
+    test('should pass filters through without pagination or deleted flights', async () => {
+      const startDate = new Date('2024-01-01');
+
+      await LogbookService.getLogbookEntries(UserRole.ADMIN, TEST_ACCOUNTS.ADMIN.uid, {
+        pageSize: 10,
+        pageNumber: 3,
+        includeDeleted: true,
+        startDate,
+        flightCategory: 'A1',
+        userEmail: TEST_ACCOUNTS.USER.email,
+      });
+
+      expect(mockFlightRepository.getAllFilteredFlights).toHaveBeenCalledWith(
+        { startDate, flightCategory: 'A1', userEmail: TEST_ACCOUNTS.USER.email },
+        UserRole.ADMIN,
+        TEST_ACCOUNTS.ADMIN.uid
+      );
+    });
+
+    test('should return chronological entries with drone names and durations', async () => {
+      const entries = await LogbookService.getLogbookEntries(UserRole.USER, TEST_ACCOUNTS.USER.uid);
+
+      expect(entries.map(e => e.flightId)).toEqual(['flight-1', 'flight-2']);
+      expect(entries.map(e => e.durationMinutes)).toEqual([20, 75]);
+      expect(entries[0].drone).toBe('Test Drone [TD001]');
+    });
+
+    test('should still build entries when drones cannot be loaded', async () => {
+      mockDroneService.getDrones.mockRejectedValue(new Error('Failed to fetch drones'));
+
+      const entries = await LogbookService.getLogbookEntries(UserRole.USER, TEST_ACCOUNTS.USER.uid);
+
+      expect(entries).toHaveLength(2);
+      expect(entries[0].drone).toBe('drone-123');
+    });
+  });
+
+  describe('exportCsv', () => {
+    test('should write CSV to cache and open share sheet on mobile', async () => {
+      await LogbookService.exportCsv(UserRole.USER, TEST_ACCOUNTS.USER.uid, {}, t);
+
+      expect(FileSystem.writeAsStringAsync).toHaveBeenCalledWith(
+        expect.stringMatching(/^file:\/\/\/cache\/logbook_\d{4}-\d{2}-\d{2}\.csv$/),
+        expect.stringContaining('logbook.columns.date')
+      );
+      expect(Sharing.shareAsync).toHaveBeenCalledWith(
+        expect.stringContaining('.csv'),
+        expect.objectContaining({ mimeType: 'text/csv' })
+      );
+    });
+
+    test('should throw a friendly error when fetching flights fails', async () => {
+      mockFlightRepository.getAllFilteredFlights.mockRejectedValue(new Error('Failed to fetch flights'));
+
+      await expect(LogbookService.exportCsv(UserRole.USER, TEST_ACCOUNTS.USER.uid, {}, t))
+        .rejects.toThrow('Failed to export logbook');
+      expect(Sharing.shareAsync).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('exportPdf', () => {
+    test('should render PDF and share it on mobile', async () => {
+      (Print.printToFileAsync as jest.Mock).mockResolvedValue({ uri: 'file:///cache/logbook.pdf' });
+
+      await LogbookService.exportPdf(UserRole.USER, TEST_ACCOUNTS.USER.uid, {}, t);
+
+      const { html } = (Print.printToFileAsync as jest.Mock).mock.calls[0][0];
+      expect(html).toContain('logbook.pageTotal');
+      expect(html).toContain(TEST_ACCOUNTS.USER.email);
+      expect(Sharing.shareAsync).toHaveBeenCalledWith(
+        'file:///cache/logbook.pdf',
+        expect.objectContaining({ mimeType: 'application/pdf' })
+      );
+    });
+
+    test('should open the print dialog on web', async () => {
+      (Platform.OS as any) = 'web';
+
+      await LogbookService.exportPdf(UserRole.ADMIN, TEST_ACCOUNTS.ADMIN.uid, {}, t);
+
+      expect(Print.printAsync).toHaveBeenCalledWith({ html: expect.stringContaining('<!DOCTYPE html>') });
+      expect(Print.printToFileAsync).not.toHaveBeenCalled();
+      expect(mockUserService.getUserEmail).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,199 @@
+// Mock all external dependencies BEFORE imports
+jest.mock('@/repositories/MaintenanceRepository', () => ({
+  MaintenanceRepository: {
+    createEntry: jest.fn(),
+    getDroneEntries: jest.fn(),
+    softDeleteEntry: jest.fn(),
+  }
+}));
+
+jest.mock('@/repositories/DroneRepository', () => ({
+  DroneRepository: {
+    getDrone: jest.fn(),
+    updateServiceIntervals: jest.fn(),
+  }
+}));
+
+jest.mock('../auditLogService', () => ({
+  AuditLogService: {
+    createAuditLog: jest.fn().mockResolvedValue('audit-log-id'),
+    createChangeDetails: jest.fn().mockReturnValue('details'),
+  }
+}));
+
+jest.mock('../userService', () => ({
+  UserService: {
+    getUserEmail: jest.fn().mockResolvedValue('test@example.com'),
+  }
+}));
+
+jest.mock('../imageService', () => ({
+  ImageService: {
+    processImages: jest.fn(),
+  }
+}));
+
+import { MaintenanceService } from '../maintenanceService';
+import { MaintenanceRepository } from '@/repositories/MaintenanceRepository';
+import { DroneRepository } from '@/repositories/DroneRepository';
+import { AuditLogService } from '../auditLogService';
+import { ImageService } from '../imageService';
+import { ServiceInterval } from '@/types/Maintenance';
+import { UserRole } from '@/types/UserRole';
+import { TEST_ACCOUNTS } from './setup';
+
+const mockMaintenanceRepository = MaintenanceRepository as jest.Mocked<typeof MaintenanceRepository>;
+const mockDroneRepository = DroneRepository as jest.Mocked<typeof DroneRepository>;
+const mockAuditLogService = AuditLogService as jest.Mocked<typeof AuditLogService>;
+const mockImageService = ImageService as jest.Mocked<typeof ImageService>;
+
+describe('MaintenanceService', () => {
+  const inspection: ServiceInterval = {
+    id: 'interval-1',
+    name: 'Propeller inspection',
+    maintenanceType: 'inspection',
+    flightHours: 10,
+    lastServiceAt: new Date(2025, 0, 1),
+    lastServiceFlightMinutes: 0,
+    lastServiceFlightCount: 0,
+  };
+
+  const drone = {
+    id: 'drone-1',
+    name: 'Test Drone',
+    totalFlightTime: 540,
+    totalFlightCount: 12,
+    serviceIntervals: [inspection],
+    isDeleted: false,
+  } as any;
+
+  const entryData = {
+    type: 'inspection' as const,
+    description: '  Checked propellers  ',
+    performedAt: new Date(2025, 5, 1),
+    cost: 150,
+    attachments: ['file:///photo.jpg'],
+    resetIntervalIds: ['interval-1', 'removed-interval'],
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDroneRepository.getDrone.mockResolvedValue(drone);
+    mockMaintenanceRepository.createEntry.mockResolvedValue('entry-1');
+    mockImageService.processImages.mockResolvedValue(['https://storage/photo.jpg']);
+  });
+
+  describe('logMaintenance', () => {
+    it('records the entry with the drone totals and restarts the selected intervals', async () => {
+      const id = await MaintenanceService.logMaintenance(
+        'drone-1',
+        entryData,
+        UserRole.MANAGER,
+        TEST_ACCOUNTS.MANAGER.uid,
+        TEST_ACCOUNTS.MANAGER.email
+      );
+
+      expect(id).toBe('entry-1');
+      expect(mockImageService.processImages).toHaveBeenCalledWith(
+        ['file:///photo.jpg'],
+        'maintenance/attachments/drone-1',
+        'drone-1',
+        { failOnUploadError: true }
+      );
+      expect(mockMaintenanceRepository.createEntry).toHaveBeenCalledWith(expect.objectContaining({
+        droneId: 'drone-1',
+        description: 'Checked propellers',
+        attachments: ['https://storage/photo.jpg'],
+        flightMinutesAtService: 540,
+        flightCountAtService: 12,
+        resetIntervalIds: ['interval-1'],
+      }), TEST_ACCOUNTS.MANAGER.uid);
+      expect(mockDroneRepository.updateServiceIntervals).toHaveBeenCalledWith('drone-1', [
+        expect.objectContaining({
+          id: 'interval-1',
+          lastServiceAt: entryData.performedAt,
+          lastServiceFlightMinutes: 540,
+          lastServiceFlightCount: 12,
+        }),
+      ], TEST_ACCOUNTS.MANAGER.uid);
+      expect(mockAuditLogService.createAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+        entityType: 'maintenance',
+        entityId: 'entry-1',
+        action: 'create',
+      }));
+    });
+
+    it('leaves the drone alone when no interval is completed', async () => {
+      await MaintenanceService.logMaintenance(
+        'drone-1',
+        { ...entryData, attachments: [], resetIntervalIds: [] },
+        UserRole.ADMIN,
+        TEST_ACCOUNTS.ADMIN.uid
+      );
+
+      expect(mockImageService.processImages).not.toHaveBeenCalled();
+      expect(mockDroneRepository.updateServiceIntervals).not.toHaveBeenCalled();
+    });
+
+    it('does not save the entry when an attachment fails to upload', async () => {
+      mockImageService.processImages.mockRejectedValue(new Error('Failed to upload image'));
+
+      await expect(
+        MaintenanceService.logMaintenance('drone-1', entryData, UserRole.MANAGER, TEST_ACCOUNTS.MANAGER.uid)
+      ).rejects.toThrow('Failed to upload image');
+      expect(mockMaintenanceRepository.createEntry).not.toHaveBeenCalled();
+    });
+
+    it('rejects users without manager rights', async () => {
+      await expect(
+        MaintenanceService.logMaintenance('drone-1', entryData, UserRole.USER, TEST_ACCOUNTS.USER.uid)
+      ).rejects.toThrow('Insufficient permissions to log maintenance');
+      expect(mockMaintenanceRepository.createEntry).not.toHaveBeenCalled();
+    });
+
+    it('rejects a negative cost', async () => {
+      await expect(
+        MaintenanceService.logMaintenance('drone-1', { ...entryData, cost: -1 }, UserRole.MANAGER, TEST_ACCOUNTS.MANAGER.uid)
+      ).rejects.toThrow('Maintenance cost cannot be negative');
+    });
+  });
+
+  describe('updateServiceIntervals', () => {
+    it('keeps the last service of existing intervals and starts new ones from the current totals', async () => {
+      const intervals = await MaintenanceService.updateServiceIntervals(
+        'drone-1',
+        [
+          { id: 'interval-1', name: 'Propeller inspection', maintenanceType: 'inspection', flightHours: 20 },
+          { name: 'Firmware', maintenanceType: 'firmwareUpdate', calendarDays: 90 },
+        ],
+        UserRole.MANAGER,
+        TEST_ACCOUNTS.MANAGER.uid
+      );
+
+      expect(intervals[0]).toEqual({ ...inspection, flightHours: 20 });
+      expect(intervals[1]).toEqual(expect.objectContaining({
+        name: 'Firmware',
+        calendarDays: 90,
+        lastServiceFlightMinutes: 540,
+        lastServiceFlightCount: 12,
+      }));
+      expect(mockDroneRepository.updateServiceIntervals).toHaveBeenCalledWith(
+        'drone-1',
+        intervals,
+        TEST_ACCOUNTS.MANAGER.uid
+      );
+    });
+
+    it('requires at least one limit', async () => {
+      await expect(
+        MaintenanceService.updateServiceIntervals(
+          'drone-1',
+          [{ name: 'Empty', maintenanceType: 'other' }],
+          UserRole.MANAGER,
+          TEST_ACCOUNTS.MANAGER.uid
+        )
+      ).rejects.toThrow('Service interval needs at least one limit');
+      expect(mockDroneRepository.updateServiceIntervals).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,231 @@
+// Mock all external dependencies BEFORE imports
+jest.mock('@/repositories/MissionRepository', () => ({
+  MissionRepository: {
+    getMissions: jest.fn(),
+    getMission: jest.fn(),
+    createMission: jest.fn(),
+    updateMission: jest.fn(),
+    softDeleteMission: jest.fn(),
+    restoreMission: jest.fn(),
+  }
+}));
+
+jest.mock('../auditLogService', () => ({
+  AuditLogService: {
+    createAuditLog: jest.fn().mockResolvedValue('audit-log-id'),
+    createChangeDetails: jest.fn().mockReturnValue('Mission created'),
+  }
+}));
+
+jest.mock('../userService', () => ({
+  UserService: {
+    getUserEmail: jest.fn().mockResolvedValue('test@example.com'),
+  }
+}));
+
+import { MissionService } from '../missionService';
+import { UserRole } from '@/types/UserRole';
+import { Mission, MissionFormData } from '@/types/Mission';
+import { TEST_ACCOUNTS } from './setup';
+import { MissionRepository } from '@/repositories/MissionRepository';
+import { AuditLogService } from '../auditLogService';
+import { deleteField } from '@/utils/firebaseUtils';
+
+const mockMissionRepository = MissionRepository as jest.Mocked<typeof MissionRepository>;
+const mockAuditLogService = AuditLogService as jest.Mocked<typeof AuditLogService>;
+
+const mockMission: Mission = {
+  id: 'mission-123',
+  incidentNumber: '2025/042',
+  title: 'Missing hiker near Tarnica',
+  searchArea: 'Tarnica - Szeroki Wierch',
+  searchAreaCoordinates: '49.0750, 22.7260',
+  startTime: '2025-06-15T08:00:00',
+  outcome: 'ongoing',
+  isDeleted: false,
+};
+
+const formData: MissionFormData = {
+  incidentNumber: ' 2025/042 ',
+  title: 'Missing hiker near Tarnica',
+  searchArea: 'Tarnica - Szeroki Wierch',
+  searchAreaCoordinates: '',
+  startTime: '2025-06-15T08:00:00',
+  endTime: '2025-06-15T14:30:00',
+  outcome: 'found_alive',
+  notes: '',
+};
+
+describe('MissionService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockMissionRepository.getMission.mockResolvedValue(mockMission);
+    mockMissionRepository.getMissions.mockResolvedValue([mockMission, { ...mockMission, id: 'mission-456', isDeleted: true }]);
+    mockMissionRepository.createMission.mockResolvedValue('new-mission-id');
+    mockMissionRepository.updateMission.mockResolvedValue(undefined);
+    mockMissionRepository.softDeleteMission.mockResolvedValue(undefined);
+    mockMissionRepository.restoreMission.mockResolvedValue(undefined);
+  });
+
+  describe('Permission Logic Tests', () => {
+    test('should allow admin and manager to modify missions', () => {
+      expect(MissionService.canModifyMissions(UserRole.ADMIN)).toBe(true);
+      expect(MissionService.canModifyMissions(UserRole.MANAGER)).toBe(true);
+      expect(MissionService.canModifyMissions(UserRole.USER)).toBe(false);
+    });
+
+    test('should only allow admin to view deleted missions', () => {
+      expect(MissionService.canViewDeletedMissions(UserRole.ADMIN)).toBe(true);
+      expect(MissionService.canViewDeletedMissions(UserRole.MANAGER)).toBe(false);
+    });
+  });
+
+  describe('getMission', () => {
+    test('should hide deleted missions from non-admins', async () => {
+      mockMissionRepository.getMission.mockResolvedValue({ ...mockMission, isDeleted: true });
+
+      await expect(MissionService.getMission('mission-123', UserRole.USER)).resolves.toBeNull();
+      await expect(MissionService.getMission('mission-123', UserRole.ADMIN)).resolves.toEqual(
+        expect.objectContaining({ id: 'mission-123' })
+      );
+    });
+  });
+
+  describe('getSelectableMissions', () => {
+    test('should exclude deleted missions', async () => {
+      const missions = await MissionService.getSelectableMissions(UserRole.ADMIN);
+
+      expect(missions.map(mission => mission.id)).toEqual(['mission-123']);
+    });
+  });
+
+  describe('getMissionFlights', () => {
+    test('should list the flights stored on the mission in chronological order', () => {
+      const flight = {
+        id: 'flight-2',
+        userId: TEST_ACCOUNTS.USER.uid,
+        droneId: 'drone-123',
+        startTime: '2025-06-15T10:00:00',
+        endTime: '2025-06-15T10:30:00',
+      };
+      const earlierFlight = { ...flight, id: 'flight-1', startTime: '2025-06-15T09:00:00' };
+
+      const flights = MissionService.getMissionFlights({ ...mockMission, flights: [flight, earlierFlight] });
+
+      expect(flights.map(missionFlight => missionFlight.id)).toEqual(['flight-1', 'flight-2']);
+    });
+
+    test('should return no flights for a mission without any', () => {
+      expect(MissionService.getMissionFlights(mockMission)).toEqual([]);
+    });
+  });
+
+  describe('createMission', () => {
+    test('should create a mission with trimmed values and an audit entry', async () => {
+      const missionId = await MissionService.createMission(formData, UserRole.MANAGER, TEST_ACCOUNTS.MANAGER.uid);
+
+      expect(missionId).toBe('new-mission-id');
+      expect(mockMissionRepository.createMission).toHaveBeenCalledWith(
+        expect.objectContaining({
+          incidentNumber: '2025/042',
+          outcome: 'found_alive',
+          searchAreaCoordinates: undefined,
+          notes: undefined,
+        }),
+        TEST_ACCOUNTS.MANAGER.uid
+      );
+      expect(mockAuditLogService.createAuditLog).toHaveBeenCalledWith(
+        expect.objectContaining({
+          entityType: 'mission',
+          entityId: 'new-mission-id',
+          action: 'create',
+        })
+      );
+    });
+
+    test('should throw error for user trying to create mission', async () => {
+      await expect(
+        MissionService.createMission(formData, UserRole.USER, TEST_ACCOUNTS.USER.uid)
+      ).rejects.toThrow('Insufficient permissions to create mission');
+      expect(mockMissionRepository.createMission).not.toHaveBeenCalled();
+    });
+
+    test('should reject a mission ending before it started', async () => {
+      await expect(
+        MissionService.createMission({ ...formData, endTime: '2025-06-15T07:00:00' }, UserRole.ADMIN, TEST_ACCOUNTS.ADMIN.uid)
+      ).rejects.toThrow('Mission end time cannot be before start time');
+    });
+
+    test('should require an incident number', async () => {
+      await expect(
+        MissionService.createMission({ ...formData, incidentNumber: '  ' }, UserRole.ADMIN, TEST_ACCOUNTS.ADMIN.uid)
+      ).rejects.toThrow('Incident number is required');
+    });
+  });
+
+  describe('updateMission', () => {
+    test('should update the mission and log previous values', async () => {
+      await MissionService.updateMission('mission-123', formData, UserRole.ADMIN, TEST_ACCOUNTS.ADMIN.uid);
+
+      expect(mockMissionRepository.updateMission).toHaveBeenCalledWith(
+        'mission-123',
+        expect.objectContaining({ endTime: '2025-06-15T14:30:00', outcome: 'found_alive' }),
+        TEST_ACCOUNTS.ADMIN.uid
+      );
+      expect(mockAuditLogService.createAuditLog).toHaveBeenCalledWith(
+        expect.objectContaining({
+          entityType: 'mission',
+          action: 'edit',
+          previousValues: mockMission,
+        })
+      );
+    });
+
+    test('should remove optional fields cleared in the edit', async () => {
+      await MissionService.updateMission(
+        'mission-123',
+        { ...formData, searchAreaCoordinates: ' ', endTime: '', notes: '' },
+        UserRole.ADMIN,
+        TEST_ACCOUNTS.ADMIN.uid
+      );
+
+      expect(mockMissionRepository.updateMission).toHaveBeenCalledWith(
+        'mission-123',
+        expect.objectContaining({
+          searchAreaCoordinates: deleteField(),
+          endTime: deleteField(),
+          notes: deleteField(),
+        }),
+        TEST_ACCOUNTS.ADMIN.uid
+      );
+    });
+
+    test('should fail when the mission does not exist', async () => {
+      mockMissionRepository.getMission.mockResolvedValue(null);
+
+      await expect(
+        MissionService.updateMission('missing', formData, UserRole.ADMIN, TEST_ACCOUNTS.ADMIN.uid)
+      ).rejects.toThrow('Failed to update mission');
+    });
+  });
+
+  describe('deleteMission and restoreMission', () => {
+    test('should soft delete for managers', async () => {
+      await MissionService.deleteMission('mission-123', UserRole.MANAGER, TEST_ACCOUNTS.MANAGER.uid);
+
+      expect(mockMissionRepository.softDeleteMission).toHaveBeenCalledWith('mission-123', TEST_ACCOUNTS.MANAGER.uid);
+      expect(mockAuditLogService.createAuditLog).toHaveBeenCalledWith(
+        expect.objectContaining({ entityType: 'mission', action: 'delete' })
+      );
+    });
+
+    test('should only allow admins to restore', async () => {
+      await expect(
+        MissionService.restoreMission('mission-123', UserRole.MANAGER, TEST_ACCOUNTS.MANAGER.uid)
+      ).rejects.toThrow('Insufficient permissions to restore mission');
+
+      await MissionService.restoreMission('mission-123', UserRole.ADMIN, TEST_ACCOUNTS.ADMIN.uid);
+      expect(mockMissionRepository.restoreMission).toHaveBeenCalledWith('mission-123', TEST_ACCOUNTS.ADMIN.uid);
+    });
+  });
+});
@@ -0,0 +1,95 @@
+jest.mock('@/repositories/NotificationRepository', () => ({
+  NotificationRepository: {
+    getUserNotifications: jest.fn(),
+    getUnreadCount: jest.fn(),
+    markAsRead: jest.fn(),
+  },
+}));
+
+import { NotificationService } from '../notificationService';
+import { NotificationRepository } from '@/repositories/NotificationRepository';
+import { Notification } from '@/types/Notification';
+import { TEST_ACCOUNTS } from './setup';
+
+const mockNotificationRepository = NotificationRepository as jest.Mocked<typeof NotificationRepository>;
+
+describe('NotificationService', () => {
+  const notification: Notification = {
+    id: 'notification-1',
+    userId: TEST_ACCOUNTS.USER.uid,
+    type: 'documentExpiry',
+    documentType: 'insurance',
+    expiryDate: '2024-07-15',
+    daysBefore: 30,
+    daysLeft: 30,
+    read: false,
+    createdAt: new Date('2024-06-15'),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockNotificationRepository.getUserNotifications.mockResolvedValue([notification]);
+    mockNotificationRepository.getUnreadCount.mockResolvedValue(1);
+    mockNotificationRepository.markAsRead.mockResolvedValue(undefined);
+  });
+
+  describe('getNotifications', () => {
+    test('should fetch notifications of the user', async () => {
+      const result = await NotificationService.getNotifications(TEST_ACCOUNTS.USER.uid);
+
+      expect(result).toEqual([notification]);
+      expect(mockNotificationRepository.getUserNotifications).toHaveBeenCalledWith(TEST_ACCOUNTS.USER.uid);
+    });
+  });
+
+  describe('getUnreadCount', () => {
+    test('should return the unread count', async () => {
+      expect(await NotificationService.getUnreadCount(TEST_ACCOUNTS.USER.uid)).toBe(1);
+    });
+
+    test('should return 0 when counting fails', async () => {
+      mockNotificationRepository.getUnreadCount.mockRejectedValue(new Error('Failed to count unread notifications'));
+
+      expect(await NotificationService.getUnreadCount(TEST_ACCOUNTS.USER.uid)).toBe(0);
+    });
+  });
+
+  describe('markAsRead', () => {
+    test('should mark an unread notification of the user as read', async () => {
+      await NotificationService.markAsRead(notification, TEST_ACCOUNTS.USER.uid);
+
+      expect(mockNotificationRepository.markAsRead).toHaveBeenCalledWith('notification-1');
+    });
+
+    test('should skip notifications that are already read', async () => {
+      await NotificationService.markAsRead({ ...notification, read: true }, TEST_ACCOUNTS.USER.uid);
+
+      expect(mockNotificationRepository.markAsRead).not.toHaveBeenCalled();
+    });
+
+    test('should reject notifications of other users', async () => {
+      await expect(NotificationService.markAsRead(notification, TEST_ACCOUNTS.ADMIN.uid))
+        .rejects.toThrow('Insufficient permissions to update this notification');
+    });
+  });
+
+  describe('markAllAsRead', () => {
+    test('should only mark unread notifications of the user', async () => {
+      await NotificationService.markAllAsRead([
+        notification,
+        { ...notification, id: 'notification-2', read: true },
+        { ...notification, id: 'notification-3', userId: TEST_ACCOUNTS.ADMIN.uid },
+      ], TEST_ACCOUNTS.USER.uid);
+
+      expect(mockNotificationRepository.markAsRead).toHaveBeenCalledTimes(1);
+      expect(mockNotificationRepository.markAsRead).toHaveBeenCalledWith('notification-1');
+    });
+  });
+
+  describe('getDaysLeft', () => {
+    test('should count calendar days until expiry', () => {
+      expect(NotificationService.getDaysLeft(notification, new Date('2024-07-08T15:00:00Z'))).toBe(7);
+      expect(NotificationService.getDaysLeft(notification, new Date('2024-07-20T00:00:00Z'))).toBe(-5);
+    });
+  });
+});
@@ -0,0 +1,248 @@
+// Mock all external dependencies BEFORE imports
+const mockStorage: Record<string, string> = {};
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn((key: string) => Promise.resolve(mockStorage[key] ?? null)),
+  setItem: jest.fn((key: string, value: string) => {
+    mockStorage[key] = value;
+    return Promise.resolve();
+  }),
+  removeItem: jest.fn((key: string) => {
+    delete mockStorage[key];
+    return Promise.resolve();
+  }),
+}));
+
+jest.mock('@/utils/networkConnectivity', () => ({
+  NetworkConnectivity: {
+    getConnectionStatus: jest.fn(),
+  }
+}));
+
+jest.mock('@/utils/imageCache', () => ({
+  ImageCacheService: {
+    initialize: jest.fn(),
+    preloadImage: jest.fn(),
+    setPinnedImages: jest.fn(),
+  }
+}));
+
+jest.mock('../droneService', () => ({
+  DroneService: {
+    getDrones: jest.fn(),
+    getDrone: jest.fn(),
+  }
+}));
+
+jest.mock('../droneClaimService', () => ({
+  DroneClaimService: {
+    getClaims: jest.fn(),
+    getActiveClaim: jest.fn(),
+  }
+}));
+
+jest.mock('../flightService', () => ({
+  FlightService: {
+    getRecentFlights: jest.fn(),
+  }
+}));
+
+jest.mock('../taskService', () => ({
+  TaskService: {
+    getUserTasks: jest.fn(),
+    getTask: jest.fn(),
+  }
+}));
+
+import { OfflineDataService } from '../offlineDataService';
+import { DroneService } from '../droneService';
+import { DroneClaimService } from '../droneClaimService';
+import { FlightService } from '../flightService';
+import { TaskService } from '../taskService';
+import { ImageCacheService } from '@/utils/imageCache';
+import { NetworkConnectivity } from '@/utils/networkConnectivity';
+import { Drone } from '@/types/Drone';
+import { DroneClaim } from '@/types/DroneClaim';
+import { Flight } from '@/types/Flight';
+import { Task } from '@/types/Task';
+import { TEST_ACCOUNTS } from './setup';
+
+const mockDroneService = DroneService as jest.Mocked<typeof DroneService>;
+const mockClaimService = DroneClaimService as jest.Mocked<typeof DroneClaimService>;
+const mockFlightService = FlightService as jest.Mocked<typeof FlightService>;
+const mockTaskService = TaskService as jest.Mocked<typeof TaskService>;
+const mockImageCache = ImageCacheService as jest.Mocked<typeof ImageCacheService>;
+const mockConnectivity = NetworkConnectivity as jest.Mocked<typeof NetworkConnectivity>;
+
+describe('OfflineDataService', () => {
+  const user = TEST_ACCOUNTS.USER;
+
+  const drone = {
+    id: 'drone-1',
+    name: 'Mavic',
+    updatedAt: new Date('2024-05-01T10:00:00.000Z'),
+    equipmentStorages: [
+      {
+        id: 'storage-1',
+        name: 'Case',
+        items: [
+          { id: 'item-1', name: 'Batteries', quantity: 3, image: 'https://storage.example.com/batteries.jpg' },
+          { id: 'item-2', name: 'Propellers', quantity: 4 },
+        ],
+      },
+    ],
+    serviceIntervals: [
+      { id: 'interval-1', name: 'Motors', maintenanceType: 'inspection', lastServiceAt: new Date('2024-04-01T00:00:00.000Z') },
+    ],
+  } as unknown as Drone;
+
+  const claim = {
+    id: 'claim-1',
+    droneId: 'drone-1',
+    userId: TEST_ACCOUNTS.ADMIN.uid,
+    userEmail: TEST_ACCOUNTS.ADMIN.email,
+    startTime: new Date('2024-06-01T08:00:00.000Z'),
+    createdAt: new Date('2024-06-01T08:00:00.000Z'),
+  } as DroneClaim;
+
+  const flight = { id: 'flight-1', userId: user.uid, date: '2024-05-30' } as Flight;
+
+  const task = {
+    id: 'task-1',
+    title: 'Inspect propellers',
+    assignedTo: user.uid,
+    createdAt: new Date('2024-05-20T08:00:00.000Z'),
+    updatedAt: new Date('2024-05-21T08:00:00.000Z'),
+  } as Task;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    Object.keys(mockStorage).forEach(key => delete mockStorage[key]);
+    mockConnectivity.getConnectionStatus.mockResolvedValue(true);
+    mockImageCache.initialize.mockResolvedValue(undefined);
+    mockImageCache.preloadImage.mockResolvedValue(undefined);
+    mockDroneService.getDrones.mockResolvedValue([drone]);
+    mockDroneService.getDrone.mockResolvedValue(drone);
+    mockClaimService.getClaims.mockResolvedValue([claim]);
+    mockClaimService.getActiveClaim.mockResolvedValue(claim);
+    mockFlightService.getRecentFlights.mockResolvedValue([flight]);
+    mockTaskService.getUserTasks.mockResolvedValue([task]);
+    mockTaskService.getTask.mockResolvedValue(task);
+  });
+
+  describe('preDownloadData', () => {
+    it('caches every dataset for the user', async () => {
+      await OfflineDataService.preDownloadData(user);
+
+      expect(mockClaimService.getClaims).toHaveBeenCalledWith({ active: true });
+      expect(mockFlightService.getRecentFlights).toHaveBeenCalledWith(user.uid, 50);
+      expect(mockTaskService.getUserTasks).toHaveBeenCalledWith(user.uid, user.role, false);
+
+      const stats = await OfflineDataService.getCacheStats(user.uid);
+      expect(stats.map(status => [status.dataset, status.itemCount])).toEqual([
+        ['drones', 1],
+        ['claims', 1],
+        ['flights', 1],
+        ['tasks', 1],
+      ]);
+      stats.forEach(status => expect(status.lastUpdated).toBeInstanceOf(Date));
+    });
+
+    it('pre-downloads equipment storage images', async () => {
+      await OfflineDataService.preDownloadData(user);
+
+      expect(mockImageCache.preloadImage).toHaveBeenCalledTimes(1);
+      expect(mockImageCache.preloadImage).toHaveBeenCalledWith('https://storage.example.com/batteries.jpg', 'equipment');
+    });
+
+    it('pins equipment images of cached drones', async () => {
+      await OfflineDataService.preDownloadData(user);
+
+      expect(mockImageCache.setPinnedImages).toHaveBeenCalledWith('equipment', ['https://storage.example.com/batteries.jpg']);
+    });
+
+    it('caches the other datasets when one fails', async () => {
+      mockFlightService.getRecentFlights.mockRejectedValue(new Error('Failed to fetch recent flights'));
+
+      await expect(OfflineDataService.preDownloadData(user)).resolves.toBeUndefined();
+
+      const stats = await OfflineDataService.getCacheStats(user.uid);
+      expect(stats.filter(status => status.lastUpdated).map(status => status.dataset))
+        .toEqual(['drones', 'claims', 'tasks']);
+    });
+  });
+
+  describe('reading data', () => {
+    beforeEach(async () => {
+      await OfflineDataService.preDownloadData(user);
+      jest.clearAllMocks();
+    });
+
+    it('reads from the network when online', async () => {
+      await expect(OfflineDataService.getDrones(user)).resolves.toEqual({ drones: [drone], isFromCache: false });
+      expect(mockDroneService.getDrones).toHaveBeenCalledWith(user.role);
+    });
+
+    it('serves the cache with dates restored when offline', async () => {
+      mockConnectivity.getConnectionStatus.mockResolvedValue(false);
+
+      await expect(OfflineDataService.getDrones(user)).resolves.toEqual({ drones: [drone], isFromCache: true });
+      await expect(OfflineDataService.getDrone('drone-1', user)).resolves.toEqual({ drone, isFromCache: true });
+      await expect(OfflineDataService.getActiveClaim('drone-1', user)).resolves.toEqual({ claim, isFromCache: true });
+      await expect(OfflineDataService.getRecentFlights(user)).resolves.toEqual({ flights: [flight], isFromCache: true });
+      await expect(OfflineDataService.getAssignedTasks(user)).resolves.toEqual({ tasks: [task], isFromCache: true });
+      await expect(OfflineDataService.getTask('task-1', user)).resolves.toEqual({ task, isFromCache: true });
+      expect(mockDroneService.getDrones).not.toHaveBeenCalled();
+    });
+
+    it('returns no claim for a drone without an active claim offline', async () => {
+      mockConnectivity.getConnectionStatus.mockResolvedValue(false);
+
+      await expect(OfflineDataService.getActiveClaim('drone-2', user)).resolves.toEqual({ claim: null, isFromCache: true });
+    });
+
+    it('falls back to the cache when the network fails', async () => {
+      mockDroneService.getDrone.mockRejectedValue(new Error('unavailable'));
+
+      await expect(OfflineDataService.getDrone('drone-1', user)).resolves.toEqual({ drone, isFromCache: true });
+    });
+
+    it("doesn't serve another user's cache", async () => {
+      mockConnectivity.getConnectionStatus.mockResolvedValue(false);
+
+      await expect(OfflineDataService.getAssignedTasks(TEST_ACCOUNTS.ADMIN))
+        .resolves.toEqual({ tasks: [], isFromCache: true });
+    });
+  });
+
+  describe('without a cache', () => {
+    it('rethrows a network failure', async () => {
+      mockDroneService.getDrones.mockRejectedValue(new Error('Failed to fetch drones'));
+
+      await expect(OfflineDataService.getDrones(user)).rejects.toThrow('Failed to fetch drones');
+    });
+
+    it('returns nothing when offline', async () => {
+      mockConnectivity.getConnectionStatus.mockResolvedValue(false);
+
+      await expect(OfflineDataService.getDrones(user)).resolves.toEqual({ drones: [], isFromCache: true });
+      await expect(OfflineDataService.getDrone('drone-1', user)).resolves.toEqual({ drone: null, isFromCache: true });
+    });
+  });
+
+  describe('clearCache', () => {
+    it('removes all datasets', async () => {
+      await OfflineDataService.preDownloadData(user);
+
+      await OfflineDataService.clearCache();
+
+      const stats = await OfflineDataService.getCacheStats(user.uid);
+      expect(stats.every(status => status.lastUpdated === null)).toBe(true);
+    });
+
+    it('unpins equipment images', async () => {
+      await OfflineDataService.clearCache();
+
+      expect(mockImageCache.setPinnedImages).toHaveBeenCalledWith('equipment', []);
+    });
+  });
+});
@@ -0,0 +1,391 @@
+// Mock all external dependencies BEFORE imports
+const mockStorage: Record<string, string> = {};
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn((key: string) => Promise.resolve(mockStorage[key] ?? null)),
+  setItem: jest.fn((key: string, value: string) => {
+    mockStorage[key] = value;
+    return Promise.resolve();
+  }),
+  removeItem: jest.fn((key: string) => {
+    delete mockStorage[key];
+    return Promise.resolve();
+  }),
+}));
+
+jest.mock('@/utils/networkConnectivity', () => ({
+  NetworkConnectivity: {
+    getConnectionStatus: jest.fn(),
+    addListener: jest.fn(),
+  }
+}));
+
+jest.mock('@/repositories/FlightRepository', () => ({
+  FlightRepository: {
+    getRecentDroneFlights: jest.fn(),
+  }
+}));
+
+jest.mock('../flightService', () => ({
+  FlightService: {
+    createFlight: jest.fn(),
+  }
+}));
+
+jest.mock('../droneService', () => ({
+  DroneService: {
+    getDrone: jest.fn(),
+  }
+}));
+
+jest.mock('../droneCommentService', () => ({
+  DroneCommentService: {
+    createDroneComment: jest.fn(),
+  }
+}));
+
+jest.mock('../taskService', () => ({
+  TaskService: {
+    getTask: jest.fn(),
+    updateTaskStatus: jest.fn(),
+  }
+}));
+
+import { OfflineOutboxService } from '../offlineOutboxService';
+import { FlightService } from '../flightService';
+import { DroneService } from '../droneService';
+import { DroneCommentService } from '../droneCommentService';
+import { TaskService } from '../taskService';
+import { FlightRepository } from '@/repositories/FlightRepository';
+import { NetworkConnectivity } from '@/utils/networkConnectivity';
+import { CreateFlightMutation } from '@/types/OutboxMutation';
+import { Flight } from '@/types/Flight';
+import { Task } from '@/types/Task';
+import { Drone } from '@/types/Drone';
+import { TEST_ACCOUNTS } from './setup';
+
+const mockFlightService = FlightService as jest.Mocked<typeof FlightService>;
+const mockDroneService = DroneService as jest.Mocked<typeof DroneService>;
+const mockCommentService = DroneCommentService as jest.Mocked<typeof DroneCommentService>;
+const mockTaskService = TaskService as jest.Mocked<typeof TaskService>;
+const mockFlightRepository = FlightRepository as jest.Mocked<typeof FlightRepository>;
+const mockConnectivity = NetworkConnectivity as jest.Mocked<typeof NetworkConnectivity>;
+
+describe('OfflineOutboxService', () => {
+  const user = TEST_ACCOUNTS.USER;
+
+  const flightData: CreateFlightMutation['flightData'] = {
+    userId: user.uid,
+    userEmail: user.email,
+    date: '2024-06-01',
+    location: 'Kasprowy Wierch',
+    flightCategory: 'A1',
+    operationType: 'IR',
+    activityType: 'Individual training',
+    droneId: 'drone-1',
+    droneName: 'DJI Mavic 3',
+    startTime: '2024-06-01T10:00:00',
+    endTime: '2024-06-01T10:30:00',
+    conditions: 'Clear',
+  };
+
+  const task = {
+    id: 'task-1',
+    title: 'Inspect propellers',
+    status: 'in_progress',
+    updatedAt: new Date('2024-06-01T08:00:00.000Z'),
+  } as Task;
+
+  const enqueueFlight = () => OfflineOutboxService.enqueue({ type: 'createFlight', flightData }, user);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    Object.keys(mockStorage).forEach(key => delete mockStorage[key]);
+    mockConnectivity.getConnectionStatus.mockResolvedValue(true);
+    mockDroneService.getDrone.mockResolvedValue({ id: 'drone-1' } as Drone);
+    mockFlightRepository.getRecentDroneFlights.mockResolvedValue([]);
+    mockFlightService.createFlight.mockResolvedValue('flight-1');
+    mockCommentService.createDroneComment.mockResolvedValue('comment-1');
+    mockTaskService.getTask.mockResolvedValue(task);
+    mockTaskService.updateTaskStatus.mockResolvedValue(undefined);
+  });
+
+  describe('enqueue', () => {
+    it('keeps the mutation as pending with an idempotency key', async () => {
+      const mutation = await enqueueFlight();
+
+      expect(mutation.id).toMatch(/^[A-Za-z0-9]{20}$/);
+      const mutations = await OfflineOutboxService.getMutations(user.uid);
+      expect(mutations).toEqual([expect.objectContaining({
+        id: mutation.id,
+        type: 'createFlight',
+        flightData,
+        userId: user.uid,
+        userRole: user.role,
+        status: 'pending',
+        attempts: 0,
+      })]);
+      expect(mutations[0].createdAt).toBeInstanceOf(Date);
+    });
+
+    it('restores the base update time of task status updates as a date', async () => {
+      await OfflineOutboxService.enqueue({
+        type: 'updateTaskStatus',
+        taskId: task.id,
+        taskTitle: task.title,
+        statusUpdate: { status: 'done' },
+        baseUpdatedAt: task.updatedAt,
+      }, user);
+
+      const [mutation] = await OfflineOutboxService.getMutations();
+      expect(mutation.type === 'updateTaskStatus' && mutation.baseUpdatedAt).toEqual(task.updatedAt);
+    });
+
+    it('notifies listeners', async () => {
+      const listener = jest.fn();
+      const unsubscribe = OfflineOutboxService.addListener(listener);
+
+      await enqueueFlight();
+      unsubscribe();
+      await enqueueFlight();
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith([expect.objectContaining({ type: 'createFlight' })]);
+    });
+  });
+
+  describe('replayPendingMutations', () => {
+    it('replays each type through its service with the idempotency key', async () => {
+      const flight = await enqueueFlight();
+      const comment = await OfflineOutboxService.enqueue({
+        type: 'createDroneComment',
+        commentData: { droneId: 'drone-1', content: 'Gimbal noise', visibility: 'public' },
+      }, user);
+      await OfflineOutboxService.enqueue({
+        type: 'updateTaskStatus',
+        taskId: task.id,
+        taskTitle: task.title,
+        statusUpdate: { status: 'done', statusUpdateText: 'Replaced' },
+        baseUpdatedAt: task.updatedAt,
+      }, user);
+
+      await expect(OfflineOutboxService.replayPendingMutations(user.uid)).resolves.toBe(3);
+
+      expect(mockFlightService.createFlight).toHaveBeenCalledWith(flightData, user.uid, user.email, {
+        userRole: user.role,
+        idempotencyKey: flight.id,
+      });
+      expect(mockCommentService.createDroneComment).toHaveBeenCalledWith(
+        { droneId: 'drone-1', content: 'Gimbal noise', visibility: 'public' },
+        user.role,
+        user.uid,
+        user.email,
+        comment.id
+      );
+      expect(mockTaskService.updateTaskStatus).toHaveBeenCalledWith(
+        task.id,
+        { status: 'done', statusUpdateText: 'Replaced' },
+        user.role,
+        user.uid
+      );
+      await expect(OfflineOutboxService.getMutations()).resolves.toEqual([]);
+    });
+
+    it("leaves other users' mutations in the outbox", async () => {
+      await enqueueFlight();
+      await OfflineOutboxService.enqueue({ type: 'createFlight', flightData }, TEST_ACCOUNTS.ADMIN);
+
+      await expect(OfflineOutboxService.replayPendingMutations(user.uid)).resolves.toBe(1);
+
+      const remaining = await OfflineOutboxService.getMutations();
+      expect(remaining.map(mutation => mutation.userId)).toEqual([TEST_ACCOUNTS.ADMIN.uid]);
+    });
+
+    it('stops when the device goes offline', async () => {
+      await enqueueFlight();
+      mockConnectivity.getConnectionStatus.mockResolvedValue(false);
+
+      await expect(OfflineOutboxService.replayPendingMutations(user.uid)).resolves.toBe(0);
+
+      expect(mockFlightService.createFlight).not.toHaveBeenCalled();
+      await expect(OfflineOutboxService.getMutations()).resolves.toEqual([
+        expect.objectContaining({ status: 'pending', attempts: 0 }),
+      ]);
+    });
+
+    it('counts failed attempts and marks the mutation failed after the last one', async () => {
+      await enqueueFlight();
+      mockFlightService.createFlight.mockRejectedValue(new Error('Permission denied'));
+
+      await OfflineOutboxService.replayPendingMutations(user.uid);
+      await expect(OfflineOutboxService.getMutations()).resolves.toEqual([
+        expect.objectContaining({ status: 'pending', attempts: 1, lastError: 'Permission denied' }),
+      ]);
+
+      await OfflineOutboxService.replayPendingMutations(user.uid);
+      await OfflineOutboxService.replayPendingMutations(user.uid);
+      await expect(OfflineOutboxService.getMutations()).resolves.toEqual([
+        expect.objectContaining({ status: 'failed', attempts: 3 }),
+      ]);
+
+      await OfflineOutboxService.replayPendingMutations(user.uid);
+      expect(mockFlightService.createFlight).toHaveBeenCalledTimes(3);
+    });
+
+    it('replays once when triggered twice at the same time', async () => {
+      await enqueueFlight();
+
+      await Promise.all([
+        OfflineOutboxService.replayPendingMutations(user.uid),
+        OfflineOutboxService.replayPendingMutations(user.uid),
+      ]);
+
+      expect(mockFlightService.createFlight).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('conflict detection', () => {
+    it('holds a flight whose drone is no longer available', async () => {
+      await enqueueFlight();
+      mockDroneService.getDrone.mockResolvedValue(null);
+
+      await expect(OfflineOutboxService.replayPendingMutations(user.uid)).resolves.toBe(0);
+
+      expect(mockFlightService.createFlight).not.toHaveBeenCalled();
+      await expect(OfflineOutboxService.getMutations()).resolves.toEqual([
+        expect.objectContaining({ status: 'conflict', conflictReason: 'droneUnavailable' }),
+      ]);
+    });
+
+    it('holds a flight overlapping another flight on the drone', async () => {
+      await enqueueFlight();
+      mockFlightRepository.getRecentDroneFlights.mockResolvedValue([
+        { id: 'other', startTime: '2024-06-01T10:15:00', endTime: '2024-06-01T10:45:00' } as Flight,
+      ]);
+
+      await OfflineOutboxService.replayPendingMutations(user.uid);
+
+      expect(mockFlightRepository.getRecentDroneFlights).toHaveBeenCalledWith('drone-1', user.uid, 10);
+      await expect(OfflineOutboxService.getMutations()).resolves.toEqual([
+        expect.objectContaining({ status: 'conflict', conflictReason: 'overlappingFlight' }),
+      ]);
+    });
+
+    it('ignores the flight saved by an interrupted replay of the same mutation', async () => {
+      const mutation = await enqueueFlight();
+      mockFlightRepository.getRecentDroneFlights.mockResolvedValue([
+        { id: mutation.id, startTime: flightData.startTime, endTime: flightData.endTime } as Flight,
+      ]);
+
+      await expect(OfflineOutboxService.replayPendingMutations(user.uid)).resolves.toBe(1);
+    });
+
+    it('skips the drone check for flights on an unlisted drone', async () => {
+      await OfflineOutboxService.enqueue({ type: 'createFlight', flightData: { ...flightData, droneId: 'other' } }, user);
+
+      await expect(OfflineOutboxService.replayPendingMutations(user.uid)).resolves.toBe(1);
+
+      expect(mockDroneService.getDrone).not.toHaveBeenCalled();
+    });
+
+    it('holds a status update for a deleted task', async () => {
+      mockTaskService.getTask.mockResolvedValue({ ...task, isDeleted: true });
+      await OfflineOutboxService.enqueue({
+        type: 'updateTaskStatus',
+        taskId: task.id,
+        taskTitle: task.title,
+        statusUpdate: { status: 'done' },
+        baseUpdatedAt: task.updatedAt,
+      }, user);
+
+      await OfflineOutboxService.replayPendingMutations(user.uid);
+
+      await expect(OfflineOutboxService.getMutations()).resolves.toEqual([
+        expect.objectContaining({ status: 'conflict', conflictReason: 'taskUnavailable' }),
+      ]);
+    });
+
+    it('holds a status update for a task changed since it was made', async () => {
+      mockTaskService.getTask.mockResolvedValue({ ...task, updatedAt: new Date('2024-06-01T09:00:00.000Z') });
+      await OfflineOutboxService.enqueue({
+        type: 'updateTaskStatus',
+        taskId: task.id,
+        taskTitle: task.title,
+        statusUpdate: { status: 'done' },
+        baseUpdatedAt: task.updatedAt,
+      }, user);
+
+      await OfflineOutboxService.replayPendingMutations(user.uid);
+
+      expect(mockTaskService.updateTaskStatus).not.toHaveBeenCalled();
+      await expect(OfflineOutboxService.getMutations()).resolves.toEqual([
+        expect.objectContaining({ status: 'conflict', conflictReason: 'taskChanged' }),
+      ]);
+    });
+  });
+
+  describe('retryMutation', () => {
+    it('applies a conflicting mutation without checking again', async () => {
+      const mutation = await enqueueFlight();
+      mockDroneService.getDrone.mockResolvedValue(null);
+      await OfflineOutboxService.replayPendingMutations(user.uid);
+
+      await OfflineOutboxService.retryMutation(mutation.id);
+      const [retried] = await OfflineOutboxService.getMutations();
+      expect(retried).toEqual(expect.objectContaining({ status: 'pending', force: true }));
+      expect(retried.conflictReason).toBeUndefined();
+
+      await expect(OfflineOutboxService.replayPendingMutations(user.uid)).resolves.toBe(1);
+      expect(mockFlightService.createFlight).toHaveBeenCalledTimes(1);
+    });
+
+    it('queues a failed mutation again with its attempts reset', async () => {
+      const mutation = await enqueueFlight();
+      mockFlightService.createFlight.mockRejectedValue(new Error('Permission denied'));
+      for (let i = 0; i < 3; i++) {
+        await OfflineOutboxService.replayPendingMutations(user.uid);
+      }
+
+      await OfflineOutboxService.retryMutation(mutation.id);
+
+      const [retried] = await OfflineOutboxService.getMutations();
+      expect(retried).toEqual(expect.objectContaining({ status: 'pending', attempts: 0, force: false }));
+      expect(retried.lastError).toBeUndefined();
+    });
+  });
+
+  describe('discardMutation', () => {
+    it('removes only the given mutation', async () => {
+      const first = await enqueueFlight();
+      const second = await enqueueFlight();
+
+      await OfflineOutboxService.discardMutation(first.id);
+
+      const remaining = await OfflineOutboxService.getMutations();
+      expect(remaining.map(mutation => mutation.id)).toEqual([second.id]);
+    });
+  });
+
+  describe('startAutoReplay', () => {
+    it('replays pending mutations when the device comes back online', async () => {
+      let listener: ((isConnected: boolean) => void) | undefined;
+      const unsubscribe = jest.fn();
+      mockConnectivity.addListener.mockImplementation(callback => {
+        listener = callback;
+        return unsubscribe;
+      });
+      const replaySpy = jest.spyOn(OfflineOutboxService, 'replayPendingMutations').mockResolvedValue(0);
+
+      expect(OfflineOutboxService.startAutoReplay(user.uid)).toBe(unsubscribe);
+      expect(replaySpy).toHaveBeenCalledTimes(1);
+
+      listener?.(false);
+      expect(replaySpy).toHaveBeenCalledTimes(1);
+
+      listener?.(true);
+      expect(replaySpy).toHaveBeenCalledTimes(2);
+      expect(replaySpy).toHaveBeenLastCalledWith(user.uid);
+
+      replaySpy.mockRestore();
+    });
+  });
+});
@@ -10,6 +10,45 @@ const mockAsyncStorage = {
 
 jest.mock('@react-native-async-storage/async-storage', () => mockAsyncStorage);
 
+jest.mock('@/services/procedureChecklistService', () => ({
+  ProcedureChecklistService: {
+    getProcedureChecklists: jest.fn(),
+    getProcedureChecklistChanges: jest.fn(),
+  }
+}));
+
+jest.mock('../appSettingsService', () => ({
+  AppSettingsService: {
+    getProceduresLastUpdate: jest.fn(),
+  }
+}));
+
+jest.mock('@/utils/imageCache', () => ({
+  ImageCacheService: {
+    initialize: jest.fn(),
+    preloadImage: jest.fn(),
+    setPinnedImages: jest.fn(),
+    purgeNamespace: jest.fn(),
+  }
+}));
+
+jest.mock('@/utils/networkConnectivity', () => ({
+  NetworkConnectivity: {
+    getConnectionStatus: jest.fn().mockResolvedValue(false),
+  }
+}));
+
+import { OfflineProcedureChecklistService } from '../offlineProcedureChecklistService';
+import { ProcedureChecklistService } from '@/services/procedureChecklistService';
+import { AppSettingsService } from '../appSettingsService';
+import { ImageCacheService } from '@/utils/imageCache';
+import { ProcedureChecklist } from '@/types/ProcedureChecklist';
+import { UserRole } from '@/types/UserRole';
+
+const mockProcedureService = ProcedureChecklistService as jest.Mocked<typeof ProcedureChecklistService>;
+const mockAppSettingsService = AppSettingsService as jest.Mocked<typeof AppSettingsService>;
+const mockImageCache = ImageCacheService as jest.Mocked<typeof ImageCacheService>;
+
 describe('OfflineProcedureChecklistService AsyncStorage Mocking', () => {
   beforeEach(() => {
     jest.clearAllMocks();
@@ -87,4 +126,79 @@ describe('OfflineProcedureChecklistService AsyncStorage Mocking', () => {
     expect(mockAsyncStorage.setItem).toHaveBeenCalledWith('key1', 'value1');
     expect(mockAsyncStorage.setItem).toHaveBeenCalledWith('key2', 'value2');
   });
-});
\ No newline at end of file
+});
+
+describe('OfflineProcedureChecklistService delta sync', () => {
+  const storage: Record<string, string> = {};
+
+  const procedure = (id: string, updatedAt: string, image?: string): ProcedureChecklist => ({
+    id,
+    title: `Procedure ${id}`,
+    items: image ? [{ id: `${id}-item`, topic: 'Item', content: '', number: 1, image }] : [],
+    createdBy: 'manager-1',
+    isDeleted: false,
+    createdAt: new Date('2024-01-01T00:00:00.000Z'),
+    updatedAt: new Date(updatedAt),
+  });
+
+  const first = procedure('p1', '2024-01-01T00:00:00.000Z', 'https://img/p1.jpg');
+  const second = procedure('p2', '2024-01-02T00:00:00.000Z', 'https://img/p2.jpg');
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    Object.keys(storage).forEach(key => delete storage[key]);
+    mockAsyncStorage.getItem.mockImplementation((key: string) => Promise.resolve(storage[key] ?? null));
+    mockAsyncStorage.setItem.mockImplementation((key: string, value: string) => {
+      storage[key] = value;
+      return Promise.resolve();
+    });
+    mockAppSettingsService.getProceduresLastUpdate.mockResolvedValue(new Date('2024-01-02T00:00:00.000Z'));
+    mockImageCache.initialize.mockResolvedValue(undefined);
+    mockImageCache.preloadImage.mockResolvedValue(undefined);
+    mockProcedureService.getProcedureChecklists.mockResolvedValue([second, first]);
+
+    await OfflineProcedureChecklistService.forceRefreshProcedures(UserRole.USER);
+    jest.clearAllMocks();
+  });
+
+  it('downloads everything when there is no cache yet', async () => {
+    expect(JSON.parse(storage.cached_procedures).map((p: ProcedureChecklist) => p.id)).toEqual(['p2', 'p1']);
+    expect(JSON.parse(storage.cached_procedures_metadata).syncCursor).toBe(second.updatedAt!.getTime());
+  });
+
+  it('fetches only changes since the last sync, with some overlap', async () => {
+    mockProcedureService.getProcedureChecklistChanges.mockResolvedValue({ changed: [], deleted: [] });
+
+    await OfflineProcedureChecklistService.forceRefreshProcedures(UserRole.USER);
+
+    expect(mockProcedureService.getProcedureChecklists).not.toHaveBeenCalled();
+    const [since, role] = mockProcedureService.getProcedureChecklistChanges.mock.calls[0];
+    expect(since.getTime()).toBeLessThan(second.updatedAt!.getTime());
+    expect(role).toBe(UserRole.USER);
+  });
+
+  it('applies changes and deletions and downloads only new images', async () => {
+    const edited = procedure('p1', '2024-01-03T00:00:00.000Z', 'https://img/p1-new.jpg');
+    const deletedAt = new Date('2024-01-04T00:00:00.000Z');
+    mockProcedureService.getProcedureChecklistChanges.mockResolvedValue({
+      changed: [edited],
+      deleted: [{ procedureId: 'p2', deletedAt }],
+    });
+
+    await OfflineProcedureChecklistService.forceRefreshProcedures(UserRole.USER);
+
+    const { procedures } = await OfflineProcedureChecklistService.getProcedureChecklists(UserRole.USER);
+    expect(procedures).toEqual([edited]);
+    expect(mockImageCache.preloadImage).toHaveBeenCalledTimes(1);
+    expect(mockImageCache.preloadImage).toHaveBeenCalledWith('https://img/p1-new.jpg', 'procedures');
+    expect(mockImageCache.setPinnedImages).toHaveBeenLastCalledWith('procedures', ['https://img/p1-new.jpg']);
+    expect(JSON.parse(storage.cached_procedures_metadata).syncCursor).toBe(deletedAt.getTime());
+  });
+
+  it('downloads everything again for another role', async () => {
+    await OfflineProcedureChecklistService.forceRefreshProcedures(UserRole.ADMIN);
+
+    expect(mockProcedureService.getProcedureChecklistChanges).not.toHaveBeenCalled();
+    expect(mockProcedureService.getProcedureChecklists).toHaveBeenCalledWith(UserRole.ADMIN);
+  });
+});
@@ -0,0 +1,202 @@
+// Mock all external dependencies BEFORE imports
+const mockStorage: Record<string, string> = {};
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn((key: string) => Promise.resolve(mockStorage[key] ?? null)),
+  setItem: jest.fn((key: string, value: string) => {
+    mockStorage[key] = value;
+    return Promise.resolve();
+  }),
+  removeItem: jest.fn((key: string) => {
+    delete mockStorage[key];
+    return Promise.resolve();
+  }),
+}));
+
+jest.mock('@/utils/networkConnectivity', () => ({
+  NetworkConnectivity: {
+    getConnectionStatus: jest.fn(),
+    addListener: jest.fn(),
+  }
+}));
+
+jest.mock('../procedureExecutionService', () => ({
+  ProcedureExecutionService: {
+    recordExecution: jest.fn(),
+  }
+}));
+
+import { OfflineProcedureExecutionService } from '../offlineProcedureExecutionService';
+import { ProcedureExecutionService } from '../procedureExecutionService';
+import { NetworkConnectivity } from '@/utils/networkConnectivity';
+import { ProcedureExecutionProgress, QueuedProcedureExecution } from '@/types/ProcedureExecution';
+import { TEST_ACCOUNTS } from './setup';
+
+const mockExecutionService = ProcedureExecutionService as jest.Mocked<typeof ProcedureExecutionService>;
+const mockConnectivity = NetworkConnectivity as jest.Mocked<typeof NetworkConnectivity>;
+
+describe('OfflineProcedureExecutionService', () => {
+  const execution: Omit<QueuedProcedureExecution, 'localId'> = {
+    procedure: { id: 'proc-1', title: 'Pre-flight', updatedAt: new Date('2024-05-01T10:00:00.000Z') },
+    userId: TEST_ACCOUNTS.USER.uid,
+    userEmail: TEST_ACCOUNTS.USER.email,
+    links: { droneId: 'drone-1' },
+    startedAt: new Date('2024-06-01T09:30:00.000Z'),
+    finishedAt: new Date('2024-06-01T09:40:00.000Z'),
+    status: 'completed',
+    items: [{ itemId: 'item-1', number: 1, topic: 'Battery', completed: true }],
+    subItems: [],
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    Object.keys(mockStorage).forEach(key => delete mockStorage[key]);
+    mockConnectivity.getConnectionStatus.mockResolvedValue(true);
+    mockExecutionService.recordExecution.mockResolvedValue('exec-1');
+  });
+
+  describe('progress', () => {
+    const progress: ProcedureExecutionProgress = {
+      procedureId: 'proc-1',
+      userId: TEST_ACCOUNTS.USER.uid,
+      currentStep: 2,
+      completedItemIds: ['item-1'],
+      completedSubItemIds: ['sub-1'],
+      controlValues: { 'sub-1': '87%' },
+      droneId: 'drone-1',
+      startedAt: new Date('2024-06-01T09:30:00.000Z'),
+      savedAt: new Date('2024-06-01T09:35:00.000Z'),
+    };
+
+    it('restores saved progress with its dates', async () => {
+      await OfflineProcedureExecutionService.saveProgress(progress);
+
+      await expect(OfflineProcedureExecutionService.getProgress(TEST_ACCOUNTS.USER.uid, 'proc-1'))
+        .resolves.toEqual(progress);
+    });
+
+    it('keeps progress per user and procedure', async () => {
+      await OfflineProcedureExecutionService.saveProgress(progress);
+
+      await expect(OfflineProcedureExecutionService.getProgress(TEST_ACCOUNTS.ADMIN.uid, 'proc-1')).resolves.toBeNull();
+      await expect(OfflineProcedureExecutionService.getProgress(TEST_ACCOUNTS.USER.uid, 'proc-2')).resolves.toBeNull();
+    });
+
+    it('clears saved progress', async () => {
+      await OfflineProcedureExecutionService.saveProgress(progress);
+      await OfflineProcedureExecutionService.clearProgress(TEST_ACCOUNTS.USER.uid, 'proc-1');
+
+      await expect(OfflineProcedureExecutionService.getProgress(TEST_ACCOUNTS.USER.uid, 'proc-1')).resolves.toBeNull();
+    });
+  });
+
+  describe('finishExecution', () => {
+    it('uploads the run straight away when online', async () => {
+      await expect(OfflineProcedureExecutionService.finishExecution(execution)).resolves.toEqual({ queued: false });
+
+      expect(mockExecutionService.recordExecution).toHaveBeenCalledWith(
+        execution.procedure,
+        { status: 'completed', items: execution.items, subItems: [] },
+        execution.startedAt,
+        TEST_ACCOUNTS.USER.uid,
+        TEST_ACCOUNTS.USER.email,
+        { droneId: 'drone-1' },
+        execution.finishedAt,
+        `${TEST_ACCOUNTS.USER.uid}_proc-1_${execution.finishedAt.getTime()}`
+      );
+      await expect(OfflineProcedureExecutionService.getQueuedExecutions()).resolves.toEqual([]);
+    });
+
+    it('queues the run when offline', async () => {
+      mockConnectivity.getConnectionStatus.mockResolvedValue(false);
+
+      await expect(OfflineProcedureExecutionService.finishExecution(execution)).resolves.toEqual({ queued: true });
+
+      expect(mockExecutionService.recordExecution).not.toHaveBeenCalled();
+      const queued = await OfflineProcedureExecutionService.getQueuedExecutions(TEST_ACCOUNTS.USER.uid);
+      expect(queued).toHaveLength(1);
+      expect(queued[0]).toEqual(expect.objectContaining(execution));
+    });
+
+    it('queues the run when the upload fails', async () => {
+      mockExecutionService.recordExecution.mockRejectedValueOnce(new Error('network'));
+
+      await expect(OfflineProcedureExecutionService.finishExecution(execution)).resolves.toEqual({ queued: true });
+    });
+
+    it('retries a failed upload under the same run id', async () => {
+      mockExecutionService.recordExecution.mockRejectedValueOnce(new Error('network'));
+
+      await OfflineProcedureExecutionService.finishExecution(execution);
+      await OfflineProcedureExecutionService.uploadQueuedExecutions(TEST_ACCOUNTS.USER.uid);
+
+      const [firstId, retryId] = mockExecutionService.recordExecution.mock.calls.map(call => call[7]);
+      expect(firstId).toBeDefined();
+      expect(retryId).toBe(firstId);
+    });
+  });
+
+  describe('uploadQueuedExecutions', () => {
+    beforeEach(async () => {
+      mockConnectivity.getConnectionStatus.mockResolvedValue(false);
+      await OfflineProcedureExecutionService.finishExecution(execution);
+      await OfflineProcedureExecutionService.finishExecution({
+        ...execution,
+        userId: TEST_ACCOUNTS.ADMIN.uid,
+      });
+      await OfflineProcedureExecutionService.finishExecution({
+        ...execution,
+        finishedAt: new Date('2024-06-01T11:00:00.000Z'),
+      });
+    });
+
+    it("uploads the user's runs and leaves other users' runs queued", async () => {
+      await expect(OfflineProcedureExecutionService.uploadQueuedExecutions(TEST_ACCOUNTS.USER.uid)).resolves.toBe(2);
+
+      expect(mockExecutionService.recordExecution).toHaveBeenCalledTimes(2);
+      const remaining = await OfflineProcedureExecutionService.getQueuedExecutions();
+      expect(remaining.map(e => e.userId)).toEqual([TEST_ACCOUNTS.ADMIN.uid]);
+    });
+
+    it('keeps runs that fail to upload for the next attempt', async () => {
+      mockExecutionService.recordExecution.mockRejectedValueOnce(new Error('network'));
+
+      await expect(OfflineProcedureExecutionService.uploadQueuedExecutions(TEST_ACCOUNTS.USER.uid)).resolves.toBe(1);
+
+      await expect(OfflineProcedureExecutionService.getQueuedExecutions(TEST_ACCOUNTS.USER.uid))
+        .resolves.toHaveLength(1);
+    });
+
+    it('uploads once when triggered twice at the same time', async () => {
+      await Promise.all([
+        OfflineProcedureExecutionService.uploadQueuedExecutions(TEST_ACCOUNTS.USER.uid),
+        OfflineProcedureExecutionService.uploadQueuedExecutions(TEST_ACCOUNTS.USER.uid),
+      ]);
+
+      expect(mockExecutionService.recordExecution).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('startAutoUpload', () => {
+    it('uploads queued runs when the device comes back online', async () => {
+      let listener: ((isConnected: boolean) => void) | undefined;
+      const unsubscribe = jest.fn();
+      mockConnectivity.addListener.mockImplementation(callback => {
+        listener = callback;
+        return unsubscribe;
+      });
+      const uploadSpy = jest.spyOn(OfflineProcedureExecutionService, 'uploadQueuedExecutions').mockResolvedValue(0);
+
+      expect(OfflineProcedureExecutionService.startAutoUpload(TEST_ACCOUNTS.USER.uid)).toBe(unsubscribe);
+      expect(uploadSpy).toHaveBeenCalledTimes(1);
+
+      listener?.(false);
+      expect(uploadSpy).toHaveBeenCalledTimes(1);
+
+      listener?.(true);
+      expect(uploadSpy).toHaveBeenCalledTimes(2);
+      expect(uploadSpy).toHaveBeenLastCalledWith(TEST_ACCOUNTS.USER.uid);
+
+      uploadSpy.mockRestore();
+    });
+  });
+});
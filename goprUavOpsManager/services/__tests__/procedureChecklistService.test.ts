@@ -3,6 +3,8 @@ jest.mock('@/repositories/ProcedureChecklistRepository', () => ({
   ProcedureChecklistRepository: {
     getProcedureChecklists: jest.fn(),
     getProcedureChecklist: jest.fn(),
+    getProcedureChecklistsChangedSince: jest.fn(),
+    getProcedureTombstonesSince: jest.fn(),
     createProcedureChecklist: jest.fn(),
     updateProcedureChecklist: jest.fn(),
     softDeleteProcedureChecklist: jest.fn(),
@@ -10,6 +12,13 @@ jest.mock('@/repositories/ProcedureChecklistRepository', () => ({
   }
 }));
 
+jest.mock('@/repositories/ProcedureVersionRepository', () => ({
+  ProcedureVersionRepository: {
+    getVersions: jest.fn(),
+    getVersion: jest.fn(),
+  }
+}));
+
 jest.mock('../auditLogService', () => ({
   AuditLogService: {
     createAuditLog: jest.fn().mockResolvedValue('audit-log-id'),
@@ -41,12 +50,14 @@ import { ProcedureChecklistService } from '../procedureChecklistService';
 import { UserRole } from '@/types/UserRole';
 import { TEST_ACCOUNTS, mockProcedureChecklist } from './setup';
 import { ProcedureChecklistRepository } from '@/repositories/ProcedureChecklistRepository';
+import { ProcedureVersionRepository } from '@/repositories/ProcedureVersionRepository';
 import { AuditLogService } from '../auditLogService';
 import { UserService } from '../userService';
 import { ImageService } from '../imageService';
 
 // Get references to mocked functions
 const mockProcedureChecklistRepository = ProcedureChecklistRepository as jest.Mocked<typeof ProcedureChecklistRepository>;
+const mockProcedureVersionRepository = ProcedureVersionRepository as jest.Mocked<typeof ProcedureVersionRepository>;
 const mockAuditLogService = AuditLogService as jest.Mocked<typeof AuditLogService>;
 const mockUserService = UserService as jest.Mocked<typeof UserService>;
 const mockImageService = ImageService as jest.Mocked<typeof ImageService>;
@@ -400,7 +411,7 @@ describe('ProcedureChecklistService', () => {
       };
 
       mockProcedureChecklistRepository.getProcedureChecklist.mockResolvedValue(mockChecklist);
-      mockProcedureChecklistRepository.updateProcedureChecklist.mockResolvedValue(undefined);
+      mockProcedureChecklistRepository.updateProcedureChecklist.mockResolvedValue(2);
       mockUserService.getUserEmail.mockResolvedValue(TEST_ACCOUNTS.MANAGER.email);
       mockAuditLogService.createAuditLog.mockResolvedValue('audit-id');
       mockAuditLogService.createChangeDetails.mockReturnValue('Updated procedure/checklist');
@@ -420,7 +431,8 @@ describe('ProcedureChecklistService', () => {
           description: 'Updated Description',
           updatedBy: TEST_ACCOUNTS.MANAGER.uid
         }),
-        TEST_ACCOUNTS.MANAGER.uid
+        TEST_ACCOUNTS.MANAGER.uid,
+        undefined
       );
       expect(mockAuditLogService.createAuditLog).toHaveBeenCalledWith(
         expect.objectContaining({
@@ -724,6 +736,109 @@ describe('ProcedureChecklistService', () => {
     });
   });
 
+  describe('Procedure Versions', () => {
+    it('should save the change note with the first version', async () => {
+      await ProcedureChecklistService.createProcedureChecklist(
+        { title: 'Pre-flight', description: '', items: [], changeNote: '  Initial checklist  ' },
+        UserRole.MANAGER,
+        TEST_ACCOUNTS.MANAGER.uid
+      );
+
+      expect(mockProcedureChecklistRepository.createProcedureChecklist).toHaveBeenCalledWith(
+        expect.not.objectContaining({ changeNote: expect.anything() }),
+        TEST_ACCOUNTS.MANAGER.uid,
+        'Initial checklist'
+      );
+      expect(mockAuditLogService.createAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'create',
+        newValues: expect.objectContaining({ version: 1, changeNote: 'Initial checklist' }),
+      }));
+    });
+
+    it('should log the new version number and change note on update', async () => {
+      mockProcedureChecklistRepository.updateProcedureChecklist.mockResolvedValue(4);
+
+      await ProcedureChecklistService.updateProcedureChecklist(
+        'checklist-123',
+        { title: 'Pre-flight', description: '', items: [], changeNote: 'Added winter checks' },
+        UserRole.ADMIN,
+        TEST_ACCOUNTS.ADMIN.uid
+      );
+
+      expect(mockProcedureChecklistRepository.updateProcedureChecklist).toHaveBeenCalledWith(
+        'checklist-123',
+        expect.not.objectContaining({ changeNote: expect.anything() }),
+        TEST_ACCOUNTS.ADMIN.uid,
+        'Added winter checks'
+      );
+      expect(mockAuditLogService.createAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'edit',
+        newValues: expect.objectContaining({ version: 4, changeNote: 'Added winter checks' }),
+      }));
+    });
+
+    it('should get the versions of a procedure', async () => {
+      const versions = [
+        { id: 'checklist-123_v2', procedureId: 'checklist-123', version: 2, title: 'B', items: [], createdBy: 'x' },
+        { id: 'checklist-123_v1', procedureId: 'checklist-123', version: 1, title: 'A', items: [], createdBy: 'x' },
+      ];
+      mockProcedureVersionRepository.getVersions.mockResolvedValue(versions);
+      mockProcedureVersionRepository.getVersion.mockResolvedValue(versions[1]);
+
+      await expect(ProcedureChecklistService.getProcedureVersions('checklist-123')).resolves.toEqual(versions);
+      await expect(ProcedureChecklistService.getProcedureVersion('checklist-123', 1)).resolves.toEqual(versions[1]);
+      expect(mockProcedureVersionRepository.getVersion).toHaveBeenCalledWith('checklist-123', 1);
+    });
+  });
+
+  describe('Procedure Changes', () => {
+    const since = new Date('2024-01-01T00:00:00.000Z');
+    const tombstone = { procedureId: 'deleted-checklist', deletedAt: new Date('2024-01-02T00:00:00.000Z') };
+
+    beforeEach(() => {
+      mockProcedureChecklistRepository.getProcedureChecklistsChangedSince.mockResolvedValue([mockProcedureChecklist]);
+      mockProcedureChecklistRepository.getProcedureTombstonesSince.mockResolvedValue([tombstone]);
+    });
+
+    it('should return changed procedures and tombstones for users', async () => {
+      const changes = await ProcedureChecklistService.getProcedureChecklistChanges(since, UserRole.USER);
+
+      expect(changes).toEqual({ changed: [mockProcedureChecklist], deleted: [tombstone] });
+      expect(mockProcedureChecklistRepository.getProcedureChecklistsChangedSince).toHaveBeenCalledWith(since, UserRole.USER);
+      expect(mockProcedureChecklistRepository.getProcedureTombstonesSince).toHaveBeenCalledWith(since);
+    });
+
+    it('should not read tombstones for admins, who get deleted procedures flagged', async () => {
+      const changes = await ProcedureChecklistService.getProcedureChecklistChanges(since, UserRole.ADMIN);
+
+      expect(changes).toEqual({ changed: [mockProcedureChecklist], deleted: [] });
+      expect(mockProcedureChecklistRepository.getProcedureTombstonesSince).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Typed Control Items', () => {
+    it('should save only the value settings of the control value type', async () => {
+      const processedSubItems = await (ProcedureChecklistService as any).processSubItems([
+        {
+          id: 'sub-1',
+          type: 'control',
+          topic: 'Voltage',
+          control: 'Pack voltage',
+          valueType: 'numeric',
+          min: 44.4,
+          unit: 'V',
+          options: ['left over from an earlier choice type'],
+        },
+        { id: 'sub-2', type: 'simple', topic: 'Latch', valueType: 'boolean', expectedBoolean: true },
+      ]);
+
+      expect(processedSubItems).toEqual([
+        { id: 'sub-1', type: 'control', topic: 'Voltage', control: 'Pack voltage', valueType: 'numeric', min: 44.4, unit: 'V' },
+        { id: 'sub-2', type: 'simple', topic: 'Latch' },
+      ]);
+    });
+  });
+
   // Test image processing and validation
   describe('Image Management Tests', () => {
     it('should handle image deletion correctly', async () => {
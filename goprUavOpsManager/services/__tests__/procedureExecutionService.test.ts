@@ -0,0 +1,262 @@
+// Mock all external dependencies BEFORE imports
+jest.mock('@/repositories/ProcedureExecutionRepository', () => ({
+  ProcedureExecutionRepository: {
+    createExecution: jest.fn(),
+    getExecution: jest.fn(),
+    getFlightExecutions: jest.fn(),
+    getRecentDroneExecutions: jest.fn(),
+    setFlight: jest.fn(),
+  }
+}));
+
+jest.mock('@/repositories/FlightRepository', () => ({
+  FlightRepository: {
+    getRecentDroneFlights: jest.fn(),
+  }
+}));
+
+jest.mock('../auditLogService', () => ({
+  AuditLogService: {
+    createAuditLog: jest.fn().mockResolvedValue('audit-log-id'),
+  }
+}));
+
+jest.mock('../userService', () => ({
+  UserService: {
+    getUserEmail: jest.fn().mockResolvedValue('test@example.com'),
+  }
+}));
+
+import { ProcedureExecutionService } from '../procedureExecutionService';
+import { ProcedureExecutionRepository } from '@/repositories/ProcedureExecutionRepository';
+import { FlightRepository } from '@/repositories/FlightRepository';
+import { AuditLogService } from '../auditLogService';
+import { ProcedureChecklist } from '@/types/ProcedureChecklist';
+import { ProcedureExecution } from '@/types/ProcedureExecution';
+import { Flight } from '@/types/Flight';
+import { UserRole } from '@/types/UserRole';
+import { TEST_ACCOUNTS } from './setup';
+
+const mockExecutionRepository = ProcedureExecutionRepository as jest.Mocked<typeof ProcedureExecutionRepository>;
+const mockFlightRepository = FlightRepository as jest.Mocked<typeof FlightRepository>;
+const mockAuditLogService = AuditLogService as jest.Mocked<typeof AuditLogService>;
+
+describe('ProcedureExecutionService', () => {
+  const procedure: ProcedureChecklist = {
+    id: 'proc-1',
+    title: 'Pre-flight',
+    createdBy: TEST_ACCOUNTS.ADMIN.uid,
+    items: [],
+    version: 3,
+    updatedAt: new Date('2024-05-01T10:00:00.000Z'),
+  };
+
+  const flight = {
+    id: 'flight-1',
+    userId: TEST_ACCOUNTS.USER.uid,
+    droneId: 'drone-1',
+    endTime: '2024-06-01T12:00:00.000Z',
+  } as Flight;
+
+  const execution: ProcedureExecution = {
+    id: 'exec-1',
+    procedureId: 'proc-1',
+    procedureTitle: 'Pre-flight',
+    userId: TEST_ACCOUNTS.USER.uid,
+    userEmail: TEST_ACCOUNTS.USER.email,
+    droneId: 'drone-1',
+    startedAt: new Date('2024-06-01T09:30:00.000Z'),
+    finishedAt: new Date('2024-06-01T09:40:00.000Z'),
+    status: 'completed',
+    items: [],
+    subItems: [],
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockExecutionRepository.createExecution.mockResolvedValue('exec-1');
+    mockExecutionRepository.getExecution.mockResolvedValue(execution);
+  });
+
+  describe('recordExecution', () => {
+    it('stores the run with its links and logs the finish', async () => {
+      const startedAt = new Date(Date.now() - 60000);
+      const id = await ProcedureExecutionService.recordExecution(
+        procedure,
+        {
+          items: [{ itemId: 'item-1', number: 1, topic: 'Battery', completed: true }],
+          subItems: [],
+          status: 'completed',
+        },
+        startedAt,
+        TEST_ACCOUNTS.USER.uid,
+        TEST_ACCOUNTS.USER.email,
+        { droneId: 'drone-1', flightId: 'flight-1' }
+      );
+
+      expect(id).toBe('exec-1');
+      expect(mockExecutionRepository.createExecution).toHaveBeenCalledWith(expect.objectContaining({
+        procedureId: 'proc-1',
+        procedureVersion: 3,
+        procedureUpdatedAt: procedure.updatedAt,
+        userId: TEST_ACCOUNTS.USER.uid,
+        droneId: 'drone-1',
+        flightId: 'flight-1',
+        startedAt,
+        status: 'completed',
+      }), undefined);
+      expect(mockAuditLogService.createAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+        entityType: 'procedureChecklist',
+        entityId: 'proc-1',
+        action: 'execute_finish',
+        newValues: expect.objectContaining({ executionId: 'exec-1', completedItems: 1, totalItems: 1 }),
+      }));
+    });
+  });
+
+  describe('recordExecution retried after a failure', () => {
+    it('saves the run once when the upload failed after the run was created', async () => {
+      const saved = new Map<string, ProcedureExecution>();
+      mockExecutionRepository.getExecution.mockImplementation(async id => saved.get(id) || null);
+      mockExecutionRepository.createExecution.mockImplementation(async (data, documentId) => {
+        const id = documentId || `exec-${saved.size + 1}`;
+        saved.set(id, { ...data, id });
+        return id;
+      });
+      mockAuditLogService.createAuditLog.mockRejectedValueOnce(new Error('network'));
+
+      const record = () => ProcedureExecutionService.recordExecution(
+        procedure,
+        { items: [], subItems: [], status: 'completed' },
+        execution.startedAt,
+        TEST_ACCOUNTS.USER.uid,
+        TEST_ACCOUNTS.USER.email,
+        { droneId: 'drone-1' },
+        execution.finishedAt,
+        'local-run-1'
+      );
+
+      await expect(record()).rejects.toThrow('network');
+      await expect(record()).resolves.toBe('local-run-1');
+
+      expect([...saved.keys()]).toEqual(['local-run-1']);
+      expect(mockExecutionRepository.createExecution).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('recordExecution with out-of-range values', () => {
+    it('stores the override note and logs it with the number of out-of-range values', async () => {
+      await ProcedureExecutionService.recordExecution(
+        procedure,
+        {
+          items: [{ itemId: 'item-1', number: 1, topic: 'Battery', completed: true }],
+          subItems: [{
+            subItemId: 'sub-1',
+            itemId: 'item-1',
+            topic: 'Voltage',
+            completed: true,
+            control: 'Pack voltage',
+            value: '43.8',
+            valueType: 'numeric',
+            unit: 'V',
+            outOfRange: true,
+          }],
+          status: 'completed',
+          overrideNote: '  Short hover test only ',
+        },
+        new Date(Date.now() - 60000),
+        TEST_ACCOUNTS.USER.uid,
+        TEST_ACCOUNTS.USER.email
+      );
+
+      expect(mockExecutionRepository.createExecution).toHaveBeenCalledWith(expect.objectContaining({
+        overrideNote: 'Short hover test only',
+        subItems: [expect.objectContaining({ value: '43.8', outOfRange: true })],
+      }), undefined);
+      expect(mockAuditLogService.createAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+        newValues: expect.objectContaining({ outOfRangeValues: 1, overrideNote: 'Short hover test only' }),
+      }));
+    });
+  });
+
+  describe('getFlightExecutions', () => {
+    it('fetches every run of the flight for managers', async () => {
+      await ProcedureExecutionService.getFlightExecutions('flight-1', UserRole.MANAGER, TEST_ACCOUNTS.MANAGER.uid);
+
+      expect(mockExecutionRepository.getFlightExecutions).toHaveBeenCalledWith('flight-1', undefined);
+    });
+
+    it("fetches only the user's own runs, as users may not read the others", async () => {
+      await ProcedureExecutionService.getFlightExecutions('flight-1', UserRole.USER, TEST_ACCOUNTS.USER.uid);
+
+      expect(mockExecutionRepository.getFlightExecutions).toHaveBeenCalledWith('flight-1', TEST_ACCOUNTS.USER.uid);
+    });
+  });
+
+  describe('getLinkableFlights', () => {
+    it('offers no flights when they cannot be fetched', async () => {
+      mockFlightRepository.getRecentDroneFlights.mockRejectedValue(new Error('offline'));
+
+      await expect(ProcedureExecutionService.getLinkableFlights('drone-1', TEST_ACCOUNTS.USER.uid))
+        .resolves.toEqual([]);
+    });
+  });
+
+  describe('getLinkableExecutions', () => {
+    it("returns the pilot's unlinked runs from before the flight", async () => {
+      mockExecutionRepository.getRecentDroneExecutions.mockResolvedValue([
+        execution,
+        { ...execution, id: 'exec-2', flightId: 'flight-0' },
+        { ...execution, id: 'exec-3', startedAt: new Date('2024-06-01T13:00:00.000Z') },
+      ]);
+
+      const executions = await ProcedureExecutionService.getLinkableExecutions(flight);
+
+      expect(mockExecutionRepository.getRecentDroneExecutions).toHaveBeenCalledWith('drone-1', TEST_ACCOUNTS.USER.uid);
+      expect(executions.map(e => e.id)).toEqual(['exec-1']);
+    });
+  });
+
+  describe('linkToFlight', () => {
+    it('links the run for its owner and logs the change', async () => {
+      await ProcedureExecutionService.linkToFlight('exec-1', flight, UserRole.USER, TEST_ACCOUNTS.USER.uid);
+
+      expect(mockExecutionRepository.setFlight).toHaveBeenCalledWith('exec-1', 'flight-1', TEST_ACCOUNTS.USER.uid);
+      expect(mockAuditLogService.createAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+        entityType: 'procedureExecution',
+        entityId: 'exec-1',
+        action: 'edit',
+        newValues: { flightId: 'flight-1' },
+      }));
+    });
+
+    it('lets a manager link another pilot\'s run', async () => {
+      await ProcedureExecutionService.linkToFlight('exec-1', flight, UserRole.MANAGER, TEST_ACCOUNTS.MANAGER.uid);
+
+      expect(mockExecutionRepository.setFlight).toHaveBeenCalled();
+    });
+
+    it('rejects another user', async () => {
+      await expect(ProcedureExecutionService.linkToFlight('exec-1', flight, UserRole.USER, 'someone-else'))
+        .rejects.toThrow('Insufficient permissions to link this procedure execution');
+      expect(mockExecutionRepository.setFlight).not.toHaveBeenCalled();
+    });
+
+    it('rejects runs already linked or for a different drone', async () => {
+      mockExecutionRepository.getExecution.mockResolvedValueOnce({ ...execution, flightId: 'flight-0' });
+      await expect(ProcedureExecutionService.linkToFlight('exec-1', flight, UserRole.USER, TEST_ACCOUNTS.USER.uid))
+        .rejects.toThrow('Procedure execution is already linked to a flight');
+
+      mockExecutionRepository.getExecution.mockResolvedValueOnce({ ...execution, droneId: 'drone-2' });
+      await expect(ProcedureExecutionService.linkToFlight('exec-1', flight, UserRole.USER, TEST_ACCOUNTS.USER.uid))
+        .rejects.toThrow('Procedure execution was run for a different drone');
+    });
+
+    it('fails for a missing run', async () => {
+      mockExecutionRepository.getExecution.mockResolvedValueOnce(null);
+
+      await expect(ProcedureExecutionService.linkToFlight('missing', flight, UserRole.ADMIN, TEST_ACCOUNTS.ADMIN.uid))
+        .rejects.toThrow('Procedure execution not found');
+    });
+  });
+});
@@ -4,9 +4,12 @@ import {
   getDocumentData, 
   updateDocument, 
   setDocument,
+  deleteDocument,
   timestampNow 
 } from '@/utils/firebaseUtils';
 import { firestore } from '@/firebaseConfig';
+import { DEFAULT_FLIGHT_CURRENCY_RULES, FlightCurrencyRules } from '@/types/FlightCurrency';
+import { GeozoneDatasetInfo } from '@/types/Geozone';
 
 /**
  * AppSettings service for managing application-level settings in Firestore
@@ -16,6 +19,8 @@ export class AppSettingsService {
   private static readonly COLLECTION_NAME = 'appsettings';
   private static readonly CATEGORIES_LAST_UPDATE_DOC = 'categoriesLastUpdate';
   private static readonly PROCEDURES_LAST_UPDATE_DOC = 'proceduresLastUpdate';
+  private static readonly FLIGHT_CURRENCY_RULES_DOC = 'flightCurrencyRules';
+  private static readonly GEOZONE_DATASET_DOC = 'geozoneDataset';
 
   /**
    * Get the last update timestamp for categories
@@ -120,4 +125,84 @@ export class AppSettingsService {
       };
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Get the pilot recency rule used by flight currency checks.
+   * Falls back to the defaults for any value missing from the settings document.
+   */
+  static async getFlightCurrencyRules(): Promise<FlightCurrencyRules> {
+    try {
+      const docRef = getDocument(this.COLLECTION_NAME, this.FLIGHT_CURRENCY_RULES_DOC);
+      const docData = await getDocumentData(docRef);
+
+      if (!docData.exists || !docData.data) {
+        return { ...DEFAULT_FLIGHT_CURRENCY_RULES };
+      }
+
+      return {
+        recencyMinFlights: typeof docData.data.recencyMinFlights === 'number'
+          ? docData.data.recencyMinFlights
+          : DEFAULT_FLIGHT_CURRENCY_RULES.recencyMinFlights,
+        recencyPeriodDays: typeof docData.data.recencyPeriodDays === 'number'
+          ? docData.data.recencyPeriodDays
+          : DEFAULT_FLIGHT_CURRENCY_RULES.recencyPeriodDays,
+      };
+    } catch (error) {
+      console.error('Error getting flight currency rules:', error);
+      return { ...DEFAULT_FLIGHT_CURRENCY_RULES };
+    }
+  }
+
+  /**
+   * Get the imported geozone dataset, or null when only the bundled zones are used
+   */
+  static async getGeozoneDataset(): Promise<GeozoneDatasetInfo | null> {
+    try {
+      const docRef = getDocument(this.COLLECTION_NAME, this.GEOZONE_DATASET_DOC);
+      const docData = await getDocumentData(docRef);
+
+      if (!docData.exists || !docData.data?.url) {
+        return null;
+      }
+
+      return {
+        fileName: docData.data.fileName,
+        url: docData.data.url,
+        zoneCount: docData.data.zoneCount,
+        importedAt: docData.data.importedAt?.toDate ? docData.data.importedAt.toDate() : new Date(),
+        importedBy: docData.data.importedBy,
+      };
+    } catch (error) {
+      console.error('Error getting geozone dataset:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Point the app to a newly imported geozone dataset
+   */
+  static async setGeozoneDataset(dataset: Omit<GeozoneDatasetInfo, 'importedAt'>): Promise<void> {
+    try {
+      const docRef = getDocument(this.COLLECTION_NAME, this.GEOZONE_DATASET_DOC);
+      await setDocument(docRef, {
+        ...dataset,
+        importedAt: timestampNow(),
+      });
+    } catch (error) {
+      console.error('Error saving geozone dataset:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove the imported geozone dataset, falling back to the bundled zones
+   */
+  static async clearGeozoneDataset(): Promise<void> {
+    try {
+      await deleteDocument(getDocument(this.COLLECTION_NAME, this.GEOZONE_DATASET_DOC));
+    } catch (error) {
+      console.error('Error removing geozone dataset:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,167 @@
+import { Battery, BatteryFormData } from '@/types/Battery';
+import { UserRole } from '@/types/UserRole';
+import { BatteryRepository } from '@/repositories/BatteryRepository';
+import { AuditLogService } from './auditLogService';
+import { UserService } from './userService';
+
+export class BatteryService {
+  /**
+   * Check if user can register, edit and retire batteries (manager and admin)
+   */
+  static canManageBatteries(userRole: UserRole): boolean {
+    return userRole === 'manager' || userRole === 'admin';
+  }
+
+  /**
+   * Get all batteries, retired ones included
+   */
+  static async getBatteries(): Promise<Battery[]> {
+    return await BatteryRepository.getBatteries();
+  }
+
+  static async getBattery(id: string): Promise<Battery | null> {
+    return await BatteryRepository.getBattery(id);
+  }
+
+  private static validateBatteryData(data: BatteryFormData): BatteryFormData {
+    const label = data.label.trim();
+    if (!label) {
+      throw new Error('Battery label is required');
+    }
+
+    if (!Number.isInteger(data.cycleCount) || data.cycleCount < 0) {
+      throw new Error('Battery cycle count cannot be negative');
+    }
+
+    if (data.ratedCycles !== undefined && (!Number.isInteger(data.ratedCycles) || data.ratedCycles <= 0)) {
+      throw new Error('Rated cycles must be positive');
+    }
+
+    if (data.internalResistance !== undefined && (isNaN(data.internalResistance) || data.internalResistance <= 0)) {
+      throw new Error('Internal resistance must be positive');
+    }
+
+    if (data.purchaseDate && !/^\d{4}-\d{2}-\d{2}$/.test(data.purchaseDate)) {
+      throw new Error('Invalid purchase date');
+    }
+
+    return {
+      ...data,
+      label,
+      serialNumber: data.serialNumber?.trim() || undefined,
+      model: data.model?.trim() || undefined,
+      healthNotes: data.healthNotes?.trim() || undefined,
+      purchaseDate: data.purchaseDate || undefined,
+      compatibleDroneIds: Array.from(new Set(data.compatibleDroneIds)),
+      markedDegraded: data.markedDegraded || false,
+    };
+  }
+
+  /**
+   * Register a new battery pack
+   */
+  static async createBattery(data: BatteryFormData, userRole: UserRole, userId: string): Promise<string> {
+    if (!this.canManageBatteries(userRole)) {
+      throw new Error('Insufficient permissions to create battery');
+    }
+
+    try {
+      const batteryData = this.validateBatteryData(data);
+      const batteryId = await BatteryRepository.createBattery(batteryData, userId);
+
+      const userEmail = await UserService.getUserEmail(userId);
+      await AuditLogService.createAuditLog({
+        entityType: 'battery',
+        entityId: batteryId,
+        action: 'create',
+        userId,
+        userEmail,
+        details: AuditLogService.createChangeDetails('create', 'battery'),
+        newValues: { ...batteryData, isRetired: false }
+      });
+
+      return batteryId;
+    } catch (error) {
+      console.error('Error creating battery:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a battery pack. A changed cycle count is treated as a manual correction.
+   */
+  static async updateBattery(id: string, data: BatteryFormData, userRole: UserRole, userId: string): Promise<void> {
+    if (!this.canManageBatteries(userRole)) {
+      throw new Error('Insufficient permissions to update battery');
+    }
+
+    try {
+      const batteryData = this.validateBatteryData(data);
+
+      const currentBattery = await BatteryRepository.getBattery(id);
+      if (!currentBattery) {
+        throw new Error('Battery not found');
+      }
+
+      if (currentBattery.isRetired) {
+        throw new Error('Cannot update a retired battery');
+      }
+
+      await BatteryRepository.updateBattery(id, batteryData, userId);
+
+      const previousValues = { ...currentBattery };
+      const newValues = { ...currentBattery, ...batteryData };
+      const userEmail = await UserService.getUserEmail(userId);
+      await AuditLogService.createAuditLog({
+        entityType: 'battery',
+        entityId: id,
+        action: 'edit',
+        userId,
+        userEmail,
+        details: AuditLogService.createChangeDetails('edit', 'battery', { previous: previousValues, new: newValues }),
+        previousValues,
+        newValues
+      });
+    } catch (error) {
+      console.error('Error updating battery:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Take a worn out pack out of use. Flights it was used on keep referring to it.
+   */
+  static async retireBattery(id: string, userRole: UserRole, userId: string): Promise<void> {
+    if (!this.canManageBatteries(userRole)) {
+      throw new Error('Insufficient permissions to retire battery');
+    }
+
+    try {
+      const currentBattery = await BatteryRepository.getBattery(id);
+      if (!currentBattery) {
+        throw new Error('Battery not found');
+      }
+
+      if (currentBattery.isRetired) {
+        throw new Error('Battery is already retired');
+      }
+
+      await BatteryRepository.retireBattery(id, userId);
+
+      const userEmail = await UserService.getUserEmail(userId);
+      await AuditLogService.createAuditLog({
+        entityType: 'battery',
+        entityId: id,
+        action: 'status_change',
+        userId,
+        userEmail,
+        details: `Retired battery "${currentBattery.label}" after ${currentBattery.cycleCount} cycles`,
+        previousValues: { isRetired: false, cycleCount: currentBattery.cycleCount },
+        newValues: { isRetired: true }
+      });
+    } catch (error) {
+      console.error('Error retiring battery:', error);
+      throw error;
+    }
+  }
+}
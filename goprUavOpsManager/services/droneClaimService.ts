@@ -1,9 +1,11 @@
-import { DroneClaim, DroneClaimQuery, PaginatedDroneClaimResponse } from '@/types/DroneClaim';
+import { DroneClaim, DroneClaimData, DroneClaimQuery, PaginatedDroneClaimResponse } from '@/types/DroneClaim';
 import { UserRole } from '@/types/UserRole';
 import { DroneClaimRepository } from '@/repositories/DroneClaimRepository';
 import { DroneRepository } from '@/repositories/DroneRepository';
 import { AuditLogService } from './auditLogService';
 import { UserService } from './userService';
+import { DroneReservationService } from './droneReservationService';
+import { getDroneServiceStatus } from '@/utils/maintenanceUtils';
 
 export class DroneClaimService {
   
@@ -49,23 +51,31 @@ export class DroneClaimService {
         throw new Error('Cannot claim a deleted drone');
       }
 
-      // Check if drone is already claimed
-      const activeClaim = await DroneClaimRepository.getActiveClaim(droneId);
-      if (activeClaim) {
-        throw new Error('Drone is already claimed by another user');
+      // A drone past a service limit stays grounded until the maintenance is logged
+      if (getDroneServiceStatus(drone) === 'overdue') {
+        throw new Error('Drone is overdue for service');
+      }
+
+      // A booked window belongs to the member who reserved it
+      const reservation = await DroneReservationService.getReservationBlockingClaim(droneId, userId);
+      if (reservation) {
+        throw new Error('Drone is reserved by another user for this time');
       }
 
       // Get user email if not provided
       const email = userEmail || await UserService.getUserEmail(userId);
 
-      // Create claim
-      const claimId = await DroneClaimRepository.createClaim({
+      // Create claim; the drone lock makes concurrent claims fail instead of both succeeding
+      const claimId = await DroneClaimRepository.createClaimIfAvailable({
         droneId,
         userId,
         userEmail: email,
         startTime: new Date(),
         endTime: null,
       }, userId);
+      if (!claimId) {
+        throw new Error('Drone is already claimed by another user');
+      }
 
       // Create audit log
       await AuditLogService.createAuditLog({
@@ -119,10 +129,11 @@ export class DroneClaimService {
       // Get user email if not provided
       const email = userEmail || await UserService.getUserEmail(userId);
 
-      // Update claim with end time
-      await DroneClaimRepository.updateClaim(claimId, {
-        endTime: new Date()
-      }, userId);
+      // End the claim unless a concurrent release or override got there first
+      const released = await DroneClaimRepository.endClaim(claimId, userId);
+      if (!released) {
+        throw new Error('Claim is already released');
+      }
 
       // Create audit log
       const isAdminOverride = claim.userId !== userId;
@@ -163,18 +174,24 @@ export class DroneClaimService {
     }
 
     try {
-      // Get current active claim
-      const activeClaim = await DroneClaimRepository.getActiveClaim(droneId);
-      
       // Get admin email if not provided
       const adminEmail = adminUserEmail || await UserService.getUserEmail(adminUserId);
+      const newClaimData: DroneClaimData | null = newUserId ? {
+        droneId,
+        userId: newUserId,
+        userEmail: await UserService.getUserEmail(newUserId),
+        startTime: new Date(),
+        endTime: null,
+      } : null;
 
-      // End current claim if exists
-      if (activeClaim) {
-        await DroneClaimRepository.updateClaim(activeClaim.id, {
-          endTime: new Date()
-        }, adminUserId);
+      // End current claim and start the new one in a single transaction
+      const { endedClaim: activeClaim, newClaimId } = await DroneClaimRepository.overrideClaim(
+        droneId,
+        newClaimData,
+        adminUserId
+      );
 
+      if (activeClaim) {
         // Create audit log for ending claim
         await AuditLogService.createAuditLog({
           entityType: 'droneClaim',
@@ -190,18 +207,7 @@ export class DroneClaimService {
         });
       }
 
-      // Start new claim if specified
-      if (newUserId) {
-        const newUserEmail = await UserService.getUserEmail(newUserId);
-        
-        const newClaimId = await DroneClaimRepository.createClaim({
-          droneId,
-          userId: newUserId,
-          userEmail: newUserEmail,
-          startTime: new Date(),
-          endTime: null,
-        }, adminUserId);
-
+      if (newClaimData && newClaimId) {
         // Create audit log for new claim
         await AuditLogService.createAuditLog({
           entityType: 'droneClaim',
@@ -210,9 +216,9 @@ export class DroneClaimService {
           userId: adminUserId,
           userEmail: adminEmail,
           details: AuditLogService.createChangeDetails('admin override create', 'drone claim', {
-            new: { droneId, userId: newUserId, userEmail: newUserEmail }
+            new: { droneId, userId: newClaimData.userId, userEmail: newClaimData.userEmail }
           }),
-          newValues: { droneId, userId: newUserId, userEmail: newUserEmail, startTime: new Date() }
+          newValues: { droneId, userId: newClaimData.userId, userEmail: newClaimData.userEmail, startTime: new Date() }
         });
 
         return newClaimId;
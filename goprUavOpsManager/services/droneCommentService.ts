@@ -21,18 +21,25 @@ export class DroneCommentService {
 
   /**
    * Create a new drone comment
+   * idempotencyKey is used as the comment id, a comment already saved with it is not created again
    */
   static async createDroneComment(
     commentData: DroneCommentCreateData, 
     userRole: UserRole, 
     userId: string, 
-    userEmail?: string
+    userEmail?: string,
+    idempotencyKey?: string
   ): Promise<string> {
     // Check if user can create comments (all authenticated users can)
     if (!userId) {
       throw new Error('User authentication required to create comments');
     }
 
+    // Already posted by an earlier replay of the same outbox entry
+    if (idempotencyKey && await DroneCommentRepository.getDroneComment(idempotencyKey)) {
+      return idempotencyKey;
+    }
+
     try {
       // Get user display name for better UX
       await UserService.getUserDisplayName(userId);
@@ -57,7 +64,8 @@ export class DroneCommentService {
       const docId = await DroneCommentRepository.createDroneComment(
         processedCommentData, 
         userId, 
-        userEmail
+        userEmail,
+        idempotencyKey
       );
 
       // Add to audit log
@@ -0,0 +1,217 @@
+import {
+  DroneReservation,
+  DroneReservationConflicts,
+  DroneReservationData,
+  MAX_RESERVATION_HOURS,
+} from '@/types/DroneReservation';
+import { UserRole } from '@/types/UserRole';
+import { DroneReservationRepository } from '@/repositories/DroneReservationRepository';
+import { DroneClaimRepository } from '@/repositories/DroneClaimRepository';
+import { DroneRepository } from '@/repositories/DroneRepository';
+import { findOverlappingReservations, isReservationInProgress } from '@/utils/reservationUtils';
+import { AuditLogService } from './auditLogService';
+import { UserService } from './userService';
+
+export class DroneReservationService {
+
+  /**
+   * Check if user can book drones
+   */
+  private static canReserveDrones(userRole: UserRole): boolean {
+    return userRole === UserRole.USER || userRole === UserRole.MANAGER || userRole === UserRole.ADMIN;
+  }
+
+  /**
+   * Check if user can bump other members' reservations (admin and manager)
+   */
+  static canBumpReservations(userRole: UserRole): boolean {
+    return userRole === UserRole.ADMIN || userRole === UserRole.MANAGER;
+  }
+
+  /**
+   * Find what overlaps a requested window: other reservations and a claim held by someone else
+   */
+  static async getConflicts(
+    droneId: string,
+    startTime: Date,
+    endTime: Date,
+    userId: string
+  ): Promise<DroneReservationConflicts> {
+    const [reservations, activeClaim] = await Promise.all([
+      DroneReservationRepository.getReservationsInRange(startTime, endTime, droneId),
+      DroneClaimRepository.getActiveClaim(droneId),
+    ]);
+
+    return {
+      reservations: findOverlappingReservations(reservations, startTime, endTime),
+      activeClaim: activeClaim && activeClaim.userId !== userId ? activeClaim : null,
+    };
+  }
+
+  /**
+   * Book a shareable drone for a future window
+   */
+  static async createReservation(
+    data: DroneReservationData,
+    userId: string,
+    userRole: UserRole,
+    userEmail?: string
+  ): Promise<string> {
+    if (!this.canReserveDrones(userRole)) {
+      throw new Error('Insufficient permissions to reserve drone');
+    }
+
+    try {
+      if (data.endTime <= data.startTime) {
+        throw new Error('Reservation must end after it starts');
+      }
+
+      if (data.startTime.getTime() <= Date.now()) {
+        throw new Error('Reservation must start in the future');
+      }
+
+      if (data.endTime.getTime() - data.startTime.getTime() > MAX_RESERVATION_HOURS * 60 * 60 * 1000) {
+        throw new Error(`Reservation cannot be longer than ${MAX_RESERVATION_HOURS} hours`);
+      }
+
+      const drone = await DroneRepository.getDrone(data.droneId);
+      if (!drone) {
+        throw new Error('Drone not found');
+      }
+
+      if (!drone.shareable) {
+        throw new Error('This drone is not shareable');
+      }
+
+      if (drone.isDeleted) {
+        throw new Error('Cannot reserve a deleted drone');
+      }
+
+      const conflicts = await this.getConflicts(data.droneId, data.startTime, data.endTime, userId);
+      if (conflicts.reservations.length > 0) {
+        throw new Error('Drone is already reserved for this time');
+      }
+
+      const email = userEmail || await UserService.getUserEmail(userId);
+      const purpose = data.purpose?.trim() || undefined;
+
+      const reservationId = await DroneReservationRepository.createReservation({
+        droneId: data.droneId,
+        userId,
+        userEmail: email,
+        startTime: data.startTime,
+        endTime: data.endTime,
+        purpose,
+        status: 'scheduled',
+      }, userId);
+
+      await AuditLogService.createAuditLog({
+        entityType: 'droneReservation',
+        entityId: reservationId,
+        action: 'create',
+        userId,
+        userEmail: email,
+        details: AuditLogService.createChangeDetails('create', 'drone reservation', {
+          new: { droneId: data.droneId, startTime: data.startTime, endTime: data.endTime }
+        }),
+        newValues: { droneId: data.droneId, startTime: data.startTime, endTime: data.endTime, purpose }
+      });
+
+      return reservationId;
+    } catch (error) {
+      console.error('Error reserving drone:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel a scheduled reservation. Managers and admins can bump other members' reservations.
+   */
+  static async cancelReservation(
+    reservationId: string,
+    userId: string,
+    userRole: UserRole,
+    userEmail?: string,
+    reason?: string
+  ): Promise<void> {
+    if (!this.canReserveDrones(userRole)) {
+      throw new Error('Insufficient permissions to cancel reservation');
+    }
+
+    try {
+      const reservation = await DroneReservationRepository.getReservation(reservationId);
+      if (!reservation) {
+        throw new Error('Reservation not found');
+      }
+
+      if (reservation.status !== 'scheduled') {
+        throw new Error('Only scheduled reservations can be cancelled');
+      }
+
+      const isBump = reservation.userId !== userId;
+      if (isBump && !this.canBumpReservations(userRole)) {
+        throw new Error('You can only cancel your own reservations');
+      }
+
+      const email = userEmail || await UserService.getUserEmail(userId);
+      const cancelReason = isBump ? reason?.trim() || undefined : undefined;
+      const status = isBump ? 'bumped' : 'cancelled';
+
+      await DroneReservationRepository.updateReservation(reservationId, { status, cancelReason }, userId);
+
+      await AuditLogService.createAuditLog({
+        entityType: 'droneReservation',
+        entityId: reservationId,
+        action: isBump ? 'admin_override' : 'status_change',
+        userId,
+        userEmail: email,
+        details: AuditLogService.createChangeDetails(isBump ? 'admin override' : 'cancel', 'drone reservation', {
+          previous: { status: reservation.status, userId: reservation.userId },
+          new: { status }
+        }),
+        previousValues: { status: reservation.status },
+        newValues: { status, cancelReason }
+      });
+    } catch (error) {
+      console.error('Error cancelling reservation:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Reservations overlapping a time range for one drone
+   */
+  static async getDroneReservations(droneId: string, from: Date, to: Date): Promise<DroneReservation[]> {
+    return DroneReservationRepository.getReservationsInRange(from, to, droneId);
+  }
+
+  /**
+   * Reservations overlapping a time range across the fleet
+   */
+  static async getFleetReservations(from: Date, to: Date): Promise<DroneReservation[]> {
+    return DroneReservationRepository.getReservationsInRange(from, to);
+  }
+
+  /**
+   * Scheduled reservation of another member whose window is running now. The scheduled
+   * Cloud Function turns it into a claim within minutes, so nobody else may claim the drone meanwhile.
+   */
+  static async getReservationBlockingClaim(droneId: string, userId: string): Promise<DroneReservation | null> {
+    const now = new Date();
+    const reservations = await DroneReservationRepository.getReservationsInRange(now, new Date(now.getTime() + 1), droneId);
+
+    return reservations.find(reservation =>
+      reservation.status === 'scheduled' &&
+      reservation.userId !== userId &&
+      isReservationInProgress(reservation, now)
+    ) ?? null;
+  }
+
+  /**
+   * Check if user can cancel or bump a specific reservation
+   */
+  static canCancelReservation(reservation: DroneReservation, userId: string, userRole: UserRole): boolean {
+    return reservation.status === 'scheduled' &&
+      (reservation.userId === userId || this.canBumpReservations(userRole));
+  }
+}
@@ -34,7 +34,7 @@ export class DroneService {
   }
 
   // Create a new drone (manager and admin only)
-  static async createDrone(droneData: Omit<Drone, 'id' | 'createdAt' | 'updatedAt' | 'createdBy' | 'updatedBy'>, userRole: UserRole, userId: string): Promise<string> {
+  static async createDrone(droneData: Omit<Drone, 'id' | 'totalFlightTime' | 'createdAt' | 'updatedAt' | 'createdBy' | 'updatedBy'>, userRole: UserRole, userId: string): Promise<string> {
     if (!this.canModifyDrones(userRole)) {
       throw new Error('Insufficient permissions to create drone');
     }
@@ -60,8 +60,11 @@ export class DroneService {
       }
 
       // Create the drone data with processed images and equipment
+      // Flight totals start at zero and are maintained by FlightService
       const processedDroneData = {
         ...droneData,
+        totalFlightTime: 0,
+        totalFlightCount: 0,
         images: processedImages,
         equipmentStorages: processedEquipment,
       };
@@ -107,6 +110,10 @@ export class DroneService {
 
       // Process images if provided
       let processedData = { ...droneData };
+
+      // Flight totals are derived from flights and must not be overwritten by drone edits
+      delete processedData.totalFlightTime;
+      delete processedData.totalFlightCount;
       if (droneData.images !== undefined) {
         processedData.images = await ImageService.processImages(
           droneData.images,
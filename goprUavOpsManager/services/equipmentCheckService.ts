@@ -0,0 +1,85 @@
+import { EquipmentStorage } from '@/types/Drone';
+import { EquipmentCheck, EquipmentCheckLinks } from '@/types/EquipmentCheck';
+import { Flight } from '@/types/Flight';
+import { EquipmentCheckRepository } from '@/repositories/EquipmentCheckRepository';
+import { FlightRepository } from '@/repositories/FlightRepository';
+import { AuditLogService } from './auditLogService';
+import { UserService } from './userService';
+import { buildEquipmentCheckItems } from '@/utils/equipmentCheckUtils';
+
+export class EquipmentCheckService {
+  /**
+   * Save the result of an equipment checklist run; unticked items are recorded as missing
+   */
+  static async saveCheck(
+    droneId: string,
+    storages: EquipmentStorage[],
+    checkedItems: Record<string, boolean>,
+    userId: string,
+    userEmail?: string,
+    links: EquipmentCheckLinks = {}
+  ): Promise<string> {
+    const items = buildEquipmentCheckItems(storages, checkedItems);
+    if (items.length === 0) {
+      throw new Error('This drone has no equipment to check');
+    }
+
+    const email = userEmail || await UserService.getUserEmail(userId);
+    const missingCount = items.filter(item => !item.present).length;
+
+    const checkId = await EquipmentCheckRepository.createCheck({
+      droneId,
+      userId,
+      userEmail: email,
+      items,
+      missingCount,
+      claimId: links.claimId,
+      flightId: links.flightId,
+    });
+
+    await AuditLogService.createAuditLog({
+      entityType: 'equipmentCheck',
+      entityId: checkId,
+      action: 'create',
+      userId,
+      userEmail: email,
+      details: AuditLogService.createChangeDetails('create', 'equipment check'),
+      newValues: {
+        droneId,
+        itemCount: items.length,
+        missingCount,
+        claimId: links.claimId,
+        flightId: links.flightId,
+      }
+    });
+
+    return checkId;
+  }
+
+  /**
+   * Get the check history of a drone, newest first
+   */
+  static async getDroneChecks(droneId: string, limit: number = 50): Promise<EquipmentCheck[]> {
+    return await EquipmentCheckRepository.getDroneChecks(droneId, limit);
+  }
+
+  /**
+   * Get the most recent check of a drone
+   */
+  static async getLatestCheck(droneId: string): Promise<EquipmentCheck | null> {
+    const checks = await EquipmentCheckRepository.getDroneChecks(droneId, 1);
+    return checks[0] || null;
+  }
+
+  /**
+   * Flights of the user with this drone a check can be linked to (a failure offers none)
+   */
+  static async getLinkableFlights(droneId: string, userId: string): Promise<Flight[]> {
+    try {
+      return await FlightRepository.getRecentDroneFlights(droneId, userId);
+    } catch (error) {
+      console.error('Error fetching flights for equipment check:', error);
+      return [];
+    }
+  }
+}
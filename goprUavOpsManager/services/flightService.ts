@@ -1,8 +1,19 @@
 import { Flight, FlightQuery, PaginatedFlightResponse } from '@/types/Flight';
+import { FlightCurrencyCheckInput, FlightCurrencyCheckResult } from '@/types/FlightCurrency';
 import { AuditLogService } from './auditLogService';
 import { UserService } from './userService';
+import { AppSettingsService } from './appSettingsService';
 import {UserRole} from "@/types/UserRole";
 import {FlightRepository} from "@/repositories/FlightRepository";
+import {UserRepository} from "@/repositories/UserRepository";
+import { evaluatePilotCurrency, getRecencyPeriodStart } from '@/utils/flightCurrencyUtils';
+
+
+export interface CreateFlightOptions {
+  userRole?: UserRole;
+  overrideCurrencyErrors?: boolean; // admin only: save despite blocking currency errors
+  idempotencyKey?: string; // used as the flight id, a flight already saved with it is not created again
+}
 
 export class FlightService {
   // Get flights based on user role
@@ -10,6 +21,11 @@ export class FlightService {
     return FlightRepository.getFlights(userRole, currentUserId);
   }
 
+  // Get the pilot's own most recent flights, kept on the device for offline use
+  static async getRecentFlights(currentUserId: string, maxResults?: number): Promise<Flight[]> {
+    return FlightRepository.getRecentUserFlights(currentUserId, maxResults);
+  }
+
   // Get a single flight by ID with access control
   static async getFlight(id: string, userRole: UserRole, currentUserId: string): Promise<Flight | null> {
     const flight = await FlightRepository.getFlight(id);
@@ -18,6 +34,11 @@ export class FlightService {
       return null;
     }
 
+    // Non-admin users cannot see deleted flights
+    if (flight.isDeleted && !this.canViewDeletedFlights(userRole)) {
+      return null;
+    }
+
     // Check access control - owner or admin/manager
     if (userRole !== 'admin' && userRole !== 'manager' && flight.userId !== currentUserId) {
       throw new Error('Insufficient permissions to access this flight');
@@ -26,19 +47,50 @@ export class FlightService {
     return flight;
   }
 
+  // Check the pilot's qualifications, licence/insurance validity and recency for a flight
+  static async checkPilotCurrency(pilotId: string, input: FlightCurrencyCheckInput): Promise<FlightCurrencyCheckResult> {
+    const [pilot, rules] = await Promise.all([
+      UserRepository.getUser(pilotId),
+      AppSettingsService.getFlightCurrencyRules(),
+    ]);
+
+    const recentFlightCount = rules.recencyMinFlights > 0
+      ? await FlightRepository.countPilotFlights(pilotId, getRecencyPeriodStart(input.flightDate, rules), input.flightDate)
+      : 0;
+
+    return evaluatePilotCurrency(pilot, input, recentFlightCount, rules);
+  }
+
   // Create a new flight
   static async createFlight(
     flightData: Omit<Flight, 'id' | 'createdAt' | 'updatedAt' | 'createdBy' | 'updatedBy'>, 
     currentUserId: string, 
-    currentUserEmail?: string
+    currentUserEmail?: string,
+    options: CreateFlightOptions = {}
   ): Promise<string> {
+    // A replayed offline flight may already have been saved before the device lost signal again
+    if (options.idempotencyKey && await FlightRepository.getFlight(options.idempotencyKey)) {
+      return options.idempotencyKey;
+    }
+
+    // Blocking currency errors can only be overridden by admins
+    const currency = await this.checkPilotCurrency(currentUserId, {
+      flightCategory: flightData.flightCategory,
+      flightDate: flightData.date || new Date().toISOString().split('T')[0],
+    });
+    const isCurrencyOverride = currency.errors.length > 0;
+
+    if (isCurrencyOverride && !(options.overrideCurrencyErrors && options.userRole === 'admin')) {
+      throw new Error('Pilot currency requirements not met');
+    }
+
     try {
       // Create flight in repository
       const docId = await FlightRepository.createFlight({
         ...flightData,
         userId: currentUserId,
         userEmail: currentUserEmail || '',
-      }, currentUserId);
+      }, currentUserId, options.idempotencyKey);
 
       // Create audit log entry
       const userEmail = await UserService.getUserEmail(currentUserId);
@@ -52,6 +104,18 @@ export class FlightService {
         newValues: { ...flightData, userId: currentUserId, userEmail: currentUserEmail || '' }
       });
 
+      if (isCurrencyOverride) {
+        await AuditLogService.createAuditLog({
+          entityType: 'flight',
+          entityId: docId,
+          action: 'admin_override',
+          userId: currentUserId,
+          userEmail,
+          details: `Admin override of pilot currency checks: ${currency.errors.map(issue => issue.code).join(', ')}`,
+          newValues: { currencyErrors: currency.errors }
+        });
+      }
+
       return docId;
     } catch (error) {
       console.error('Error creating flight:', error);
@@ -78,6 +142,11 @@ export class FlightService {
         throw new Error('Insufficient permissions to update this flight');
       }
 
+      // Check if the flight is soft-deleted and user is not admin
+      if (currentFlight.isDeleted && !this.canViewDeletedFlights(userRole)) {
+        throw new Error('Cannot update deleted flight');
+      }
+
       // Store previous values for audit log
       const previousValues = { ...currentFlight };
       const newValues = { ...currentFlight, ...patch };
@@ -103,6 +172,90 @@ export class FlightService {
     }
   }
 
+  // Soft delete a flight (manager and admin only)
+  static async softDeleteFlight(id: string, userRole: UserRole, currentUserId: string): Promise<void> {
+    if (!this.canDeleteFlights(userRole)) {
+      throw new Error('Insufficient permissions to delete flight');
+    }
+
+    try {
+      // Get current flight data for audit logging
+      const currentFlight = await FlightRepository.getFlight(id);
+      if (!currentFlight) {
+        throw new Error('Flight not found');
+      }
+
+      if (currentFlight.isDeleted) {
+        throw new Error('Flight is already deleted');
+      }
+
+      // Soft delete flight in repository
+      await FlightRepository.softDeleteFlight(id, currentUserId);
+
+      // Create audit log entry
+      const userEmail = await UserService.getUserEmail(currentUserId);
+      await AuditLogService.createAuditLog({
+        entityType: 'flight',
+        entityId: id,
+        action: 'soft_delete',
+        userId: currentUserId,
+        userEmail,
+        details: AuditLogService.createChangeDetails('soft_delete', 'flight'),
+        previousValues: currentFlight
+      });
+    } catch (error) {
+      console.error('Error deleting flight:', error);
+      throw new Error('Failed to delete flight');
+    }
+  }
+
+  // Restore a soft-deleted flight (admin only)
+  static async restoreFlight(id: string, userRole: UserRole, currentUserId: string): Promise<void> {
+    if (!this.canViewDeletedFlights(userRole)) {
+      throw new Error('Insufficient permissions to restore flight');
+    }
+
+    try {
+      // Get current flight data for audit logging
+      const currentFlight = await FlightRepository.getFlight(id);
+      if (!currentFlight) {
+        throw new Error('Flight not found');
+      }
+
+      if (!currentFlight.isDeleted) {
+        throw new Error('Flight is not deleted');
+      }
+
+      // Restore flight in repository
+      await FlightRepository.restoreFlight(id, currentUserId);
+
+      // Create audit log entry
+      const userEmail = await UserService.getUserEmail(currentUserId);
+      await AuditLogService.createAuditLog({
+        entityType: 'flight',
+        entityId: id,
+        action: 'restore',
+        userId: currentUserId,
+        userEmail,
+        details: AuditLogService.createChangeDetails('restore', 'flight'),
+        previousValues: currentFlight
+      });
+    } catch (error) {
+      console.error('Error restoring flight:', error);
+      throw new Error('Failed to restore flight');
+    }
+  }
+
+  // Check if user can soft delete flights
+  static canDeleteFlights(userRole: UserRole): boolean {
+    return userRole === 'manager' || userRole === 'admin';
+  }
+
+  // Check if user can view and restore deleted flights
+  static canViewDeletedFlights(userRole: UserRole): boolean {
+    return userRole === 'admin';
+  }
+
   // Get paginated flights with filtering
   static async getPaginatedFlights(
     userRole: UserRole, 
@@ -0,0 +1,39 @@
+import { FlightStatistics, FlightStatisticsQuery } from '@/types/Flight';
+import { UserRole } from '@/types/UserRole';
+import { FlightRepository } from '@/repositories/FlightRepository';
+import { DroneService } from './droneService';
+import { aggregateFlightStatistics } from '@/utils/flightStatisticsUtils';
+
+export class FlightStatisticsService {
+  // Get flight statistics for a date range.
+  // Follows the flights list access rules: admins and managers see all pilots, users only their own flights.
+  static async getFlightStatistics(
+    userRole: UserRole,
+    currentUserId: string,
+    queryParams: FlightStatisticsQuery = {}
+  ): Promise<FlightStatistics> {
+    const { startDate, endDate } = queryParams;
+
+    if (startDate && endDate && startDate > endDate) {
+      throw new Error('Start date must be before end date');
+    }
+
+    const flights = await FlightRepository.getAllFilteredFlights({ startDate, endDate }, userRole, currentUserId);
+    const droneNames = new Map<string, string>();
+
+    try {
+      const drones = await DroneService.getDrones(userRole);
+      drones.forEach(drone => droneNames.set(drone.id, DroneService.formatDroneName(drone)));
+    } catch (error) {
+      // Fall back to the drone name snapshot stored on each flight
+      console.warn('Could not load drone names for statistics:', error);
+    }
+
+    return aggregateFlightStatistics(flights, droneNames, { startDate, endDate });
+  }
+
+  // Check if user can see statistics of other pilots
+  static canViewAllPilots(userRole: UserRole): boolean {
+    return userRole === 'admin' || userRole === 'manager';
+  }
+}
@@ -0,0 +1,89 @@
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import { Flight, FlightTrackImport, FlightTrackPoint } from '@/types/Flight';
+import { UserRole } from '@/types/UserRole';
+import { FlightService } from '@/services/flightService';
+import { parseFlightTrack } from '@/utils/flightTrackUtils';
+import { getStorageRef, uploadFile, getDownloadURL } from '@/utils/firebaseUtils';
+
+export class FlightTrackService {
+  private static readonly STORAGE_PATH = 'flights/tracks';
+
+  // Read a picked track file and parse it for the flight form
+  static async importTrackFile(uri: string, fileName: string): Promise<FlightTrackImport> {
+    const content = Platform.OS === 'web'
+      ? await (await fetch(uri)).text()
+      : await FileSystem.readAsStringAsync(uri);
+
+    return {
+      fileName,
+      content,
+      track: parseFlightTrack(fileName, content),
+    };
+  }
+
+  // Upload the raw track file to Storage, returning its download URL
+  static async uploadTrack(content: string, fileName: string, flightId: string): Promise<string> {
+    try {
+      const safeFileName = fileName.replace(/[^a-zA-Z0-9._-]/g, '_');
+      const trackRef = getStorageRef(`${this.STORAGE_PATH}/${flightId}/${Date.now()}_${safeFileName}`);
+
+      if (Platform.OS === 'web') {
+        await uploadFile(trackRef, new Blob([content], { type: 'text/plain' }));
+      } else {
+        // React Native platform: upload from a temporary file
+        const tempFilePath = `${FileSystem.cacheDirectory}temp_track_${Date.now()}_${safeFileName}`;
+        await FileSystem.writeAsStringAsync(tempFilePath, content);
+        try {
+          await uploadFile(trackRef, tempFilePath);
+        } finally {
+          await FileSystem.deleteAsync(tempFilePath, { idempotent: true });
+        }
+      }
+
+      return await getDownloadURL(trackRef);
+    } catch (error) {
+      console.error('Error uploading flight track:', error);
+      throw new Error('Failed to upload flight track');
+    }
+  }
+
+  // Upload an imported track and store its derived values on the flight
+  static async attachTrack(
+    flightId: string,
+    trackImport: FlightTrackImport,
+    userRole: UserRole,
+    currentUserId: string
+  ): Promise<void> {
+    const trackUrl = await this.uploadTrack(trackImport.content, trackImport.fileName, flightId);
+    const { summary } = trackImport.track;
+
+    const patch: Partial<Flight> = {
+      trackUrl,
+      trackFileName: trackImport.fileName,
+      trackFormat: trackImport.track.format,
+      distanceFlown: summary.distance,
+    };
+    if (summary.maxAltitude !== undefined) {
+      patch.maxAltitude = summary.maxAltitude;
+    }
+
+    await FlightService.updateFlight(flightId, patch, userRole, currentUserId);
+  }
+
+  // Download and parse the stored track of a flight for the map
+  static async getTrackPoints(flight: Flight): Promise<FlightTrackPoint[]> {
+    if (!flight.trackUrl) {
+      return [];
+    }
+
+    try {
+      const response = await fetch(flight.trackUrl);
+      const content = await response.text();
+      return parseFlightTrack(flight.trackFileName || `track.${flight.trackFormat === 'dji-csv' ? 'csv' : flight.trackFormat}`, content).points;
+    } catch (error) {
+      console.error('Error loading flight track:', error);
+      throw new Error('Failed to load flight track');
+    }
+  }
+}
@@ -0,0 +1,191 @@
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Geozone, GeozoneDatasetInfo, GeozoneMatch } from '@/types/Geozone';
+import { UserRole } from '@/types/UserRole';
+import { AppSettingsService } from '@/services/appSettingsService';
+import { AuditLogService } from '@/services/auditLogService';
+import { UserService } from '@/services/userService';
+import { CoordinateUtils } from '@/utils/coordinateUtils';
+import { findMatchingGeozones, parseGeozoneData, parseGeozoneDataset } from '@/utils/geozoneUtils';
+import { getStorageRef, uploadFile, getDownloadURL } from '@/utils/firebaseUtils';
+import bundledGeozones from '@/assets/geozones/geozones.json';
+
+// Default search radius around a flight position, roughly the VLOS operating area
+export const FLIGHT_GEOZONE_RADIUS_METERS = 500;
+
+// Default search radius around a mission search area
+export const MISSION_GEOZONE_RADIUS_METERS = 2000;
+
+export class GeozoneService {
+  private static readonly STORAGE_PATH = 'geozones';
+  private static readonly DATASET_STORAGE_KEY = 'geozone_dataset_content'; // last imported dataset loaded
+  private static cachedZones: Geozone[] | null = null;
+  private static loadingZones: Promise<Geozone[]> | null = null;
+
+  // Check if user can import or remove geozone datasets
+  static canManageGeozones(userRole: UserRole): boolean {
+    return userRole === UserRole.ADMIN || userRole === UserRole.MANAGER;
+  }
+
+  // Zones shipped with the app, used when no dataset was imported or it cannot be loaded
+  static getBundledGeozones(): Geozone[] {
+    return parseGeozoneData(bundledGeozones, 'bundled');
+  }
+
+  // Bundled zones plus the imported dataset, loaded once per session
+  static async getGeozones(): Promise<Geozone[]> {
+    if (this.cachedZones) {
+      return this.cachedZones;
+    }
+
+    if (!this.loadingZones) {
+      this.loadingZones = this.loadGeozones().finally(() => {
+        this.loadingZones = null;
+      });
+    }
+    return this.loadingZones;
+  }
+
+  private static async loadGeozones(): Promise<Geozone[]> {
+    const zones = this.getBundledGeozones();
+
+    try {
+      const dataset = await AppSettingsService.getGeozoneDataset();
+      if (dataset) {
+        const response = await fetch(dataset.url);
+        if (!response.ok) {
+          throw new Error(`Geozone dataset download failed with status ${response.status}`);
+        }
+        const content = await response.text();
+        zones.push(...parseGeozoneDataset(content, 'imported'));
+        await this.storeDatasetContent(content);
+      } else {
+        await this.storeDatasetContent(null);
+      }
+    } catch (error) {
+      // Use the dataset last loaded on this device so the check still works offline,
+      // and leave the zones uncached so the next check tries to load it again
+      console.error('Error loading imported geozones, using the stored copy:', error);
+      zones.push(...await this.getStoredDatasetZones());
+      return zones;
+    }
+
+    this.cachedZones = zones;
+    return zones;
+  }
+
+  private static async storeDatasetContent(content: string | null): Promise<void> {
+    try {
+      if (content) {
+        await AsyncStorage.setItem(this.DATASET_STORAGE_KEY, content);
+      } else {
+        await AsyncStorage.removeItem(this.DATASET_STORAGE_KEY);
+      }
+    } catch (error) {
+      console.error('Error storing geozone dataset:', error);
+    }
+  }
+
+  private static async getStoredDatasetZones(): Promise<Geozone[]> {
+    try {
+      const content = await AsyncStorage.getItem(this.DATASET_STORAGE_KEY);
+      return content ? parseGeozoneDataset(content, 'imported') : [];
+    } catch (error) {
+      console.error('Error reading stored geozone dataset:', error);
+      return [];
+    }
+  }
+
+  // Forget loaded zones so the next check reloads them
+  static clearCache(): void {
+    this.cachedZones = null;
+  }
+
+  // Find zones at or near a coordinates string in any supported notation
+  static async checkLocation(coordinates: string, radiusMeters: number = FLIGHT_GEOZONE_RADIUS_METERS): Promise<GeozoneMatch[]> {
+    const parsed = CoordinateUtils.parse(coordinates);
+    if (!parsed) {
+      return [];
+    }
+
+    return findMatchingGeozones(await this.getGeozones(), parsed, radiusMeters);
+  }
+
+  static async getDatasetInfo(): Promise<GeozoneDatasetInfo | null> {
+    return AppSettingsService.getGeozoneDataset();
+  }
+
+  // Validate and upload a GeoJSON or ED-269 file and make it the active dataset
+  static async importDataset(
+    uri: string,
+    fileName: string,
+    userRole: UserRole,
+    currentUserId: string
+  ): Promise<number> {
+    if (!this.canManageGeozones(userRole)) {
+      throw new Error('Insufficient permissions to import geozones');
+    }
+
+    const content = Platform.OS === 'web'
+      ? await (await fetch(uri)).text()
+      : await FileSystem.readAsStringAsync(uri);
+    const zones = parseGeozoneDataset(content);
+
+    const safeFileName = fileName.replace(/[^a-zA-Z0-9._-]/g, '_');
+    const storageRef = getStorageRef(`${this.STORAGE_PATH}/${Date.now()}_${safeFileName}`);
+    try {
+      if (Platform.OS === 'web') {
+        await uploadFile(storageRef, new Blob([content], { type: 'application/json' }));
+      } else {
+        await uploadFile(storageRef, uri);
+      }
+    } catch (error) {
+      console.error('Error uploading geozone dataset:', error);
+      throw new Error('Failed to upload geozone dataset');
+    }
+
+    await AppSettingsService.setGeozoneDataset({
+      fileName,
+      url: await getDownloadURL(storageRef),
+      zoneCount: zones.length,
+      importedBy: currentUserId,
+    });
+    this.clearCache();
+
+    const userEmail = await UserService.getUserEmail(currentUserId);
+    await AuditLogService.createAuditLog({
+      entityType: 'geozone',
+      entityId: 'geozoneDataset',
+      action: 'create',
+      userId: currentUserId,
+      userEmail,
+      details: `Imported geozone dataset "${fileName}" with ${zones.length} zones`,
+      newValues: { fileName, zoneCount: zones.length },
+    });
+
+    return zones.length;
+  }
+
+  // Remove the imported dataset, leaving only the bundled zones
+  static async removeDataset(userRole: UserRole, currentUserId: string): Promise<void> {
+    if (!this.canManageGeozones(userRole)) {
+      throw new Error('Insufficient permissions to remove geozones');
+    }
+
+    const dataset = await AppSettingsService.getGeozoneDataset();
+    await AppSettingsService.clearGeozoneDataset();
+    this.clearCache();
+
+    const userEmail = await UserService.getUserEmail(currentUserId);
+    await AuditLogService.createAuditLog({
+      entityType: 'geozone',
+      entityId: 'geozoneDataset',
+      action: 'delete',
+      userId: currentUserId,
+      userEmail,
+      details: 'Removed imported geozone dataset',
+      previousValues: dataset ? { fileName: dataset.fileName, zoneCount: dataset.zoneCount } : undefined,
+    });
+  }
+}
@@ -125,9 +125,15 @@ export class ImageService {
    * @param images - Array of image URIs (mix of existing URLs and new local URIs)
    * @param storagePath - Storage path prefix
    * @param entityId - ID of the entity the images belong to
+   * @param options.failOnUploadError - Throw when an upload fails instead of leaving the image out
    * @returns Promise<string[]> - Array of processed image URLs
    */
-  static async processImages(images: string[], storagePath: string, entityId: string): Promise<string[]> {
+  static async processImages(
+    images: string[],
+    storagePath: string,
+    entityId: string,
+    options: { failOnUploadError?: boolean } = {}
+  ): Promise<string[]> {
     const processedImages: string[] = [];
 
     for (let i = 0; i < images.length; i++) {
@@ -141,6 +147,9 @@ export class ImageService {
           processedImages.push(uploadedUrl);
         } catch (error) {
           console.error('Error uploading image:', image, error);
+          if (options.failOnUploadError) {
+            throw error;
+          }
           // Continue without image if upload fails
         }
       } else if (image && image.trim() && !image.startsWith('blob:')) {
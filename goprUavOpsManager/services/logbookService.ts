@@ -0,0 +1,143 @@
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import { FlightQuery } from '@/types/Flight';
+import { UserRole } from '@/types/UserRole';
+import { FlightRepository } from '@/repositories/FlightRepository';
+import { DroneService } from './droneService';
+import { UserService } from './userService';
+import {
+  LogbookEntry,
+  LogbookHeader,
+  buildLogbookEntries,
+  buildLogbookCsv,
+  buildLogbookHtml,
+  paginateLogbook,
+} from '@/utils/logbookUtils';
+
+type TranslateFn = (key: string) => string;
+
+export class LogbookService {
+  // Get logbook entries using the same filters and access rules as the flights list
+  static async getLogbookEntries(
+    userRole: UserRole,
+    currentUserId: string,
+    queryParams: FlightQuery = {}
+  ): Promise<LogbookEntry[]> {
+    // The logbook always covers every matching flight and never includes deleted ones
+    const { pageSize, pageNumber, lastDocumentSnapshot, includeDeleted, ...filters } = queryParams;
+
+    const flights = await FlightRepository.getAllFilteredFlights(filters, userRole, currentUserId);
+    const droneNames = new Map<string, string>();
+
+    try {
+      const drones = await DroneService.getDrones(userRole);
+      drones.forEach(drone => droneNames.set(drone.id, DroneService.formatDroneName(drone)));
+    } catch (error) {
+      // Fall back to the drone name snapshot stored on each flight
+      console.warn('Could not load drone names for logbook:', error);
+    }
+
+    return buildLogbookEntries(flights, droneNames);
+  }
+
+  // Export the logbook as CSV (download on web, share sheet on mobile)
+  static async exportCsv(
+    userRole: UserRole,
+    currentUserId: string,
+    queryParams: FlightQuery,
+    t: TranslateFn
+  ): Promise<void> {
+    try {
+      const entries = await this.getLogbookEntries(userRole, currentUserId, queryParams);
+      const csv = buildLogbookCsv(entries, t);
+      const fileName = this.getFileName('csv');
+
+      if (Platform.OS === 'web') {
+        this.downloadOnWeb(csv, fileName, 'text/csv;charset=utf-8');
+        return;
+      }
+
+      const fileUri = `${FileSystem.cacheDirectory}${fileName}`;
+      await FileSystem.writeAsStringAsync(fileUri, csv);
+      await Sharing.shareAsync(fileUri, {
+        mimeType: 'text/csv',
+        UTI: 'public.comma-separated-values-text',
+        dialogTitle: t('logbook.title'),
+      });
+    } catch (error) {
+      console.error('Error exporting logbook CSV:', error);
+      throw new Error('Failed to export logbook');
+    }
+  }
+
+  // Export the logbook as a printable PDF (print dialog on web, PDF file on mobile)
+  static async exportPdf(
+    userRole: UserRole,
+    currentUserId: string,
+    queryParams: FlightQuery,
+    t: TranslateFn
+  ): Promise<void> {
+    try {
+      const entries = await this.getLogbookEntries(userRole, currentUserId, queryParams);
+      const header = await this.buildHeader(userRole, currentUserId, queryParams);
+      const html = buildLogbookHtml(paginateLogbook(entries), header, t);
+
+      if (Platform.OS === 'web') {
+        await Print.printAsync({ html });
+        return;
+      }
+
+      const { uri } = await Print.printToFileAsync({ html });
+      await Sharing.shareAsync(uri, {
+        mimeType: 'application/pdf',
+        UTI: 'com.adobe.pdf',
+        dialogTitle: t('logbook.title'),
+      });
+    } catch (error) {
+      console.error('Error exporting logbook PDF:', error);
+      throw new Error('Failed to export logbook');
+    }
+  }
+
+  // Build the page header; regular users always export their own logbook
+  private static async buildHeader(
+    userRole: UserRole,
+    currentUserId: string,
+    queryParams: FlightQuery
+  ): Promise<LogbookHeader> {
+    let pilot = queryParams.userEmail;
+
+    if (!pilot && userRole === 'user') {
+      try {
+        pilot = await UserService.getUserEmail(currentUserId);
+      } catch (error) {
+        console.warn('Could not load pilot email for logbook:', error);
+      }
+    }
+
+    return {
+      pilot,
+      periodStart: queryParams.startDate?.toISOString().split('T')[0],
+      periodEnd: queryParams.endDate?.toISOString().split('T')[0],
+      generatedAt: new Date(),
+    };
+  }
+
+  private static getFileName(extension: string): string {
+    return `logbook_${new Date().toISOString().split('T')[0]}.${extension}`;
+  }
+
+  private static downloadOnWeb(content: string, fileName: string, mimeType: string): void {
+    const blob = new Blob([content], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }
+}
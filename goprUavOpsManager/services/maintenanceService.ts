@@ -0,0 +1,230 @@
+import { Drone } from '@/types/Drone';
+import {
+  MaintenanceEntry,
+  MaintenanceEntryData,
+  ServiceInterval,
+  ServiceIntervalInput,
+} from '@/types/Maintenance';
+import { UserRole } from '@/types/UserRole';
+import { MaintenanceRepository } from '@/repositories/MaintenanceRepository';
+import { DroneRepository } from '@/repositories/DroneRepository';
+import { AuditLogService } from './auditLogService';
+import { UserService } from './userService';
+import { ImageService } from './imageService';
+import { resetServiceIntervals } from '@/utils/maintenanceUtils';
+
+export class MaintenanceService {
+  /**
+   * Check if user can log maintenance and manage service intervals (manager and admin)
+   */
+  static canManageMaintenance(userRole: UserRole): boolean {
+    return userRole === 'manager' || userRole === 'admin';
+  }
+
+  private static async getActiveDrone(droneId: string): Promise<Drone> {
+    const drone = await DroneRepository.getDrone(droneId);
+    if (!drone) {
+      throw new Error('Drone not found');
+    }
+
+    if (drone.isDeleted) {
+      throw new Error('Cannot maintain a deleted drone');
+    }
+
+    return drone;
+  }
+
+  /**
+   * Get the maintenance log of a drone, most recent service first
+   */
+  static async getDroneMaintenance(droneId: string): Promise<MaintenanceEntry[]> {
+    return await MaintenanceRepository.getDroneEntries(droneId);
+  }
+
+  /**
+   * Log maintenance performed on a drone. The entry records the drone's flight totals
+   * at the time, and the selected service intervals start again from them.
+   */
+  static async logMaintenance(
+    droneId: string,
+    data: MaintenanceEntryData,
+    userRole: UserRole,
+    userId: string,
+    userEmail?: string
+  ): Promise<string> {
+    if (!this.canManageMaintenance(userRole)) {
+      throw new Error('Insufficient permissions to log maintenance');
+    }
+
+    try {
+      const description = data.description.trim();
+      if (!description) {
+        throw new Error('Maintenance description is required');
+      }
+
+      if (data.cost !== undefined && (isNaN(data.cost) || data.cost < 0)) {
+        throw new Error('Maintenance cost cannot be negative');
+      }
+
+      if (data.performedAt.getTime() > Date.now()) {
+        throw new Error('Maintenance cannot be logged in the future');
+      }
+
+      const drone = await this.getActiveDrone(droneId);
+      const email = userEmail || await UserService.getUserEmail(userId);
+
+      const attachments = data.attachments.length > 0
+        ? await ImageService.processImages(data.attachments, `maintenance/attachments/${droneId}`, droneId, {
+          // A service record missing its invoice or photos should not be saved silently
+          failOnUploadError: true,
+        })
+        : [];
+
+      const intervals = drone.serviceIntervals || [];
+      const resetIntervalIds = data.resetIntervalIds.filter(id => intervals.some(interval => interval.id === id));
+
+      const entryId = await MaintenanceRepository.createEntry({
+        droneId,
+        type: data.type,
+        description,
+        performedAt: data.performedAt,
+        cost: data.cost,
+        attachments,
+        flightMinutesAtService: drone.totalFlightTime || 0,
+        flightCountAtService: drone.totalFlightCount || 0,
+        resetIntervalIds,
+        userId,
+        userEmail: email,
+      }, userId);
+
+      if (resetIntervalIds.length > 0) {
+        await DroneRepository.updateServiceIntervals(
+          droneId,
+          resetServiceIntervals(intervals, resetIntervalIds, data.performedAt, drone),
+          userId
+        );
+      }
+
+      await AuditLogService.createAuditLog({
+        entityType: 'maintenance',
+        entityId: entryId,
+        action: 'create',
+        userId,
+        userEmail: email,
+        details: AuditLogService.createChangeDetails('create', 'maintenance entry', {
+          new: { droneId, type: data.type, performedAt: data.performedAt }
+        }),
+        newValues: {
+          droneId,
+          type: data.type,
+          description,
+          performedAt: data.performedAt,
+          cost: data.cost,
+          attachmentCount: attachments.length,
+          resetIntervalIds,
+        }
+      });
+
+      return entryId;
+    } catch (error) {
+      console.error('Error logging maintenance:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a mistaken maintenance entry. Service intervals it restarted are left as they are.
+   */
+  static async deleteMaintenance(entry: MaintenanceEntry, userRole: UserRole, userId: string): Promise<void> {
+    if (!this.canManageMaintenance(userRole)) {
+      throw new Error('Insufficient permissions to delete maintenance');
+    }
+
+    await MaintenanceRepository.softDeleteEntry(entry.id, userId);
+
+    const userEmail = await UserService.getUserEmail(userId);
+    await AuditLogService.createAuditLog({
+      entityType: 'maintenance',
+      entityId: entry.id,
+      action: 'delete',
+      userId,
+      userEmail,
+      details: AuditLogService.createChangeDetails('delete', 'maintenance entry'),
+      previousValues: { droneId: entry.droneId, type: entry.type, performedAt: entry.performedAt },
+      newValues: { isDeleted: true }
+    });
+  }
+
+  /**
+   * Replace the service intervals of a drone. Existing intervals keep their last service;
+   * new ones are counted from the drone's current totals.
+   */
+  static async updateServiceIntervals(
+    droneId: string,
+    inputs: ServiceIntervalInput[],
+    userRole: UserRole,
+    userId: string
+  ): Promise<ServiceInterval[]> {
+    if (!this.canManageMaintenance(userRole)) {
+      throw new Error('Insufficient permissions to manage service intervals');
+    }
+
+    try {
+      for (const input of inputs) {
+        if (!input.name.trim()) {
+          throw new Error('Service interval name is required');
+        }
+
+        const limits = [input.flightHours, input.flightCycles, input.calendarDays];
+        if (limits.some(limit => limit !== undefined && (isNaN(limit) || limit <= 0))) {
+          throw new Error('Service interval limits must be positive');
+        }
+        if (limits.every(limit => limit === undefined)) {
+          throw new Error('Service interval needs at least one limit');
+        }
+      }
+
+      const drone = await this.getActiveDrone(droneId);
+      const previousIntervals = drone.serviceIntervals || [];
+      const now = new Date();
+
+      const intervals: ServiceInterval[] = inputs.map(input => {
+        const existing = input.id ? previousIntervals.find(interval => interval.id === input.id) : undefined;
+
+        return {
+          id: existing?.id || `interval_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          name: input.name.trim(),
+          maintenanceType: input.maintenanceType,
+          flightHours: input.flightHours,
+          flightCycles: input.flightCycles,
+          calendarDays: input.calendarDays,
+          lastServiceAt: existing?.lastServiceAt || now,
+          lastServiceFlightMinutes: existing?.lastServiceFlightMinutes ?? (drone.totalFlightTime || 0),
+          lastServiceFlightCount: existing?.lastServiceFlightCount ?? (drone.totalFlightCount || 0),
+        };
+      });
+
+      await DroneRepository.updateServiceIntervals(droneId, intervals, userId);
+
+      const userEmail = await UserService.getUserEmail(userId);
+      await AuditLogService.createAuditLog({
+        entityType: 'drone',
+        entityId: droneId,
+        action: 'edit',
+        userId,
+        userEmail,
+        details: AuditLogService.createChangeDetails('edit', 'drone service intervals', {
+          previous: { serviceIntervals: previousIntervals },
+          new: { serviceIntervals: intervals }
+        }),
+        previousValues: { serviceIntervals: previousIntervals },
+        newValues: { serviceIntervals: intervals }
+      });
+
+      return intervals;
+    } catch (error) {
+      console.error('Error updating service intervals:', error);
+      throw error;
+    }
+  }
+}
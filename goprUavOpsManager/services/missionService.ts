@@ -0,0 +1,236 @@
+import { Mission, MissionFlight, MissionFormData } from '@/types/Mission';
+import { UserRole } from '@/types/UserRole';
+import { MissionRepository } from '@/repositories/MissionRepository';
+import { AuditLogService } from './auditLogService';
+import { UserService } from './userService';
+import { deleteField } from '@/utils/firebaseUtils';
+
+export class MissionService {
+  /**
+   * Check if user can modify missions (create, edit, delete)
+   */
+  static canModifyMissions(userRole: UserRole | string): boolean {
+    return userRole === UserRole.ADMIN || userRole === UserRole.MANAGER;
+  }
+
+  /**
+   * Check if user can view and restore deleted missions
+   */
+  static canViewDeletedMissions(userRole: UserRole | string): boolean {
+    return userRole === UserRole.ADMIN;
+  }
+
+  /**
+   * Get all missions (visible to all users)
+   */
+  static async getMissions(userRole: UserRole): Promise<Mission[]> {
+    return MissionRepository.getMissions(userRole);
+  }
+
+  /**
+   * Get missions flights can currently be linked to (not deleted, newest first)
+   */
+  static async getSelectableMissions(userRole: UserRole): Promise<Mission[]> {
+    const missions = await MissionRepository.getMissions(userRole);
+    return missions.filter(mission => !mission.isDeleted);
+  }
+
+  /**
+   * Get a single mission by ID
+   */
+  static async getMission(id: string, userRole: UserRole): Promise<Mission | null> {
+    const mission = await MissionRepository.getMission(id);
+
+    if (!mission) {
+      return null;
+    }
+
+    if (mission.isDeleted && !this.canViewDeletedMissions(userRole)) {
+      return null;
+    }
+
+    return mission;
+  }
+
+  /**
+   * Get the flights flown during a mission, in chronological order
+   */
+  static getMissionFlights(mission: Mission): MissionFlight[] {
+    return [...(mission.flights || [])].sort((a, b) => a.startTime.localeCompare(b.startTime));
+  }
+
+  /**
+   * Validate mission form data
+   */
+  static validateMission(formData: MissionFormData): void {
+    if (!formData.incidentNumber?.trim()) {
+      throw new Error('Incident number is required');
+    }
+    if (!formData.title?.trim()) {
+      throw new Error('Mission title is required');
+    }
+    if (!formData.startTime) {
+      throw new Error('Mission start time is required');
+    }
+    if (formData.endTime && new Date(formData.endTime).getTime() < new Date(formData.startTime).getTime()) {
+      throw new Error('Mission end time cannot be before start time');
+    }
+  }
+
+  /**
+   * Convert form data to mission fields, dropping empty optional values
+   */
+  private static toMissionData(formData: MissionFormData) {
+    return {
+      incidentNumber: formData.incidentNumber.trim(),
+      title: formData.title.trim(),
+      searchArea: formData.searchArea?.trim() || '',
+      searchAreaCoordinates: formData.searchAreaCoordinates?.trim() || undefined,
+      startTime: formData.startTime,
+      endTime: formData.endTime || undefined,
+      outcome: formData.outcome,
+      notes: formData.notes?.trim() || undefined,
+    };
+  }
+
+  /**
+   * Convert form data to the fields of a mission update. Empty optional values are
+   * removed from the document, as leaving them undefined would keep the old value.
+   */
+  private static toMissionUpdate(formData: MissionFormData) {
+    const missionData = this.toMissionData(formData);
+    return {
+      ...missionData,
+      searchAreaCoordinates: missionData.searchAreaCoordinates ?? deleteField(),
+      endTime: missionData.endTime ?? deleteField(),
+      notes: missionData.notes ?? deleteField(),
+    };
+  }
+
+  /**
+   * Create a new mission (admin/manager only)
+   */
+  static async createMission(formData: MissionFormData, userRole: UserRole, userId: string): Promise<string> {
+    if (!this.canModifyMissions(userRole)) {
+      throw new Error('Insufficient permissions to create mission');
+    }
+
+    this.validateMission(formData);
+
+    try {
+      const missionData = this.toMissionData(formData);
+      const docId = await MissionRepository.createMission(missionData, userId);
+
+      // Create audit log entry
+      const userEmail = await UserService.getUserEmail(userId);
+      await AuditLogService.createAuditLog({
+        entityType: 'mission',
+        entityId: docId,
+        action: 'create',
+        userId,
+        userEmail,
+        details: AuditLogService.createChangeDetails('create', 'mission'),
+        newValues: { ...missionData, isDeleted: false }
+      });
+
+      return docId;
+    } catch (error) {
+      console.error('Error creating mission:', error);
+      throw new Error('Failed to create mission');
+    }
+  }
+
+  /**
+   * Update an existing mission (admin/manager only)
+   */
+  static async updateMission(id: string, formData: MissionFormData, userRole: UserRole, userId: string): Promise<void> {
+    if (!this.canModifyMissions(userRole)) {
+      throw new Error('Insufficient permissions to update mission');
+    }
+
+    this.validateMission(formData);
+
+    try {
+      const currentMission = await MissionRepository.getMission(id);
+      if (!currentMission) {
+        throw new Error('Mission not found');
+      }
+
+      const missionData = this.toMissionData(formData);
+      await MissionRepository.updateMission(id, this.toMissionUpdate(formData), userId);
+
+      // Create audit log entry
+      const userEmail = await UserService.getUserEmail(userId);
+      await AuditLogService.createAuditLog({
+        entityType: 'mission',
+        entityId: id,
+        action: 'edit',
+        userId,
+        userEmail,
+        details: AuditLogService.createChangeDetails('edit', 'mission', {
+          previous: currentMission,
+          new: { ...currentMission, ...missionData }
+        }),
+        previousValues: currentMission,
+        newValues: missionData
+      });
+    } catch (error) {
+      console.error('Error updating mission:', error);
+      throw new Error('Failed to update mission');
+    }
+  }
+
+  /**
+   * Soft delete a mission (admin/manager only); linked flights keep their reference
+   */
+  static async deleteMission(id: string, userRole: UserRole, userId: string): Promise<void> {
+    if (!this.canModifyMissions(userRole)) {
+      throw new Error('Insufficient permissions to delete mission');
+    }
+
+    try {
+      await MissionRepository.softDeleteMission(id, userId);
+
+      // Create audit log entry
+      const userEmail = await UserService.getUserEmail(userId);
+      await AuditLogService.createAuditLog({
+        entityType: 'mission',
+        entityId: id,
+        action: 'delete',
+        userId,
+        userEmail,
+        details: AuditLogService.createChangeDetails('delete', 'mission')
+      });
+    } catch (error) {
+      console.error('Error deleting mission:', error);
+      throw new Error('Failed to delete mission');
+    }
+  }
+
+  /**
+   * Restore a soft-deleted mission (admin only)
+   */
+  static async restoreMission(id: string, userRole: UserRole, userId: string): Promise<void> {
+    if (!this.canViewDeletedMissions(userRole)) {
+      throw new Error('Insufficient permissions to restore mission');
+    }
+
+    try {
+      await MissionRepository.restoreMission(id, userId);
+
+      // Create audit log entry
+      const userEmail = await UserService.getUserEmail(userId);
+      await AuditLogService.createAuditLog({
+        entityType: 'mission',
+        entityId: id,
+        action: 'restore',
+        userId,
+        userEmail,
+        details: AuditLogService.createChangeDetails('restore', 'mission')
+      });
+    } catch (error) {
+      console.error('Error restoring mission:', error);
+      throw new Error('Failed to restore mission');
+    }
+  }
+}
@@ -0,0 +1,44 @@
+import { DocumentExpiryNotification, Notification } from '@/types/Notification';
+import { NotificationRepository } from '@/repositories/NotificationRepository';
+
+export class NotificationService {
+  // Get the notifications of the current user, newest first
+  static async getNotifications(userId: string): Promise<Notification[]> {
+    return await NotificationRepository.getUserNotifications(userId);
+  }
+
+  // Count unread notifications for the dashboard badge (a failure shows no badge)
+  static async getUnreadCount(userId: string): Promise<number> {
+    try {
+      return await NotificationRepository.getUnreadCount(userId);
+    } catch (error) {
+      console.error('Error counting unread notifications:', error);
+      return 0;
+    }
+  }
+
+  // Mark a notification as read (only the recipient can do this)
+  static async markAsRead(notification: Notification, userId: string): Promise<void> {
+    if (notification.userId !== userId) {
+      throw new Error('Insufficient permissions to update this notification');
+    }
+    if (notification.read) {
+      return;
+    }
+
+    await NotificationRepository.markAsRead(notification.id);
+  }
+
+  // Mark all given notifications of the user as read
+  static async markAllAsRead(notifications: Notification[], userId: string): Promise<void> {
+    const unread = notifications.filter(notification => !notification.read && notification.userId === userId);
+    await Promise.all(unread.map(notification => NotificationRepository.markAsRead(notification.id)));
+  }
+
+  // Days left until the document expires (negative once expired)
+  static getDaysLeft(notification: DocumentExpiryNotification, now: Date = new Date()): number {
+    const today = Date.parse(now.toISOString().split('T')[0]);
+    const expiry = Date.parse(notification.expiryDate);
+    return Math.round((expiry - today) / (24 * 60 * 60 * 1000));
+  }
+}
@@ -122,6 +122,20 @@ export class OfflineCategoryService {
     }
   }
 
+  /**
+   * Get cache statistics
+   */
+  static async getCacheStats(): Promise<{
+    categoryCount: number;
+    lastUpdated: Date | null;
+  }> {
+    const metadata = await this.getCacheMetadata();
+    return {
+      categoryCount: metadata?.categoryCount || 0,
+      lastUpdated: metadata ? new Date(metadata.lastUpdated) : null,
+    };
+  }
+
   /**
    * Check if cache should be updated based on Firestore timestamps
    */
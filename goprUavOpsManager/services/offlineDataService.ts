@@ -0,0 +1,397 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Drone } from '@/types/Drone';
+import { DroneClaim } from '@/types/DroneClaim';
+import { Flight } from '@/types/Flight';
+import { Task } from '@/types/Task';
+import { UserRole } from '@/types/UserRole';
+import { OfflineDatasetStatus } from '@/types/OfflineReadiness';
+import { ImageCacheService } from '@/utils/imageCache';
+import { NetworkConnectivity } from '@/utils/networkConnectivity';
+import { DroneService } from './droneService';
+import { DroneClaimService } from './droneClaimService';
+import { FlightService } from './flightService';
+import { TaskService } from './taskService';
+
+type CachedDataset = 'drones' | 'claims' | 'flights' | 'tasks';
+
+/**
+ * Cache metadata interface, one per dataset
+ */
+interface DatasetCacheMetadata {
+  version: number;
+  lastUpdated: number;
+  userId: string;
+  userRole: UserRole;
+  itemCount: number;
+}
+
+interface CacheUser {
+  uid: string;
+  role: UserRole;
+}
+
+const toDate = (value?: string | null): Date | undefined => (value ? new Date(value) : undefined);
+
+/**
+ * Service for offline access to the operational data a pilot needs at a base without coverage:
+ * drones (with their equipment storage images), active claims, the user's recent flights and
+ * the tasks assigned to them.
+ * Unlike procedures, this data changes often (claims especially), so it is read from the network
+ * whenever possible and the cache, kept per user, is only served offline or when the network fails.
+ */
+export class OfflineDataService {
+  private static readonly CACHE_VERSION = 1;
+  private static readonly DATASETS: CachedDataset[] = ['drones', 'claims', 'flights', 'tasks'];
+  private static readonly RECENT_FLIGHTS_LIMIT = 50;
+
+  /**
+   * Download all datasets for the user, should be called after login
+   * Datasets are downloaded independently so one failing query doesn't leave the others uncached
+   */
+  static async preDownloadData(user: CacheUser): Promise<void> {
+    console.log('[OfflineDataService] Starting pre-download for user:', user.uid);
+
+    const results = await Promise.allSettled([
+      this.fetchDrones(user).then(drones => this.preDownloadEquipmentImages(drones)),
+      this.fetchActiveClaims(user),
+      this.fetchRecentFlights(user),
+      this.fetchAssignedTasks(user),
+    ]);
+
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        console.error(`[OfflineDataService] Error pre-downloading ${this.DATASETS[index]}:`, result.reason);
+      }
+    });
+
+    console.log('[OfflineDataService] Pre-download completed');
+  }
+
+  /**
+   * Get drones from the network, or from the cache when offline
+   */
+  static async getDrones(user: CacheUser): Promise<{ drones: Drone[]; isFromCache: boolean }> {
+    const { items, isFromCache } = await this.getWithCacheFallback('drones', user, () => this.fetchDrones(user));
+    return { drones: items, isFromCache };
+  }
+
+  /**
+   * Get a single drone from the network, or from the cached drones when offline
+   */
+  static async getDrone(id: string, user: CacheUser): Promise<{ drone: Drone | null; isFromCache: boolean }> {
+    const { item, isFromCache } = await this.getItemWithCacheFallback<Drone>(
+      'drones',
+      user,
+      () => DroneService.getDrone(id, user.role),
+      drone => drone.id === id
+    );
+    return { drone: item, isFromCache };
+  }
+
+  /**
+   * Get the active claim of a drone from the network, or from the cached active claims when offline
+   */
+  static async getActiveClaim(
+    droneId: string,
+    user: CacheUser
+  ): Promise<{ claim: DroneClaim | null; isFromCache: boolean }> {
+    const { item, isFromCache } = await this.getItemWithCacheFallback<DroneClaim>(
+      'claims',
+      user,
+      () => DroneClaimService.getActiveClaim(droneId),
+      claim => claim.droneId === droneId
+    );
+    return { claim: item, isFromCache };
+  }
+
+  /**
+   * Get the user's recent flights from the network, or from the cache when offline
+   */
+  static async getRecentFlights(user: CacheUser): Promise<{ flights: Flight[]; isFromCache: boolean }> {
+    const { items, isFromCache } = await this.getWithCacheFallback('flights', user, () => this.fetchRecentFlights(user));
+    return { flights: items, isFromCache };
+  }
+
+  /**
+   * Get the user's open tasks from the network, or from the cache when offline
+   */
+  static async getAssignedTasks(user: CacheUser): Promise<{ tasks: Task[]; isFromCache: boolean }> {
+    const { items, isFromCache } = await this.getWithCacheFallback('tasks', user, () => this.fetchAssignedTasks(user));
+    return { tasks: items, isFromCache };
+  }
+
+  /**
+   * Get a single task from the network, or from the cached assigned tasks when offline
+   */
+  static async getTask(id: string, user: CacheUser): Promise<{ task: Task | null; isFromCache: boolean }> {
+    const { item, isFromCache } = await this.getItemWithCacheFallback<Task>(
+      'tasks',
+      user,
+      () => TaskService.getTask(id, user.role),
+      task => task.id === id
+    );
+    return { task: item, isFromCache };
+  }
+
+  /**
+   * Download status of each dataset for the user
+   */
+  static async getCacheStats(userId: string): Promise<OfflineDatasetStatus[]> {
+    return Promise.all(this.DATASETS.map(async dataset => {
+      const metadata = await this.getCacheMetadata(dataset, userId);
+      return {
+        dataset,
+        itemCount: metadata?.itemCount || 0,
+        lastUpdated: metadata ? new Date(metadata.lastUpdated) : null,
+      };
+    }));
+  }
+
+  /**
+   * Clear all cached datasets
+   */
+  static async clearCache(): Promise<void> {
+    try {
+      await Promise.all(this.DATASETS.flatMap(dataset => [
+        AsyncStorage.removeItem(this.getCacheKey(dataset)),
+        AsyncStorage.removeItem(this.getMetadataKey(dataset)),
+      ]));
+      await ImageCacheService.setPinnedImages('equipment', []);
+      console.log('[OfflineDataService] Cache cleared');
+    } catch (error) {
+      console.error('[OfflineDataService] Error clearing cache:', error);
+    }
+  }
+
+  private static async fetchDrones(user: CacheUser): Promise<Drone[]> {
+    const drones = await DroneService.getDrones(user.role);
+    await this.cacheDataset('drones', drones, user);
+    // Keep the equipment images of cached drones out of image cache eviction
+    await ImageCacheService.setPinnedImages('equipment', this.getEquipmentImageUrls(drones));
+    return drones;
+  }
+
+  private static async fetchActiveClaims(user: CacheUser): Promise<DroneClaim[]> {
+    const claims = await DroneClaimService.getClaims({ active: true });
+    await this.cacheDataset('claims', claims, user);
+    return claims;
+  }
+
+  private static async fetchRecentFlights(user: CacheUser): Promise<Flight[]> {
+    const flights = await FlightService.getRecentFlights(user.uid, this.RECENT_FLIGHTS_LIMIT);
+    await this.cacheDataset('flights', flights, user);
+    return flights;
+  }
+
+  private static async fetchAssignedTasks(user: CacheUser): Promise<Task[]> {
+    const tasks = await TaskService.getUserTasks(user.uid, user.role, false);
+    await this.cacheDataset('tasks', tasks, user);
+    return tasks;
+  }
+
+  /**
+   * Fetch fresh data when online; serve the cache when offline or when the fetch fails.
+   * A failed fetch with nothing cached is rethrown so the screen can report it.
+   */
+  private static async getWithCacheFallback<T>(
+    dataset: CachedDataset,
+    user: CacheUser,
+    fetchFresh: () => Promise<T[]>
+  ): Promise<{ items: T[]; isFromCache: boolean }> {
+    let fetchError: unknown = null;
+
+    if (await NetworkConnectivity.getConnectionStatus()) {
+      try {
+        return { items: await fetchFresh(), isFromCache: false };
+      } catch (error) {
+        console.error(`[OfflineDataService] Error fetching ${dataset}, falling back to cache:`, error);
+        fetchError = error;
+      }
+    }
+
+    const cached = await this.getCachedDataset<T>(dataset, user.uid);
+    if (cached) {
+      console.log(`[OfflineDataService] Returning ${cached.length} cached ${dataset}`);
+      return { items: cached, isFromCache: true };
+    }
+    if (fetchError) {
+      throw fetchError;
+    }
+    return { items: [], isFromCache: true };
+  }
+
+  /**
+   * Single item variant of getWithCacheFallback, looking the item up in the cached dataset
+   */
+  private static async getItemWithCacheFallback<T>(
+    dataset: CachedDataset,
+    user: CacheUser,
+    fetchFresh: () => Promise<T | null>,
+    predicate: (item: T) => boolean
+  ): Promise<{ item: T | null; isFromCache: boolean }> {
+    let fetchError: unknown = null;
+
+    if (await NetworkConnectivity.getConnectionStatus()) {
+      try {
+        return { item: await fetchFresh(), isFromCache: false };
+      } catch (error) {
+        console.error(`[OfflineDataService] Error fetching item of ${dataset}, falling back to cache:`, error);
+        fetchError = error;
+      }
+    }
+
+    const cachedItem = (await this.getCachedDataset<T>(dataset, user.uid))?.find(predicate) || null;
+    if (!cachedItem && fetchError) {
+      throw fetchError;
+    }
+    return { item: cachedItem, isFromCache: true };
+  }
+
+  /**
+   * Cache a dataset to AsyncStorage. Dates are serialized to ISO strings by JSON.stringify.
+   * A failure to cache is logged only, the fresh data is still shown.
+   */
+  private static async cacheDataset<T>(dataset: CachedDataset, items: T[], user: CacheUser): Promise<void> {
+    try {
+      const metadata: DatasetCacheMetadata = {
+        version: this.CACHE_VERSION,
+        lastUpdated: Date.now(),
+        userId: user.uid,
+        userRole: user.role,
+        itemCount: items.length,
+      };
+
+      await Promise.all([
+        AsyncStorage.setItem(this.getCacheKey(dataset), JSON.stringify(items)),
+        AsyncStorage.setItem(this.getMetadataKey(dataset), JSON.stringify(metadata)),
+      ]);
+    } catch (error) {
+      console.error(`[OfflineDataService] Error caching ${dataset}:`, error);
+    }
+  }
+
+  /**
+   * Get a cached dataset, only if it was downloaded for this user
+   */
+  private static async getCachedDataset<T>(dataset: CachedDataset, userId: string): Promise<T[] | null> {
+    try {
+      const metadata = await this.getCacheMetadata(dataset, userId);
+      if (!metadata) {
+        return null;
+      }
+
+      const cachedData = await AsyncStorage.getItem(this.getCacheKey(dataset));
+      if (!cachedData) {
+        return null;
+      }
+
+      return JSON.parse(cachedData).map((item: any) => this.deserializeItem(dataset, item));
+    } catch (error) {
+      console.error(`[OfflineDataService] Error getting cached ${dataset}:`, error);
+      return null;
+    }
+  }
+
+  private static async getCacheMetadata(dataset: CachedDataset, userId: string): Promise<DatasetCacheMetadata | null> {
+    try {
+      const metadataJson = await AsyncStorage.getItem(this.getMetadataKey(dataset));
+      const metadata: DatasetCacheMetadata | null = metadataJson ? JSON.parse(metadataJson) : null;
+
+      // Another user's data is never served, even for drones every user can see
+      if (!metadata || metadata.userId !== userId || metadata.version !== this.CACHE_VERSION) {
+        return null;
+      }
+      return metadata;
+    } catch (error) {
+      console.error(`[OfflineDataService] Error getting ${dataset} cache metadata:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Restore the Date fields of a cached item
+   */
+  private static deserializeItem(dataset: CachedDataset, item: any): any {
+    const timestamps = {
+      createdAt: toDate(item.createdAt),
+      updatedAt: toDate(item.updatedAt),
+      deletedAt: toDate(item.deletedAt),
+    };
+
+    switch (dataset) {
+      case 'drones':
+        return {
+          ...item,
+          ...timestamps,
+          serviceIntervals: item.serviceIntervals?.map((interval: any) => ({
+            ...interval,
+            lastServiceAt: toDate(interval.lastServiceAt),
+          })),
+        };
+      case 'claims':
+        return {
+          ...item,
+          ...timestamps,
+          startTime: toDate(item.startTime),
+          endTime: toDate(item.endTime),
+          overdueAt: toDate(item.overdueAt),
+          autoReleaseAt: toDate(item.autoReleaseAt),
+        };
+      case 'flights':
+        return { ...item, ...timestamps };
+      case 'tasks':
+        return {
+          ...item,
+          ...timestamps,
+          startedAt: toDate(item.startedAt),
+          finishedAt: toDate(item.finishedAt),
+        };
+    }
+  }
+
+  /**
+   * Pre-download the equipment storage images of all drones
+   */
+  private static async preDownloadEquipmentImages(drones: Drone[]): Promise<void> {
+    try {
+      await ImageCacheService.initialize();
+
+      const imageUrls = this.getEquipmentImageUrls(drones);
+
+      console.log(`[OfflineDataService] Pre-downloading ${imageUrls.length} equipment images`);
+
+      // Download in small batches to avoid saturating a weak connection
+      const batchSize = 5;
+      for (let i = 0; i < imageUrls.length; i += batchSize) {
+        await Promise.all(
+          imageUrls.slice(i, i + batchSize).map(url =>
+            ImageCacheService.preloadImage(url, 'equipment').catch(error => {
+              console.warn(`[OfflineDataService] Failed to preload image ${url}:`, error);
+            })
+          )
+        );
+      }
+    } catch (error) {
+      console.error('[OfflineDataService] Error pre-downloading equipment images:', error);
+      // Don't throw - the drone data is cached even if images are not
+    }
+  }
+
+  private static getEquipmentImageUrls(drones: Drone[]): string[] {
+    return drones.flatMap(drone =>
+      (drone.equipmentStorages || []).flatMap(storage =>
+        storage.items
+          .map(item => item.image)
+          .filter((image): image is string => !!image && !image.startsWith('blob:'))
+      )
+    );
+  }
+
+  private static getCacheKey(dataset: CachedDataset): string {
+    return `cached_${dataset}`;
+  }
+
+  private static getMetadataKey(dataset: CachedDataset): string {
+    return `cached_${dataset}_metadata`;
+  }
+}
@@ -0,0 +1,263 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  OutboxConflictReason,
+  OutboxMutation,
+  OutboxMutationPayload,
+} from '@/types/OutboxMutation';
+import { UserRole } from '@/types/UserRole';
+import { NetworkConnectivity } from '@/utils/networkConnectivity';
+import { findOverlappingFlight, generateIdempotencyKey, isTaskChangedSince } from '@/utils/outboxUtils';
+import { FlightRepository } from '@/repositories/FlightRepository';
+import { FlightService } from './flightService';
+import { DroneService } from './droneService';
+import { DroneCommentService } from './droneCommentService';
+import { TaskService } from './taskService';
+
+/**
+ * Outbox of writes made without a connection (flights, drone comments and task status updates)
+ * Mutations are kept on the device and replayed through the services when the device is back
+ * online. Each carries an idempotency key so a replay interrupted half-way never saves twice,
+ * and is checked against the server first so it doesn't silently overwrite newer changes.
+ */
+export class OfflineOutboxService {
+  private static readonly OUTBOX_KEY = 'offline_outbox';
+  // Replays rejected by the server this many times stop until the user retries them
+  private static readonly MAX_ATTEMPTS = 3;
+  private static listeners: ((mutations: OutboxMutation[]) => void)[] = [];
+  private static replayInProgress: Promise<number> | null = null;
+
+  /**
+   * Keep a write made offline until it can be replayed
+   */
+  static async enqueue(
+    payload: OutboxMutationPayload,
+    user: { uid: string; email?: string; role: UserRole }
+  ): Promise<OutboxMutation> {
+    const mutation = {
+      ...payload,
+      id: generateIdempotencyKey(),
+      userId: user.uid,
+      userEmail: user.email,
+      userRole: user.role,
+      createdAt: new Date(),
+      status: 'pending',
+      attempts: 0,
+    } as OutboxMutation;
+
+    const mutations = await this.getMutations();
+    await this.saveMutations([...mutations, mutation]);
+    return mutation;
+  }
+
+  /**
+   * Mutations waiting in the outbox, oldest first, optionally only those of one user
+   */
+  static async getMutations(userId?: string): Promise<OutboxMutation[]> {
+    try {
+      const stored = await AsyncStorage.getItem(this.OUTBOX_KEY);
+      if (!stored) {
+        return [];
+      }
+
+      const mutations: OutboxMutation[] = JSON.parse(stored).map((mutation: any) => ({
+        ...mutation,
+        createdAt: new Date(mutation.createdAt),
+        ...(mutation.baseUpdatedAt ? { baseUpdatedAt: new Date(mutation.baseUpdatedAt) } : {}),
+      }));
+
+      return userId ? mutations.filter(mutation => mutation.userId === userId) : mutations;
+    } catch (error) {
+      console.error('[OfflineOutboxService] Error getting outbox:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Replay the user's pending mutations in the order they were made. Conflicting ones
+   * wait for the user, failed ones are retried on the next replay.
+   * Returns the number of mutations replayed.
+   */
+  static async replayPendingMutations(userId: string): Promise<number> {
+    // Reconnect events, sign-in and the "sync now" button can trigger this at the same time
+    if (this.replayInProgress) {
+      return this.replayInProgress;
+    }
+
+    this.replayInProgress = this.replayQueue(userId).finally(() => {
+      this.replayInProgress = null;
+    });
+    return this.replayInProgress;
+  }
+
+  /**
+   * Replay the user's mutations now and each time the device comes back online.
+   * Returns the unsubscribe function.
+   */
+  static startAutoReplay(userId: string): () => void {
+    this.replayPendingMutations(userId);
+
+    return NetworkConnectivity.addListener(isConnected => {
+      if (isConnected) {
+        this.replayPendingMutations(userId);
+      }
+    });
+  }
+
+  /**
+   * Queue a conflicting or failed mutation again. A conflicting one is then applied
+   * without checking for conflicts, the user having chosen to apply it anyway.
+   */
+  static async retryMutation(id: string): Promise<void> {
+    await this.updateMutation(id, mutation => ({
+      ...mutation,
+      status: 'pending',
+      attempts: 0,
+      force: mutation.force || mutation.status === 'conflict',
+      conflictReason: undefined,
+      lastError: undefined,
+    }));
+  }
+
+  /**
+   * Drop a mutation from the outbox without replaying it
+   */
+  static async discardMutation(id: string): Promise<void> {
+    const mutations = await this.getMutations();
+    await this.saveMutations(mutations.filter(mutation => mutation.id !== id));
+  }
+
+  /**
+   * Listen for changes to the outbox. Returns the unsubscribe function.
+   */
+  static addListener(callback: (mutations: OutboxMutation[]) => void): () => void {
+    this.listeners.push(callback);
+
+    return () => {
+      this.listeners = this.listeners.filter(listener => listener !== callback);
+    };
+  }
+
+  private static async replayQueue(userId: string): Promise<number> {
+    const pending = (await this.getMutations(userId)).filter(mutation => mutation.status === 'pending');
+    let replayed = 0;
+
+    for (const mutation of pending) {
+      // Stop when the signal is lost again instead of counting failed attempts
+      if (!(await NetworkConnectivity.getConnectionStatus())) {
+        break;
+      }
+
+      try {
+        const conflictReason = mutation.force ? null : await this.detectConflict(mutation);
+        if (conflictReason) {
+          await this.updateMutation(mutation.id, current => ({ ...current, status: 'conflict', conflictReason }));
+          continue;
+        }
+
+        await this.apply(mutation);
+        await this.discardMutation(mutation.id);
+        replayed++;
+      } catch (error) {
+        console.error('[OfflineOutboxService] Error replaying mutation:', mutation.type, error);
+        await this.updateMutation(mutation.id, current => ({
+          ...current,
+          status: current.attempts + 1 >= this.MAX_ATTEMPTS ? 'failed' : 'pending',
+          attempts: current.attempts + 1,
+          lastError: error instanceof Error ? error.message : String(error),
+        }));
+      }
+    }
+
+    if (replayed > 0) {
+      console.log(`[OfflineOutboxService] Replayed ${replayed} mutations`);
+    }
+    return replayed;
+  }
+
+  /**
+   * Check whether the server changed in a way that makes the mutation unsafe to replay
+   */
+  private static async detectConflict(mutation: OutboxMutation): Promise<OutboxConflictReason | null> {
+    switch (mutation.type) {
+      case 'createFlight': {
+        const { droneId } = mutation.flightData;
+        if (droneId === 'other') {
+          return null;
+        }
+        if (!(await DroneService.getDrone(droneId, mutation.userRole))) {
+          return 'droneUnavailable';
+        }
+
+        // The flight may already have been saved by an interrupted replay
+        const flights = (await FlightRepository.getRecentDroneFlights(droneId, mutation.userId, 10))
+          .filter(flight => flight.id !== mutation.id);
+        return findOverlappingFlight(mutation.flightData, flights) ? 'overlappingFlight' : null;
+      }
+      case 'createDroneComment':
+        return (await DroneService.getDrone(mutation.commentData.droneId, mutation.userRole))
+          ? null
+          : 'droneUnavailable';
+      case 'updateTaskStatus': {
+        const task = await TaskService.getTask(mutation.taskId, mutation.userRole);
+        if (!task || task.isDeleted) {
+          return 'taskUnavailable';
+        }
+        return isTaskChangedSince(task, mutation.baseUpdatedAt) ? 'taskChanged' : null;
+      }
+    }
+  }
+
+  private static async apply(mutation: OutboxMutation): Promise<void> {
+    switch (mutation.type) {
+      case 'createFlight':
+        await FlightService.createFlight(mutation.flightData, mutation.userId, mutation.userEmail, {
+          userRole: mutation.userRole,
+          idempotencyKey: mutation.id,
+        });
+        break;
+      case 'createDroneComment':
+        await DroneCommentService.createDroneComment(
+          mutation.commentData,
+          mutation.userRole,
+          mutation.userId,
+          mutation.userEmail,
+          mutation.id
+        );
+        break;
+      case 'updateTaskStatus':
+        await TaskService.updateTaskStatus(
+          mutation.taskId,
+          mutation.statusUpdate,
+          mutation.userRole,
+          mutation.userId
+        );
+        break;
+    }
+  }
+
+  // Re-reads the outbox so mutations enqueued during a replay are kept
+  private static async updateMutation(
+    id: string,
+    update: (mutation: OutboxMutation) => OutboxMutation
+  ): Promise<void> {
+    const mutations = await this.getMutations();
+    await this.saveMutations(mutations.map(mutation => (mutation.id === id ? update(mutation) : mutation)));
+  }
+
+  private static async saveMutations(mutations: OutboxMutation[]): Promise<void> {
+    try {
+      await AsyncStorage.setItem(this.OUTBOX_KEY, JSON.stringify(mutations));
+    } catch (error) {
+      console.error('[OfflineOutboxService] Error saving outbox:', error);
+      throw new Error('Failed to save offline changes');
+    }
+
+    this.listeners.forEach(callback => {
+      try {
+        callback(mutations);
+      } catch (error) {
+        console.error('[OfflineOutboxService] Error in outbox listener:', error);
+      }
+    });
+  }
+}
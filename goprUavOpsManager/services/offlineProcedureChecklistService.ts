@@ -5,6 +5,7 @@ import { ImageCacheService } from '@/utils/imageCache';
 import { NetworkConnectivity } from '@/utils/networkConnectivity';
 import { UserRole } from '@/types/UserRole';
 import { AppSettingsService } from './appSettingsService';
+import { applyProcedureChanges, getNewImageUrls, getProcedureImageUrls, getSyncCursor } from '@/utils/procedureSyncUtils';
 
 /**
  * Cache metadata interface
@@ -15,6 +16,7 @@ interface CacheMetadata {
   userRole: UserRole;
   procedureCount: number;
   firestoreTimestamp: number | null;
+  syncCursor?: number | null; // latest procedure change included in the cache
 }
 
 /**
@@ -26,11 +28,14 @@ export class OfflineProcedureChecklistService {
   private static readonly CACHE_METADATA_KEY = 'cached_procedures_metadata';
   private static readonly CACHE_VERSION = 1;
   private static readonly CACHE_EXPIRY_HOURS = 24; // Cache expires after 24 hours
+  // Delta syncs overlap the previous one, since change times come from the clocks of editing devices
+  private static readonly SYNC_OVERLAP_MS = 5 * 60 * 1000;
 
   /**
    * Pre-download and cache all procedures with their images
    * Should be called after successful user login
-   * Only downloads if cache is stale based on Firestore timestamps or doesn't exist for the user role
+   * Only syncs if cache is stale based on Firestore timestamps or doesn't exist for the user role,
+   * and then only downloads procedures changed since the last sync
    */
   static async preDownloadProcedures(userRole: UserRole): Promise<void> {
     try {
@@ -46,18 +51,7 @@ export class OfflineProcedureChecklistService {
       
       console.log('[OfflineProcedureService] Cache needs update, starting pre-download');
       
-      // Initialize image cache if not already done
-      await ImageCacheService.initialize();
-      
-      // Fetch all procedures from Firestore
-      const procedures = await ProcedureChecklistService.getProcedureChecklists(userRole);
-      console.log(`[OfflineProcedureService] Fetched ${procedures.length} procedures`);
-      
-      // Cache procedures data
-      await this.cacheProcedures(procedures, userRole);
-      
-      // Pre-download all images
-      await this.preDownloadProcedureImages(procedures);
+      await this.syncProcedures(userRole);
       
       console.log('[OfflineProcedureService] Pre-download completed successfully');
     } catch (error) {
@@ -68,34 +62,23 @@ export class OfflineProcedureChecklistService {
 
   /**
    * Force refresh of cached procedures regardless of cache freshness
-   * Useful when user explicitly wants to update procedures
+   * Useful when user explicitly wants to update procedures, e.g. after editing one
    * @param userRole - The user role to refresh procedures for
-   * @param procedures - Optional pre-fetched procedures to avoid double download
+   * @param procedures - Optional pre-fetched full procedure list to replace the cache with
    */
   static async forceRefreshProcedures(userRole: UserRole, procedures?: ProcedureChecklist[]): Promise<void> {
     try {
       console.log('[OfflineProcedureService] Force refreshing procedures for role:', userRole);
       
-      // Initialize image cache if not already done
-      await ImageCacheService.initialize();
-      
-      // Use provided procedures or fetch from Firestore
-      let proceduresToCache: ProcedureChecklist[];
       if (procedures) {
         console.log(`[OfflineProcedureService] Using provided ${procedures.length} procedures`);
-        proceduresToCache = procedures;
+        await ImageCacheService.initialize();
+        await this.cacheProcedures(procedures, userRole);
+        await this.preDownloadProcedureImages(procedures);
       } else {
-        console.log('[OfflineProcedureService] Fetching procedures from Firestore');
-        proceduresToCache = await ProcedureChecklistService.getProcedureChecklists(userRole);
-        console.log(`[OfflineProcedureService] Fetched ${proceduresToCache.length} procedures`);
+        await this.syncProcedures(userRole);
       }
       
-      // Cache procedures data
-      await this.cacheProcedures(proceduresToCache, userRole);
-      
-      // Pre-download all images
-      await this.preDownloadProcedureImages(proceduresToCache);
-      
       console.log('[OfflineProcedureService] Force refresh completed successfully');
     } catch (error) {
       console.error('[OfflineProcedureService] Error during force refresh:', error);
@@ -236,13 +219,46 @@ export class OfflineProcedureChecklistService {
   }
 
   /**
-   * Clear all cached procedures and images
+   * Bring the cache up to date, downloading only procedures changed since the last sync
+   * and only their images that aren't cached yet. Without a usable cache everything is downloaded.
+   */
+  private static async syncProcedures(userRole: UserRole): Promise<void> {
+    // Initialize image cache if not already done
+    await ImageCacheService.initialize();
+
+    const metadata = await this.getCacheMetadata();
+    const cachedProcedures = await this.getCachedProcedures(userRole);
+
+    if (!cachedProcedures || !metadata?.syncCursor) {
+      console.log('[OfflineProcedureService] No cache to sync, fetching all procedures from Firestore');
+      const procedures = await ProcedureChecklistService.getProcedureChecklists(userRole);
+      console.log(`[OfflineProcedureService] Fetched ${procedures.length} procedures`);
+
+      await this.cacheProcedures(procedures, userRole);
+      await this.preDownloadProcedureImages(procedures);
+      return;
+    }
+
+    const since = new Date(metadata.syncCursor - this.SYNC_OVERLAP_MS);
+    const changes = await ProcedureChecklistService.getProcedureChecklistChanges(since, userRole);
+    console.log(
+      `[OfflineProcedureService] Fetched ${changes.changed.length} changed and ${changes.deleted.length} deleted procedures since ${since.toISOString()}`
+    );
+
+    const procedures = applyProcedureChanges(cachedProcedures, changes);
+    await this.cacheProcedures(procedures, userRole, getSyncCursor(changes, metadata.syncCursor));
+    await this.preloadImages(getNewImageUrls(cachedProcedures, changes.changed));
+  }
+
+  /**
+   * Clear all cached procedures and their images
    */
   static async clearCache(): Promise<void> {
     try {
       await AsyncStorage.removeItem(this.CACHE_KEY);
       await AsyncStorage.removeItem(this.CACHE_METADATA_KEY);
-      await ImageCacheService.clearCache();
+      await ImageCacheService.setPinnedImages('procedures', []);
+      await ImageCacheService.purgeNamespace('procedures');
       console.log('[OfflineProcedureService] Cache cleared successfully');
     } catch (error) {
       console.error('[OfflineProcedureService] Error clearing cache:', error);
@@ -290,7 +306,11 @@ export class OfflineProcedureChecklistService {
     }));
   }
 
-  private static async cacheProcedures(procedures: ProcedureChecklist[], userRole: UserRole): Promise<void> {
+  private static async cacheProcedures(
+    procedures: ProcedureChecklist[],
+    userRole: UserRole,
+    syncCursor: number | null = getSyncCursor({ changed: procedures, deleted: [] })
+  ): Promise<void> {
     try {
       // Validate and sanitize procedures before caching
       const sanitizedProcedures = procedures.map(proc => ({
@@ -326,9 +346,13 @@ export class OfflineProcedureChecklistService {
         userRole,
         procedureCount: procedures.length,
         firestoreTimestamp: firestoreTimestamp ? firestoreTimestamp.getTime() : null,
+        syncCursor,
       };
       
       await AsyncStorage.setItem(this.CACHE_METADATA_KEY, JSON.stringify(metadata));
+
+      // Keep the images of cached procedures out of image cache eviction
+      await ImageCacheService.setPinnedImages('procedures', getProcedureImageUrls(sanitizedProcedures));
       console.log(`[OfflineProcedureService] Cached ${procedures.length} procedures for role: ${userRole}`);
     } catch (error) {
       console.error('[OfflineProcedureService] Error caching procedures:', error);
@@ -415,37 +439,12 @@ export class OfflineProcedureChecklistService {
   /**
    * Pre-download all images from procedures
    */
-  private static collectSubItemImages(subItems: ChecklistSubItem[], imageUrls: string[]): void {
-    subItems.forEach(subItem => {
-      if (subItem.image && !subItem.image.startsWith('blob:')) {
-        imageUrls.push(subItem.image);
-      }
-      if (subItem.subItems) {
-        this.collectSubItemImages(subItem.subItems, imageUrls);
-      }
-    });
+  private static async preDownloadProcedureImages(procedures: ProcedureChecklist[]): Promise<void> {
+    await this.preloadImages(getProcedureImageUrls(procedures));
   }
 
-  private static async preDownloadProcedureImages(procedures: ProcedureChecklist[]): Promise<void> {
+  private static async preloadImages(imageUrls: string[]): Promise<void> {
     try {
-      const imageUrls: string[] = [];
-      
-      // Collect all image URLs from procedure items and their sub-items
-      procedures.forEach(procedure => {
-        procedure.items.forEach(item => {
-          if (item.image && !item.image.startsWith('blob:')) {
-            // Only include Firebase storage URLs, skip blob URLs
-            imageUrls.push(item.image);
-          } else if (item.image && item.image.startsWith('blob:')) {
-            console.warn('[OfflineProcedureService] Found blob URL in procedure data, skipping:', item.image);
-          }
-          // Collect sub-item images recursively
-          if (item.subItems) {
-            this.collectSubItemImages(item.subItems, imageUrls);
-          }
-        });
-      });
-      
       console.log(`[OfflineProcedureService] Pre-downloading ${imageUrls.length} images`);
       
       // Pre-download images in parallel (with some throttling)
@@ -454,7 +453,7 @@ export class OfflineProcedureChecklistService {
         const batch = imageUrls.slice(i, i + batchSize);
         await Promise.all(
           batch.map(url => 
-            ImageCacheService.preloadImage(url).catch(error => {
+            ImageCacheService.preloadImage(url, 'procedures').catch(error => {
               console.warn(`[OfflineProcedureService] Failed to preload image ${url}:`, error);
             })
           )
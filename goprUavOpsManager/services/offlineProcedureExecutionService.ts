@@ -0,0 +1,219 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  ProcedureExecutionProgress,
+  QueuedProcedureExecution,
+} from '@/types/ProcedureExecution';
+import { NetworkConnectivity } from '@/utils/networkConnectivity';
+import { ProcedureExecutionService } from './procedureExecutionService';
+
+/**
+ * Service for keeping procedure runs on the device
+ * Saves in-progress runs so they can be resumed after the app is closed, and
+ * queues finished runs recorded offline until they can be uploaded
+ */
+export class OfflineProcedureExecutionService {
+  private static readonly PROGRESS_KEY_PREFIX = 'procedure_execution_progress_';
+  private static readonly QUEUE_KEY = 'procedure_execution_queue';
+  private static uploadInProgress: Promise<number> | null = null;
+
+  private static getProgressKey(userId: string, procedureId: string): string {
+    return `${this.PROGRESS_KEY_PREFIX}${userId}_${procedureId}`;
+  }
+
+  /**
+   * Save the state of an in-progress run (failures are logged, the run goes on)
+   */
+  static async saveProgress(progress: ProcedureExecutionProgress): Promise<void> {
+    try {
+      await AsyncStorage.setItem(
+        this.getProgressKey(progress.userId, progress.procedureId),
+        JSON.stringify({
+          ...progress,
+          startedAt: progress.startedAt.toISOString(),
+          savedAt: progress.savedAt.toISOString(),
+        })
+      );
+    } catch (error) {
+      console.error('[OfflineProcedureExecutionService] Error saving execution progress:', error);
+    }
+  }
+
+  /**
+   * Get the saved in-progress run of a procedure for a user
+   */
+  static async getProgress(userId: string, procedureId: string): Promise<ProcedureExecutionProgress | null> {
+    try {
+      const stored = await AsyncStorage.getItem(this.getProgressKey(userId, procedureId));
+      if (!stored) {
+        return null;
+      }
+
+      const progress = JSON.parse(stored);
+      return {
+        ...progress,
+        completedItemIds: progress.completedItemIds || [],
+        completedSubItemIds: progress.completedSubItemIds || [],
+        controlValues: progress.controlValues || {},
+        startedAt: new Date(progress.startedAt),
+        savedAt: new Date(progress.savedAt),
+      };
+    } catch (error) {
+      console.error('[OfflineProcedureExecutionService] Error getting execution progress:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Remove the saved in-progress run, after it was finished or restarted
+   */
+  static async clearProgress(userId: string, procedureId: string): Promise<void> {
+    try {
+      await AsyncStorage.removeItem(this.getProgressKey(userId, procedureId));
+    } catch (error) {
+      console.error('[OfflineProcedureExecutionService] Error clearing execution progress:', error);
+    }
+  }
+
+  /**
+   * Record a finished run: uploaded straight away when online, queued on the
+   * device when offline or when the upload fails
+   */
+  static async finishExecution(run: Omit<QueuedProcedureExecution, 'localId'>): Promise<{ queued: boolean }> {
+    // The local id is also the id of the uploaded run, so a run saved by an upload that
+    // failed afterwards is not saved again when the queue is retried
+    const execution: QueuedProcedureExecution = {
+      ...run,
+      localId: `${run.userId}_${run.procedure.id}_${run.finishedAt.getTime()}`,
+    };
+
+    if (await NetworkConnectivity.getConnectionStatus()) {
+      try {
+        await this.upload(execution);
+        return { queued: false };
+      } catch (error) {
+        console.error('[OfflineProcedureExecutionService] Error uploading execution, queueing it:', error);
+      }
+    }
+
+    await this.queueExecution(execution);
+    return { queued: true };
+  }
+
+  /**
+   * Finished runs waiting for upload, optionally only those of one user
+   */
+  static async getQueuedExecutions(userId?: string): Promise<QueuedProcedureExecution[]> {
+    try {
+      const stored = await AsyncStorage.getItem(this.QUEUE_KEY);
+      if (!stored) {
+        return [];
+      }
+
+      const queue: QueuedProcedureExecution[] = JSON.parse(stored).map((execution: any) => ({
+        ...execution,
+        procedure: {
+          ...execution.procedure,
+          updatedAt: execution.procedure?.updatedAt ? new Date(execution.procedure.updatedAt) : undefined,
+        },
+        startedAt: new Date(execution.startedAt),
+        finishedAt: new Date(execution.finishedAt),
+      }));
+
+      return userId ? queue.filter(execution => execution.userId === userId) : queue;
+    } catch (error) {
+      console.error('[OfflineProcedureExecutionService] Error getting queued executions:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Upload the user's queued runs. Runs that fail stay queued for the next attempt.
+   * Returns the number of runs uploaded.
+   */
+  static async uploadQueuedExecutions(userId: string): Promise<number> {
+    // Reconnect events and sign-in can trigger this at the same time
+    if (this.uploadInProgress) {
+      return this.uploadInProgress;
+    }
+
+    this.uploadInProgress = this.uploadQueue(userId).finally(() => {
+      this.uploadInProgress = null;
+    });
+    return this.uploadInProgress;
+  }
+
+  /**
+   * Upload queued runs of the user now and each time the device comes back online.
+   * Returns the unsubscribe function.
+   */
+  static startAutoUpload(userId: string): () => void {
+    this.uploadQueuedExecutions(userId);
+
+    return NetworkConnectivity.addListener(isConnected => {
+      if (isConnected) {
+        this.uploadQueuedExecutions(userId);
+      }
+    });
+  }
+
+  private static async uploadQueue(userId: string): Promise<number> {
+    const queued = await this.getQueuedExecutions(userId);
+    if (queued.length === 0) {
+      return 0;
+    }
+
+    const uploadedIds: string[] = [];
+    for (const execution of queued) {
+      try {
+        await this.upload(execution);
+        uploadedIds.push(execution.localId);
+      } catch (error) {
+        console.error('[OfflineProcedureExecutionService] Error uploading queued execution:', error);
+      }
+    }
+
+    if (uploadedIds.length > 0) {
+      // Re-read the queue so runs queued during the upload are kept
+      const remaining = (await this.getQueuedExecutions())
+        .filter(execution => !uploadedIds.includes(execution.localId));
+      await this.saveQueue(remaining);
+      console.log(`[OfflineProcedureExecutionService] Uploaded ${uploadedIds.length} queued executions`);
+    }
+
+    return uploadedIds.length;
+  }
+
+  private static async upload(execution: QueuedProcedureExecution): Promise<void> {
+    await ProcedureExecutionService.recordExecution(
+      execution.procedure,
+      {
+        status: execution.status,
+        items: execution.items,
+        subItems: execution.subItems,
+        overrideNote: execution.overrideNote,
+      },
+      execution.startedAt,
+      execution.userId,
+      execution.userEmail,
+      execution.links,
+      execution.finishedAt,
+      execution.localId
+    );
+  }
+
+  private static async queueExecution(execution: QueuedProcedureExecution): Promise<void> {
+    const queue = await this.getQueuedExecutions();
+    queue.push(execution);
+    await this.saveQueue(queue);
+  }
+
+  private static async saveQueue(queue: QueuedProcedureExecution[]): Promise<void> {
+    try {
+      // Dates are stored as ISO strings by JSON.stringify
+      await AsyncStorage.setItem(this.QUEUE_KEY, JSON.stringify(queue));
+    } catch (error) {
+      console.error('[OfflineProcedureExecutionService] Error saving execution queue:', error);
+      throw error;
+    }
+  }
+}
@@ -1,15 +1,17 @@
 import {getStorageRef, uploadFile, getDownloadURL, deleteObject} from '@/utils/firebaseUtils';
-import {ChecklistItemFormData, ChecklistSubItemFormData, ProcedureChecklist, ProcedureChecklistFormData} from '@/types/ProcedureChecklist';
+import {ChecklistItemFormData, ChecklistSubItemFormData, ProcedureChecklist, ProcedureChecklistChanges, ProcedureChecklistFormData, ProcedureVersion} from '@/types/ProcedureChecklist';
 import {AuditLogService} from './auditLogService';
 import {UserService} from './userService';
 import {ImageService} from './imageService';
 import {UserRole} from "@/types/UserRole";
 import {ImageProcessingService} from '@/utils/imageProcessing';
 import {ProcedureChecklistRepository} from '@/repositories/ProcedureChecklistRepository';
+import {ProcedureVersionRepository} from '@/repositories/ProcedureVersionRepository';
 import { DEFAULT_CATEGORY_ID } from '@/types/Category';
 import { Platform } from 'react-native';
 import * as FileSystem from 'expo-file-system';
 import { AppSettingsService } from './appSettingsService';
+import { normalizeControlValueSettings } from '@/utils/controlValueUtils';
 
 export class ProcedureChecklistService {
   // Get all procedures/checklists based on user role
@@ -22,6 +24,17 @@ export class ProcedureChecklistService {
     return ProcedureChecklistRepository.getProcedureChecklistsByCategory(categoryId, userRole);
   }
 
+  // Get procedures/checklists changed since the given time, for delta sync of the offline cache.
+  // Admins see deletions through the isDeleted flag, other roles through tombstones.
+  static async getProcedureChecklistChanges(since: Date, userRole: UserRole): Promise<ProcedureChecklistChanges> {
+    const [changed, deleted] = await Promise.all([
+      ProcedureChecklistRepository.getProcedureChecklistsChangedSince(since, userRole),
+      userRole === 'admin' ? Promise.resolve([]) : ProcedureChecklistRepository.getProcedureTombstonesSince(since),
+    ]);
+
+    return { changed, deleted };
+  }
+
   // Get a single procedure/checklist by ID
   static async getProcedureChecklist(id: string, userRole: UserRole): Promise<ProcedureChecklist | null> {
     const checklist = await ProcedureChecklistRepository.getProcedureChecklist(id);
@@ -38,6 +51,16 @@ export class ProcedureChecklistService {
     return checklist;
   }
 
+  // Get all saved versions of a procedure/checklist, newest first
+  static async getProcedureVersions(id: string): Promise<ProcedureVersion[]> {
+    return ProcedureVersionRepository.getVersions(id);
+  }
+
+  // Get a single saved version of a procedure/checklist
+  static async getProcedureVersion(id: string, version: number): Promise<ProcedureVersion | null> {
+    return ProcedureVersionRepository.getVersion(id, version);
+  }
+
   // Create a new procedure/checklist (manager and admin only)
   static async createProcedureChecklist(
     formData: ProcedureChecklistFormData, 
@@ -61,8 +84,9 @@ export class ProcedureChecklistService {
         updatedBy: userId,
       };
 
-      // Create checklist in repository
-      const docId = await ProcedureChecklistRepository.createProcedureChecklist(checklistData, userId);
+      // Create checklist in repository, saved as version 1
+      const changeNote = formData.changeNote?.trim() || undefined;
+      const docId = await ProcedureChecklistRepository.createProcedureChecklist(checklistData, userId, changeNote);
 
       // Update procedures timestamp in AppSettings
       await AppSettingsService.updateProceduresLastUpdate();
@@ -76,7 +100,7 @@ export class ProcedureChecklistService {
         userId,
         userEmail,
         details: AuditLogService.createChangeDetails('create', 'procedure/checklist'),
-        newValues: { ...checklistData, isDeleted: false }
+        newValues: { ...checklistData, version: 1, changeNote, isDeleted: false }
       });
 
       return docId;
@@ -115,12 +139,13 @@ export class ProcedureChecklistService {
         updatedBy: userId,
       };
 
+      // Update checklist in repository, saved as its next version
+      const changeNote = formData.changeNote?.trim() || undefined;
+      const version = await ProcedureChecklistRepository.updateProcedureChecklist(id, updateData, userId, changeNote);
+
       // Store previous values for audit log
       const previousValues = { ...currentChecklist };
-      const newValues = { ...currentChecklist, ...updateData };
-
-      // Update checklist in repository
-      await ProcedureChecklistRepository.updateProcedureChecklist(id, updateData, userId);
+      const newValues = { ...currentChecklist, ...updateData, version, changeNote };
 
       // Update procedures timestamp in AppSettings
       await AppSettingsService.updateProceduresLastUpdate();
@@ -302,6 +327,14 @@ export class ProcedureChecklistService {
         processedSubItem.requiredState = subItem.requiredState;
       }
 
+      if (subItem.type === 'control') {
+        Object.entries(normalizeControlValueSettings(subItem))
+          .filter(([, value]) => value !== undefined)
+          .forEach(([key, value]) => {
+            processedSubItem[key] = value;
+          });
+      }
+
       if (subItem.link && subItem.link.trim()) {
         processedSubItem.link = subItem.link;
       }
@@ -0,0 +1,157 @@
+import { Flight } from '@/types/Flight';
+import { ProcedureChecklist } from '@/types/ProcedureChecklist';
+import { ProcedureExecution, ProcedureExecutionLinks } from '@/types/ProcedureExecution';
+import { UserRole } from '@/types/UserRole';
+import { ProcedureExecutionRepository } from '@/repositories/ProcedureExecutionRepository';
+import { FlightRepository } from '@/repositories/FlightRepository';
+import { AuditLogService } from './auditLogService';
+import { UserService } from './userService';
+import {
+  getOutOfRangeResults,
+  isExecutionLinkableToFlight,
+  ProcedureExecutionResults,
+} from '@/utils/procedureExecutionUtils';
+
+export class ProcedureExecutionService {
+  /**
+   * Store a finished (or closed early) run of a procedure.
+   * finishedAt is passed for runs finished offline and uploaded later.
+   * idempotencyKey is used as the run id, a run already saved with it is not saved again
+   */
+  static async recordExecution(
+    procedure: Pick<ProcedureChecklist, 'id' | 'title' | 'version' | 'updatedAt'>,
+    results: ProcedureExecutionResults,
+    startedAt: Date,
+    userId: string,
+    userEmail?: string,
+    links: ProcedureExecutionLinks = {},
+    finishedAt: Date = new Date(),
+    idempotencyKey?: string
+  ): Promise<string> {
+    // Already saved by an earlier upload of the same run that failed part way
+    if (idempotencyKey && await ProcedureExecutionRepository.getExecution(idempotencyKey)) {
+      return idempotencyKey;
+    }
+
+    const email = userEmail || await UserService.getUserEmail(userId);
+
+    const executionId = await ProcedureExecutionRepository.createExecution({
+      procedureId: procedure.id,
+      procedureTitle: procedure.title,
+      procedureVersion: procedure.version,
+      procedureUpdatedAt: procedure.updatedAt,
+      userId,
+      userEmail: email,
+      droneId: links.droneId,
+      flightId: links.flightId,
+      startedAt,
+      finishedAt,
+      status: results.status,
+      items: results.items,
+      subItems: results.subItems,
+      overrideNote: results.overrideNote?.trim() || undefined,
+    }, idempotencyKey);
+
+    const duration = Math.floor((finishedAt.getTime() - startedAt.getTime()) / 1000);
+    const completedCount = results.items.filter(item => item.completed).length;
+    const outOfRangeCount = getOutOfRangeResults(results.subItems).length;
+    await AuditLogService.createAuditLog({
+      entityType: 'procedureChecklist',
+      entityId: procedure.id,
+      action: 'execute_finish',
+      userId,
+      userEmail: email,
+      details: `Completed executing procedure: ${procedure.title} (Duration: ${duration}s)`,
+      newValues: {
+        executionId,
+        status: results.status,
+        completedItems: completedCount,
+        totalItems: results.items.length,
+        outOfRangeValues: outOfRangeCount || undefined,
+        overrideNote: results.overrideNote?.trim() || undefined,
+        droneId: links.droneId,
+        flightId: links.flightId,
+      }
+    });
+
+    return executionId;
+  }
+
+  /**
+   * Get the runs linked to a flight the user may see: all of them for managers and
+   * admins, their own for users (including on another pilot's flight of a mission)
+   */
+  static async getFlightExecutions(flightId: string, userRole: UserRole, userId: string): Promise<ProcedureExecution[]> {
+    const canSeeAll = userRole === 'manager' || userRole === 'admin';
+    return await ProcedureExecutionRepository.getFlightExecutions(flightId, canSeeAll ? undefined : userId);
+  }
+
+  /**
+   * Flights of the user with this drone a run can be linked to (a failure offers none)
+   */
+  static async getLinkableFlights(droneId: string, userId: string): Promise<Flight[]> {
+    try {
+      return await FlightRepository.getRecentDroneFlights(droneId, userId);
+    } catch (error) {
+      console.error('Error fetching flights for procedure execution:', error);
+      return [];
+    }
+  }
+
+  /**
+   * The flight pilot's unlinked runs that could belong to the flight (a failure offers none)
+   */
+  static async getLinkableExecutions(flight: Flight): Promise<ProcedureExecution[]> {
+    if (!flight.droneId) return [];
+
+    try {
+      const executions = await ProcedureExecutionRepository.getRecentDroneExecutions(flight.droneId, flight.userId);
+      return executions.filter(execution => isExecutionLinkableToFlight(execution, flight));
+    } catch (error) {
+      console.error('Error fetching procedure executions for flight:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Link a run to a flight, e.g. to record that the pre-flight checklist was done for it.
+   * Only the user who ran the procedure, or a manager/admin, can link it.
+   */
+  static async linkToFlight(
+    executionId: string,
+    flight: Flight,
+    userRole: UserRole,
+    userId: string
+  ): Promise<void> {
+    const execution = await ProcedureExecutionRepository.getExecution(executionId);
+    if (!execution) {
+      throw new Error('Procedure execution not found');
+    }
+
+    if (execution.userId !== userId && userRole !== 'manager' && userRole !== 'admin') {
+      throw new Error('Insufficient permissions to link this procedure execution');
+    }
+
+    if (execution.flightId) {
+      throw new Error('Procedure execution is already linked to a flight');
+    }
+
+    if (execution.droneId !== flight.droneId) {
+      throw new Error('Procedure execution was run for a different drone');
+    }
+
+    await ProcedureExecutionRepository.setFlight(executionId, flight.id, userId);
+
+    const userEmail = await UserService.getUserEmail(userId);
+    await AuditLogService.createAuditLog({
+      entityType: 'procedureExecution',
+      entityId: executionId,
+      action: 'edit',
+      userId,
+      userEmail,
+      details: `Linked run of "${execution.procedureTitle}" to flight ${flight.id}`,
+      previousValues: { flightId: null },
+      newValues: { flightId: flight.id }
+    });
+  }
+}
@@ -1,11 +1,11 @@
 // Entity types that can be audited
-export type AuditEntityType = 'drone' | 'flight' | 'procedureChecklist' | 'user' | 'category' | 'droneComment' | 'droneClaim' | 'task' | 'taskTemplate';
+export type AuditEntityType = 'drone' | 'flight' | 'procedureChecklist' | 'user' | 'category' | 'droneComment' | 'droneClaim' | 'task' | 'taskTemplate' | 'mission' | 'geozone' | 'droneReservation' | 'equipmentCheck' | 'maintenance' | 'battery' | 'procedureExecution';
 
 // Actions that can be performed on entities
 export type AuditAction = 'create' | 'edit' | 'delete' | 'restore' | 'view' | 'login' | 'soft_delete' | 'update' | 'hide' | 'release' | 'admin_override' | 'admin_override_end' | 'admin_override_create' | 'execute_start' | 'execute_finish' | 'assign' | 'status_change' | 'self_assign';
 
 // Application platforms
-export type ApplicationPlatform = 'web' | 'ios' | 'android';
+export type ApplicationPlatform = 'web' | 'ios' | 'android' | 'server'; // server: scheduled Cloud Functions
 
 // Main audit log interface
 export interface AuditLog {
@@ -0,0 +1,35 @@
+// Share of the rated cycles used up before a pack is shown as nearing its limit
+export const BATTERY_CYCLE_WARNING_RATIO = 0.9;
+
+/**
+ * Physical flight battery pack. Drone.battery describes the pack type a drone takes;
+ * this is one numbered pack of that type, tracked through the flights it is used on.
+ */
+export interface Battery {
+  id: string;
+  label: string; // marking on the pack, e.g. "M30-03"
+  serialNumber?: string;
+  model?: string; // e.g. "TB30"
+  compatibleDroneIds: string[]; // drones the pack can be used with
+  cycleCount: number; // charge cycles, raised by the updateFlightTotals function for flights the pack is used on
+  ratedCycles?: number; // manufacturer's cycle rating
+  purchaseDate?: string; // YYYY-MM-DD
+  internalResistance?: number; // last measurement, in mΩ
+  healthNotes?: string;
+  markedDegraded?: boolean; // set after an inspection found the pack unfit for missions
+  isRetired: boolean;
+  retiredAt?: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+  createdBy?: string;
+  updatedBy?: string;
+}
+
+// Fields edited on the battery form; the cycle count there is a manual correction
+export type BatteryFormData = Omit<
+  Battery,
+  'id' | 'isRetired' | 'retiredAt' | 'createdAt' | 'updatedAt' | 'createdBy' | 'updatedBy'
+>;
+
+// Reasons a pack is flagged
+export type BatteryIssue = 'cycleLimit' | 'nearCycleLimit' | 'markedDegraded';
@@ -1,3 +1,5 @@
+import { ServiceInterval } from './Maintenance';
+
 export interface DroneEquipmentItem {
   id: string;
   name: string;
@@ -17,7 +19,8 @@ export interface Drone {
   inventoryCode: string;
   location: string;
   registrationNumber: string;
-  totalFlightTime: number; // in minutes - TODO: will be calculated based on flights list in the future
+  totalFlightTime: number; // in minutes - derived from the flights collection, maintained by the updateFlightTotals function
+  totalFlightCount?: number; // number of flights - derived the same way as totalFlightTime
   equipmentRegistrationNumber: string;
   yearOfCommissioning: number;
   yearOfManufacture: number;
@@ -44,6 +47,7 @@ export interface Drone {
   images?: string[]; // Array of image URLs
   equipmentList?: DroneEquipmentItem[]; // Array of equipment items (deprecated, for migration)
   equipmentStorages?: EquipmentStorage[]; // Array of equipment storages (new structure)
+  serviceIntervals?: ServiceInterval[]; // Recurring maintenance, managed on the maintenance screen
   isDeleted?: boolean; // soft-delete flag
   deletedAt?: Date; // timestamp when deleted
   createdAt?: Date; // timestamp when created
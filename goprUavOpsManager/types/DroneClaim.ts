@@ -1,3 +1,6 @@
+// Why a claim was ended by someone other than its holder
+export type DroneClaimReleaseReason = 'autoExpired' | 'adminOverride';
+
 export interface DroneClaim {
   id: string;
   droneId: string;
@@ -9,6 +12,10 @@ export interface DroneClaim {
   updatedAt?: Date;
   createdBy: string; // user ID who created the claim
   updatedBy?: string; // user ID who last updated (for admin overrides)
+  reservationId?: string; // set when the claim was started from a reservation
+  overdueAt?: Date; // set by the scheduled function once the claim exceeds the maximum duration
+  autoReleaseAt?: Date; // when an overdue claim will be released automatically
+  releaseReason?: DroneClaimReleaseReason;
 }
 
 export interface DroneClaimData extends Omit<DroneClaim, 'id' | 'createdAt' | 'updatedAt' | 'createdBy' | 'updatedBy'> {}
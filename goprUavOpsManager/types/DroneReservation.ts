@@ -0,0 +1,43 @@
+import { DroneClaim } from './DroneClaim';
+
+// Lifecycle of a reservation: scheduled until its window starts, then started (turned into a claim),
+// or ended early by the owner (cancelled), a manager/admin (bumped) or a drone that stayed claimed (missed)
+export type DroneReservationStatus = 'scheduled' | 'started' | 'cancelled' | 'bumped' | 'missed';
+
+// Reservations that still hold their time slot
+export const BLOCKING_RESERVATION_STATUSES: DroneReservationStatus[] = ['scheduled', 'started'];
+
+// Longest bookable window; also bounds how far back calendar queries look for overlapping bookings
+export const MAX_RESERVATION_HOURS = 72;
+
+// Booking of a shareable drone for a future time window
+export interface DroneReservation {
+  id: string;
+  droneId: string;
+  userId: string;
+  userEmail: string;
+  startTime: Date;
+  endTime: Date;
+  purpose?: string; // e.g. "Winter training, Kasprowy Wierch"
+  status: DroneReservationStatus;
+  claimId?: string; // claim created when the window started
+  cancelReason?: string; // given by a manager/admin when bumping
+  createdAt: Date;
+  updatedAt?: Date;
+  createdBy: string;
+  updatedBy?: string;
+}
+
+// Form data for creating a reservation
+export interface DroneReservationData {
+  droneId: string;
+  startTime: Date;
+  endTime: Date;
+  purpose?: string;
+}
+
+// What stands in the way of a new reservation
+export interface DroneReservationConflicts {
+  reservations: DroneReservation[]; // overlapping reservations, these block the booking
+  activeClaim: DroneClaim | null; // claim held by someone else right now, shown as a warning
+}
@@ -0,0 +1,30 @@
+// Result for a single equipment item; names are copied so old checks stay readable after the kit changes
+export interface EquipmentCheckItem {
+  itemId: string;
+  storageId: string;
+  storageName: string;
+  name: string;
+  quantity: number;
+  present: boolean;
+}
+
+// One run of the equipment checklist for a drone
+export interface EquipmentCheck {
+  id: string;
+  droneId: string;
+  userId: string;
+  userEmail: string;
+  checkedAt: Date;
+  items: EquipmentCheckItem[];
+  missingCount: number;
+  claimId?: string; // claim held by the user when the check was made
+  flightId?: string; // flight the check was made for
+}
+
+export interface EquipmentCheckData extends Omit<EquipmentCheck, 'id' | 'checkedAt'> {}
+
+// Optional records a check can be linked to
+export interface EquipmentCheckLinks {
+  claimId?: string;
+  flightId?: string;
+}
@@ -44,12 +44,56 @@ export interface Flight {
   endTime: string; // ISO datetime string for flights that can cross midnight
   conditions: string; // Warunki
   additionalInfo?: string; // Additional information about the flight
+  missionId?: string; // reference to missions.id for flights flown during a rescue mission
+  batteryIds?: string[]; // references to batteries.id of the packs used, each gains a cycle
+  trackUrl?: string; // Storage download URL of the raw track file (GPX, KML or DJI CSV)
+  trackFileName?: string; // original name of the imported track file
+  trackFormat?: FlightTrackFormat;
+  maxAltitude?: number; // meters above the takeoff point, from the track
+  distanceFlown?: number; // meters, from the track
+  isDeleted?: boolean; // soft-delete flag
+  deletedAt?: Date; // timestamp when deleted
   createdAt?: Date; // timestamp when created
   updatedAt?: Date; // timestamp when last updated
   createdBy?: string; // user ID who created it
   updatedBy?: string; // user ID who last updated it
 }
 
+// Supported flight track file formats
+export type FlightTrackFormat = 'gpx' | 'kml' | 'dji-csv';
+
+// Single recorded position of a flight track
+export interface FlightTrackPoint {
+  latitude: number;
+  longitude: number;
+  altitude?: number; // meters, as recorded (AMSL or above takeoff depending on the source)
+  time?: string; // ISO datetime string
+}
+
+// Values derived from a flight track
+export interface FlightTrackSummary {
+  startTime?: string; // ISO datetime string of the first timed point
+  endTime?: string; // ISO datetime string of the last timed point
+  takeoffCoordinates: string; // "latitude, longitude" of the first point
+  maxAltitude?: number; // meters above the takeoff point
+  distance: number; // meters along the track
+  pointCount: number;
+}
+
+// Result of parsing a track file
+export interface ParsedFlightTrack {
+  format: FlightTrackFormat;
+  points: FlightTrackPoint[];
+  summary: FlightTrackSummary;
+}
+
+// Track file picked in the flight form, uploaded once the flight is saved
+export interface FlightTrackImport {
+  fileName: string;
+  content: string; // raw file content
+  track: ParsedFlightTrack;
+}
+
 // Query parameters for fetching flights with filtering and pagination
 export interface FlightQuery {
   pageSize?: number;
@@ -60,6 +104,7 @@ export interface FlightQuery {
   activityType?: ActivityType;
   userEmail?: string; // For admin/manager to filter by pilot email
   droneId?: string;
+  includeDeleted?: boolean; // Admin only: include soft-deleted flights
   lastDocumentSnapshot?: any; // Firestore DocumentSnapshot for pagination
 }
 
@@ -72,4 +117,32 @@ export interface PaginatedFlightResponse {
   currentPage: number;
   totalPages: number;
   lastDocumentSnapshot?: any;
-}
\ No newline at end of file
+}
+// Query parameters for flight statistics
+export interface FlightStatisticsQuery {
+  startDate?: Date;
+  endDate?: Date;
+}
+
+// Dimensions flight statistics can be broken down by
+export type FlightStatisticsDimension = 'operationType' | 'activityType' | 'drone' | 'pilot';
+
+// Flight count and total flight time
+export interface FlightStatisticsTotals {
+  flightCount: number;
+  totalMinutes: number;
+}
+
+// Totals for one value of a dimension (e.g. operation type 'IR'), also split per month
+export interface FlightStatisticsGroup extends FlightStatisticsTotals {
+  key: string;
+  label: string;
+  byMonth: Record<string, FlightStatisticsTotals>; // keyed by YYYY-MM
+}
+
+// Aggregated flight statistics for a date range
+export interface FlightStatistics extends FlightStatisticsTotals {
+  months: string[]; // YYYY-MM, chronological
+  byMonth: Record<string, FlightStatisticsTotals>;
+  groups: Record<FlightStatisticsDimension, FlightStatisticsGroup[]>;
+}
@@ -0,0 +1,44 @@
+import { FlightCategory } from '@/types/Flight';
+
+// Recency rule for pilot currency checks, configurable in appsettings/flightCurrencyRules
+export interface FlightCurrencyRules {
+  recencyMinFlights: number; // minimum number of flights...
+  recencyPeriodDays: number; // ...within this many days before the new flight
+}
+
+export const DEFAULT_FLIGHT_CURRENCY_RULES: FlightCurrencyRules = {
+  recencyMinFlights: 3,
+  recencyPeriodDays: 90,
+};
+
+// Problems found when checking whether a pilot may log a flight
+export type FlightCurrencyIssueCode =
+  | 'pilotNotFound'
+  | 'missingQualification'
+  | 'pilotLicenseMissing'
+  | 'pilotLicenseExpired'
+  | 'operatorRegistrationMissing'
+  | 'operatorRegistrationExpired'
+  | 'insuranceMissing'
+  | 'insuranceExpired'
+  | 'recencyNotMet';
+
+// Errors block saving the flight (unless overridden by an admin), warnings are informational
+export type FlightCurrencyIssueSeverity = 'error' | 'warning';
+
+export interface FlightCurrencyIssue {
+  code: FlightCurrencyIssueCode;
+  severity: FlightCurrencyIssueSeverity;
+  params?: Record<string, string | number>; // interpolation values for the translated message
+}
+
+export interface FlightCurrencyCheckResult {
+  errors: FlightCurrencyIssue[];
+  warnings: FlightCurrencyIssue[];
+}
+
+// Input for a pilot currency check
+export interface FlightCurrencyCheckInput {
+  flightCategory?: FlightCategory;
+  flightDate: string; // YYYY-MM-DD
+}
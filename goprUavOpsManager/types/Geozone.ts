@@ -0,0 +1,41 @@
+import { Coordinates } from '@/utils/coordinateUtils';
+
+// How strongly a zone limits UAV operations (ED-269 restriction values)
+export type GeozoneRestriction = 'prohibited' | 'authorization' | 'conditional' | 'none';
+
+// Most restrictive first
+export const GEOZONE_RESTRICTIONS: GeozoneRestriction[] = ['prohibited', 'authorization', 'conditional', 'none'];
+
+// Vertical limit of a zone, in meters
+export interface GeozoneAltitudeLimit {
+  value: number;
+  reference: 'AGL' | 'AMSL';
+}
+
+export interface Geozone {
+  id: string;
+  name: string;
+  type: string; // e.g. CTR, ATZ, R, P, NATIONAL_PARK
+  restriction: GeozoneRestriction;
+  polygons: Coordinates[][]; // outer rings, circles are approximated by polygons
+  lowerLimit?: GeozoneAltitudeLimit;
+  upperLimit?: GeozoneAltitudeLimit;
+  message?: string;
+  source: 'bundled' | 'imported';
+}
+
+// A zone found near a checked position
+export interface GeozoneMatch {
+  zone: Geozone;
+  inside: boolean;
+  distance: number; // meters from the position to the zone border, 0 when inside
+}
+
+// Imported dataset stored in app settings
+export interface GeozoneDatasetInfo {
+  fileName: string;
+  url: string;
+  zoneCount: number;
+  importedAt: Date;
+  importedBy: string;
+}
@@ -0,0 +1,26 @@
+// Group an image is cached under, by the screen that needed it
+export type ImageCacheNamespace = 'procedures' | 'equipment' | 'comments' | 'other';
+
+// Cached image as seen by eviction and usage statistics
+export interface ImageCacheEntry {
+  key: string;
+  originalUrl: string;
+  namespace: ImageCacheNamespace;
+  size: number;
+  cachedAt: number;
+  lastAccessedAt: number;
+}
+
+export interface ImageCacheNamespaceUsage {
+  size: number;
+  count: number;
+  // Part of the usage held by pinned images, which eviction and purging never remove
+  pinnedSize: number;
+  pinnedCount: number;
+}
+
+export interface ImageCacheStats {
+  size: number;
+  count: number;
+  namespaces: Record<ImageCacheNamespace, ImageCacheNamespaceUsage>;
+}
@@ -0,0 +1,83 @@
+export type MaintenanceType =
+  | 'inspection'
+  | 'propellerReplacement'
+  | 'firmwareUpdate'
+  | 'motorReplacement'
+  | 'batteryService'
+  | 'calibration'
+  | 'repair'
+  | 'other';
+
+export const MAINTENANCE_TYPES: MaintenanceType[] = [
+  'inspection',
+  'propellerReplacement',
+  'firmwareUpdate',
+  'motorReplacement',
+  'batteryService',
+  'calibration',
+  'repair',
+  'other',
+];
+
+// Share of an interval used up before a drone is shown as due soon
+export const SERVICE_DUE_SOON_RATIO = 0.9;
+
+/**
+ * Recurring service a drone needs, stored on the drone. Any limit that is reached
+ * makes the service due; logging maintenance for the interval starts it again.
+ */
+export interface ServiceInterval {
+  id: string;
+  name: string;
+  maintenanceType: MaintenanceType; // entries of this type reset the interval by default
+  flightHours?: number;
+  flightCycles?: number; // number of flights
+  calendarDays?: number;
+  lastServiceAt: Date;
+  lastServiceFlightMinutes: number; // drone totalFlightTime when last serviced
+  lastServiceFlightCount: number; // drone totalFlightCount when last serviced
+}
+
+// Interval limits as edited by managers; the baseline is kept by the service
+export type ServiceIntervalInput = Pick<ServiceInterval, 'name' | 'maintenanceType' | 'flightHours' | 'flightCycles' | 'calendarDays'> & {
+  id?: string;
+};
+
+export type ServiceStatus = 'ok' | 'dueSoon' | 'overdue';
+
+export interface ServiceIntervalStatus {
+  interval: ServiceInterval;
+  status: ServiceStatus;
+  minutesRemaining?: number;
+  cyclesRemaining?: number;
+  daysRemaining?: number;
+}
+
+export interface MaintenanceEntry {
+  id: string;
+  droneId: string;
+  type: MaintenanceType;
+  description: string;
+  performedAt: Date;
+  cost?: number; // in PLN
+  attachments: string[]; // URLs of uploaded photos and documents
+  flightMinutesAtService: number;
+  flightCountAtService: number;
+  resetIntervalIds: string[]; // service intervals restarted by this entry
+  userId: string;
+  userEmail: string;
+  isDeleted: boolean;
+  createdAt: Date;
+  updatedAt?: Date;
+  createdBy: string;
+  updatedBy?: string;
+}
+
+export interface MaintenanceEntryData {
+  type: MaintenanceType;
+  description: string;
+  performedAt: Date;
+  cost?: number;
+  attachments: string[];
+  resetIntervalIds: string[];
+}
@@ -0,0 +1,39 @@
+import { Coordinates, CoordinatesBounds } from '@/utils/coordinateUtils';
+
+export type MapTileSource = 'osm' | 'topo';
+
+// Slippy map tile address
+export interface TileCoordinate {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// Area chosen for download: a square around a point and a range of zoom levels
+export interface OfflineMapAreaRequest {
+  center: Coordinates;
+  radiusKm: number;
+  minZoom: number;
+  maxZoom: number;
+  source: MapTileSource;
+}
+
+// Area whose tiles are stored on the device
+export interface OfflineMapArea extends OfflineMapAreaRequest {
+  id: string;
+  bounds: CoordinatesBounds;
+  tileCount: number;
+  downloadedAt: number;
+}
+
+// Where the embedded Leaflet maps load their script, stylesheet and tiles from
+export interface MapTileResources {
+  leafletScriptUrl: string;
+  leafletStylesheetUrl: string;
+  leafletScriptIntegrity?: string;
+  leafletStylesheetIntegrity?: string;
+  tileUrlTemplate: string;
+  attribution: string;
+  maxNativeZoom?: number; // deepest downloaded zoom, tiles are scaled up beyond it
+  baseUrl?: string; // local directory the map page may read files from
+}
@@ -0,0 +1,71 @@
+// Outcome of a search-and-rescue mission
+export type MissionOutcome = 'ongoing' | 'found_alive' | 'found_deceased' | 'not_found' | 'cancelled' | 'other';
+
+// Available outcomes for select field
+export const AVAILABLE_MISSION_OUTCOMES: MissionOutcome[] = [
+  'ongoing', 'found_alive', 'found_deceased', 'not_found', 'cancelled', 'other'
+];
+
+// Search-and-rescue mission (one record per callout) grouping the flights flown for it
+export interface Mission {
+  id: string;
+  incidentNumber: string; // GOPR incident/callout number
+  title: string;
+  searchArea: string; // description of the search area
+  searchAreaCoordinates?: string; // GPS coordinates of the search area center in "latitude, longitude" format
+  startTime: string; // ISO datetime string
+  endTime?: string; // ISO datetime string, empty while the mission is ongoing
+  outcome: MissionOutcome;
+  notes?: string;
+  flights?: MissionFlight[]; // linked flights, kept by the mission flights function
+  isDeleted?: boolean; // soft-delete flag
+  deletedAt?: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+  createdBy?: string; // user ID who created it
+  updatedBy?: string; // user ID who last updated it
+}
+
+// Flight linked to a mission, as stored on the mission for its timeline and totals
+// (pilots can't read each other's flights, so only these fields are shared)
+export interface MissionFlight {
+  id: string; // flight ID
+  userId: string;
+  userEmail?: string; // pilot email snapshot
+  droneId: string;
+  droneName?: string;
+  startTime: string; // ISO datetime string
+  endTime: string; // ISO datetime string
+}
+
+// Form data interface for mission creation/editing
+export interface MissionFormData {
+  incidentNumber: string;
+  title: string;
+  searchArea: string;
+  searchAreaCoordinates?: string;
+  startTime: string;
+  endTime?: string;
+  outcome: MissionOutcome;
+  notes?: string;
+}
+
+// Kind of entry in the combined mission timeline
+export type MissionTimelineEventType = 'missionStart' | 'flightStart' | 'flightEnd' | 'missionEnd';
+
+// Entry of the combined mission timeline
+export interface MissionTimelineEvent {
+  time: string; // ISO datetime string
+  type: MissionTimelineEventType;
+  flightId?: string;
+  pilot?: string; // pilot email snapshot of the flight
+  droneName?: string;
+}
+
+// Totals of the flights linked to a mission
+export interface MissionSummary {
+  flightCount: number;
+  totalMinutes: number; // combined air time of all flights
+  pilots: string[]; // distinct pilot emails
+  droneNames: string[]; // distinct drone names
+}
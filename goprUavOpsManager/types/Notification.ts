@@ -0,0 +1,35 @@
+// Kind of notification written by the backend
+export type NotificationType = 'documentExpiry' | 'claimOverdue' | 'claimAutoReleased';
+
+// User profile documents that expire (see User.pilotValidityDate, operatorValidityDate, insurance)
+export type ExpiringDocumentType = 'pilotValidityDate' | 'operatorValidityDate' | 'insurance';
+
+// Fields shared by all notifications (created by scheduled Cloud Functions, read-only for clients apart from the read flag)
+interface NotificationBase {
+  id: string;
+  userId: string; // Firebase Auth UID of the recipient
+  type: NotificationType;
+  read: boolean;
+  readAt?: Date;
+  createdAt: Date;
+}
+
+export interface DocumentExpiryNotification extends NotificationBase {
+  type: 'documentExpiry';
+  documentType: ExpiringDocumentType; // Which document is about to expire
+  expiryDate: string; // YYYY-MM-DD format
+  daysBefore: number; // Notice threshold (60, 30 or 7 days)
+  daysLeft: number; // Days left when the notification was created
+}
+
+// Sent to the holder of a drone claim that exceeded the maximum claim duration
+export interface DroneClaimNotification extends NotificationBase {
+  type: 'claimOverdue' | 'claimAutoReleased';
+  droneId: string;
+  droneName: string;
+  claimId: string;
+  claimStartTime: Date;
+  autoReleaseAt?: Date; // claimOverdue only
+}
+
+export type Notification = DocumentExpiryNotification | DroneClaimNotification;
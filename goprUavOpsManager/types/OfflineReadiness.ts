@@ -0,0 +1,12 @@
+// Data downloaded to the device after login so the app can be used without a connection
+export type OfflineDataset = 'procedures' | 'categories' | 'drones' | 'claims' | 'flights' | 'tasks';
+
+export interface OfflineDatasetStatus {
+  dataset: OfflineDataset;
+  itemCount: number;
+  lastUpdated: Date | null; // null when never downloaded on this device
+}
+
+// 'ready' every dataset downloaded recently, 'stale' every dataset downloaded but some are old,
+// 'partial' some datasets never downloaded, 'none' nothing downloaded yet
+export type OfflineReadinessLevel = 'ready' | 'stale' | 'partial' | 'none';
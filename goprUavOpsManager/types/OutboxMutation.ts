@@ -0,0 +1,52 @@
+import { Flight } from './Flight';
+import { DroneCommentCreateData } from './DroneComment';
+import { TaskStatusUpdate } from './Task';
+import { UserRole } from './UserRole';
+
+// Writes that can be made offline and are replayed later through the services
+export type OutboxMutationType = 'createFlight' | 'createDroneComment' | 'updateTaskStatus';
+
+// 'pending' waits for replay, 'conflict' waits for the user to apply it anyway or discard it,
+// 'failed' was rejected by the server on every attempt
+export type OutboxMutationStatus = 'pending' | 'conflict' | 'failed';
+
+// What changed on the server since the mutation was made offline
+export type OutboxConflictReason =
+  | 'droneUnavailable' // drone deleted or no longer visible
+  | 'overlappingFlight' // the pilot already has a flight on the drone at that time
+  | 'taskUnavailable' // task deleted
+  | 'taskChanged'; // task edited after the status update was made
+
+export interface CreateFlightMutation {
+  type: 'createFlight';
+  flightData: Omit<Flight, 'id' | 'createdAt' | 'updatedAt' | 'createdBy' | 'updatedBy'>;
+}
+
+export interface CreateDroneCommentMutation {
+  type: 'createDroneComment';
+  commentData: DroneCommentCreateData;
+}
+
+export interface UpdateTaskStatusMutation {
+  type: 'updateTaskStatus';
+  taskId: string;
+  taskTitle: string; // snapshot for the pending list
+  statusUpdate: TaskStatusUpdate;
+  baseUpdatedAt?: Date; // last change of the task the user saw when making the update
+}
+
+export type OutboxMutationPayload = CreateFlightMutation | CreateDroneCommentMutation | UpdateTaskStatusMutation;
+
+// A write kept on the device until it has been replayed
+export type OutboxMutation = OutboxMutationPayload & {
+  id: string; // idempotency key, also used as the id of the created document
+  userId: string;
+  userEmail?: string;
+  userRole: UserRole;
+  createdAt: Date;
+  status: OutboxMutationStatus;
+  attempts: number; // failed replays so far
+  conflictReason?: OutboxConflictReason;
+  lastError?: string;
+  force?: boolean; // the user chose to apply it despite a conflict
+};
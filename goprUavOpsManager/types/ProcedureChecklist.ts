@@ -1,6 +1,20 @@
 export type ChecklistItemType = 'simple' | 'control';
 
-export interface ChecklistSubItem {
+// Kind of value the operator records for a 'control' sub-item during execution
+export type ControlValueType = 'boolean' | 'numeric' | 'enum' | 'text';
+
+// Typed value settings of a 'control' sub-item; controls without a valueType take free text
+export interface ControlValueSettings {
+  valueType?: ControlValueType; // default: 'text'
+  expectedBoolean?: boolean; // 'boolean': the answer that is in range
+  min?: number; // 'numeric': lowest value in range
+  max?: number; // 'numeric': highest value in range
+  unit?: string; // 'numeric': e.g. 'V' or 'sats'
+  options?: string[]; // 'enum': choices offered to the operator
+  acceptedOptions?: string[]; // 'enum': choices that are in range, all when empty
+}
+
+export interface ChecklistSubItem extends ControlValueSettings {
   id: string;
   type?: ChecklistItemType; // default: 'simple'
   topic: string;
@@ -33,6 +47,7 @@ export interface ProcedureChecklist {
   description?: string;
   items: ChecklistItem[];
   categories?: string[]; // array of category IDs this procedure belongs to
+  version?: number; // number of the latest saved version, missing for procedures saved before versioning
   createdBy: string; // user ID who created it
   updatedBy?: string; // user ID who last updated it
   isDeleted?: boolean; // soft-delete flag
@@ -47,9 +62,10 @@ export interface ProcedureChecklistFormData {
   description: string;
   items: ChecklistItemFormData[];
   categories?: string[]; // array of category IDs
+  changeNote?: string; // what changed, stored with the new version
 }
 
-export interface ChecklistSubItemFormData {
+export interface ChecklistSubItemFormData extends ControlValueSettings {
   id: string;
   type?: ChecklistItemType; // default: 'simple'
   topic: string;
@@ -70,4 +86,29 @@ export interface ChecklistItemFormData {
   link?: string; // Optional to match ChecklistItem
   file?: string; // URL or file reference
   subItems?: ChecklistSubItemFormData[];
-}
\ No newline at end of file
+}
+// Immutable snapshot of a procedure, saved each time it is created or edited
+export interface ProcedureVersion {
+  id: string;
+  procedureId: string;
+  version: number;
+  title: string;
+  description?: string;
+  items: ChecklistItem[];
+  categories?: string[];
+  changeNote?: string;
+  createdBy: string; // user ID who saved this version
+  createdAt?: Date;
+}
+
+// Marks a soft-deleted procedure for users who can't read deleted procedures themselves
+export interface ProcedureTombstone {
+  procedureId: string;
+  deletedAt: Date;
+}
+
+// Procedures changed since the last sync of the offline cache
+export interface ProcedureChecklistChanges {
+  changed: ProcedureChecklist[];
+  deleted: ProcedureTombstone[];
+}
@@ -0,0 +1,85 @@
+import { ControlValueType, ProcedureChecklist } from './ProcedureChecklist';
+
+// Result for a top-level checklist item; topics are copied so old runs stay readable after edits
+export interface ProcedureExecutionItemResult {
+  itemId: string;
+  number: number;
+  topic: string;
+  completed: boolean;
+}
+
+// Result for a sub-item at any nesting level
+export interface ProcedureExecutionSubItemResult {
+  subItemId: string;
+  itemId: string; // top-level item the sub-item belongs to
+  parentSubItemId?: string; // set for nested sub-items
+  topic: string;
+  completed: boolean;
+  control?: string; // what a 'control' sub-item asks to check
+  requiredState?: string; // state the control should be in
+  value?: string; // actual value the operator recorded for the control
+  valueType?: ControlValueType; // how the value was recorded, missing for free-text controls
+  unit?: string; // unit of a numeric value
+  outOfRange?: boolean; // set when the value is outside what the control accepts
+}
+
+// 'completed' when every item was ticked off, 'incomplete' when the run was closed early
+export type ProcedureExecutionStatus = 'completed' | 'incomplete';
+
+// One stored run of a procedure/checklist
+export interface ProcedureExecution {
+  id: string;
+  procedureId: string;
+  procedureTitle: string; // snapshot for display
+  procedureVersion?: number; // version of the procedure that was run, see ProcedureVersion
+  procedureUpdatedAt?: Date; // last edit of the procedure when it was run
+  userId: string;
+  userEmail: string;
+  droneId?: string; // drone the procedure was run for
+  flightId?: string; // flight the run belongs to, e.g. the pre-flight checklist
+  startedAt: Date;
+  finishedAt: Date;
+  status: ProcedureExecutionStatus;
+  items: ProcedureExecutionItemResult[];
+  subItems: ProcedureExecutionSubItemResult[];
+  overrideNote?: string; // why the run was finished with out-of-range control values
+  updatedAt?: Date;
+  updatedBy?: string;
+}
+
+export interface ProcedureExecutionData extends Omit<ProcedureExecution, 'id' | 'updatedAt' | 'updatedBy'> {}
+
+// Optional records a run can be linked to
+export interface ProcedureExecutionLinks {
+  droneId?: string;
+  flightId?: string;
+}
+
+// In-progress run kept on the device so it survives app restarts
+export interface ProcedureExecutionProgress {
+  procedureId: string;
+  userId: string;
+  currentStep: number;
+  completedItemIds: string[];
+  completedSubItemIds: string[];
+  controlValues: Record<string, string>; // by sub-item id
+  droneId?: string;
+  flightId?: string;
+  startedAt: Date;
+  savedAt: Date;
+}
+
+// Finished run waiting on the device until it can be uploaded
+export interface QueuedProcedureExecution {
+  localId: string;
+  procedure: Pick<ProcedureChecklist, 'id' | 'title' | 'version' | 'updatedAt'>;
+  userId: string;
+  userEmail?: string;
+  links: ProcedureExecutionLinks;
+  startedAt: Date;
+  finishedAt: Date;
+  status: ProcedureExecutionStatus;
+  items: ProcedureExecutionItemResult[];
+  subItems: ProcedureExecutionSubItemResult[];
+  overrideNote?: string;
+}
@@ -0,0 +1,63 @@
+import {
+  getBatteryIssues,
+  isBatteryDegraded,
+  getCompatibleBatteries,
+} from '../batteryUtils';
+import { Battery } from '@/types/Battery';
+
+// ── helpers ──────────────────────────────────────────────────────────────────
+
+function battery(overrides: Partial<Battery> = {}): Battery {
+  return {
+    id: 'battery-1',
+    label: 'M30-01',
+    compatibleDroneIds: ['drone-1'],
+    cycleCount: 50,
+    ratedCycles: 200,
+    isRetired: false,
+    ...overrides,
+  };
+}
+
+// ── health ───────────────────────────────────────────────────────────────────
+
+describe('getBatteryIssues', () => {
+  it('finds nothing wrong with a healthy pack', () => {
+    expect(getBatteryIssues(battery())).toEqual([]);
+  });
+
+  it('warns at 90% of the rated cycles', () => {
+    expect(getBatteryIssues(battery({ cycleCount: 180 }))).toEqual(['nearCycleLimit']);
+  });
+
+  it('flags a pack past its rated cycles and marked degraded', () => {
+    expect(getBatteryIssues(battery({ cycleCount: 200, markedDegraded: true })))
+      .toEqual(['markedDegraded', 'cycleLimit']);
+  });
+
+  it('ignores cycles without a rating', () => {
+    expect(getBatteryIssues(battery({ cycleCount: 900, ratedCycles: undefined }))).toEqual([]);
+  });
+});
+
+describe('isBatteryDegraded', () => {
+  it('does not count a pack nearing its limit as degraded', () => {
+    expect(isBatteryDegraded(battery({ cycleCount: 190 }))).toBe(false);
+    expect(isBatteryDegraded(battery({ cycleCount: 200 }))).toBe(true);
+  });
+});
+
+// ── flights ──────────────────────────────────────────────────────────────────
+
+describe('getCompatibleBatteries', () => {
+  it('lists active packs for the drone by label', () => {
+    const batteries = [
+      battery({ id: 'a', label: 'M30-10' }),
+      battery({ id: 'b', label: 'M30-2' }),
+      battery({ id: 'c', label: 'M30-1', isRetired: true }),
+      battery({ id: 'd', label: 'M30-3', compatibleDroneIds: ['drone-2'] }),
+    ];
+
+    expect(getCompatibleBatteries(batteries, 'drone-1').map(b => b.id)).toEqual(['b', 'a']);
+  });
+});
@@ -0,0 +1,109 @@
+import {
+  formatControlValue,
+  formatNumericRange,
+  isControlValueOutOfRange,
+  normalizeControlValueSettings,
+  parseNumericValue,
+} from '../controlValueUtils';
+
+// ── parsing ──────────────────────────────────────────────────────────────────
+
+describe('parseNumericValue', () => {
+  it('parses numbers with a decimal point or comma', () => {
+    expect(parseNumericValue('22.4')).toBe(22.4);
+    expect(parseNumericValue(' 22,4 ')).toBe(22.4);
+    expect(parseNumericValue('-3')).toBe(-3);
+  });
+
+  it('returns undefined for empty or non-numeric input', () => {
+    expect(parseNumericValue('')).toBeUndefined();
+    expect(parseNumericValue('  ')).toBeUndefined();
+    expect(parseNumericValue('12 V')).toBeUndefined();
+  });
+});
+
+// ── settings ─────────────────────────────────────────────────────────────────
+
+describe('normalizeControlValueSettings', () => {
+  it('keeps only the settings of the value type', () => {
+    expect(normalizeControlValueSettings({
+      valueType: 'numeric',
+      min: 44.4,
+      unit: ' V ',
+      expectedBoolean: true,
+      options: ['a'],
+    })).toEqual({ valueType: 'numeric', min: 44.4, max: undefined, unit: 'V' });
+
+    expect(normalizeControlValueSettings({ valueType: 'text', min: 1 })).toEqual({ valueType: 'text' });
+    expect(normalizeControlValueSettings({ min: 1 })).toEqual({});
+  });
+
+  it('trims and de-duplicates choices and drops accepted choices that no longer exist', () => {
+    expect(normalizeControlValueSettings({
+      valueType: 'enum',
+      options: [' GPS ', 'ATTI', '', 'GPS'],
+      acceptedOptions: ['GPS', 'Manual'],
+    })).toEqual({ valueType: 'enum', options: ['GPS', 'ATTI'], acceptedOptions: ['GPS'] });
+
+    expect(normalizeControlValueSettings({ valueType: 'enum', options: ['GPS'], acceptedOptions: ['Manual'] }))
+      .toEqual({ valueType: 'enum', options: ['GPS'], acceptedOptions: undefined });
+  });
+});
+
+// ── range checks ─────────────────────────────────────────────────────────────
+
+describe('isControlValueOutOfRange', () => {
+  it('checks numeric values against min and max', () => {
+    const settings = { valueType: 'numeric' as const, min: 44.4, max: 52.8 };
+
+    expect(isControlValueOutOfRange(settings, '48,2')).toBe(false);
+    expect(isControlValueOutOfRange(settings, '44.4')).toBe(false);
+    expect(isControlValueOutOfRange(settings, '43.9')).toBe(true);
+    expect(isControlValueOutOfRange(settings, '53')).toBe(true);
+    expect(isControlValueOutOfRange(settings, 'full')).toBe(true);
+    expect(isControlValueOutOfRange({ valueType: 'numeric', min: 10 }, '1000')).toBe(false);
+  });
+
+  it('checks boolean values against the expected answer', () => {
+    expect(isControlValueOutOfRange({ valueType: 'boolean', expectedBoolean: true }, 'true')).toBe(false);
+    expect(isControlValueOutOfRange({ valueType: 'boolean', expectedBoolean: true }, 'false')).toBe(true);
+    expect(isControlValueOutOfRange({ valueType: 'boolean' }, 'false')).toBe(false);
+  });
+
+  it('checks choices against the accepted ones', () => {
+    const settings = { valueType: 'enum' as const, options: ['GPS', 'ATTI'], acceptedOptions: ['GPS'] };
+
+    expect(isControlValueOutOfRange(settings, 'GPS')).toBe(false);
+    expect(isControlValueOutOfRange(settings, 'ATTI')).toBe(true);
+    expect(isControlValueOutOfRange({ valueType: 'enum', options: ['GPS', 'ATTI'] }, 'ATTI')).toBe(false);
+  });
+
+  it('never flags missing values or free text', () => {
+    expect(isControlValueOutOfRange({ valueType: 'numeric', min: 10 }, undefined)).toBe(false);
+    expect(isControlValueOutOfRange({ valueType: 'numeric', min: 10 }, ' ')).toBe(false);
+    expect(isControlValueOutOfRange({ valueType: 'text' }, 'anything')).toBe(false);
+    expect(isControlValueOutOfRange({}, 'anything')).toBe(false);
+  });
+});
+
+// ── formatting ───────────────────────────────────────────────────────────────
+
+describe('formatNumericRange', () => {
+  it('formats the limits that are set, with the unit', () => {
+    expect(formatNumericRange({ valueType: 'numeric', min: 44.4, max: 52.8, unit: 'V' })).toBe('44.4–52.8 V');
+    expect(formatNumericRange({ valueType: 'numeric', min: 10, unit: 'sats' })).toBe('≥ 10 sats');
+    expect(formatNumericRange({ valueType: 'numeric', max: 5 })).toBe('≤ 5');
+    expect(formatNumericRange({ valueType: 'numeric' })).toBeUndefined();
+    expect(formatNumericRange({ valueType: 'text' })).toBeUndefined();
+  });
+});
+
+describe('formatControlValue', () => {
+  it('formats values by their type', () => {
+    expect(formatControlValue({ value: 'true', valueType: 'boolean' }, 'Yes', 'No')).toBe('Yes');
+    expect(formatControlValue({ value: 'false', valueType: 'boolean' }, 'Yes', 'No')).toBe('No');
+    expect(formatControlValue({ value: '48.2', valueType: 'numeric', unit: 'V' }, 'Yes', 'No')).toBe('48.2 V');
+    expect(formatControlValue({ value: 'GPS', valueType: 'enum' }, 'Yes', 'No')).toBe('GPS');
+    expect(formatControlValue({}, 'Yes', 'No')).toBe('—');
+  });
+});
@@ -0,0 +1,163 @@
+import { CoordinateUtils, Coordinates } from '../coordinateUtils';
+
+// ── helpers ──────────────────────────────────────────────────────────────────
+
+const zakopane: Coordinates = { latitude: 49.2992, longitude: 19.9496 };
+const sydney: Coordinates = { latitude: -33.8688, longitude: 151.2093 };
+
+function expectClose(actual: Coordinates | null, expected: Coordinates, digits: number = 5) {
+  expect(actual).not.toBeNull();
+  expect(actual!.latitude).toBeCloseTo(expected.latitude, digits);
+  expect(actual!.longitude).toBeCloseTo(expected.longitude, digits);
+}
+
+// ── decimal ──────────────────────────────────────────────────────────────────
+
+describe('CoordinateUtils decimal parsing', () => {
+  it('parses the existing decimal forms', () => {
+    expect(CoordinateUtils.parse('49.2992, 19.9496')).toEqual(zakopane);
+    expect(CoordinateUtils.parse('49.2992 19.9496')).toEqual(zakopane);
+    expect(CoordinateUtils.parse('(49.2992;19.9496)')).toEqual(zakopane);
+    expect(CoordinateUtils.detectFormat('49.2992, 19.9496')).toBe('decimal');
+  });
+
+  it('parses decimal degrees written with degree marks or hemisphere letters', () => {
+    expectClose(CoordinateUtils.parse('49.24°N 19.97°E'), { latitude: 49.24, longitude: 19.97 });
+    expectClose(CoordinateUtils.parse('N49.24 E19.97'), { latitude: 49.24, longitude: 19.97 });
+    expectClose(CoordinateUtils.parse('49.24°, 19.97°'), { latitude: 49.24, longitude: 19.97 });
+    expectClose(CoordinateUtils.parse('49°N 19°E'), { latitude: 49, longitude: 19 });
+    expectClose(CoordinateUtils.parse('33.87°S 70.65°W'), { latitude: -33.87, longitude: -70.65 });
+    expect(CoordinateUtils.detectFormat('49.24°N 19.97°E')).toBe('decimal');
+  });
+
+  it('rejects invalid input', () => {
+    expect(CoordinateUtils.parse('')).toBeNull();
+    expect(CoordinateUtils.parse('hello world')).toBeNull();
+    expect(CoordinateUtils.parse('49.1 19.2 3')).toBeNull();
+    expect(CoordinateUtils.parse('95, 19')).toBeNull();
+    expect(CoordinateUtils.detectFormat('49.2992')).toBeNull();
+  });
+});
+
+// ── DMS / DDM ────────────────────────────────────────────────────────────────
+
+describe('CoordinateUtils DMS and DDM', () => {
+  it('parses DMS with suffixed and prefixed hemispheres', () => {
+    expectClose(CoordinateUtils.parse('49°14\'30"N 19°58\'12"E'), { latitude: 49.241667, longitude: 19.97 });
+    expectClose(CoordinateUtils.parse('N 49°14\'30" E 19°58\'12"'), { latitude: 49.241667, longitude: 19.97 });
+    expect(CoordinateUtils.detectFormat('49°14\'30"N 19°58\'12"E')).toBe('dms');
+  });
+
+  it('accepts typographic marks and longitude first', () => {
+    expectClose(CoordinateUtils.parse('19º58′12″E, 49º14′30″N'), { latitude: 49.241667, longitude: 19.97 });
+  });
+
+  it('applies southern and western hemispheres', () => {
+    expectClose(CoordinateUtils.parse('S 33°52.128\' E 151°12.558\''), { latitude: -33.8688, longitude: 151.2093 });
+    expectClose(CoordinateUtils.parse('33°52\'S 70°39\'W'), { latitude: -33.866667, longitude: -70.65 });
+    expect(CoordinateUtils.detectFormat('S 33°52.128\' E 151°12.558\'')).toBe('ddm');
+  });
+
+  it('rejects out of range minutes and duplicate axes', () => {
+    expect(CoordinateUtils.parse('49°61\'N 19°58\'E')).toBeNull();
+    expect(CoordinateUtils.parse('49°14\'N 19°58\'N')).toBeNull();
+  });
+
+  it('formats DMS and DDM', () => {
+    expect(CoordinateUtils.formatAs(zakopane, 'dms')).toBe('49°17\'57.1"N 19°56\'58.6"E');
+    expect(CoordinateUtils.formatAs(zakopane, 'ddm')).toBe('49°17.952\'N 19°56.976\'E');
+    expect(CoordinateUtils.formatAs(sydney, 'ddm')).toBe('33°52.128\'S 151°12.558\'E');
+  });
+
+  it('carries rounded seconds into minutes and degrees', () => {
+    expect(CoordinateUtils.formatAs({ latitude: 49.99999999, longitude: 19.99999999 }, 'dms'))
+      .toBe('50°00\'00.0"N 20°00\'00.0"E');
+  });
+});
+
+// ── UTM ──────────────────────────────────────────────────────────────────────
+
+describe('CoordinateUtils UTM', () => {
+  it('converts to UTM', () => {
+    expect(CoordinateUtils.formatAs(zakopane, 'utm')).toBe('34U 423633 5461248');
+    expect(CoordinateUtils.formatAs(sydney, 'utm')).toBe('56H 334369 6250948');
+  });
+
+  it('parses UTM back to the same position', () => {
+    expectClose(CoordinateUtils.parse('34U 423633 5461248'), zakopane);
+    expectClose(CoordinateUtils.parse('56H 334369mE 6250948mN'), sydney);
+    expect(CoordinateUtils.detectFormat('34U 423633 5461248')).toBe('utm');
+  });
+
+  it('applies the Norway zone exception', () => {
+    expect(CoordinateUtils.toUTM({ latitude: 60, longitude: 5 }).zone).toBe(32);
+  });
+
+  it('rejects positions outside the UTM range', () => {
+    expect(() => CoordinateUtils.formatAs({ latitude: 85, longitude: 10 }, 'utm')).toThrow('Coordinates outside the UTM range');
+  });
+});
+
+// ── MGRS ─────────────────────────────────────────────────────────────────────
+
+describe('CoordinateUtils MGRS', () => {
+  it('converts to MGRS', () => {
+    expect(CoordinateUtils.formatAs(zakopane, 'mgrs')).toBe('34U DV 23632 61248');
+    expect(CoordinateUtils.formatAs(sydney, 'mgrs')).toBe('56H LH 34368 50948');
+  });
+
+  it('parses spaced and compact MGRS', () => {
+    expectClose(CoordinateUtils.parse('34U DV 23632 61248'), zakopane, 4);
+    expectClose(CoordinateUtils.parse('56hlh3436850948'), sydney, 4);
+    expect(CoordinateUtils.detectFormat('34UDV2363261248')).toBe('mgrs');
+  });
+
+  it('parses reduced precision references', () => {
+    expectClose(CoordinateUtils.parse('34U DV 236 612'), { latitude: 49.2988, longitude: 19.9491 }, 2);
+  });
+
+  it('round-trips positions across zones and hemispheres', () => {
+    const positions: Coordinates[] = [
+      { latitude: 60, longitude: 5 },
+      { latitude: -45.5, longitude: -70.25 },
+      { latitude: 0.5, longitude: 0.5 },
+      { latitude: 78.2, longitude: 15.6 },
+    ];
+    for (const position of positions) {
+      expectClose(CoordinateUtils.parse(CoordinateUtils.formatAs(position, 'mgrs')), position, 4);
+    }
+  });
+});
+
+// ── polygons ─────────────────────────────────────────────────────────────────
+
+describe('CoordinateUtils polygons', () => {
+  const square: Coordinates[] = [
+    { latitude: 49.25, longitude: 19.90 },
+    { latitude: 49.25, longitude: 19.92 },
+    { latitude: 49.26, longitude: 19.92 },
+    { latitude: 49.26, longitude: 19.90 },
+  ];
+
+  it('checks points inside a polygon', () => {
+    expect(CoordinateUtils.isPointInPolygon({ latitude: 49.255, longitude: 19.91 }, square)).toBe(true);
+    expect(CoordinateUtils.isPointInPolygon({ latitude: 49.265, longitude: 19.91 }, square)).toBe(false);
+    expect(CoordinateUtils.isPointInPolygon({ latitude: 49.255, longitude: 19.91 }, square.slice(0, 2))).toBe(false);
+  });
+
+  it('measures the distance to the polygon border', () => {
+    // 0.005° of latitude north of the square is about 556 m
+    expect(CoordinateUtils.distanceToPolygon({ latitude: 49.265, longitude: 19.91 }, square)).toBeCloseTo(556, -1);
+    expect(CoordinateUtils.distanceToPolygon({ latitude: 49.255, longitude: 19.91 }, square)).toBeCloseTo(556, -1);
+  });
+
+  it('approximates circles', () => {
+    const circle = CoordinateUtils.createCirclePolygon(zakopane, 1000, 16);
+
+    expect(circle).toHaveLength(16);
+    circle.forEach(point => {
+      expect(CoordinateUtils.calculateDistance(zakopane, point).meters).toBeCloseTo(1000, 0);
+    });
+    expect(CoordinateUtils.isPointInPolygon(zakopane, circle)).toBe(true);
+  });
+});
@@ -0,0 +1,67 @@
+import { buildEquipmentCheckItems, getMissingItems } from '../equipmentCheckUtils';
+import { EquipmentStorage } from '@/types/Drone';
+import { EquipmentCheck } from '@/types/EquipmentCheck';
+
+// ── helpers ──────────────────────────────────────────────────────────────────
+
+const storages: EquipmentStorage[] = [
+  {
+    id: 'case',
+    name: 'Transport case',
+    items: [
+      { id: 'props', name: 'Propellers', quantity: 4 },
+      { id: 'rc', name: 'Remote controller', quantity: 1 },
+    ],
+  },
+  {
+    id: 'bag',
+    name: 'Battery bag',
+    items: [{ id: 'batteries', name: 'Batteries', quantity: 3 }],
+  },
+];
+
+function check(items: EquipmentCheck['items']): EquipmentCheck {
+  return {
+    id: 'check-1',
+    droneId: 'drone-1',
+    userId: 'user-1',
+    userEmail: 'user@example.com',
+    checkedAt: new Date(2025, 0, 6),
+    items,
+    missingCount: items.filter(item => !item.present).length,
+  };
+}
+
+// ── building results ─────────────────────────────────────────────────────────
+
+describe('buildEquipmentCheckItems', () => {
+  it('records every item of every storage, unticked ones as missing', () => {
+    const items = buildEquipmentCheckItems(storages, { props: true, batteries: true, unknown: true });
+
+    expect(items).toEqual([
+      { itemId: 'props', storageId: 'case', storageName: 'Transport case', name: 'Propellers', quantity: 4, present: true },
+      { itemId: 'rc', storageId: 'case', storageName: 'Transport case', name: 'Remote controller', quantity: 1, present: false },
+      { itemId: 'batteries', storageId: 'bag', storageName: 'Battery bag', name: 'Batteries', quantity: 3, present: true },
+    ]);
+  });
+
+  it('returns nothing for a drone without equipment', () => {
+    expect(buildEquipmentCheckItems([], {})).toEqual([]);
+  });
+});
+
+// ── last-known missing ───────────────────────────────────────────────────────
+
+describe('getMissingItems', () => {
+  it('returns missing items that are still part of the kit', () => {
+    const items = buildEquipmentCheckItems(storages, { props: true });
+    const removedItem = { ...items[0], itemId: 'old-charger', name: 'Old charger', present: false };
+
+    expect(getMissingItems(check([...items, removedItem]), storages).map(item => item.itemId))
+      .toEqual(['rc', 'batteries']);
+  });
+
+  it('returns nothing without a check', () => {
+    expect(getMissingItems(null, storages)).toEqual([]);
+  });
+});
@@ -0,0 +1,95 @@
+import { evaluatePilotCurrency, getRecencyPeriodStart } from '../flightCurrencyUtils';
+import { User } from '@/types/User';
+import { UserRole } from '@/types/UserRole';
+import { DEFAULT_FLIGHT_CURRENCY_RULES } from '@/types/FlightCurrency';
+
+// ── helpers ──────────────────────────────────────────────────────────────────
+
+function pilot(overrides: Partial<User> = {}): User {
+  return {
+    uid: 'pilot-1',
+    email: 'pilot@test.com',
+    role: UserRole.USER,
+    qualifications: ['A1', 'A3', 'NSTS01'],
+    pilotValidityDate: new Date('2025-12-31'),
+    operatorValidityDate: new Date('2025-12-31'),
+    insurance: new Date('2025-12-31'),
+    ...overrides,
+  };
+}
+
+const input = { flightCategory: 'A1' as const, flightDate: '2025-06-15' };
+
+// ── getRecencyPeriodStart ────────────────────────────────────────────────────
+
+describe('getRecencyPeriodStart', () => {
+  it('subtracts the period from the flight date', () => {
+    expect(getRecencyPeriodStart('2025-06-15', { recencyMinFlights: 3, recencyPeriodDays: 90 })).toBe('2025-03-17');
+  });
+
+  it('handles year boundaries', () => {
+    expect(getRecencyPeriodStart('2025-01-10', { recencyMinFlights: 3, recencyPeriodDays: 30 })).toBe('2024-12-11');
+  });
+});
+
+// ── evaluatePilotCurrency ────────────────────────────────────────────────────
+
+describe('evaluatePilotCurrency', () => {
+  it('returns no issues for a current, qualified pilot', () => {
+    expect(evaluatePilotCurrency(pilot(), input, 3, DEFAULT_FLIGHT_CURRENCY_RULES)).toEqual({ errors: [], warnings: [] });
+  });
+
+  it('blocks when the pilot profile is missing', () => {
+    const result = evaluatePilotCurrency(null, input, 10, DEFAULT_FLIGHT_CURRENCY_RULES);
+    expect(result.errors.map(e => e.code)).toEqual(['pilotNotFound']);
+  });
+
+  it('blocks when the qualification for the category is missing', () => {
+    const result = evaluatePilotCurrency(pilot(), { ...input, flightCategory: 'STS01' }, 3, DEFAULT_FLIGHT_CURRENCY_RULES);
+    expect(result.errors).toEqual([{ code: 'missingQualification', severity: 'error', params: { category: 'STS01' } }]);
+  });
+
+  it('blocks when licence, operator registration or insurance expired before the flight date', () => {
+    const result = evaluatePilotCurrency(pilot({
+      pilotValidityDate: new Date('2025-06-14'),
+      operatorValidityDate: new Date('2025-01-01'),
+      insurance: new Date('2024-12-31'),
+    }), input, 3, DEFAULT_FLIGHT_CURRENCY_RULES);
+
+    expect(result.errors.map(e => [e.code, e.params?.date])).toEqual([
+      ['pilotLicenseExpired', '2025-06-14'],
+      ['operatorRegistrationExpired', '2025-01-01'],
+      ['insuranceExpired', '2024-12-31'],
+    ]);
+  });
+
+  it('accepts documents valid until the flight date itself', () => {
+    const result = evaluatePilotCurrency(pilot({ insurance: new Date('2025-06-15') }), input, 3, DEFAULT_FLIGHT_CURRENCY_RULES);
+    expect(result.errors).toEqual([]);
+  });
+
+  it('warns when validity dates are not set', () => {
+    const result = evaluatePilotCurrency(pilot({
+      pilotValidityDate: undefined,
+      operatorValidityDate: undefined,
+      insurance: undefined,
+    }), input, 3, DEFAULT_FLIGHT_CURRENCY_RULES);
+
+    expect(result.errors).toEqual([]);
+    expect(result.warnings.map(w => w.code)).toEqual(['pilotLicenseMissing', 'operatorRegistrationMissing', 'insuranceMissing']);
+  });
+
+  it('warns when the recency rule is not met', () => {
+    const result = evaluatePilotCurrency(pilot(), input, 1, { recencyMinFlights: 3, recencyPeriodDays: 90 });
+    expect(result.warnings).toEqual([{
+      code: 'recencyNotMet',
+      severity: 'warning',
+      params: { count: 1, required: 3, days: 90 },
+    }]);
+  });
+
+  it('skips the recency rule when disabled', () => {
+    const result = evaluatePilotCurrency(pilot(), input, 0, { recencyMinFlights: 0, recencyPeriodDays: 90 });
+    expect(result.warnings).toEqual([]);
+  });
+});
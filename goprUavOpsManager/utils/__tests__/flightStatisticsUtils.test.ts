@@ -0,0 +1,128 @@
+import { aggregateFlightStatistics, getMonthKey, getMonthRange } from '../flightStatisticsUtils';
+import { Flight } from '@/types/Flight';
+
+// ── helpers ──────────────────────────────────────────────────────────────────
+
+function flight(overrides: Partial<Flight>): Flight {
+  return {
+    id: 'flight-1',
+    userId: 'pilot-1',
+    userEmail: 'pilot1@test.com',
+    date: '2024-01-15',
+    location: 'Zakopane',
+    flightCategory: 'A1',
+    operationType: 'IR',
+    activityType: 'Individual training',
+    droneId: 'drone-1',
+    droneName: 'Snapshot Drone',
+    startTime: '2024-01-15T10:00:00',
+    endTime: '2024-01-15T10:30:00',
+    conditions: '',
+    ...overrides,
+  } as Flight;
+}
+
+// ── months ───────────────────────────────────────────────────────────────────
+
+describe('getMonthKey', () => {
+  it('returns YYYY-MM for date strings and dates', () => {
+    expect(getMonthKey('2024-03-31')).toBe('2024-03');
+    expect(getMonthKey(new Date('2024-11-05'))).toBe('2024-11');
+  });
+});
+
+describe('getMonthRange', () => {
+  it('lists months inclusively across year boundaries', () => {
+    expect(getMonthRange('2023-11', '2024-02')).toEqual(['2023-11', '2023-12', '2024-01', '2024-02']);
+  });
+
+  it('returns empty list when start is after end', () => {
+    expect(getMonthRange('2024-05', '2024-04')).toEqual([]);
+  });
+});
+
+// ── aggregateFlightStatistics ────────────────────────────────────────────────
+
+describe('aggregateFlightStatistics', () => {
+  const flights = [
+    flight({ id: 'a' }),
+    flight({
+      id: 'b',
+      date: '2024-01-20',
+      operationType: 'SARUAV',
+      activityType: 'Rescue',
+      startTime: '2024-01-20T08:00:00',
+      endTime: '2024-01-20T09:30:00',
+    }),
+    flight({
+      id: 'c',
+      date: '2024-03-02',
+      userId: 'pilot-2',
+      userEmail: 'pilot2@test.com',
+      droneId: 'drone-2',
+      droneName: undefined,
+      startTime: '2024-03-02T12:00:00',
+      endTime: '2024-03-02T12:15:00',
+    }),
+  ];
+
+  it('returns empty statistics when there are no flights', () => {
+    const stats = aggregateFlightStatistics([]);
+
+    expect(stats.flightCount).toBe(0);
+    expect(stats.totalMinutes).toBe(0);
+    expect(stats.months).toEqual([]);
+    expect(stats.groups.drone).toEqual([]);
+  });
+
+  it('computes totals and monthly buckets, filling months without flights', () => {
+    const stats = aggregateFlightStatistics(flights);
+
+    expect(stats.flightCount).toBe(3);
+    expect(stats.totalMinutes).toBe(135);
+    expect(stats.months).toEqual(['2024-01', '2024-02', '2024-03']);
+    expect(stats.byMonth['2024-01']).toEqual({ flightCount: 2, totalMinutes: 120 });
+    expect(stats.byMonth['2024-02']).toEqual({ flightCount: 0, totalMinutes: 0 });
+    expect(stats.byMonth['2024-03']).toEqual({ flightCount: 1, totalMinutes: 15 });
+  });
+
+  it('uses the requested range for the month list', () => {
+    const stats = aggregateFlightStatistics(flights, new Map(), {
+      startDate: new Date('2024-01-01'),
+      endDate: new Date('2024-12-31'),
+    });
+
+    expect(stats.months).toHaveLength(12);
+    expect(stats.byMonth['2024-12']).toEqual({ flightCount: 0, totalMinutes: 0 });
+  });
+
+  it('lists every operation and activity type in their usual order', () => {
+    const stats = aggregateFlightStatistics(flights);
+
+    expect(stats.groups.operationType.map(g => g.key)).toEqual(['IR', 'WIDE', 'CARGO', 'SARUAV', 'TERMO']);
+    expect(stats.groups.activityType.map(g => g.key)).toEqual(['Individual training', 'Group training', 'Rescue']);
+
+    const ir = stats.groups.operationType[0];
+    expect(ir).toMatchObject({ flightCount: 2, totalMinutes: 45 });
+    expect(ir.byMonth).toEqual({
+      '2024-01': { flightCount: 1, totalMinutes: 30 },
+      '2024-03': { flightCount: 1, totalMinutes: 15 },
+    });
+    expect(stats.groups.operationType[1]).toMatchObject({ key: 'WIDE', flightCount: 0, totalMinutes: 0 });
+    expect(stats.groups.activityType[2]).toMatchObject({ key: 'Rescue', flightCount: 1, totalMinutes: 90 });
+  });
+
+  it('groups by drone and pilot sorted by flight time', () => {
+    const droneNames = new Map([['drone-1', 'Matrice 30T [M30-01]']]);
+    const stats = aggregateFlightStatistics(flights, droneNames);
+
+    expect(stats.groups.drone.map(g => [g.label, g.totalMinutes])).toEqual([
+      ['Matrice 30T [M30-01]', 120],
+      ['drone-2', 15],
+    ]);
+    expect(stats.groups.pilot.map(g => [g.label, g.flightCount])).toEqual([
+      ['pilot1@test.com', 2],
+      ['pilot2@test.com', 1],
+    ]);
+  });
+});
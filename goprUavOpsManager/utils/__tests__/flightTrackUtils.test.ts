@@ -0,0 +1,196 @@
+import {
+  detectTrackFormat,
+  parseGpx,
+  parseKml,
+  parseDjiCsv,
+  summarizeTrack,
+  parseFlightTrack,
+  simplifyTrackForMap,
+  formatTrackDistance,
+} from '../flightTrackUtils';
+import { FlightTrackPoint } from '@/types/Flight';
+
+// ── fixtures ─────────────────────────────────────────────────────────────────
+
+const GPX = `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="test">
+  <trk><name>Flight</name><trkseg>
+    <trkpt lat="49.100000" lon="22.500000"><ele>600.0</ele><time>2024-05-01T10:00:00Z</time></trkpt>
+    <trkpt lat="49.101000" lon="22.500000"><ele>650.5</ele><time>2024-05-01T10:05:00Z</time></trkpt>
+    <trkpt lat='49.102000' lon='22.500000'><ele>620</ele><time>2024-05-01T10:12:30Z</time></trkpt>
+  </trkseg></trk>
+</gpx>`;
+
+const KML_LINESTRING = `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2"><Document><Placemark><LineString>
+  <coordinates>
+    22.5,49.1,600 22.5,49.101,700
+    22.5,49.102,640
+  </coordinates>
+</LineString></Placemark></Document></kml>`;
+
+const KML_GX_TRACK = `<kml xmlns="http://www.opengis.net/kml/2.2" xmlns:gx="http://www.google.com/kml/ext/2.2">
+<Placemark><gx:Track>
+  <when>2024-05-01T10:00:00Z</when>
+  <when>2024-05-01T10:10:00Z</when>
+  <gx:coord>22.5 49.1 600</gx:coord>
+  <gx:coord>22.5 49.101 680</gx:coord>
+</gx:Track></Placemark></kml>`;
+
+const AIRDATA_CSV = [
+  'time(millisecond),datetime(utc),latitude,longitude,height_above_takeoff(feet),altitude_above_seaLevel(feet)',
+  '0,2024-05-01 10:00:00,0,0,0,1968',
+  '100,2024-05-01 10:00:01,49.1,22.5,0,1968',
+  '200,2024-05-01 10:04:00,49.101,22.5,328.1,2296',
+  '300,2024-05-01 10:09:00,49.1,22.5,"1,0",1968',
+].join('\n');
+
+const DJI_CSV = [
+  'sep=,',
+  'CUSTOM.date [local],CUSTOM.updateTime [local],OSD.latitude,OSD.longitude,OSD.height [ft],OSD.altitude [ft]',
+  '5/1/2024,10:00:00 AM,49.1,22.5,0.0,1968',
+  '5/1/2024,10:02:00 AM,49.1005,22.5,100.0,2068',
+].join('\r\n');
+
+// ── detectTrackFormat ────────────────────────────────────────────────────────
+
+describe('detectTrackFormat', () => {
+  it('uses the file extension', () => {
+    expect(detectTrackFormat('flight.GPX', '')).toBe('gpx');
+    expect(detectTrackFormat('flight.kml', '')).toBe('kml');
+    expect(detectTrackFormat('DJIFlightRecord.csv', '')).toBe('dji-csv');
+  });
+
+  it('falls back to the content', () => {
+    expect(detectTrackFormat('track', GPX)).toBe('gpx');
+    expect(detectTrackFormat('track', KML_LINESTRING)).toBe('kml');
+    expect(detectTrackFormat('track', AIRDATA_CSV)).toBe('dji-csv');
+    expect(detectTrackFormat('notes.txt', 'hello')).toBeNull();
+  });
+});
+
+// ── parsers ──────────────────────────────────────────────────────────────────
+
+describe('parseGpx', () => {
+  it('reads positions, elevation and time', () => {
+    const points = parseGpx(GPX);
+    expect(points).toHaveLength(3);
+    expect(points[0]).toEqual({ latitude: 49.1, longitude: 22.5, altitude: 600, time: '2024-05-01T10:00:00.000Z' });
+    expect(points[2].latitude).toBe(49.102);
+  });
+
+  it('falls back to route points', () => {
+    const points = parseGpx('<gpx><rte><rtept lat="49.1" lon="22.5"/><rtept lat="49.2" lon="22.6"></rtept></rte></gpx>');
+    expect(points.map(p => p.latitude)).toEqual([49.1, 49.2]);
+  });
+});
+
+describe('parseKml', () => {
+  it('reads LineString coordinates as lon,lat,alt', () => {
+    const points = parseKml(KML_LINESTRING);
+    expect(points).toHaveLength(3);
+    expect(points[1]).toEqual({ latitude: 49.101, longitude: 22.5, altitude: 700 });
+  });
+
+  it('reads gx:Track coordinates with timestamps', () => {
+    const points = parseKml(KML_GX_TRACK);
+    expect(points).toEqual([
+      { latitude: 49.1, longitude: 22.5, altitude: 600, time: '2024-05-01T10:00:00.000Z' },
+      { latitude: 49.101, longitude: 22.5, altitude: 680, time: '2024-05-01T10:10:00.000Z' },
+    ]);
+  });
+});
+
+describe('parseDjiCsv', () => {
+  it('reads Airdata style exports with feet and UTC times', () => {
+    const points = parseDjiCsv(AIRDATA_CSV);
+    expect(points).toHaveLength(4);
+    expect(points[2]).toEqual({ latitude: 49.101, longitude: 22.5, altitude: 100, time: '2024-05-01T10:04:00.000Z' });
+  });
+
+  it('reads DJI OSD columns after a sep= line and prefers height over altitude', () => {
+    const points = parseDjiCsv(DJI_CSV);
+    expect(points).toHaveLength(2);
+    expect(points[1].altitude).toBe(30.5);
+    expect(points[1].time).toBeUndefined();
+  });
+
+  it('returns no points without coordinate columns', () => {
+    expect(parseDjiCsv('time,speed\n1,2')).toEqual([]);
+  });
+});
+
+// ── summarizeTrack / parseFlightTrack ────────────────────────────────────────
+
+describe('summarizeTrack', () => {
+  it('derives times, takeoff point, altitude above takeoff and distance', () => {
+    const summary = summarizeTrack(parseGpx(GPX));
+    expect(summary.startTime).toBe('2024-05-01T10:00:00.000Z');
+    expect(summary.endTime).toBe('2024-05-01T10:12:30.000Z');
+    expect(summary.takeoffCoordinates).toBe('49.100000, 22.500000');
+    expect(summary.maxAltitude).toBe(50.5);
+    expect(summary.distance).toBeGreaterThan(220);
+    expect(summary.distance).toBeLessThan(225);
+    expect(summary.pointCount).toBe(3);
+  });
+
+  it('leaves altitude undefined when the track has none', () => {
+    const points: FlightTrackPoint[] = [{ latitude: 49.1, longitude: 22.5 }, { latitude: 49.2, longitude: 22.5 }];
+    expect(summarizeTrack(points).maxAltitude).toBeUndefined();
+  });
+
+  it('rejects an empty track', () => {
+    expect(() => summarizeTrack([])).toThrow('Track file contains no positions');
+  });
+
+  it('handles a long track log', () => {
+    // Ten hours at 10 Hz
+    const points: FlightTrackPoint[] = Array.from({ length: 360000 }, (_, i) => ({
+      latitude: 49.1 + i * 1e-7,
+      longitude: 22.5,
+      altitude: 800 + (i === 200000 ? 120 : i % 50),
+    }));
+
+    const summary = summarizeTrack(points);
+    expect(summary.maxAltitude).toBe(120);
+    expect(summary.pointCount).toBe(360000);
+  });
+});
+
+describe('parseFlightTrack', () => {
+  it('drops positions recorded before a GPS fix', () => {
+    const parsed = parseFlightTrack('flight.csv', AIRDATA_CSV);
+    expect(parsed.format).toBe('dji-csv');
+    expect(parsed.points).toHaveLength(3);
+    expect(parsed.summary.startTime).toBe('2024-05-01T10:00:01.000Z');
+    expect(parsed.summary.maxAltitude).toBe(100);
+  });
+
+  it('rejects unsupported files', () => {
+    expect(() => parseFlightTrack('notes.txt', 'hello')).toThrow('Unsupported track file format');
+  });
+});
+
+// ── display helpers ──────────────────────────────────────────────────────────
+
+describe('simplifyTrackForMap', () => {
+  it('keeps short tracks unchanged', () => {
+    const points = [{ latitude: 1, longitude: 1 }, { latitude: 2, longitude: 2 }];
+    expect(simplifyTrackForMap(points, 10)).toBe(points);
+  });
+
+  it('thins long tracks keeping the first and last point', () => {
+    const points = Array.from({ length: 1001 }, (_, i) => ({ latitude: i / 1000, longitude: 0 }));
+    const simplified = simplifyTrackForMap(points, 11);
+    expect(simplified).toHaveLength(11);
+    expect(simplified[0]).toBe(points[0]);
+    expect(simplified[10]).toBe(points[1000]);
+  });
+});
+
+describe('formatTrackDistance', () => {
+  it('formats meters and kilometers', () => {
+    expect(formatTrackDistance(850.4)).toBe('850 m');
+    expect(formatTrackDistance(1250)).toBe('1.25 km');
+  });
+});
@@ -0,0 +1,215 @@
+import {
+  findMatchingGeozones,
+  formatGeozoneLimits,
+  normalizeRestriction,
+  parseGeozoneData,
+  parseGeozoneDataset,
+} from '../geozoneUtils';
+import { Geozone } from '@/types/Geozone';
+import bundledGeozones from '@/assets/geozones/geozones.json';
+
+// ── helpers ──────────────────────────────────────────────────────────────────
+
+// Roughly 1.1 km x 1.4 km square south-west of Zakopane
+const square = [
+  [19.90, 49.25],
+  [19.92, 49.25],
+  [19.92, 49.26],
+  [19.90, 49.26],
+  [19.90, 49.25],
+];
+
+function zone(overrides: Partial<Geozone> = {}): Geozone {
+  return {
+    id: 'zone-1',
+    name: 'Test zone',
+    type: 'R',
+    restriction: 'conditional',
+    polygons: [square.map(([longitude, latitude]) => ({ latitude, longitude }))],
+    source: 'imported',
+    ...overrides,
+  };
+}
+
+// ── parsing ──────────────────────────────────────────────────────────────────
+
+describe('parseGeozoneDataset', () => {
+  it('parses GeoJSON polygons with properties', () => {
+    const zones = parseGeozoneDataset(JSON.stringify({
+      type: 'FeatureCollection',
+      features: [{
+        type: 'Feature',
+        id: 'EPR16',
+        properties: {
+          name: 'EP R16 Tatry',
+          type: 'R',
+          restriction: 'PROHIBITED',
+          lowerLimit: 0,
+          upperLimit: 500,
+          uomDimensions: 'FT',
+          lowerVerticalReference: 'AGL',
+          upperVerticalReference: 'AMSL',
+          message: 'Military activity',
+        },
+        geometry: { type: 'Polygon', coordinates: [square] },
+      }],
+    }));
+
+    expect(zones).toHaveLength(1);
+    expect(zones[0]).toMatchObject({
+      id: 'EPR16',
+      name: 'EP R16 Tatry',
+      type: 'R',
+      restriction: 'prohibited',
+      lowerLimit: { value: 0, reference: 'AGL' },
+      upperLimit: { value: 152, reference: 'AMSL' },
+      message: 'Military activity',
+      source: 'imported',
+    });
+    expect(zones[0].polygons[0][0]).toEqual({ latitude: 49.25, longitude: 19.90 });
+  });
+
+  it('parses MultiPolygons and points with a radius', () => {
+    const zones = parseGeozoneDataset(JSON.stringify({
+      type: 'FeatureCollection',
+      features: [
+        {
+          type: 'Feature',
+          properties: { name: 'Two parts' },
+          geometry: { type: 'MultiPolygon', coordinates: [[square], [square]] },
+        },
+        {
+          type: 'Feature',
+          properties: { name: 'Hospital helipad', radius: 1000 },
+          geometry: { type: 'Point', coordinates: [19.95, 49.29] },
+        },
+      ],
+    }));
+
+    expect(zones[0].polygons).toHaveLength(2);
+    expect(zones[1].polygons[0]).toHaveLength(32);
+    expect(zones[1].id).toBe('zone-2');
+  });
+
+  it('parses ED-269 features with polygon and circle projections', () => {
+    const zones = parseGeozoneDataset(JSON.stringify({
+      title: 'ULC geozones',
+      features: [
+        {
+          identifier: 'EPKK-CTR',
+          name: 'CTR Kraków',
+          type: 'COMMON',
+          restriction: 'REQ_AUTHORISATION',
+          geometry: [{
+            uomDimensions: 'M',
+            lowerLimit: 0,
+            lowerVerticalReference: 'AGL',
+            upperLimit: 120,
+            upperVerticalReference: 'AGL',
+            horizontalProjection: { type: 'Polygon', coordinates: [square] },
+          }],
+        },
+        {
+          identifier: 'EPZA-ATZ',
+          name: 'ATZ Zakopane',
+          restriction: 'CONDITIONAL',
+          geometry: [{
+            horizontalProjection: { type: 'Circle', center: [19.95, 49.29], radius: 2000 },
+          }],
+        },
+      ],
+    }));
+
+    expect(zones.map(z => z.id)).toEqual(['EPKK-CTR', 'EPZA-ATZ']);
+    expect(zones[0].restriction).toBe('authorization');
+    expect(zones[0].upperLimit).toEqual({ value: 120, reference: 'AGL' });
+    expect(zones[1].restriction).toBe('conditional');
+    expect(zones[1].polygons[0]).toHaveLength(32);
+  });
+
+  it('skips features without usable geometry', () => {
+    const zones = parseGeozoneDataset(JSON.stringify({
+      type: 'FeatureCollection',
+      features: [
+        { type: 'Feature', properties: { name: 'Line' }, geometry: { type: 'LineString', coordinates: square } },
+        { type: 'Feature', properties: { name: 'Valid' }, geometry: { type: 'Polygon', coordinates: [square] } },
+      ],
+    }));
+
+    expect(zones.map(z => z.name)).toEqual(['Valid']);
+  });
+
+  it('rejects invalid or empty files', () => {
+    expect(() => parseGeozoneDataset('not json')).toThrow('Geozone file is not valid JSON');
+    expect(() => parseGeozoneDataset('{"type":"FeatureCollection","features":[]}')).toThrow('Geozone dataset contains no zones');
+  });
+
+  it('parses the bundled dataset', () => {
+    const zones = parseGeozoneData(bundledGeozones, 'bundled');
+
+    expect(zones.length).toBeGreaterThan(0);
+    expect(zones.every(z => z.source === 'bundled')).toBe(true);
+  });
+});
+
+describe('normalizeRestriction', () => {
+  it('maps ED-269 and common values', () => {
+    expect(normalizeRestriction('PROHIBITED')).toBe('prohibited');
+    expect(normalizeRestriction('req authorization')).toBe('authorization');
+    expect(normalizeRestriction('NO_RESTRICTION')).toBe('none');
+    expect(normalizeRestriction(undefined)).toBe('conditional');
+  });
+});
+
+// ── matching ─────────────────────────────────────────────────────────────────
+
+describe('findMatchingGeozones', () => {
+  it('matches a position inside a zone', () => {
+    const matches = findMatchingGeozones([zone()], { latitude: 49.255, longitude: 19.91 });
+
+    expect(matches).toHaveLength(1);
+    expect(matches[0]).toMatchObject({ inside: true, distance: 0 });
+  });
+
+  it('matches zones within the radius only', () => {
+    // About 730 m east of the square
+    const position = { latitude: 49.255, longitude: 19.93 };
+
+    expect(findMatchingGeozones([zone()], position)).toEqual([]);
+    expect(findMatchingGeozones([zone()], position, 500)).toEqual([]);
+
+    const matches = findMatchingGeozones([zone()], position, 1000);
+    expect(matches).toHaveLength(1);
+    expect(matches[0].inside).toBe(false);
+    expect(matches[0].distance).toBeGreaterThan(700);
+    expect(matches[0].distance).toBeLessThan(760);
+  });
+
+  it('orders the most restrictive zones first', () => {
+    const matches = findMatchingGeozones([
+      zone({ id: 'info', restriction: 'none' }),
+      zone({ id: 'prohibited', restriction: 'prohibited' }),
+      zone({ id: 'authorization', restriction: 'authorization' }),
+    ], { latitude: 49.255, longitude: 19.91 });
+
+    expect(matches.map(match => match.zone.id)).toEqual(['prohibited', 'authorization', 'info']);
+  });
+
+  it('finds the bundled Tatra National Park zone at Kasprowy Wierch', () => {
+    const zones = parseGeozoneData(bundledGeozones, 'bundled');
+    const matches = findMatchingGeozones(zones, { latitude: 49.2319, longitude: 19.9817 });
+
+    expect(matches.map(match => match.zone.id)).toEqual(['PL-NP-TPN']);
+  });
+});
+
+describe('formatGeozoneLimits', () => {
+  it('formats known limits', () => {
+    expect(formatGeozoneLimits(zone({
+      lowerLimit: { value: 0, reference: 'AGL' },
+      upperLimit: { value: 120, reference: 'AGL' },
+    }))).toBe('0 m AGL - 120 m AGL');
+    expect(formatGeozoneLimits(zone({ upperLimit: { value: 500, reference: 'AMSL' } }))).toBe('GND - 500 m AMSL');
+    expect(formatGeozoneLimits(zone())).toBeNull();
+  });
+});
@@ -0,0 +1,108 @@
+import { selectEvictions, summarizeImageCache } from '../imageCacheUtils';
+import { ImageCacheEntry, ImageCacheNamespace } from '@/types/ImageCache';
+
+// ── helpers ──────────────────────────────────────────────────────────────────
+
+const NOW = new Date('2024-06-01T12:00:00.000Z').getTime();
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+const entry = (
+  name: string,
+  namespace: ImageCacheNamespace,
+  size: number,
+  hoursSinceAccess: number
+): ImageCacheEntry => ({
+  key: name,
+  originalUrl: `https://storage.example.com/${name}.jpg`,
+  namespace,
+  size,
+  cachedAt: NOW - 30 * DAY,
+  lastAccessedAt: NOW - hoursSinceAccess * HOUR,
+});
+
+const urlsOf = (entries: ImageCacheEntry[]) => new Set(entries.map(e => e.originalUrl));
+const keysOf = (entries: ImageCacheEntry[]) => entries.map(e => e.key);
+
+const limits = { maxSize: 1000, maxIdle: 7 * DAY };
+
+// ── eviction ─────────────────────────────────────────────────────────────────
+
+describe('selectEvictions', () => {
+  it('keeps everything within the limits', () => {
+    const entries = [entry('a', 'other', 300, 1), entry('b', 'comments', 300, 2)];
+
+    expect(selectEvictions(entries, new Set(), limits, NOW)).toEqual([]);
+  });
+
+  it('evicts least recently shown images until the cache fits', () => {
+    const entries = [
+      entry('recent', 'comments', 400, 1),
+      entry('oldest', 'comments', 400, 48),
+      entry('older', 'other', 400, 24),
+    ];
+
+    expect(keysOf(selectEvictions(entries, new Set(), limits, NOW))).toEqual(['oldest']);
+  });
+
+  it('evicts by last access, not by download time', () => {
+    const downloadedLongAgo = { ...entry('viewed-today', 'other', 600, 1), cachedAt: NOW - 60 * DAY };
+    const downloadedYesterday = { ...entry('not-viewed-since', 'other', 600, 20), cachedAt: NOW - DAY };
+
+    expect(keysOf(selectEvictions([downloadedLongAgo, downloadedYesterday], new Set(), limits, NOW)))
+      .toEqual(['not-viewed-since']);
+  });
+
+  it('evicts images not shown for longer than the idle limit even when the cache fits', () => {
+    const entries = [entry('fresh', 'other', 10, 1), entry('stale', 'other', 10, 8 * 24)];
+
+    expect(keysOf(selectEvictions(entries, new Set(), limits, NOW))).toEqual(['stale']);
+  });
+
+  it('never evicts pinned images', () => {
+    const procedure = entry('procedure', 'procedures', 800, 30 * 24);
+    const comment = entry('comment', 'comments', 400, 1);
+
+    expect(keysOf(selectEvictions([procedure, comment], urlsOf([procedure]), limits, NOW))).toEqual(['comment']);
+  });
+
+  it('keeps pinned images even when they alone exceed the size limit', () => {
+    const pinned = [entry('a', 'procedures', 800, 5), entry('b', 'equipment', 800, 6)];
+
+    expect(selectEvictions(pinned, urlsOf(pinned), limits, NOW)).toEqual([]);
+  });
+});
+
+// ── usage ────────────────────────────────────────────────────────────────────
+
+describe('summarizeImageCache', () => {
+  it('sums usage overall and per namespace', () => {
+    const entries = [
+      entry('p1', 'procedures', 100, 1),
+      entry('p2', 'procedures', 50, 1),
+      entry('c1', 'comments', 20, 1),
+    ];
+
+    const stats = summarizeImageCache(entries, new Set());
+
+    expect(stats.size).toBe(170);
+    expect(stats.count).toBe(3);
+    expect(stats.namespaces.procedures).toEqual({ size: 150, count: 2, pinnedSize: 0, pinnedCount: 0 });
+    expect(stats.namespaces.comments.size).toBe(20);
+    expect(stats.namespaces.equipment).toEqual({ size: 0, count: 0, pinnedSize: 0, pinnedCount: 0 });
+  });
+
+  it('reports the part held by pinned images', () => {
+    const pinned = entry('p1', 'procedures', 100, 1);
+    const stats = summarizeImageCache([pinned, entry('p2', 'procedures', 50, 1)], urlsOf([pinned]));
+
+    expect(stats.namespaces.procedures.pinnedSize).toBe(100);
+    expect(stats.namespaces.procedures.pinnedCount).toBe(1);
+  });
+
+  it('counts entries of unknown namespaces as other', () => {
+    const legacy = { ...entry('x', 'other', 10, 1), namespace: 'gallery' as ImageCacheNamespace };
+
+    expect(summarizeImageCache([legacy], new Set()).namespaces.other.count).toBe(1);
+  });
+});
@@ -0,0 +1,190 @@
+import {
+  buildLogbookCsv,
+  buildLogbookEntries,
+  buildLogbookHtml,
+  formatLogbookMinutes,
+  formatLogbookTime,
+  LogbookEntry,
+  paginateLogbook,
+} from '../logbookUtils';
+import { Flight } from '@/types/Flight';
+
+// ── helpers ──────────────────────────────────────────────────────────────────
+
+const t = (key: string) => key;
+
+function flight(overrides: Partial<Flight>): Flight {
+  return {
+    id: 'flight-1',
+    userId: 'user-1',
+    userEmail: 'pilot@test.com',
+    date: '2024-03-01',
+    location: 'Zakopane',
+    flightCategory: 'A1',
+    operationType: 'IR',
+    activityType: 'Individual training',
+    droneId: 'drone-1',
+    droneName: 'Snapshot Drone',
+    startTime: '2024-03-01T10:00:00',
+    endTime: '2024-03-01T10:30:00',
+    conditions: '',
+    ...overrides,
+  } as Flight;
+}
+
+function entry(durationMinutes: number): LogbookEntry {
+  return {
+    flightId: `flight-${durationMinutes}`,
+    date: '2024-03-01',
+    startTime: '10:00',
+    endTime: '11:00',
+    durationMinutes,
+    pilot: 'pilot@test.com',
+    operator: '',
+    drone: 'Drone',
+    flightCategory: 'A1',
+    operationType: 'IR',
+    activityType: 'Individual training',
+    location: '',
+    coordinates: '',
+    conditions: '',
+    additionalInfo: '',
+  };
+}
+
+// ── formatting ───────────────────────────────────────────────────────────────
+
+describe('formatLogbookMinutes', () => {
+  it('formats minutes as H:MM', () => {
+    expect(formatLogbookMinutes(0)).toBe('0:00');
+    expect(formatLogbookMinutes(5)).toBe('0:05');
+    expect(formatLogbookMinutes(135)).toBe('2:15');
+  });
+});
+
+describe('formatLogbookTime', () => {
+  it('keeps legacy HH:mm values', () => {
+    expect(formatLogbookTime('08:45')).toBe('08:45');
+  });
+
+  it('formats ISO datetimes as local HH:mm', () => {
+    expect(formatLogbookTime('2024-03-01T09:05:00')).toBe('09:05');
+  });
+
+  it('returns empty string for missing time', () => {
+    expect(formatLogbookTime('')).toBe('');
+  });
+});
+
+// ── buildLogbookEntries ──────────────────────────────────────────────────────
+
+describe('buildLogbookEntries', () => {
+  it('sorts flights chronologically by date and start time', () => {
+    const entries = buildLogbookEntries([
+      flight({ id: 'c', date: '2024-03-02', startTime: '2024-03-02T08:00:00', endTime: '2024-03-02T08:10:00' }),
+      flight({ id: 'b', date: '2024-03-01', startTime: '2024-03-01T12:00:00', endTime: '2024-03-01T12:10:00' }),
+      flight({ id: 'a', date: '2024-03-01', startTime: '2024-03-01T09:00:00', endTime: '2024-03-01T09:10:00' }),
+    ]);
+
+    expect(entries.map(e => e.flightId)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('uses the shared flight duration logic', () => {
+    const [regular, legacyOvernight, invalid] = buildLogbookEntries([
+      flight({ id: 'a', date: '2024-03-01' }),
+      flight({ id: 'b', date: '2024-03-02', startTime: '23:50', endTime: '00:20' }),
+      flight({ id: 'c', date: '2024-03-03', startTime: '2024-03-03T10:00:00', endTime: '2024-03-03T09:00:00' }),
+    ]);
+
+    expect(regular.durationMinutes).toBe(30);
+    expect(legacyOvernight.durationMinutes).toBe(30);
+    expect(invalid.durationMinutes).toBe(0);
+  });
+
+  it('prefers current drone names and falls back to the flight snapshot', () => {
+    const droneNames = new Map([['drone-1', 'Matrice 30T [M30-01]']]);
+    const [known, unknown] = buildLogbookEntries([
+      flight({ id: 'a', date: '2024-03-01' }),
+      flight({ id: 'b', date: '2024-03-02', droneId: 'drone-2' }),
+    ], droneNames);
+
+    expect(known.drone).toBe('Matrice 30T [M30-01]');
+    expect(unknown.drone).toBe('Snapshot Drone');
+  });
+});
+
+// ── paginateLogbook ──────────────────────────────────────────────────────────
+
+describe('paginateLogbook', () => {
+  it('returns a single empty page for an empty logbook', () => {
+    const pages = paginateLogbook([]);
+    expect(pages).toHaveLength(1);
+    expect(pages[0]).toMatchObject({ pageNumber: 1, entries: [], pageMinutes: 0, totalMinutes: 0 });
+  });
+
+  it('computes per-page totals and carries them forward', () => {
+    const pages = paginateLogbook([entry(10), entry(20), entry(30), entry(40), entry(50)], 2);
+
+    expect(pages).toHaveLength(3);
+    expect(pages.map(p => p.pageMinutes)).toEqual([30, 70, 50]);
+    expect(pages.map(p => p.broughtForwardMinutes)).toEqual([0, 30, 100]);
+    expect(pages.map(p => p.totalMinutes)).toEqual([30, 100, 150]);
+  });
+});
+
+// ── buildLogbookCsv ──────────────────────────────────────────────────────────
+
+describe('buildLogbookCsv', () => {
+  it('starts with a BOM and a translated header row', () => {
+    const csv = buildLogbookCsv([], t);
+    expect(csv.charCodeAt(0)).toBe(0xfeff);
+    expect(csv.slice(1).split('\r\n')[0].split(',')[0]).toBe('logbook.columns.date');
+  });
+
+  it('escapes commas, quotes and line breaks', () => {
+    const csv = buildLogbookCsv([{ ...entry(15), location: 'Hala, "Gąsienicowa"', additionalInfo: 'line1\nline2' }], t);
+    const row = csv.split('\r\n')[1];
+
+    expect(row).toContain('"Hala, ""Gąsienicowa"""');
+    expect(row).toContain('"line1\nline2"');
+    expect(row).toContain(',15,');
+  });
+
+  it('keeps spreadsheets from evaluating formulas', () => {
+    const csv = buildLogbookCsv([{
+      ...entry(15),
+      location: '=HYPERLINK("http://example.com","x")',
+      conditions: '+1',
+      pilot: '@SUM(A1)',
+      additionalInfo: '-2+3',
+    }], t);
+    const row = csv.split('\r\n')[1];
+
+    expect(row).toContain('"\'=HYPERLINK(""http://example.com"",""x"")"');
+    expect(row).toContain(",'+1,");
+    expect(row).toContain(",'@SUM(A1),");
+    expect(row.endsWith(",'-2+3")).toBe(true);
+  });
+});
+
+// ── buildLogbookHtml ─────────────────────────────────────────────────────────
+
+describe('buildLogbookHtml', () => {
+  it('renders one section per page with totals', () => {
+    const pages = paginateLogbook([entry(60), entry(45), entry(30)], 2);
+    const html = buildLogbookHtml(pages, { pilot: 'pilot@test.com', generatedAt: new Date() }, t);
+
+    expect(html.match(/<section class="page">/g)).toHaveLength(2);
+    expect(html).toContain('1:45'); // first page total
+    expect(html).toContain('2:15'); // total to date
+    expect(html).toContain('pilot@test.com');
+  });
+
+  it('escapes user-provided content', () => {
+    const pages = paginateLogbook([{ ...entry(10), location: '<script>alert(1)</script>' }]);
+    const html = buildLogbookHtml(pages, { generatedAt: new Date() }, t);
+
+    expect(html).not.toContain('<script>');
+    expect(html).toContain('&lt;script&gt;');
+  });
+});
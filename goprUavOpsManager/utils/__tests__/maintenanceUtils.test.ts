@@ -0,0 +1,129 @@
+import {
+  getServiceIntervalStatus,
+  getDroneServiceStatus,
+  getDefaultResetIntervalIds,
+  resetServiceIntervals,
+} from '../maintenanceUtils';
+import { ServiceInterval } from '@/types/Maintenance';
+
+// ── helpers ──────────────────────────────────────────────────────────────────
+
+const NOW = new Date(2025, 5, 30, 12, 0, 0);
+
+function interval(overrides: Partial<ServiceInterval> = {}): ServiceInterval {
+  return {
+    id: 'interval-1',
+    name: 'Propeller inspection',
+    maintenanceType: 'inspection',
+    lastServiceAt: new Date(2025, 5, 1, 12, 0, 0),
+    lastServiceFlightMinutes: 600,
+    lastServiceFlightCount: 40,
+    ...overrides,
+  };
+}
+
+// ── single interval ──────────────────────────────────────────────────────────
+
+describe('getServiceIntervalStatus', () => {
+  it('measures flight hours since the last service', () => {
+    const result = getServiceIntervalStatus(
+      interval({ flightHours: 10 }),
+      { totalFlightTime: 900, totalFlightCount: 50 },
+      NOW
+    );
+
+    expect(result.status).toBe('ok');
+    expect(result.minutesRemaining).toBe(300);
+    expect(result.cyclesRemaining).toBeUndefined();
+  });
+
+  it('is due soon once 90% of a limit is used', () => {
+    const result = getServiceIntervalStatus(
+      interval({ flightCycles: 20 }),
+      { totalFlightTime: 600, totalFlightCount: 58 },
+      NOW
+    );
+
+    expect(result.status).toBe('dueSoon');
+    expect(result.cyclesRemaining).toBe(2);
+  });
+
+  it('is overdue when any limit is reached', () => {
+    const result = getServiceIntervalStatus(
+      interval({ flightHours: 100, calendarDays: 28 }),
+      { totalFlightTime: 660, totalFlightCount: 41 },
+      NOW
+    );
+
+    expect(result.status).toBe('overdue');
+    expect(result.daysRemaining).toBe(-1);
+  });
+
+  it('treats a drone without a flight count as having no flights', () => {
+    const result = getServiceIntervalStatus(
+      interval({ flightCycles: 10, lastServiceFlightCount: 0 }),
+      { totalFlightTime: 0 },
+      NOW
+    );
+
+    expect(result.cyclesRemaining).toBe(10);
+  });
+});
+
+// ── drone status ─────────────────────────────────────────────────────────────
+
+describe('getDroneServiceStatus', () => {
+  it('is ok without service intervals', () => {
+    expect(getDroneServiceStatus({ totalFlightTime: 5000 }, NOW)).toBe('ok');
+  });
+
+  it('reports the worst interval', () => {
+    const drone = {
+      totalFlightTime: 1200,
+      totalFlightCount: 45,
+      serviceIntervals: [
+        interval({ id: 'a', flightCycles: 50 }),
+        interval({ id: 'b', flightHours: 10 }),
+      ],
+    };
+
+    expect(getDroneServiceStatus(drone, NOW)).toBe('overdue');
+  });
+});
+
+// ── completing service ───────────────────────────────────────────────────────
+
+describe('getDefaultResetIntervalIds', () => {
+  it('selects intervals completed by the maintenance type', () => {
+    const intervals = [
+      interval({ id: 'a' }),
+      interval({ id: 'b', maintenanceType: 'firmwareUpdate' }),
+    ];
+
+    expect(getDefaultResetIntervalIds(intervals, 'firmwareUpdate')).toEqual(['b']);
+    expect(getDefaultResetIntervalIds(undefined, 'inspection')).toEqual([]);
+  });
+});
+
+describe('resetServiceIntervals', () => {
+  it('restarts the selected intervals from the current totals', () => {
+    const intervals = [interval({ id: 'a' }), interval({ id: 'b' })];
+
+    const result = resetServiceIntervals(intervals, ['a'], NOW, { totalFlightTime: 900, totalFlightCount: 55 });
+
+    expect(result[0]).toEqual(expect.objectContaining({
+      lastServiceAt: NOW,
+      lastServiceFlightMinutes: 900,
+      lastServiceFlightCount: 55,
+    }));
+    expect(result[1]).toBe(intervals[1]);
+  });
+
+  it('ignores service dated before the last one', () => {
+    const intervals = [interval()];
+
+    const result = resetServiceIntervals(intervals, ['interval-1'], new Date(2025, 4, 1), { totalFlightTime: 900 });
+
+    expect(result[0]).toBe(intervals[0]);
+  });
+});
@@ -0,0 +1,135 @@
+import {
+  ONLINE_MAP_RESOURCES,
+  countTilesInBounds,
+  formatTileUrl,
+  getLeafletTags,
+  getTilePath,
+  getTilesInBounds,
+  latitudeToTileY,
+  longitudeToTileX,
+} from '../mapTileUtils';
+import { CoordinateUtils } from '../coordinateUtils';
+
+// ── helpers ──────────────────────────────────────────────────────────────────
+
+const zakopane = { latitude: 49.2992, longitude: 19.9496 };
+
+// ── tile addresses ───────────────────────────────────────────────────────────
+
+describe('tile addresses', () => {
+  it('finds the tile containing a point', () => {
+    expect(longitudeToTileX(zakopane.longitude, 10)).toBe(568);
+    expect(latitudeToTileY(zakopane.latitude, 10)).toBe(350);
+  });
+
+  it('splits the world into quarters at zoom 1', () => {
+    expect(longitudeToTileX(0, 1)).toBe(1);
+    expect(latitudeToTileY(0, 1)).toBe(1);
+    expect(longitudeToTileX(-180, 1)).toBe(0);
+  });
+
+  it('keeps points at the edges of the map on existing tiles', () => {
+    expect(longitudeToTileX(180, 3)).toBe(7);
+    expect(latitudeToTileY(89.9, 3)).toBe(0);
+    expect(latitudeToTileY(-89.9, 3)).toBe(7);
+  });
+});
+
+// ── tiles in an area ─────────────────────────────────────────────────────────
+
+describe('getTilesInBounds', () => {
+  const bounds = CoordinateUtils.createBounds(zakopane, 5);
+
+  it('covers the area at every zoom of the range', () => {
+    const tiles = getTilesInBounds(bounds, 10, 12);
+
+    expect(new Set(tiles.map(tile => tile.z))).toEqual(new Set([10, 11, 12]));
+    expect(tiles).toContainEqual({ x: 568, y: 350, z: 10 });
+    expect(tiles[0].z).toBe(10);
+  });
+
+  it('has as many tiles as counted', () => {
+    expect(getTilesInBounds(bounds, 8, 14)).toHaveLength(countTilesInBounds(bounds, 8, 14));
+  });
+
+  it('grows about fourfold with each zoom level', () => {
+    const atZoom14 = countTilesInBounds(bounds, 14, 14);
+    const atZoom15 = countTilesInBounds(bounds, 15, 15);
+
+    expect(atZoom15).toBeGreaterThanOrEqual(atZoom14 * 3);
+    expect(atZoom15).toBeLessThanOrEqual(atZoom14 * 5);
+  });
+});
+
+// ── offline download sources ─────────────────────────────────────────────────
+
+describe('isTileSourceDownloadable', () => {
+  const env = process.env;
+
+  afterEach(() => {
+    process.env = env;
+  });
+
+  // The tile servers are read from the environment when the module loads
+  const loadWithEnv = (overrides: Record<string, string>): typeof import('../mapTileUtils') => {
+    process.env = { ...env, ...overrides };
+    let utils = {} as typeof import('../mapTileUtils');
+    jest.isolateModules(() => {
+      utils = require('../mapTileUtils');
+    });
+    return utils;
+  };
+
+  it('allows downloads only from configured tile servers', () => {
+    const utils = loadWithEnv({
+      EXPO_PUBLIC_OFFLINE_TILES_TOPO_URL: 'https://tiles.example.org/topo/{z}/{x}/{y}.png',
+      EXPO_PUBLIC_OFFLINE_TILES_OSM_URL: '',
+    });
+
+    expect(utils.isTileSourceDownloadable('topo')).toBe(true);
+    expect(utils.isTileSourceDownloadable('osm')).toBe(false);
+  });
+
+  it('keeps the public OpenStreetMap servers for viewing only', () => {
+    const utils = loadWithEnv({ EXPO_PUBLIC_OFFLINE_TILES_OSM_URL: '', EXPO_PUBLIC_OFFLINE_TILES_TOPO_URL: '' });
+
+    expect(utils.isTileSourceDownloadable('osm')).toBe(false);
+    expect(utils.isTileSourceDownloadable('topo')).toBe(false);
+    expect(utils.ONLINE_MAP_RESOURCES.tileUrlTemplate).toContain('tile.openstreetmap.org');
+  });
+});
+
+// ── urls ─────────────────────────────────────────────────────────────────────
+
+describe('tile urls', () => {
+  it('fills a URL template', () => {
+    expect(formatTileUrl('https://tile.example.com/{z}/{x}/{y}.png', { x: 568, y: 350, z: 10 }))
+      .toBe('https://tile.example.com/10/568/350.png');
+  });
+
+  it('stores tiles by source', () => {
+    expect(getTilePath('topo', { x: 568, y: 350, z: 10 })).toBe('topo/10/568/350.png');
+  });
+});
+
+describe('getLeafletTags', () => {
+  it('checks integrity of the files loaded from the network', () => {
+    const tags = getLeafletTags(ONLINE_MAP_RESOURCES);
+
+    expect(tags).toContain(`href="${ONLINE_MAP_RESOURCES.leafletStylesheetUrl}" integrity=`);
+    expect(tags).toContain(`src="${ONLINE_MAP_RESOURCES.leafletScriptUrl}" integrity=`);
+  });
+
+  it('loads local files without integrity attributes', () => {
+    const tags = getLeafletTags({
+      ...ONLINE_MAP_RESOURCES,
+      leafletScriptUrl: 'file:///tiles/leaflet.js',
+      leafletStylesheetUrl: 'file:///tiles/leaflet.css',
+      leafletScriptIntegrity: undefined,
+      leafletStylesheetIntegrity: undefined,
+    });
+
+    expect(tags).toContain('<script src="file:///tiles/leaflet.js"></script>');
+    expect(tags).not.toContain('integrity');
+  });
+});
@@ -0,0 +1,94 @@
+import { buildMissionTimeline, calculateMissionAirTime, summarizeMissionFlights } from '../missionUtils';
+import { Mission, MissionFlight } from '@/types/Mission';
+
+// ── helpers ──────────────────────────────────────────────────────────────────
+
+function flight(overrides: Partial<MissionFlight> = {}): MissionFlight {
+  return {
+    id: 'flight-1',
+    userId: 'pilot-1',
+    userEmail: 'pilot1@test.com',
+    droneId: 'drone-1',
+    droneName: 'Mavic 3T',
+    startTime: '2025-06-15T09:00:00',
+    endTime: '2025-06-15T09:35:00',
+    ...overrides,
+  };
+}
+
+const mission: Mission = {
+  id: 'mission-1',
+  incidentNumber: '2025/042',
+  title: 'Missing hiker',
+  searchArea: 'Tarnica',
+  startTime: '2025-06-15T08:30:00',
+  endTime: '2025-06-15T11:00:00',
+  outcome: 'found_alive',
+};
+
+const flights = [
+  flight(),
+  flight({
+    id: 'flight-2',
+    userId: 'pilot-2',
+    userEmail: 'pilot2@test.com',
+    droneId: 'drone-2',
+    droneName: 'Matrice 30T',
+    startTime: '2025-06-15T09:35:00',
+    endTime: '2025-06-15T10:20:00',
+  }),
+];
+
+// ── calculateMissionAirTime ──────────────────────────────────────────────────
+
+describe('calculateMissionAirTime', () => {
+  it('sums the duration of all flights', () => {
+    expect(calculateMissionAirTime(flights)).toBe(80);
+  });
+
+  it('ignores flights with invalid times', () => {
+    expect(calculateMissionAirTime([flight({ endTime: '' })])).toBe(0);
+  });
+});
+
+// ── summarizeMissionFlights ──────────────────────────────────────────────────
+
+describe('summarizeMissionFlights', () => {
+  it('counts flights and lists distinct pilots and drones', () => {
+    expect(summarizeMissionFlights([...flights, flight({ id: 'flight-3' })])).toEqual({
+      flightCount: 3,
+      totalMinutes: 115,
+      pilots: ['pilot1@test.com', 'pilot2@test.com'],
+      droneNames: ['Matrice 30T', 'Mavic 3T'],
+    });
+  });
+
+  it('returns zero totals without flights', () => {
+    expect(summarizeMissionFlights([])).toEqual({ flightCount: 0, totalMinutes: 0, pilots: [], droneNames: [] });
+  });
+});
+
+// ── buildMissionTimeline ─────────────────────────────────────────────────────
+
+describe('buildMissionTimeline', () => {
+  it('orders mission and flight events chronologically', () => {
+    const timeline = buildMissionTimeline(mission, [...flights].reverse());
+
+    expect(timeline.map(event => [event.type, event.flightId])).toEqual([
+      ['missionStart', undefined],
+      ['flightStart', 'flight-1'],
+      // a landing and the next takeoff at the same minute keep landing first
+      ['flightEnd', 'flight-1'],
+      ['flightStart', 'flight-2'],
+      ['flightEnd', 'flight-2'],
+      ['missionEnd', undefined],
+    ]);
+    expect(timeline[1]).toEqual(expect.objectContaining({ pilot: 'pilot1@test.com', droneName: 'Mavic 3T' }));
+  });
+
+  it('omits the end event for ongoing missions', () => {
+    const timeline = buildMissionTimeline({ ...mission, endTime: undefined, outcome: 'ongoing' }, []);
+
+    expect(timeline.map(event => event.type)).toEqual(['missionStart']);
+  });
+});
@@ -0,0 +1,50 @@
+import { getOfflineReadiness, isDatasetStale } from '../offlineReadinessUtils';
+import { OfflineDataset, OfflineDatasetStatus } from '@/types/OfflineReadiness';
+
+// ── helpers ──────────────────────────────────────────────────────────────────
+
+const now = new Date('2024-06-01T12:00:00.000Z');
+const hoursAgo = (hours: number) => new Date(now.getTime() - hours * 60 * 60 * 1000);
+
+const status = (dataset: OfflineDataset, lastUpdated: Date | null): OfflineDatasetStatus => ({
+  dataset,
+  itemCount: lastUpdated ? 3 : 0,
+  lastUpdated,
+});
+
+// ── staleness ────────────────────────────────────────────────────────────────
+
+describe('isDatasetStale', () => {
+  it('treats data downloaded within a day as fresh', () => {
+    expect(isDatasetStale(status('drones', hoursAgo(23)), now)).toBe(false);
+  });
+
+  it('treats data older than a day as stale', () => {
+    expect(isDatasetStale(status('drones', hoursAgo(25)), now)).toBe(true);
+  });
+
+  it('treats data never downloaded as stale', () => {
+    expect(isDatasetStale(status('drones', null), now)).toBe(true);
+  });
+});
+
+// ── readiness ────────────────────────────────────────────────────────────────
+
+describe('getOfflineReadiness', () => {
+  it('is ready when every dataset was downloaded recently', () => {
+    expect(getOfflineReadiness([status('drones', hoursAgo(1)), status('tasks', hoursAgo(2))], now)).toBe('ready');
+  });
+
+  it('is stale when every dataset was downloaded but some are old', () => {
+    expect(getOfflineReadiness([status('drones', hoursAgo(1)), status('tasks', hoursAgo(48))], now)).toBe('stale');
+  });
+
+  it('is partial when some datasets were never downloaded', () => {
+    expect(getOfflineReadiness([status('drones', hoursAgo(1)), status('tasks', null)], now)).toBe('partial');
+  });
+
+  it('is none when nothing was downloaded', () => {
+    expect(getOfflineReadiness([status('drones', null), status('tasks', null)], now)).toBe('none');
+    expect(getOfflineReadiness([], now)).toBe('none');
+  });
+});
@@ -0,0 +1,74 @@
+import { findOverlappingFlight, generateIdempotencyKey, isTaskChangedSince } from '../outboxUtils';
+import { Flight } from '@/types/Flight';
+
+// ── helpers ──────────────────────────────────────────────────────────────────
+
+const flight = (id: string, startTime: string, endTime: string) => ({ id, startTime, endTime }) as Flight;
+
+// ── idempotency keys ─────────────────────────────────────────────────────────
+
+describe('generateIdempotencyKey', () => {
+  it('generates keys shaped like Firestore document ids', () => {
+    expect(generateIdempotencyKey()).toMatch(/^[A-Za-z0-9]{20}$/);
+  });
+
+  it('generates a different key each time', () => {
+    const keys = new Set(Array.from({ length: 50 }, () => generateIdempotencyKey()));
+    expect(keys.size).toBe(50);
+  });
+});
+
+// ── overlapping flights ──────────────────────────────────────────────────────
+
+describe('findOverlappingFlight', () => {
+  const newFlight = { startTime: '2024-06-01T10:00:00', endTime: '2024-06-01T10:30:00' };
+
+  it('finds a flight overlapping the start or the end', () => {
+    const earlier = flight('earlier', '2024-06-01T09:45:00', '2024-06-01T10:10:00');
+    const later = flight('later', '2024-06-01T10:20:00', '2024-06-01T11:00:00');
+
+    expect(findOverlappingFlight(newFlight, [earlier])).toBe(earlier);
+    expect(findOverlappingFlight(newFlight, [later])).toBe(later);
+  });
+
+  it('finds a flight containing or contained in the new one', () => {
+    const containing = flight('containing', '2024-06-01T09:00:00', '2024-06-01T12:00:00');
+    const contained = flight('contained', '2024-06-01T10:05:00', '2024-06-01T10:10:00');
+
+    expect(findOverlappingFlight(newFlight, [containing])).toBe(containing);
+    expect(findOverlappingFlight(newFlight, [contained])).toBe(contained);
+  });
+
+  it('ignores flights that only touch at the ends', () => {
+    const flights = [
+      flight('before', '2024-06-01T09:30:00', '2024-06-01T10:00:00'),
+      flight('after', '2024-06-01T10:30:00', '2024-06-01T11:00:00'),
+    ];
+
+    expect(findOverlappingFlight(newFlight, flights)).toBeUndefined();
+  });
+
+  it('ignores a new flight with invalid times', () => {
+    const flights = [flight('other', '2024-06-01T09:00:00', '2024-06-01T12:00:00')];
+
+    expect(findOverlappingFlight({ startTime: 'invalid', endTime: '2024-06-01T10:30:00' }, flights)).toBeUndefined();
+  });
+});
+
+// ── task changes ─────────────────────────────────────────────────────────────
+
+describe('isTaskChangedSince', () => {
+  const base = new Date('2024-06-01T08:00:00.000Z');
+
+  it('detects a task changed after the base time', () => {
+    expect(isTaskChangedSince({ updatedAt: new Date('2024-06-01T08:00:01.000Z') }, base)).toBe(true);
+  });
+
+  it('accepts a task unchanged since the base time', () => {
+    expect(isTaskChangedSince({ updatedAt: base }, base)).toBe(false);
+  });
+
+  it('accepts updates made without a base time', () => {
+    expect(isTaskChangedSince({ updatedAt: new Date() })).toBe(false);
+  });
+});
@@ -0,0 +1,152 @@
+import {
+  buildProcedureExecutionResults,
+  getControlResults,
+  getOutOfRangeResults,
+  isExecutionLinkableToFlight,
+} from '../procedureExecutionUtils';
+import { ProcedureChecklist } from '@/types/ProcedureChecklist';
+
+// ── helpers ──────────────────────────────────────────────────────────────────
+
+const procedure: ProcedureChecklist = {
+  id: 'proc-1',
+  title: 'Pre-flight',
+  createdBy: 'user-1',
+  items: [
+    {
+      id: 'item-2',
+      number: 2,
+      topic: 'Props',
+      content: '',
+    },
+    {
+      id: 'item-1',
+      number: 1,
+      topic: 'Battery',
+      content: '',
+      subItems: [
+        {
+          id: 'sub-1',
+          type: 'control',
+          topic: 'Voltage',
+          control: 'Pack voltage',
+          requiredState: 'above 50%',
+          subItems: [{ id: 'sub-1-1', topic: 'Seated firmly' }],
+        },
+        { id: 'sub-2', topic: 'Latch closed' },
+      ],
+    },
+  ],
+};
+
+// ── results ──────────────────────────────────────────────────────────────────
+
+describe('buildProcedureExecutionResults', () => {
+  it('lists items in checklist order with their completion', () => {
+    const results = buildProcedureExecutionResults(procedure, new Set(['item-1']), new Set());
+
+    expect(results.items).toEqual([
+      { itemId: 'item-1', number: 1, topic: 'Battery', completed: true },
+      { itemId: 'item-2', number: 2, topic: 'Props', completed: false },
+    ]);
+    expect(results.status).toBe('incomplete');
+  });
+
+  it('flattens nested sub-items and keeps control values for control items only', () => {
+    const results = buildProcedureExecutionResults(
+      procedure,
+      new Set(['item-1', 'item-2']),
+      new Set(['sub-1', 'sub-1-1']),
+      { 'sub-1': ' 87% ', 'sub-2': 'ignored' }
+    );
+
+    expect(results.status).toBe('completed');
+    expect(results.subItems).toEqual([
+      expect.objectContaining({
+        subItemId: 'sub-1',
+        itemId: 'item-1',
+        parentSubItemId: undefined,
+        completed: true,
+        control: 'Pack voltage',
+        requiredState: 'above 50%',
+        value: '87%',
+      }),
+      expect.objectContaining({ subItemId: 'sub-1-1', parentSubItemId: 'sub-1', completed: true }),
+      expect.objectContaining({ subItemId: 'sub-2', completed: false, value: undefined }),
+    ]);
+  });
+
+  it('flags typed control values that are out of range', () => {
+    const typed: ProcedureChecklist = {
+      ...procedure,
+      items: [{
+        id: 'item-1',
+        number: 1,
+        topic: 'Battery',
+        content: '',
+        subItems: [
+          { id: 'volts', type: 'control', topic: 'Voltage', valueType: 'numeric', min: 44.4, unit: 'V' },
+          { id: 'gps', type: 'control', topic: 'GPS lock', valueType: 'boolean', expectedBoolean: true },
+          { id: 'note', type: 'control', topic: 'Remarks', valueType: 'text' },
+        ],
+      }],
+    };
+
+    const { subItems } = buildProcedureExecutionResults(
+      typed,
+      new Set(),
+      new Set(),
+      { volts: '43,8', gps: 'true', note: 'scratch on arm' }
+    );
+
+    expect(subItems).toEqual([
+      expect.objectContaining({ subItemId: 'volts', value: '43,8', valueType: 'numeric', unit: 'V', outOfRange: true }),
+      expect.objectContaining({ subItemId: 'gps', value: 'true', valueType: 'boolean', outOfRange: undefined }),
+      expect.objectContaining({ subItemId: 'note', value: 'scratch on arm', valueType: undefined, outOfRange: undefined }),
+    ]);
+    expect(getOutOfRangeResults(subItems).map(subItem => subItem.subItemId)).toEqual(['volts']);
+  });
+
+  it('treats an empty procedure as incomplete', () => {
+    expect(buildProcedureExecutionResults({ ...procedure, items: [] }, new Set(), new Set()).status)
+      .toBe('incomplete');
+  });
+});
+
+describe('getControlResults', () => {
+  it('returns the control sub-items only', () => {
+    const { subItems } = buildProcedureExecutionResults(procedure, new Set(), new Set());
+    expect(getControlResults(subItems).map(subItem => subItem.subItemId)).toEqual(['sub-1']);
+  });
+});
+
+// ── flight linking ───────────────────────────────────────────────────────────
+
+describe('isExecutionLinkableToFlight', () => {
+  const flight = { droneId: 'drone-1', endTime: '2024-06-01T12:00:00.000Z' };
+
+  it('accepts an unlinked run with the same drone started before the flight ended', () => {
+    expect(isExecutionLinkableToFlight(
+      { droneId: 'drone-1', startedAt: new Date('2024-06-01T09:30:00.000Z') },
+      flight
+    )).toBe(true);
+  });
+
+  it('rejects runs for another drone, already linked or without a drone', () => {
+    const startedAt = new Date('2024-06-01T09:30:00.000Z');
+    expect(isExecutionLinkableToFlight({ droneId: 'drone-2', startedAt }, flight)).toBe(false);
+    expect(isExecutionLinkableToFlight({ droneId: 'drone-1', flightId: 'flight-9', startedAt }, flight)).toBe(false);
+    expect(isExecutionLinkableToFlight({ startedAt }, flight)).toBe(false);
+  });
+
+  it('rejects runs started after the flight or more than a day before it ended', () => {
+    expect(isExecutionLinkableToFlight(
+      { droneId: 'drone-1', startedAt: new Date('2024-06-01T12:30:00.000Z') },
+      flight
+    )).toBe(false);
+    expect(isExecutionLinkableToFlight(
+      { droneId: 'drone-1', startedAt: new Date('2024-05-31T11:00:00.000Z') },
+      flight
+    )).toBe(false);
+  });
+});
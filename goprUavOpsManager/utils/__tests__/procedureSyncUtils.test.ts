@@ -0,0 +1,125 @@
+import {
+  applyProcedureChanges,
+  getNewImageUrls,
+  getProcedureImageUrls,
+  getSyncCursor,
+} from '../procedureSyncUtils';
+import { ProcedureChecklist } from '@/types/ProcedureChecklist';
+
+// ── helpers ──────────────────────────────────────────────────────────────────
+
+const procedure = (
+  id: string,
+  createdAt: string,
+  updatedAt: string,
+  images: string[] = []
+): ProcedureChecklist => ({
+  id,
+  title: `Procedure ${id}`,
+  items: images.map((image, index) => ({ id: `${id}-item-${index}`, topic: 'Item', content: '', number: index + 1, image })),
+  createdBy: 'user-1',
+  updatedBy: 'user-1',
+  createdAt: new Date(createdAt),
+  updatedAt: new Date(updatedAt),
+  isDeleted: false,
+} as ProcedureChecklist);
+
+const first = procedure('p1', '2024-01-01T00:00:00.000Z', '2024-01-01T00:00:00.000Z', ['https://img/a.jpg']);
+const second = procedure('p2', '2024-02-01T00:00:00.000Z', '2024-02-01T00:00:00.000Z');
+
+// ── applying changes ─────────────────────────────────────────────────────────
+
+describe('applyProcedureChanges', () => {
+  it('replaces changed procedures and adds new ones, newest first', () => {
+    const edited = { ...first, title: 'Edited', updatedAt: new Date('2024-03-01T00:00:00.000Z') };
+    const added = procedure('p3', '2024-03-02T00:00:00.000Z', '2024-03-02T00:00:00.000Z');
+
+    const result = applyProcedureChanges([second, first], { changed: [edited, added], deleted: [] });
+
+    expect(result.map(p => p.id)).toEqual(['p3', 'p2', 'p1']);
+    expect(result[2].title).toBe('Edited');
+  });
+
+  it('removes procedures with a tombstone', () => {
+    const result = applyProcedureChanges([second, first], {
+      changed: [],
+      deleted: [{ procedureId: 'p2', deletedAt: new Date('2024-03-01T00:00:00.000Z') }],
+    });
+
+    expect(result.map(p => p.id)).toEqual(['p1']);
+  });
+
+  it('keeps a procedure deleted and restored since the last sync', () => {
+    const restored = { ...second, updatedAt: new Date('2024-03-02T00:00:00.000Z') };
+
+    const result = applyProcedureChanges([second, first], {
+      changed: [restored],
+      deleted: [{ procedureId: 'p2', deletedAt: new Date('2024-03-01T00:00:00.000Z') }],
+    });
+
+    expect(result.map(p => p.id)).toEqual(['p2', 'p1']);
+  });
+
+  it('keeps soft-deleted procedures flagged for admins', () => {
+    const deleted = { ...second, isDeleted: true, updatedAt: new Date('2024-03-01T00:00:00.000Z') };
+
+    const result = applyProcedureChanges([second, first], { changed: [deleted], deleted: [] });
+
+    expect(result.find(p => p.id === 'p2')?.isDeleted).toBe(true);
+  });
+});
+
+// ── sync cursor ──────────────────────────────────────────────────────────────
+
+describe('getSyncCursor', () => {
+  it('is the latest update or deletion', () => {
+    const cursor = getSyncCursor({
+      changed: [first, second],
+      deleted: [{ procedureId: 'p9', deletedAt: new Date('2024-02-15T00:00:00.000Z') }],
+    });
+
+    expect(cursor).toBe(new Date('2024-02-15T00:00:00.000Z').getTime());
+  });
+
+  it('keeps the previous cursor when nothing changed', () => {
+    expect(getSyncCursor({ changed: [], deleted: [] }, 1000)).toBe(1000);
+  });
+
+  it('is null without any change time', () => {
+    expect(getSyncCursor({ changed: [], deleted: [] })).toBeNull();
+  });
+});
+
+// ── images ───────────────────────────────────────────────────────────────────
+
+describe('getProcedureImageUrls', () => {
+  it('collects item and nested sub-item images once, skipping blob URLs', () => {
+    const withSubItems: ProcedureChecklist = {
+      ...second,
+      items: [{
+        id: 'item', topic: 'Item', content: '', number: 1, image: 'blob:local',
+        subItems: [
+          { id: 'sub', topic: 'Sub', image: 'https://img/b.jpg', subItems: [{ id: 'deep', topic: 'Deep', image: 'https://img/c.jpg' }] },
+          { id: 'sub2', topic: 'Sub 2', image: 'https://img/a.jpg' },
+        ],
+      }],
+    };
+
+    expect(getProcedureImageUrls([first, withSubItems])).toEqual([
+      'https://img/a.jpg',
+      'https://img/b.jpg',
+      'https://img/c.jpg',
+    ]);
+  });
+});
+
+describe('getNewImageUrls', () => {
+  it('returns only images not cached before', () => {
+    const edited = procedure('p1', '2024-01-01T00:00:00.000Z', '2024-03-01T00:00:00.000Z', [
+      'https://img/a.jpg',
+      'https://img/new.jpg',
+    ]);
+
+    expect(getNewImageUrls([first, second], [edited])).toEqual(['https://img/new.jpg']);
+  });
+});
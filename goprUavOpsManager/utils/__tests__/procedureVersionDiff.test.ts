@@ -0,0 +1,145 @@
+import { diffProcedureVersions, countProcedureChanges } from '../procedureVersionDiff';
+import { ChecklistItem } from '@/types/ProcedureChecklist';
+
+// ── helpers ──────────────────────────────────────────────────────────────────
+
+function version(items: ChecklistItem[], overrides: { title?: string; description?: string; categories?: string[] } = {}) {
+  return {
+    title: 'Pre-flight',
+    description: 'Before every flight',
+    categories: ['default'],
+    items,
+    ...overrides,
+  };
+}
+
+const battery: ChecklistItem = {
+  id: 'item-1',
+  number: 1,
+  topic: 'Battery',
+  content: 'Check the battery',
+  subItems: [
+    { id: 'sub-1', type: 'control', topic: 'Voltage', control: 'Pack voltage', requiredState: 'above 50%' },
+    { id: 'sub-2', topic: 'Latch', subItems: [{ id: 'sub-2-1', topic: 'Clicks in' }] },
+  ],
+};
+
+const props: ChecklistItem = {
+  id: 'item-2',
+  number: 2,
+  topic: 'Props',
+  content: 'Check the props',
+};
+
+// ── procedure fields ─────────────────────────────────────────────────────────
+
+describe('diffProcedureVersions', () => {
+  it('finds no changes between identical versions', () => {
+    const diff = diffProcedureVersions(version([battery, props]), version([props, battery]));
+
+    expect(diff).toEqual({ changes: [], items: [] });
+    expect(countProcedureChanges(diff)).toBe(0);
+  });
+
+  it('reports title, description and category changes', () => {
+    const diff = diffProcedureVersions(
+      version([], { description: '' }),
+      version([], { title: 'Pre-flight (winter)', description: 'Cold weather', categories: ['default', 'winter'] })
+    );
+
+    expect(diff.changes).toEqual([
+      { path: 'title', previousValue: 'Pre-flight', newValue: 'Pre-flight (winter)' },
+      { path: 'description', previousValue: undefined, newValue: 'Cold weather' },
+      { path: 'categories', previousValue: ['default'], newValue: ['default', 'winter'] },
+    ]);
+  });
+
+  // ── items ──────────────────────────────────────────────────────────────────
+
+  it('reports added and removed items', () => {
+    const diff = diffProcedureVersions(version([battery]), version([props]));
+
+    expect(diff.items).toEqual([
+      { id: 'item-2', kind: 'added', topic: 'Props', changes: [], subItems: [] },
+      { id: 'item-1', kind: 'removed', topic: 'Battery', changes: [], subItems: [] },
+    ]);
+  });
+
+  it('reports field changes of an item, including renumbering', () => {
+    const diff = diffProcedureVersions(
+      version([battery, props]),
+      version([{ ...props, number: 1, content: 'Check props for cracks' }, { ...battery, number: 2 }])
+    );
+
+    expect(diff.items).toEqual([
+      expect.objectContaining({
+        id: 'item-2',
+        kind: 'changed',
+        changes: [
+          { path: 'number', previousValue: 2, newValue: 1 },
+          { path: 'content', previousValue: 'Check the props', newValue: 'Check props for cracks' },
+        ],
+      }),
+      expect.objectContaining({
+        id: 'item-1',
+        kind: 'changed',
+        changes: [{ path: 'number', previousValue: 1, newValue: 2 }],
+      }),
+    ]);
+  });
+
+  // ── sub-items ──────────────────────────────────────────────────────────────
+
+  it('nests sub-item changes under their item', () => {
+    const edited: ChecklistItem = {
+      ...battery,
+      subItems: [
+        { ...battery.subItems![0], requiredState: 'above 70%' },
+        { id: 'sub-2', topic: 'Latch', subItems: [{ id: 'sub-2-2', topic: 'Locked' }] },
+      ],
+    };
+
+    const diff = diffProcedureVersions(version([battery]), version([edited]));
+
+    expect(diff.items).toEqual([
+      {
+        id: 'item-1',
+        kind: 'changed',
+        topic: 'Battery',
+        changes: [],
+        subItems: [
+          {
+            id: 'sub-1',
+            kind: 'changed',
+            topic: 'Voltage',
+            changes: [{ path: 'requiredState', previousValue: 'above 50%', newValue: 'above 70%' }],
+            subItems: [],
+          },
+          {
+            id: 'sub-2',
+            kind: 'changed',
+            topic: 'Latch',
+            changes: [],
+            subItems: [
+              { id: 'sub-2-2', kind: 'added', topic: 'Locked', changes: [], subItems: [] },
+              { id: 'sub-2-1', kind: 'removed', topic: 'Clicks in', changes: [], subItems: [] },
+            ],
+          },
+        ],
+      },
+    ]);
+    // requiredState edit, one added and one removed sub-item
+    expect(countProcedureChanges(diff)).toBe(3);
+  });
+
+  it('reports reordered sub-items as moved', () => {
+    const reordered: ChecklistItem = { ...battery, subItems: [battery.subItems![1], battery.subItems![0]] };
+
+    const diff = diffProcedureVersions(version([battery]), version([reordered]));
+
+    expect(diff.items[0].subItems.map(node => [node.id, node.kind])).toEqual([
+      ['sub-2', 'moved'],
+      ['sub-1', 'moved'],
+    ]);
+  });
+});
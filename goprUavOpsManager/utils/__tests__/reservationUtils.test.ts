@@ -0,0 +1,103 @@
+import {
+  findOverlappingReservations,
+  getReservationsForDay,
+  getWeekDays,
+  getWeekStart,
+  isReservationInProgress,
+  windowsOverlap,
+} from '../reservationUtils';
+import { DroneReservation } from '@/types/DroneReservation';
+
+// ── helpers ──────────────────────────────────────────────────────────────────
+
+const at = (day: number, hour: number) => new Date(2025, 0, day, hour);
+
+function reservation(id: string, start: Date, end: Date, overrides: Partial<DroneReservation> = {}): DroneReservation {
+  return {
+    id,
+    droneId: 'drone-1',
+    userId: 'user-1',
+    userEmail: 'user@example.com',
+    startTime: start,
+    endTime: end,
+    status: 'scheduled',
+    createdAt: new Date(2024, 11, 1),
+    createdBy: 'user-1',
+    ...overrides,
+  };
+}
+
+// ── overlap ──────────────────────────────────────────────────────────────────
+
+describe('windowsOverlap', () => {
+  it('detects overlapping and contained windows', () => {
+    expect(windowsOverlap(at(6, 8), at(6, 12), at(6, 10), at(6, 14))).toBe(true);
+    expect(windowsOverlap(at(6, 8), at(6, 18), at(6, 10), at(6, 12))).toBe(true);
+  });
+
+  it('treats touching windows as free', () => {
+    expect(windowsOverlap(at(6, 8), at(6, 10), at(6, 10), at(6, 12))).toBe(false);
+    expect(windowsOverlap(at(6, 8), at(6, 10), at(7, 8), at(7, 10))).toBe(false);
+  });
+});
+
+describe('findOverlappingReservations', () => {
+  it('returns blocking reservations overlapping the window', () => {
+    const reservations = [
+      reservation('scheduled', at(6, 8), at(6, 12)),
+      reservation('started', at(6, 11), at(6, 13), { status: 'started' }),
+      reservation('cancelled', at(6, 9), at(6, 11), { status: 'cancelled' }),
+      reservation('later', at(6, 14), at(6, 16)),
+    ];
+
+    expect(findOverlappingReservations(reservations, at(6, 10), at(6, 14)).map(r => r.id))
+      .toEqual(['scheduled', 'started']);
+  });
+
+  it('skips the excluded reservation', () => {
+    const reservations = [reservation('self', at(6, 8), at(6, 12))];
+
+    expect(findOverlappingReservations(reservations, at(6, 9), at(6, 10), 'self')).toEqual([]);
+  });
+});
+
+// ── calendar ─────────────────────────────────────────────────────────────────
+
+describe('getWeekStart and getWeekDays', () => {
+  it('starts weeks on Monday at midnight', () => {
+    // 8 January 2025 is a Wednesday
+    expect(getWeekStart(new Date(2025, 0, 8, 15, 30))).toEqual(new Date(2025, 0, 6));
+    expect(getWeekStart(new Date(2025, 0, 12, 23))).toEqual(new Date(2025, 0, 6));
+    expect(getWeekStart(new Date(2025, 0, 6))).toEqual(new Date(2025, 0, 6));
+  });
+
+  it('lists seven consecutive days across month ends', () => {
+    const days = getWeekDays(new Date(2025, 0, 27));
+
+    expect(days).toHaveLength(7);
+    expect(days[0]).toEqual(new Date(2025, 0, 27));
+    expect(days[6]).toEqual(new Date(2025, 1, 2));
+  });
+});
+
+describe('getReservationsForDay', () => {
+  it('includes reservations spanning midnight on both days, ordered by start', () => {
+    const overnight = reservation('overnight', at(6, 20), at(7, 6));
+    const morning = reservation('morning', at(7, 8), at(7, 10));
+    const early = reservation('early', at(6, 6), at(6, 8));
+
+    expect(getReservationsForDay([overnight, morning, early], at(6, 0)).map(r => r.id)).toEqual(['early', 'overnight']);
+    expect(getReservationsForDay([morning, overnight], at(7, 12)).map(r => r.id)).toEqual(['overnight', 'morning']);
+    expect(getReservationsForDay([overnight], at(8, 0))).toEqual([]);
+  });
+});
+
+describe('isReservationInProgress', () => {
+  it('checks whether the window covers the moment', () => {
+    const booked = reservation('booked', at(6, 8), at(6, 12));
+
+    expect(isReservationInProgress(booked, at(6, 8))).toBe(true);
+    expect(isReservationInProgress(booked, at(6, 12))).toBe(false);
+    expect(isReservationInProgress(booked, at(6, 7))).toBe(false);
+  });
+});
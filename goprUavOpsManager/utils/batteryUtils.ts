@@ -0,0 +1,43 @@
+import { Battery, BatteryIssue, BATTERY_CYCLE_WARNING_RATIO } from '@/types/Battery';
+
+// Issues that make a pack unfit for a rescue mission
+const DEGRADING_ISSUES: BatteryIssue[] = ['cycleLimit', 'markedDegraded'];
+
+type BatteryHealthFields = Pick<Battery, 'cycleCount' | 'ratedCycles' | 'markedDegraded'>;
+
+/**
+ * Everything currently wrong with a pack, most serious first
+ */
+export function getBatteryIssues(battery: BatteryHealthFields): BatteryIssue[] {
+  const issues: BatteryIssue[] = [];
+
+  if (battery.markedDegraded) {
+    issues.push('markedDegraded');
+  }
+
+  if (battery.ratedCycles && battery.ratedCycles > 0) {
+    if (battery.cycleCount >= battery.ratedCycles) {
+      issues.push('cycleLimit');
+    } else if (battery.cycleCount >= battery.ratedCycles * BATTERY_CYCLE_WARNING_RATIO) {
+      issues.push('nearCycleLimit');
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Whether a pack should not be taken on a mission
+ */
+export function isBatteryDegraded(battery: BatteryHealthFields): boolean {
+  return getBatteryIssues(battery).some(issue => DEGRADING_ISSUES.includes(issue));
+}
+
+/**
+ * Active packs that can be used with a drone, labels in natural order
+ */
+export function getCompatibleBatteries(batteries: Battery[], droneId: string): Battery[] {
+  return batteries
+    .filter(battery => !battery.isRetired && battery.compatibleDroneIds.includes(droneId))
+    .sort((a, b) => a.label.localeCompare(b.label, undefined, { numeric: true }));
+}
@@ -0,0 +1,128 @@
+import { ControlValueSettings } from '@/types/ProcedureChecklist';
+import { ProcedureExecutionSubItemResult } from '@/types/ProcedureExecution';
+
+// Values recorded for 'boolean' controls
+export const CONTROL_BOOLEAN_VALUES = { yes: 'true', no: 'false' } as const;
+
+/**
+ * Parse a numeric control value as typed by the operator; a decimal comma is accepted
+ * (e.g. '22,4'). Returns undefined for anything that is not a number.
+ */
+export function parseNumericValue(value: string): number | undefined {
+  const normalized = value.trim().replace(',', '.');
+  if (!normalized) {
+    return undefined;
+  }
+
+  const parsed = Number(normalized);
+  return isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * Keep only the value settings that apply to the control's value type, with options
+ * trimmed and de-duplicated. Free-text controls keep no settings besides their type.
+ */
+export function normalizeControlValueSettings(settings: ControlValueSettings): ControlValueSettings {
+  switch (settings.valueType) {
+    case 'boolean':
+      return {
+        valueType: 'boolean',
+        expectedBoolean: settings.expectedBoolean,
+      };
+    case 'numeric':
+      return {
+        valueType: 'numeric',
+        min: settings.min,
+        max: settings.max,
+        unit: settings.unit?.trim() || undefined,
+      };
+    case 'enum': {
+      const options = Array.from(new Set((settings.options || []).map(option => option.trim()).filter(Boolean)));
+      const acceptedOptions = (settings.acceptedOptions || []).filter(option => options.includes(option));
+      return {
+        valueType: 'enum',
+        options,
+        acceptedOptions: acceptedOptions.length > 0 ? acceptedOptions : undefined,
+      };
+    }
+    case 'text':
+      return { valueType: 'text' };
+    default:
+      return {};
+  }
+}
+
+/**
+ * Whether a recorded value is outside what the control accepts. Missing values and
+ * free-text controls are never out of range; a numeric control with a value that is
+ * not a number is.
+ */
+export function isControlValueOutOfRange(settings: ControlValueSettings, value: string | undefined): boolean {
+  const trimmed = value?.trim();
+  if (!trimmed) {
+    return false;
+  }
+
+  switch (settings.valueType) {
+    case 'boolean':
+      return settings.expectedBoolean !== undefined
+        && trimmed !== String(settings.expectedBoolean);
+    case 'numeric': {
+      const numeric = parseNumericValue(trimmed);
+      if (numeric === undefined) {
+        return true;
+      }
+      return (settings.min !== undefined && numeric < settings.min)
+        || (settings.max !== undefined && numeric > settings.max);
+    }
+    case 'enum':
+      return settings.acceptedOptions !== undefined
+        && settings.acceptedOptions.length > 0
+        && !settings.acceptedOptions.includes(trimmed);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Accepted range of a numeric control for display, e.g. '44.4–52.8 V', '≥ 10 sats'
+ */
+export function formatNumericRange(settings: ControlValueSettings): string | undefined {
+  if (settings.valueType !== 'numeric') {
+    return undefined;
+  }
+
+  const unit = settings.unit ? ` ${settings.unit}` : '';
+  if (settings.min !== undefined && settings.max !== undefined) {
+    return `${settings.min}–${settings.max}${unit}`;
+  }
+  if (settings.min !== undefined) {
+    return `≥ ${settings.min}${unit}`;
+  }
+  if (settings.max !== undefined) {
+    return `≤ ${settings.max}${unit}`;
+  }
+  return undefined;
+}
+
+/**
+ * Recorded value of a control result for display: boolean values use the given
+ * labels, numeric values get their unit, missing values show as a dash
+ */
+export function formatControlValue(
+  result: Pick<ProcedureExecutionSubItemResult, 'value' | 'valueType' | 'unit'>,
+  yesLabel: string,
+  noLabel: string
+): string {
+  if (!result.value) {
+    return '—';
+  }
+
+  if (result.valueType === 'boolean') {
+    return result.value === CONTROL_BOOLEAN_VALUES.yes ? yesLabel : noLabel;
+  }
+  if (result.valueType === 'numeric' && result.unit) {
+    return `${result.value} ${result.unit}`;
+  }
+  return result.value;
+}
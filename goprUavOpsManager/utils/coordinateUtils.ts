@@ -8,7 +8,7 @@
  * - Coordinate string parsing and formatting
  * - Distance calculations between points
  * - Coordinate validation and bounds checking
- * - Different coordinate format support
+ * - Different coordinate format support (decimal, DMS, DDM, UTM, MGRS)
  * - Geographic utility functions
  * 
  * Usage:
@@ -23,6 +23,10 @@
  * 
  * // Calculate distance
  * const distance = CoordinateUtils.calculateDistance(point1, point2);
+ *
+ * // Parse and format other notations
+ * const dms = CoordinateUtils.parse('49°14\'30"N 19°58\'12"E');
+ * const mgrs = CoordinateUtils.formatAs(dms!, 'mgrs'); // "34U DV 25028 54831"
  * ```
  */
 
@@ -36,6 +40,23 @@ export interface CoordinatesBounds {
   southWest: Coordinates;
 }
 
+/** Supported coordinate notations */
+export type CoordinateFormat = 'decimal' | 'dms' | 'ddm' | 'utm' | 'mgrs';
+
+/** All coordinate notations, in display order */
+export const COORDINATE_FORMATS: CoordinateFormat[] = ['decimal', 'dms', 'ddm', 'utm', 'mgrs'];
+
+export interface UtmCoordinates {
+  /** UTM zone number (1-60) */
+  zone: number;
+  /** Latitude band letter (C-X) */
+  band: string;
+  /** Easting in meters */
+  easting: number;
+  /** Northing in meters (with 10,000,000 m false northing on the southern hemisphere) */
+  northing: number;
+}
+
 export interface DistanceResult {
   /** Distance in meters */
   meters: number;
@@ -64,13 +85,87 @@ export class CoordinateUtils {
   /** Minimum valid longitude */
   private static readonly MIN_LONGITUDE = -180;
 
+  /** WGS84 semi-major axis in meters */
+  private static readonly WGS84_A = 6378137;
+
+  /** WGS84 flattening */
+  private static readonly WGS84_F = 1 / 298.257223563;
+
+  /** UTM scale factor on the central meridian */
+  private static readonly UTM_K0 = 0.9996;
+
+  /** UTM latitude bands, 8° each from 80°S (X spans 72°N-84°N) */
+  private static readonly UTM_BANDS = 'CDEFGHJKLMNPQRSTUVWX';
+
+  /** MGRS 100 km column letters for zone sets 1-3 (repeated for sets 4-6) */
+  private static readonly MGRS_COLUMN_LETTERS = ['ABCDEFGH', 'JKLMNPQR', 'STUVWXYZ'];
+
+  /** MGRS 100 km row letters (even zones start at 'F') */
+  private static readonly MGRS_ROW_LETTERS = 'ABCDEFGHJKLMNPQRSTUV';
+
   /**
    * Parse coordinates from various string formats
-   * Supports formats: "lat, lng", "lat,lng", "lat lng", "(lat, lng)"
+   * Supports decimal "lat, lng", "lat,lng", "lat lng", "(lat, lng)" as well as
+   * DMS (49°14'30"N 19°58'12"E), DDM (49°14.5'N 19°58.2'E), UTM (34U 425000 5454000) and MGRS (34UDA2500054000)
    * @param coordinateString String representation of coordinates
    * @returns Parsed coordinates or null if invalid
    */
   static parse(coordinateString: string): Coordinates | null {
+    const format = this.detectFormat(coordinateString);
+    if (!format) {
+      return null;
+    }
+
+    switch (format) {
+      case 'mgrs':
+        return this.parseMGRS(coordinateString);
+      case 'utm':
+        return this.parseUTM(coordinateString);
+      case 'dms':
+      case 'ddm':
+        return this.parseDegrees(coordinateString);
+      default:
+        // Decimal degrees written with degree marks or hemisphere letters go through the degree parser
+        return this.parseDecimal(coordinateString) || this.parseDegrees(coordinateString);
+    }
+  }
+
+  /**
+   * Detect the notation of a coordinate string
+   * @param coordinateString String representation of coordinates
+   * @returns Detected format or null if the string is not a valid position
+   */
+  static detectFormat(coordinateString: string): CoordinateFormat | null {
+    if (!coordinateString || typeof coordinateString !== 'string') {
+      return null;
+    }
+
+    if (this.parseDecimal(coordinateString)) {
+      return 'decimal';
+    }
+    if (this.parseMGRS(coordinateString)) {
+      return 'mgrs';
+    }
+    if (this.parseUTM(coordinateString)) {
+      return 'utm';
+    }
+
+    const components = this.splitDegreeComponents(coordinateString);
+    if (components && this.parseDegrees(coordinateString)) {
+      // Seconds make it DMS, minutes alone DDM; plain degrees with hemisphere letters count as decimal
+      const parts = components.map(component => component.values.length);
+      if (parts.some(count => count === 3)) return 'dms';
+      if (parts.some(count => count === 2)) return 'ddm';
+      return 'decimal';
+    }
+
+    return null;
+  }
+
+  /**
+   * Parse decimal "lat, lng" coordinates
+   */
+  private static parseDecimal(coordinateString: string): Coordinates | null {
     if (!coordinateString || typeof coordinateString !== 'string') {
       return null;
     }
@@ -88,6 +183,11 @@ export class CoordinateUtils {
         return null;
       }
 
+      // Each part must be a plain number, anything else is left to the other notations
+      if (!parts.every(part => /^[-+]?\d+(\.\d*)?$|^[-+]?\.\d+$/.test(part))) {
+        return null;
+      }
+
       const latitude = parseFloat(parts[0]);
       const longitude = parseFloat(parts[1]);
 
@@ -109,6 +209,167 @@ export class CoordinateUtils {
     }
   }
 
+  /**
+   * Split a degree-based string (DMS/DDM or decimal with hemisphere letters) into latitude and longitude parts
+   * @returns Two components with their numeric values and hemisphere, or null if the string does not look like one
+   */
+  private static splitDegreeComponents(coordinateString: string): { values: number[]; hemisphere?: string; negative: boolean }[] | null {
+    const normalized = coordinateString
+      .toUpperCase()
+      .replace(/[′’´]/g, "'")
+      .replace(/[″”]|''/g, '"')
+      .replace(/º/g, '°')
+      .trim();
+
+    // Only digits, separators, degree marks and hemisphere letters are allowed
+    if (!/^[\d\s.,;°'"NSEW+-]+$/.test(normalized)) {
+      return null;
+    }
+
+    const letters = normalized.match(/[NSEW]/g) || [];
+    const hasMarks = /[°'"]/.test(normalized);
+    if (letters.length === 0 && !hasMarks) {
+      return null;
+    }
+
+    let parts: string[];
+    if (letters.length === 2) {
+      // Hemisphere letters either prefix ("N 49°14'30") or suffix ("49°14'30N") both components
+      parts = /^[NSEW]/.test(normalized)
+        ? normalized.split(/(?=[NSEW])/)
+        : normalized.split(/(?<=[NSEW])/);
+    } else if (letters.length === 0) {
+      parts = normalized.split(/[,;]/);
+    } else {
+      return null;
+    }
+
+    parts = parts.map(part => part.replace(/^[\s,;]+|[\s,;]+$/g, '')).filter(part => part.length > 0);
+    if (parts.length !== 2) {
+      return null;
+    }
+
+    const components = parts.map(part => ({
+      values: (part.match(/\d+(?:\.\d+)?/g) || []).map(Number),
+      hemisphere: part.match(/[NSEW]/)?.[0],
+      negative: part.includes('-'),
+    }));
+
+    return components.every(component => component.values.length >= 1 && component.values.length <= 3)
+      ? components
+      : null;
+  }
+
+  /**
+   * Parse DMS/DDM coordinates (or decimal degrees with hemisphere letters)
+   */
+  private static parseDegrees(coordinateString: string): Coordinates | null {
+    const components = this.splitDegreeComponents(coordinateString);
+    if (!components) {
+      return null;
+    }
+
+    const values: { value: number; axis?: 'lat' | 'lng' }[] = [];
+    for (const component of components) {
+      const [degrees, minutes = 0, seconds = 0] = component.values;
+      // Only the last value may be fractional, minutes and seconds stay below 60
+      if (component.values.slice(0, -1).some(value => !Number.isInteger(value)) || minutes >= 60 || seconds >= 60) {
+        return null;
+      }
+
+      const sign = component.negative || component.hemisphere === 'S' || component.hemisphere === 'W' ? -1 : 1;
+      const axis = component.hemisphere === 'N' || component.hemisphere === 'S' ? 'lat'
+        : component.hemisphere === 'E' || component.hemisphere === 'W' ? 'lng'
+          : undefined;
+      values.push({ value: sign * (degrees + minutes / 60 + seconds / 3600), axis });
+    }
+
+    // Without hemisphere letters the order is latitude, longitude
+    const [first, second] = values;
+    if (first.axis && first.axis === second.axis) {
+      return null;
+    }
+    const latitude = first.axis === 'lng' ? second.value : first.value;
+    const longitude = first.axis === 'lng' ? first.value : second.value;
+
+    return this.create(latitude, longitude);
+  }
+
+  /**
+   * Parse UTM coordinates such as "34U 425000 5454000" or "34U 425000mE 5454000mN"
+   */
+  private static parseUTM(coordinateString: string): Coordinates | null {
+    const match = coordinateString
+      .toUpperCase()
+      .trim()
+      .match(/^(\d{1,2})\s*([C-HJ-NP-X])\s+(\d{1,7}(?:\.\d+)?)\s*(?:M?E)?[\s,;]+(\d{1,8}(?:\.\d+)?)\s*(?:M?N)?$/);
+    if (!match) {
+      return null;
+    }
+
+    return this.fromUTM({
+      zone: parseInt(match[1], 10),
+      band: match[2],
+      easting: parseFloat(match[3]),
+      northing: parseFloat(match[4]),
+    });
+  }
+
+  /**
+   * Parse MGRS coordinates such as "34UDA2500054000" or "34U DA 25000 54000" (1 m to 10 km precision)
+   */
+  private static parseMGRS(coordinateString: string): Coordinates | null {
+    const match = coordinateString
+      .toUpperCase()
+      .replace(/\s+/g, '')
+      .match(/^(\d{1,2})([C-HJ-NP-X])([A-HJ-NP-Z])([A-HJ-NP-V])(\d{2}|\d{4}|\d{6}|\d{8}|\d{10})$/);
+    if (!match) {
+      return null;
+    }
+
+    const zone = parseInt(match[1], 10);
+    const band = match[2];
+    if (zone < 1 || zone > 60) {
+      return null;
+    }
+
+    const set = ((zone - 1) % 6) + 1;
+    const column = this.MGRS_COLUMN_LETTERS[(set - 1) % 3].indexOf(match[3]);
+    const rowIndex = this.MGRS_ROW_LETTERS.indexOf(match[4]);
+    if (column === -1 || rowIndex === -1) {
+      return null;
+    }
+
+    const digits = match[5];
+    const precision = digits.length / 2;
+    const scale = Math.pow(10, 5 - precision);
+    const easting = (column + 1) * 100000 + parseInt(digits.slice(0, precision), 10) * scale;
+    const row = (rowIndex - (set % 2 === 0 ? 5 : 0) + 20) % 20;
+    let northing = row * 100000 + parseInt(digits.slice(precision), 10) * scale;
+
+    // The row letters repeat every 2000 km; move north until the point lies in the latitude band
+    const minNorthing = this.getBandMinNorthing(zone, band);
+    while (northing < minNorthing - 100000) {
+      northing += 2000000;
+    }
+
+    return this.fromUTM({ zone, band, easting, northing });
+  }
+
+  /**
+   * Lowest northing of a latitude band within a zone (used to resolve the MGRS row letter cycle)
+   */
+  private static getBandMinNorthing(zone: number, band: string): number {
+    const bandIndex = this.UTM_BANDS.indexOf(band);
+    const latitude = -80 + bandIndex * 8;
+    const centralMeridian = (zone - 1) * 6 - 180 + 3;
+    // Parallels curve towards the pole in UTM, so the minimum is on the central meridian (north) or zone edge (south)
+    return Math.min(
+      this.projectToUTM(latitude, centralMeridian, zone).northing,
+      this.projectToUTM(latitude, centralMeridian - 3, zone).northing
+    );
+  }
+
   /**
    * Format coordinates as a string
    * @param coordinates Coordinates to format
@@ -124,6 +385,201 @@ export class CoordinateUtils {
     return `${coordinates.latitude.toFixed(precision)}${separator}${coordinates.longitude.toFixed(precision)}`;
   }
 
+  /**
+   * Format coordinates in the given notation
+   * @param coordinates Coordinates to format
+   * @param format Target notation
+   * @returns Formatted coordinate string
+   * @throws Error when the coordinates are invalid or outside the UTM/MGRS range (80°S-84°N)
+   */
+  static formatAs(coordinates: Coordinates, format: CoordinateFormat): string {
+    if (!this.isValid(coordinates)) {
+      throw new Error('Invalid coordinates provided');
+    }
+
+    switch (format) {
+      case 'dms':
+        return `${this.formatDegrees(coordinates.latitude, 'NS', 3)} ${this.formatDegrees(coordinates.longitude, 'EW', 3)}`;
+      case 'ddm':
+        return `${this.formatDegrees(coordinates.latitude, 'NS', 2)} ${this.formatDegrees(coordinates.longitude, 'EW', 2)}`;
+      case 'utm': {
+        const utm = this.toUTM(coordinates);
+        return `${utm.zone}${utm.band} ${Math.round(utm.easting)} ${Math.round(utm.northing)}`;
+      }
+      case 'mgrs':
+        return this.toMGRS(coordinates);
+      default:
+        return this.format(coordinates);
+    }
+  }
+
+  /**
+   * Format one axis as DMS (49°14'30.0"N) or DDM (49°14.500'N)
+   */
+  private static formatDegrees(value: number, hemispheres: 'NS' | 'EW', parts: 2 | 3): string {
+    const hemisphere = value < 0 ? hemispheres[1] : hemispheres[0];
+    const absolute = Math.abs(value);
+
+    if (parts === 3) {
+      // Round once on the total so 59.95" carries into the minutes
+      const tenthsOfSeconds = Math.round(absolute * 36000);
+      const degrees = Math.floor(tenthsOfSeconds / 36000);
+      const minutes = Math.floor((tenthsOfSeconds % 36000) / 600);
+      const seconds = (tenthsOfSeconds % 600) / 10;
+      return `${degrees}°${String(minutes).padStart(2, '0')}'${seconds.toFixed(1).padStart(4, '0')}"${hemisphere}`;
+    }
+
+    const thousandthsOfMinutes = Math.round(absolute * 60000);
+    const degrees = Math.floor(thousandthsOfMinutes / 60000);
+    const minutes = (thousandthsOfMinutes % 60000) / 1000;
+    return `${degrees}°${minutes.toFixed(3).padStart(6, '0')}'${hemisphere}`;
+  }
+
+  /**
+   * Convert coordinates to UTM (WGS84), including the Norway/Svalbard zone exceptions
+   * @param coordinates Coordinates to convert
+   * @returns UTM zone, band, easting and northing
+   * @throws Error when the latitude is outside the UTM range (80°S-84°N)
+   */
+  static toUTM(coordinates: Coordinates): UtmCoordinates {
+    const { latitude, longitude } = coordinates;
+    if (!this.isValid(coordinates) || latitude < -80 || latitude > 84) {
+      throw new Error('Coordinates outside the UTM range');
+    }
+
+    let zone = Math.floor((longitude + 180) / 6) + 1;
+    if (zone > 60) zone = 60;
+    // Norway (32V is widened) and Svalbard (31X, 33X, 35X, 37X) exceptions
+    if (latitude >= 56 && latitude < 64 && longitude >= 3 && longitude < 12) zone = 32;
+    if (latitude >= 72) {
+      if (longitude >= 0 && longitude < 9) zone = 31;
+      else if (longitude >= 9 && longitude < 21) zone = 33;
+      else if (longitude >= 21 && longitude < 33) zone = 35;
+      else if (longitude >= 33 && longitude < 42) zone = 37;
+    }
+
+    const { easting, northing } = this.projectToUTM(latitude, longitude, zone);
+    const band = this.UTM_BANDS[Math.min(Math.floor((latitude + 80) / 8), this.UTM_BANDS.length - 1)];
+
+    return { zone, band, easting, northing };
+  }
+
+  /**
+   * Transverse Mercator projection of a point into the given UTM zone
+   */
+  private static projectToUTM(latitude: number, longitude: number, zone: number): { easting: number; northing: number } {
+    const a = this.WGS84_A;
+    const e2 = this.WGS84_F * (2 - this.WGS84_F);
+    const ep2 = e2 / (1 - e2);
+    const k0 = this.UTM_K0;
+
+    const phi = this.toRadians(latitude);
+    const lambda0 = this.toRadians((zone - 1) * 6 - 180 + 3);
+    const sinPhi = Math.sin(phi);
+    const cosPhi = Math.cos(phi);
+
+    const n = a / Math.sqrt(1 - e2 * sinPhi * sinPhi);
+    const t = Math.tan(phi) * Math.tan(phi);
+    const c = ep2 * cosPhi * cosPhi;
+    const A = cosPhi * (this.toRadians(longitude) - lambda0);
+    const m = a * (
+      (1 - e2 / 4 - 3 * e2 * e2 / 64 - 5 * e2 * e2 * e2 / 256) * phi
+      - (3 * e2 / 8 + 3 * e2 * e2 / 32 + 45 * e2 * e2 * e2 / 1024) * Math.sin(2 * phi)
+      + (15 * e2 * e2 / 256 + 45 * e2 * e2 * e2 / 1024) * Math.sin(4 * phi)
+      - (35 * e2 * e2 * e2 / 3072) * Math.sin(6 * phi)
+    );
+
+    const easting = k0 * n * (
+      A
+      + (1 - t + c) * Math.pow(A, 3) / 6
+      + (5 - 18 * t + t * t + 72 * c - 58 * ep2) * Math.pow(A, 5) / 120
+    ) + 500000;
+
+    let northing = k0 * (
+      m + n * Math.tan(phi) * (
+        A * A / 2
+        + (5 - t + 9 * c + 4 * c * c) * Math.pow(A, 4) / 24
+        + (61 - 58 * t + t * t + 600 * c - 330 * ep2) * Math.pow(A, 6) / 720
+      )
+    );
+    if (latitude < 0) {
+      northing += 10000000;
+    }
+
+    return { easting, northing };
+  }
+
+  /**
+   * Convert UTM (WGS84) coordinates to latitude/longitude
+   * @param utm UTM zone, band, easting and northing
+   * @returns Coordinates or null if the input is out of range
+   */
+  static fromUTM(utm: UtmCoordinates): Coordinates | null {
+    const bandIndex = this.UTM_BANDS.indexOf(utm.band.toUpperCase());
+    if (utm.zone < 1 || utm.zone > 60 || bandIndex === -1 || utm.easting < 100000 || utm.easting > 900000) {
+      return null;
+    }
+
+    const a = this.WGS84_A;
+    const e2 = this.WGS84_F * (2 - this.WGS84_F);
+    const ep2 = e2 / (1 - e2);
+    const k0 = this.UTM_K0;
+
+    const x = utm.easting - 500000;
+    // Bands below N are on the southern hemisphere
+    const y = bandIndex < this.UTM_BANDS.indexOf('N') ? utm.northing - 10000000 : utm.northing;
+
+    const m = y / k0;
+    const mu = m / (a * (1 - e2 / 4 - 3 * e2 * e2 / 64 - 5 * e2 * e2 * e2 / 256));
+    const e1 = (1 - Math.sqrt(1 - e2)) / (1 + Math.sqrt(1 - e2));
+    const phi1 = mu
+      + (3 * e1 / 2 - 27 * Math.pow(e1, 3) / 32) * Math.sin(2 * mu)
+      + (21 * e1 * e1 / 16 - 55 * Math.pow(e1, 4) / 32) * Math.sin(4 * mu)
+      + (151 * Math.pow(e1, 3) / 96) * Math.sin(6 * mu)
+      + (1097 * Math.pow(e1, 4) / 512) * Math.sin(8 * mu);
+
+    const sinPhi1 = Math.sin(phi1);
+    const cosPhi1 = Math.cos(phi1);
+    const n1 = a / Math.sqrt(1 - e2 * sinPhi1 * sinPhi1);
+    const t1 = Math.tan(phi1) * Math.tan(phi1);
+    const c1 = ep2 * cosPhi1 * cosPhi1;
+    const r1 = a * (1 - e2) / Math.pow(1 - e2 * sinPhi1 * sinPhi1, 1.5);
+    const d = x / (n1 * k0);
+
+    const latitude = phi1 - (n1 * Math.tan(phi1) / r1) * (
+      d * d / 2
+      - (5 + 3 * t1 + 10 * c1 - 4 * c1 * c1 - 9 * ep2) * Math.pow(d, 4) / 24
+      + (61 + 90 * t1 + 298 * c1 + 45 * t1 * t1 - 252 * ep2 - 3 * c1 * c1) * Math.pow(d, 6) / 720
+    );
+    const longitude = this.toRadians((utm.zone - 1) * 6 - 180 + 3) + (
+      d
+      - (1 + 2 * t1 + c1) * Math.pow(d, 3) / 6
+      + (5 - 2 * c1 + 28 * t1 - 3 * c1 * c1 + 8 * ep2 + 24 * t1 * t1) * Math.pow(d, 5) / 120
+    ) / cosPhi1;
+
+    return this.create(this.toDegrees(latitude), this.normalizeLongitude(this.toDegrees(longitude)));
+  }
+
+  /**
+   * Convert coordinates to an MGRS reference with 1 m precision ("34U DA 49796 54956")
+   * @param coordinates Coordinates to convert
+   * @returns MGRS string
+   * @throws Error when the latitude is outside the UTM range (80°S-84°N)
+   */
+  static toMGRS(coordinates: Coordinates): string {
+    const utm = this.toUTM(coordinates);
+    const set = ((utm.zone - 1) % 6) + 1;
+    const easting = Math.floor(utm.easting);
+    const northing = Math.floor(utm.northing);
+
+    const column = this.MGRS_COLUMN_LETTERS[(set - 1) % 3][Math.floor(easting / 100000) - 1];
+    const row = this.MGRS_ROW_LETTERS[(Math.floor(northing / 100000) + (set % 2 === 0 ? 5 : 0)) % 20];
+    const eastingDigits = String(easting % 100000).padStart(5, '0');
+    const northingDigits = String(northing % 100000).padStart(5, '0');
+
+    return `${utm.zone}${utm.band} ${column}${row} ${eastingDigits} ${northingDigits}`;
+  }
+
   /**
    * Validate if coordinates are within valid Earth bounds
    * @param coordinates Coordinates to validate
@@ -292,6 +748,88 @@ export class CoordinateUtils {
     );
   }
 
+  /**
+   * Check if coordinates lie inside a polygon (ray casting, the closing edge is implied)
+   * @param coordinates Coordinates to check
+   * @param polygon Polygon vertices
+   * @returns True if coordinates are inside the polygon
+   */
+  static isPointInPolygon(coordinates: Coordinates, polygon: Coordinates[]): boolean {
+    if (!this.isValid(coordinates) || polygon.length < 3) {
+      return false;
+    }
+
+    const { latitude: y, longitude: x } = coordinates;
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+      const { latitude: yi, longitude: xi } = polygon[i];
+      const { latitude: yj, longitude: xj } = polygon[j];
+      if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+        inside = !inside;
+      }
+    }
+
+    return inside;
+  }
+
+  /**
+   * Calculate the shortest distance from coordinates to the border of a polygon
+   * Uses a local flat projection, accurate for distances up to tens of kilometers
+   * @param coordinates Coordinates to measure from
+   * @param polygon Polygon vertices
+   * @returns Distance in meters
+   */
+  static distanceToPolygon(coordinates: Coordinates, polygon: Coordinates[]): number {
+    const metersPerDegreeLat = (Math.PI * this.EARTH_RADIUS_KM * 1000) / 180;
+    const metersPerDegreeLng = metersPerDegreeLat * Math.cos(this.toRadians(coordinates.latitude));
+    const project = (point: Coordinates) => ({
+      x: (point.longitude - coordinates.longitude) * metersPerDegreeLng,
+      y: (point.latitude - coordinates.latitude) * metersPerDegreeLat,
+    });
+
+    let minDistance = Infinity;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+      const a = project(polygon[j]);
+      const b = project(polygon[i]);
+      const dx = b.x - a.x;
+      const dy = b.y - a.y;
+      const lengthSquared = dx * dx + dy * dy;
+      // Closest point of the edge to the origin (the measured position)
+      const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, -(a.x * dx + a.y * dy) / lengthSquared));
+      minDistance = Math.min(minDistance, Math.hypot(a.x + t * dx, a.y + t * dy));
+    }
+
+    return minDistance;
+  }
+
+  /**
+   * Approximate a circle with a polygon
+   * @param center Center coordinates
+   * @param radiusMeters Radius in meters
+   * @param segments Number of polygon vertices (default: 32)
+   * @returns Polygon vertices
+   */
+  static createCirclePolygon(center: Coordinates, radiusMeters: number, segments: number = 32): Coordinates[] {
+    const angularDistance = radiusMeters / (this.EARTH_RADIUS_KM * 1000);
+    const lat1 = this.toRadians(center.latitude);
+    const lng1 = this.toRadians(center.longitude);
+
+    const polygon: Coordinates[] = [];
+    for (let i = 0; i < segments; i++) {
+      const bearing = (2 * Math.PI * i) / segments;
+      const lat2 = Math.asin(
+        Math.sin(lat1) * Math.cos(angularDistance) + Math.cos(lat1) * Math.sin(angularDistance) * Math.cos(bearing)
+      );
+      const lng2 = lng1 + Math.atan2(
+        Math.sin(bearing) * Math.sin(angularDistance) * Math.cos(lat1),
+        Math.cos(angularDistance) - Math.sin(lat1) * Math.sin(lat2)
+      );
+      polygon.push({ latitude: this.toDegrees(lat2), longitude: this.normalizeLongitude(this.toDegrees(lng2)) });
+    }
+
+    return polygon;
+  }
+
   /**
    * Generate a bounding box around coordinates with a specified radius
    * @param center Center coordinates
@@ -0,0 +1,30 @@
+import { EquipmentStorage } from '@/types/Drone';
+import { EquipmentCheck, EquipmentCheckItem } from '@/types/EquipmentCheck';
+
+/**
+ * Turn the checklist state (item ID → ticked) into per-item results for every item in the kit
+ */
+export function buildEquipmentCheckItems(
+  storages: EquipmentStorage[],
+  checkedItems: Record<string, boolean>
+): EquipmentCheckItem[] {
+  return storages.flatMap(storage => storage.items.map(item => ({
+    itemId: item.id,
+    storageId: storage.id,
+    storageName: storage.name,
+    name: item.name,
+    quantity: item.quantity,
+    present: !!checkedItems[item.id],
+  })));
+}
+
+/**
+ * Items reported missing in the check that are still part of the drone's kit.
+ * Items removed from the kit since the check are no longer relevant.
+ */
+export function getMissingItems(check: EquipmentCheck | null, storages: EquipmentStorage[]): EquipmentCheckItem[] {
+  if (!check) return [];
+
+  const currentItemIds = new Set(storages.flatMap(storage => storage.items.map(item => item.id)));
+  return check.items.filter(item => !item.present && currentItemIds.has(item.itemId));
+}
@@ -52,6 +52,8 @@ if (isWeb()) {
     query: webFirestore.query,
     getDocs: webFirestore.getDocs,
     getCountFromServer: webFirestore.getCountFromServer,
+    deleteField: webFirestore.deleteField,
+    runTransaction: webFirestore.runTransaction,
   };
 
   authFunctions = {
@@ -94,6 +96,8 @@ if (isWeb()) {
     query: rnFirestore.query,
     getDocs: rnFirestore.getDocs,
     getCountFromServer: rnFirestore.getCountFromServer,
+    deleteField: rnFirestore.deleteField,
+    runTransaction: rnFirestore.runTransaction,
   };
 
   authFunctions = {
@@ -133,6 +137,13 @@ export const getDocument = (collectionName: string, docId: string): DocumentRefe
   return firestoreFunctions.doc(firestore, collectionName, docId);
 };
 
+/**
+ * Get a reference for a new document with an auto-generated ID, without writing it
+ */
+export const getNewDocument = (collectionName: string): DocumentReference => {
+  return firestoreFunctions.doc(firestoreFunctions.collection(firestore, collectionName));
+};
+
 /**
  * Get document data with retry logic
  */
@@ -186,6 +197,38 @@ export const deleteDocument = async (docRef: any) => {
   );
 };
 
+/**
+ * Platform-independent view of a Firestore transaction
+ */
+export interface TransactionContext {
+  get: (docRef: any) => Promise<{ exists: boolean; data: any }>;
+  set: (docRef: any, data: any) => void;
+  update: (docRef: any, data: any) => void;
+}
+
+/**
+ * Run reads and writes atomically. Firestore retries the update function when
+ * a document read inside it changes before commit, so it must not have side effects.
+ */
+export const runTransaction = async <T>(
+  updateFunction: (transaction: TransactionContext) => Promise<T>
+): Promise<T> => {
+  return firestoreFunctions.runTransaction(firestore, (transaction: any) =>
+    updateFunction({
+      get: async (docRef: any) => {
+        const docSnap = await transaction.get(docRef);
+        return { exists: docSnap.exists(), data: docSnap.data() };
+      },
+      set: (docRef: any, data: any) => {
+        transaction.set(docRef, data);
+      },
+      update: (docRef: any, data: any) => {
+        transaction.update(docRef, data);
+      },
+    })
+  );
+};
+
 // ============================================================================
 // STORAGE UTILITIES
 // ============================================================================
@@ -388,6 +431,17 @@ export const getCountFromServer = async (query: any) => {
   );
 };
 
+// ============================================================================
+// FIELD VALUE UTILITIES
+// ============================================================================
+
+/**
+ * Create a field value that removes the field from the document on update
+ */
+export const deleteField = () => {
+  return firestoreFunctions.deleteField();
+};
+
 // ============================================================================
 // TIMESTAMP UTILITIES
 // ============================================================================
@@ -0,0 +1,97 @@
+import { User } from '@/types/User';
+import {
+  FlightCurrencyCheckInput,
+  FlightCurrencyCheckResult,
+  FlightCurrencyIssue,
+  FlightCurrencyIssueCode,
+  FlightCurrencyRules,
+} from '@/types/FlightCurrency';
+
+/**
+ * Format a date as YYYY-MM-DD (the format used for flight dates)
+ */
+function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Get the first day (YYYY-MM-DD) of the recency window ending on `flightDate`
+ */
+export function getRecencyPeriodStart(flightDate: string, rules: FlightCurrencyRules): string {
+  const start = new Date(`${flightDate}T00:00:00Z`);
+  start.setUTCDate(start.getUTCDate() - rules.recencyPeriodDays);
+  return toDateString(start);
+}
+
+/**
+ * Check a validity date against the flight date.
+ * Missing dates are a warning (profile incomplete), dates before the flight are blocking errors.
+ */
+function checkValidity(
+  validUntil: Date | undefined,
+  flightDate: string,
+  missingCode: FlightCurrencyIssueCode,
+  expiredCode: FlightCurrencyIssueCode
+): FlightCurrencyIssue | null {
+  if (!validUntil || isNaN(validUntil.getTime())) {
+    return { code: missingCode, severity: 'warning' };
+  }
+
+  const validUntilDate = toDateString(validUntil);
+  if (validUntilDate < flightDate) {
+    return { code: expiredCode, severity: 'error', params: { date: validUntilDate } };
+  }
+
+  return null;
+}
+
+/**
+ * Evaluate whether a pilot may log a flight: qualification for the flight category,
+ * pilot licence, operator registration and insurance validity on the flight date,
+ * and the recency rule (number of flights in the preceding period).
+ */
+export function evaluatePilotCurrency(
+  pilot: User | null,
+  input: FlightCurrencyCheckInput,
+  recentFlightCount: number,
+  rules: FlightCurrencyRules
+): FlightCurrencyCheckResult {
+  if (!pilot) {
+    return { errors: [{ code: 'pilotNotFound', severity: 'error' }], warnings: [] };
+  }
+
+  const issues: FlightCurrencyIssue[] = [];
+  const { flightCategory, flightDate } = input;
+
+  if (flightCategory && !(pilot.qualifications || []).includes(flightCategory)) {
+    issues.push({ code: 'missingQualification', severity: 'error', params: { category: flightCategory } });
+  }
+
+  const validityIssues = [
+    checkValidity(pilot.pilotValidityDate, flightDate, 'pilotLicenseMissing', 'pilotLicenseExpired'),
+    checkValidity(pilot.operatorValidityDate, flightDate, 'operatorRegistrationMissing', 'operatorRegistrationExpired'),
+    checkValidity(pilot.insurance, flightDate, 'insuranceMissing', 'insuranceExpired'),
+  ];
+  validityIssues.forEach(issue => {
+    if (issue) {
+      issues.push(issue);
+    }
+  });
+
+  if (rules.recencyMinFlights > 0 && recentFlightCount < rules.recencyMinFlights) {
+    issues.push({
+      code: 'recencyNotMet',
+      severity: 'warning',
+      params: {
+        count: recentFlightCount,
+        required: rules.recencyMinFlights,
+        days: rules.recencyPeriodDays,
+      },
+    });
+  }
+
+  return {
+    errors: issues.filter(issue => issue.severity === 'error'),
+    warnings: issues.filter(issue => issue.severity === 'warning'),
+  };
+}
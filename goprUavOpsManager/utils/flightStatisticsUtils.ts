@@ -0,0 +1,128 @@
+import {
+  AVAILABLE_ACTIVITY_TYPES,
+  AVAILABLE_OPERATION_TYPES,
+  Flight,
+  FlightStatistics,
+  FlightStatisticsDimension,
+  FlightStatisticsGroup,
+  FlightStatisticsTotals,
+} from '@/types/Flight';
+import { calculateFlightDurationMinutes } from '@/src/utils/flightUtils';
+
+/**
+ * Get the YYYY-MM month key of a date or YYYY-MM-DD string
+ */
+export function getMonthKey(date: Date | string): string {
+  if (typeof date === 'string') {
+    return date.slice(0, 7);
+  }
+  return date.toISOString().slice(0, 7);
+}
+
+/**
+ * List all month keys from `startMonth` to `endMonth` (inclusive, YYYY-MM)
+ */
+export function getMonthRange(startMonth: string, endMonth: string): string[] {
+  const months: string[] = [];
+  let [year, month] = startMonth.split('-').map(Number);
+  const [endYear, endMonthNumber] = endMonth.split('-').map(Number);
+
+  while (year < endYear || (year === endYear && month <= endMonthNumber)) {
+    months.push(`${year}-${String(month).padStart(2, '0')}`);
+    month++;
+    if (month > 12) {
+      month = 1;
+      year++;
+    }
+  }
+
+  return months;
+}
+
+function emptyTotals(): FlightStatisticsTotals {
+  return { flightCount: 0, totalMinutes: 0 };
+}
+
+function addToTotals(totals: FlightStatisticsTotals, minutes: number): void {
+  totals.flightCount++;
+  totals.totalMinutes += minutes;
+}
+
+function createGroup(key: string, label: string): FlightStatisticsGroup {
+  return { key, label, ...emptyTotals(), byMonth: {} };
+}
+
+/**
+ * Aggregate flights into monthly totals broken down by operation type, activity type, drone and pilot.
+ * Operation and activity types always list every available value (zero if unused) in their usual order;
+ * drones and pilots are listed by flight time, highest first.
+ * `range` fills in months without flights; without it the range spans the first to last flight.
+ */
+export function aggregateFlightStatistics(
+  flights: Flight[],
+  droneNames: Map<string, string> = new Map(),
+  range: { startDate?: Date; endDate?: Date } = {}
+): FlightStatistics {
+  const byMonth: Record<string, FlightStatisticsTotals> = {};
+  const totals = emptyTotals();
+  const groups: Record<FlightStatisticsDimension, Map<string, FlightStatisticsGroup>> = {
+    operationType: new Map(AVAILABLE_OPERATION_TYPES.map(type => [type, createGroup(type, type)])),
+    activityType: new Map(AVAILABLE_ACTIVITY_TYPES.map(type => [type, createGroup(type, type)])),
+    drone: new Map(),
+    pilot: new Map(),
+  };
+
+  const dimensionValues = (flight: Flight): Record<FlightStatisticsDimension, { key: string; label: string }> => ({
+    operationType: { key: flight.operationType, label: flight.operationType },
+    activityType: { key: flight.activityType, label: flight.activityType },
+    drone: { key: flight.droneId, label: droneNames.get(flight.droneId) || flight.droneName || flight.droneId },
+    pilot: { key: flight.userId, label: flight.userEmail || flight.userId },
+  });
+
+  flights.forEach(flight => {
+    const month = getMonthKey(flight.date);
+    const minutes = calculateFlightDurationMinutes(flight.startTime, flight.endTime);
+
+    addToTotals(totals, minutes);
+    byMonth[month] = byMonth[month] || emptyTotals();
+    addToTotals(byMonth[month], minutes);
+
+    const values = dimensionValues(flight);
+    (Object.keys(groups) as FlightStatisticsDimension[]).forEach(dimension => {
+      const { key, label } = values[dimension];
+      const dimensionGroups = groups[dimension];
+      let group = dimensionGroups.get(key);
+      if (!group) {
+        group = createGroup(key, label);
+        dimensionGroups.set(key, group);
+      }
+      addToTotals(group, minutes);
+      group.byMonth[month] = group.byMonth[month] || emptyTotals();
+      addToTotals(group.byMonth[month], minutes);
+    });
+  });
+
+  const flightMonths = Object.keys(byMonth).sort();
+  const firstMonth = range.startDate ? getMonthKey(range.startDate) : flightMonths[0];
+  const lastMonth = range.endDate ? getMonthKey(range.endDate) : flightMonths[flightMonths.length - 1];
+  const months = firstMonth && lastMonth ? getMonthRange(firstMonth, lastMonth) : [];
+
+  months.forEach(month => {
+    byMonth[month] = byMonth[month] || emptyTotals();
+  });
+
+  const byFlightTime = (a: FlightStatisticsGroup, b: FlightStatisticsGroup) =>
+    b.totalMinutes - a.totalMinutes || b.flightCount - a.flightCount || a.label.localeCompare(b.label);
+
+  return {
+    ...totals,
+    months,
+    byMonth,
+    groups: {
+      operationType: Array.from(groups.operationType.values()),
+      activityType: Array.from(groups.activityType.values()),
+      drone: Array.from(groups.drone.values()).sort(byFlightTime),
+      pilot: Array.from(groups.pilot.values()).sort(byFlightTime),
+    },
+  };
+}
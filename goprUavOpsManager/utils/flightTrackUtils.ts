@@ -0,0 +1,275 @@
+import { FlightTrackFormat, FlightTrackPoint, FlightTrackSummary, ParsedFlightTrack } from '@/types/Flight';
+import { CoordinateUtils } from '@/utils/coordinateUtils';
+
+const FEET_TO_METERS = 0.3048;
+
+// Maximum number of points drawn on the flight detail map
+export const MAX_MAP_TRACK_POINTS = 500;
+
+/**
+ * Detect the track format from the file name, falling back to the content
+ */
+export function detectTrackFormat(fileName: string, content: string): FlightTrackFormat | null {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'gpx') return 'gpx';
+  if (extension === 'kml') return 'kml';
+  if (extension === 'csv') return 'dji-csv';
+
+  const head = content.slice(0, 2000).toLowerCase();
+  if (head.includes('<gpx')) return 'gpx';
+  if (head.includes('<kml')) return 'kml';
+  if (head.includes('latitude') && head.includes(',')) return 'dji-csv';
+  return null;
+}
+
+function toNumber(value: string | undefined): number | undefined {
+  if (value === undefined || value.trim() === '') return undefined;
+  const parsed = Number(value.trim());
+  return isNaN(parsed) ? undefined : parsed;
+}
+
+function toIsoTime(value: string | undefined, isUtc: boolean = true): string | undefined {
+  if (!value || !value.trim()) return undefined;
+  let normalized = value.trim().replace(' ', 'T');
+  if (isUtc && /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/.test(normalized)) {
+    normalized += 'Z';
+  }
+  const date = new Date(normalized);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+function isValidPoint(point: FlightTrackPoint): boolean {
+  // DJI logs report 0,0 until the GPS has a fix
+  if (point.latitude === 0 && point.longitude === 0) return false;
+  return CoordinateUtils.isValid(point);
+}
+
+function getXmlTag(xml: string, tag: string): string | undefined {
+  const match = xml.match(new RegExp(`<${tag}>([^<]*)</${tag}>`));
+  return match ? match[1] : undefined;
+}
+
+function getXmlAttribute(attributes: string, name: string): string | undefined {
+  const match = attributes.match(new RegExp(`\\b${name}\\s*=\\s*["']([^"']+)["']`));
+  return match ? match[1] : undefined;
+}
+
+/**
+ * Parse GPX track points (falls back to route points when there is no track)
+ */
+export function parseGpx(content: string): FlightTrackPoint[] {
+  const parsePoints = (tag: string) => {
+    const points: FlightTrackPoint[] = [];
+    const pattern = new RegExp(`<${tag}\\b([^>]*?)(?:/>|>([\\s\\S]*?)</${tag}>)`, 'g');
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(content)) !== null) {
+      const latitude = toNumber(getXmlAttribute(match[1], 'lat'));
+      const longitude = toNumber(getXmlAttribute(match[1], 'lon'));
+      if (latitude === undefined || longitude === undefined) continue;
+
+      const body = match[2] || '';
+      points.push({
+        latitude,
+        longitude,
+        altitude: toNumber(getXmlTag(body, 'ele')),
+        time: toIsoTime(getXmlTag(body, 'time')),
+      });
+    }
+    return points;
+  };
+
+  const trackPoints = parsePoints('trkpt');
+  return trackPoints.length > 0 ? trackPoints : parsePoints('rtept');
+}
+
+/**
+ * Parse KML positions from a gx:Track (with timestamps) or LineString coordinates
+ */
+export function parseKml(content: string): FlightTrackPoint[] {
+  const coords = [...content.matchAll(/<gx:coord>([^<]*)<\/gx:coord>/g)].map(match => match[1].trim());
+  if (coords.length > 0) {
+    const times = [...content.matchAll(/<when>([^<]*)<\/when>/g)].map(match => match[1]);
+    return coords.map((coord, index) => {
+      const [longitude, latitude, altitude] = coord.split(/\s+/).map(Number);
+      return { latitude, longitude, altitude: isNaN(altitude) ? undefined : altitude, time: toIsoTime(times[index]) };
+    });
+  }
+
+  const points: FlightTrackPoint[] = [];
+  for (const match of content.matchAll(/<coordinates>([\s\S]*?)<\/coordinates>/g)) {
+    match[1].trim().split(/\s+/).filter(Boolean).forEach(tuple => {
+      const [longitude, latitude, altitude] = tuple.split(',').map(Number);
+      points.push({ latitude, longitude, altitude: isNaN(altitude) ? undefined : altitude });
+    });
+  }
+  return points;
+}
+
+/**
+ * Split one CSV line, honouring quoted fields
+ */
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (inQuotes && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if (char === ',' && !inQuotes) {
+      fields.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current);
+  return fields;
+}
+
+/**
+ * Parse a DJI flight record exported to CSV (DJI/Airdata style headers such as
+ * "OSD.latitude", "latitude", "height_above_takeoff(feet)", "datetime(utc)")
+ */
+export function parseDjiCsv(content: string): FlightTrackPoint[] {
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/).filter(line => line.trim() !== '');
+  // DJI exports may start with a "sep=," hint line
+  const headerIndex = lines.findIndex(line => line.toLowerCase().includes('latitude'));
+  if (headerIndex === -1) return [];
+
+  const headers = splitCsvLine(lines[headerIndex]).map(header => header.trim().toLowerCase());
+  const findColumn = (...candidates: RegExp[]) => {
+    for (const candidate of candidates) {
+      const index = headers.findIndex(header => candidate.test(header));
+      if (index !== -1) return index;
+    }
+    return -1;
+  };
+
+  const latitudeColumn = findColumn(/^osd\.latitude/, /^latitude/, /latitude/);
+  const longitudeColumn = findColumn(/^osd\.longitude/, /^longitude/, /longitude/);
+  // Prefer height above takeoff over barometric/GPS altitude
+  const altitudeColumn = findColumn(/^osd\.height\b/, /height_above_takeoff/, /^osd\.altitude/, /^altitude/);
+  const timeColumn = findColumn(/^datetime/, /datetime/);
+  if (latitudeColumn === -1 || longitudeColumn === -1) return [];
+
+  const altitudeHeader = altitudeColumn !== -1 ? headers[altitudeColumn] : '';
+  const altitudeFactor = /feet|\[ft\]|\(ft\)/.test(altitudeHeader) ? FEET_TO_METERS : 1;
+  const timeIsUtc = timeColumn !== -1 && headers[timeColumn].includes('utc');
+
+  const points: FlightTrackPoint[] = [];
+  for (const line of lines.slice(headerIndex + 1)) {
+    const fields = splitCsvLine(line);
+    const latitude = toNumber(fields[latitudeColumn]);
+    const longitude = toNumber(fields[longitudeColumn]);
+    if (latitude === undefined || longitude === undefined) continue;
+
+    const altitude = altitudeColumn !== -1 ? toNumber(fields[altitudeColumn]) : undefined;
+    points.push({
+      latitude,
+      longitude,
+      altitude: altitude !== undefined ? Math.round(altitude * altitudeFactor * 10) / 10 : undefined,
+      time: timeColumn !== -1 ? toIsoTime(fields[timeColumn], timeIsUtc) : undefined,
+    });
+  }
+  return points;
+}
+
+/**
+ * Derive start/end time, takeoff point, maximum altitude above takeoff and distance flown
+ */
+export function summarizeTrack(points: FlightTrackPoint[]): FlightTrackSummary {
+  if (points.length === 0) {
+    throw new Error('Track file contains no positions');
+  }
+
+  const timed = points.filter(point => point.time);
+  const takeoff = points[0];
+  const takeoffAltitude = points.find(point => point.altitude !== undefined)?.altitude;
+
+  let distance = 0;
+  for (let i = 1; i < points.length; i++) {
+    distance += CoordinateUtils.calculateDistance(points[i - 1], points[i]).meters;
+  }
+
+  // A loop rather than Math.max(...), which overflows the call stack on long logs
+  let maxAltitude: number | undefined;
+  if (takeoffAltitude !== undefined) {
+    let highest = -Infinity;
+    for (const point of points) {
+      if (point.altitude !== undefined && point.altitude > highest) {
+        highest = point.altitude;
+      }
+    }
+    maxAltitude = Math.round((highest - takeoffAltitude) * 10) / 10;
+  }
+
+  return {
+    startTime: timed.length > 0 ? timed[0].time : undefined,
+    endTime: timed.length > 0 ? timed[timed.length - 1].time : undefined,
+    takeoffCoordinates: CoordinateUtils.format(takeoff),
+    maxAltitude,
+    distance,
+    pointCount: points.length,
+  };
+}
+
+/**
+ * Parse a track file and summarize it
+ * @throws Error when the format is not supported or the file has no valid positions
+ */
+export function parseFlightTrack(fileName: string, content: string): ParsedFlightTrack {
+  const format = detectTrackFormat(fileName, content);
+  if (!format) {
+    throw new Error('Unsupported track file format');
+  }
+
+  const parsers: Record<FlightTrackFormat, (content: string) => FlightTrackPoint[]> = {
+    'gpx': parseGpx,
+    'kml': parseKml,
+    'dji-csv': parseDjiCsv,
+  };
+  const points = parsers[format](content).filter(isValidPoint);
+
+  return { format, points, summary: summarizeTrack(points) };
+}
+
+/**
+ * Thin out a track for map display, keeping the first and last point
+ */
+export function simplifyTrackForMap(points: FlightTrackPoint[], maxPoints: number = MAX_MAP_TRACK_POINTS): FlightTrackPoint[] {
+  if (points.length <= maxPoints) return points;
+
+  const step = (points.length - 1) / (maxPoints - 1);
+  const simplified: FlightTrackPoint[] = [];
+  for (let i = 0; i < maxPoints; i++) {
+    simplified.push(points[Math.round(i * step)]);
+  }
+  return simplified;
+}
+
+/**
+ * Format an ISO datetime as local date (YYYY-MM-DD) and time (HH:MM) for the flight form
+ */
+export function toLocalDateAndTime(isoTime: string): { date: string; time: string } {
+  const date = new Date(isoTime);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return {
+    date: `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`,
+    time: `${pad(date.getHours())}:${pad(date.getMinutes())}`,
+  };
+}
+
+/**
+ * Format a distance in meters for display ("850 m", "1.25 km")
+ */
+export function formatTrackDistance(meters: number): string {
+  return meters < 1000 ? `${Math.round(meters)} m` : `${(meters / 1000).toFixed(2)} km`;
+}
@@ -0,0 +1,186 @@
+import { Geozone, GeozoneAltitudeLimit, GeozoneMatch, GeozoneRestriction, GEOZONE_RESTRICTIONS } from '@/types/Geozone';
+import { Coordinates, CoordinateUtils } from '@/utils/coordinateUtils';
+
+const FEET_TO_METERS = 0.3048;
+
+export const GEOZONE_RESTRICTION_COLORS: Record<GeozoneRestriction, string> = {
+  prohibited: '#d32f2f',
+  authorization: '#E65100',
+  conditional: '#F9A825',
+  none: '#0066CC',
+};
+
+/**
+ * Map ED-269 / ULC restriction values (and common spellings) to a restriction level.
+ * Unknown values are treated as conditional so they are still shown.
+ */
+export function normalizeRestriction(value: unknown): GeozoneRestriction {
+  const normalized = String(value ?? '').trim().toUpperCase().replace(/[\s-]+/g, '_');
+  switch (normalized) {
+    case 'PROHIBITED':
+    case 'NO_FLY':
+      return 'prohibited';
+    case 'REQ_AUTHORISATION':
+    case 'REQ_AUTHORIZATION':
+    case 'AUTHORISATION':
+    case 'AUTHORIZATION':
+    case 'RESTRICTED':
+      return 'authorization';
+    case 'NO_RESTRICTION':
+    case 'NONE':
+      return 'none';
+    default:
+      return 'conditional';
+  }
+}
+
+function toAltitudeLimit(value: unknown, unit: unknown, reference: unknown): GeozoneAltitudeLimit | undefined {
+  const numeric = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  if (isNaN(numeric)) return undefined;
+
+  const meters = String(unit ?? '').toUpperCase() === 'FT' ? numeric * FEET_TO_METERS : numeric;
+  return {
+    value: Math.round(meters),
+    reference: String(reference ?? '').toUpperCase() === 'AGL' ? 'AGL' : 'AMSL',
+  };
+}
+
+// GeoJSON positions are [longitude, latitude]
+function toRing(positions: unknown): Coordinates[] {
+  if (!Array.isArray(positions)) return [];
+  return positions
+    .filter((position): position is number[] => Array.isArray(position) && position.length >= 2)
+    .map(([longitude, latitude]) => ({ latitude, longitude }))
+    .filter(point => CoordinateUtils.isValid(point));
+}
+
+/**
+ * Read the outer rings of a GeoJSON-like geometry (holes are ignored).
+ * Circles (ED-269 "Circle" or a Point with a radius) are approximated by polygons.
+ */
+function toPolygons(geometry: any, radius?: unknown): Coordinates[][] {
+  if (!geometry || typeof geometry !== 'object') return [];
+
+  switch (geometry.type) {
+    case 'Polygon':
+      return [toRing(geometry.coordinates?.[0])];
+    case 'MultiPolygon':
+      return (geometry.coordinates || []).map((polygon: unknown[]) => toRing(polygon?.[0]));
+    case 'Circle':
+    case 'Point': {
+      const center = toRing([geometry.center || geometry.coordinates])[0];
+      const radiusMeters = Number(geometry.radius ?? radius);
+      return center && radiusMeters > 0 ? [CoordinateUtils.createCirclePolygon(center, radiusMeters)] : [];
+    }
+    default:
+      return [];
+  }
+}
+
+function createZone(
+  id: string,
+  properties: Record<string, any>,
+  polygons: Coordinates[][],
+  source: Geozone['source']
+): Geozone | null {
+  const validPolygons = polygons.filter(polygon => polygon.length >= 3);
+  if (validPolygons.length === 0) return null;
+
+  const unit = properties.uomDimensions ?? properties.unit;
+  return {
+    id,
+    name: String(properties.name ?? properties.Name ?? properties.title ?? id),
+    type: String(properties.type ?? properties.zoneType ?? 'OTHER'),
+    restriction: normalizeRestriction(properties.restriction),
+    polygons: validPolygons,
+    lowerLimit: toAltitudeLimit(properties.lowerLimit, unit, properties.lowerVerticalReference ?? properties.lowerReference),
+    upperLimit: toAltitudeLimit(properties.upperLimit, unit, properties.upperVerticalReference ?? properties.upperReference),
+    message: properties.message ? String(properties.message) : undefined,
+    source,
+  };
+}
+
+/**
+ * Parse a geozone dataset file: a GeoJSON FeatureCollection or an ED-269 export (as published by ULC/DroneMap)
+ * @throws Error when the content is not valid JSON or holds no usable zones
+ */
+export function parseGeozoneDataset(content: string, source: Geozone['source'] = 'imported'): Geozone[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new Error('Geozone file is not valid JSON');
+  }
+
+  return parseGeozoneData(data, source);
+}
+
+/**
+ * Read zones from an already parsed GeoJSON or ED-269 object
+ * @throws Error when the data holds no usable zones
+ */
+export function parseGeozoneData(data: any, source: Geozone['source']): Geozone[] {
+  const features: any[] = Array.isArray(data?.features) ? data.features : [];
+  const zones: Geozone[] = [];
+
+  features.forEach((feature, index) => {
+    if (Array.isArray(feature?.geometry)) {
+      // ED-269: zone properties on the feature, one or more vertical layers in geometry[]
+      const layers = feature.geometry;
+      const polygons = layers.flatMap((layer: any) => toPolygons(layer.horizontalProjection));
+      const zone = createZone(String(feature.identifier ?? `zone-${index + 1}`), {
+        ...feature,
+        ...layers[0],
+      }, polygons, source);
+      if (zone) zones.push(zone);
+    } else if (feature?.type === 'Feature') {
+      const properties = feature.properties || {};
+      const zone = createZone(
+        String(feature.id ?? properties.identifier ?? properties.id ?? `zone-${index + 1}`),
+        properties,
+        toPolygons(feature.geometry, properties.radius),
+        source
+      );
+      if (zone) zones.push(zone);
+    }
+  });
+
+  if (zones.length === 0) {
+    throw new Error('Geozone dataset contains no zones');
+  }
+
+  return zones;
+}
+
+/**
+ * Find zones that contain a position or lie within the given radius of it,
+ * most restrictive and closest first
+ */
+export function findMatchingGeozones(zones: Geozone[], coordinates: Coordinates, radiusMeters: number = 0): GeozoneMatch[] {
+  const matches: GeozoneMatch[] = [];
+
+  for (const zone of zones) {
+    const inside = zone.polygons.some(polygon => CoordinateUtils.isPointInPolygon(coordinates, polygon));
+    const distance = inside
+      ? 0
+      : Math.min(...zone.polygons.map(polygon => CoordinateUtils.distanceToPolygon(coordinates, polygon)));
+
+    if (inside || distance <= radiusMeters) {
+      matches.push({ zone, inside, distance: Math.round(distance) });
+    }
+  }
+
+  return matches.sort((a, b) =>
+    GEOZONE_RESTRICTIONS.indexOf(a.zone.restriction) - GEOZONE_RESTRICTIONS.indexOf(b.zone.restriction)
+    || a.distance - b.distance
+  );
+}
+
+/**
+ * Format the vertical extent of a zone ("0 m AGL - 120 m AGL"), or null when unknown
+ */
+export function formatGeozoneLimits(zone: Geozone): string | null {
+  const format = (limit: GeozoneAltitudeLimit) => `${limit.value} m ${limit.reference}`;
+  if (!zone.lowerLimit && !zone.upperLimit) return null;
+  return `${zone.lowerLimit ? format(zone.lowerLimit) : 'GND'} - ${zone.upperLimit ? format(zone.upperLimit) : 'UNL'}`;
+}
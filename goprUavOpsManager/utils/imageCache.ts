@@ -1,13 +1,15 @@
 import { Platform } from 'react-native';
 import * as FileSystem from 'expo-file-system';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ImageCacheEntry, ImageCacheNamespace, ImageCacheStats } from '@/types/ImageCache';
+import { selectEvictions, summarizeImageCache } from './imageCacheUtils';
 
 /**
  * Configuration for image caching
  */
 export interface ImageCacheConfig {
   maxCacheSize?: number; // Maximum cache size in MB
-  maxAge?: number; // Maximum age of cached images in milliseconds
+  maxAge?: number; // Unpinned images older than this are downloaded again, and evicted when not shown for as long
   cacheDirectory?: string; // Custom cache directory name
 }
 
@@ -29,16 +31,27 @@ interface CachedImageMetadata {
   cachedAt: number;
   size: number;
   originalUrl: string;
+  namespace?: ImageCacheNamespace;
+  lastAccessedAt?: number;
 }
 
 /**
  * Cross-platform image caching utility
  * Uses expo-file-system for mobile and IndexedDB/localStorage for web
+ *
+ * Images are grouped in namespaces by where they are shown. Images of procedures and equipment
+ * cached for offline use are pinned and never evicted; the rest is evicted least recently shown first.
  */
 export class ImageCacheService {
+  private static readonly PINS_KEY = 'image_cache_pins'; // outside the ImageCache_ prefix scanned for entries
+  private static readonly TOUCH_INTERVAL_MS = 60 * 1000;
+  private static readonly CLEANUP_DELAY_MS = 5 * 1000;
   private static config: Required<ImageCacheConfig> = DEFAULT_CONFIG;
   private static cacheDirectory: string = '';
   private static isInitialized: boolean = false;
+  private static pins: Partial<Record<ImageCacheNamespace, string[]>> | null = null;
+  private static lastTouched: Map<string, number> = new Map();
+  private static cleanupTimer: ReturnType<typeof setTimeout> | null = null;
 
   /**
    * Initialize the image cache service
@@ -60,8 +73,9 @@ export class ImageCacheService {
 
   /**
    * Get a cached image or download and cache it
+   * @param namespace - Where the image is shown, for usage statistics and purging
    */
-  static async getCachedImage(imageUrl: string): Promise<string> {
+  static async getCachedImage(imageUrl: string, namespace: ImageCacheNamespace = 'other'): Promise<string> {
     if (!this.isInitialized) {
       await this.initialize();
     }
@@ -82,7 +96,8 @@ export class ImageCacheService {
       // Check if image is already cached
       const cachedImage = await this.getCachedImageMetadata(imageUrl);
       
-      if (cachedImage && await this.isCacheValid(cachedImage)) {
+      if (cachedImage && await this.isCacheValid(imageUrl, cachedImage)) {
+        this.touchEntry(this.getCacheKey(imageUrl), namespace);
         if (Platform.OS === 'web') {
           return cachedImage.uri; // For web, this is a blob URL
         } else {
@@ -91,7 +106,9 @@ export class ImageCacheService {
       }
 
       // Image not cached or cache invalid, download and cache it
-      return await this.downloadAndCacheImage(imageUrl);
+      const uri = await this.downloadAndCacheImage(imageUrl, namespace);
+      this.scheduleCleanup();
+      return uri;
     } catch (error) {
       console.error('Error getting cached image:', error);
       // Fallback to original URL
@@ -102,7 +119,7 @@ export class ImageCacheService {
   /**
    * Preload and cache an image
    */
-  static async preloadImage(imageUrl: string): Promise<void> {
+  static async preloadImage(imageUrl: string, namespace: ImageCacheNamespace = 'other'): Promise<void> {
     try {
       // Skip blob URLs - they can't be downloaded and shouldn't be in procedure data
       if (imageUrl.startsWith('blob:')) {
@@ -116,7 +133,7 @@ export class ImageCacheService {
         return;
       }
 
-      await this.getCachedImage(imageUrl);
+      await this.getCachedImage(imageUrl, namespace);
     } catch (error) {
       console.error('Error preloading image:', error);
     }
@@ -132,24 +149,21 @@ export class ImageCacheService {
       } else {
         await this.clearMobileCache();
       }
+      this.lastTouched.clear();
     } catch (error) {
       console.error('Error clearing cache:', error);
     }
   }
 
   /**
-   * Get cache statistics
+   * Get cache statistics, overall and per namespace
    */
-  static async getCacheStats(): Promise<{ size: number; count: number }> {
+  static async getCacheStats(): Promise<ImageCacheStats> {
     try {
-      if (Platform.OS === 'web') {
-        return await this.getWebCacheStats();
-      } else {
-        return await this.getMobileCacheStats();
-      }
+      return summarizeImageCache(await this.getAllEntries(), await this.getPinnedUrls());
     } catch (error) {
       console.error('Error getting cache stats:', error);
-      return { size: 0, count: 0 };
+      return summarizeImageCache([], new Set());
     }
   }
 
@@ -158,18 +172,46 @@ export class ImageCacheService {
    */
   static async removeFromCache(imageUrl: string): Promise<void> {
     try {
-      const cacheKey = this.getCacheKey(imageUrl);
-      
-      if (Platform.OS === 'web') {
-        await this.removeFromWebCache(cacheKey);
-      } else {
-        await this.removeFromMobileCache(cacheKey);
-      }
+      await this.removeEntry(this.getCacheKey(imageUrl));
     } catch (error) {
       console.error('Error removing from cache:', error);
     }
   }
 
+  /**
+   * Replace the pinned images of a namespace
+   * Pinned images are kept regardless of age and cache size, pass an empty list to unpin them
+   */
+  static async setPinnedImages(namespace: ImageCacheNamespace, imageUrls: string[]): Promise<void> {
+    try {
+      const pins = await this.loadPins();
+      this.pins = { ...pins, [namespace]: Array.from(new Set(imageUrls)) };
+      await AsyncStorage.setItem(this.PINS_KEY, JSON.stringify(this.pins));
+    } catch (error) {
+      console.error('Error saving pinned images:', error);
+    }
+  }
+
+  /**
+   * Remove the images of a namespace, except pinned ones
+   * @returns Number of removed images
+   */
+  static async purgeNamespace(namespace: ImageCacheNamespace): Promise<number> {
+    try {
+      const pinnedUrls = await this.getPinnedUrls();
+      const entries = (await this.getAllEntries())
+        .filter(entry => entry.namespace === namespace && !pinnedUrls.has(entry.originalUrl));
+
+      for (const entry of entries) {
+        await this.removeEntry(entry.key);
+      }
+      return entries.length;
+    } catch (error) {
+      console.error('Error purging cache namespace:', error);
+      return 0;
+    }
+  }
+
   // Private methods
 
   /**
@@ -220,18 +262,18 @@ export class ImageCacheService {
   /**
    * Download and cache an image
    */
-  private static async downloadAndCacheImage(imageUrl: string): Promise<string> {
+  private static async downloadAndCacheImage(imageUrl: string, namespace: ImageCacheNamespace): Promise<string> {
     if (Platform.OS === 'web') {
-      return await this.downloadAndCacheImageWeb(imageUrl);
+      return await this.downloadAndCacheImageWeb(imageUrl, namespace);
     } else {
-      return await this.downloadAndCacheImageMobile(imageUrl);
+      return await this.downloadAndCacheImageMobile(imageUrl, namespace);
     }
   }
 
   /**
    * Download and cache image on mobile
    */
-  private static async downloadAndCacheImageMobile(imageUrl: string): Promise<string> {
+  private static async downloadAndCacheImageMobile(imageUrl: string, namespace: ImageCacheNamespace): Promise<string> {
     const cacheKey = this.getCacheKey(imageUrl);
     const localPath = `${this.cacheDirectory}${cacheKey}`;
 
@@ -248,12 +290,15 @@ export class ImageCacheService {
       const size = (fileInfo.exists && 'size' in fileInfo) ? fileInfo.size || 0 : 0;
 
       // Save metadata
+      const now = Date.now();
       const metadata: CachedImageMetadata = {
         uri: localPath,
         localPath,
-        cachedAt: Date.now(),
+        cachedAt: now,
         size,
         originalUrl: imageUrl,
+        namespace,
+        lastAccessedAt: now,
       };
 
       await this.saveCacheMetadata(cacheKey, metadata);
@@ -274,7 +319,7 @@ export class ImageCacheService {
   /**
    * Download and cache image on web
    */
-  private static async downloadAndCacheImageWeb(imageUrl: string): Promise<string> {
+  private static async downloadAndCacheImageWeb(imageUrl: string, namespace: ImageCacheNamespace): Promise<string> {
     const cacheKey = this.getCacheKey(imageUrl);
 
     try {
@@ -288,12 +333,15 @@ export class ImageCacheService {
       const blobUrl = URL.createObjectURL(blob);
 
       // Save to IndexedDB or localStorage
+      const now = Date.now();
       const metadata: CachedImageMetadata = {
         uri: blobUrl,
         localPath: blobUrl,
-        cachedAt: Date.now(),
+        cachedAt: now,
         size: blob.size,
         originalUrl: imageUrl,
+        namespace,
+        lastAccessedAt: now,
       };
 
       // Store reference to prevent garbage collection
@@ -455,8 +503,12 @@ export class ImageCacheService {
 
   /**
    * Check if cache is valid (not expired)
+   * Pinned images never expire, they must be available offline
    */
-  private static async isCacheValid(metadata: CachedImageMetadata): Promise<boolean> {
+  private static async isCacheValid(imageUrl: string, metadata: CachedImageMetadata): Promise<boolean> {
+    if ((await this.getPinnedUrls()).has(imageUrl)) {
+      return true;
+    }
     const age = Date.now() - metadata.cachedAt;
     return age < this.config.maxAge;
   }
@@ -476,14 +528,26 @@ export class ImageCacheService {
   }
 
   /**
-   * Clean up old cache entries
+   * Evict images to fit the cache limits, least recently shown first and never pinned ones
    */
   private static async cleanupCache(): Promise<void> {
     try {
       if (Platform.OS === 'web') {
-        await this.cleanupWebCache();
-      } else {
-        await this.cleanupMobileCache();
+        this.cleanupOldBlobUrls();
+      }
+
+      const entries = await this.getAllEntries();
+      const evictions = selectEvictions(entries, await this.getPinnedUrls(), {
+        maxSize: this.config.maxCacheSize * 1024 * 1024,
+        maxIdle: this.config.maxAge,
+      });
+
+      for (const entry of evictions) {
+        await this.removeEntry(entry.key);
+      }
+
+      if (evictions.length > 0) {
+        console.log(`[ImageCache] Evicted ${evictions.length} images`);
       }
     } catch (error) {
       console.error('Error cleaning up cache:', error);
@@ -491,95 +555,84 @@ export class ImageCacheService {
   }
 
   /**
-   * Clean up mobile cache
+   * Run a cleanup shortly after downloads stop, instead of after every image of a batch
    */
-  private static async cleanupMobileCache(): Promise<void> {
-    try {
-      // Get all cache keys
-      const keys = await AsyncStorage.getAllKeys();
-      const cacheKeys = keys.filter(key => key.startsWith('ImageCache_'));
+  private static scheduleCleanup(): void {
+    if (this.cleanupTimer) {
+      clearTimeout(this.cleanupTimer);
+    }
+    this.cleanupTimer = setTimeout(() => {
+      this.cleanupTimer = null;
+      this.cleanupCache();
+    }, this.CLEANUP_DELAY_MS);
+  }
 
-      const now = Date.now();
-      let totalSize = 0;
-      const entries: Array<{ key: string; metadata: CachedImageMetadata }> = [];
+  /**
+   * Record that an image was shown, for LRU eviction
+   * Writes are throttled since the same images are shown over and over while scrolling
+   */
+  private static async touchEntry(cacheKey: string, namespace: ImageCacheNamespace): Promise<void> {
+    const touchKey = `${cacheKey}:${namespace}`;
+    const now = Date.now();
+    const lastTouched = this.lastTouched.get(touchKey);
+    if (lastTouched && now - lastTouched < this.TOUCH_INTERVAL_MS) {
+      return;
+    }
+    this.lastTouched.set(touchKey, now);
 
-      // Collect metadata for all cached images
-      for (const key of cacheKeys) {
-        try {
-          const metadataString = await AsyncStorage.getItem(key);
-          if (metadataString) {
-            const metadata: CachedImageMetadata = JSON.parse(metadataString);
-            
-            // Check if file exists
-            const fileInfo = await FileSystem.getInfoAsync(metadata.localPath);
-            if (fileInfo.exists) {
-              entries.push({ key, metadata });
-              totalSize += metadata.size;
-            } else {
-              // File doesn't exist, remove metadata
-              await AsyncStorage.removeItem(key);
-            }
-          }
-        } catch (error) {
-          // Invalid metadata, remove it
-          await AsyncStorage.removeItem(key);
-        }
-      }
+    // An image shown in a specific place is counted there, not under 'other'
+    const update = (metadata: CachedImageMetadata): CachedImageMetadata => ({
+      ...metadata,
+      lastAccessedAt: now,
+      namespace: namespace === 'other' ? metadata.namespace || 'other' : namespace,
+    });
 
-      // Remove expired entries
-      for (const entry of entries) {
-        const age = now - entry.metadata.cachedAt;
-        if (age > this.config.maxAge) {
-          await this.removeFromMobileCache(entry.key.replace('ImageCache_', ''));
-          totalSize -= entry.metadata.size;
+    try {
+      if (Platform.OS === 'web') {
+        if (this.isIndexedDBSupported !== false && await this.checkIndexedDBSupport()) {
+          await this.updateIndexedDBMetadata(cacheKey, update);
         }
-      }
-
-      // If still over size limit, remove oldest entries
-      if (totalSize > this.config.maxCacheSize * 1024 * 1024) {
-        const sortedEntries = entries
-          .filter(entry => now - entry.metadata.cachedAt <= this.config.maxAge)
-          .sort((a, b) => a.metadata.cachedAt - b.metadata.cachedAt);
-
-        for (const entry of sortedEntries) {
-          if (totalSize <= this.config.maxCacheSize * 1024 * 1024) {
-            break;
+        if (typeof window !== 'undefined' && window.localStorage) {
+          const metadataString = localStorage.getItem(`ImageCache_${cacheKey}`);
+          if (metadataString) {
+            localStorage.setItem(`ImageCache_${cacheKey}`, JSON.stringify(update(JSON.parse(metadataString))));
           }
-          await this.removeFromMobileCache(entry.key.replace('ImageCache_', ''));
-          totalSize -= entry.metadata.size;
+        }
+      } else {
+        const metadataString = await AsyncStorage.getItem(`ImageCache_${cacheKey}`);
+        if (metadataString) {
+          await this.saveCacheMetadata(cacheKey, update(JSON.parse(metadataString)));
         }
       }
     } catch (error) {
-      console.error('Error cleaning up mobile cache:', error);
+      console.warn('[ImageCache] Error updating last access:', error);
     }
   }
 
   /**
-   * Clean up web cache
+   * All cached images, from AsyncStorage on mobile and IndexedDB/localStorage on web
+   * Metadata of images whose file is gone is removed on the way
    */
-  private static async cleanupWebCache(): Promise<void> {
-    try {
-      // Clean up old blob URLs
-      this.cleanupOldBlobUrls();
-      
+  private static async getAllEntries(): Promise<ImageCacheEntry[]> {
+    const entries: ImageCacheEntry[] = [];
+
+    if (Platform.OS === 'web') {
+      if (this.isIndexedDBSupported !== false && await this.checkIndexedDBSupport()) {
+        const records = await this.getAllFromIndexedDB();
+        records.forEach(record => entries.push(this.toEntry(record.key, record.metadata)));
+      }
+
       if (typeof window !== 'undefined' && window.localStorage) {
         const keys = Object.keys(localStorage).filter(key => key.startsWith('ImageCache_'));
-        const now = Date.now();
-
         for (const key of keys) {
+          const cacheKey = key.replace('ImageCache_', '');
+          if (entries.some(entry => entry.key === cacheKey)) {
+            continue;
+          }
           try {
             const metadataString = localStorage.getItem(key);
             if (metadataString) {
-              const metadata: CachedImageMetadata = JSON.parse(metadataString);
-              const age = now - metadata.cachedAt;
-              
-              if (age > this.config.maxAge) {
-                localStorage.removeItem(key);
-                // Revoke blob URL if it exists
-                if (metadata.uri && metadata.uri.startsWith('blob:')) {
-                  URL.revokeObjectURL(metadata.uri);
-                }
-              }
+              entries.push(this.toEntry(cacheKey, JSON.parse(metadataString)));
             }
           } catch (error) {
             // Invalid metadata, remove it
@@ -587,9 +640,95 @@ export class ImageCacheService {
           }
         }
       }
+
+      return entries;
+    }
+
+    const keys = await AsyncStorage.getAllKeys();
+    const cacheKeys = keys.filter(key => key.startsWith('ImageCache_'));
+
+    for (const key of cacheKeys) {
+      try {
+        const metadataString = await AsyncStorage.getItem(key);
+        if (metadataString) {
+          const metadata: CachedImageMetadata = JSON.parse(metadataString);
+
+          const fileInfo = await FileSystem.getInfoAsync(metadata.localPath);
+          if (fileInfo.exists) {
+            entries.push(this.toEntry(key.replace('ImageCache_', ''), metadata));
+          } else {
+            // File doesn't exist, remove metadata
+            await AsyncStorage.removeItem(key);
+          }
+        }
+      } catch (error) {
+        // Invalid metadata, remove it
+        await AsyncStorage.removeItem(key);
+      }
+    }
+
+    return entries;
+  }
+
+  private static toEntry(cacheKey: string, metadata: CachedImageMetadata): ImageCacheEntry {
+    return {
+      key: cacheKey,
+      originalUrl: metadata.originalUrl,
+      namespace: metadata.namespace || 'other',
+      size: metadata.size || 0,
+      cachedAt: metadata.cachedAt,
+      // Images cached before access tracking count as last shown when downloaded
+      lastAccessedAt: metadata.lastAccessedAt || metadata.cachedAt,
+    };
+  }
+
+  /**
+   * Remove a cached image by its cache key
+   */
+  private static async removeEntry(cacheKey: string): Promise<void> {
+    if (Platform.OS !== 'web') {
+      await this.removeFromMobileCache(cacheKey);
+      return;
+    }
+
+    const activeBlob = this.activeBlobUrls.get(cacheKey);
+    if (activeBlob) {
+      try {
+        URL.revokeObjectURL(activeBlob.url);
+      } catch (error) {
+        console.warn('[ImageCache] Error revoking blob URL during removal:', error);
+      }
+      this.activeBlobUrls.delete(cacheKey);
+    }
+
+    await this.removeFromWebCache(cacheKey);
+
+    if (this.isIndexedDBSupported !== false && await this.checkIndexedDBSupport()) {
+      await this.deleteFromIndexedDB(cacheKey);
+    }
+  }
+
+  /**
+   * Pinned image URLs of every namespace
+   */
+  private static async getPinnedUrls(): Promise<Set<string>> {
+    const pins = await this.loadPins();
+    return new Set(Object.values(pins).flat());
+  }
+
+  private static async loadPins(): Promise<Partial<Record<ImageCacheNamespace, string[]>>> {
+    if (this.pins) {
+      return this.pins;
+    }
+
+    try {
+      const pinsString = await AsyncStorage.getItem(this.PINS_KEY);
+      this.pins = pinsString ? JSON.parse(pinsString) : {};
     } catch (error) {
-      console.error('Error cleaning up web cache:', error);
+      console.error('Error loading pinned images:', error);
+      this.pins = {};
     }
+    return this.pins!;
   }
 
   /**
@@ -743,69 +882,6 @@ export class ImageCacheService {
     }
   }
 
-  /**
-   * Get mobile cache stats
-   */
-  private static async getMobileCacheStats(): Promise<{ size: number; count: number }> {
-    try {
-      const keys = await AsyncStorage.getAllKeys();
-      const cacheKeys = keys.filter(key => key.startsWith('ImageCache_'));
-
-      let totalSize = 0;
-      let count = 0;
-
-      for (const key of cacheKeys) {
-        try {
-          const metadataString = await AsyncStorage.getItem(key);
-          if (metadataString) {
-            const metadata: CachedImageMetadata = JSON.parse(metadataString);
-            totalSize += metadata.size;
-            count++;
-          }
-        } catch (error) {
-          // Ignore invalid entries
-        }
-      }
-
-      return { size: totalSize, count };
-    } catch (error) {
-      return { size: 0, count: 0 };
-    }
-  }
-
-  /**
-   * Get web cache stats
-   */
-  private static async getWebCacheStats(): Promise<{ size: number; count: number }> {
-    try {
-      if (typeof window !== 'undefined' && window.localStorage) {
-        const keys = Object.keys(localStorage).filter(key => key.startsWith('ImageCache_'));
-
-        let totalSize = 0;
-        let count = 0;
-
-        for (const key of keys) {
-          try {
-            const metadataString = localStorage.getItem(key);
-            if (metadataString) {
-              const metadata: CachedImageMetadata = JSON.parse(metadataString);
-              totalSize += metadata.size;
-              count++;
-            }
-          } catch (error) {
-            // Ignore invalid entries
-          }
-        }
-
-        return { size: totalSize, count };
-      }
-
-      return { size: 0, count: 0 };
-    } catch (error) {
-      return { size: 0, count: 0 };
-    }
-  }
-
   // IndexedDB helper methods - Simplified approach
   private static dbPromise: Promise<IDBDatabase> | null = null;
   private static isIndexedDBSupported: boolean | null = null;
@@ -1036,6 +1112,97 @@ export class ImageCacheService {
     }
   }
 
+  /**
+   * Get the metadata of all images stored in IndexedDB, without creating blob URLs
+   */
+  private static async getAllFromIndexedDB(): Promise<Array<{ key: string; metadata: CachedImageMetadata }>> {
+    try {
+      const db = await this.openIndexedDB();
+
+      return new Promise((resolve, reject) => {
+        try {
+          const transaction = db.transaction(['images'], 'readonly');
+          const store = transaction.objectStore('images');
+          const getAllRequest = store.getAll();
+
+          getAllRequest.onsuccess = () => {
+            resolve(
+              (getAllRequest.result || [])
+                .filter(record => record && record.metadata)
+                .map(record => ({ key: record.key, metadata: record.metadata }))
+            );
+          };
+
+          getAllRequest.onerror = () => reject(new Error(`GetAll request failed: ${getAllRequest.error?.message || 'Unknown error'}`));
+          transaction.onerror = () => reject(new Error(`Transaction failed: ${transaction.error?.message || 'Unknown error'}`));
+          transaction.onabort = () => reject(new Error('Transaction was aborted'));
+        } catch (transactionError) {
+          reject(new Error(`Failed to create transaction: ${transactionError instanceof Error ? transactionError.message : 'Unknown error'}`));
+        }
+      });
+    } catch (error) {
+      this.dbPromise = null;
+      console.error('[ImageCache] Error listing IndexedDB images:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Update the metadata of an image stored in IndexedDB, keeping its blob
+   */
+  private static async updateIndexedDBMetadata(
+    cacheKey: string,
+    update: (metadata: CachedImageMetadata) => CachedImageMetadata
+  ): Promise<void> {
+    const db = await this.openIndexedDB();
+
+    return new Promise((resolve, reject) => {
+      try {
+        const transaction = db.transaction(['images'], 'readwrite');
+        const store = transaction.objectStore('images');
+        const getRequest = store.get(cacheKey);
+
+        getRequest.onsuccess = () => {
+          const record = getRequest.result;
+          if (!record || !record.metadata) {
+            resolve();
+            return;
+          }
+          const putRequest = store.put({ ...record, metadata: update(record.metadata) });
+          putRequest.onsuccess = () => resolve();
+          putRequest.onerror = () => reject(new Error(`Put request failed: ${putRequest.error?.message || 'Unknown error'}`));
+        };
+
+        getRequest.onerror = () => reject(new Error(`Get request failed: ${getRequest.error?.message || 'Unknown error'}`));
+        transaction.onerror = () => reject(new Error(`Transaction failed: ${transaction.error?.message || 'Unknown error'}`));
+        transaction.onabort = () => reject(new Error('Transaction was aborted'));
+      } catch (transactionError) {
+        reject(new Error(`Failed to create transaction: ${transactionError instanceof Error ? transactionError.message : 'Unknown error'}`));
+      }
+    });
+  }
+
+  /**
+   * Delete an image from IndexedDB
+   */
+  private static async deleteFromIndexedDB(cacheKey: string): Promise<void> {
+    try {
+      const db = await this.openIndexedDB();
+
+      await new Promise<void>((resolve, reject) => {
+        const transaction = db.transaction(['images'], 'readwrite');
+        const deleteRequest = transaction.objectStore('images').delete(cacheKey);
+
+        deleteRequest.onsuccess = () => resolve();
+        deleteRequest.onerror = () => reject(new Error(`Delete request failed: ${deleteRequest.error?.message || 'Unknown error'}`));
+        transaction.onerror = () => reject(new Error(`Transaction failed: ${transaction.error?.message || 'Unknown error'}`));
+      });
+    } catch (error) {
+      this.dbPromise = null;
+      console.error('[ImageCache] Error deleting from IndexedDB:', error);
+    }
+  }
+
   /**
    * Reset IndexedDB state (for error recovery) - Allows retry of IndexedDB support detection
    */
@@ -0,0 +1,66 @@
+import { ImageCacheEntry, ImageCacheNamespace, ImageCacheStats } from '@/types/ImageCache';
+
+export const IMAGE_CACHE_NAMESPACES: ImageCacheNamespace[] = ['procedures', 'equipment', 'comments', 'other'];
+
+export interface ImageCacheLimits {
+  maxSize: number; // bytes
+  maxIdle: number; // milliseconds since the image was last shown
+}
+
+/**
+ * Entries to remove so the cache fits its limits: first images not shown for longer than maxIdle,
+ * then least recently shown images until the cache fits in maxSize. Pinned images are never removed,
+ * even when they alone exceed maxSize.
+ */
+export function selectEvictions(
+  entries: ImageCacheEntry[],
+  pinnedUrls: Set<string>,
+  limits: ImageCacheLimits,
+  now: number = Date.now()
+): ImageCacheEntry[] {
+  const evictable = entries
+    .filter(entry => !pinnedUrls.has(entry.originalUrl))
+    .sort((a, b) => a.lastAccessedAt - b.lastAccessedAt);
+
+  let totalSize = entries.reduce((sum, entry) => sum + entry.size, 0);
+  const evictions: ImageCacheEntry[] = [];
+
+  for (const entry of evictable) {
+    const isIdle = now - entry.lastAccessedAt > limits.maxIdle;
+    if (!isIdle && totalSize <= limits.maxSize) {
+      // Entries are in access order, so every following one is more recent and fits as well
+      break;
+    }
+    evictions.push(entry);
+    totalSize -= entry.size;
+  }
+
+  return evictions;
+}
+
+/**
+ * Cache usage overall and per namespace, with the part held by pinned images
+ */
+export function summarizeImageCache(entries: ImageCacheEntry[], pinnedUrls: Set<string>): ImageCacheStats {
+  const stats: ImageCacheStats = {
+    size: 0,
+    count: 0,
+    namespaces: Object.fromEntries(
+      IMAGE_CACHE_NAMESPACES.map(namespace => [namespace, { size: 0, count: 0, pinnedSize: 0, pinnedCount: 0 }])
+    ) as ImageCacheStats['namespaces'],
+  };
+
+  for (const entry of entries) {
+    const usage = stats.namespaces[entry.namespace] || stats.namespaces.other;
+    stats.size += entry.size;
+    stats.count++;
+    usage.size += entry.size;
+    usage.count++;
+    if (pinnedUrls.has(entry.originalUrl)) {
+      usage.pinnedSize += entry.size;
+      usage.pinnedCount++;
+    }
+  }
+
+  return stats;
+}
@@ -0,0 +1,285 @@
+import { Flight } from '@/types/Flight';
+import { calculateFlightDurationMinutes } from '@/src/utils/flightUtils';
+
+/**
+ * A single row of the pilot logbook, flattened from a Flight
+ */
+export interface LogbookEntry {
+  flightId: string;
+  date: string;
+  startTime: string; // HH:mm
+  endTime: string; // HH:mm
+  durationMinutes: number;
+  pilot: string;
+  operator: string;
+  drone: string;
+  flightCategory: string;
+  operationType: string;
+  activityType: string;
+  location: string;
+  coordinates: string;
+  conditions: string;
+  additionalInfo: string;
+}
+
+/**
+ * One printed page of the logbook with its running totals
+ */
+export interface LogbookPage {
+  pageNumber: number;
+  entries: LogbookEntry[];
+  pageMinutes: number; // flight time logged on this page
+  broughtForwardMinutes: number; // flight time from all previous pages
+  totalMinutes: number; // brought forward + this page
+}
+
+/**
+ * Header information printed on top of every logbook page
+ */
+export interface LogbookHeader {
+  pilot?: string;
+  periodStart?: string; // YYYY-MM-DD
+  periodEnd?: string; // YYYY-MM-DD
+  generatedAt: Date;
+}
+
+export const DEFAULT_ENTRIES_PER_PAGE = 15;
+
+/**
+ * Format a flight start/end time (ISO datetime or legacy HH:mm) as local HH:mm.
+ */
+export function formatLogbookTime(time: string): string {
+  if (!time) {
+    return '';
+  }
+  if (/^\d{2}:\d{2}$/.test(time)) {
+    return time;
+  }
+  const date = new Date(time);
+  if (isNaN(date.getTime())) {
+    return time;
+  }
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+}
+
+/**
+ * Format minutes as H:MM, the usual notation for logbook time columns.
+ */
+export function formatLogbookMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const remainingMinutes = minutes % 60;
+  return `${hours}:${String(remainingMinutes).padStart(2, '0')}`;
+}
+
+/**
+ * Convert flights into chronologically ordered logbook entries.
+ * `droneNames` maps drone ids to display names; the flight's droneName snapshot is used as fallback.
+ */
+export function buildLogbookEntries(flights: Flight[], droneNames: Map<string, string> = new Map()): LogbookEntry[] {
+  return [...flights]
+    .sort((a, b) => {
+      const byDate = a.date.localeCompare(b.date);
+      return byDate !== 0 ? byDate : (a.startTime || '').localeCompare(b.startTime || '');
+    })
+    .map(flight => ({
+      flightId: flight.id,
+      date: flight.date,
+      startTime: formatLogbookTime(flight.startTime),
+      endTime: formatLogbookTime(flight.endTime),
+      durationMinutes: calculateFlightDurationMinutes(flight.startTime, flight.endTime),
+      pilot: flight.userEmail || '',
+      operator: flight.operator || '',
+      drone: droneNames.get(flight.droneId) || flight.droneName || flight.droneId,
+      flightCategory: flight.flightCategory,
+      operationType: flight.operationType,
+      activityType: flight.activityType,
+      location: flight.location || '',
+      coordinates: flight.coordinates || '',
+      conditions: flight.conditions || '',
+      additionalInfo: flight.additionalInfo || '',
+    }));
+}
+
+/**
+ * Split entries into pages, carrying the flight time total forward from page to page.
+ * Always returns at least one (possibly empty) page so an empty logbook still prints a header.
+ */
+export function paginateLogbook(entries: LogbookEntry[], entriesPerPage: number = DEFAULT_ENTRIES_PER_PAGE): LogbookPage[] {
+  const pageSize = Math.max(1, entriesPerPage);
+  const pages: LogbookPage[] = [];
+  let broughtForwardMinutes = 0;
+
+  for (let i = 0; i === 0 || i < entries.length; i += pageSize) {
+    const pageEntries = entries.slice(i, i + pageSize);
+    const pageMinutes = pageEntries.reduce((sum, entry) => sum + entry.durationMinutes, 0);
+
+    pages.push({
+      pageNumber: pages.length + 1,
+      entries: pageEntries,
+      pageMinutes,
+      broughtForwardMinutes,
+      totalMinutes: broughtForwardMinutes + pageMinutes,
+    });
+
+    broughtForwardMinutes += pageMinutes;
+  }
+
+  return pages;
+}
+
+/**
+ * Escape a single CSV field according to RFC 4180. Text starting with a
+ * formula character is prefixed with an apostrophe so spreadsheets show it
+ * as text instead of evaluating it.
+ */
+function escapeCsvField(value: string | number): string {
+  const text = typeof value === 'string' && /^[=+\-@]/.test(value) ? `'${value}` : String(value);
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
+
+/**
+ * Build a CSV document of the logbook. Starts with a UTF-8 BOM so spreadsheet
+ * applications detect Polish characters correctly.
+ */
+export function buildLogbookCsv(entries: LogbookEntry[], t: (key: string) => string): string {
+  const header = [
+    t('logbook.columns.date'),
+    t('logbook.columns.startTime'),
+    t('logbook.columns.endTime'),
+    t('logbook.columns.durationMinutes'),
+    t('logbook.columns.pilot'),
+    t('logbook.columns.operator'),
+    t('logbook.columns.drone'),
+    t('logbook.columns.category'),
+    t('logbook.columns.operation'),
+    t('logbook.columns.activity'),
+    t('logbook.columns.location'),
+    t('logbook.columns.coordinates'),
+    t('logbook.columns.conditions'),
+    t('logbook.columns.remarks'),
+  ];
+
+  const rows = entries.map(entry => [
+    entry.date,
+    entry.startTime,
+    entry.endTime,
+    entry.durationMinutes,
+    entry.pilot,
+    entry.operator,
+    entry.drone,
+    entry.flightCategory,
+    entry.operationType,
+    entry.activityType,
+    entry.location,
+    entry.coordinates,
+    entry.conditions,
+    entry.additionalInfo,
+  ]);
+
+  return '\uFEFF' + [header, ...rows]
+    .map(row => row.map(escapeCsvField).join(','))
+    .join('\r\n');
+}
+
+/**
+ * Escape text for safe embedding in HTML.
+ */
+function escapeHtml(value: string | number): string {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Build a printable HTML logbook. Each page is a separate table with page,
+ * brought-forward and cumulative flight time totals, and a page break after it.
+ */
+export function buildLogbookHtml(pages: LogbookPage[], header: LogbookHeader, t: (key: string) => string): string {
+  const period = header.periodStart || header.periodEnd
+    ? `${header.periodStart || '…'} – ${header.periodEnd || '…'}`
+    : t('logbook.allTime');
+
+  const headerHtml = `
+    <div class="header">
+      <h1>${escapeHtml(t('logbook.title'))}</h1>
+      <div>${escapeHtml(t('logbook.pilot'))}: ${escapeHtml(header.pilot || t('logbook.allPilots'))}</div>
+      <div>${escapeHtml(t('logbook.period'))}: ${escapeHtml(period)}</div>
+      <div>${escapeHtml(t('logbook.generatedAt'))}: ${escapeHtml(header.generatedAt.toLocaleString())}</div>
+    </div>`;
+
+  const columnsHtml = [
+    'logbook.columns.date',
+    'logbook.columns.startTime',
+    'logbook.columns.endTime',
+    'logbook.columns.duration',
+    'logbook.columns.pilot',
+    'logbook.columns.drone',
+    'logbook.columns.category',
+    'logbook.columns.operation',
+    'logbook.columns.activity',
+    'logbook.columns.location',
+    'logbook.columns.remarks',
+  ].map(key => `<th>${escapeHtml(t(key))}</th>`).join('');
+
+  const pagesHtml = pages.map(page => {
+    const rowsHtml = page.entries.map(entry => `
+        <tr>
+          <td>${escapeHtml(entry.date)}</td>
+          <td>${escapeHtml(entry.startTime)}</td>
+          <td>${escapeHtml(entry.endTime)}</td>
+          <td class="num">${escapeHtml(formatLogbookMinutes(entry.durationMinutes))}</td>
+          <td>${escapeHtml(entry.pilot)}${entry.operator ? `<br/><small>${escapeHtml(entry.operator)}</small>` : ''}</td>
+          <td>${escapeHtml(entry.drone)}</td>
+          <td>${escapeHtml(entry.flightCategory)}</td>
+          <td>${escapeHtml(entry.operationType)}</td>
+          <td>${escapeHtml(entry.activityType)}</td>
+          <td>${escapeHtml(entry.location)}${entry.coordinates ? `<br/><small>${escapeHtml(entry.coordinates)}</small>` : ''}</td>
+          <td>${escapeHtml([entry.conditions, entry.additionalInfo].filter(Boolean).join(' / '))}</td>
+        </tr>`).join('');
+
+    return `
+    <section class="page">
+      ${headerHtml}
+      <table>
+        <thead><tr>${columnsHtml}</tr></thead>
+        <tbody>${rowsHtml}</tbody>
+        <tfoot>
+          <tr><td colspan="3">${escapeHtml(t('logbook.pageTotal'))}</td><td class="num">${formatLogbookMinutes(page.pageMinutes)}</td><td colspan="7"></td></tr>
+          <tr><td colspan="3">${escapeHtml(t('logbook.broughtForward'))}</td><td class="num">${formatLogbookMinutes(page.broughtForwardMinutes)}</td><td colspan="7"></td></tr>
+          <tr><td colspan="3">${escapeHtml(t('logbook.totalToDate'))}</td><td class="num">${formatLogbookMinutes(page.totalMinutes)}</td><td colspan="7"></td></tr>
+        </tfoot>
+      </table>
+      <div class="footer">${escapeHtml(t('logbook.page'))} ${page.pageNumber} / ${pages.length}</div>
+    </section>`;
+  }).join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <title>${escapeHtml(t('logbook.title'))}</title>
+  <style>
+    @page { size: A4 landscape; margin: 12mm; }
+    body { font-family: Arial, Helvetica, sans-serif; font-size: 10px; color: #000; }
+    .page { page-break-after: always; }
+    .page:last-child { page-break-after: auto; }
+    .header { margin-bottom: 8px; }
+    .header h1 { font-size: 16px; margin: 0 0 4px 0; }
+    table { width: 100%; border-collapse: collapse; }
+    th, td { border: 1px solid #333; padding: 3px 4px; text-align: left; vertical-align: top; }
+    th { background: #e8e8e8; }
+    tfoot td { font-weight: bold; background: #f4f4f4; }
+    .num { text-align: right; white-space: nowrap; }
+    .footer { margin-top: 6px; text-align: right; }
+  </style>
+</head>
+<body>${pagesHtml}
+</body>
+</html>`;
+}
@@ -0,0 +1,124 @@
+import { Drone } from '@/types/Drone';
+import {
+  MaintenanceType,
+  ServiceInterval,
+  ServiceIntervalStatus,
+  ServiceStatus,
+  SERVICE_DUE_SOON_RATIO,
+} from '@/types/Maintenance';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Flight totals an interval is measured against
+export type DroneFlightTotals = Pick<Drone, 'totalFlightTime' | 'totalFlightCount'>;
+
+const STATUS_SEVERITY: Record<ServiceStatus, number> = {
+  ok: 0,
+  dueSoon: 1,
+  overdue: 2,
+};
+
+function getStatusForUsage(used: number, limit: number): ServiceStatus {
+  if (used >= limit) return 'overdue';
+  if (used >= limit * SERVICE_DUE_SOON_RATIO) return 'dueSoon';
+  return 'ok';
+}
+
+function getWorstStatus(statuses: ServiceStatus[]): ServiceStatus {
+  return statuses.reduce<ServiceStatus>(
+    (worst, status) => STATUS_SEVERITY[status] > STATUS_SEVERITY[worst] ? status : worst,
+    'ok'
+  );
+}
+
+/**
+ * Status of one service interval; the limit closest to being reached decides
+ */
+export function getServiceIntervalStatus(
+  interval: ServiceInterval,
+  drone: DroneFlightTotals,
+  now: Date = new Date()
+): ServiceIntervalStatus {
+  const statuses: ServiceStatus[] = [];
+  const result: ServiceIntervalStatus = { interval, status: 'ok' };
+
+  if (interval.flightHours) {
+    const limit = interval.flightHours * 60;
+    const used = (drone.totalFlightTime || 0) - interval.lastServiceFlightMinutes;
+    result.minutesRemaining = limit - used;
+    statuses.push(getStatusForUsage(used, limit));
+  }
+
+  if (interval.flightCycles) {
+    const used = (drone.totalFlightCount || 0) - interval.lastServiceFlightCount;
+    result.cyclesRemaining = interval.flightCycles - used;
+    statuses.push(getStatusForUsage(used, interval.flightCycles));
+  }
+
+  if (interval.calendarDays) {
+    const used = (now.getTime() - interval.lastServiceAt.getTime()) / DAY_MS;
+    result.daysRemaining = Math.ceil(interval.calendarDays - used);
+    statuses.push(getStatusForUsage(used, interval.calendarDays));
+  }
+
+  result.status = getWorstStatus(statuses);
+  return result;
+}
+
+/**
+ * Status of every service interval of a drone, most urgent first
+ */
+export function getServiceIntervalStatuses(
+  drone: DroneFlightTotals & Pick<Drone, 'serviceIntervals'>,
+  now: Date = new Date()
+): ServiceIntervalStatus[] {
+  return (drone.serviceIntervals || [])
+    .map(interval => getServiceIntervalStatus(interval, drone, now))
+    .sort((a, b) => STATUS_SEVERITY[b.status] - STATUS_SEVERITY[a.status]);
+}
+
+/**
+ * Overall service status of a drone - the worst of its intervals
+ */
+export function getDroneServiceStatus(
+  drone: DroneFlightTotals & Pick<Drone, 'serviceIntervals'>,
+  now: Date = new Date()
+): ServiceStatus {
+  return getWorstStatus(getServiceIntervalStatuses(drone, now).map(status => status.status));
+}
+
+/**
+ * Intervals a new maintenance entry of this type restarts unless the user changes the selection
+ */
+export function getDefaultResetIntervalIds(
+  intervals: ServiceInterval[] | undefined,
+  type: MaintenanceType
+): string[] {
+  return (intervals || [])
+    .filter(interval => interval.maintenanceType === type)
+    .map(interval => interval.id);
+}
+
+/**
+ * Restart the selected intervals from the drone's current totals. Service dated before
+ * an interval's last service (a backfilled entry) leaves that interval alone.
+ */
+export function resetServiceIntervals(
+  intervals: ServiceInterval[],
+  intervalIds: string[],
+  performedAt: Date,
+  drone: DroneFlightTotals
+): ServiceInterval[] {
+  return intervals.map(interval => {
+    if (!intervalIds.includes(interval.id) || performedAt < interval.lastServiceAt) {
+      return interval;
+    }
+
+    return {
+      ...interval,
+      lastServiceAt: performedAt,
+      lastServiceFlightMinutes: drone.totalFlightTime || 0,
+      lastServiceFlightCount: drone.totalFlightCount || 0,
+    };
+  });
+}
@@ -0,0 +1,357 @@
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { CoordinateUtils } from './coordinateUtils';
+import {
+  AVERAGE_TILE_SIZE_BYTES,
+  LEAFLET_ASSET_FILES,
+  LEAFLET_DIST_URL,
+  MAP_TILE_ATTRIBUTIONS,
+  MAP_TILE_MAX_ZOOM,
+  MAP_TILE_DOWNLOAD_URLS,
+  countTilesInBounds,
+  formatTileUrl,
+  getTilePath,
+  getTilesInBounds,
+} from './mapTileUtils';
+import { MapTileResources, OfflineMapArea, OfflineMapAreaRequest, TileCoordinate } from '@/types/MapTiles';
+
+/**
+ * Configuration for map tile caching
+ */
+export interface MapTileCacheConfig {
+  maxCacheSize?: number; // Maximum cache size in MB
+  maxTilesPerArea?: number; // Maximum number of tiles in one downloaded area
+  cacheDirectory?: string; // Custom cache directory name
+}
+
+/**
+ * Default configuration for map tile caching
+ */
+const DEFAULT_CONFIG: Required<MapTileCacheConfig> = {
+  maxCacheSize: 200, // 200 MB
+  maxTilesPerArea: 3000,
+  cacheDirectory: 'MapTiles',
+};
+
+// Kept within the limits tile servers commonly set for bulk downloads: at most two
+// connections, with a pause between requests
+const DOWNLOAD_BATCH_SIZE = 2;
+const DOWNLOAD_BATCH_INTERVAL_MS = 500;
+
+// Tile servers ask clients to identify themselves
+const DOWNLOAD_HEADERS = { 'User-Agent': 'GOPR UAV Ops Manager' };
+
+/**
+ * Map tiles of chosen areas stored on the device, so the embedded maps work without coverage
+ * Tiles go to the document directory, which the system doesn't purge, and are read by the
+ * map WebView as local files - hence mobile only
+ */
+export class MapTileCacheService {
+  private static readonly AREAS_KEY = 'cached_map_areas';
+  private static readonly TILE_INDEX_KEY = 'cached_map_tiles'; // tile path -> size in bytes
+  private static config: Required<MapTileCacheConfig> = DEFAULT_CONFIG;
+  private static cacheDirectory: string = '';
+  private static isInitialized: boolean = false;
+
+  /**
+   * Whether offline map tiles can be used on this platform
+   */
+  static isSupported(): boolean {
+    return Platform.OS !== 'web';
+  }
+
+  /**
+   * Initialize the map tile cache
+   */
+  static async initialize(config: MapTileCacheConfig = {}): Promise<void> {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+
+    if (!FileSystem.documentDirectory) {
+      throw new Error('Document directory not available');
+    }
+
+    this.cacheDirectory = `${FileSystem.documentDirectory}${this.config.cacheDirectory}/`;
+
+    const dirInfo = await FileSystem.getInfoAsync(this.cacheDirectory);
+    if (!dirInfo.exists) {
+      await FileSystem.makeDirectoryAsync(this.cacheDirectory, { intermediates: true });
+    }
+
+    this.isInitialized = true;
+  }
+
+  /**
+   * Size limits of the cache, for showing next to a download
+   */
+  static getLimits(): { maxCacheSize: number; maxTilesPerArea: number } {
+    return {
+      maxCacheSize: this.config.maxCacheSize * 1024 * 1024,
+      maxTilesPerArea: this.config.maxTilesPerArea,
+    };
+  }
+
+  /**
+   * Number of tiles and approximate size of an area before downloading it
+   */
+  static estimateArea(request: OfflineMapAreaRequest): { tileCount: number; estimatedSize: number } {
+    const bounds = CoordinateUtils.createBounds(request.center, request.radiusKm);
+    const maxZoom = Math.min(request.maxZoom, MAP_TILE_MAX_ZOOM[request.source]);
+    const tileCount = countTilesInBounds(bounds, request.minZoom, maxZoom);
+
+    return { tileCount, estimatedSize: tileCount * AVERAGE_TILE_SIZE_BYTES };
+  }
+
+  /**
+   * Download the tiles of an area, skipping tiles already stored for another area
+   * Nothing is kept if the download fails or the cache fills up part way
+   */
+  static async downloadArea(
+    request: OfflineMapAreaRequest,
+    onProgress?: (completed: number, total: number) => void
+  ): Promise<OfflineMapArea> {
+    if (!this.isSupported()) {
+      throw new Error('Offline maps are not supported on this platform');
+    }
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+
+    const tileUrlTemplate = MAP_TILE_DOWNLOAD_URLS[request.source];
+    if (!tileUrlTemplate) {
+      throw new Error('No tile server is configured for offline download of this map');
+    }
+
+    const maxZoom = Math.min(request.maxZoom, MAP_TILE_MAX_ZOOM[request.source]);
+    if (request.minZoom > maxZoom) {
+      throw new Error('Invalid zoom range');
+    }
+
+    const bounds = CoordinateUtils.createBounds(request.center, request.radiusKm);
+    const tiles = getTilesInBounds(bounds, request.minZoom, maxZoom);
+    if (tiles.length > this.config.maxTilesPerArea) {
+      throw new Error(`Area has ${tiles.length} tiles, more than the limit of ${this.config.maxTilesPerArea}`);
+    }
+
+    const index = await this.getTileIndex();
+    const maxBytes = this.config.maxCacheSize * 1024 * 1024;
+    let cacheSize = Object.values(index).reduce((sum, size) => sum + size, 0);
+    const newTiles = tiles.filter(tile => index[getTilePath(request.source, tile)] === undefined);
+
+    if (cacheSize + newTiles.length * AVERAGE_TILE_SIZE_BYTES > maxBytes) {
+      throw new Error('Not enough space in the map tile cache for this area');
+    }
+
+    await this.downloadLeafletAssets();
+
+    const downloadedPaths: string[] = [];
+    let failedCount = 0;
+    try {
+      for (let i = 0; i < newTiles.length; i += DOWNLOAD_BATCH_SIZE) {
+        if (i > 0) {
+          await new Promise(resolve => setTimeout(resolve, DOWNLOAD_BATCH_INTERVAL_MS));
+        }
+        const batch = newTiles.slice(i, i + DOWNLOAD_BATCH_SIZE);
+        await Promise.all(
+          batch.map(async tile => {
+            const path = getTilePath(request.source, tile);
+            try {
+              const size = await this.downloadTile(formatTileUrl(tileUrlTemplate, tile), path, tile);
+              index[path] = size;
+              cacheSize += size;
+              downloadedPaths.push(path);
+            } catch (error) {
+              // A missing tile only leaves a gap in the map
+              console.warn(`[MapTileCache] Failed to download tile ${path}:`, error);
+              failedCount++;
+            }
+          })
+        );
+
+        if (cacheSize > maxBytes) {
+          throw new Error('Map tile cache is full');
+        }
+        onProgress?.(tiles.length - newTiles.length + i + batch.length, tiles.length);
+      }
+
+      if (newTiles.length > 0 && failedCount === newTiles.length) {
+        throw new Error('Failed to download map tiles');
+      }
+    } catch (error) {
+      await Promise.all(
+        downloadedPaths.map(path => FileSystem.deleteAsync(`${this.cacheDirectory}${path}`, { idempotent: true }))
+      );
+      throw error;
+    }
+
+    const area: OfflineMapArea = {
+      ...request,
+      id: `${Date.now()}`,
+      maxZoom,
+      bounds,
+      tileCount: tiles.length,
+      downloadedAt: Date.now(),
+    };
+
+    const areas = await this.getAreas();
+    await AsyncStorage.setItem(this.AREAS_KEY, JSON.stringify([...areas, area]));
+    await AsyncStorage.setItem(this.TILE_INDEX_KEY, JSON.stringify(index));
+    console.log(`[MapTileCache] Downloaded area with ${tiles.length} tiles (${failedCount} failed)`);
+
+    return area;
+  }
+
+  /**
+   * Downloaded areas, oldest first
+   */
+  static async getAreas(): Promise<OfflineMapArea[]> {
+    try {
+      const areasString = await AsyncStorage.getItem(this.AREAS_KEY);
+      return areasString ? JSON.parse(areasString) : [];
+    } catch (error) {
+      console.error('[MapTileCache] Error reading downloaded areas:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Remove an area, deleting its tiles unless another area still uses them
+   */
+  static async deleteArea(id: string): Promise<void> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+
+    const remainingAreas = (await this.getAreas()).filter(area => area.id !== id);
+    const keptPaths = new Set<string>();
+    remainingAreas.forEach(area => {
+      getTilesInBounds(area.bounds, area.minZoom, area.maxZoom)
+        .forEach(tile => keptPaths.add(getTilePath(area.source, tile)));
+    });
+
+    const index = await this.getTileIndex();
+    const removedPaths = Object.keys(index).filter(path => !keptPaths.has(path));
+    for (const path of removedPaths) {
+      await FileSystem.deleteAsync(`${this.cacheDirectory}${path}`, { idempotent: true });
+      delete index[path];
+    }
+
+    await AsyncStorage.setItem(this.AREAS_KEY, JSON.stringify(remainingAreas));
+    await AsyncStorage.setItem(this.TILE_INDEX_KEY, JSON.stringify(index));
+  }
+
+  /**
+   * Get map tile cache statistics
+   */
+  static async getCacheStats(): Promise<{ size: number; tileCount: number; areaCount: number }> {
+    const [index, areas] = await Promise.all([this.getTileIndex(), this.getAreas()]);
+    const sizes = Object.values(index);
+
+    return {
+      size: sizes.reduce((sum, size) => sum + size, 0),
+      tileCount: sizes.length,
+      areaCount: areas.length,
+    };
+  }
+
+  /**
+   * Remove all downloaded areas and tiles
+   */
+  static async clearCache(): Promise<void> {
+    try {
+      if (!this.isInitialized) {
+        await this.initialize();
+      }
+      await FileSystem.deleteAsync(this.cacheDirectory, { idempotent: true });
+      await AsyncStorage.removeItem(this.AREAS_KEY);
+      await AsyncStorage.removeItem(this.TILE_INDEX_KEY);
+      this.isInitialized = false;
+    } catch (error) {
+      console.error('[MapTileCache] Error clearing cache:', error);
+    }
+  }
+
+  /**
+   * Local resources for the embedded maps, or null when no area is downloaded
+   * Uses the tile source of the latest downloaded area
+   */
+  static async getOfflineResources(): Promise<MapTileResources | null> {
+    if (!this.isSupported()) {
+      return null;
+    }
+
+    const areas = await this.getAreas();
+    if (areas.length === 0) {
+      return null;
+    }
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+
+    const { source } = areas[areas.length - 1];
+    const sourceAreas = areas.filter(area => area.source === source);
+
+    return {
+      leafletScriptUrl: `${this.cacheDirectory}leaflet.js`,
+      leafletStylesheetUrl: `${this.cacheDirectory}leaflet.css`,
+      tileUrlTemplate: `${this.cacheDirectory}${source}/{z}/{x}/{y}.png`,
+      attribution: MAP_TILE_ATTRIBUTIONS[source],
+      maxNativeZoom: Math.max(...sourceAreas.map(area => area.maxZoom)),
+      baseUrl: this.cacheDirectory,
+    };
+  }
+
+  /**
+   * Get the index of stored tiles
+   */
+  private static async getTileIndex(): Promise<Record<string, number>> {
+    try {
+      const indexString = await AsyncStorage.getItem(this.TILE_INDEX_KEY);
+      return indexString ? JSON.parse(indexString) : {};
+    } catch (error) {
+      console.error('[MapTileCache] Error reading tile index:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Download a tile and return its size
+   */
+  private static async downloadTile(url: string, path: string, tile: TileCoordinate): Promise<number> {
+    const localPath = `${this.cacheDirectory}${path}`;
+    await FileSystem.makeDirectoryAsync(
+      `${this.cacheDirectory}${path.slice(0, path.lastIndexOf('/'))}`,
+      { intermediates: true }
+    );
+
+    const downloadResult = await FileSystem.downloadAsync(url, localPath, { headers: DOWNLOAD_HEADERS });
+    if (downloadResult.status !== 200) {
+      await FileSystem.deleteAsync(localPath, { idempotent: true });
+      throw new Error(`Download of tile ${tile.z}/${tile.x}/${tile.y} failed with status ${downloadResult.status}`);
+    }
+
+    const fileInfo = await FileSystem.getInfoAsync(localPath);
+    return (fileInfo.exists && 'size' in fileInfo) ? fileInfo.size || 0 : 0;
+  }
+
+  /**
+   * Store the Leaflet files next to the tiles, since the map pages load them from the network too
+   */
+  private static async downloadLeafletAssets(): Promise<void> {
+    await FileSystem.makeDirectoryAsync(`${this.cacheDirectory}images`, { intermediates: true });
+
+    for (const file of LEAFLET_ASSET_FILES) {
+      const localPath = `${this.cacheDirectory}${file}`;
+      const fileInfo = await FileSystem.getInfoAsync(localPath);
+      if (fileInfo.exists) {
+        continue;
+      }
+
+      const downloadResult = await FileSystem.downloadAsync(`${LEAFLET_DIST_URL}${file}`, localPath);
+      if (downloadResult.status !== 200) {
+        await FileSystem.deleteAsync(localPath, { idempotent: true });
+        throw new Error(`Failed to download ${file}`);
+      }
+    }
+  }
+}
@@ -0,0 +1,143 @@
+import { CoordinatesBounds } from './coordinateUtils';
+import { MapTileResources, MapTileSource, TileCoordinate } from '@/types/MapTiles';
+
+// Tile servers areas are downloaded from for offline use. The public OpenStreetMap and
+// OpenTopoMap servers are for interactive viewing only and forbid bulk downloads, so a
+// source can only be downloaded once a server allowing it (self-hosted or a keyed plan
+// of a tile provider) is configured for it
+export const MAP_TILE_DOWNLOAD_URLS: Partial<Record<MapTileSource, string>> = {
+  osm: process.env.EXPO_PUBLIC_OFFLINE_TILES_OSM_URL || undefined,
+  topo: process.env.EXPO_PUBLIC_OFFLINE_TILES_TOPO_URL || undefined,
+};
+
+export const MAP_TILE_ATTRIBUTIONS: Record<MapTileSource, string> = {
+  osm: '© OpenStreetMap contributors',
+  topo: '© OpenStreetMap contributors, SRTM | © OpenTopoMap (CC-BY-SA)',
+};
+
+// Deepest zoom the tile servers provide
+export const MAP_TILE_MAX_ZOOM: Record<MapTileSource, number> = {
+  osm: 19,
+  topo: 17,
+};
+
+// Typical size of a mountain area tile, for estimating a download before it starts
+export const AVERAGE_TILE_SIZE_BYTES = 25 * 1024;
+
+export const LEAFLET_DIST_URL = 'https://unpkg.com/leaflet@1.9.4/dist/';
+
+// Leaflet files a map page needs, relative to the dist directory (the stylesheet points to the marker images)
+export const LEAFLET_ASSET_FILES = [
+  'leaflet.js',
+  'leaflet.css',
+  'images/marker-icon.png',
+  'images/marker-icon-2x.png',
+  'images/marker-shadow.png',
+];
+
+/**
+ * Network resources used by the embedded maps while online
+ */
+export const ONLINE_MAP_RESOURCES: MapTileResources = {
+  leafletScriptUrl: `${LEAFLET_DIST_URL}leaflet.js`,
+  leafletStylesheetUrl: `${LEAFLET_DIST_URL}leaflet.css`,
+  leafletScriptIntegrity: 'sha256-20nQCchB9co0qIjJZRGuk2/Z9VM+kNiyxNV1lvTlZBo=',
+  leafletStylesheetIntegrity: 'sha256-p4NxAoJBhIIN+hmNHrzRCf9tD/miZyoHS5obTRR9BMY=',
+  tileUrlTemplate: 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png',
+  attribution: MAP_TILE_ATTRIBUTIONS.osm,
+};
+
+/**
+ * Whether a server is configured for downloading the tile source for offline use
+ */
+export function isTileSourceDownloadable(source: MapTileSource): boolean {
+  return !!MAP_TILE_DOWNLOAD_URLS[source];
+}
+
+/**
+ * Column of the tile containing the longitude
+ */
+export function longitudeToTileX(longitude: number, zoom: number): number {
+  const tileCount = Math.pow(2, zoom);
+  const x = Math.floor(((longitude + 180) / 360) * tileCount);
+  return Math.min(Math.max(x, 0), tileCount - 1);
+}
+
+/**
+ * Row of the tile containing the latitude (Web Mercator, row 0 at the north)
+ */
+export function latitudeToTileY(latitude: number, zoom: number): number {
+  const tileCount = Math.pow(2, zoom);
+  const latRad = (latitude * Math.PI) / 180;
+  const y = Math.floor(((1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2) * tileCount);
+  return Math.min(Math.max(y, 0), tileCount - 1);
+}
+
+function getTileRange(bounds: CoordinatesBounds, zoom: number) {
+  return {
+    minX: longitudeToTileX(bounds.southWest.longitude, zoom),
+    maxX: longitudeToTileX(bounds.northEast.longitude, zoom),
+    minY: latitudeToTileY(bounds.northEast.latitude, zoom),
+    maxY: latitudeToTileY(bounds.southWest.latitude, zoom),
+  };
+}
+
+/**
+ * Number of tiles covering the bounds at each zoom of the range
+ */
+export function countTilesInBounds(bounds: CoordinatesBounds, minZoom: number, maxZoom: number): number {
+  let count = 0;
+  for (let zoom = minZoom; zoom <= maxZoom; zoom++) {
+    const { minX, maxX, minY, maxY } = getTileRange(bounds, zoom);
+    count += (maxX - minX + 1) * (maxY - minY + 1);
+  }
+  return count;
+}
+
+/**
+ * Tiles covering the bounds at each zoom of the range, lowest zoom first
+ */
+export function getTilesInBounds(bounds: CoordinatesBounds, minZoom: number, maxZoom: number): TileCoordinate[] {
+  const tiles: TileCoordinate[] = [];
+  for (let zoom = minZoom; zoom <= maxZoom; zoom++) {
+    const { minX, maxX, minY, maxY } = getTileRange(bounds, zoom);
+    for (let x = minX; x <= maxX; x++) {
+      for (let y = minY; y <= maxY; y++) {
+        tiles.push({ x, y, z: zoom });
+      }
+    }
+  }
+  return tiles;
+}
+
+/**
+ * Fill a {z}/{x}/{y} URL template with a tile address
+ */
+export function formatTileUrl(template: string, tile: TileCoordinate): string {
+  return template
+    .replace('{z}', String(tile.z))
+    .replace('{x}', String(tile.x))
+    .replace('{y}', String(tile.y));
+}
+
+/**
+ * Path of a tile inside the tile cache directory
+ */
+export function getTilePath(source: MapTileSource, tile: TileCoordinate): string {
+  return formatTileUrl(`${source}/{z}/{x}/{y}.png`, tile);
+}
+
+/**
+ * Leaflet stylesheet and script tags for a map page
+ */
+export function getLeafletTags(resources: MapTileResources): string {
+  const stylesheetIntegrity = resources.leafletStylesheetIntegrity
+    ? ` integrity="${resources.leafletStylesheetIntegrity}" crossorigin=""`
+    : '';
+  const scriptIntegrity = resources.leafletScriptIntegrity
+    ? ` integrity="${resources.leafletScriptIntegrity}" crossorigin=""`
+    : '';
+
+  return `<link rel="stylesheet" href="${resources.leafletStylesheetUrl}"${stylesheetIntegrity}/>
+      <script src="${resources.leafletScriptUrl}"${scriptIntegrity}></script>`;
+}
@@ -0,0 +1,74 @@
+import { Mission, MissionFlight, MissionOutcome, MissionSummary, MissionTimelineEvent, MissionTimelineEventType } from '@/types/Mission';
+import { calculateFlightDurationMinutes } from '@/src/utils/flightUtils';
+
+// Badge colors for mission outcomes
+export const MISSION_OUTCOME_COLORS: Record<MissionOutcome, string> = {
+  ongoing: '#FF9800',
+  found_alive: '#4CAF50',
+  found_deceased: '#616161',
+  not_found: '#d32f2f',
+  cancelled: '#9E9E9E',
+  other: '#0066CC',
+};
+
+// Order of events sharing the same timestamp (a flight ending as the next one starts)
+const EVENT_ORDER: Record<MissionTimelineEventType, number> = {
+  missionStart: 0,
+  flightEnd: 1,
+  flightStart: 2,
+  missionEnd: 3,
+};
+
+/**
+ * Combined air time of the given flights in whole minutes
+ */
+export function calculateMissionAirTime(flights: MissionFlight[]): number {
+  return flights.reduce((total, flight) => total + calculateFlightDurationMinutes(flight.startTime, flight.endTime), 0);
+}
+
+/**
+ * Summarize the flights of a mission: flight count, total air time, pilots and drones involved
+ */
+export function summarizeMissionFlights(flights: MissionFlight[]): MissionSummary {
+  const pilots = new Set<string>();
+  const droneNames = new Set<string>();
+
+  flights.forEach(flight => {
+    pilots.add(flight.userEmail || flight.userId);
+    droneNames.add(flight.droneName || flight.droneId);
+  });
+
+  return {
+    flightCount: flights.length,
+    totalMinutes: calculateMissionAirTime(flights),
+    pilots: [...pilots].sort(),
+    droneNames: [...droneNames].sort(),
+  };
+}
+
+/**
+ * Build the combined mission timeline: mission start/end and the takeoff and landing of every flight,
+ * in chronological order
+ */
+export function buildMissionTimeline(mission: Mission, flights: MissionFlight[]): MissionTimelineEvent[] {
+  const events: MissionTimelineEvent[] = [{ time: mission.startTime, type: 'missionStart' }];
+
+  flights.forEach(flight => {
+    const details = { flightId: flight.id, pilot: flight.userEmail, droneName: flight.droneName };
+    if (flight.startTime) {
+      events.push({ time: flight.startTime, type: 'flightStart', ...details });
+    }
+    if (flight.endTime) {
+      events.push({ time: flight.endTime, type: 'flightEnd', ...details });
+    }
+  });
+
+  if (mission.endTime) {
+    events.push({ time: mission.endTime, type: 'missionEnd' });
+  }
+
+  return events.sort((a, b) => {
+    const diff = new Date(a.time).getTime() - new Date(b.time).getTime();
+    return diff !== 0 ? diff : EVENT_ORDER[a.type] - EVENT_ORDER[b.type];
+  });
+}
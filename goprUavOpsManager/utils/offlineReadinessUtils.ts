@@ -0,0 +1,29 @@
+import { OfflineDatasetStatus, OfflineReadinessLevel } from '@/types/OfflineReadiness';
+
+// Data older than this is still used offline, but may miss changes made since
+export const OFFLINE_DATA_MAX_AGE_HOURS = 24;
+
+/**
+ * Whether a downloaded dataset is older than the maximum age (never downloaded counts as stale)
+ */
+export function isDatasetStale(status: OfflineDatasetStatus, now: Date = new Date()): boolean {
+  if (!status.lastUpdated) {
+    return true;
+  }
+  return now.getTime() - status.lastUpdated.getTime() > OFFLINE_DATA_MAX_AGE_HOURS * 60 * 60 * 1000;
+}
+
+/**
+ * Overall readiness of the device for working offline
+ */
+export function getOfflineReadiness(statuses: OfflineDatasetStatus[], now: Date = new Date()): OfflineReadinessLevel {
+  const downloaded = statuses.filter(status => status.lastUpdated);
+
+  if (downloaded.length === 0) {
+    return 'none';
+  }
+  if (downloaded.length < statuses.length) {
+    return 'partial';
+  }
+  return statuses.some(status => isDatasetStale(status, now)) ? 'stale' : 'ready';
+}
@@ -0,0 +1,48 @@
+import { Flight } from '@/types/Flight';
+import { Task } from '@/types/Task';
+
+const KEY_CHARACTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+const KEY_LENGTH = 20;
+
+/**
+ * Random idempotency key for an outbox mutation, in the same form as a Firestore
+ * auto-generated id since it becomes the id of the created document
+ */
+export function generateIdempotencyKey(): string {
+  let key = '';
+  for (let i = 0; i < KEY_LENGTH; i++) {
+    key += KEY_CHARACTERS.charAt(Math.floor(Math.random() * KEY_CHARACTERS.length));
+  }
+  return key;
+}
+
+/**
+ * First flight whose time overlaps the given one (flights touching at the ends don't overlap)
+ */
+export function findOverlappingFlight(
+  flight: Pick<Flight, 'startTime' | 'endTime'>,
+  flights: Flight[]
+): Flight | undefined {
+  const start = new Date(flight.startTime).getTime();
+  const end = new Date(flight.endTime).getTime();
+  if (isNaN(start) || isNaN(end)) {
+    return undefined;
+  }
+
+  return flights.find(other => {
+    const otherStart = new Date(other.startTime).getTime();
+    const otherEnd = new Date(other.endTime).getTime();
+    return otherStart < end && otherEnd > start;
+  });
+}
+
+/**
+ * Whether a task was changed on the server after the given time. Updates made without
+ * knowing the task's last change are never treated as conflicting.
+ */
+export function isTaskChangedSince(task: Pick<Task, 'updatedAt'>, baseUpdatedAt?: Date): boolean {
+  if (!baseUpdatedAt || !task.updatedAt) {
+    return false;
+  }
+  return task.updatedAt.getTime() > baseUpdatedAt.getTime();
+}
@@ -0,0 +1,116 @@
+import { ChecklistSubItem, ProcedureChecklist } from '@/types/ProcedureChecklist';
+import { Flight } from '@/types/Flight';
+import {
+  ProcedureExecution,
+  ProcedureExecutionItemResult,
+  ProcedureExecutionStatus,
+  ProcedureExecutionSubItemResult,
+} from '@/types/ProcedureExecution';
+import { isControlValueOutOfRange } from './controlValueUtils';
+
+// How long before a flight ended a run can still be linked to it
+const LINK_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export interface ProcedureExecutionResults {
+  items: ProcedureExecutionItemResult[];
+  subItems: ProcedureExecutionSubItemResult[];
+  status: ProcedureExecutionStatus;
+  overrideNote?: string; // set by the operator when finishing with out-of-range values
+}
+
+function buildSubItemResults(
+  subItems: ChecklistSubItem[],
+  itemId: string,
+  parentSubItemId: string | undefined,
+  completedSubItems: Set<string>,
+  controlValues: Record<string, string>
+): ProcedureExecutionSubItemResult[] {
+  return subItems.flatMap(subItem => {
+    const isControl = subItem.type === 'control';
+    const value = isControl ? controlValues[subItem.id]?.trim() : undefined;
+
+    const result: ProcedureExecutionSubItemResult = {
+      subItemId: subItem.id,
+      itemId,
+      parentSubItemId,
+      topic: subItem.topic,
+      completed: completedSubItems.has(subItem.id),
+      control: isControl ? subItem.control : undefined,
+      requiredState: isControl ? subItem.requiredState : undefined,
+      value: value || undefined,
+      valueType: isControl && subItem.valueType !== 'text' ? subItem.valueType : undefined,
+      unit: isControl && subItem.valueType === 'numeric' ? subItem.unit : undefined,
+      outOfRange: isControl && isControlValueOutOfRange(subItem, value) ? true : undefined,
+    };
+
+    return [
+      result,
+      ...buildSubItemResults(subItem.subItems || [], itemId, subItem.id, completedSubItems, controlValues),
+    ];
+  });
+}
+
+/**
+ * Turn the execute screen state into per-item and per-sub-item results for every
+ * item of the procedure, in checklist order
+ */
+export function buildProcedureExecutionResults(
+  procedure: ProcedureChecklist,
+  completedItems: Set<string>,
+  completedSubItems: Set<string>,
+  controlValues: Record<string, string> = {}
+): ProcedureExecutionResults {
+  const sortedItems = [...procedure.items].sort((a, b) => a.number - b.number);
+
+  const items = sortedItems.map(item => ({
+    itemId: item.id,
+    number: item.number,
+    topic: item.topic,
+    completed: completedItems.has(item.id),
+  }));
+
+  const subItems = sortedItems.flatMap(item =>
+    buildSubItemResults(item.subItems || [], item.id, undefined, completedSubItems, controlValues)
+  );
+
+  return {
+    items,
+    subItems,
+    status: items.length > 0 && items.every(item => item.completed) ? 'completed' : 'incomplete',
+  };
+}
+
+/**
+ * Control sub-items of a run, with the values recorded for them
+ */
+export function getControlResults(subItems: ProcedureExecutionSubItemResult[]): ProcedureExecutionSubItemResult[] {
+  return subItems.filter(subItem => subItem.control !== undefined || subItem.value !== undefined);
+}
+
+/**
+ * Control sub-items of a run whose recorded value is out of range
+ */
+export function getOutOfRangeResults(subItems: ProcedureExecutionSubItemResult[]): ProcedureExecutionSubItemResult[] {
+  return subItems.filter(subItem => subItem.outOfRange);
+}
+
+/**
+ * Whether an unlinked run can be attached to a flight: same drone, started within a day
+ * before the flight ended (a pre-flight checklist is usually done before the flight is logged)
+ */
+export function isExecutionLinkableToFlight(
+  execution: Pick<ProcedureExecution, 'droneId' | 'flightId' | 'startedAt'>,
+  flight: Pick<Flight, 'droneId' | 'endTime'>
+): boolean {
+  if (execution.flightId || !execution.droneId || execution.droneId !== flight.droneId) {
+    return false;
+  }
+
+  const flightEnd = new Date(flight.endTime).getTime();
+  if (isNaN(flightEnd)) {
+    return false;
+  }
+
+  const startedAt = execution.startedAt.getTime();
+  return startedAt <= flightEnd && startedAt >= flightEnd - LINK_WINDOW_MS;
+}
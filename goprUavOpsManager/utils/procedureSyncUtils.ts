@@ -0,0 +1,79 @@
+import { ChecklistSubItem, ProcedureChecklist, ProcedureChecklistChanges } from '@/types/ProcedureChecklist';
+
+/**
+ * Apply a delta sync to cached procedures. Deletions are applied before updates,
+ * so a procedure deleted and then restored since the last sync stays in the cache.
+ * The result keeps the newest-first order of a full download.
+ */
+export function applyProcedureChanges(
+  cached: ProcedureChecklist[],
+  changes: ProcedureChecklistChanges
+): ProcedureChecklist[] {
+  const byId = new Map(cached.map(procedure => [procedure.id, procedure]));
+
+  changes.deleted.forEach(tombstone => byId.delete(tombstone.procedureId));
+  changes.changed.forEach(procedure => byId.set(procedure.id, procedure));
+
+  return Array.from(byId.values()).sort(
+    (a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0)
+  );
+}
+
+/**
+ * Latest change time seen in a sync, where the next delta sync continues from
+ */
+export function getSyncCursor(
+  changes: ProcedureChecklistChanges,
+  previousCursor: number | null = null
+): number | null {
+  const times = [
+    ...changes.changed.map(procedure => procedure.updatedAt?.getTime()),
+    ...changes.deleted.map(tombstone => tombstone.deletedAt?.getTime()),
+  ].filter((time): time is number => typeof time === 'number' && !isNaN(time));
+
+  if (previousCursor !== null) {
+    times.push(previousCursor);
+  }
+
+  return times.length > 0 ? Math.max(...times) : null;
+}
+
+function collectSubItemImageUrls(subItems: ChecklistSubItem[], imageUrls: Set<string>): void {
+  subItems.forEach(subItem => {
+    if (subItem.image && !subItem.image.startsWith('blob:')) {
+      imageUrls.add(subItem.image);
+    }
+    if (subItem.subItems) {
+      collectSubItemImageUrls(subItem.subItems, imageUrls);
+    }
+  });
+}
+
+/**
+ * All downloadable image URLs of procedure items and their sub-items
+ */
+export function getProcedureImageUrls(procedures: ProcedureChecklist[]): string[] {
+  const imageUrls = new Set<string>();
+
+  procedures.forEach(procedure => {
+    procedure.items.forEach(item => {
+      if (item.image && !item.image.startsWith('blob:')) {
+        imageUrls.add(item.image);
+      }
+      if (item.subItems) {
+        collectSubItemImageUrls(item.subItems, imageUrls);
+      }
+    });
+  });
+
+  return Array.from(imageUrls);
+}
+
+/**
+ * Image URLs of changed procedures that weren't in the cache before.
+ * A replaced image is uploaded under a new URL, so this also covers changed images.
+ */
+export function getNewImageUrls(cached: ProcedureChecklist[], changed: ProcedureChecklist[]): string[] {
+  const cachedUrls = new Set(getProcedureImageUrls(cached));
+  return getProcedureImageUrls(changed).filter(url => !cachedUrls.has(url));
+}
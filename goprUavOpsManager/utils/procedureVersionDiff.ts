@@ -0,0 +1,93 @@
+import { ChecklistItem, ChecklistSubItem, ProcedureVersion } from '@/types/ProcedureChecklist';
+import { Change, deepDiff } from './deepDiff';
+
+export type ProcedureNodeChangeKind = 'added' | 'removed' | 'changed' | 'moved';
+
+// Change to one checklist item or sub-item, with the changes to its own sub-items
+export interface ProcedureNodeDiff {
+  id: string;
+  kind: ProcedureNodeChangeKind;
+  topic: string; // topic in the newer version (older one for removed nodes)
+  changes: Change[]; // field changes, paths relative to the node
+  subItems: ProcedureNodeDiff[];
+}
+
+export interface ProcedureVersionDiff {
+  changes: Change[]; // title, description and categories
+  items: ProcedureNodeDiff[];
+}
+
+type ChecklistNode = ChecklistItem | ChecklistSubItem;
+
+// Fields compared on the procedure itself; items are compared node by node
+const PROCEDURE_FIELDS = ['title', 'description', 'categories'] as const;
+
+function withoutSubItems(node: ChecklistNode): Record<string, unknown> {
+  const { subItems, ...fields } = node;
+  return fields;
+}
+
+function diffNodes(previous: ChecklistNode[], current: ChecklistNode[]): ProcedureNodeDiff[] {
+  const previousById = new Map(previous.map((node, index) => [node.id, { node, index }]));
+  const currentIds = new Set(current.map(node => node.id));
+  const diffs: ProcedureNodeDiff[] = [];
+
+  current.forEach((node, index) => {
+    const match = previousById.get(node.id);
+    if (!match) {
+      diffs.push({ id: node.id, kind: 'added', topic: node.topic, changes: [], subItems: [] });
+      return;
+    }
+
+    const changes = deepDiff(withoutSubItems(match.node), withoutSubItems(node));
+    const subItems = diffNodes(match.node.subItems || [], node.subItems || []);
+    if (changes.length > 0 || subItems.length > 0) {
+      diffs.push({ id: node.id, kind: 'changed', topic: node.topic, changes, subItems });
+    } else if (match.index !== index) {
+      diffs.push({ id: node.id, kind: 'moved', topic: node.topic, changes: [], subItems: [] });
+    }
+  });
+
+  previous
+    .filter(node => !currentIds.has(node.id))
+    .forEach(node => {
+      diffs.push({ id: node.id, kind: 'removed', topic: node.topic, changes: [], subItems: [] });
+    });
+
+  return diffs;
+}
+
+const sortByNumber = (items: ChecklistItem[]): ChecklistItem[] =>
+  [...items].sort((a, b) => a.number - b.number);
+
+/**
+ * Compare two versions of a procedure item by item. Items and sub-items are matched
+ * by id at each level, so a sub-item moved under another parent shows as removed and added.
+ * Top-level items are compared in number order, a renumbering shows as a 'number' change.
+ */
+export function diffProcedureVersions(
+  previous: Pick<ProcedureVersion, typeof PROCEDURE_FIELDS[number] | 'items'>,
+  current: Pick<ProcedureVersion, typeof PROCEDURE_FIELDS[number] | 'items'>
+): ProcedureVersionDiff {
+  const changes = PROCEDURE_FIELDS.flatMap(field =>
+    deepDiff(previous[field] || undefined, current[field] || undefined, field)
+  );
+
+  return {
+    changes,
+    items: diffNodes(sortByNumber(previous.items), sortByNumber(current.items)),
+  };
+}
+
+/**
+ * Number of changes in a diff: procedure fields plus added, removed, moved or edited
+ * items and sub-items (a parent changed only through its sub-items is not counted)
+ */
+export function countProcedureChanges(diff: ProcedureVersionDiff): number {
+  const countNodes = (nodes: ProcedureNodeDiff[]): number =>
+    nodes.reduce((total, node) => {
+      const ownChange = node.kind !== 'changed' || node.changes.length > 0 ? 1 : 0;
+      return total + ownChange + countNodes(node.subItems);
+    }, 0);
+  return diff.changes.length + countNodes(diff.items);
+}
@@ -0,0 +1,83 @@
+import { BLOCKING_RESERVATION_STATUSES, DroneReservation, DroneReservationStatus } from '@/types/DroneReservation';
+
+// Badge colors for reservation statuses in the calendar
+export const RESERVATION_STATUS_COLORS: Record<DroneReservationStatus, string> = {
+  scheduled: '#0066CC',
+  started: '#4CAF50',
+  cancelled: '#9E9E9E',
+  bumped: '#FF9800',
+  missed: '#d32f2f',
+};
+
+/**
+ * Check whether two time windows overlap; windows that only touch do not overlap
+ */
+export function windowsOverlap(aStart: Date, aEnd: Date, bStart: Date, bEnd: Date): boolean {
+  return aStart.getTime() < bEnd.getTime() && bStart.getTime() < aEnd.getTime();
+}
+
+/**
+ * Reservations that still hold their slot and overlap the given window
+ */
+export function findOverlappingReservations(
+  reservations: DroneReservation[],
+  start: Date,
+  end: Date,
+  excludeId?: string
+): DroneReservation[] {
+  return reservations.filter(reservation =>
+    reservation.id !== excludeId &&
+    BLOCKING_RESERVATION_STATUSES.includes(reservation.status) &&
+    windowsOverlap(reservation.startTime, reservation.endTime, start, end)
+  );
+}
+
+/**
+ * Monday 00:00 (local time) of the week containing the date
+ */
+export function getWeekStart(date: Date): Date {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  const daysSinceMonday = (start.getDay() + 6) % 7;
+  start.setDate(start.getDate() - daysSinceMonday);
+  return start;
+}
+
+/**
+ * The seven days of a week, each at local midnight
+ */
+export function getWeekDays(weekStart: Date): Date[] {
+  return Array.from({ length: 7 }, (_, index) =>
+    new Date(weekStart.getFullYear(), weekStart.getMonth(), weekStart.getDate() + index)
+  );
+}
+
+/**
+ * Reservations touching a calendar day, ordered by start time
+ */
+export function getReservationsForDay(reservations: DroneReservation[], day: Date): DroneReservation[] {
+  const dayStart = new Date(day.getFullYear(), day.getMonth(), day.getDate());
+  const dayEnd = new Date(dayStart.getFullYear(), dayStart.getMonth(), dayStart.getDate() + 1);
+
+  return reservations
+    .filter(reservation => windowsOverlap(reservation.startTime, reservation.endTime, dayStart, dayEnd))
+    .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+}
+
+/**
+ * Whether a reservation window covers the given moment
+ */
+export function isReservationInProgress(reservation: DroneReservation, now: Date = new Date()): boolean {
+  return reservation.startTime <= now && now < reservation.endTime;
+}
+
+/**
+ * Human-readable window, e.g. "6.01.2025 08:00 – 12:00" or "6.01.2025 20:00 – 7.01.2025 06:00"
+ */
+export function formatReservationWindow(start: Date, end: Date): string {
+  const time = (date: Date) => date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  const sameDay = start.toDateString() === end.toDateString();
+
+  return sameDay
+    ? `${start.toLocaleDateString()} ${time(start)} – ${time(end)}`
+    : `${start.toLocaleDateString()} ${time(start)} – ${end.toLocaleDateString()} ${time(end)}`;
+}
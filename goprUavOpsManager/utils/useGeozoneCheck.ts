@@ -0,0 +1,43 @@
+import { useState, useEffect } from 'react';
+import { GeozoneMatch } from '@/types/Geozone';
+import { FLIGHT_GEOZONE_RADIUS_METERS, GeozoneService } from '@/services/geozoneService';
+
+/**
+ * Hook for checking a coordinates string against the geozones
+ * Returns the zones at or within the radius of the position, updated when it changes
+ */
+export function useGeozoneCheck(coordinates: string, radiusMeters: number = FLIGHT_GEOZONE_RADIUS_METERS): {
+  matches: GeozoneMatch[];
+  checking: boolean;
+} {
+  const [matches, setMatches] = useState<GeozoneMatch[]>([]);
+  const [checking, setChecking] = useState(false);
+
+  useEffect(() => {
+    if (!(coordinates || '').trim()) {
+      setMatches([]);
+      return;
+    }
+
+    // Ignore results for a position that was edited in the meantime
+    let cancelled = false;
+    setChecking(true);
+    GeozoneService.checkLocation(coordinates, radiusMeters)
+      .then(result => {
+        if (!cancelled) setMatches(result);
+      })
+      .catch(error => {
+        console.error('Error checking geozones:', error);
+        if (!cancelled) setMatches([]);
+      })
+      .finally(() => {
+        if (!cancelled) setChecking(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [coordinates, radiusMeters]);
+
+  return { matches, checking };
+}
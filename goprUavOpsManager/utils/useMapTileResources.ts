@@ -0,0 +1,27 @@
+import { useState, useEffect } from 'react';
+import { MapTileResources } from '@/types/MapTiles';
+import { MapTileCacheService } from './mapTileCache';
+import { ONLINE_MAP_RESOURCES } from './mapTileUtils';
+import { useNetworkStatus } from './useNetworkStatus';
+
+/**
+ * Hook for where the embedded maps load Leaflet and tiles from
+ * Switches to downloaded tiles while offline, when there are any
+ */
+export function useMapTileResources(): MapTileResources {
+  const { isOffline } = useNetworkStatus();
+  const [offlineResources, setOfflineResources] = useState<MapTileResources | null>(null);
+
+  useEffect(() => {
+    if (!isOffline) {
+      setOfflineResources(null);
+      return;
+    }
+
+    MapTileCacheService.getOfflineResources()
+      .then(setOfflineResources)
+      .catch(error => console.error('Error loading offline map tiles:', error));
+  }, [isOffline]);
+
+  return offlineResources || ONLINE_MAP_RESOURCES;
+}
@@ -22,8 +22,9 @@ export function useOfflineButtons() {
    * @returns true if navigation should be disabled
    */
   const isNavigationDisabled = (route: string): boolean => {
-    // Only procedures routes are allowed offline
-    const offlineRoutes = ['/procedures', '/info-contact'];
+    // Procedures, drones, flights and tasks work from the device cache; new flights and task updates
+    // are saved to the offline outbox
+    const offlineRoutes = ['/procedures', '/info-contact', '/drones', '/flights', '/tasks'];
     const isOfflineRoute = offlineRoutes.some(allowedRoute =>
       route.startsWith(allowedRoute) || route === '/'
     );
@@ -0,0 +1,51 @@
+import { useState, useEffect, useCallback } from 'react';
+import { OfflineDatasetStatus, OfflineReadinessLevel } from '@/types/OfflineReadiness';
+import { OfflineProcedureChecklistService } from '@/services/offlineProcedureChecklistService';
+import { OfflineCategoryService } from '@/services/offlineCategoryService';
+import { OfflineDataService } from '@/services/offlineDataService';
+import { useSync } from '@/contexts/SyncContext';
+import { getOfflineReadiness } from './offlineReadinessUtils';
+
+/**
+ * Hook for how much of the data needed offline is downloaded on this device
+ * Reloaded whenever a background sync finishes
+ */
+export function useOfflineReadiness(userId?: string): {
+  statuses: OfflineDatasetStatus[];
+  level: OfflineReadinessLevel;
+  refresh: () => Promise<void>;
+} {
+  const { isSyncing } = useSync();
+  const [statuses, setStatuses] = useState<OfflineDatasetStatus[]>([]);
+
+  const refresh = useCallback(async () => {
+    if (!userId) {
+      setStatuses([]);
+      return;
+    }
+
+    try {
+      const [procedureStats, categoryStats, dataStats] = await Promise.all([
+        OfflineProcedureChecklistService.getCacheStats(),
+        OfflineCategoryService.getCacheStats(),
+        OfflineDataService.getCacheStats(userId),
+      ]);
+
+      setStatuses([
+        { dataset: 'procedures', itemCount: procedureStats.procedureCount, lastUpdated: procedureStats.lastUpdated },
+        { dataset: 'categories', itemCount: categoryStats.categoryCount, lastUpdated: categoryStats.lastUpdated },
+        ...dataStats,
+      ]);
+    } catch (error) {
+      console.error('Error loading offline readiness:', error);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    if (!isSyncing) {
+      refresh();
+    }
+  }, [isSyncing, refresh]);
+
+  return { statuses, level: getOfflineReadiness(statuses), refresh };
+}
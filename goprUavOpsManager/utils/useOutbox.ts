@@ -0,0 +1,46 @@
+import { useState, useEffect, useCallback } from 'react';
+import { OutboxMutation } from '@/types/OutboxMutation';
+import { OfflineOutboxService } from '@/services/offlineOutboxService';
+
+/**
+ * Hook for the user's writes waiting in the offline outbox
+ * Returns the mutations, updated when the outbox changes, with actions to replay,
+ * retry (apply anyway) or discard them
+ */
+export function useOutbox(userId?: string): {
+  mutations: OutboxMutation[];
+  replay: () => Promise<void>;
+  retry: (id: string) => Promise<void>;
+  discard: (id: string) => Promise<void>;
+} {
+  const [mutations, setMutations] = useState<OutboxMutation[]>([]);
+
+  useEffect(() => {
+    if (!userId) {
+      setMutations([]);
+      return;
+    }
+
+    OfflineOutboxService.getMutations(userId).then(setMutations);
+
+    return OfflineOutboxService.addListener(allMutations => {
+      setMutations(allMutations.filter(mutation => mutation.userId === userId));
+    });
+  }, [userId]);
+
+  const replay = useCallback(async () => {
+    if (!userId) return;
+    await OfflineOutboxService.replayPendingMutations(userId);
+  }, [userId]);
+
+  const retry = useCallback(async (id: string) => {
+    await OfflineOutboxService.retryMutation(id);
+    await replay();
+  }, [replay]);
+
+  const discard = useCallback(async (id: string) => {
+    await OfflineOutboxService.discardMutation(id);
+  }, []);
+
+  return { mutations, replay, retry, discard };
+}